@@ -0,0 +1,70 @@
+// Download the sentence embedding model that memory search uses (see src/main/ai/embeddings.ts)
+// into assets/models, which is packaged with the app. Files already present are kept
+// when their checksum matches.
+import path from 'path';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import chalk from 'chalk';
+import webpackPaths from '../configs/webpack.paths';
+
+const MODEL = 'all-MiniLM-L6-v2';
+// Pinned commit of the model repository, so a new upload cannot change what is packaged
+const REVISION = 'c9745ed1d9f207416be6d2e6f8de32d1f16199bf';
+const BASE_URL = `https://huggingface.co/sentence-transformers/${MODEL}/resolve/${REVISION}`;
+
+// Local file name, path in the model repository and sha256 at REVISION
+const FILES: [string, string, string][] = [
+  [
+    'model.onnx',
+    'onnx/model.onnx',
+    '6fd5d72fe4589f189f8ebc006442dbb529bb7ce38f8082112682524616046452',
+  ],
+  [
+    'vocab.txt',
+    'vocab.txt',
+    '07eced375cec144d27c900241f3e339478dec958f92fddbc551f295c992038a3',
+  ],
+];
+
+const modelDir = path.join(webpackPaths.rootPath, 'assets', 'models', MODEL);
+
+const sha256 = (data: Buffer) =>
+  createHash('sha256').update(data).digest('hex');
+
+const download = async (file: string, source: string, checksum: string) => {
+  const target = path.join(modelDir, file);
+  if (fs.existsSync(target) && sha256(fs.readFileSync(target)) === checksum) {
+    return;
+  }
+
+  console.log(`Downloading ${MODEL}/${file}`);
+  const response = await fetch(`${BASE_URL}/${source}`);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${source}: HTTP ${response.status}`);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (sha256(data) !== checksum) {
+    throw new Error(`Checksum mismatch for ${source} at ${REVISION}`);
+  }
+
+  // Written under a temporary name so an interrupted download is not taken for the model
+  const partial = `${target}.download`;
+  fs.writeFileSync(partial, data);
+  fs.renameSync(partial, target);
+};
+
+(async () => {
+  fs.mkdirSync(modelDir, { recursive: true });
+  await Promise.all(
+    FILES.map(([file, source, checksum]) => download(file, source, checksum)),
+  );
+  console.log(chalk.green(`Embedding model ready in ${modelDir}`));
+})().catch((error) => {
+  console.error(
+    chalk.whiteBright.bgRed.bold(
+      `${error.message}. Memory search stays keyword-only until the model is in ${modelDir} (or EMBEDDING_MODEL_PATH).`,
+    ),
+  );
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { chunkText, refreshCourseMaterials } from '../main/courseMaterials';
+import { closeDatabase, initializeDatabase, runMigrations } from '../main/db';
+import { SqliteStore } from '../main/db/sqliteStore';
+import {
+  FakeMoodleServer,
+  createFakeMoodleServer,
+} from '../main/fakeMoodle/server';
+
+// Materials are downloaded from the fake Moodle server and indexed in a store on a
+// real SQLite database in a temporary directory.
+
+const mockTmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'materials-test-'));
+const mockConnection = { baseUrl: '', apiKey: '' };
+const mockStore = { current: null as SqliteStore | null };
+
+jest.mock('electron', () => ({
+  ipcMain: { handle: jest.fn() },
+  app: {
+    isReady: () => true,
+    getPath: () => mockTmpDir,
+    getName: () => 'materials-test',
+    isPackaged: false,
+  },
+  safeStorage: { isEncryptionAvailable: () => false },
+}));
+
+jest.mock('../main/moodleProfiles', () => ({
+  getActiveConfig: () => mockConnection,
+  activeSiteScope: () => '',
+}));
+
+jest.mock('../main/ai/memory', () => ({
+  memoryManager: { getStore: () => mockStore.current },
+}));
+
+jest.mock('../main/pdfTool', () => ({ parsePdfToJson: jest.fn() }));
+jest.mock('../main/msftdocx', () => ({ parseDocxFile: jest.fn() }));
+
+describe('chunkText', () => {
+  const sentence = (n: number) =>
+    `Sentence ${n} explains one more point about version control.`;
+
+  it('keeps short text in one passage with whitespace collapsed', () => {
+    expect(chunkText('  Branches\n\nand   merges ')).toEqual([
+      'Branches and merges',
+    ]);
+    expect(chunkText(' \n ')).toEqual([]);
+  });
+
+  it('splits long text at sentence ends into overlapping passages', () => {
+    const text = Array.from({ length: 60 }, (_, i) => sentence(i)).join(' ');
+    const chunks = chunkText(text);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(1000));
+    chunks.slice(0, -1).forEach((chunk) => expect(chunk).toMatch(/\.$/));
+    // Each passage starts inside the end of the one before it
+    chunks.slice(1).forEach((chunk, i) => {
+      expect(chunks[i]).toContain(chunk.slice(0, 40));
+    });
+    expect(chunks[chunks.length - 1]).toMatch(/Sentence 59 /);
+  });
+});
+
+describe('refreshCourseMaterials', () => {
+  let server: FakeMoodleServer;
+  let store: SqliteStore;
+  const COURSE = 101;
+  const NAMESPACE = ['materials', String(COURSE)];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase({ fileName: 'materials.db' });
+    runMigrations();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    fs.rmSync(mockTmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    server = createFakeMoodleServer();
+    mockConnection.baseUrl = await server.start();
+    mockConnection.apiKey = server.fixtures.token;
+    store = new SqliteStore();
+    mockStore.current = store;
+    await Promise.all(
+      (await store.search(['materials'], { limit: 1000 })).map((item) =>
+        store.delete(item.namespace, item.key),
+      ),
+    );
+  });
+
+  afterEach(() => {
+    server.stop();
+    jest.restoreAllMocks();
+  });
+
+  const outlineModule = () =>
+    server.fixtures.courses
+      .find((course) => course.id === COURSE)!
+      .sections.flatMap((section) => section.modules)
+      .find((module) => module.files?.includes('course-outline.txt'))!;
+
+  it('indexes each file once until it changes', async () => {
+    const first = await refreshCourseMaterials(COURSE, true);
+    expect(first).toMatchObject({ files: 1, indexed: 1, failed: [] });
+    const passages = await store.search(NAMESPACE, { limit: 100 });
+    expect(passages.some((item) => item.value.text)).toBe(true);
+
+    expect(await refreshCourseMaterials(COURSE, true)).toMatchObject({
+      indexed: 0,
+    });
+
+    server.fixtures.files['course-outline.txt'].timemodified = 1800000000;
+    expect(await refreshCourseMaterials(COURSE, true)).toMatchObject({
+      indexed: 1,
+    });
+  });
+
+  it('indexes a file again when its last indexing was cut short', async () => {
+    await refreshCourseMaterials(COURSE, true);
+    const [fileNamespace] = await store.listNamespaces({ prefix: NAMESPACE });
+    // Passages written, but not the marker that follows them
+    await store.delete(fileNamespace, 'indexed');
+
+    expect(await refreshCourseMaterials(COURSE, true)).toMatchObject({
+      indexed: 1,
+    });
+  });
+
+  it('drops files that were removed from the course', async () => {
+    await refreshCourseMaterials(COURSE, true);
+    outlineModule().files = [];
+
+    expect(await refreshCourseMaterials(COURSE, true)).toMatchObject({
+      files: 0,
+      removed: 1,
+    });
+    expect(await store.search(NAMESPACE, { limit: 100 })).toEqual([]);
+  });
+
+  it('keeps the token out of the logs', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    await refreshCourseMaterials(COURSE, true);
+
+    const logged = log.mock.calls.flat().join(' ');
+    expect(logged).toContain('course-outline');
+    expect(logged).not.toContain(server.fixtures.token);
+  });
+});
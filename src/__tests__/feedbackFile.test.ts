@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { annotateDocx } from '../main/feedbackFile';
+
+jest.mock('electron', () => ({
+  ipcMain: { handle: jest.fn() },
+  app: { getPath: () => jest.requireActual('os').tmpdir() },
+}));
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const paragraph = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const writeDocx = async (dir: string, body: string) => {
+  const zip = new JSZip();
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${WORD_NS}"><w:body>${body}</w:body></w:document>`,
+  );
+  const filePath = path.join(dir, 'essay.docx');
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+  return filePath;
+};
+
+// Positions of the paragraphs that comment ranges start in
+const commentedParagraphs = async (filePath: string) => {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+  const xml = await zip.file('word/document.xml')!.async('string');
+  return Array.from(xml.matchAll(/<w:p>[\s\S]*?<\/w:p>/g))
+    .map((m, position) => (m[0].includes('commentRangeStart') ? position : -1))
+    .filter((position) => position >= 0);
+};
+
+describe('annotated DOCX feedback', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'feedback-file-'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('comments on the paragraph at the element index when texts repeat', async () => {
+    const filePath = await writeDocx(
+      dir,
+      [
+        paragraph('Introduction', 'Heading1'),
+        paragraph('See above.'),
+        paragraph(''),
+        paragraph('Method', 'Heading1'),
+        paragraph('See above.'),
+      ].join(''),
+    );
+    const outputPath = path.join(dir, 'essay_feedback.docx');
+
+    // Both headings come first in the indexed HTML, so the second paragraph is index 3
+    const result = await annotateDocx({
+      filePath,
+      outputPath,
+      comments: [
+        {
+          elementType: 'paragraph',
+          elementIndex: '3',
+          anchorText: 'See above.',
+          color: 'red',
+          comment: 'Which part of the method?',
+        },
+        {
+          elementType: 'heading1',
+          elementIndex: '1',
+          anchorText: 'Method',
+          color: 'green',
+          comment: 'Clear heading',
+        },
+      ],
+    });
+
+    expect(result.unmatched).toEqual([]);
+    expect(await commentedParagraphs(outputPath)).toEqual([3, 4]);
+  });
+
+  it('falls back to the text when the element index does not agree', async () => {
+    const filePath = await writeDocx(
+      dir,
+      [paragraph('First point.'), paragraph('Second point.')].join(''),
+    );
+    const outputPath = path.join(dir, 'essay_feedback.docx');
+
+    const result = await annotateDocx({
+      filePath,
+      outputPath,
+      comments: [
+        {
+          elementType: 'tableCell',
+          elementIndex: '0',
+          anchorText: 'Second point.',
+          color: 'yellow',
+          comment: 'Expand this',
+        },
+        {
+          elementType: 'paragraph',
+          elementIndex: '7',
+          anchorText: 'Not in the document',
+          color: 'red',
+          comment: 'Lost comment',
+        },
+      ],
+    });
+
+    expect(result.unmatched).toEqual(['Lost comment']);
+    expect(await commentedParagraphs(outputPath)).toEqual([1]);
+  });
+});
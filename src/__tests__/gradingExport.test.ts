@@ -0,0 +1,213 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import {
+  parseCsv,
+  parseXlsx,
+  setupGradingExportHandlers,
+  toCsv,
+  toXlsx,
+} from '../main/gradingExport';
+import { parseGradeImportTable } from '../renderer/utils/gradingExport';
+import type { StudentSubmissionData } from '../renderer/types/grading';
+
+// File formats of the grade export and import; the import runs through the
+// grading-export:open handler with the open dialog answering with a test file
+
+const mockHandlers = new Map<string, (event: unknown) => Promise<any>>();
+const mockOpenDialog = jest.fn();
+
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: (channel: string, handler: (event: unknown) => Promise<any>) => {
+      mockHandlers.set(channel, handler);
+    },
+  },
+  dialog: {
+    showOpenDialog: (...args: unknown[]) => mockOpenDialog(...args),
+    showSaveDialog: jest.fn(),
+  },
+}));
+
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+const student = (id: string, fullname: string, email: string) =>
+  ({
+    student: {
+      id,
+      username: id,
+      firstname: fullname.split(' ')[0],
+      lastname: fullname.split(' ')[1],
+      fullname,
+      email,
+    },
+    currentGrade: '',
+    feedback: '',
+    isEditing: false,
+  }) as StudentSubmissionData;
+
+const STUDENTS = [
+  student('11', 'Alice Chan', 'alice@example.edu'),
+  student('12', 'Ben Ortiz', 'ben@example.edu'),
+];
+
+// A workbook as Excel saves it: text in the shared strings, numbers inline
+const writeSharedStringsXlsx = async () => {
+  const zip = new JSZip();
+  zip.file(
+    'xl/sharedStrings.xml',
+    `<sst xmlns="${SHEET_NS}"><si><t>Student ID</t></si><si><t>Final grade</t></si>` +
+      `<si><r><t>Good</t></r><r><t xml:space="preserve"> work &amp; effort</t></r></si></sst>`,
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    `<worksheet xmlns="${SHEET_NS}"><sheetData>` +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+      '<row r="2"><c r="A2"><v>11</v></c><c r="C2" t="s"><v>2</v></c></row>' +
+      '<row r="3"><c r="A3"/></row>' +
+      '</sheetData></worksheet>',
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+};
+
+describe('grade export file formats', () => {
+  it('reads back the CSV it writes', () => {
+    const table = {
+      headers: ['Student ID', 'Final grade', 'Final feedback'],
+      rows: [
+        ['11', 17.5, 'Clear method, "careful" results'],
+        ['12', null, 'Line one\nLine two, with a comma'],
+      ],
+    };
+
+    expect(parseCsv(toCsv(table))).toEqual([
+      ['Student ID', 'Final grade', 'Final feedback'],
+      ['11', '17.5', 'Clear method, "careful" results'],
+      ['12', '', 'Line one\nLine two, with a comma'],
+    ]);
+  });
+
+  it('reads CSV saved with a BOM, ";" delimiters and blank lines', () => {
+    const content =
+      '\uFEFFStudent ID;Final grade;Final feedback\r\n' +
+      '11;17,5;"Well done; see comments"\r\n' +
+      '\r\n' +
+      '12;12;\r\n';
+
+    expect(parseCsv(content)).toEqual([
+      ['Student ID', 'Final grade', 'Final feedback'],
+      ['11', '17,5', 'Well done; see comments'],
+      ['12', '12', ''],
+    ]);
+  });
+
+  it('reads back the XLSX it writes', async () => {
+    const buffer = await toXlsx(
+      {
+        headers: ['Student ID', 'AI score', 'Final feedback'],
+        rows: [
+          ['11', 17.5, 'Uses <b> & "quotes"'],
+          ['12', null, ''],
+        ],
+      },
+      'Lab report: 1/2',
+    );
+
+    expect(await parseXlsx(buffer)).toEqual([
+      ['Student ID', 'AI score', 'Final feedback'],
+      ['11', '17.5', 'Uses <b> & "quotes"'],
+      ['12'],
+    ]);
+  });
+
+  it('reads shared strings, rich text and skipped columns', async () => {
+    expect(await parseXlsx(await writeSharedStringsXlsx())).toEqual([
+      ['Student ID', 'Final grade'],
+      ['11', '', 'Good work & effort'],
+    ]);
+  });
+});
+
+describe('grade import', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setupGradingExportHandlers();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'grade-import-'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const importFile = async (fileName: string, content: string | Buffer) => {
+    const filePath = path.join(dir, fileName);
+    fs.writeFileSync(filePath, content);
+    mockOpenDialog.mockResolvedValueOnce({
+      canceled: false,
+      filePaths: [filePath],
+    });
+    return mockHandlers.get('grading-export:open')!({});
+  };
+
+  it('matches rows to students and reports the unknown ones', async () => {
+    const csv = toCsv({
+      headers: [' Student ID ', 'Email', 'Final grade', 'Final feedback'],
+      rows: [
+        ['11', 'alice@example.edu', '17,5', 'Good'],
+        ['', 'BEN@example.edu', 12, ''],
+        ['99', 'someone@example.edu', 10, 'Not in this class'],
+        ['12', '', '-', 'Not graded offline'],
+      ],
+    });
+    const result = await importFile('grades.csv', `\uFEFF${csv}`);
+    expect(result.success).toBe(true);
+    expect(result.data.headers).toEqual([
+      'Student ID',
+      'Email',
+      'Final grade',
+      'Final feedback',
+    ]);
+
+    expect(parseGradeImportTable(result.data, STUDENTS)).toEqual({
+      grades: [
+        { studentId: '11', finalGrade: '17.5', finalFeedback: 'Good' },
+        { studentId: '12', finalGrade: '12', finalFeedback: '' },
+      ],
+      unmatched: ['99'],
+    });
+  });
+
+  it("imports Moodle's worksheet by participant identifier", async () => {
+    const result = await importFile(
+      'worksheet.xlsx',
+      await toXlsx({
+        headers: ['Identifier', 'Full name', 'Grade', 'Feedback comments'],
+        rows: [
+          ['Participant 501', 'Ben Ortiz', '14.00', 'Neat'],
+          ['Participant 999', 'Gone Student', '9.00', ''],
+        ],
+      }),
+    );
+
+    expect(
+      parseGradeImportTable(result.data, STUDENTS, [
+        { id: '12', fullname: 'Ben Ortiz', recordid: 501 },
+      ]),
+    ).toEqual({
+      grades: [{ studentId: '12', finalGrade: '14', finalFeedback: 'Neat' }],
+      unmatched: ['Participant 999'],
+    });
+  });
+
+  it('reports an empty file', async () => {
+    const result = await importFile('empty.csv', '\uFEFF\r\n');
+    expect(result).toEqual({ success: false, error: 'The file is empty' });
+  });
+});
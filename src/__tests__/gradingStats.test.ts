@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { computeCohortStatistics } from '../renderer/utils/gradingStats';
+import type {
+  GradingRecord,
+  StudentSubmissionData,
+} from '../renderer/types/grading';
+
+const record = (
+  studentId: string,
+  overallScore: number,
+  extra: Partial<GradingRecord> = {},
+): GradingRecord => ({
+  assignmentId: '7',
+  studentId,
+  aiGradeResult: { grade: overallScore, feedback: '' },
+  detailedAIGradeResult: {
+    comments: [],
+    overallScore,
+    shortFeedback: '',
+    scoreBreakdown: [
+      {
+        criteriaName: 'Argument',
+        score: overallScore / 2,
+        maxScore: 10,
+        feedback: '',
+      },
+    ],
+  },
+  isAIGraded: true,
+  ...extra,
+});
+
+const student = (id: string, graded = false): StudentSubmissionData =>
+  ({
+    student: { id, fullname: `Student ${id}` },
+    grade: graded ? { grade: '0' } : undefined,
+    currentGrade: '',
+    feedback: '',
+    isEditing: false,
+  }) as unknown as StudentSubmissionData;
+
+describe('computeCohortStatistics', () => {
+  it('summarises the spread of AI scores', () => {
+    const stats = computeCohortStatistics(
+      [record('1', 10), record('2', 12), record('3', 14), record('4', 16)],
+      [],
+      20,
+    );
+
+    expect(stats.count).toBe(4);
+    expect(stats.mean).toBe(13);
+    expect(stats.median).toBe(13);
+    expect(stats.min).toBe(10);
+    expect(stats.max).toBe(16);
+    expect(stats.stdDev).toBeCloseTo(2.24, 2);
+  });
+
+  it('bins scores over the rubric total rather than 100', () => {
+    const stats = computeCohortStatistics(
+      [record('1', 3), record('2', 19), record('3', 20)],
+      [],
+      20,
+    );
+
+    expect(stats.histogram).toHaveLength(10);
+    expect(stats.histogram[0]).toEqual({ from: 0, to: 2, count: 0 });
+    expect(stats.histogram[1].count).toBe(1);
+    // The top score falls in the last bin
+    expect(stats.histogram[9]).toEqual({ from: 18, to: 20, count: 2 });
+  });
+
+  it('flags scores outside the Tukey fences', () => {
+    const stats = computeCohortStatistics(
+      ['1', '2', '3', '4', '5']
+        .map((id) => record(id, 70))
+        .concat(record('6', 5)),
+      [student('6')],
+      100,
+    );
+
+    expect(stats.outliers).toEqual([
+      { studentId: '6', studentName: 'Student 6', score: 5, direction: 'low' },
+    ]);
+  });
+
+  it('averages criteria scores as a share of their maximum', () => {
+    const stats = computeCohortStatistics(
+      [record('1', 10), record('2', 14)],
+      [],
+      20,
+    );
+
+    expect(stats.criteria).toEqual([
+      {
+        criteriaName: 'Argument',
+        averageScore: 6,
+        maxScore: 10,
+        averagePercent: 60,
+        count: 2,
+      },
+    ]);
+  });
+
+  it('compares published final grades with the AI score', () => {
+    const stats = computeCohortStatistics(
+      [
+        record('1', 12, { finalGrade: '14' }),
+        record('2', 15, { finalGrade: '15' }),
+        // Not published to Moodle yet
+        record('3', 10, { finalGrade: '18' }),
+      ],
+      [student('1', true), student('2', true), student('3')],
+      20,
+    );
+
+    expect(stats.comparisons.map((entry) => entry.studentId)).toEqual([
+      '1',
+      '2',
+    ]);
+    expect(stats.meanAdjustment).toBe(1);
+    expect(stats.adjustedCount).toBe(1);
+  });
+});
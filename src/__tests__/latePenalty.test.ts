@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import {
+  DEFAULT_LATE_PENALTY,
+  calculateLatePenalty,
+  getDaysLate,
+  getPenaltyMaxScore,
+  getSubmissionTiming,
+} from '../renderer/utils/latePenalty';
+import type {
+  LatePenaltySettings,
+  StudentSubmissionData,
+  SubmissionTiming,
+} from '../renderer/types/grading';
+import type { MoodleAssignment } from '../renderer/types/moodle';
+
+const DAY = 24 * 60 * 60;
+const DUE = 1700000000;
+
+const settings = (
+  extra: Partial<LatePenaltySettings> = {},
+): LatePenaltySettings => ({
+  ...DEFAULT_LATE_PENALTY,
+  enabled: true,
+  ...extra,
+});
+
+const timing = (lateBy: number): SubmissionTiming => ({
+  dueDate: DUE,
+  extended: false,
+  submittedAt: DUE + lateBy,
+  lateBy,
+  overdue: false,
+});
+
+const submission = (
+  timemodified: number,
+  extra: Partial<StudentSubmissionData> = {},
+): StudentSubmissionData =>
+  ({
+    student: { id: '1', fullname: 'Student 1' },
+    submission: { status: 'submitted', timemodified },
+    currentGrade: '',
+    feedback: '',
+    isEditing: false,
+    ...extra,
+  }) as unknown as StudentSubmissionData;
+
+const assignment = { duedate: DUE, grade: 100 } as MoodleAssignment;
+
+describe('getSubmissionTiming', () => {
+  it('measures lateness from the due date', () => {
+    expect(getSubmissionTiming(submission(DUE + 90), assignment)).toMatchObject(
+      { dueDate: DUE, extended: false, submittedAt: DUE + 90, lateBy: 90 },
+    );
+    expect(getSubmissionTiming(submission(DUE - 90), assignment).lateBy).toBe(
+      0,
+    );
+  });
+
+  it('uses the extension granted to the student', () => {
+    const data = submission(DUE + DAY, { extensionDueDate: DUE + 2 * DAY });
+    expect(getSubmissionTiming(data, assignment)).toMatchObject({
+      dueDate: DUE + 2 * DAY,
+      extended: true,
+      lateBy: 0,
+    });
+  });
+});
+
+describe('calculateLatePenalty', () => {
+  it('counts a started day as a day', () => {
+    expect(getDaysLate(1)).toBe(1);
+    expect(getDaysLate(DAY)).toBe(1);
+    expect(getDaysLate(DAY + 1)).toBe(2);
+  });
+
+  it('takes a share of the maximum score per day late', () => {
+    expect(calculateLatePenalty(15, 20, timing(DAY + 1), settings())).toEqual({
+      daysLate: 2,
+      percent: 20,
+      originalGrade: 15,
+      deduction: 4,
+      grade: 11,
+    });
+  });
+
+  it('takes a share of the awarded grade when based on the grade', () => {
+    const penalty = calculateLatePenalty(
+      15,
+      20,
+      timing(DAY),
+      settings({ basis: 'grade' }),
+    );
+    expect(penalty).toMatchObject({ deduction: 1.5, grade: 13.5 });
+  });
+
+  it('caps the penalty and never goes below zero', () => {
+    expect(
+      calculateLatePenalty(15, 20, timing(30 * DAY), settings())?.percent,
+    ).toBe(50);
+    expect(
+      calculateLatePenalty(
+        2,
+        20,
+        timing(3 * DAY),
+        settings({ percentPerDay: 30 }),
+      )?.grade,
+    ).toBe(0);
+  });
+
+  it('leaves on-time, grace-period and disabled cases alone', () => {
+    expect(calculateLatePenalty(15, 20, timing(0), settings())).toBeNull();
+    expect(
+      calculateLatePenalty(15, 20, timing(600), settings({ graceMinutes: 15 })),
+    ).toBeNull();
+    expect(
+      calculateLatePenalty(15, 20, timing(DAY), settings({ enabled: false })),
+    ).toBeNull();
+  });
+
+  it('bases the maximum on the rubric scale the AI score uses', () => {
+    expect(getPenaltyMaxScore(20, assignment)).toBe(20);
+    // Without a rubric the score is taken to be out of Moodle's maximum grade
+    expect(getPenaltyMaxScore(0, assignment)).toBe(100);
+
+    // 10% of a 20 point rubric, not of Moodle's 100
+    const penalty = calculateLatePenalty(
+      15,
+      getPenaltyMaxScore(20, assignment),
+      timing(DAY),
+      settings(),
+    );
+    expect(penalty?.grade).toBe(13);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WordPieceTokenizer } from '../main/ai/embeddings';
+import { closeDatabase, initializeDatabase, runMigrations } from '../main/db';
+import { SqliteStore, StoreEmbeddings } from '../main/db/sqliteStore';
+
+// The store runs on a real SQLite database in a temporary directory. Embeddings come
+// from a stand-in that maps words to topics, so "meaning" is predictable.
+
+const mockTmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-search-'));
+
+jest.mock('electron', () => ({
+  ipcMain: { handle: jest.fn() },
+  app: {
+    isReady: () => true,
+    getPath: () => mockTmpDir,
+    getName: () => 'memory-search-test',
+    isPackaged: false,
+  },
+  safeStorage: { isEncryptionAvailable: () => false },
+}));
+
+jest.mock('onnxruntime-node', () => ({}));
+jest.mock('../main/ort', () => ({ loadModel: jest.fn() }));
+
+const VOCAB = [
+  '[PAD]',
+  '[UNK]',
+  '[CLS]',
+  '[SEP]',
+  'the',
+  'essay',
+  'deadline',
+  'cafe',
+  'un',
+  '##believ',
+  '##able',
+  ',',
+  '!',
+].join('\n');
+
+describe('WordPieceTokenizer', () => {
+  const tokenizer = new WordPieceTokenizer(VOCAB);
+  const ids = (text: string, maxTokens?: number) =>
+    tokenizer.encode(text, maxTokens).map((id) => VOCAB.split('\n')[id]);
+
+  it('lowercases, strips accents and splits off punctuation', () => {
+    expect(ids('The Café, essay!')).toEqual([
+      '[CLS]',
+      'the',
+      'cafe',
+      ',',
+      'essay',
+      '!',
+      '[SEP]',
+    ]);
+  });
+
+  it('splits words into the longest vocabulary pieces', () => {
+    expect(ids('unbelievable')).toEqual([
+      '[CLS]',
+      'un',
+      '##believ',
+      '##able',
+      '[SEP]',
+    ]);
+  });
+
+  it('maps words it cannot split to the unknown token', () => {
+    expect(ids('the rubric')).toEqual(['[CLS]', 'the', '[UNK]', '[SEP]']);
+  });
+
+  it('truncates to the model length, keeping the end marker', () => {
+    expect(ids('the essay deadline the essay', 4)).toEqual([
+      '[CLS]',
+      'the',
+      'essay',
+      '[SEP]',
+    ]);
+  });
+});
+
+// Words of the same topic share a dimension
+const TOPICS = [
+  ['deadline', 'due', 'late', 'extension'],
+  ['essay', 'writing', 'draft'],
+  ['grade', 'mark', 'score'],
+];
+
+const topicEmbeddings = (): StoreEmbeddings & { available: boolean } => {
+  const embed = (text: string) =>
+    TOPICS.map(
+      (words) =>
+        (text.toLowerCase().match(/[a-z]+/g) ?? []).filter((word) =>
+          words.includes(word),
+        ).length,
+    );
+  return {
+    available: true,
+    isAvailable() {
+      return this.available;
+    },
+    embedDocuments: async (texts) => texts.map(embed),
+    embedQuery: async (text) => embed(text),
+  };
+};
+
+describe('SqliteStore search', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase({ fileName: 'memory.db' });
+    runMigrations();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    fs.rmSync(mockTmpDir, { recursive: true, force: true });
+  });
+
+  const keys = (items: { key: string }[]) => items.map((item) => item.key);
+
+  it('finds items by meaning and ranks those matching both ways first', async () => {
+    const store = new SqliteStore({
+      index: { embeddings: topicEmbeddings(), fields: { notes: ['text'] } },
+    });
+    await store.put(['notes', 'ranking'], 'extension', {
+      text: 'Students asked for an extension',
+    });
+    await store.put(['notes', 'ranking'], 'deadline', {
+      text: 'The deadline moved to Friday, late work loses marks',
+    });
+    await store.put(['notes', 'ranking'], 'lunch', {
+      text: 'Lunch is at noon',
+    });
+
+    const results = await store.search(['notes', 'ranking'], {
+      query: 'deadline',
+    });
+    // "extension" shares no word with the query, only its meaning
+    expect(keys(results)).toEqual(['deadline', 'extension']);
+    expect(results[0].score).toBeGreaterThan(results[1].score!);
+  });
+
+  it('searches only the namespace asked for', async () => {
+    const store = new SqliteStore({
+      index: { embeddings: topicEmbeddings(), fields: { notes: ['text'] } },
+    });
+    await store.put(['notes', 'other'], 'deadline', {
+      text: 'Another deadline',
+    });
+
+    const results = await store.search(['notes', 'ranking'], {
+      query: 'deadline',
+    });
+    expect(results.map((item) => item.namespace)).not.toContainEqual([
+      'notes',
+      'other',
+    ]);
+  });
+
+  it('falls back to keywords without the model and embeds the items once it is there', async () => {
+    const embeddings = topicEmbeddings();
+    embeddings.available = false;
+    const store = new SqliteStore({
+      index: { embeddings, fields: { notes: ['text'] } },
+    });
+    await store.put(['notes', 'reindex'], 'draft', {
+      text: 'First draft of the essay',
+    });
+    await store.put(['notes', 'reindex'], 'writing', {
+      text: 'Writing workshop',
+    });
+
+    // Keywords only: the query word has to appear in the text
+    expect(
+      keys(await store.search(['notes', 'reindex'], { query: 'essay' })),
+    ).toEqual(['draft']);
+    // Nothing is missing an index entry, and nothing can be embedded yet
+    expect(await store.reindex()).toBe(0);
+
+    embeddings.available = true;
+    expect(await store.reindex()).toBe(2);
+    expect(await store.reindex()).toBe(0);
+    expect(
+      keys(await store.search(['notes', 'reindex'], { query: 'essay' })),
+    ).toEqual(['draft', 'writing']);
+  });
+
+  it('drops deleted items from the index', async () => {
+    const store = new SqliteStore({
+      index: { embeddings: topicEmbeddings(), fields: { notes: ['text'] } },
+    });
+    await store.put(['notes', 'delete'], 'grade', { text: 'Grade released' });
+    await store.delete(['notes', 'delete'], 'grade');
+
+    expect(await store.search(['notes', 'delete'], { query: 'grade' })).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { setupMoodleHandlers } from '../main/moodle';
+import { setupFileIOHandlers } from '../main/fileio';
+import { setupNotificationHandlers } from '../main/studentNotifications';
+import {
+  FakeMoodleServer,
+  createFakeMoodleServer,
+} from '../main/fakeMoodle/server';
+
+// The Moodle IPC handlers run against the fake Moodle server; the local
+// mirror's database is stubbed out since it only matters offline. The
+// handlers take the site's token from its saved profile, as the renderer
+// only names the site.
+
+const mockHandlers = new Map<
+  string,
+  (event: unknown, args?: any) => Promise<any>
+>();
+const mockSend = jest.fn();
+
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: (
+      channel: string,
+      handler: (event: unknown, args?: any) => Promise<any>,
+    ) => {
+      mockHandlers.set(channel, handler);
+    },
+  },
+  app: { getPath: () => jest.requireActual('os').tmpdir(), isPackaged: false },
+  safeStorage: {
+    isEncryptionAvailable: () => true,
+    encryptString: (value: string) => Buffer.from(value),
+    decryptString: (value: Buffer) => value.toString(),
+  },
+  BrowserWindow: {
+    getAllWindows: () => [{ webContents: { send: mockSend } }],
+  },
+}));
+
+jest.mock('../main/db', () => ({
+  executeQuery: jest.fn(() => []),
+  executeTransaction: jest.fn(),
+  initializeDatabase: jest.fn(),
+  runMigrations: jest.fn(),
+}));
+
+const invoke = (channel: string, args: Record<string, unknown>) => {
+  const handler = mockHandlers.get(channel);
+  if (!handler) throw new Error(`No handler for ${channel}`);
+  return handler({}, args);
+};
+
+describe('Moodle handlers', () => {
+  let server: FakeMoodleServer;
+  let connection: { baseUrl: string };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setupMoodleHandlers();
+    setupNotificationHandlers();
+    setupFileIOHandlers();
+  });
+
+  beforeEach(async () => {
+    server = createFakeMoodleServer();
+    const baseUrl = await server.start();
+    connection = { baseUrl };
+    await invoke('moodle:save-config', {
+      baseUrl,
+      apiKey: server.fixtures.token,
+    });
+  });
+
+  afterEach(() => server.stop());
+
+  it('lists courses and assignments with their course module ids', async () => {
+    const courses = await invoke('moodle:get-courses', connection);
+    expect(courses.success).toBe(true);
+    expect(courses.data.map((c: any) => c.shortname)).toEqual(['COMP1010']);
+
+    // Shortnames resolve to the course id
+    const assignments = await invoke('moodle:get-assignments', {
+      ...connection,
+      courseId: 'COMP1010',
+    });
+    expect(assignments.data.map((a: any) => [a.id, a.cmid])).toEqual([
+      [1, 601],
+      [2, 602],
+    ]);
+  });
+
+  it('returns the errorcode of a rejected token', async () => {
+    await invoke('moodle:save-config', {
+      ...connection,
+      apiKey: 'expired-token',
+    });
+    const result = await invoke('moodle:get-courses', connection);
+    expect(result).toMatchObject({ success: false, errorcode: 'invalidtoken' });
+  });
+
+  it('retries a read when Moodle is briefly unavailable', async () => {
+    server.failNext('mod_assign_get_submissions', { status: 503 });
+
+    const result = await invoke('moodle:get-assignment-submissions', {
+      ...connection,
+      assignmentId: '1',
+    });
+    expect(result.success).toBe(true);
+    expect(result.data.map((s: any) => s.userid)).toEqual([11, 12, 13]);
+    expect(server.callsTo('mod_assign_get_submissions')).toHaveLength(2);
+  });
+
+  it('lists submission files that download only with the token', async () => {
+    const result = await invoke('moodle:get-submission-files', {
+      ...connection,
+      assignmentId: '1',
+      userId: '11',
+    });
+    const file = result.data.find((f: any) => f.filename === 'alice-essay.txt');
+    expect(file).toMatchObject({ mimetype: 'text/plain' });
+
+    const denied = await fetch(file.fileurl);
+    expect(denied.status).toBe(403);
+
+    const download = await fetch(
+      `${file.fileurl}?token=${server.fixtures.token}`,
+    );
+    expect(await download.text()).toContain('Why version control matters');
+  });
+
+  it('signs file downloads of the saved site in the main process', async () => {
+    const result = await invoke('moodle:get-submission-files', {
+      ...connection,
+      assignmentId: '1',
+      userId: '11',
+    });
+    const file = result.data.find((f: any) => f.filename === 'alice-essay.txt');
+
+    const download = await invoke('fileio:download-file', {
+      url: file.fileurl,
+      filename: `moodle-test-${Date.now()}.txt`,
+    });
+    expect(download.success).toBe(true);
+    try {
+      expect(fs.readFileSync(download.filePath, 'utf8')).toContain(
+        'Why version control matters',
+      );
+    } finally {
+      fs.rmSync(download.filePath, { force: true });
+    }
+
+    const config = await invoke('moodle:get-config', {});
+    expect(config.data).toMatchObject({
+      baseUrl: connection.baseUrl,
+      hasToken: true,
+    });
+    expect(config.data.apiKey).toBeUndefined();
+  });
+
+  it('publishes grades with feedback and an annotated file in one batch', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-moodle-'));
+    const filePath = path.join(dir, 'annotated.txt');
+    fs.writeFileSync(filePath, 'Annotated essay');
+
+    try {
+      const result = await invoke('moodle:publish-grades-batch', {
+        ...connection,
+        courseId: '101',
+        assignmentId: '1',
+        grades: [
+          {
+            userId: '11',
+            grade: 85,
+            feedback: '<p>Well argued.</p>',
+            feedbackFile: { filePath },
+          },
+          {
+            userId: '12',
+            grade: 60,
+            feedback: '<p>Needs examples.</p>',
+            advancedGrading: {
+              method: 'rubric',
+              criteria: [
+                { criterionId: 41, levelId: 412, remark: 'Thin argument' },
+                { criterionId: 42, levelId: 423 },
+              ],
+            },
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.successCount).toBe(2);
+      expect(server.callsTo('mod_assign_save_grades')).toHaveLength(1);
+
+      const grades = server.fixtures.grades.filter((g) => g.assignment === 1);
+      expect(grades.find((g) => g.userid === 11)).toMatchObject({
+        grade: 85,
+        feedback: '<p>Well argued.</p>',
+      });
+      expect(grades.find((g) => g.userid === 12)).toMatchObject({
+        grade: 60,
+        feedback: '<p>Needs examples.</p>',
+      });
+
+      // The annotated copy comes back as a feedback file
+      const files = await invoke('moodle:get-submission-files', {
+        ...connection,
+        assignmentId: '1',
+        userId: '11',
+      });
+      expect(files.data.map((f: any) => f.filename)).toContain('annotated.txt');
+
+      const instances = await invoke('moodle:get-grading-instances', {
+        ...connection,
+        definitionId: 31,
+      });
+      expect(instances.data[0].rubric.criteria).toEqual([
+        expect.objectContaining({
+          criterionid: 41,
+          levelid: 412,
+          remark: 'Thin argument',
+        }),
+        expect.objectContaining({ criterionid: 42, levelid: 423 }),
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('saves the rest of a batch when one grade is rejected', async () => {
+    const result = await invoke('moodle:publish-grades-batch', {
+      ...connection,
+      courseId: '101',
+      assignmentId: '2',
+      grades: [
+        { userId: '11', grade: 18 },
+        { userId: '99', grade: 10 }, // not enrolled
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.data.successful.map((r: any) => r.userId)).toEqual(['11']);
+    expect(result.data.failed).toEqual([
+      expect.objectContaining({ userId: '99', errorcode: 'nopermissions' }),
+    ]);
+    expect(
+      server.fixtures.grades.find((g) => g.assignment === 2 && g.userid === 11)
+        ?.grade,
+    ).toBe(18);
+  });
+
+  it('grants extensions and reports the students Moodle refused', async () => {
+    const extendedTo = 1759708800;
+    const result = await invoke('moodle:grant-extensions', {
+      ...connection,
+      assignmentId: '1',
+      userIds: ['12', '99'],
+      extensionDueDate: extendedTo,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.data.granted).toEqual(['12']);
+    expect(result.data.failed).toEqual([
+      expect.objectContaining({ userId: '99' }),
+    ]);
+
+    const extensions = await invoke('moodle:get-assignment-extensions', {
+      ...connection,
+      assignmentId: '1',
+    });
+    expect(extensions.data).toEqual(
+      expect.arrayContaining([
+        { userid: '12', extensionduedate: extendedTo },
+        { userid: '13', extensionduedate: 1759104000 },
+      ]),
+    );
+  });
+
+  it('grades a team submission once and keeps a member adjustment', async () => {
+    // The lab report becomes a group assignment with one shared submission
+    server.fixtures.assignments.find((a) => a.id === 2)!.teamsubmission = 1;
+    server.fixtures.submissions.push({
+      assignment: 2,
+      userid: 0,
+      groupid: 21,
+      status: 'submitted',
+      timemodified: 1759017600,
+      files: ['alice-lab.txt'],
+    });
+
+    const groups = await invoke('moodle:get-course-groups', {
+      ...connection,
+      courseId: '101',
+    });
+    expect(groups.data[0]).toEqual({
+      id: '21',
+      name: 'Lab group A',
+      members: ['11', '12'],
+    });
+
+    // Every member sees the group's files
+    const files = await invoke('moodle:get-submission-files', {
+      ...connection,
+      assignmentId: '2',
+      userId: '12',
+    });
+    expect(files.data.map((f: any) => f.filename)).toContain('alice-lab.txt');
+
+    const result = await invoke('moodle:publish-grades-batch', {
+      ...connection,
+      courseId: '101',
+      assignmentId: '2',
+      grades: [
+        { userId: '11', grade: 15, feedback: '<p>Solid lab.</p>' },
+        {
+          userId: '12',
+          grade: 18,
+          feedback: '<p>Led the analysis.</p>',
+          applyToAll: false,
+        },
+      ],
+    });
+    expect(result.success).toBe(true);
+
+    const gradeOf = (userId: number) =>
+      server.fixtures.grades.find(
+        (g) => g.assignment === 2 && g.userid === userId,
+      );
+    expect(gradeOf(11)).toMatchObject({
+      grade: 15,
+      feedback: '<p>Solid lab.</p>',
+    });
+    expect(gradeOf(12)).toMatchObject({
+      grade: 18,
+      feedback: '<p>Led the analysis.</p>',
+    });
+    expect(gradeOf(13)).toBeUndefined();
+  });
+
+  it('only forms teams from the grouping a team assignment uses', async () => {
+    server.fixtures.groups!.unshift({
+      id: 23,
+      courseid: 101,
+      name: 'Seminar group',
+      members: [11, 13],
+    });
+    server.fixtures.groupings = [
+      { id: 5, courseid: 101, name: 'Lab groups', groups: [21, 22] },
+    ];
+    Object.assign(server.fixtures.assignments.find((a) => a.id === 2)!, {
+      teamsubmission: 1,
+      teamsubmissiongroupingid: 5,
+    });
+    server.fixtures.submissions.push({
+      assignment: 2,
+      userid: 0,
+      groupid: 21,
+      status: 'submitted',
+      timemodified: 1759017600,
+      files: ['alice-lab.txt'],
+    });
+
+    const all = await invoke('moodle:get-course-groups', {
+      ...connection,
+      courseId: '101',
+    });
+    expect(all.data.map((g: any) => g.id)).toEqual(['23', '21', '22']);
+
+    const groups = await invoke('moodle:get-course-groups', {
+      ...connection,
+      courseId: '101',
+      groupingId: 5,
+    });
+    expect(groups.data.map((g: any) => g.id)).toEqual(['21', '22']);
+
+    // Alice submits with her lab group, not the seminar group listed first
+    const files = await invoke('moodle:get-submission-files', {
+      ...connection,
+      assignmentId: '2',
+      userId: '11',
+    });
+    expect(files.data.map((f: any) => f.filename)).toContain('alice-lab.txt');
+  });
+
+  it('refuses to overwrite a quiz total with an essay grade', async () => {
+    const submission = await invoke('moodle:get-activity-submission', {
+      ...connection,
+      activityId: 'quiz-1',
+      userId: '11',
+    });
+    expect(submission.success).toBe(true);
+    expect(JSON.stringify(submission.data.content)).toContain('a tuple cannot');
+
+    const saved = await invoke('moodle:save-activity-grade', {
+      ...connection,
+      activityId: 'quiz-1',
+      userId: '11',
+      grade: 8,
+      feedback: 'Good contrast.',
+    });
+    expect(saved.success).toBe(false);
+    expect(saved.error).toMatch(/manual grading/);
+    expect(server.fixtures.quizGrades || []).toEqual([]);
+  });
+
+  it('grades a forum through the point grading panel', async () => {
+    const saved = await invoke('moodle:save-activity-grade', {
+      ...connection,
+      activityId: 'forum-1',
+      userId: '12',
+      grade: 7,
+    });
+    expect(saved.success).toBe(true);
+    expect(server.fixtures.forumGrades).toEqual([
+      expect.objectContaining({ forum: 1, userid: 12, grade: 7 }),
+    ]);
+  });
+
+  it('signs in with a username and password for a web service token', async () => {
+    const options = await invoke('moodle:auth:get-login-options', {
+      baseUrl: connection.baseUrl,
+    });
+    expect(options.data).toMatchObject({
+      sitename: 'Fake Moodle',
+      typeoflogin: 1,
+    });
+
+    const result = await invoke('moodle:auth:login', {
+      baseUrl: connection.baseUrl,
+      username: 'tteacher',
+      password: 'Teacher-123',
+    });
+    expect(result.success).toBe(true);
+    expect(result.data.apiKey).toBeUndefined();
+    expect(result.data.profile).toMatchObject({
+      username: 'tteacher',
+      loginMethod: 'password',
+      service: 'moodle_mobile_app',
+    });
+
+    const denied = await invoke('moodle:auth:login', {
+      baseUrl: connection.baseUrl,
+      username: 'tteacher',
+      password: 'wrong',
+    });
+    expect(denied).toMatchObject({ success: false, errorcode: 'invalidlogin' });
+  });
+
+  it('asks for a new sign-in when the active token is rejected', async () => {
+    await invoke('moodle:auth:login', {
+      baseUrl: connection.baseUrl,
+      username: 'tteacher',
+      password: 'Teacher-123',
+    });
+    mockSend.mockClear();
+
+    // The token is revoked on the site
+    server.fixtures.token = 'renewed-token';
+    await invoke('moodle:get-courses', connection);
+
+    expect(mockSend).toHaveBeenCalledTimes(1);
+    expect(mockSend).toHaveBeenCalledWith(
+      'moodle:session-expired',
+      expect.objectContaining({ username: 'tteacher', expired: true }),
+    );
+  });
+
+  it('messages students who have not submitted, one result each', async () => {
+    const result = await invoke('notifications:send', {
+      ...connection,
+      courseId: '101',
+      assignmentId: '2',
+      kind: 'missing',
+      messages: [
+        { userId: '11', text: 'Hi Alice, the essay is due on Friday.' },
+        { userId: '99', text: 'Hi there' }, // no such user
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.data.sent).toEqual([
+      expect.objectContaining({ userId: '11', status: 'sent' }),
+    ]);
+    expect(result.data.failed).toEqual([
+      expect.objectContaining({ userId: '99', status: 'failed' }),
+    ]);
+    expect(server.fixtures.messages).toEqual([
+      expect.objectContaining({
+        useridto: 11,
+        text: 'Hi Alice, the essay is due on Friday.',
+      }),
+    ]);
+  });
+});
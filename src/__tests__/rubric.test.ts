@@ -0,0 +1,323 @@
+/**
+ * @jest-environment node
+ */
+import {
+  buildAdvancedGradingData,
+  compareScoreBreakdowns,
+  convertMoodleGradingDefinition,
+  formatRubricForPrompt,
+  getRubricTotal,
+  isSameGradeResult,
+  validateScoreBreakdown,
+} from '../renderer/utils/rubric';
+import type {
+  DetailedAIGradeResult,
+  Rubric,
+  ScoreBreakdownItem,
+} from '../renderer/types/grading';
+import type { MoodleGradingDefinition } from '../renderer/types/moodle';
+
+const level = (points: number, moodleLevelId?: number) => ({
+  id: `level-${points}`,
+  label: `${points} points`,
+  points,
+  descriptor: `Worth ${points}`,
+  moodleLevelId,
+});
+
+const rubric: Rubric = {
+  source: 'manual',
+  criteria: [
+    { id: 'a', name: 'Argument', maxScore: 10, levels: [] },
+    { id: 'e', name: 'Evidence', maxScore: 6, levels: [] },
+    { id: 's', name: 'Style & clarity', maxScore: 4, levels: [] },
+  ],
+};
+
+const item = (
+  criteriaName: string,
+  score: number,
+  maxScore = 0,
+): ScoreBreakdownItem => ({
+  criteriaName,
+  score,
+  maxScore,
+  feedback: `${criteriaName} feedback`,
+});
+
+const result = (
+  scoreBreakdown: ScoreBreakdownItem[],
+): DetailedAIGradeResult => ({
+  comments: [],
+  overallScore: 99,
+  scoreBreakdown,
+  shortFeedback: 'Good work',
+});
+
+describe('validateScoreBreakdown', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('gives one entry per criterion with the rubric maxima and their sum', () => {
+    const validated = validateScoreBreakdown(
+      result([
+        item('evidence', 5),
+        item('Argument', 8),
+        item('Style and clarity', 3),
+      ]),
+      rubric,
+    );
+    expect(validated.scoreBreakdown).toEqual([
+      item('Argument', 8, 10),
+      { ...item('Evidence', 5, 6), feedback: 'evidence feedback' },
+      {
+        ...item('Style & clarity', 3, 4),
+        feedback: 'Style and clarity feedback',
+      },
+    ]);
+    expect(validated.overallScore).toBe(16);
+  });
+
+  it('clamps scores to the criterion range and drops unknown criteria', () => {
+    const validated = validateScoreBreakdown(
+      result([
+        item('Argument', 14),
+        item('Evidence', -2),
+        item('Spelling', 3),
+        item('Style & clarity', 9),
+      ]),
+      rubric,
+    );
+    expect(validated.scoreBreakdown.map((entry) => entry.score)).toEqual([
+      10, 0, 4,
+    ]);
+    expect(validated.overallScore).toBe(14);
+  });
+
+  it('matches renamed criteria by position when the counts agree', () => {
+    const validated = validateScoreBreakdown(
+      result([item('Thesis', 7), item('Sources', 4), item('Writing', 2)]),
+      rubric,
+    );
+    expect(validated.scoreBreakdown.map((entry) => entry.score)).toEqual([
+      7, 4, 2,
+    ]);
+  });
+
+  it('snaps scores to the levels of a Moodle rubric', () => {
+    const moodleRubric: Rubric = {
+      source: 'moodle',
+      moodle: { definitionId: 1, method: 'rubric', name: 'Essay' },
+      criteria: [
+        {
+          id: 'a',
+          name: 'Argument',
+          maxScore: 10,
+          levels: [level(0), level(5), level(10)],
+        },
+      ],
+    };
+    const validated = validateScoreBreakdown(
+      result([item('Argument', 7)]),
+      moodleRubric,
+    );
+    expect(validated.scoreBreakdown[0].score).toBe(5);
+  });
+
+  it('leaves results alone without a rubric', () => {
+    const original = result([item('Argument', 8)]);
+    expect(validateScoreBreakdown(original, null)).toBe(original);
+  });
+});
+
+describe('rubric helpers', () => {
+  it('totals the criterion maxima', () => {
+    expect(getRubricTotal(rubric)).toBe(20);
+  });
+
+  it('lists criteria and levels for the grading prompt', () => {
+    const prompt = formatRubricForPrompt({
+      source: 'manual',
+      criteria: [
+        {
+          id: 'a',
+          name: 'Argument',
+          description: 'Clear thesis',
+          maxScore: 10,
+          levels: [level(10)],
+        },
+      ],
+    });
+    expect(prompt).toBe(
+      [
+        '1. "Argument" (maxScore: 10)',
+        '   Description: Clear thesis',
+        '   - 10 points (10 points): Worth 10',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('Moodle grading definitions', () => {
+  const rubricDefinition: MoodleGradingDefinition = {
+    id: 7,
+    method: 'rubric',
+    name: 'Essay rubric',
+    rubric: {
+      rubric_criteria: [
+        {
+          id: 21,
+          sortorder: 2,
+          description: '<p>Evidence</p>',
+          levels: [
+            { id: 212, score: 4, definition: 'Strong&nbsp;sources' },
+            { id: 211, score: 0, definition: 'None' },
+          ],
+        },
+        {
+          id: 20,
+          sortorder: 1,
+          description: 'Argument',
+          levels: [
+            { id: 201, score: 0, definition: 'Missing' },
+            { id: 202, score: 6, definition: 'Convincing' },
+          ],
+        },
+      ],
+    },
+  };
+
+  it('converts a rubric in sort order with levels from low to high', () => {
+    const converted = convertMoodleGradingDefinition(rubricDefinition)!;
+    expect(converted.moodle).toEqual({
+      definitionId: 7,
+      method: 'rubric',
+      name: 'Essay rubric',
+    });
+    expect(
+      converted.criteria.map((criterion) => [
+        criterion.name,
+        criterion.maxScore,
+        criterion.moodleCriterionId,
+      ]),
+    ).toEqual([
+      ['Argument', 6, 20],
+      ['Evidence', 4, 21],
+    ]);
+    expect(converted.criteria[1].levels.map((l) => l.descriptor)).toEqual([
+      'None',
+      'Strong sources',
+    ]);
+  });
+
+  it('converts a marking guide', () => {
+    const converted = convertMoodleGradingDefinition({
+      id: 8,
+      method: 'guide',
+      name: 'Lab guide',
+      guide: {
+        guide_criteria: [
+          {
+            id: 30,
+            sortorder: 1,
+            shortname: 'Method',
+            descriptionmarkers: '<b>Steps</b> are repeatable',
+            maxscore: 5,
+          },
+        ],
+      },
+    })!;
+    expect(converted.criteria).toEqual([
+      {
+        id: 'moodle-criterion-30',
+        name: 'Method',
+        description: 'Steps are repeatable',
+        maxScore: 5,
+        levels: [],
+        moodleCriterionId: 30,
+      },
+    ]);
+  });
+
+  it('fills Moodle rubric levels and guide scores from the breakdown', () => {
+    const converted = convertMoodleGradingDefinition(rubricDefinition)!;
+    expect(
+      buildAdvancedGradingData(converted, [
+        item('Argument', 5),
+        item('Evidence', 1),
+      ]),
+    ).toEqual({
+      method: 'rubric',
+      criteria: [
+        { criterionId: 20, levelId: 202, remark: 'Argument feedback' },
+        { criterionId: 21, levelId: 211, remark: 'Evidence feedback' },
+      ],
+    });
+
+    const guide: Rubric = {
+      ...converted,
+      moodle: { ...converted.moodle!, method: 'guide' },
+    };
+    expect(buildAdvancedGradingData(guide, [item('Argument', 5)])).toEqual({
+      method: 'guide',
+      criteria: [
+        { criterionId: 20, score: 5, remark: 'Argument feedback' },
+        { criterionId: 21, score: 0, remark: '' },
+      ],
+    });
+
+    expect(buildAdvancedGradingData(rubric, [item('Argument', 5)])).toBe(
+      undefined,
+    );
+  });
+
+  it('leaves a Moodle rubric unfilled when a criterion has no level', () => {
+    const converted = convertMoodleGradingDefinition(rubricDefinition)!;
+    expect(
+      buildAdvancedGradingData(converted, [item('Argument', 5)]),
+    ).toBeUndefined();
+
+    const withoutLevels: Rubric = {
+      ...converted,
+      criteria: converted.criteria.map((criterion, index) =>
+        index === 1 ? { ...criterion, levels: [] } : criterion,
+      ),
+    };
+    expect(
+      buildAdvancedGradingData(withoutLevels, [
+        item('Argument', 5),
+        item('Evidence', 1),
+      ]),
+    ).toBeUndefined();
+  });
+});
+
+describe('comparing grading passes', () => {
+  it('flags criteria that differ by more than the threshold or are missing', () => {
+    const disagreements = compareScoreBreakdowns(
+      [item('Argument', 8, 10), item('Evidence', 4, 6), item('Style', 3, 4)],
+      [item('Argument', 7, 10), item('evidence', 1, 6)],
+      0.2,
+    );
+    expect(
+      disagreements.map((d) => [
+        d.criteriaName,
+        d.difference,
+        d.exceedsThreshold,
+      ]),
+    ).toEqual([
+      ['Argument', 1, false],
+      ['Evidence', 3, true],
+      ['Style', 3, true],
+    ]);
+  });
+
+  it('tells whether two passes gave the same grade', () => {
+    const first = result([item('Argument', 8, 10)]);
+    expect(isSameGradeResult(first, { ...first, comments: [] })).toBe(true);
+    expect(isSameGradeResult(first, result([item('Argument', 7, 10)]))).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  compareSubmissions,
+  estimateSimilarity,
+  minhashSignature,
+  setupSimilarityHandlers,
+  shingleHashes,
+  tokenize,
+  tokenizeSubmission,
+} from '../main/similarity';
+import {
+  closeDatabase,
+  executeQuery,
+  initializeDatabase,
+  runMigrations,
+} from '../main/db';
+import { registerGradingIpcHandlers } from '../main/db/gradingHandlers';
+
+// MinHash comparison runs on plain inputs; the report is saved to a real
+// SQLite database in a temporary directory.
+
+const mockTmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'similarity-test-'));
+
+const mockHandlers = new Map<
+  string,
+  (event: unknown, args?: any) => Promise<any>
+>();
+
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: (
+      channel: string,
+      handler: (event: unknown, args?: any) => Promise<any>,
+    ) => {
+      mockHandlers.set(channel, handler);
+    },
+  },
+  app: {
+    isReady: () => true,
+    getPath: () => mockTmpDir,
+    getName: () => 'similarity-test',
+    isPackaged: false,
+  },
+  safeStorage: { isEncryptionAvailable: () => false },
+}));
+
+const invoke = (channel: string, args: Record<string, unknown>) => {
+  const handler = mockHandlers.get(channel);
+  if (!handler) throw new Error(`No handler for ${channel}`);
+  return handler({}, args);
+};
+
+const ESSAY =
+  'The industrial revolution changed how people worked because factories replaced workshops and families moved to growing cities for wages';
+const OTHER_ESSAY =
+  'Photosynthesis lets plants turn sunlight water and carbon dioxide into glucose while releasing oxygen that animals breathe every day';
+
+const paragraphs = (...texts: string[]) =>
+  texts
+    .map(
+      (text, index) =>
+        `<p data-element-type="paragraph" data-element-index="${index}">${text}</p>`,
+    )
+    .join('');
+
+describe('similarity helpers', () => {
+  it('tokenizes words and each CJK character', () => {
+    expect(tokenize('Hello, World! 2024')).toEqual(['hello', 'world', '2024']);
+    expect(tokenize('學生 essay')).toEqual(['學', '生', 'essay']);
+  });
+
+  it('keeps the element of each token in a submission', () => {
+    const tokenized = tokenizeSubmission(
+      paragraphs('First part', 'Second &amp; last'),
+      '',
+    );
+    expect(tokenized.tokens).toEqual(['first', 'part', 'second', 'last']);
+    expect(tokenized.tokenElements).toEqual([0, 0, 1, 1]);
+  });
+
+  it('falls back to the plain text without indexed elements', () => {
+    const tokenized = tokenizeSubmission('<div>ignored</div>', 'Plain text');
+    expect(tokenized.tokens).toEqual(['plain', 'text']);
+    expect(tokenized.elements).toEqual([]);
+  });
+
+  it('hashes short texts as a single shingle', () => {
+    expect(shingleHashes(['a', 'b'], 5)).toHaveLength(1);
+    expect(shingleHashes([], 5)).toEqual([]);
+    expect(shingleHashes(tokenize(ESSAY), 5)).toHaveLength(
+      tokenize(ESSAY).length - 4,
+    );
+  });
+
+  it('estimates the overlap of shingle sets', () => {
+    const a = minhashSignature(new Set(shingleHashes(tokenize(ESSAY), 3)));
+    const b = minhashSignature(new Set(shingleHashes(tokenize(ESSAY), 3)));
+    const c = minhashSignature(
+      new Set(shingleHashes(tokenize(OTHER_ESSAY), 3)),
+    );
+
+    expect(estimateSimilarity(a, b)).toBe(1);
+    expect(estimateSimilarity(a, c)).toBeLessThan(0.1);
+    // Empty submissions never match
+    const empty = minhashSignature(new Set());
+    expect(estimateSimilarity(empty, empty)).toBe(0);
+  });
+
+  it('flags copied submissions and locates the shared passages', () => {
+    const result = compareSubmissions(
+      [
+        { studentId: '1', html: paragraphs(ESSAY), text: ESSAY },
+        { studentId: '2', html: paragraphs('Intro', ESSAY), text: '' },
+        { studentId: '3', html: paragraphs(OTHER_ESSAY), text: OTHER_ESSAY },
+      ],
+      { threshold: 0.5 },
+    );
+
+    expect(result.matrix[0][0]).toBe(1);
+    expect(result.matrix[0][1]).toBeGreaterThan(0.8);
+    expect(result.matrix[0][2]).toBeLessThan(0.1);
+
+    const [pair] = result.pairs;
+    expect(pair).toMatchObject({ studentA: '1', studentB: '2', flagged: true });
+    expect(pair.passagesA).toEqual([
+      {
+        elementType: 'paragraph',
+        elementIndex: 0,
+        text: tokenize(ESSAY).join(' '),
+      },
+    ]);
+    expect(pair.passagesB[0].elementIndex).toBe(1);
+  });
+
+  it('ignores template text most submissions share', () => {
+    const template =
+      'Answer the question below in full sentences and cite your sources';
+    const answers = [
+      ESSAY,
+      OTHER_ESSAY,
+      'Volcanoes form where tectonic plates meet and magma rises through cracks in the crust',
+      'The printing press spread ideas quickly across europe and made books cheaper for readers',
+    ];
+    const result = compareSubmissions(
+      answers.map((answer, index) => ({
+        studentId: String(index + 1),
+        html: '',
+        text: `${template} ${answer}`,
+      })),
+    );
+
+    expect(result.pairs.filter((pair) => pair.flagged)).toEqual([]);
+  });
+});
+
+describe('similarity:analyze', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    initializeDatabase({ fileName: 'similarity.db' });
+    runMigrations();
+    setupSimilarityHandlers();
+    registerGradingIpcHandlers();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    fs.rmSync(mockTmpDir, { recursive: true, force: true });
+  });
+
+  const cacheText = (studentId: string, text: string) =>
+    executeQuery(
+      'insert into submission_texts (assignment_id, student_id, text, html, parsed_at) values (?, ?, ?, ?, ?)',
+      ['12', studentId, text, '', Date.now()],
+    );
+
+  it('keeps flags out of the grading records of ungraded students', async () => {
+    cacheText('1', ESSAY);
+    cacheText('2', ESSAY);
+    cacheText('3', OTHER_ESSAY);
+
+    const result = await invoke('similarity:analyze', {
+      assignmentId: '12',
+      site: '',
+      students: ['1', '2', '3'].map((studentId) => ({
+        studentId,
+        studentName: `Student ${studentId}`,
+      })),
+    });
+    expect(result.success).toBe(true);
+
+    expect(executeQuery('select * from grading_records')).toEqual([]);
+
+    const records = await invoke('grading:list-records', {
+      assignmentId: '12',
+      site: '',
+    });
+    const flagged = records.data
+      .filter((record: any) => record.similarity?.flagged)
+      .map((record: any) => record.studentId);
+    expect(flagged).toEqual(['1', '2']);
+    expect(records.data.every((record: any) => !record.isAIGraded)).toBe(true);
+  });
+
+  it('attaches flags to existing grading records and replaces old ones', async () => {
+    await invoke('grading:save-record', {
+      site: '',
+      record: {
+        assignmentId: '12',
+        studentId: '1',
+        aiGradeResult: { grade: 80, feedback: 'Good' },
+        detailedAIGradeResult: null,
+        isAIGraded: true,
+      },
+    });
+    executeQuery('update submission_texts set text = ? where student_id = ?', [
+      OTHER_ESSAY,
+      '2',
+    ]);
+
+    await invoke('similarity:analyze', {
+      assignmentId: '12',
+      site: '',
+      students: ['1', '2', '3'].map((studentId) => ({
+        studentId,
+        studentName: `Student ${studentId}`,
+      })),
+    });
+
+    const records = await invoke('grading:list-records', {
+      assignmentId: '12',
+      site: '',
+    });
+    const byStudent = new Map(
+      records.data.map((record: any) => [record.studentId, record]),
+    );
+    expect(byStudent.get('1')).toMatchObject({
+      isAIGraded: true,
+      similarity: { flagged: false },
+    });
+    expect((byStudent.get('2') as any).similarity.flagged).toBe(true);
+    expect((byStudent.get('3') as any).similarity.flagged).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  Annotation,
+  Command,
+  LangGraphRunnableConfig,
+  StateGraph,
+  interrupt,
+} from '@langchain/langgraph';
+import { emptyCheckpoint } from '@langchain/langgraph-checkpoint';
+import { closeDatabase, initializeDatabase, runMigrations } from '../main/db';
+import { SqliteSaver } from '../main/db/sqliteSaver';
+
+// Checkpoints are saved to a real SQLite database in a temporary directory.
+
+const mockTmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'saver-test-'));
+
+jest.mock('electron', () => ({
+  ipcMain: { handle: jest.fn() },
+  app: {
+    isReady: () => true,
+    getPath: () => mockTmpDir,
+    getName: () => 'saver-test',
+    isPackaged: false,
+  },
+  safeStorage: { isEncryptionAvailable: () => false },
+}));
+
+const State = Annotation.Root({
+  steps: Annotation<string[]>({
+    reducer: (x, y) => [...x, ...y],
+    default: () => [],
+  }),
+});
+
+// Asks for a decision between two steps, and checks each step gets a live signal
+function approvalGraph(checkpointer: SqliteSaver) {
+  const step =
+    (name: string) =>
+    async (_state: unknown, config: LangGraphRunnableConfig) => {
+      config.signal!.addEventListener('abort', () => {});
+      return { steps: [name] };
+    };
+  return new StateGraph(State)
+    .addNode('draft', step('draft'))
+    .addNode('ask', () => ({ steps: [interrupt('Send it?') as string] }))
+    .addNode('send', step('send'))
+    .addEdge('__start__', 'draft')
+    .addEdge('draft', 'ask')
+    .addEdge('ask', 'send')
+    .compile({ checkpointer });
+}
+
+// Everything an async generator yields
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const found: T[] = [];
+  // eslint-disable-next-line no-restricted-syntax
+  for await (const item of items) found.push(item);
+  return found;
+}
+
+const runConfig = (threadId: string, checkpointId?: string) => ({
+  configurable: {
+    thread_id: threadId,
+    ...(checkpointId ? { checkpoint_id: checkpointId } : {}),
+  },
+  signal: new AbortController().signal,
+});
+
+describe('SqliteSaver', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase({ fileName: 'saver.db' });
+    runMigrations();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    fs.rmSync(mockTmpDir, { recursive: true, force: true });
+  });
+
+  const checkpoint = (id: string) => ({ ...emptyCheckpoint(), id });
+
+  it('returns the latest checkpoint of a thread, or the one asked for', async () => {
+    const saver = new SqliteSaver();
+    const first = await saver.put(
+      { configurable: { thread_id: 'saved' } },
+      checkpoint('0001'),
+      { source: 'input', step: -1, parents: {} },
+    );
+    await saver.put(first, checkpoint('0002'), {
+      source: 'loop',
+      step: 0,
+      parents: {},
+    });
+
+    const latest = await saver.getTuple({
+      configurable: { thread_id: 'saved' },
+    });
+    expect(latest?.checkpoint.id).toBe('0002');
+    expect(latest?.metadata).toMatchObject({ source: 'loop', step: 0 });
+    expect(latest?.parentConfig?.configurable?.checkpoint_id).toBe('0001');
+
+    const earlier = await saver.getTuple(runConfig('saved', '0001'));
+    expect(earlier?.checkpoint.id).toBe('0001');
+    expect(earlier?.parentConfig).toBeUndefined();
+  });
+
+  it('lists checkpoints newest first and filters them', async () => {
+    const saver = new SqliteSaver();
+    const ids = async (options?: object) =>
+      (
+        await collect(
+          saver.list({ configurable: { thread_id: 'saved' } }, options),
+        )
+      ).map((tuple) => tuple.checkpoint.id);
+
+    expect(await ids()).toEqual(['0002', '0001']);
+    expect(await ids({ limit: 1 })).toEqual(['0002']);
+    expect(
+      await ids({ before: { configurable: { checkpoint_id: '0002' } } }),
+    ).toEqual(['0001']);
+    expect(await ids({ filter: { source: 'input' } })).toEqual(['0001']);
+  });
+
+  it('keeps pending writes with their checkpoint', async () => {
+    const saver = new SqliteSaver();
+    const config = runConfig('saved', '0002');
+    await saver.putWrites(config, [['steps', ['draft']]], 'task-1');
+    // A task's regular writes are kept once
+    await saver.putWrites(config, [['steps', ['again']]], 'task-1');
+
+    const tuple = await saver.getTuple(config);
+    expect(tuple?.pendingWrites).toEqual([['task-1', 'steps', ['draft']]]);
+  });
+
+  it('lists and deletes threads', async () => {
+    const saver = new SqliteSaver();
+    expect(saver.listThreads()).toContainEqual(
+      expect.objectContaining({ threadId: 'saved', checkpointCount: 2 }),
+    );
+
+    await saver.deleteThread('saved');
+    expect(
+      await saver.getTuple({ configurable: { thread_id: 'saved' } }),
+    ).toBeUndefined();
+    expect(saver.listThreads().map((t) => t.threadId)).not.toContain('saved');
+  });
+
+  it('resumes an interrupted run after a restart with a new signal', async () => {
+    await approvalGraph(new SqliteSaver()).invoke({}, runConfig('resume'));
+
+    // A new saver and graph stand in for the app after a restart
+    const graph = approvalGraph(new SqliteSaver());
+    const paused = await graph.getState(runConfig('resume'));
+    expect(paused.next).toEqual(['ask']);
+    expect(paused.values.steps).toEqual(['draft']);
+
+    const resumed = await graph.invoke(
+      new Command({ resume: 'approved' }),
+      runConfig('resume'),
+    );
+    expect(resumed.steps).toEqual(['draft', 'approved', 'send']);
+  });
+
+  it('replays a thread from an earlier checkpoint', async () => {
+    const graph = approvalGraph(new SqliteSaver());
+    await graph.invoke({}, runConfig('replay'));
+    await graph.invoke(new Command({ resume: 'first' }), runConfig('replay'));
+
+    // The checkpoint before the draft, so the question is asked again
+    const history = await collect(graph.getStateHistory(runConfig('replay')));
+    const beforeDraft = history.find((snapshot) => snapshot.next[0] === 'draft')
+      ?.config.configurable?.checkpoint_id;
+    expect(beforeDraft).toBeDefined();
+
+    await graph.invoke(null, runConfig('replay', beforeDraft));
+    const replayed = await graph.invoke(
+      new Command({ resume: 'second' }),
+      runConfig('replay'),
+    );
+    expect(replayed.steps).toEqual(['draft', 'second', 'send']);
+  });
+});
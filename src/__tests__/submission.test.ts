@@ -0,0 +1,211 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { parseSubmissionFile } from '../main/submission';
+import {
+  SUPPORTED_SUBMISSION_EXTENSIONS,
+  detectSubmissionFormat,
+} from '../main/submissionFormats';
+import { parsePdfToJson } from '../main/pdfTool';
+import { performOcr } from '../main/ocr';
+
+// Every submission format parses into element-indexed HTML. PDF.js and the OCR
+// engine are stubbed with the results they give; DOCX files go through mammoth.
+
+jest.mock('electron', () => ({
+  ipcMain: { handle: jest.fn() },
+  app: { getPath: () => jest.requireActual('os').tmpdir() },
+}));
+
+jest.mock('../main/pdfTool', () => ({ parsePdfToJson: jest.fn() }));
+jest.mock('../main/ocr', () => ({ performOcr: jest.fn() }));
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const writeDocx = async (filePath: string, body: string) => {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '</Types>',
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '</Relationships>',
+  );
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${WORD_NS}"><w:body>${body}</w:body></w:document>`,
+  );
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+};
+
+// A PDF.js text item as parsePdfToJson reports it
+const pdfItem = (
+  elementId: string,
+  pageNumber: number,
+  y: number,
+  text: string,
+) => ({
+  elementId,
+  pageNumber,
+  position: { y, height: 12 },
+  content: { text },
+  context: { hasEOL: true },
+});
+
+describe('submission formats', () => {
+  it('detects the format from the extension, then the mimetype', () => {
+    expect(detectSubmissionFormat('Essay.DOCX')).toBe('docx');
+    expect(detectSubmissionFormat('notes.markdown')).toBe('markdown');
+    expect(detectSubmissionFormat('scan.tiff')).toBe('image');
+    expect(detectSubmissionFormat('report', 'application/pdf')).toBe('pdf');
+    expect(detectSubmissionFormat('answer.log', 'text/plain')).toBe('text');
+    expect(detectSubmissionFormat('v1.2/archive.zip', 'application/zip')).toBe(
+      null,
+    );
+  });
+
+  it('lists every extension it detects, documents first', () => {
+    expect(SUPPORTED_SUBMISSION_EXTENSIONS.slice(0, 2)).toEqual([
+      '.docx',
+      '.pdf',
+    ]);
+    SUPPORTED_SUBMISSION_EXTENSIONS.forEach((extension) =>
+      expect(detectSubmissionFormat(`file${extension}`)).not.toBeNull(),
+    );
+  });
+});
+
+describe('parseSubmissionFile', () => {
+  let dir: string;
+
+  const write = (fileName: string, content: string) => {
+    const filePath = path.join(dir, fileName);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'submission-'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('parses DOCX headings and paragraphs', async () => {
+    const filePath = path.join(dir, 'essay.docx');
+    await writeDocx(
+      filePath,
+      '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Version control</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t>Commits record history.</w:t></w:r></w:p>',
+    );
+
+    const content = await parseSubmissionFile(filePath);
+    expect(content.format).toBe('docx');
+    expect(content.html).toContain('data-element-type="heading1"');
+    // Headings take a paragraph index too, so the first paragraph is index 1
+    expect(content.html).toContain(
+      '<p data-element-type="paragraph" data-element-index="1">Commits record history.</p>',
+    );
+    expect(content.wordCount).toBe(5);
+  });
+
+  it('rebuilds PDF paragraphs from text lines', async () => {
+    (parsePdfToJson as jest.Mock).mockResolvedValueOnce({
+      pages: { page_1: { pageNumber: 1 }, page_2: { pageNumber: 2 } },
+      elements: [
+        pdfItem('e1', 1, 700, 'Branches keep work'),
+        pdfItem('e2', 1, 686, 'apart.'),
+        pdfItem('e3', 1, 640, 'Merges join it.'),
+        pdfItem('e4', 2, 700, 'Tags mark releases.'),
+      ],
+    });
+
+    const content = await parseSubmissionFile(write('lab.pdf', '%PDF-1.4'));
+    expect(content.format).toBe('pdf');
+    expect(content.text).toBe(
+      'Branches keep work apart.\n\nMerges join it.\n\nTags mark releases.',
+    );
+    expect(content.html).toContain('data-page-number="2"');
+    expect(content.elementCounts.paragraph).toBe(3);
+  });
+
+  it('refuses a PDF without text', async () => {
+    (parsePdfToJson as jest.Mock).mockResolvedValueOnce({
+      pages: { page_1: { pageNumber: 1 } },
+      elements: [],
+    });
+
+    await expect(
+      parseSubmissionFile(write('scan.pdf', '%PDF-1.4')),
+    ).rejects.toThrow(/No extractable text/);
+  });
+
+  it('splits plain text into paragraphs at blank lines', async () => {
+    const content = await parseSubmissionFile(
+      write('answer.txt', 'First line\nsame paragraph\r\n\r\nA <second> one'),
+    );
+    expect(content.format).toBe('text');
+    expect(content.html).toContain('First line<br />same paragraph</p>');
+    expect(content.html).toContain('A &lt;second&gt; one</p>');
+    expect(content.elementCounts.paragraph).toBe(2);
+  });
+
+  it('converts markdown headings, lists and code', async () => {
+    const content = await parseSubmissionFile(
+      write(
+        'notes.md',
+        '# Summary\n\nUse **small** commits.\n\n- branch\n- merge\n\n```\ngit log\n```',
+      ),
+    );
+    expect(content.format).toBe('markdown');
+    expect(content.html).toContain('<strong>small</strong>');
+    expect(content.elementCounts).toMatchObject({
+      heading1: 1,
+      listItem: 2,
+    });
+    expect(content.html).toContain('<code>git log</code>');
+  });
+
+  it('keeps the body of an HTML file without scripts', async () => {
+    const content = await parseSubmissionFile(
+      write(
+        'answer.htm',
+        '<html><body><p>Rebase &amp; merge</p><script>alert(1)</script><p>Done</p></body></html>',
+      ),
+    );
+    expect(content.format).toBe('html');
+    expect(content.text).toBe('Rebase & merge\nDone');
+    expect(content.html).not.toContain('script');
+  });
+
+  it('reads images through OCR', async () => {
+    (performOcr as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      text: 'Handwritten answer',
+      confidence: 0.87,
+    });
+
+    const content = await parseSubmissionFile(write('photo.jpg', ''));
+    expect(content.format).toBe('image');
+    expect(content.text).toBe('Handwritten answer');
+    expect(content.messages[0].message).toMatch(/confidence 87%/);
+  });
+
+  it('refuses files it cannot parse', async () => {
+    await expect(
+      parseSubmissionFile(write('archive.zip', ''), 'archive.zip'),
+    ).rejects.toThrow('Unsupported submission file type: archive.zip');
+  });
+});
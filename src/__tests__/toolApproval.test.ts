@@ -0,0 +1,265 @@
+/**
+ * @jest-environment node
+ */
+import {
+  Annotation,
+  Command,
+  MemorySaver,
+  StateGraph,
+} from '@langchain/langgraph';
+import { AIMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { ChatOpenAI } from '@langchain/openai';
+import { saveAssignmentGradeTool } from '../main/ai/tools/moodleTools';
+import { MoodleAgent } from '../main/ai/agents/moodleAgent';
+import { createSwarmAgentNode } from '../main/ai/graph/builders/swarmGraphBuilder';
+import { createGraphChannels } from '../main/ai/graph/stateManager';
+import { classifyTool, requireApproval } from '../main/ai/tools/approval';
+import {
+  FakeMoodleServer,
+  createFakeMoodleServer,
+} from '../main/fakeMoodle/server';
+
+// The grade tool writes to the fake Moodle server; a one-node graph stands in for
+// an agent so the approval interrupt can pause and resume the call.
+
+const mockConnection = { baseUrl: '', apiKey: '' };
+const mockLatePenalty = { current: null as Record<string, unknown> | null };
+const mockSaveFinalGrade = jest.fn();
+
+jest.mock('../main/moodleProfiles', () => ({
+  getActiveConfig: () => mockConnection,
+  activeSiteScope: () => 'moodle.example.edu',
+}));
+
+jest.mock('../main/db/gradingHandlers', () => ({
+  getLatePenaltySettings: () => mockLatePenalty.current,
+  saveFinalGrade: (...args: unknown[]) => mockSaveFinalGrade(...args),
+}));
+
+jest.mock('../main/credentialVault', () => ({
+  getSecret: () => undefined,
+}));
+
+jest.mock('../main/courseMaterials', () => ({
+  refreshCourseMaterials: jest.fn(),
+  searchCourseMaterials: jest.fn(),
+}));
+
+const GRADE_CALL = {
+  assignmentId: '2',
+  userId: '13',
+  grade: 17,
+  feedback: 'Careful method.',
+  applyToGroup: false,
+};
+
+const State = Annotation.Root({
+  result: Annotation<string>(),
+});
+
+// A graph that makes one call to the tool, as an agent's tool node would
+function toolGraph(gatedTool: any, args: Record<string, unknown> = GRADE_CALL) {
+  return new StateGraph(State)
+    .addNode('call', async (_state, config) => ({
+      result: await gatedTool.invoke(args, config),
+    }))
+    .addEdge('__start__', 'call')
+    .compile({ checkpointer: new MemorySaver() });
+}
+
+// Asks to save the grade, then answers with what the tool returned
+class ScriptedModel extends ChatOpenAI {
+  bindTools(): any {
+    return this;
+  }
+
+  // eslint-disable-next-line no-underscore-dangle, class-methods-use-this
+  async _generate(messages: BaseMessage[]) {
+    const last = messages[messages.length - 1];
+    const message =
+      last instanceof ToolMessage
+        ? new AIMessage(String(last.content))
+        : new AIMessage({
+            content: '',
+            tool_calls: [
+              { id: 'call-1', name: 'save_assignment_grade', args: GRADE_CALL },
+            ],
+          });
+    return { generations: [{ text: String(message.content), message }] };
+  }
+}
+
+// The Moodle agent as the swarm graph runs it
+function agentGraph() {
+  const agent = new MoodleAgent(
+    {
+      name: 'moodle',
+      description: 'Moodle',
+      capabilities: { moodle: true },
+      prompt: '',
+    },
+    new ScriptedModel({ apiKey: 'test' }),
+    [],
+    { enableWriteTools: true },
+  );
+  const registry = { getAgent: () => agent } as any;
+  return new StateGraph<any>({ channels: createGraphChannels() as any })
+    .addNode('moodle', createSwarmAgentNode(registry, 'moodle'))
+    .addEdge('__start__', 'moodle')
+    .compile({ checkpointer: new MemorySaver() });
+}
+
+describe('tool approval', () => {
+  let server: FakeMoodleServer;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    server = createFakeMoodleServer();
+    mockConnection.baseUrl = await server.start();
+    mockConnection.apiKey = server.fixtures.token;
+  });
+
+  afterEach(() => {
+    mockLatePenalty.current = null;
+    mockSaveFinalGrade.mockClear();
+    return server.stop();
+  });
+
+  const gradeOf = (userId: number) =>
+    server.fixtures.grades.find(
+      (g) => g.assignment === 2 && g.userid === userId,
+    );
+
+  // Runs a grade call the user approves, returning what the tool answered
+  const approvedCall = async (args: Record<string, unknown>) => {
+    const [gated] = requireApproval([saveAssignmentGradeTool]);
+    const graph = toolGraph(gated, { ...GRADE_CALL, ...args });
+    const config = { configurable: { thread_id: 'approved' } };
+    await graph.invoke({}, config);
+    const resumed = await graph.invoke(
+      new Command({ resume: { action: 'approve' } }),
+      config,
+    );
+    return resumed.result;
+  };
+
+  it('classifies grade writes as side-effecting', () => {
+    expect(classifyTool('save_assignment_grade')).toBe('side-effecting');
+    expect(classifyTool('list_course_assignments')).toBe('safe');
+  });
+
+  it('refuses to save a grade that was not approved', async () => {
+    const result = await saveAssignmentGradeTool.invoke(GRADE_CALL);
+    expect(result).toMatch(/not approved/);
+    expect(gradeOf(13)).toBeUndefined();
+  });
+
+  it('saves the grade once the user approves the call', async () => {
+    const [gated] = requireApproval([saveAssignmentGradeTool]);
+    const graph = toolGraph(gated);
+    const config = { configurable: { thread_id: 'approve' } };
+
+    await graph.invoke({}, config);
+    const paused = await graph.getState(config);
+    expect(paused.tasks[0].interrupts[0].value).toMatchObject({
+      toolName: 'save_assignment_grade',
+      args: GRADE_CALL,
+    });
+    expect(gradeOf(13)).toBeUndefined();
+
+    const resumed = await graph.invoke(
+      new Command({ resume: { action: 'approve' } }),
+      config,
+    );
+    expect(resumed.result).toMatch(/Saved grade 17/);
+    expect(gradeOf(13)).toMatchObject({ grade: 17 });
+    expect(mockSaveFinalGrade).toHaveBeenCalledWith(
+      '2',
+      '13',
+      'moodle.example.edu',
+      '17',
+      'Careful method.',
+    );
+  });
+
+  it('refuses a grade above the assignment maximum', async () => {
+    const result = await approvedCall({ grade: 25 });
+    expect(result).toMatch(/above the maximum grade of 20/);
+    expect(gradeOf(13)).toBeUndefined();
+    expect(mockSaveFinalGrade).not.toHaveBeenCalled();
+  });
+
+  it('only grades a whole group on group assignments', async () => {
+    const result = await approvedCall({ applyToGroup: true });
+    expect(result).toMatch(/not a group assignment/);
+    expect(gradeOf(13)).toBeUndefined();
+  });
+
+  it('takes the late penalty off a late submission', async () => {
+    mockLatePenalty.current = {
+      enabled: true,
+      percentPerDay: 10,
+      maxPercent: 50,
+      basis: 'maximum',
+      graceMinutes: 0,
+    };
+    const due = server.fixtures.assignments.find((a) => a.id === 2)!.duedate;
+    server.fixtures.submissions.push({
+      assignment: 2,
+      userid: 13,
+      status: 'submitted',
+      timemodified: due + 36 * 60 * 60,
+    });
+
+    // A day and a half late: two started days at 10% of the maximum of 20
+    const result = await approvedCall({});
+    expect(result).toMatch(/Saved grade 13 .*late penalty of 4/);
+    expect(gradeOf(13)).toMatchObject({ grade: 13 });
+    expect(mockSaveFinalGrade).toHaveBeenCalledWith(
+      '2',
+      '13',
+      'moodle.example.edu',
+      '13',
+      'Careful method.',
+    );
+  });
+
+  it('leaves the gradebook alone when the user rejects the call', async () => {
+    const [gated] = requireApproval([saveAssignmentGradeTool]);
+    const graph = toolGraph(gated);
+    const config = { configurable: { thread_id: 'reject' } };
+
+    await graph.invoke({}, config);
+    const resumed = await graph.invoke(
+      new Command({ resume: { action: 'reject', reason: 'Wrong student' } }),
+      config,
+    );
+    expect(resumed.result).toMatch(/rejected.*Wrong student/);
+    expect(gradeOf(13)).toBeUndefined();
+  });
+
+  it('runs an approved call when the agent is resumed with a new signal', async () => {
+    const graph = agentGraph();
+    const configurable = { thread_id: 'agent' };
+
+    await graph.invoke(
+      { messages: [], sessionId: 'agent' },
+      { configurable, signal: new AbortController().signal },
+    );
+    const paused = await graph.getState({ configurable });
+    expect(paused.tasks[0].interrupts[0].value).toMatchObject({
+      toolName: 'save_assignment_grade',
+    });
+
+    // Each run brings its own signal; none is kept in the checkpoint
+    const resumed = await graph.invoke(
+      new Command({ resume: { action: 'approve' } }),
+      { configurable, signal: new AbortController().signal },
+    );
+    expect(resumed.messages.at(-1).content).toMatch(/Saved grade 17/);
+    expect(gradeOf(13)).toMatchObject({ grade: 17 });
+  });
+});
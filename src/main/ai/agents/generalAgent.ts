@@ -191,9 +191,7 @@ ${isTodoExecution ? '- End with "COMPLETED" when the task is done' : ''}
 
       // Generate response
       console.log(`🎯 General Agent: Generating response...`);
-      const response = await this.llm.invoke(messages, {
-        signal: state.signal,  // Pass abort signal for cancellation
-      });
+      const response = await this.llm.invoke(messages, state.config);
 
       let responseContent = typeof response.content === 'string'
         ? response.content
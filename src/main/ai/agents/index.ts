@@ -4,11 +4,13 @@
  */
 
 import { ChatOpenAI } from '@langchain/openai';
+import { getSecret } from '../../credentialVault';
 import { BaseAgent, AgentConfig } from '../types/agent';
 import { TavilyAgent } from './tavilyAgent';
 import { PlaywrightAgent } from './playwrightAgent';
 import { MemoryAgent } from './memoryAgent';
 import { GeneralAgent } from './generalAgent';
+import { MoodleAgent } from './moodleAgent';
 import { MCPClient } from '../tools/mcpClient';
 
 /**
@@ -19,6 +21,7 @@ export enum AgentType {
   TAVILY = 'tavily_agent',
   PLAYWRIGHT = 'playwright_agent',
   MEMORY = 'memory_agent',
+  MOODLE = 'moodle_agent',
 }
 
 /**
@@ -63,7 +66,7 @@ export class AgentRegistry {
    * Create default LLM instance
    */
   private createDefaultLLM(): ChatOpenAI {
-    const apiKey = process.env.OPENAI_API_KEY;
+    const apiKey = getSecret('OPENAI_API_KEY');
     const baseURL = process.env.OPENAI_BASE_URL;
 
     if (!apiKey) {
@@ -156,6 +159,28 @@ export class AgentRegistry {
       [] // Memory agent uses its own memory tools, not MCP tools
     );
     this.registerAgent(AgentType.MEMORY, memoryAgent);
+
+    // Create Moodle agent
+    // Read-only unless MOODLE_AGENT_WRITE_TOOLS is set; write tools still ask the user to confirm
+    const moodleConfig: AgentConfig = {
+      name: AgentType.MOODLE,
+      description: 'Moodle course data specialist',
+      capabilities: {
+        moodle: true,
+        toolExecution: true,
+        canHandoff: true,
+      },
+      prompt: 'You are a Moodle specialist that looks up assignments, submissions, grades, enrolled users and course materials.',
+      handoffTargets: [AgentType.MEMORY, AgentType.GENERAL],
+    };
+
+    const moodleAgent = new MoodleAgent(
+      moodleConfig,
+      this.llm!,
+      [], // Moodle agent uses its own Moodle tools, not MCP tools
+      { enableWriteTools: process.env.MOODLE_AGENT_WRITE_TOOLS === 'true' }
+    );
+    this.registerAgent(AgentType.MOODLE, moodleAgent);
   }
 
   /**
@@ -254,6 +279,13 @@ export class AgentRegistry {
       score += keywords.filter(k => text.includes(k)).length * 12;
     }
 
+    // Moodle course data keywords
+    if (config.capabilities.moodle) {
+      const keywords = ['moodle', 'assignment', 'submission', 'submitted', 'grade', 'enrolled', 'students',
+                       'lecture', 'slides', 'course material', 'reading'];
+      score += keywords.filter(k => text.includes(k)).length * 15;
+    }
+
     return score;
   }
 
@@ -279,3 +311,4 @@ export { GeneralAgent } from './generalAgent';
 export { TavilyAgent } from './tavilyAgent';
 export { PlaywrightAgent } from './playwrightAgent';
 export { MemoryAgent } from './memoryAgent';
+export { MoodleAgent } from './moodleAgent';
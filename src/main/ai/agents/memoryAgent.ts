@@ -10,9 +10,10 @@ import {
   HumanMessage,
   SystemMessage,
   AIMessage,
-  BaseMessage
+  BaseMessage,
+  ToolMessage
 } from '@langchain/core/messages';
-import { Command } from '@langchain/langgraph';
+import { Command, isGraphInterrupt } from '@langchain/langgraph';
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
 import {
   getUserInfoTool,
@@ -22,6 +23,7 @@ import {
   recallTool,
   forgetTool,
 } from '../tools/memoryTools';
+import { requireApproval } from '../tools/approval';
 import { memoryManager } from '../memory';
 
 /**
@@ -53,7 +55,7 @@ export class MemoryAgent extends BaseAgent {
     };
 
     super(updatedConfig, llm);
-    this.memoryTools = memoryTools;
+    this.memoryTools = requireApproval(memoryTools);
 
     // Create agent for tool execution
     this.agent = this.createAgent();
@@ -280,9 +282,7 @@ User ID: ${userId}
       console.log(`🧠 [Memory Agent] Invoking LangChain agent with ${this.memoryTools.length + this.mcpTools.length} available tools`);
       const result = await this.agent.invoke({
         messages: messagesWithContext,
-      }, {
-        signal: state.signal,  // Pass abort signal for cancellation
-      });
+      }, state.config);
 
       // Debug: Log the raw result structure
       console.log(`🧠 [Memory Agent] Raw result keys:`, Object.keys(result));
@@ -430,6 +430,8 @@ Last Updated: ${courseMemory.lastUpdated}`;
         },
       };
     } catch (error) {
+      // Let approval interrupts reach the graph so the run can pause
+      if (isGraphInterrupt(error)) throw error;
       console.error('Memory Agent execution error:', error);
 
       return {
@@ -551,6 +553,3 @@ Last Updated: ${courseMemory.lastUpdated}`;
     return null;
   }
 }
-
-// Import ToolMessage if needed
-import { ToolMessage } from '@langchain/core/messages';
@@ -0,0 +1,192 @@
+/**
+ * Moodle Agent
+ * Specialized agent for live course data: assignments, submissions, grades and enrolled users,
+ * and the course's own materials (slides, readings, pages)
+ * Reads Moodle through typed tools instead of the static course memory snapshot
+ */
+
+import {
+  BaseAgent,
+  AgentConfig,
+  AgentState,
+  AgentResult,
+} from '../types/agent';
+import { ChatOpenAI } from '@langchain/openai';
+import {
+  SystemMessage,
+  AIMessage,
+  BaseMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import { createReactAgent } from '@langchain/langgraph/prebuilt';
+import { isGraphInterrupt } from '@langchain/langgraph';
+import { moodleReadTools, moodleWriteTools } from '../tools/moodleTools';
+
+export interface MoodleAgentOptions {
+  /** Offer tools that change data in Moodle (each call still needs the user's approval) */
+  enableWriteTools?: boolean;
+}
+
+/**
+ * Moodle Agent
+ * Answers questions about a course from Moodle itself
+ */
+export class MoodleAgent extends BaseAgent {
+  private writeToolsEnabled: boolean;
+  private agent: any; // LangChain agent for tool execution
+
+  constructor(
+    config: AgentConfig,
+    llm: ChatOpenAI,
+    tools: any[],
+    options: MoodleAgentOptions = {},
+  ) {
+    const moodleTools = options.enableWriteTools
+      ? [...moodleReadTools, ...moodleWriteTools]
+      : [...moodleReadTools];
+
+    super(
+      {
+        ...config,
+        tools: [...moodleTools, ...tools],
+      },
+      llm,
+    );
+    this.writeToolsEnabled = !!options.enableWriteTools;
+
+    // Create agent for tool execution (side-effecting tools were gated by BaseAgent)
+    this.agent = createReactAgent({
+      llm: this.llm,
+      tools: this.mcpTools,
+    });
+  }
+
+  /**
+   * Get agent description
+   */
+  getDescription(): string {
+    return 'Moodle specialist that looks up live course data: assignments and due dates, who has or has not submitted, grades and feedback, and enrolled students. Also answers questions about course content (which lecture covered a topic, what the slides say) from the course materials, citing the file and page.';
+  }
+
+  /**
+   * Execute the Moodle agent
+   */
+  async execute(state: AgentState): Promise<AgentResult> {
+    console.log(`🎓 Moodle Agent executing for session ${state.sessionId}`);
+
+    try {
+      // Check if we're executing a specific todo
+      const todoContextMessage = state.messages
+        .filter((m) => m._getType() === 'ai')
+        .pop();
+      const isTodoExecution =
+        !!todoContextMessage &&
+        typeof todoContextMessage.content === 'string' &&
+        todoContextMessage.content.includes('Current Task:') &&
+        todoContextMessage.content.includes('COMPLETED');
+
+      const courseId = state.metadata?.courseId;
+      const courseMemory = state.metadata?.courseMemory;
+      const courseLine = courseId
+        ? `The user is working in course ${courseId}${courseMemory ? ` (${courseMemory.courseShortName}: ${courseMemory.courseName})` : ''}; tools default to this course.`
+        : 'No course is open; ask the user which course they mean if the request needs one.';
+
+      const systemMessage = new SystemMessage(`
+You are a Moodle Agent with live access to the teacher's Moodle site.
+
+${courseLine}
+
+Available Moodle tools:
+- list_course_assignments: Assignments of a course with ids, due dates and maximum grades
+- list_assignment_submissions: Submission status of each participant of an assignment
+- get_assignment_grades: Grades and feedback given for an assignment
+- list_enrolled_users: Users enrolled in a course with their roles and groups
+- search_course_materials: Passages from the course's files (slides, readings, pages) with their source file and page
+${this.writeToolsEnabled ? '- save_assignment_grade: Save a grade in Moodle (changes the gradebook)' : ''}
+
+Guidelines:
+- Always look data up with the tools rather than guessing; find assignment ids with list_course_assignments first
+- Refer to students by name, and give dates in a readable form
+- Answer questions about what the course teaches from search_course_materials only, and cite every fact with its source, e.g. (Lecture 5.pdf, p. 12); if no passage covers it, say the materials do not mention it
+${
+  this.writeToolsEnabled
+    ? '- Only save grades the user asked for; each save_assignment_grade call is shown to the user to approve, edit or reject before it runs'
+    : '- You can only read from Moodle; if asked to change grades or other data, explain that it has to be done in the Grading view'
+}
+
+IMPORTANT: When executing a specific task:
+- Focus on completing ONLY the requested task
+- Include "COMPLETED" at the end of your response when the task is done
+`);
+
+      const messagesWithContext = [systemMessage, ...state.messages];
+
+      console.log(
+        `🎓 [Moodle Agent] Invoking LangChain agent with ${this.mcpTools.length} available tools`,
+      );
+      const result = await this.agent.invoke(
+        {
+          messages: messagesWithContext,
+        },
+        state.config,
+      );
+
+      // Only keep the messages produced by this run
+      const responseMessages: BaseMessage[] = (result.messages || []).slice(
+        messagesWithContext.length,
+      );
+      const toolResults = responseMessages
+        .filter((m): m is ToolMessage => m instanceof ToolMessage)
+        .map((tm) => ({
+          tool: tm.name || 'unknown',
+          result: tm.content,
+        }));
+
+      console.log(
+        `🎓 [Moodle Agent] Returning ${responseMessages.length} messages, ${toolResults.length} tool results`,
+      );
+
+      // Add COMPLETED token if this is a todo execution
+      const lastMessage = responseMessages[responseMessages.length - 1];
+      if (
+        isTodoExecution &&
+        lastMessage instanceof AIMessage &&
+        typeof lastMessage.content === 'string'
+      ) {
+        lastMessage.content += '\n\nCOMPLETED';
+      }
+
+      return {
+        messages:
+          responseMessages.length > 0
+            ? responseMessages
+            : [
+                new AIMessage(
+                  'I could not find an answer in Moodle for that request.',
+                ),
+              ],
+        toolResults,
+        metadata: {
+          ...state.metadata,
+          todoCompleted: isTodoExecution,
+        },
+      };
+    } catch (error) {
+      // Let approval interrupts reach the graph so the run can pause
+      if (isGraphInterrupt(error)) throw error;
+      console.error('Moodle Agent execution error:', error);
+
+      return {
+        messages: [
+          new AIMessage(
+            `I encountered an error while reading from Moodle: ${(error as Error).message}`,
+          ),
+        ],
+        metadata: {
+          ...state.metadata,
+          error: (error as Error).message,
+        },
+      };
+    }
+  }
+}
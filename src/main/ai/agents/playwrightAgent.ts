@@ -4,6 +4,7 @@
  */
 
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
+import { isGraphInterrupt } from '@langchain/langgraph';
 import {
   HumanMessage,
   SystemMessage,
@@ -164,6 +165,8 @@ When scraping:
         },
       };
     } catch (error) {
+      // Let approval interrupts reach the graph so the run can pause
+      if (isGraphInterrupt(error)) throw error;
       console.error('PlaywrightAgent execution error:', error);
       return {
         messages: [
@@ -199,9 +202,7 @@ When scraping:
     );
 
     try {
-      const response = await this.llm.invoke([systemPrompt, userPrompt], {
-        signal: state.signal,  // Pass abort signal for cancellation
-      });
+      const response = await this.llm.invoke([systemPrompt, userPrompt], state.config);
       const content = String((response as any)?.content || '{}');
       return JSON.parse(content);
     } catch {
@@ -241,9 +242,7 @@ When scraping:
 
       // Navigate to URL
       if (navigateTool && plan.url) {
-        const navResult = await navigateTool.invoke({ url: plan.url }, {
-          signal: state.signal,  // Pass abort signal for cancellation
-        });
+        const navResult = await navigateTool.invoke({ url: plan.url }, state.config);
         results.push({ type: 'navigation', result: navResult });
       }
 
@@ -256,9 +255,7 @@ When scraping:
                 const scrapeResult = await scrapeTool.invoke({
                   selector: action.selector || 'body',
                   attribute: action.attribute || 'text',
-                }, {
-                  signal: state.signal,  // Pass abort signal for cancellation
-                });
+                }, state.config);
                 results.push({ type: 'scrape', result: scrapeResult });
               }
               break;
@@ -267,9 +264,7 @@ When scraping:
               if (screenshotTool) {
                 const screenshotResult = await screenshotTool.invoke({
                   selector: action.selector,
-                }, {
-                  signal: state.signal,  // Pass abort signal for cancellation
-                });
+                }, state.config);
                 results.push({ type: 'screenshot', result: screenshotResult });
               }
               break;
@@ -281,9 +276,7 @@ When scraping:
               if (clickTool) {
                 const clickResult = await clickTool.invoke({
                   selector: action.selector,
-                }, {
-                  signal: state.signal,  // Pass abort signal for cancellation
-                });
+                }, state.config);
                 results.push({ type: 'click', result: clickResult });
               }
               break;
@@ -296,9 +289,7 @@ When scraping:
                 const fillResult = await fillTool.invoke({
                   selector: action.selector,
                   value: action.value,
-                }, {
-                  signal: state.signal,  // Pass abort signal for cancellation
-                });
+                }, state.config);
                 results.push({ type: 'fill', result: fillResult });
               }
               break;
@@ -316,13 +307,12 @@ When scraping:
         const extractResult = await scrapeTool.invoke({
           selector: plan.extractData.selector,
           attribute: plan.extractData.attribute || 'text',
-        }, {
-          signal: state.signal,  // Pass abort signal for cancellation
-        });
+        }, state.config);
         results.push({ type: 'extract', result: extractResult });
       }
 
     } catch (error) {
+      if (isGraphInterrupt(error)) throw error;
       console.error('Scraping execution error:', error);
       results.push({ type: 'error', error: (error as Error).message });
     }
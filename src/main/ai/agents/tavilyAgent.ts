@@ -139,9 +139,7 @@ Prefer recent information and authoritative sources.`,
       const searchParams = await this.prepareSearchParams(String(query), state);
 
       // Execute search
-      const searchResult = await tavilySearchTool.invoke(searchParams, {
-        signal: state.signal,  // Pass abort signal for cancellation
-      });
+      const searchResult = await tavilySearchTool.invoke(searchParams, state.config);
 
       // Process and format results
       let formattedResult = this.formatSearchResults(searchResult);
@@ -205,9 +203,7 @@ Prefer recent information and authoritative sources.`,
     );
 
     try {
-      const response = await this.llm.invoke([systemPrompt, userPrompt], {
-        signal: state.signal,  // Pass abort signal for cancellation
-      });
+      const response = await this.llm.invoke([systemPrompt, userPrompt], state.config);
       const content = String((response as any)?.content || '{}');
       const params = JSON.parse(content);
 
@@ -0,0 +1,250 @@
+/**
+ * Local Sentence Embeddings
+ * Embeds text with a sentence-transformers ONNX model (all-MiniLM-L6-v2 by default) run through
+ * onnxruntime (see ort.ts), so memory search works offline without any cloud call.
+ *
+ * The model folder needs `model.onnx` and the BERT `vocab.txt`. It is looked up in
+ * EMBEDDING_MODEL_PATH, or assets/models/all-MiniLM-L6-v2 next to the app.
+ */
+
+import * as ort from 'onnxruntime-node';
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { loadModel } from '../ort';
+
+const DEFAULT_MODEL = 'all-MiniLM-L6-v2';
+const MAX_TOKENS = 256; // Sequence length the MiniLM models were trained with
+const BATCH_SIZE = 16;
+
+/**
+ * Folder of the embedding model
+ */
+const getModelDir = (): string => {
+  if (process.env.EMBEDDING_MODEL_PATH) {
+    return process.env.EMBEDDING_MODEL_PATH;
+  }
+  const assetsDir = app?.isPackaged
+    ? path.join(process.resourcesPath, 'assets')
+    : path.join(__dirname, '../../assets');
+  return path.join(assetsDir, 'models', DEFAULT_MODEL);
+};
+
+/**
+ * BERT WordPiece tokenizer (uncased), enough for sentence-transformers models
+ */
+export class WordPieceTokenizer {
+  private vocab = new Map<string, number>();
+  readonly clsId: number;
+  readonly sepId: number;
+  readonly padId: number;
+  private unkId: number;
+
+  constructor(vocabText: string) {
+    vocabText.split(/\r?\n/).forEach((token, id) => {
+      if (token) this.vocab.set(token, id);
+    });
+    this.clsId = this.vocab.get('[CLS]') ?? 101;
+    this.sepId = this.vocab.get('[SEP]') ?? 102;
+    this.padId = this.vocab.get('[PAD]') ?? 0;
+    this.unkId = this.vocab.get('[UNK]') ?? 100;
+  }
+
+  /**
+   * Lowercase, strip accents and split on whitespace, punctuation and CJK characters
+   */
+  private basicTokenize(text: string): string[] {
+    const cleaned = text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/\p{Mn}/gu, '')
+      .replace(/[\p{Cc}\p{Cf}]/gu, ' ')
+      .replace(
+        /([\p{P}\p{S}\u4E00-\u9FFF\u3400-\u4DBF\uF900-\uFAFF])/gu,
+        ' $1 ',
+      );
+    return cleaned.split(/\s+/).filter(Boolean);
+  }
+
+  /**
+   * Greedy longest-match-first split of a word into vocabulary pieces
+   */
+  private wordPiece(word: string): number[] {
+    if (word.length > 100) return [this.unkId];
+
+    const ids: number[] = [];
+    let start = 0;
+    while (start < word.length) {
+      let end = word.length;
+      let pieceId: number | undefined;
+      while (start < end) {
+        const piece = (start > 0 ? '##' : '') + word.slice(start, end);
+        pieceId = this.vocab.get(piece);
+        if (pieceId !== undefined) break;
+        end -= 1;
+      }
+      if (pieceId === undefined) return [this.unkId];
+      ids.push(pieceId);
+      start = end;
+    }
+    return ids;
+  }
+
+  /**
+   * Token ids of a text, wrapped in [CLS] ... [SEP] and truncated to the model's length
+   */
+  encode(text: string, maxTokens: number = MAX_TOKENS): number[] {
+    const ids = this.basicTokenize(text).flatMap((word) =>
+      this.wordPiece(word),
+    );
+    return [this.clsId, ...ids.slice(0, maxTokens - 2), this.sepId];
+  }
+}
+
+/**
+ * Local embeddings with the same shape as LangChain's Embeddings
+ */
+export class LocalEmbeddings {
+  private modelDirOverride?: string;
+  private session: ort.InferenceSession | null = null;
+  private tokenizer: WordPieceTokenizer | null = null;
+  private loading: Promise<boolean> | null = null;
+  private unavailable = false;
+
+  constructor(modelDir?: string) {
+    this.modelDirOverride = modelDir;
+  }
+
+  // Resolved on use, once the environment has been loaded
+  get modelDir(): string {
+    return this.modelDirOverride || getModelDir();
+  }
+
+  /**
+   * Whether the model files are present; search falls back to keywords when they are not
+   */
+  isAvailable(): boolean {
+    return (
+      !this.unavailable &&
+      fs.existsSync(path.join(this.modelDir, 'model.onnx')) &&
+      fs.existsSync(path.join(this.modelDir, 'vocab.txt'))
+    );
+  }
+
+  /**
+   * Load the model and vocabulary once
+   */
+  private async ensureLoaded(): Promise<boolean> {
+    if (this.session && this.tokenizer) return true;
+    if (!this.isAvailable()) return false;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const session = await loadModel(path.join(this.modelDir, 'model.onnx'));
+        if (!session) {
+          // Don't retry a model that failed to load on every search
+          this.unavailable = true;
+          return false;
+        }
+        this.tokenizer = new WordPieceTokenizer(
+          await fs.promises.readFile(
+            path.join(this.modelDir, 'vocab.txt'),
+            'utf-8',
+          ),
+        );
+        this.session = session;
+        console.log(`🧮 Embedding model loaded from ${this.modelDir}`);
+        return true;
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Embed one batch: mean-pool the token vectors over the attention mask, then L2-normalize
+   */
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const session = this.session!;
+    const encoded = texts.map((text) => this.tokenizer!.encode(text));
+    const seqLength = Math.max(...encoded.map((ids) => ids.length));
+    const shape = [texts.length, seqLength];
+
+    const inputIds = new BigInt64Array(texts.length * seqLength).fill(
+      BigInt(this.tokenizer!.padId),
+    );
+    const attentionMask = new BigInt64Array(texts.length * seqLength);
+    encoded.forEach((ids, row) => {
+      ids.forEach((id, col) => {
+        inputIds[row * seqLength + col] = BigInt(id);
+        attentionMask[row * seqLength + col] = BigInt(1);
+      });
+    });
+
+    const inputs: Record<string, ort.Tensor> = {
+      input_ids: new ort.Tensor('int64', inputIds, shape),
+      attention_mask: new ort.Tensor('int64', attentionMask, shape),
+      token_type_ids: new ort.Tensor(
+        'int64',
+        new BigInt64Array(texts.length * seqLength),
+        shape,
+      ),
+    };
+    const feeds = Object.fromEntries(
+      session.inputNames
+        .filter((name) => inputs[name])
+        .map((name) => [name, inputs[name]]),
+    );
+
+    const results = await session.run(feeds);
+    const output = results.last_hidden_state || results[session.outputNames[0]];
+    const data = output.data as Float32Array;
+    const { dims } = output;
+
+    return encoded.map((ids, row) => {
+      let vector: number[];
+      if (dims.length === 2) {
+        // Model already pools to one vector per text
+        vector = Array.from(data.subarray(row * dims[1], (row + 1) * dims[1]));
+      } else {
+        const hidden = dims[2];
+        vector = new Array(hidden).fill(0);
+        for (let t = 0; t < ids.length; t += 1) {
+          const offset = (row * dims[1] + t) * hidden;
+          for (let h = 0; h < hidden; h += 1) {
+            vector[h] += data[offset + h];
+          }
+        }
+        vector = vector.map((v) => v / ids.length);
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map((v) => v / norm);
+    });
+  }
+
+  /**
+   * Embed documents for the index
+   */
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (!(await this.ensureLoaded())) {
+      throw new Error(`Embedding model not found in ${this.modelDir}`);
+    }
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      vectors.push(...(await this.embedBatch(texts.slice(i, i + BATCH_SIZE))));
+    }
+    return vectors;
+  }
+
+  /**
+   * Embed a search query
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+}
+
+// Export singleton instance
+export const localEmbeddings = new LocalEmbeddings();
@@ -6,6 +6,7 @@
 
 import { StateGraph } from '@langchain/langgraph';
 import { ChatOpenAI } from '@langchain/openai';
+import { getSecret } from '../../credentialVault';
 import { AgentRegistry } from '../agents';
 import { MultiAgentState, MultiAgentConfig } from './types';
 import { buildSwarmGraph } from './builders';
@@ -29,7 +30,7 @@ export class MultiAgentGraphBuilder {
   }
 
   private createDefaultLLM(): ChatOpenAI {
-    const apiKey = process.env.OPENAI_API_KEY;
+    const apiKey = getSecret('OPENAI_API_KEY');
     const baseURL = process.env.OPENAI_BASE_URL;
 
     if (!apiKey) {
@@ -3,7 +3,7 @@
  * Builds swarm-based multi-agent graphs
  */
 
-import { StateGraph } from '@langchain/langgraph';
+import { Command, LangGraphRunnableConfig, StateGraph, isGraphInterrupt } from '@langchain/langgraph';
 import { ChatOpenAI } from '@langchain/openai';
 import { AgentRegistry } from '../../agents';
 import { MultiAgentState, MultiAgentConfig } from '../types';
@@ -14,14 +14,15 @@ import {
 } from '../nodes';
 import { addSwarmEdges } from '../edges';
 import { AIMessage } from '@langchain/core/messages';
-import { Command } from '@langchain/langgraph';
 import { createTodoExecutionPrompt, isTaskCompleted } from '../../prompts';
 
 /**
  * Creates a swarm agent node that can execute and hand off to other agents
+ * The abort signal comes with the run's config, not the state: an AbortSignal does not
+ * survive being saved in a checkpoint, and a resumed run brings its own.
  */
-function createSwarmAgentNode(registry: AgentRegistry, agentName: string) {
-  return async (state: MultiAgentState) => {
+export function createSwarmAgentNode(registry: AgentRegistry, agentName: string) {
+  return async (state: MultiAgentState, config?: LangGraphRunnableConfig) => {
     const agent = registry.getAgent(agentName);
     if (!agent) {
       console.error(`Agent ${agentName} not found in registry`);
@@ -58,6 +59,7 @@ function createSwarmAgentNode(registry: AgentRegistry, agentName: string) {
         messages: agentMessages,
         sessionId: state.sessionId,
         metadata: state.metadata,
+        config,
       });
 
       // Handle agent handoffs using Command
@@ -118,6 +120,8 @@ function createSwarmAgentNode(registry: AgentRegistry, agentName: string) {
         },
       };
     } catch (error) {
+      // A tool is waiting for the user's approval: let the graph pause here
+      if (isGraphInterrupt(error)) throw error;
       console.error(`Error executing agent ${agentName}:`, error);
       return {
         messages: [new AIMessage(`Error executing ${agentName}: ${(error as Error).message}`)],
@@ -41,7 +41,11 @@ export function createPlannerNode(
       let selectedAgent = null;
 
       // Check if this todo needs a specialized agent
-      if (todoText.includes('search') || todoText.includes('find') ||
+      if (registry.getAgent('moodle_agent') &&
+          (todoText.includes('lecture') || todoText.includes('slides') ||
+           todoText.includes('course material'))) {
+        selectedAgent = 'moodle_agent';
+      } else if (todoText.includes('search') || todoText.includes('find') ||
           todoText.includes('look up') || todoText.includes('gather')) {
         selectedAgent = 'tavily_agent';
       } else if (todoText.includes('scrape') || todoText.includes('extract') ||
@@ -50,6 +54,10 @@ export function createPlannerNode(
       } else if (todoText.includes('remember') || todoText.includes('recall') ||
                  todoText.includes('memory')) {
         selectedAgent = 'memory_agent';
+      } else if (registry.getAgent('moodle_agent') &&
+                 (todoText.includes('assignment') || todoText.includes('submission') ||
+                  todoText.includes('grade') || todoText.includes('enrolled'))) {
+        selectedAgent = 'moodle_agent';
       } else {
         // Default to general agent for synthesis/formatting tasks
         selectedAgent = 'general_agent';
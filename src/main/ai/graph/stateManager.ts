@@ -33,6 +33,5 @@ export function createGraphChannels(): GraphChannels {
       default: () => [],
     },
     needsSynthesis: { reducer: (x: any, y: any) => y ?? x },
-    signal: { reducer: (x: any, y: any) => y ?? x },
   };
 }
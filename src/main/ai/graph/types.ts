@@ -41,8 +41,6 @@ export interface MultiAgentState {
   // Execution fields
   toolResults?: any[];
   needsSynthesis?: boolean;
-  // Cancellation support
-  signal?: AbortSignal;
 }
 
 /**
@@ -81,6 +79,5 @@ export interface GraphChannels {
     default: () => any[];
   };
   needsSynthesis: { reducer: (x: any, y: any) => any };
-  signal?: { reducer: (x: any, y: any) => any };
 }
 
@@ -2,15 +2,50 @@
  * Memory System for Unified Agent
  * Implements both short-term (thread-level) and long-term (cross-thread) memory
  * Based on LangGraph memory patterns: https://langchain-ai.github.io/langgraphjs/agents/memory/
+ * Both are kept in the app's SQLite database, so threads and memories survive a restart
  */
 
-import { MemorySaver } from '@langchain/langgraph-checkpoint';
-import { InMemoryStore } from '@langchain/langgraph-checkpoint';
-import { BaseMessage } from '@langchain/core/messages';
+import {
+  BaseMessage,
+  StoredMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages
+} from '@langchain/core/messages';
 import { LangGraphRunnableConfig } from '@langchain/langgraph';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { app } from 'electron';
+import { activeSiteScope } from '../moodleProfiles';
+import { scopedId } from '../siteScope';
+import { SqliteSaver } from '../db/sqliteSaver';
+import { SqliteStore } from '../db/sqliteStore';
+import { localEmbeddings } from './embeddings';
+
+// Store searches are paged (10 items by default); read whole namespaces when warming caches
+const STORE_SCAN_LIMIT = 10000;
+
+// Most relevant memories of each kind returned by a search
+const SEARCH_RESULT_LIMIT = 10;
+
+/**
+ * Parts of each kind of memory that are embedded and keyword-indexed for search
+ */
+const MEMORY_INDEX_FIELDS: Record<string, string[]> = {
+  users: ['name', 'context.role', 'context.expertise[*]', 'context.interests[*]'],
+  sessions: ['summary', 'topics[*]', 'entities[*]', 'messages[*].kwargs.content'],
+  courses: [
+    'courseName',
+    'courseShortName',
+    'summary',
+    'keyTopics[*]',
+    'assignments[*].name',
+    'assignments[*].description',
+    'activities[*].name',
+    'students[*].name',
+  ],
+  memories: ['value'],
+  materials: ['moduleName', 'fileName', 'text'],
+};
 
 /**
  * Ensure directory exists
@@ -24,7 +59,7 @@ const ensureDirectory = (dirPath: string): void => {
 };
 
 /**
- * Get default memory path in userData directory
+ * Get default memory path in userData directory (JSON files of earlier versions)
  */
 const getDefaultMemoryPath = (): string => {
   const userData = app?.isReady() ? app.getPath('userData') : process.cwd();
@@ -76,6 +111,8 @@ export interface SessionMemory {
  */
 export interface CourseMemory {
   courseId: string;
+  // Scope of the Moodle site the course belongs to; courses are stored per site
+  siteId?: string;
   courseName: string;
   courseShortName: string;
   summary?: string;
@@ -104,6 +141,45 @@ export interface CourseMemory {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Key of a course memory: the course id, scoped to its Moodle site
+ */
+const courseMemoryKey = (courseMemory: Pick<CourseMemory, 'courseId' | 'siteId'>): string =>
+  scopedId(courseMemory.courseId, courseMemory.siteId || '');
+
+// Message types of the class names JSON.stringify wrote for messages in older sessions
+const SERIALIZED_MESSAGE_TYPES: Record<string, string> = {
+  HumanMessage: 'human',
+  AIMessage: 'ai',
+  SystemMessage: 'system',
+  ToolMessage: 'tool',
+  FunctionMessage: 'function',
+  ChatMessage: 'generic',
+};
+
+/**
+ * A message of a stored session as a StoredMessage
+ * Older sessions (and the legacy JSON files) hold messages serialized by JSON.stringify
+ */
+const toStoredMessage = (message: any): StoredMessage => {
+  if (message?.lc && message.type === 'constructor' && Array.isArray(message.id)) {
+    const className = message.id[message.id.length - 1];
+    return {
+      type: SERIALIZED_MESSAGE_TYPES[className] || 'generic',
+      data: message.kwargs,
+    };
+  }
+  return message;
+};
+
+/**
+ * Session memories are stored as JSON; turn their stored messages back into message instances
+ */
+const reviveSession = (value: Record<string, any>): SessionMemory => ({
+  ...value,
+  messages: mapStoredMessagesToChatMessages((value.messages || []).map(toStoredMessage)),
+} as SessionMemory);
+
 /**
  * Memory configuration
  */
@@ -122,8 +198,8 @@ export interface MemoryConfig {
  * Manages both short-term and long-term memory for the unified agent
  */
 export class MemoryManager {
-  private checkpointer: MemorySaver;
-  private store: InMemoryStore;
+  private checkpointer: SqliteSaver;
+  private store: SqliteStore;
   private config: MemoryConfig;
   private persistencePath: string;
   private sessionMemories: Map<string, SessionMemory>;
@@ -143,10 +219,12 @@ export class MemoryManager {
     };
 
     // Initialize checkpointer for short-term memory
-    this.checkpointer = new MemorySaver();
+    this.checkpointer = new SqliteSaver();
 
-    // Initialize store for long-term memory
-    this.store = new InMemoryStore();
+    // Initialize store for long-term memory, indexed for semantic search with the local embedding model
+    this.store = new SqliteStore({
+      index: { embeddings: localEmbeddings, fields: MEMORY_INDEX_FIELDS },
+    });
 
     // Initialize local caches
     this.sessionMemories = new Map();
@@ -168,11 +246,18 @@ export class MemoryManager {
       // Create persistence directory if it doesn't exist
       await fs.mkdir(this.persistencePath, { recursive: true });
 
-      // Load persisted memories
+      // Move memories saved as JSON files by earlier versions into the store
+      await this.importLegacyMemories();
+
+      // Warm the local caches from the store
       await this.loadPersistedMemories();
+
+      // Index memories saved before search indexing (or before the model was installed), in the background
+      this.store.reindex()
+        .then(count => count > 0 && console.log(`🔎 Indexed ${count} memories for search`))
+        .catch(error => console.error('Failed to index memories for search:', error));
       
       console.log('🧠 Memory Manager initialized');
-      console.log('📁 Memory storage path:', this.persistencePath);
     } catch (error) {
       console.error('Failed to initialize memory manager:', error);
       throw error;
@@ -182,14 +267,14 @@ export class MemoryManager {
   /**
    * Get checkpointer for short-term memory
    */
-  getCheckpointer(): MemorySaver {
+  getCheckpointer(): SqliteSaver {
     return this.checkpointer;
   }
 
   /**
    * Get store for long-term memory
    */
-  getStore(): InMemoryStore {
+  getStore(): SqliteStore {
     return this.store;
   }
 
@@ -212,9 +297,6 @@ export class MemoryManager {
       // Update local cache
       this.userProfiles.set(profile.userId, profile);
 
-      // Persist to disk
-      await this.persistUserProfile(profile);
-
       console.log(`💾 Saved user profile for ${profile.userId}`);
     } catch (error) {
       console.error('Failed to save user profile:', error);
@@ -242,14 +324,6 @@ export class MemoryManager {
         return profile;
       }
 
-      // Try to load from disk
-      const persisted = await this.loadUserProfile(userId);
-      if (persisted) {
-        this.userProfiles.set(userId, persisted);
-        await this.store.put(['users'], userId, persisted);
-        return persisted;
-      }
-
       return null;
     } catch (error) {
       console.error('Failed to get user profile:', error);
@@ -286,16 +360,6 @@ export class MemoryManager {
     try {
       session.lastAccessed = new Date().toISOString();
 
-      // Save to store
-      await this.store.put(
-        ['sessions', session.sessionId],
-        session.threadId,
-        session
-      );
-
-      // Update local cache
-      this.sessionMemories.set(`${session.sessionId}:${session.threadId}`, session);
-
       // Trim messages if needed
       if (this.config.maxMessagesPerThread && 
           session.messages.length > this.config.maxMessagesPerThread) {
@@ -312,8 +376,15 @@ export class MemoryManager {
         session.summary = 'Session summary would be generated here';
       }
 
-      // Persist to disk
-      await this.persistSessionMemory(session);
+      // Save to store
+      await this.store.put(
+        ['sessions', session.sessionId],
+        session.threadId,
+        { ...session, messages: mapChatMessagesToStoredMessages(session.messages) }
+      );
+
+      // Update local cache
+      this.sessionMemories.set(`${session.sessionId}:${session.threadId}`, session);
 
       console.log(`💾 Saved session memory for ${session.sessionId}:${session.threadId}`);
     } catch (error) {
@@ -339,19 +410,11 @@ export class MemoryManager {
       // Try to get from store
       const stored = await this.store.get(['sessions', sessionId], threadId);
       if (stored) {
-        const session = stored.value as SessionMemory;
+        const session = reviveSession(stored.value);
         this.sessionMemories.set(key, session);
         return session;
       }
 
-      // Try to load from disk
-      const persisted = await this.loadSessionMemory(sessionId, threadId);
-      if (persisted) {
-        this.sessionMemories.set(key, persisted);
-        await this.store.put(['sessions', sessionId], threadId, persisted);
-        return persisted;
-      }
-
       return null;
     } catch (error) {
       console.error('Failed to get session memory:', error);
@@ -367,12 +430,11 @@ export class MemoryManager {
     
     try {
       // Get all sessions from store
-      const allSessions = await this.store.search(['sessions']);
+      const allSessions = await this.store.search(['sessions'], { limit: STORE_SCAN_LIMIT });
       
       for (const item of allSessions) {
-        const session = item.value as SessionMemory;
-        if (session.metadata?.userId === userId) {
-          sessions.push(session);
+        if (item.value.metadata?.userId === userId) {
+          sessions.push(reviveSession(item.value));
         }
       }
 
@@ -404,23 +466,21 @@ export class MemoryManager {
       console.log(`   - Activities: ${courseMemory.activities.length}`);
       
       courseMemory.lastUpdated = new Date().toISOString();
+      courseMemory.siteId = courseMemory.siteId ?? activeSiteScope();
+      const key = courseMemoryKey(courseMemory);
       
       // Save to store with course namespace
       await this.store.put(
         ['courses'],
-        courseMemory.courseId,
+        key,
         courseMemory
       );
-      console.log(`   ✓ Saved to in-memory store`);
+      console.log(`   ✓ Saved to store`);
 
       // Update local cache
-      this.courseMemories.set(courseMemory.courseId, courseMemory);
+      this.courseMemories.set(key, courseMemory);
       console.log(`   ✓ Updated local cache`);
 
-      // Persist to disk
-      await this.persistCourseMemory(courseMemory);
-      console.log(`   ✓ Persisted to disk`);
-
       console.log(`💾 Successfully saved course memory for ${courseMemory.courseShortName}`);
     } catch (error) {
       console.error('❌ Failed to save course memory:', error);
@@ -429,7 +489,7 @@ export class MemoryManager {
   }
 
   /**
-   * Get course memory
+   * Get course memory for a course of the active Moodle site
    */
   async getCourseMemory(courseId: string): Promise<CourseMemory | null> {
     if (!this.config.enableLongTermMemory) {
@@ -440,34 +500,26 @@ export class MemoryManager {
     console.log(`🔍 Looking for course memory: ${courseId}`);
 
     try {
+      const key = courseMemoryKey({ courseId, siteId: activeSiteScope() });
+
       // Check local cache first
-      if (this.courseMemories.has(courseId)) {
-        const cached = this.courseMemories.get(courseId)!;
+      if (this.courseMemories.has(key)) {
+        const cached = this.courseMemories.get(key)!;
         console.log(`   ✓ Found in local cache (${cached.courseShortName})`);
         return cached;
       }
       console.log(`   - Not in local cache`);
 
       // Try to get from store
-      const stored = await this.store.get(['courses'], courseId);
+      const stored = await this.store.get(['courses'], key);
       if (stored) {
         const courseMemory = stored.value as CourseMemory;
-        this.courseMemories.set(courseId, courseMemory);
+        this.courseMemories.set(key, courseMemory);
         console.log(`   ✓ Found in store (${courseMemory.courseShortName})`);
         return courseMemory;
       }
       console.log(`   - Not in store`);
 
-      // Try to load from disk
-      const persisted = await this.loadCourseMemory(courseId);
-      if (persisted) {
-        this.courseMemories.set(courseId, persisted);
-        await this.store.put(['courses'], courseId, persisted);
-        console.log(`   ✓ Loaded from disk (${persisted.courseShortName})`);
-        return persisted;
-      }
-      console.log(`   - Not found on disk`);
-
       console.log(`   ❌ Course memory not found for ${courseId}`);
       return null;
     } catch (error) {
@@ -477,18 +529,21 @@ export class MemoryManager {
   }
 
   /**
-   * Get all course memories for context
+   * Get all course memories of the active Moodle site for context
    */
   async getAllCourseMemories(): Promise<CourseMemory[]> {
     try {
       const courses: CourseMemory[] = [];
+      const siteId = activeSiteScope();
       
       // Get all courses from store
-      const allCourses = await this.store.search(['courses']);
+      const allCourses = await this.store.search(['courses'], { limit: STORE_SCAN_LIMIT });
       
       for (const item of allCourses) {
         const course = item.value as CourseMemory;
-        courses.push(course);
+        if ((course.siteId || '') === siteId) {
+          courses.push(course);
+        }
       }
 
       return courses;
@@ -499,7 +554,7 @@ export class MemoryManager {
   }
 
   /**
-   * Search memories by query
+   * Search memories by query, ranked by meaning and keywords
    */
   async searchMemories(query: string, userId?: string): Promise<{
     sessions: SessionMemory[];
@@ -513,49 +568,33 @@ export class MemoryManager {
     };
 
     try {
-      const queryLower = query.toLowerCase();
-
-      // Search sessions
-      for (const session of this.sessionMemories.values()) {
-        if (userId && session.metadata?.userId !== userId) continue;
-
-        const matchesQuery = 
-          session.summary?.toLowerCase().includes(queryLower) ||
-          session.topics?.some(t => t.toLowerCase().includes(queryLower)) ||
-          session.entities?.some(e => e.toLowerCase().includes(queryLower));
-
-        if (matchesQuery) {
-          results.sessions.push(session);
-        }
+      // Hybrid semantic + keyword ranking over each kind of memory, best match first
+      const search = async (namespace: string) =>
+        this.store.search([namespace], { query, limit: STORE_SCAN_LIMIT });
+      const [sessions, profiles, courses] = await Promise.all([
+        search('sessions'),
+        search('users'),
+        search('courses'),
+      ]);
+
+      for (const item of sessions) {
+        if (userId && item.value.metadata?.userId !== userId) continue;
+        const cached = this.sessionMemories.get(`${item.value.sessionId}:${item.value.threadId}`);
+        results.sessions.push(cached || reviveSession(item.value));
+        if (results.sessions.length >= SEARCH_RESULT_LIMIT) break;
       }
 
-      // Search profiles
-      for (const profile of this.userProfiles.values()) {
-        if (userId && profile.userId !== userId) continue;
-
-        const matchesQuery = 
-          profile.name?.toLowerCase().includes(queryLower) ||
-          profile.context?.interests?.some(i => i.toLowerCase().includes(queryLower)) ||
-          profile.context?.expertise?.some(e => e.toLowerCase().includes(queryLower));
+      results.profiles = profiles
+        .map(item => item.value as UserProfile)
+        .filter(profile => !userId || profile.userId === userId)
+        .slice(0, SEARCH_RESULT_LIMIT);
 
-        if (matchesQuery) {
-          results.profiles.push(profile);
-        }
-      }
-
-      // Search courses
-      for (const course of this.courseMemories.values()) {
-        const matchesQuery = 
-          course.courseName.toLowerCase().includes(queryLower) ||
-          course.courseShortName.toLowerCase().includes(queryLower) ||
-          course.summary?.toLowerCase().includes(queryLower) ||
-          course.keyTopics?.some(t => t.toLowerCase().includes(queryLower)) ||
-          course.assignments.some(a => a.name.toLowerCase().includes(queryLower));
-
-        if (matchesQuery) {
-          results.courses.push(course);
-        }
-      }
+      // Courses of the active Moodle site
+      const siteId = activeSiteScope();
+      results.courses = courses
+        .map(item => item.value as CourseMemory)
+        .filter(course => (course.siteId || '') === siteId)
+        .slice(0, SEARCH_RESULT_LIMIT);
 
       return results;
     } catch (error) {
@@ -590,20 +629,7 @@ export class MemoryManager {
   }
 
   /**
-   * Persist user profile to disk
-   */
-  private async persistUserProfile(profile: UserProfile): Promise<void> {
-    try {
-      const filePath = path.join(this.persistencePath, 'users', `${profile.userId}.json`);
-      await fs.mkdir(path.dirname(filePath), { recursive: true });
-      await fs.writeFile(filePath, JSON.stringify(profile, null, 2));
-    } catch (error) {
-      console.error('Failed to persist user profile:', error);
-    }
-  }
-
-  /**
-   * Load user profile from disk
+   * Load user profile from a legacy JSON file
    */
   private async loadUserProfile(userId: string): Promise<UserProfile | null> {
     try {
@@ -616,24 +642,11 @@ export class MemoryManager {
   }
 
   /**
-   * Persist course memory to disk
+   * Load course memory from a legacy JSON file
    */
-  private async persistCourseMemory(courseMemory: CourseMemory): Promise<void> {
+  private async loadCourseMemory(key: string): Promise<CourseMemory | null> {
     try {
-      const filePath = path.join(this.persistencePath, 'courses', `${courseMemory.courseId}.json`);
-      await fs.mkdir(path.dirname(filePath), { recursive: true });
-      await fs.writeFile(filePath, JSON.stringify(courseMemory, null, 2));
-    } catch (error) {
-      console.error('Failed to persist course memory:', error);
-    }
-  }
-
-  /**
-   * Load course memory from disk
-   */
-  private async loadCourseMemory(courseId: string): Promise<CourseMemory | null> {
-    try {
-      const filePath = path.join(this.persistencePath, 'courses', `${courseId}.json`);
+      const filePath = path.join(this.persistencePath, 'courses', `${key}.json`);
       const data = await fs.readFile(filePath, 'utf-8');
       return JSON.parse(data);
     } catch (error) {
@@ -642,27 +655,9 @@ export class MemoryManager {
   }
 
   /**
-   * Persist session memory to disk
-   */
-  private async persistSessionMemory(session: SessionMemory): Promise<void> {
-    try {
-      const filePath = path.join(
-        this.persistencePath, 
-        'sessions', 
-        session.sessionId,
-        `${session.threadId}.json`
-      );
-      await fs.mkdir(path.dirname(filePath), { recursive: true });
-      await fs.writeFile(filePath, JSON.stringify(session, null, 2));
-    } catch (error) {
-      console.error('Failed to persist session memory:', error);
-    }
-  }
-
-  /**
-   * Load session memory from disk
+   * Load session memory from a legacy JSON file
    */
-  private async loadSessionMemory(sessionId: string, threadId: string): Promise<SessionMemory | null> {
+  private async loadSessionMemory(sessionId: string, threadId: string): Promise<Record<string, any> | null> {
     try {
       const filePath = path.join(
         this.persistencePath,
@@ -678,67 +673,85 @@ export class MemoryManager {
   }
 
   /**
-   * Load all persisted memories on startup
+   * Copy memories that earlier versions kept as JSON files into the store
+   * Files are left in place; anything already in the store wins
    */
-  private async loadPersistedMemories(): Promise<void> {
+  private async importLegacyMemories(): Promise<void> {
+    let imported = 0;
+    const importItem = async (namespace: string[], key: string, value: Record<string, any> | null) => {
+      if (!value || await this.store.get(namespace, key)) return;
+      await this.store.put(namespace, key, value);
+      imported++;
+    };
+
     try {
-      // Load user profiles
-      const usersDir = path.join(this.persistencePath, 'users');
+      // User profiles
       try {
-        const userFiles = await fs.readdir(usersDir);
-        for (const file of userFiles) {
-          if (file.endsWith('.json')) {
-            const userId = file.replace('.json', '');
-            const profile = await this.loadUserProfile(userId);
-            if (profile) {
-              this.userProfiles.set(userId, profile);
-              await this.store.put(['users'], userId, profile);
-            }
-          }
+        const userFiles = await fs.readdir(path.join(this.persistencePath, 'users'));
+        for (const file of userFiles.filter(f => f.endsWith('.json'))) {
+          const userId = file.replace('.json', '');
+          await importItem(['users'], userId, await this.loadUserProfile(userId));
         }
       } catch (error) {
-        // Users directory might not exist yet
+        // Users directory might not exist
       }
 
-      // Load recent sessions (limit to recent ones for performance)
-      const sessionsDir = path.join(this.persistencePath, 'sessions');
+      // Sessions
       try {
+        const sessionsDir = path.join(this.persistencePath, 'sessions');
         const sessionDirs = await fs.readdir(sessionsDir);
         for (const sessionId of sessionDirs) {
-          const threadDir = path.join(sessionsDir, sessionId);
-          const threadFiles = await fs.readdir(threadDir);
-          for (const file of threadFiles) {
-            if (file.endsWith('.json')) {
-              const threadId = file.replace('.json', '');
-              const session = await this.loadSessionMemory(sessionId, threadId);
-              if (session) {
-                const key = `${sessionId}:${threadId}`;
-                this.sessionMemories.set(key, session);
-                await this.store.put(['sessions', sessionId], threadId, session);
-              }
-            }
+          const threadFiles = await fs.readdir(path.join(sessionsDir, sessionId));
+          for (const file of threadFiles.filter(f => f.endsWith('.json'))) {
+            const threadId = file.replace('.json', '');
+            await importItem(['sessions', sessionId], threadId, await this.loadSessionMemory(sessionId, threadId));
           }
         }
       } catch (error) {
-        // Sessions directory might not exist yet
+        // Sessions directory might not exist
       }
 
-      // Load course memories
-      const coursesDir = path.join(this.persistencePath, 'courses');
+      // Course memories
       try {
-        const courseFiles = await fs.readdir(coursesDir);
-        for (const file of courseFiles) {
-          if (file.endsWith('.json')) {
-            const courseId = file.replace('.json', '');
-            const courseMemory = await this.loadCourseMemory(courseId);
-            if (courseMemory) {
-              this.courseMemories.set(courseId, courseMemory);
-              await this.store.put(['courses'], courseId, courseMemory);
-            }
-          }
+        const courseFiles = await fs.readdir(path.join(this.persistencePath, 'courses'));
+        for (const file of courseFiles.filter(f => f.endsWith('.json'))) {
+          const key = file.replace('.json', '');
+          await importItem(['courses'], key, await this.loadCourseMemory(key));
         }
       } catch (error) {
-        // Courses directory might not exist yet
+        // Courses directory might not exist
+      }
+
+      if (imported > 0) {
+        console.log(`📦 Imported ${imported} memories from JSON files into the store`);
+      }
+    } catch (error) {
+      console.error('Failed to import legacy memories:', error);
+    }
+  }
+
+  /**
+   * Load all persisted memories into the local caches on startup
+   */
+  private async loadPersistedMemories(): Promise<void> {
+    try {
+      const [users, sessions, courses] = await Promise.all([
+        this.store.search(['users'], { limit: STORE_SCAN_LIMIT }),
+        this.store.search(['sessions'], { limit: STORE_SCAN_LIMIT }),
+        this.store.search(['courses'], { limit: STORE_SCAN_LIMIT }),
+      ]);
+
+      for (const item of users) {
+        this.userProfiles.set(item.key, item.value as UserProfile);
+      }
+
+      for (const item of sessions) {
+        const session = reviveSession(item.value);
+        this.sessionMemories.set(`${session.sessionId}:${session.threadId}`, session);
+      }
+
+      for (const item of courses) {
+        this.courseMemories.set(item.key, item.value as CourseMemory);
       }
 
       console.log(`📚 Loaded ${this.userProfiles.size} user profiles, ${this.sessionMemories.size} sessions, and ${this.courseMemories.size} courses`);
@@ -772,20 +785,7 @@ export class MemoryManager {
    */
   async cleanup(): Promise<void> {
     try {
-      // Persist all in-memory data
-      for (const profile of this.userProfiles.values()) {
-        await this.persistUserProfile(profile);
-      }
-
-      for (const session of this.sessionMemories.values()) {
-        await this.persistSessionMemory(session);
-      }
-
-      for (const course of this.courseMemories.values()) {
-        await this.persistCourseMemory(course);
-      }
-
-      // Clear caches
+      // Everything is already in the store; just clear caches
       this.userProfiles.clear();
       this.sessionMemories.clear();
       this.courseMemories.clear();
@@ -1,5 +1,6 @@
 import { ipcMain } from 'electron';
 import { memoryManager, CourseMemory } from './memory';
+import { localEmbeddings } from './embeddings';
 
 export const registerMemoryIpc = () => {
   // Save course memory
@@ -108,5 +109,16 @@ export const registerMemoryIpc = () => {
     }
   });
 
+  // Whether search can match by meaning; without the embedding model it is keyword-only
+  ipcMain.handle('memory:get-search-status', async () => {
+    return {
+      success: true,
+      data: {
+        semantic: localEmbeddings.isAvailable(),
+        modelDir: localEmbeddings.modelDir,
+      },
+    };
+  });
+
   console.log('📝 Memory IPC handlers registered');
 };
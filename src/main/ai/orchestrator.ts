@@ -5,7 +5,8 @@
 
 import { EventEmitter } from 'events';
 import { ChatOpenAI } from '@langchain/openai';
-import { StateGraph } from '@langchain/langgraph';
+import { getSecret } from '../credentialVault';
+import { Command, INTERRUPT, Interrupt, MemorySaver, StateGraph } from '@langchain/langgraph';
 import {
   HumanMessage,
   SystemMessage,
@@ -23,6 +24,8 @@ import {
 import { AgentRegistry } from './agents';
 import { memoryManager, MemoryManager, UserProfile, SessionMemory } from './memory';
 import { abortManager } from './abort';
+import { ApprovalDecision, ApprovalRequest } from './tools/approval';
+import type { ThreadSummary } from '../db/sqliteSaver';
 
 /**
  * Orchestrator request interface
@@ -34,6 +37,7 @@ export interface OrchestratorRequest {
   metadata?: Record<string, any>;
   userId?: string;  // User ID for memory management
   threadId?: string;  // Thread ID for conversation continuity
+  checkpointId?: string;  // Continue the thread from this earlier checkpoint instead of its latest one
   useMemory?: boolean;  // Enable/disable memory for this request
 }
 
@@ -57,6 +61,29 @@ export interface OrchestratorResponse {
   metadata?: Record<string, any>;
 }
 
+/**
+ * One saved step of a thread, for browsing its history
+ */
+export interface ThreadCheckpoint {
+  checkpointId: string;
+  parentCheckpointId?: string;
+  createdAt?: string;
+  step?: number;
+  source?: string;
+  next: string[];  // Nodes that run when continuing from here; empty once the run finished
+  interrupted: boolean;  // Paused waiting for the user's approval
+  messageCount: number;
+  lastMessage?: string;
+}
+
+/**
+ * A side-effecting tool call waiting for the user's decision
+ */
+interface PendingApproval {
+  sessionId: string;
+  resolve: (decision: ApprovalDecision) => void;
+}
+
 /**
  * Orchestrator
  * Manages all agent interactions through a single interface
@@ -69,12 +96,13 @@ export class Orchestrator extends EventEmitter {
   private graph: StateGraph<MultiAgentState> | null = null;
   private isInitialized = false;
   private enableMemory = true;
+  private pendingApprovals = new Map<string, PendingApproval>();
 
   constructor() {
     super();
 
     // Initialize LLM with streaming enabled
-    const apiKey = process.env.OPENAI_API_KEY;
+    const apiKey = getSecret('OPENAI_API_KEY');
     const baseURL = process.env.OPENAI_BASE_URL;
 
     if (!apiKey) {
@@ -193,6 +221,26 @@ export class Orchestrator extends EventEmitter {
     console.log('🚀 Starting orchestrator run for session:', request.sessionId);
 
     try {
+      // Compile the graph with a checkpointer: the persistent one, or a throwaway one so
+      // runs can still pause for approvals and resume when memory is disabled
+      const checkpointer = useMemory ? this.memoryManager.getCheckpointer() : new MemorySaver();
+      const compiledGraph = this.graph.compile({
+        checkpointer,
+      });
+
+      // A thread with saved checkpoints continues from its own state
+      const savedCheckpoint = request.threadId
+        ? await checkpointer.getTuple({
+            configurable: {
+              thread_id: threadId,
+              ...(request.checkpointId ? { checkpoint_id: request.checkpointId } : {}),
+            },
+          })
+        : undefined;
+      if (request.checkpointId && !savedCheckpoint) {
+        throw new Error(`Checkpoint ${request.checkpointId} not found in thread ${threadId}`);
+      }
+
       // Load user profile if memory is enabled
       let userProfile: UserProfile | null = null;
       let previousMessages: BaseMessage[] = [];
@@ -211,8 +259,8 @@ export class Orchestrator extends EventEmitter {
           }
         }
 
-        // Load previous conversation if continuing a thread
-        if (request.threadId) {
+        // Load previous conversation if continuing a thread saved before checkpoints were kept
+        if (request.threadId && !savedCheckpoint) {
           const sessionMemory = await this.memoryManager.getSessionMemory(
             request.sessionId,
             threadId
@@ -247,30 +295,34 @@ export class Orchestrator extends EventEmitter {
             context: userProfile.context,
           } : undefined,
         },
-        signal: abortSignal,  // Pass abort signal to agents
       };
 
-      // Compile the graph with checkpointer if memory is enabled
-      const checkpointer = useMemory ? this.memoryManager.getCheckpointer() : undefined;
-      const compiledGraph = this.graph.compile({
-        checkpointer,
-      });
+      // On a saved thread, a prompt adds a turn to its state; without one the run picks up
+      // where the checkpoint left off (an interrupted run, or a replay from an earlier step)
+      let input: Partial<MultiAgentState> | null = initialState;
+      if (savedCheckpoint) {
+        input = currentMessage
+          ? { ...initialState, messages: [currentMessage] }
+          : null;
+        console.log(`⏪ Continuing thread ${threadId} from checkpoint ${savedCheckpoint.config.configurable?.checkpoint_id}`);
+      }
 
       // Prepare config with thread ID for memory and abort signal
       const runConfig = {
-        ...(useMemory ? {
-          configurable: {
-            thread_id: threadId,
-            store: this.memoryManager.getStore(),
-          },
-        } : {}),
+        configurable: {
+          thread_id: threadId,
+          ...(request.checkpointId ? { checkpoint_id: request.checkpointId } : {}),
+          ...(useMemory ? { store: this.memoryManager.getStore() } : {}),
+          // Course the chat was opened from, the default for Moodle tools
+          courseId: request.metadata?.courseId,
+        },
         // Pass the abort signal to LangChain for proper cancellation
         signal: abortSignal,
       };
 
       try {
         // Use regular stream for now, handle tokens differently
-        const stream = await compiledGraph.stream(initialState as any, runConfig);
+        const stream = this.streamWithApprovals(compiledGraph, input, runConfig, request.sessionId, abortSignal);
 
         let finalMessages: BaseMessage[] = [];
         let stepCount = 0;
@@ -630,6 +682,100 @@ export class Orchestrator extends EventEmitter {
     }
   }
 
+  /**
+   * Stream graph updates, pausing at approval interrupts until the user has decided
+   * and then resuming the run from its checkpoint with their decisions
+   */
+  private async *streamWithApprovals(
+    graph: any,
+    input: Partial<MultiAgentState> | null,
+    config: Record<string, any>,
+    sessionId: string,
+    signal: AbortSignal
+  ): AsyncGenerator<Record<string, any>> {
+    let next: any = input;
+    let runConfig = config;
+    do {
+      const stream = await graph.stream(next, runConfig);
+      next = null;
+
+      for await (const chunk of stream) {
+        const interrupts: Interrupt<ApprovalRequest>[] | undefined = chunk?.[INTERRUPT];
+        if (!interrupts) {
+          yield chunk;
+          continue;
+        }
+
+        // Parallel tool calls can pause together: ask about each in turn, then resume them all
+        const decisions: Record<string, ApprovalDecision> = {};
+        for (const pending of interrupts) {
+          decisions[pending.id!] = await this.requestApproval(sessionId, pending, signal);
+        }
+        next = new Command({ resume: decisions });
+      }
+
+      // Resume from the checkpoint the run just paused at, not the one it started from
+      const configurable = { ...runConfig.configurable };
+      delete configurable.checkpoint_id;
+      runConfig = { ...runConfig, configurable };
+    } while (next);
+  }
+
+  /**
+   * Ask the user about a paused tool call and wait for their decision
+   */
+  private requestApproval(
+    sessionId: string,
+    pending: Interrupt<ApprovalRequest>,
+    signal: AbortSignal
+  ): Promise<ApprovalDecision> {
+    const approvalId = `${sessionId}:${pending.id}`;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pendingApprovals.delete(approvalId);
+        reject(new Error('Operation aborted'));
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingApprovals.set(approvalId, {
+        sessionId,
+        resolve: (decision) => {
+          signal.removeEventListener('abort', onAbort);
+          this.pendingApprovals.delete(approvalId);
+          resolve(decision);
+        },
+      });
+
+      console.log(`✋ Waiting for approval of ${pending.value?.toolName} in session ${sessionId}`);
+      this.emit('progress', {
+        sessionId,
+        type: 'approval-request',
+        approval: {
+          id: approvalId,
+          ...pending.value,
+        },
+      });
+    });
+  }
+
+  /**
+   * Answer a pending approval request
+   * Returns false when nothing is waiting for it (already answered or aborted)
+   */
+  resolveApproval(approvalId: string, decision: ApprovalDecision): boolean {
+    const pending = this.pendingApprovals.get(approvalId);
+    if (!pending) return false;
+
+    console.log(`✋ Approval ${approvalId}: ${decision.action}`);
+    pending.resolve(decision);
+    return true;
+  }
+
   /**
    * Generate a summary from messages
    */
@@ -674,6 +820,48 @@ export class Orchestrator extends EventEmitter {
     return this.memoryManager;
   }
 
+  /**
+   * Threads with saved checkpoints, most recently active first
+   */
+  listThreads(limit?: number): ThreadSummary[] {
+    return this.memoryManager.getCheckpointer().listThreads(limit);
+  }
+
+  /**
+   * Saved steps of a thread, newest first
+   * Pass a checkpoint id from here to run() to resume or time-travel to that step
+   */
+  async getThreadHistory(threadId: string, limit: number = 50): Promise<ThreadCheckpoint[]> {
+    await this.initialize();
+    if (!this.graph) {
+      throw new Error('Graph not initialized');
+    }
+
+    const compiledGraph = this.graph.compile({
+      checkpointer: this.memoryManager.getCheckpointer(),
+    });
+
+    const history: ThreadCheckpoint[] = [];
+    for await (const snapshot of compiledGraph.getStateHistory({ configurable: { thread_id: threadId } }, { limit })) {
+      const messages: BaseMessage[] = (snapshot.values as any)?.messages || [];
+      const last = messages[messages.length - 1];
+      history.push({
+        checkpointId: snapshot.config.configurable?.checkpoint_id,
+        parentCheckpointId: snapshot.parentConfig?.configurable?.checkpoint_id,
+        createdAt: snapshot.createdAt,
+        step: snapshot.metadata?.step,
+        source: snapshot.metadata?.source,
+        next: [...snapshot.next],
+        interrupted: snapshot.tasks.some(task => (task.interrupts || []).length > 0),
+        messageCount: messages.length,
+        lastMessage: last
+          ? (typeof last.content === 'string' ? last.content : JSON.stringify(last.content)).substring(0, 200)
+          : undefined,
+      });
+    }
+    return history;
+  }
+
   /**
    * Update user profile
    */
@@ -0,0 +1,118 @@
+/**
+ * Tool Approval
+ * Classifies agent tools as safe or side-effecting, and gates side-effecting ones
+ * behind a LangGraph interrupt so the user can approve, edit or reject each call.
+ * The orchestrator turns the interrupt into a chat:agent:approval-request event and
+ * resumes the run from its checkpoint with the user's decision.
+ */
+
+import { tool } from '@langchain/core/tools';
+import { LangGraphRunnableConfig, interrupt } from '@langchain/langgraph';
+
+export type ToolSafety = 'safe' | 'side-effecting';
+
+/**
+ * What the user is asked to approve
+ */
+export interface ApprovalRequest {
+  toolName: string;
+  description: string;
+  args: Record<string, any>;
+}
+
+/**
+ * The user's answer, passed back as the interrupt's resume value
+ */
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; args: Record<string, any> }
+  | { action: 'reject'; reason?: string };
+
+// Our own tools that change data outside the conversation
+const SIDE_EFFECTING_TOOLS = new Set([
+  'forget', // Deletes a stored memory
+  'save_assignment_grade', // Writes to the Moodle gradebook
+]);
+
+// Set in the config of a call the user approved, to the tool's name. Write tools check it
+// themselves, so one that reaches an agent without the wrapper still cannot run.
+const APPROVED_TOOL_KEY = 'approvedTool';
+
+// MCP browser tools that act on a page rather than read it (e.g. browser_click, browser_fill_form)
+const SIDE_EFFECTING_PATTERN =
+  /(^|_)(click|fill|type|press|select|upload|drag|submit|evaluate|handle_dialog)(_|$)/;
+
+/**
+ * Classify a tool by name
+ */
+export function classifyTool(name: string): ToolSafety {
+  const toolName = name.toLowerCase();
+  if (
+    SIDE_EFFECTING_TOOLS.has(toolName) ||
+    SIDE_EFFECTING_PATTERN.test(toolName)
+  ) {
+    return 'side-effecting';
+  }
+  return 'safe';
+}
+
+/**
+ * Whether a tool call went through the user's approval
+ */
+export function isApprovedCall(
+  toolName: string,
+  config?: LangGraphRunnableConfig,
+): boolean {
+  return config?.configurable?.[APPROVED_TOOL_KEY] === toolName;
+}
+
+/**
+ * Wrap a tool so every call waits for the user's approval
+ */
+export function withApproval(original: any): any {
+  const gated = tool(
+    async (input: Record<string, any>, config: LangGraphRunnableConfig) => {
+      const decision = interrupt<ApprovalRequest, ApprovalDecision>({
+        toolName: original.name,
+        description: original.description,
+        args: input,
+      });
+
+      if (decision?.action === 'reject') {
+        console.log(`🛑 [Approval] User rejected ${original.name}`);
+        return `The user rejected this ${original.name} call${decision.reason ? `: ${decision.reason}` : ''}. Do not retry it; tell the user it was not done.`;
+      }
+
+      const args = decision?.action === 'edit' ? decision.args : input;
+      console.log(
+        `✅ [Approval] Running ${original.name}${decision?.action === 'edit' ? ' with edited arguments' : ''}`,
+      );
+      return original.invoke(args, {
+        ...config,
+        configurable: {
+          ...config?.configurable,
+          [APPROVED_TOOL_KEY]: original.name,
+        },
+      });
+    },
+    {
+      name: original.name,
+      description: original.description,
+      schema: original.schema,
+    },
+  );
+
+  return Object.assign(gated, { safety: 'side-effecting' as ToolSafety });
+}
+
+/**
+ * Gate the side-effecting tools of a list, leaving safe tools as they are
+ */
+export function requireApproval<T>(tools: T[]): T[] {
+  return tools.map((t: any) =>
+    classifyTool(String(t?.name || '')) === 'side-effecting' &&
+    t?.safety !== 'side-effecting'
+      ? withApproval(t)
+      : t,
+  );
+}
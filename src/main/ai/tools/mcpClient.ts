@@ -7,6 +7,7 @@
 import { MultiServerMCPClient } from '@langchain/mcp-adapters';
 import fs from 'fs';
 import path from 'path';
+import { getSecret } from '../../credentialVault';
 
 export interface MCPClientConfig {
   enableScreenpipe?: boolean;
@@ -31,7 +32,7 @@ export class MCPClient {
       enablePlaywright: config.enablePlaywright ?? false,
       screenpipeDir: config.screenpipeDir,
       screenpipePort: config.screenpipePort,
-      tavilyApiKey: config.tavilyApiKey ?? process.env.TAVILY_API_KEY,
+      tavilyApiKey: config.tavilyApiKey ?? getSecret('TAVILY_API_KEY'),
       sseUrl: config.sseUrl ?? process.env.SCREENPIPE_MCP_SSE_URL,
     };
 
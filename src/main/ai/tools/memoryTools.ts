@@ -9,6 +9,15 @@ import { z } from 'zod';
 import { LangGraphRunnableConfig } from '@langchain/langgraph';
 import { memoryManager, UserProfile, CourseMemory } from '../memory';
 
+/**
+ * What the remember tool stores under a key
+ */
+interface RememberedItem {
+  value: any;
+  timestamp: string;
+  userId: string;
+}
+
 /**
  * Tool to get user information from memory
  */
@@ -233,15 +242,12 @@ export const rememberTool = tool(
       }
 
       // Save to store with user context
-      await store.put(
-        [namespace, userId],
-        input.key,
-        {
-          value: input.value,
-          timestamp: new Date().toISOString(),
-          userId,
-        }
-      );
+      const item: RememberedItem = {
+        value: input.value,
+        timestamp: new Date().toISOString(),
+        userId,
+      };
+      await store.put([namespace, userId], input.key, item);
 
       return `Successfully remembered "${input.key}" in ${namespace}`;
     } catch (error) {
@@ -283,10 +289,19 @@ export const recallTool = tool(
       const memory = await store.get([namespace, userId], input.key);
       
       if (memory) {
-        const data = memory.value as any;
+        const data = memory.value as RememberedItem;
         return JSON.stringify(data.value, null, 2);
       }
 
+      // No exact key: fall back to the closest memories by meaning and keywords
+      const similar = await store.search([namespace, userId], { query: input.key, limit: 3 });
+      if (similar.length > 0) {
+        return `No memory found for key "${input.key}", closest matches in ${namespace}:\n` +
+          similar
+            .map(item => `- ${item.key}: ${JSON.stringify((item.value as RememberedItem).value)}`)
+            .join('\n');
+      }
+
       return `No memory found for key "${input.key}" in ${namespace}`;
     } catch (error) {
       return `Error recalling: ${(error as Error).message}`;
@@ -294,9 +309,9 @@ export const recallTool = tool(
   },
   {
     name: 'recall',
-    description: 'Recall a specific piece of information that was previously remembered',
+    description: 'Recall a specific piece of information that was previously remembered; if the key is not found, the closest memories are returned',
     schema: z.object({
-      key: z.string().describe('The key to recall'),
+      key: z.string().describe('The key to recall, or a description of the memory'),
       namespace: z.string().optional().describe('The namespace to recall from (default: memories)'),
     }),
   }
@@ -384,27 +399,20 @@ export const searchCoursesInMemoryTool = tool(
     config: LangGraphRunnableConfig
   ): Promise<string> => {
     try {
-      const allCourses = await memoryManager.getAllCourseMemories();
-      
       if (input.query) {
-        const queryLower = input.query.toLowerCase();
-        const filtered = allCourses.filter(course => 
-          course.courseName.toLowerCase().includes(queryLower) ||
-          course.courseShortName.toLowerCase().includes(queryLower) ||
-          course.summary?.toLowerCase().includes(queryLower) ||
-          course.assignments?.some(a => a.name.toLowerCase().includes(queryLower)) ||
-          course.students?.some(s => s.name.toLowerCase().includes(queryLower))
-        );
+        // Ranked by meaning and keywords over course names, topics, assignments and students
+        const { courses } = await memoryManager.searchMemories(input.query);
         
-        if (filtered.length === 0) {
+        if (courses.length === 0) {
           return 'No courses found matching your query';
         }
         
-        return filtered.map(c => 
+        return courses.map(c => 
           `${c.courseShortName}: ${c.courseName} (${c.students?.length || 0} students, ${c.assignments?.length || 0} assignments)`
         ).join('\n');
       }
       
+      const allCourses = await memoryManager.getAllCourseMemories();
       if (allCourses.length === 0) {
         return 'No courses found in memory';
       }
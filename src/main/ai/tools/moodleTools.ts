@@ -0,0 +1,534 @@
+/**
+ * Moodle Tools for Agents
+ * Typed tools over the same Moodle web service calls as the moodle:* IPC handlers,
+ * run against the active Moodle profile. Read tools are safe to offer by default;
+ * write tools change data in Moodle and are gated behind the user's approval (see approval.ts).
+ */
+
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { LangGraphRunnableConfig } from '@langchain/langgraph';
+import {
+  MoodleAssignment,
+  MoodleClient,
+  getMoodleClient,
+  isMoodleError,
+} from '../../moodleClient';
+import { activeSiteScope, getActiveConfig } from '../../moodleProfiles';
+import {
+  refreshCourseMaterials,
+  searchCourseMaterials,
+} from '../../courseMaterials';
+import {
+  getLatePenaltySettings,
+  saveFinalGrade,
+} from '../../db/gradingHandlers';
+import { calculateLatePenalty } from '../../../renderer/utils/latePenalty';
+import { isApprovedCall } from './approval';
+
+/**
+ * Client for the signed-in Moodle profile
+ */
+function activeClient(): MoodleClient {
+  const { baseUrl, apiKey } = getActiveConfig();
+  if (!apiKey) {
+    throw new Error(
+      'No Moodle site is connected. Ask the user to sign in to Moodle first.',
+    );
+  }
+  return getMoodleClient(baseUrl, apiKey);
+}
+
+/**
+ * Numeric id of the requested course, defaulting to the course the chat was opened from
+ */
+async function resolveCourse(
+  client: MoodleClient,
+  courseId: string | undefined,
+  config: LangGraphRunnableConfig,
+): Promise<number> {
+  const requested = courseId || config.configurable?.courseId;
+  if (!requested) {
+    throw new Error(
+      'No course was given and no course is open. Ask the user which course they mean.',
+    );
+  }
+
+  const numericCourseId = await client.resolveCourseId(requested);
+  if (numericCourseId === null) {
+    throw new Error(`Course not found: ${requested}`);
+  }
+  return numericCourseId;
+}
+
+const toIsoDate = (seconds?: number) =>
+  seconds ? new Date(seconds * 1000).toISOString() : null;
+
+// Tools answer with text, so failures are reported rather than thrown
+const toolError = (action: string, error: unknown) => {
+  const code = isMoodleError(error) ? ` (${error.errorcode})` : '';
+  return `Error ${action}: ${(error as Error).message}${code}`;
+};
+
+/**
+ * Names of an assignment's participants, keyed by user id
+ */
+async function participantNames(client: MoodleClient, assignmentId: string) {
+  const participants = await client.call('mod_assign_list_participants', {
+    assignid: assignmentId,
+    groupid: 0,
+    filter: '',
+  });
+  return new Map(
+    (Array.isArray(participants) ? participants : []).map((p) => [
+      String(p.id),
+      p,
+    ]),
+  );
+}
+
+/**
+ * Tool to list the assignments of a course
+ */
+export const listCourseAssignmentsTool = tool(
+  async (
+    input: { courseId?: string },
+    config: LangGraphRunnableConfig,
+  ): Promise<string> => {
+    try {
+      const client = activeClient();
+      const numericCourseId = await resolveCourse(
+        client,
+        input.courseId,
+        config,
+      );
+      const { courses } = await client.call('mod_assign_get_assignments', {
+        courseids: [numericCourseId],
+      });
+      const assignments = (courses || []).flatMap(
+        (course) => course.assignments || [],
+      );
+
+      if (assignments.length === 0) {
+        return `No assignments found in course ${numericCourseId}`;
+      }
+
+      return JSON.stringify(
+        assignments.map((assignment) => ({
+          id: String(assignment.id),
+          name: assignment.name,
+          dueDate: toIsoDate(assignment.duedate),
+          cutoffDate: toIsoDate(assignment.cutoffdate),
+          maxGrade: assignment.grade,
+          teamSubmission: !!assignment.teamsubmission,
+        })),
+        null,
+        2,
+      );
+    } catch (error) {
+      return toolError('listing assignments', error);
+    }
+  },
+  {
+    name: 'list_course_assignments',
+    description:
+      'List the assignments of a Moodle course with their ids, due dates and maximum grades',
+    schema: z.object({
+      courseId: z
+        .string()
+        .optional()
+        .describe('Course id or short name (defaults to the open course)'),
+    }),
+  },
+);
+
+/**
+ * Tool to list the users enrolled in a course
+ */
+export const listEnrolledUsersTool = tool(
+  async (
+    input: { courseId?: string; role?: string },
+    config: LangGraphRunnableConfig,
+  ): Promise<string> => {
+    try {
+      const client = activeClient();
+      const numericCourseId = await resolveCourse(
+        client,
+        input.courseId,
+        config,
+      );
+      const users = await client.call('core_enrol_get_enrolled_users', {
+        courseid: numericCourseId,
+      });
+
+      const enrolled = (Array.isArray(users) ? users : [])
+        .map((user) => ({
+          id: String(user.id),
+          fullname: user.fullname,
+          email: user.email,
+          roles: (user.roles || []).map((role) => role.shortname),
+          groups: (user.groups || []).map((group) => group.name),
+        }))
+        .filter((user) => !input.role || user.roles.includes(input.role));
+
+      if (enrolled.length === 0) {
+        return `No enrolled users found in course ${numericCourseId}${input.role ? ` with role ${input.role}` : ''}`;
+      }
+
+      return JSON.stringify(enrolled, null, 2);
+    } catch (error) {
+      return toolError('listing enrolled users', error);
+    }
+  },
+  {
+    name: 'list_enrolled_users',
+    description:
+      'List the users enrolled in a Moodle course with their roles and groups',
+    schema: z.object({
+      courseId: z
+        .string()
+        .optional()
+        .describe('Course id or short name (defaults to the open course)'),
+      role: z
+        .string()
+        .optional()
+        .describe(
+          'Only users with this role, e.g. "student" or "editingteacher"',
+        ),
+    }),
+  },
+);
+
+/**
+ * Tool to show who has and has not submitted an assignment
+ */
+export const listAssignmentSubmissionsTool = tool(
+  async (input: {
+    assignmentId: string;
+    status?: 'submitted' | 'draft' | 'new';
+  }): Promise<string> => {
+    try {
+      const client = activeClient();
+      const participants = await participantNames(client, input.assignmentId);
+      const { assignments } = await client.call('mod_assign_get_submissions', {
+        assignmentids: [input.assignmentId],
+      });
+      const submissions = new Map(
+        (assignments?.[0]?.submissions || []).map((s) => [String(s.userid), s]),
+      );
+
+      const rows = Array.from(participants.values())
+        .map((participant) => {
+          const submission = submissions.get(String(participant.id));
+          return {
+            userId: String(participant.id),
+            fullname: participant.fullname,
+            status: participant.submissionstatus || submission?.status || 'new',
+            lastModified: toIsoDate(submission?.timemodified),
+          };
+        })
+        .filter((row) => !input.status || row.status === input.status);
+
+      if (rows.length === 0) {
+        return `No submissions found for assignment ${input.assignmentId}${input.status ? ` with status ${input.status}` : ''}`;
+      }
+
+      return JSON.stringify(rows, null, 2);
+    } catch (error) {
+      return toolError('listing submissions', error);
+    }
+  },
+  {
+    name: 'list_assignment_submissions',
+    description:
+      'List the submission status of every participant of an assignment ("submitted", "draft" or "new" for nothing submitted)',
+    schema: z.object({
+      assignmentId: z
+        .string()
+        .describe('The assignment id, from list_course_assignments'),
+      status: z
+        .enum(['submitted', 'draft', 'new'])
+        .optional()
+        .describe('Only participants with this status'),
+    }),
+  },
+);
+
+/**
+ * Tool to read the grades given for an assignment
+ */
+export const getAssignmentGradesTool = tool(
+  async (input: { assignmentId: string }): Promise<string> => {
+    try {
+      const client = activeClient();
+      const participants = await participantNames(client, input.assignmentId);
+      const { assignments } = await client.call('mod_assign_get_grades', {
+        assignmentids: [input.assignmentId],
+      });
+
+      // Moodle reports "not graded yet" as a negative grade
+      const grades = (assignments?.[0]?.grades || [])
+        .filter((grade) => parseFloat(grade.grade) >= 0)
+        .map((grade) => ({
+          userId: String(grade.userid),
+          fullname: participants.get(String(grade.userid))?.fullname,
+          grade: parseFloat(grade.grade),
+          gradedAt: toIsoDate(grade.timemodified),
+          feedback:
+            grade.plugindata?.assignfeedbackcomments_editor?.text || undefined,
+        }));
+
+      if (grades.length === 0) {
+        return `No grades have been given for assignment ${input.assignmentId}`;
+      }
+
+      return JSON.stringify(grades, null, 2);
+    } catch (error) {
+      return toolError('reading grades', error);
+    }
+  },
+  {
+    name: 'get_assignment_grades',
+    description: 'Get the grades and feedback comments given for an assignment',
+    schema: z.object({
+      assignmentId: z
+        .string()
+        .describe('The assignment id, from list_course_assignments'),
+    }),
+  },
+);
+
+/**
+ * Late penalty the Grading view would take off a grade, counted from the
+ * student's (or their group's) submission and any extension they were granted
+ */
+async function latePenaltyFor(
+  client: MoodleClient,
+  assignment: MoodleAssignment,
+  userId: string,
+  grade: number,
+) {
+  const settings = getLatePenaltySettings();
+  if (!settings?.enabled) return null;
+
+  const [status, flags] = await Promise.all([
+    client.call('mod_assign_get_submission_status', {
+      assignid: assignment.id,
+      userid: userId,
+    }),
+    client.call('mod_assign_get_user_flags', {
+      assignmentids: [assignment.id],
+    }),
+  ]);
+  const submission =
+    status.lastattempt?.teamsubmission || status.lastattempt?.submission;
+  const extensionDueDate = (flags.assignments?.[0]?.userflags || []).find(
+    (flag) => String(flag.userid) === userId,
+  )?.extensionduedate;
+
+  const dueDate = extensionDueDate || assignment.duedate || undefined;
+  const submittedAt =
+    submission?.status === 'submitted' ? submission.timemodified : undefined;
+  return calculateLatePenalty(
+    grade,
+    assignment.grade,
+    {
+      dueDate,
+      extended: !!extensionDueDate,
+      submittedAt,
+      lateBy: dueDate && submittedAt ? Math.max(0, submittedAt - dueDate) : 0,
+      overdue: false,
+    },
+    settings,
+  );
+}
+
+/**
+ * Tool to save a student's grade in Moodle
+ * Side-effecting: the user approves, edits or rejects each call before it runs
+ */
+export const saveAssignmentGradeTool = tool(
+  async (
+    input: {
+      assignmentId: string;
+      userId: string;
+      grade: number;
+      feedback?: string;
+      applyToGroup: boolean;
+    },
+    config: LangGraphRunnableConfig,
+  ): Promise<string> => {
+    // The approval is recorded by the approval wrapper, never by the model's arguments
+    if (!isApprovedCall('save_assignment_grade', config)) {
+      return 'Error saving grade: the user has not approved this grade. Grades can only be saved through an approved save_assignment_grade call.';
+    }
+
+    try {
+      const client = activeClient();
+      // Every course the user can see, so the assignment is found without its course
+      const { courses } = await client.call('mod_assign_get_assignments', {
+        courseids: [],
+      });
+      const assignment = (courses || [])
+        .flatMap((course) => course.assignments || [])
+        .find((a) => String(a.id) === input.assignmentId);
+      if (!assignment) {
+        return `Error saving grade: assignment ${input.assignmentId} not found`;
+      }
+
+      // A maximum of 0 or below means the assignment uses a scale or no grade
+      if (assignment.grade > 0 && input.grade > assignment.grade) {
+        return `Error saving grade: ${input.grade} is above the maximum grade of ${assignment.grade} for assignment ${input.assignmentId}`;
+      }
+      if (input.applyToGroup && !assignment.teamsubmission) {
+        return `Error saving grade: assignment ${input.assignmentId} is not a group assignment, so the grade can only be saved for the student`;
+      }
+
+      const penalty = await latePenaltyFor(
+        client,
+        assignment,
+        input.userId,
+        input.grade,
+      );
+      const grade = penalty ? penalty.grade : input.grade;
+
+      await client.call('mod_assign_save_grade', {
+        assignmentid: input.assignmentId,
+        userid: input.userId,
+        grade,
+        attemptnumber: -1, // -1 means current attempt
+        addattempt: 0,
+        workflowstate: '',
+        plugindata: input.feedback
+          ? {
+              assignfeedbackcomments_editor: {
+                text: input.feedback,
+                format: 1,
+              },
+            } // 1 = HTML format
+          : {},
+        applytoall: input.applyToGroup ? 1 : 0,
+      });
+
+      // Keeps the Grading view in step with what was published
+      saveFinalGrade(
+        input.assignmentId,
+        input.userId,
+        activeSiteScope(),
+        String(grade),
+        input.feedback ?? null,
+      );
+
+      const student = input.applyToGroup
+        ? `the group of user ${input.userId}`
+        : `user ${input.userId}`;
+      const saved = `Saved grade ${grade} for ${student} on assignment ${input.assignmentId}`;
+      return penalty
+        ? `${saved} (${input.grade} less a late penalty of ${penalty.deduction}: ${penalty.daysLate} day(s) late, ${penalty.percent}%)`
+        : saved;
+    } catch (error) {
+      return toolError('saving grade', error);
+    }
+  },
+  {
+    name: 'save_assignment_grade',
+    description:
+      "Save a grade (and optional feedback comment) for a student on an assignment in Moodle. The grade is checked against the assignment's maximum, and the late penalty set in the Grading view is taken off late submissions. Changes the gradebook, so the user is asked to approve the call first",
+    schema: z.object({
+      assignmentId: z
+        .string()
+        .describe('The assignment id, from list_course_assignments'),
+      userId: z.string().describe('The student user id'),
+      grade: z
+        .number()
+        .min(0)
+        .describe(
+          'The grade before any late penalty, between 0 and the assignment maximum',
+        ),
+      feedback: z
+        .string()
+        .optional()
+        .describe('Feedback comment shown to the student'),
+      applyToGroup: z
+        .boolean()
+        .describe(
+          "Group assignments only: true to give the grade to every member of the student's group, false for the student alone. Only true when the user asked to grade the group",
+        ),
+    }),
+  },
+);
+
+/**
+ * Tool to answer from the course's own materials (lecture slides, readings, pages)
+ */
+export const searchCourseMaterialsTool = tool(
+  async (
+    input: { query: string; courseId?: string; limit?: number },
+    config: LangGraphRunnableConfig,
+  ): Promise<string> => {
+    try {
+      const client = activeClient();
+      const numericCourseId = await resolveCourse(
+        client,
+        input.courseId,
+        config,
+      );
+
+      // Picks up new and changed files; unchanged files are not downloaded again
+      await refreshCourseMaterials(numericCourseId);
+      const passages = await searchCourseMaterials(
+        numericCourseId,
+        input.query,
+        input.limit || 5,
+      );
+
+      if (passages.length === 0) {
+        return `No passages about "${input.query}" found in the materials of course ${numericCourseId}`;
+      }
+
+      return passages
+        .map((passage, index) => {
+          const source =
+            passage.page !== null
+              ? `${passage.fileName}, page ${passage.page}`
+              : passage.fileName;
+          return `[${index + 1}] ${source} (${passage.moduleName})\n${passage.text}`;
+        })
+        .join('\n\n');
+    } catch (error) {
+      return toolError('searching course materials', error);
+    }
+  },
+  {
+    name: 'search_course_materials',
+    description:
+      'Search the files of a course (lecture slides, readings, Moodle pages) for passages about a topic; each passage comes with its source file and page',
+    schema: z.object({
+      query: z.string().describe('What to look for, e.g. "Bayes\' theorem"'),
+      courseId: z
+        .string()
+        .optional()
+        .describe('Course id or short name (defaults to the open course)'),
+      limit: z
+        .number()
+        .optional()
+        .describe('Maximum number of passages (default 5)'),
+    }),
+  },
+);
+
+/**
+ * Tools that only read from Moodle
+ */
+export const moodleReadTools = [
+  listCourseAssignmentsTool,
+  listEnrolledUsersTool,
+  listAssignmentSubmissionsTool,
+  getAssignmentGradesTool,
+  searchCourseMaterialsTool,
+];
+
+/**
+ * Tools that change data in Moodle; not offered unless enabled, and approved per call
+ */
+export const moodleWriteTools = [saveAssignmentGradeTool];
@@ -4,7 +4,8 @@
  */
 
 import { ChatOpenAI } from '@langchain/openai';
-import { Command } from '@langchain/langgraph';
+import { getSecret } from '../../credentialVault';
+import { Command, LangGraphRunnableConfig } from '@langchain/langgraph';
 import {
   HumanMessage,
   SystemMessage,
@@ -13,6 +14,7 @@ import {
 } from '@langchain/core/messages';
 import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
+import { requireApproval } from '../tools/approval';
 
 /**
  * Agent capabilities define what an agent can do
@@ -36,6 +38,8 @@ export interface AgentCapabilities {
   userPreferences?: boolean;
   /** Conversation history management */
   conversationHistory?: boolean;
+  /** Live Moodle course data (assignments, submissions, grades, enrolments) */
+  moodle?: boolean;
 }
 
 /**
@@ -77,8 +81,11 @@ export interface AgentState {
   errors?: string[];
   /** Additional metadata */
   metadata?: Record<string, any>;
-  /** Abort signal for cancellation */
-  signal?: AbortSignal;
+  /**
+   * Config of the graph run the agent executes in: its abort signal, and the checkpointer
+   * that lets a tool call pause for approval and resume. Passed to every LLM and tool call.
+   */
+  config?: LangGraphRunnableConfig;
 }
 
 /**
@@ -124,7 +131,8 @@ export abstract class BaseAgent {
   constructor(config: AgentConfig, llm?: ChatOpenAI) {
     this.config = config;
     this.llm = llm || this.createLLM();
-    this.mcpTools = config.tools || [];
+    // Side-effecting tools wait for the user's approval before running
+    this.mcpTools = requireApproval(config.tools || []);
     this.handoffTools = new Map();
 
     // Initialize handoff tools if agent can hand off
@@ -137,7 +145,7 @@ export abstract class BaseAgent {
    * Create LLM instance with agent-specific config
    */
   protected createLLM(): ChatOpenAI {
-    const apiKey = process.env.OPENAI_API_KEY;
+    const apiKey = getSecret('OPENAI_API_KEY');
     const baseURL = process.env.OPENAI_BASE_URL;
 
     if (!apiKey) {
@@ -270,6 +278,11 @@ export abstract class BaseAgent {
       if (historyKeywords.some(k => text.includes(k))) return true;
     }
 
+    if (this.config.capabilities.moodle) {
+      const moodleKeywords = ['moodle', 'assignment', 'submission', 'submitted', 'grade', 'enrolled'];
+      if (moodleKeywords.some(k => text.includes(k))) return true;
+    }
+
     return false;
   }
 
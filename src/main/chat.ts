@@ -2,6 +2,7 @@ import { ipcMain } from 'electron';
 import { executeQuery } from './db';
 import { orchestrator } from './ai';
 import { UserProfile } from './ai/memory';
+import { ApprovalDecision } from './ai/tools/approval';
 
 export const registerChatIpc = () => {
   // Abort IPC handler
@@ -25,6 +26,22 @@ export const registerChatIpc = () => {
     }
   });
 
+  // Approve, edit or reject a side-effecting tool call the agent is waiting on
+  ipcMain.handle('chat:agent:approval-response', async (_event, { approvalId, decision }: {
+    approvalId: string;
+    decision: ApprovalDecision;
+  }) => {
+    try {
+      const resolved = orchestrator.resolveApproval(approvalId, decision);
+      return resolved
+        ? { success: true }
+        : { success: false, error: 'This action is no longer waiting for approval' };
+    } catch (error) {
+      console.error(`[Chat] Error answering approval ${approvalId}:`, error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // Chat IPC handlers
   ipcMain.handle('chat:list', async (_event, { chatId }) => {
     try {
@@ -93,6 +110,7 @@ export const registerChatIpc = () => {
       prompt,
       userId,
       threadId,
+      checkpointId,
       useMemory = true,
       courseId
     }: {
@@ -100,6 +118,7 @@ export const registerChatIpc = () => {
       prompt?: string;
       userId?: string;
       threadId?: string;
+      checkpointId?: string;
       useMemory?: boolean;
       courseId?: string;
     }) => {
@@ -191,6 +210,13 @@ export const registerChatIpc = () => {
                   token: payload.token,
                   node: payload.node,
                 });
+              } else if (payload.type === 'approval-request') {
+                // A side-effecting tool call is paused until the user decides
+                console.log(`✋ Sending approval request to UI for session ${sessionId}:`, payload.approval?.toolName);
+                event?.sender?.send?.('chat:agent:approval-request', {
+                  sessionId,
+                  approval: payload.approval,
+                });
               } else if (payload.type === 'synthesis-start') {
                 // Signal that synthesis streaming is starting
                 event?.sender?.send?.('chat:agent:synthesis-start', {
@@ -249,6 +275,7 @@ export const registerChatIpc = () => {
             prompt,
             userId,
             threadId,
+            checkpointId,
             useMemory,
             metadata: {
               courseId,
@@ -342,6 +369,28 @@ export const registerChatIpc = () => {
     }
   });
 
+  // Saved agent threads: list them and browse a thread's checkpoints. To resume or time-travel,
+  // call chat:agent:run with the threadId (and a checkpointId from the history)
+  ipcMain.handle('chat:threads:list', async (_event, { limit = 50 }: { limit?: number } = {}) => {
+    try {
+      const threads = orchestrator.listThreads(limit);
+      return { success: true, threads };
+    } catch (e) {
+      console.error('chat:threads:list failed', e);
+      return { success: false, error: (e as Error).message };
+    }
+  });
+
+  ipcMain.handle('chat:threads:history', async (_event, { threadId, limit = 50 }: { threadId: string; limit?: number }) => {
+    try {
+      const history = await orchestrator.getThreadHistory(threadId, limit);
+      return { success: true, history };
+    } catch (e) {
+      console.error('chat:threads:history failed', e);
+      return { success: false, error: (e as Error).message };
+    }
+  });
+
   ipcMain.handle('chat:memory:setEnabled', async (_event, { enabled }: { enabled: boolean }) => {
     try {
       orchestrator.setMemoryEnabled(enabled);
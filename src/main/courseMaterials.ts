@@ -0,0 +1,398 @@
+import { ipcMain } from 'electron';
+import fs from 'fs';
+import {
+  MoodleFile,
+  MoodleModule,
+  MoodleSection,
+  getMoodleClient,
+} from './moodleClient';
+import { activeSiteScope, getActiveConfig } from './moodleProfiles';
+import { scopedId } from './siteScope';
+import { downloadFile } from './fileio';
+import { parsePdfToJson } from './pdfTool';
+import { parseDocxFile } from './msftdocx';
+import { parseSubmissionHtml } from './submission';
+import { detectSubmissionFormat } from './submissionFormats';
+import { memoryManager } from './ai/memory';
+
+// Course materials knowledge base: the files of a course's resources, folders, pages
+// and books are downloaded, split into passages and indexed in the memory store under
+// ['materials', <course>, <file>], so the assistant can answer from them and cite the
+// file and page. A file is only downloaded again when its timemodified changes.
+// Each file's passages are followed by a marker with its timemodified, written last, so a
+// file whose indexing was cut short has no marker and is indexed again.
+
+const CHUNK_SIZE = 1000; // About the 256 tokens the embedding model reads
+const CHUNK_OVERLAP = 150;
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+const SCAN_LIMIT = 10000;
+const INDEXED_KEY = 'indexed';
+
+const INDEXED_MODULES = ['resource', 'folder', 'page', 'book'];
+const INDEXED_FORMATS = ['pdf', 'docx', 'html', 'text', 'markdown'];
+
+export interface MaterialPassage {
+  courseId: string;
+  cmid: number;
+  moduleName: string;
+  fileName: string;
+  // Page of a PDF; other formats have no pages
+  page: number | null;
+  text: string;
+  timemodified: number;
+}
+
+export interface MaterialSearchResult extends MaterialPassage {
+  score: number;
+}
+
+export interface MaterialsIndexStatus {
+  courseId: string;
+  files: number;
+  indexed: number;
+  removed: number;
+  failed: Array<{ fileName: string; error: string }>;
+}
+
+interface CourseFile {
+  module: MoodleModule;
+  file: MoodleFile;
+  label: string;
+}
+
+const lastRefreshed = new Map<string, number>();
+const refreshing = new Map<string, Promise<MaterialsIndexStatus>>();
+
+// Client, token and site scope of the signed-in Moodle profile
+function activeMoodle() {
+  const { baseUrl, apiKey } = getActiveConfig();
+  if (!apiKey) throw new Error('No Moodle site is connected');
+  return {
+    client: getMoodleClient(baseUrl, apiKey),
+    apiKey,
+    scope: activeSiteScope(),
+  };
+}
+
+// Store namespace labels cannot contain periods
+const courseNamespace = (courseId: number, scope: string) => [
+  'materials',
+  scopedId(courseId, scope).replace(/\./g, '_'),
+];
+
+const fileLabel = (module: MoodleModule, file: MoodleFile) =>
+  `${module.id}${file.filepath || '/'}${file.filename}`.replace(/[^\w-]/g, '_');
+
+function courseFiles(sections: MoodleSection[]): CourseFile[] {
+  return (Array.isArray(sections) ? sections : [])
+    .flatMap((section) => section.modules || [])
+    .filter((module) => INDEXED_MODULES.includes(module.modname))
+    .flatMap((module) =>
+      (module.contents || [])
+        .filter((file) => {
+          const format = detectSubmissionFormat(file.filename, file.mimetype);
+          return !!format && INDEXED_FORMATS.includes(format);
+        })
+        .map((file) => ({ module, file, label: fileLabel(module, file) })),
+    );
+}
+
+// Overlapping passages, broken at sentence ends where possible
+export function chunkText(text: string): string[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < clean.length) {
+    let end = Math.min(start + CHUNK_SIZE, clean.length);
+    if (end < clean.length) {
+      const sentenceEnd = clean.lastIndexOf('. ', end);
+      const wordEnd = clean.lastIndexOf(' ', end);
+      if (sentenceEnd > start + CHUNK_SIZE / 2) end = sentenceEnd + 1;
+      else if (wordEnd > start) end = wordEnd;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+
+    const next = clean.indexOf(' ', Math.max(end - CHUNK_OVERLAP, start + 1));
+    start = next !== -1 && next < end ? next + 1 : end;
+  }
+  return chunks.filter(Boolean);
+}
+
+// Text of a downloaded file, by page for PDFs
+async function readPages(
+  filePath: string,
+  fileName: string,
+  mimetype?: string,
+): Promise<Array<{ page: number | null; text: string }>> {
+  switch (detectSubmissionFormat(fileName, mimetype)) {
+    case 'pdf': {
+      const parsed = await parsePdfToJson({ filePath, includeMetadata: false });
+      return Object.values(parsed.pages as Record<string, any>).map((page) => ({
+        page: page.pageNumber,
+        text: page.fullText || '',
+      }));
+    }
+    case 'docx':
+      return [{ page: null, text: (await parseDocxFile(filePath)).text }];
+    case 'html':
+      return [
+        {
+          page: null,
+          text: parseSubmissionHtml(fs.readFileSync(filePath, 'utf8')).text,
+        },
+      ];
+    default:
+      return [{ page: null, text: fs.readFileSync(filePath, 'utf8') }];
+  }
+}
+
+async function extractPassages(
+  courseId: number,
+  { module, file, label }: CourseFile,
+  apiKey: string,
+): Promise<MaterialPassage[]> {
+  // Moodle files usually need the token as a query parameter
+  const download = await downloadFile({
+    url: file.fileurl,
+    filename: `material_${courseId}_${label}`,
+    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)' },
+    params: file.fileurl.includes('token=') ? undefined : { token: apiKey },
+  });
+  if (!download.success) throw new Error(download.error);
+
+  try {
+    const pages = await readPages(
+      download.filePath,
+      file.filename,
+      file.mimetype,
+    );
+    return pages.flatMap(({ page, text }) =>
+      chunkText(text).map((chunk) => ({
+        courseId: String(courseId),
+        cmid: module.id,
+        moduleName: module.name,
+        fileName: file.filename,
+        page,
+        text: chunk,
+        timemodified: file.timemodified,
+      })),
+    );
+  } finally {
+    fs.promises.unlink(download.filePath).catch(() => {});
+  }
+}
+
+async function removeFile(namespace: string[]): Promise<void> {
+  const store = memoryManager.getStore();
+  const items = await store.search(namespace, { limit: SCAN_LIMIT });
+  for (const item of items) {
+    await store.delete(namespace, item.key);
+  }
+}
+
+async function indexCourse(courseId: number): Promise<MaterialsIndexStatus> {
+  const { client, apiKey, scope } = activeMoodle();
+  const store = memoryManager.getStore();
+  const namespace = courseNamespace(courseId, scope);
+  const sections = await client.call('core_course_get_contents', {
+    courseid: courseId,
+  });
+  const files = courseFiles(sections);
+  const status: MaterialsIndexStatus = {
+    courseId: String(courseId),
+    files: files.length,
+    indexed: 0,
+    removed: 0,
+    failed: [],
+  };
+
+  for (const entry of files) {
+    const fileNamespace = [...namespace, entry.label];
+    const marker = await store.get(fileNamespace, INDEXED_KEY);
+    if (marker?.value.timemodified === entry.file.timemodified) continue;
+
+    try {
+      const passages = await extractPassages(courseId, entry, apiKey);
+      await removeFile(fileNamespace);
+      if (passages.length === 0) {
+        // The marker alone keeps files without text (such as scanned PDFs) from being downloaded again
+        console.warn(
+          `[Materials] No text found in ${entry.file.filename}, skipping`,
+        );
+      }
+      for (const [index, passage] of passages.entries()) {
+        await store.put(fileNamespace, `${passage.page ?? 0}-${index}`, {
+          ...passage,
+        });
+      }
+      await store.put(
+        fileNamespace,
+        INDEXED_KEY,
+        {
+          courseId: String(courseId),
+          cmid: entry.module.id,
+          moduleName: entry.module.name,
+          fileName: entry.file.filename,
+          page: null,
+          text: '',
+          timemodified: entry.file.timemodified,
+        },
+        false,
+      );
+      status.indexed += 1;
+    } catch (error: any) {
+      console.error(
+        `[Materials] Failed to index ${entry.file.filename}:`,
+        error.message,
+      );
+      status.failed.push({
+        fileName: entry.file.filename,
+        error: error.message || 'Failed to index file',
+      });
+    }
+  }
+
+  // Files removed from the course
+  const current = new Set(files.map((entry) => entry.label));
+  const indexed = await store.listNamespaces({
+    prefix: namespace,
+    maxDepth: namespace.length + 1,
+    limit: SCAN_LIMIT,
+  });
+  for (const fileNamespace of indexed) {
+    if (!current.has(fileNamespace[namespace.length])) {
+      await removeFile(fileNamespace);
+      status.removed += 1;
+    }
+  }
+
+  console.log(
+    `[Materials] Course ${courseId}: ${status.files} files, ${status.indexed} indexed, ${status.removed} removed, ${status.failed.length} failed`,
+  );
+  return status;
+}
+
+/**
+ * Bring a course's materials index up to date, at most every few minutes unless forced
+ */
+export async function refreshCourseMaterials(
+  courseId: number,
+  force = false,
+): Promise<MaterialsIndexStatus | null> {
+  const key = scopedId(courseId, activeSiteScope());
+  const running = refreshing.get(key);
+  if (running) return running;
+  if (
+    !force &&
+    Date.now() - (lastRefreshed.get(key) ?? 0) < REFRESH_INTERVAL_MS
+  ) {
+    return null;
+  }
+
+  const refresh = indexCourse(courseId)
+    .then((status) => {
+      lastRefreshed.set(key, Date.now());
+      return status;
+    })
+    .finally(() => refreshing.delete(key));
+  refreshing.set(key, refresh);
+  return refresh;
+}
+
+/**
+ * Passages of a course's materials most relevant to a question, by meaning and keywords
+ */
+export async function searchCourseMaterials(
+  courseId: number,
+  query: string,
+  limit = 5,
+): Promise<MaterialSearchResult[]> {
+  const items = await memoryManager
+    .getStore()
+    .search(courseNamespace(courseId, activeSiteScope()), {
+      query,
+      limit: limit * 2,
+    });
+  return items
+    .map((item) => ({
+      ...(item.value as MaterialPassage),
+      score: item.score ?? 0,
+    }))
+    .filter((passage) => passage.text)
+    .slice(0, limit);
+}
+
+export function setupCourseMaterialsHandlers() {
+  // Index (or refresh) the materials of a course
+  ipcMain.handle(
+    'materials:index-course',
+    async (event, args: { courseId: string; force?: boolean }) => {
+      try {
+        const courseId = await activeMoodle().client.resolveCourseId(
+          args.courseId,
+        );
+        if (courseId === null) {
+          return {
+            success: false,
+            error: `Course not found: ${args.courseId}`,
+          };
+        }
+
+        const status = await refreshCourseMaterials(courseId, args.force);
+        const passages = await memoryManager
+          .getStore()
+          .search(courseNamespace(courseId, activeSiteScope()), {
+            limit: SCAN_LIMIT,
+          });
+        return {
+          success: true,
+          data: {
+            status,
+            files: new Set(passages.map((item) => item.namespace.join('/')))
+              .size,
+            passages: passages.filter((item) => item.value.text).length,
+          },
+        };
+      } catch (error: any) {
+        console.error('[Materials] Error indexing course:', error.message);
+        return {
+          success: false,
+          error: error.message || 'Failed to index course materials',
+        };
+      }
+    },
+  );
+
+  // Search a course's materials
+  ipcMain.handle(
+    'materials:search',
+    async (
+      event,
+      args: { courseId: string; query: string; limit?: number },
+    ) => {
+      try {
+        const courseId = await activeMoodle().client.resolveCourseId(
+          args.courseId,
+        );
+        if (courseId === null) {
+          return {
+            success: false,
+            error: `Course not found: ${args.courseId}`,
+          };
+        }
+        return {
+          success: true,
+          data: await searchCourseMaterials(courseId, args.query, args.limit),
+        };
+      } catch (error: any) {
+        console.error('[Materials] Error searching course:', error.message);
+        return {
+          success: false,
+          error: error.message || 'Failed to search course materials',
+        };
+      }
+    },
+  );
+}
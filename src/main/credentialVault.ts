@@ -0,0 +1,218 @@
+import { ipcMain, safeStorage } from 'electron';
+import { executeQuery } from './db';
+
+// Secrets the app holds (AI provider keys, Moodle tokens) are encrypted with
+// the OS keychain through safeStorage before they reach SQLite. API keys that
+// used to live in plaintext env files are imported on start and dropped from
+// process.env, so child processes and logs never see them. The renderer can
+// set or remove a secret and ask whether one is set, but never read it back.
+
+// Secrets read from env files before the vault existed
+export const VAULT_SECRETS = [
+  'OPENAI_API_KEY',
+  'OPENAI_FAST_API_KEY',
+  'OPENAI_MODERATION_API_KEY',
+  'TAVILY_API_KEY',
+] as const;
+
+export type VaultSecretName = (typeof VAULT_SECRETS)[number];
+
+// A secret as stored: ciphertext (base64), or '' for no secret
+export interface EncryptedValue {
+  value: string;
+  encrypted: boolean;
+}
+
+interface VaultEntry extends EncryptedValue {
+  // 'env' entries follow the env file until the user sets the key themselves
+  source: 'env' | 'user';
+  updatedAt: string;
+}
+
+export interface VaultSecretStatus {
+  name: VaultSecretName;
+  configured: boolean;
+  encrypted: boolean;
+  source?: VaultEntry['source'];
+  updatedAt?: string;
+}
+
+// Secrets are never written in plaintext: without OS encryption they are refused
+export function encryptSecret(value: string): EncryptedValue {
+  if (!value) return { value: '', encrypted: false };
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error(
+      'OS encryption is unavailable on this computer, so the secret was not saved',
+    );
+  }
+  return {
+    value: safeStorage.encryptString(value).toString('base64'),
+    encrypted: true,
+  };
+}
+
+export function decryptSecret(stored: EncryptedValue): string {
+  if (!stored.value || !stored.encrypted) return stored.value;
+  try {
+    return safeStorage.decryptString(Buffer.from(stored.value, 'base64'));
+  } catch (error: any) {
+    console.error('[Vault] Could not decrypt secret:', error.message);
+    return '';
+  }
+}
+
+const isVaultSecret = (name: string): name is VaultSecretName =>
+  (VAULT_SECRETS as readonly string[]).includes(name);
+
+// Decrypted values, so LLM clients created per request don't hit the keychain each time
+const cache = new Map<VaultSecretName, string>();
+// Values found in env files, kept in memory in case the database is unavailable
+const envFallback = new Map<VaultSecretName, string>();
+
+const readEntry = (name: VaultSecretName): VaultEntry | null => {
+  const rows = executeQuery<{ value: string }>(
+    "select value from kv_store where namespace = 'vault' and key = ?",
+    [name],
+  ) as { value: string }[];
+  return Array.isArray(rows) && rows.length > 0
+    ? JSON.parse(rows[0].value)
+    : null;
+};
+
+const writeEntry = (name: VaultSecretName, entry: VaultEntry) => {
+  executeQuery(
+    [
+      "insert into kv_store (namespace, key, value) values ('vault', ?, ?)",
+      'on conflict (namespace, key) do update set value = excluded.value',
+    ].join('\n'),
+    [name, JSON.stringify(entry)],
+  );
+};
+
+const storeSecret = (
+  name: VaultSecretName,
+  value: string,
+  source: VaultEntry['source'],
+) => {
+  writeEntry(name, {
+    ...encryptSecret(value),
+    source,
+    updatedAt: new Date().toISOString(),
+  });
+  cache.set(name, value);
+};
+
+export function getSecret(name: VaultSecretName): string {
+  const cached = cache.get(name);
+  if (cached !== undefined) return cached;
+  try {
+    const entry = readEntry(name);
+    const value = entry ? decryptSecret(entry) : '';
+    if (entry) cache.set(name, value);
+    return value || envFallback.get(name) || process.env[name] || '';
+  } catch (error: any) {
+    console.error(`[Vault] Could not read ${name}:`, error.message);
+    return envFallback.get(name) || process.env[name] || '';
+  }
+}
+
+export function hasSecret(name: VaultSecretName): boolean {
+  return !!getSecret(name);
+}
+
+export function setSecret(name: VaultSecretName, value: string) {
+  storeSecret(name, value.trim(), 'user');
+}
+
+export function deleteSecret(name: VaultSecretName) {
+  executeQuery("delete from kv_store where namespace = 'vault' and key = ?", [
+    name,
+  ]);
+  cache.delete(name);
+  envFallback.delete(name);
+}
+
+export function listSecrets(): VaultSecretStatus[] {
+  return VAULT_SECRETS.map((name) => {
+    const entry = readEntry(name);
+    return {
+      name,
+      configured: hasSecret(name),
+      encrypted: !!entry?.encrypted,
+      source: entry?.source,
+      updatedAt: entry?.updatedAt,
+    };
+  });
+}
+
+// Move plaintext keys from env files into the vault. A key the user set in the
+// app wins over the env file; one imported from env follows later env changes.
+// Without OS encryption a key is only kept in memory, read from the env file on each start.
+export function migratePlaintextSecrets() {
+  VAULT_SECRETS.forEach((name) => {
+    const plaintext = process.env[name];
+    if (!plaintext) return;
+    envFallback.set(name, plaintext);
+    delete process.env[name];
+
+    try {
+      const entry = readEntry(name);
+      if (entry?.source === 'user') return;
+      if (entry && decryptSecret(entry) === plaintext) return;
+      storeSecret(name, plaintext, 'env');
+      envFallback.delete(name);
+      console.log(
+        `[Vault] Moved ${name} into the vault; it can be removed from the env file`,
+      );
+    } catch (error: any) {
+      console.error(`[Vault] Could not migrate ${name}:`, error.message);
+    }
+  });
+}
+
+// Renderer access is write-only: status, set and delete, never the values
+export function setupCredentialVaultHandlers() {
+  ipcMain.handle('vault:list', async () => {
+    try {
+      return { success: true, data: listSecrets() };
+    } catch (error: any) {
+      console.error('[Vault] Error listing secrets:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to list stored keys',
+      };
+    }
+  });
+
+  ipcMain.handle(
+    'vault:set',
+    async (event, args: { name: string; value: string }) => {
+      try {
+        if (!isVaultSecret(args.name)) throw new Error('Unknown key');
+        if (!args.value?.trim()) throw new Error('A value is required');
+        setSecret(args.name, args.value);
+        return { success: true, data: listSecrets() };
+      } catch (error: any) {
+        console.error('[Vault] Error saving secret:', error.message);
+        return {
+          success: false,
+          error: error.message || 'Failed to save key',
+        };
+      }
+    },
+  );
+
+  ipcMain.handle('vault:delete', async (event, args: { name: string }) => {
+    try {
+      if (!isVaultSecret(args.name)) throw new Error('Unknown key');
+      deleteSecret(args.name);
+      return { success: true, data: listSecrets() };
+    } catch (error: any) {
+      console.error('[Vault] Error removing secret:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to remove key',
+      };
+    }
+  });
+}
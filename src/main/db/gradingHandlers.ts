@@ -0,0 +1,546 @@
+import { ipcMain } from 'electron';
+import type Database from 'better-sqlite3'; // eslint-disable-line import/no-extraneous-dependencies
+import {
+  executeQuery as sqliteQuery,
+  executeTransaction as sqliteTx,
+} from './connection';
+import {
+  requireSite,
+  scopedId,
+  siteScopeFilter,
+  unscopedId,
+} from '../siteScope';
+
+// Mirrors of the renderer's GradingRecord / RubricContent shapes (src/renderer/types/grading.d.ts).
+// Assignment ids are stored scoped to the Moodle site each request names (see siteScope)
+type ScoreBreakdownItem = {
+  criteriaName: string;
+  score: number;
+  maxScore: number;
+  feedback?: string;
+};
+
+type GradingRecord = {
+  assignmentId: string;
+  studentId: string;
+  aiGradeResult: { grade: number; feedback: string } | null;
+  detailedAIGradeResult: { scoreBreakdown?: ScoreBreakdownItem[] } | null;
+  isAIGraded: boolean;
+  gradedAt?: number;
+  finalGrade?: string;
+  finalFeedback?: string;
+  hasError?: boolean;
+  errorMessage?: string;
+  errorType?: string;
+  moderation?: { flagged?: boolean } | null;
+  similarity?: { flagged?: boolean } | null;
+};
+
+type LatePenaltySettings = {
+  enabled: boolean;
+  percentPerDay: number;
+  maxPercent: number;
+  basis: 'grade' | 'maximum';
+  graceMinutes: number;
+};
+
+type RubricContent = {
+  filename?: string;
+  rubric?: { source?: string } | null;
+  [key: string]: unknown;
+};
+
+type GradingRecordRow = {
+  assignment_id: string;
+  student_id: string;
+  ai_grade: number | null;
+  ai_feedback: string | null;
+  detailed_result: string | null;
+  is_ai_graded: number;
+  graded_at: number | null;
+  final_grade: string | null;
+  final_feedback: string | null;
+  has_error: number;
+  error_message: string | null;
+  error_type: string | null;
+  moderation: string | null;
+};
+
+type SimilarityFlagRow = {
+  assignment_id: string;
+  student_id: string;
+  flag: string;
+};
+
+type RubricVersionRow = {
+  id: number;
+  assignment_id: string;
+  version: number;
+  filename: string | null;
+  source: string | null;
+  content: string;
+  is_active: number;
+  uploaded_at: number;
+};
+
+const parseJson = <T>(value: string | null): T | null => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+const rowToRecord = (row: GradingRecordRow): GradingRecord => ({
+  assignmentId: unscopedId(row.assignment_id),
+  studentId: row.student_id,
+  aiGradeResult:
+    row.ai_grade !== null
+      ? { grade: row.ai_grade, feedback: row.ai_feedback || '' }
+      : null,
+  detailedAIGradeResult: parseJson(row.detailed_result),
+  isAIGraded: !!row.is_ai_graded,
+  gradedAt: row.graded_at ?? undefined,
+  finalGrade: row.final_grade ?? undefined,
+  finalFeedback: row.final_feedback ?? undefined,
+  hasError: !!row.has_error,
+  errorMessage: row.error_message ?? undefined,
+  errorType: row.error_type ?? undefined,
+  moderation: parseJson(row.moderation),
+});
+
+// Similarity flags are kept in their own table (see similarity.ts). A flagged student
+// who was never graded still gets a record so the flag shows up in the submissions list.
+const withSimilarityFlags = (
+  records: GradingRecord[],
+  flags: SimilarityFlagRow[],
+): GradingRecord[] => {
+  const byKey = new Map(
+    flags.map((row) => [
+      `${unscopedId(row.assignment_id)}:${row.student_id}`,
+      parseJson<{ flagged?: boolean }>(row.flag),
+    ]),
+  );
+  const merged = records.map((record) => {
+    const key = `${record.assignmentId}:${record.studentId}`;
+    const similarity = byKey.get(key) ?? null;
+    byKey.delete(key);
+    return { ...record, similarity };
+  });
+  byKey.forEach((similarity, key) => {
+    const [assignmentId, studentId] = key.split(':');
+    merged.push({
+      assignmentId,
+      studentId,
+      aiGradeResult: null,
+      detailedAIGradeResult: null,
+      isAIGraded: false,
+      similarity,
+    });
+  });
+  return merged;
+};
+
+const rowToRubric = (row: RubricVersionRow) => ({
+  assignmentId: unscopedId(row.assignment_id),
+  rubricContent: parseJson<RubricContent>(row.content),
+  uploadedAt: row.uploaded_at,
+  version: row.version,
+});
+
+const writeRecord = (
+  db: Database.Database,
+  record: GradingRecord,
+  scope: string,
+) => {
+  const assignmentId = scopedId(record.assignmentId, scope);
+  db.prepare(
+    [
+      'insert into grading_records (assignment_id, student_id, ai_grade, ai_feedback, detailed_result, is_ai_graded,',
+      '  graded_at, final_grade, final_feedback, has_error, error_message, error_type, moderation, moderation_flagged)',
+      'values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'on conflict (assignment_id, student_id) do update set',
+      '  ai_grade = excluded.ai_grade, ai_feedback = excluded.ai_feedback, detailed_result = excluded.detailed_result,',
+      '  is_ai_graded = excluded.is_ai_graded, graded_at = excluded.graded_at, final_grade = excluded.final_grade,',
+      '  final_feedback = excluded.final_feedback, has_error = excluded.has_error,',
+      '  error_message = excluded.error_message, error_type = excluded.error_type,',
+      '  moderation = excluded.moderation, moderation_flagged = excluded.moderation_flagged,',
+      '  updated_at = datetime(current_timestamp)',
+    ].join('\n'),
+  ).run(
+    assignmentId,
+    record.studentId,
+    record.aiGradeResult?.grade ?? null,
+    record.aiGradeResult?.feedback ?? null,
+    record.detailedAIGradeResult
+      ? JSON.stringify(record.detailedAIGradeResult)
+      : null,
+    record.isAIGraded ? 1 : 0,
+    record.gradedAt ?? null,
+    record.finalGrade ?? null,
+    record.finalFeedback ?? null,
+    record.hasError ? 1 : 0,
+    record.errorMessage ?? null,
+    record.errorType ?? null,
+    record.moderation ? JSON.stringify(record.moderation) : null,
+    record.moderation?.flagged ? 1 : 0,
+  );
+
+  // Per-criterion scores are denormalized for cross-assignment reporting
+  db.prepare(
+    'delete from criterion_scores where assignment_id = ? and student_id = ?',
+  ).run(assignmentId, record.studentId);
+
+  const breakdown = record.detailedAIGradeResult?.scoreBreakdown || [];
+  if (breakdown.length === 0) return;
+
+  const activeRubric = db
+    .prepare(
+      'select id from rubric_versions where assignment_id = ? and is_active = 1 order by version desc limit 1',
+    )
+    .get(assignmentId) as { id: number } | undefined;
+  const insertScore = db.prepare(
+    [
+      'insert into criterion_scores (assignment_id, student_id, position, criterion_name, score, max_score, feedback, rubric_version_id)',
+      'values (?, ?, ?, ?, ?, ?, ?, ?)',
+    ].join('\n'),
+  );
+  breakdown.forEach((item, index) => {
+    insertScore.run(
+      assignmentId,
+      record.studentId,
+      index,
+      item.criteriaName,
+      Number(item.score) || 0,
+      Number(item.maxScore) || 0,
+      item.feedback || null,
+      activeRubric?.id ?? null,
+    );
+  });
+};
+
+const writeRubricVersion = (
+  db: Database.Database,
+  assignmentId: string,
+  rubricContent: RubricContent,
+  uploadedAt: number,
+) => {
+  const content = JSON.stringify(rubricContent);
+  const active = db
+    .prepare(
+      'select version, content from rubric_versions where assignment_id = ? and is_active = 1 order by version desc limit 1',
+    )
+    .get(assignmentId) as { version: number; content: string } | undefined;
+  // Re-parsing the same file on every assignment switch must not add versions
+  if (active && active.content === content) {
+    return active.version;
+  }
+
+  const latest = db
+    .prepare(
+      'select coalesce(max(version), 0) as version from rubric_versions where assignment_id = ?',
+    )
+    .get(assignmentId) as { version: number };
+  db.prepare(
+    'update rubric_versions set is_active = 0 where assignment_id = ?',
+  ).run(assignmentId);
+  db.prepare(
+    [
+      'insert into rubric_versions (assignment_id, version, filename, source, content, is_active, uploaded_at)',
+      'values (?, ?, ?, ?, ?, 1, ?)',
+    ].join('\n'),
+  ).run(
+    assignmentId,
+    latest.version + 1,
+    rubricContent.filename || null,
+    rubricContent.rubric?.source || null,
+    content,
+    uploadedAt,
+  );
+  return latest.version + 1;
+};
+
+// Final grade saved outside the Grading view (the Moodle agent); a student
+// without a record gets one holding just the final grade and feedback.
+// No feedback keeps the feedback already recorded, as Moodle does
+export const saveFinalGrade = (
+  assignmentId: string,
+  studentId: string,
+  scope: string,
+  finalGrade: string,
+  finalFeedback: string | null,
+) => {
+  sqliteQuery(
+    [
+      'insert into grading_records (assignment_id, student_id, final_grade, final_feedback) values (?, ?, ?, ?)',
+      'on conflict (assignment_id, student_id) do update set',
+      '  final_grade = excluded.final_grade, final_feedback = coalesce(excluded.final_feedback, final_feedback),',
+      '  updated_at = datetime(current_timestamp)',
+    ].join('\n'),
+    [scopedId(assignmentId, scope), studentId, finalGrade, finalFeedback],
+  );
+};
+
+// The Grading view's late penalty settings, mirrored here so grades saved from
+// the main process are penalised the same way; null until the renderer sends them
+export const getLatePenaltySettings = (): LatePenaltySettings | null => {
+  const rows = sqliteQuery<{ value: string }>(
+    "select value from kv_store where namespace = 'grading' and key = 'late-penalty'",
+  ) as { value: string }[];
+  return Array.isArray(rows) && rows.length > 0
+    ? parseJson<LatePenaltySettings>(rows[0].value)
+    : null;
+};
+
+// Grading records and rubric IPC handlers
+export const registerGradingIpcHandlers = () => {
+  // Records for one assignment, or every record when no assignment is given
+  ipcMain.handle('grading:list-records', async (_event, args = {}) => {
+    try {
+      const { assignmentId } = args as { assignmentId?: string };
+      const scope = requireSite(args);
+      const site = siteScopeFilter('assignment_id', scope);
+      const [where, params] = assignmentId
+        ? ['assignment_id = ?', [scopedId(assignmentId, scope)]]
+        : [site.clause, site.params];
+      const rows = sqliteQuery(
+        `select * from grading_records where ${where}`,
+        params,
+      ) as GradingRecordRow[];
+      const flags = sqliteQuery(
+        `select assignment_id, student_id, flag from similarity_flags where ${where}`,
+        params,
+      ) as SimilarityFlagRow[];
+      return {
+        success: true,
+        data: withSimilarityFlags(rows.map(rowToRecord), flags),
+      };
+    } catch (error) {
+      console.error('[grading:list-records] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading:get-record', async (_event, args) => {
+    try {
+      const { assignmentId, studentId } = args;
+      const params = [scopedId(assignmentId, requireSite(args)), studentId];
+      const rows = sqliteQuery(
+        'select * from grading_records where assignment_id = ? and student_id = ?',
+        params,
+      ) as GradingRecordRow[];
+      const flags = sqliteQuery(
+        'select assignment_id, student_id, flag from similarity_flags where assignment_id = ? and student_id = ?',
+        params,
+      ) as SimilarityFlagRow[];
+      const [record] = withSimilarityFlags(rows.map(rowToRecord), flags);
+      return { success: true, data: record ?? null };
+    } catch (error) {
+      console.error('[grading:get-record] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading:save-record', async (_event, args) => {
+    try {
+      const scope = requireSite(args);
+      sqliteTx((db) => writeRecord(db, args.record as GradingRecord, scope));
+      return { success: true };
+    } catch (error) {
+      console.error('[grading:save-record] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading:update-final', async (_event, args) => {
+    try {
+      const { assignmentId, studentId, finalGrade, finalFeedback } = args;
+      const result = sqliteQuery(
+        'update grading_records set final_grade = ?, final_feedback = ?, updated_at = datetime(current_timestamp) where assignment_id = ? and student_id = ?',
+        [
+          finalGrade,
+          finalFeedback,
+          scopedId(assignmentId, requireSite(args)),
+          studentId,
+        ],
+      );
+      return { success: true, result };
+    } catch (error) {
+      console.error('[grading:update-final] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading:save-late-penalty', async (_event, args) => {
+    try {
+      sqliteQuery(
+        [
+          "insert into kv_store (namespace, key, value) values ('grading', 'late-penalty', ?)",
+          'on conflict (namespace, key) do update set value = excluded.value',
+        ].join('\n'),
+        [JSON.stringify(args.settings as LatePenaltySettings)],
+      );
+      return { success: true };
+    } catch (error) {
+      console.error('[grading:save-late-penalty] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading:delete-record', async (_event, args) => {
+    try {
+      const { assignmentId, studentId } = args;
+      const params = [scopedId(assignmentId, requireSite(args)), studentId];
+      // The student's similarity flag goes with the record, or it would show up as a record again
+      const result = sqliteTx((db) => {
+        db.prepare(
+          'delete from similarity_flags where assignment_id = ? and student_id = ?',
+        ).run(...params);
+        const info = db
+          .prepare(
+            'delete from grading_records where assignment_id = ? and student_id = ?',
+          )
+          .run(...params);
+        return [
+          { changes: info.changes, lastInsertRowid: info.lastInsertRowid },
+        ];
+      });
+      return { success: true, result };
+    } catch (error) {
+      console.error('[grading:delete-record] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Active rubric for one assignment, or for every assignment
+  ipcMain.handle('grading:list-rubrics', async (_event, args = {}) => {
+    try {
+      const { assignmentId } = args as { assignmentId?: string };
+      const scope = requireSite(args);
+      const site = siteScopeFilter('assignment_id', scope);
+      const rows = (
+        assignmentId
+          ? sqliteQuery(
+              'select * from rubric_versions where assignment_id = ? and is_active = 1',
+              [scopedId(assignmentId, scope)],
+            )
+          : sqliteQuery(
+              `select * from rubric_versions where is_active = 1 and ${site.clause}`,
+              site.params,
+            )
+      ) as RubricVersionRow[];
+      return {
+        success: true,
+        data: rows.map(rowToRubric).filter((r) => r.rubricContent),
+      };
+    } catch (error) {
+      console.error('[grading:list-rubrics] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading:list-rubric-versions', async (_event, args) => {
+    try {
+      const rows = sqliteQuery(
+        'select * from rubric_versions where assignment_id = ? order by version desc',
+        [scopedId(args.assignmentId, requireSite(args))],
+      ) as RubricVersionRow[];
+      return { success: true, data: rows.map(rowToRubric) };
+    } catch (error) {
+      console.error('[grading:list-rubric-versions] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Every save is a new version; earlier versions stay for records graded against them
+  ipcMain.handle('grading:save-rubric', async (_event, args) => {
+    try {
+      const { assignmentId, rubricContent, uploadedAt } = args;
+      const scope = requireSite(args);
+      const version = sqliteTx((db) =>
+        writeRubricVersion(
+          db,
+          scopedId(assignmentId, scope),
+          rubricContent,
+          uploadedAt ?? Date.now(),
+        ),
+      );
+      return { success: true, data: { version } };
+    } catch (error) {
+      console.error('[grading:save-rubric] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading:clear-rubric', async (_event, args) => {
+    try {
+      const result = sqliteQuery(
+        'update rubric_versions set is_active = 0 where assignment_id = ?',
+        [scopedId(args.assignmentId, requireSite(args))],
+      );
+      return { success: true, result };
+    } catch (error) {
+      console.error('[grading:clear-rubric] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // One-off import of records and rubrics from the old localStorage blob;
+  // rows that already exist in SQLite win. The blob predates site profiles, so
+  // it belongs to the first site and its empty scope
+  ipcMain.handle(
+    'grading:import-legacy',
+    async (_event, { gradingRecords = [], assignmentRubrics = [] }) => {
+      try {
+        const imported = sqliteTx((db) => {
+          let records = 0;
+          let rubrics = 0;
+          const recordExists = db.prepare(
+            'select 1 from grading_records where assignment_id = ? and student_id = ?',
+          );
+          const rubricExists = db.prepare(
+            'select 1 from rubric_versions where assignment_id = ?',
+          );
+
+          (
+            assignmentRubrics as Array<{
+              assignmentId: string;
+              rubricContent: RubricContent;
+              uploadedAt?: number;
+            }>
+          ).forEach((item) => {
+            const assignmentId = scopedId(item.assignmentId, '');
+            if (!rubricExists.get(assignmentId)) {
+              writeRubricVersion(
+                db,
+                assignmentId,
+                item.rubricContent,
+                item.uploadedAt ?? Date.now(),
+              );
+              rubrics += 1;
+            }
+          });
+
+          (gradingRecords as GradingRecord[]).forEach((record) => {
+            if (
+              !recordExists.get(
+                scopedId(record.assignmentId, ''),
+                record.studentId,
+              )
+            ) {
+              writeRecord(db, record, '');
+              records += 1;
+            }
+          });
+
+          return { records, rubrics };
+        });
+        return { success: true, data: imported };
+      } catch (error) {
+        console.error('[grading:import-legacy] Error:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    },
+  );
+};
@@ -1,4 +1,5 @@
 import { ipcMain } from 'electron';
+import { randomUUID } from 'crypto';
 import {
   initializeDatabase as sqliteInit,
   closeDatabase as sqliteClose,
@@ -7,6 +8,8 @@ import {
   runMigrations as sqliteMigrate,
   getDatabaseFilePath,
 } from './index';
+import { registerGradingIpcHandlers } from './gradingHandlers';
+import { requireSite, scopeOf, scopedId, unscopedId } from '../siteScope';
 
 
 // SQLite IPC handlers
@@ -178,11 +181,193 @@ export const registerWorkIpcHandlers = () => {
   });
 };
 
+// Grading queue IPC handlers
+const RETRYABLE_GRADING_ERRORS = ['network', 'parsing'];
+
+const getGradingJobSnapshot = (jobId: string) => {
+  const jobs = sqliteQuery('select * from grading_jobs where id = ?', [jobId]);
+  if (!Array.isArray(jobs) || jobs.length === 0) return null;
+  const items = sqliteQuery(
+    'select * from grading_job_items where job_id = ? order by position',
+    [jobId],
+  );
+  const job = jobs[0] as { assignment_id: string };
+  return {
+    job: {
+      ...job,
+      assignment_id: unscopedId(String(job.assignment_id)),
+      site: scopeOf(String(job.assignment_id)),
+    },
+    items,
+  };
+};
+
+export const registerGradingQueueIpcHandlers = () => {
+  // Create a job for an assignment, replacing any unfinished job for it
+  ipcMain.handle('grading-queue:create', async (_event, args) => {
+    try {
+      const { assignmentId, courseId, studentIds, concurrency, maxRetries } =
+        args;
+      const id = randomUUID();
+      const localAssignmentId = scopedId(assignmentId, requireSite(args));
+      sqliteTx((db) => {
+        db.prepare(
+          "update grading_jobs set status = 'cancelled', updated_at = datetime(current_timestamp) where assignment_id = ? and status in ('running', 'paused')",
+        ).run(localAssignmentId);
+        db.prepare(
+          'insert into grading_jobs (id, assignment_id, course_id, concurrency, max_retries) values (?, ?, ?, ?, ?)',
+        ).run(id, localAssignmentId, courseId || null, concurrency ?? 2, maxRetries ?? 2);
+        const insertItem = db.prepare(
+          'insert or ignore into grading_job_items (job_id, student_id, position) values (?, ?, ?)',
+        );
+        (studentIds as string[]).forEach((studentId, index) => {
+          insertItem.run(id, studentId, index);
+        });
+      });
+      return { success: true, data: getGradingJobSnapshot(id) };
+    } catch (error) {
+      console.error('[grading-queue:create] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Most recent job for an assignment. Callers with no worker attached pass
+  // recoverInterrupted so items left 'running' by a closed window or crash are re-queued
+  ipcMain.handle('grading-queue:get', async (_event, args) => {
+    try {
+      const { assignmentId, recoverInterrupted } = args;
+      const jobs = sqliteQuery(
+        "select id from grading_jobs where assignment_id = ? and status != 'cancelled' order by created_at desc, rowid desc limit 1",
+        [scopedId(assignmentId, requireSite(args))],
+      ) as { id: string }[];
+      if (jobs.length === 0) return { success: true, data: null };
+      if (recoverInterrupted) {
+        sqliteQuery(
+          "update grading_job_items set status = 'pending', updated_at = datetime(current_timestamp) where job_id = ? and status = 'running'",
+          [jobs[0].id],
+        );
+      }
+      const data = getGradingJobSnapshot(jobs[0].id);
+      return { success: true, data };
+    } catch (error) {
+      console.error('[grading-queue:get] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Atomically hand the next pending item to a worker; completes the job when nothing is left
+  ipcMain.handle('grading-queue:claim', async (_event, { jobId }) => {
+    try {
+      const data = sqliteTx((db) => {
+        const job = db
+          .prepare('select status from grading_jobs where id = ?')
+          .get(jobId) as { status: string } | undefined;
+        if (!job || job.status !== 'running') return null;
+
+        const item = db
+          .prepare(
+            "select * from grading_job_items where job_id = ? and status = 'pending' order by position limit 1",
+          )
+          .get(jobId) as Record<string, unknown> | undefined;
+
+        if (!item) {
+          const running = db
+            .prepare(
+              "select count(*) as count from grading_job_items where job_id = ? and status = 'running'",
+            )
+            .get(jobId) as { count: number };
+          if (running.count === 0) {
+            db.prepare(
+              "update grading_jobs set status = 'completed', updated_at = datetime(current_timestamp) where id = ?",
+            ).run(jobId);
+          }
+          return null;
+        }
+
+        db.prepare(
+          "update grading_job_items set status = 'running', attempts = attempts + 1, updated_at = datetime(current_timestamp) where job_id = ? and student_id = ?",
+        ).run(jobId, item.student_id);
+        return { ...item, status: 'running', attempts: Number(item.attempts) + 1 };
+      });
+      return { success: true, data };
+    } catch (error) {
+      console.error('[grading-queue:claim] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('grading-queue:complete-item', async (_event, { jobId, studentId }) => {
+    try {
+      sqliteQuery(
+        "update grading_job_items set status = 'completed', error_type = null, error_message = null, updated_at = datetime(current_timestamp) where job_id = ? and student_id = ?",
+        [jobId, studentId],
+      );
+      return { success: true };
+    } catch (error) {
+      console.error('[grading-queue:complete-item] Error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Network and parsing failures go back to the queue until max_retries is used up
+  ipcMain.handle(
+    'grading-queue:fail-item',
+    async (_event, { jobId, studentId, errorType, errorMessage }) => {
+      try {
+        const retrying = sqliteTx((db) => {
+          const row = db
+            .prepare(
+              'select i.attempts, j.max_retries from grading_job_items i join grading_jobs j on j.id = i.job_id where i.job_id = ? and i.student_id = ?',
+            )
+            .get(jobId, studentId) as { attempts: number; max_retries: number } | undefined;
+          const retry =
+            !!row &&
+            RETRYABLE_GRADING_ERRORS.includes(errorType) &&
+            row.attempts <= row.max_retries;
+          db.prepare(
+            'update grading_job_items set status = ?, error_type = ?, error_message = ?, updated_at = datetime(current_timestamp) where job_id = ? and student_id = ?',
+          ).run(retry ? 'pending' : 'failed', errorType || 'unknown', errorMessage || null, jobId, studentId);
+          return retry;
+        });
+        return { success: true, data: { retrying } };
+      } catch (error) {
+        console.error('[grading-queue:fail-item] Error:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    },
+  );
+
+  // Pause, resume or cancel a job; resuming also re-queues failed items when asked
+  ipcMain.handle(
+    'grading-queue:set-status',
+    async (_event, { jobId, status, retryFailed }) => {
+      try {
+        sqliteTx((db) => {
+          db.prepare(
+            'update grading_jobs set status = ?, updated_at = datetime(current_timestamp) where id = ?',
+          ).run(status, jobId);
+          if (status === 'running' && retryFailed) {
+            db.prepare(
+              "update grading_job_items set status = 'pending', attempts = 0, updated_at = datetime(current_timestamp) where job_id = ? and status = 'failed'",
+            ).run(jobId);
+          }
+        });
+        return { success: true, data: getGradingJobSnapshot(jobId) };
+      } catch (error) {
+        console.error('[grading-queue:set-status] Error:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    },
+  );
+};
+
 // Register all database IPC handlers
 export const registerDatabaseIpcHandlers = () => {
   registerSqliteIpcHandlers();
   registerAppConfigHandler();
   registerWorkIpcHandlers();
+  registerGradingQueueIpcHandlers();
+  registerGradingIpcHandlers();
 };
 
 // Cleanup function for database connections
@@ -61,4 +61,261 @@ export const migrations: Migration[] = [
       'create index if not exists idx_work_created_at on work(created_at);',
     ].join('\n'),
   },
+  {
+    id: '0005_grading_queue',
+    name: 'persistent batch grading queue',
+    up: [
+      'create table if not exists grading_jobs (',
+      '  id text primary key,',
+      '  assignment_id text not null,',
+      '  course_id text,',
+      "  status text not null default 'running',",
+      '  concurrency integer not null default 2,',
+      '  max_retries integer not null default 2,',
+      '  created_at text not null default (datetime(current_timestamp)),',
+      '  updated_at text not null default (datetime(current_timestamp))',
+      ');',
+      'create index if not exists idx_grading_jobs_assignment on grading_jobs(assignment_id);',
+      'create table if not exists grading_job_items (',
+      '  job_id text not null references grading_jobs(id) on delete cascade,',
+      '  student_id text not null,',
+      '  position integer not null,',
+      "  status text not null default 'pending',",
+      '  attempts integer not null default 0,',
+      '  error_type text,',
+      '  error_message text,',
+      '  updated_at text not null default (datetime(current_timestamp)),',
+      '  primary key (job_id, student_id)',
+      ');',
+      'create index if not exists idx_grading_job_items_status on grading_job_items(job_id, status);',
+    ].join('\n'),
+  },
+  {
+    id: '0006_grading_records',
+    name: 'grading records, rubric versions and per-criterion scores',
+    up: [
+      'create table if not exists grading_records (',
+      '  assignment_id text not null,',
+      '  student_id text not null,',
+      '  ai_grade real,',
+      '  ai_feedback text,',
+      '  detailed_result text,',
+      '  is_ai_graded integer not null default 0,',
+      '  graded_at integer,',
+      '  final_grade text,',
+      '  final_feedback text,',
+      '  has_error integer not null default 0,',
+      '  error_message text,',
+      '  error_type text,',
+      '  updated_at text not null default (datetime(current_timestamp)),',
+      '  primary key (assignment_id, student_id)',
+      ');',
+      'create index if not exists idx_grading_records_graded_at on grading_records(graded_at);',
+      'create table if not exists rubric_versions (',
+      '  id integer primary key autoincrement,',
+      '  assignment_id text not null,',
+      '  version integer not null,',
+      '  filename text,',
+      '  source text,',
+      '  content text not null,',
+      '  is_active integer not null default 1,',
+      '  uploaded_at integer not null,',
+      '  unique (assignment_id, version)',
+      ');',
+      'create index if not exists idx_rubric_versions_assignment on rubric_versions(assignment_id, is_active);',
+      'create table if not exists criterion_scores (',
+      '  assignment_id text not null,',
+      '  student_id text not null,',
+      '  position integer not null,',
+      '  criterion_name text not null,',
+      '  score real not null,',
+      '  max_score real not null,',
+      '  feedback text,',
+      '  rubric_version_id integer references rubric_versions(id) on delete set null,',
+      '  primary key (assignment_id, student_id, position),',
+      '  foreign key (assignment_id, student_id) references grading_records(assignment_id, student_id) on delete cascade',
+      ');',
+      'create index if not exists idx_criterion_scores_name on criterion_scores(assignment_id, criterion_name);',
+    ].join('\n'),
+  },
+  {
+    id: '0007_grading_moderation',
+    name: 'second-pass moderation results on grading records',
+    up: [
+      'alter table grading_records add column moderation text;',
+      'alter table grading_records add column moderation_flagged integer not null default 0;',
+      'create index if not exists idx_grading_records_flagged on grading_records(assignment_id, moderation_flagged);',
+    ].join('\n'),
+  },
+  {
+    id: '0008_submission_similarity',
+    name: 'parsed submission texts, similarity reports and collusion flags',
+    up: [
+      'create table if not exists submission_texts (',
+      '  assignment_id text not null,',
+      '  student_id text not null,',
+      '  filename text,',
+      '  submission_modified integer,',
+      "  text text not null default '',",
+      "  html text not null default '',",
+      '  parsed_at integer not null,',
+      '  primary key (assignment_id, student_id)',
+      ');',
+      'create table if not exists similarity_reports (',
+      '  assignment_id text primary key,',
+      '  report text not null,',
+      '  created_at integer not null',
+      ');',
+      'create table if not exists similarity_flags (',
+      '  assignment_id text not null,',
+      '  student_id text not null,',
+      '  flag text not null,',
+      '  flagged integer not null default 0,',
+      '  updated_at text not null default (datetime(current_timestamp)),',
+      '  primary key (assignment_id, student_id)',
+      ');',
+      'create index if not exists idx_similarity_flags_flagged on similarity_flags(assignment_id, flagged);',
+    ].join('\n'),
+  },
+  {
+    id: '0009_moodle_mirror',
+    name: 'local mirror of moodle courses, users, assignments, submissions and grades',
+    up: [
+      'create table if not exists moodle_courses (',
+      '  site text not null,',
+      '  course_id text not null,',
+      '  data text not null,',
+      '  timemodified integer not null default 0,',
+      '  synced_at integer not null,',
+      '  primary key (site, course_id)',
+      ');',
+      'create table if not exists moodle_course_users (',
+      '  site text not null,',
+      '  course_id text not null,',
+      '  user_id text not null,',
+      '  data text not null,',
+      '  synced_at integer not null,',
+      '  primary key (site, course_id, user_id)',
+      ');',
+      'create table if not exists moodle_course_modules (',
+      '  site text not null,',
+      '  course_id text not null,',
+      '  module_id text not null,',
+      '  position integer not null,',
+      '  data text not null,',
+      '  synced_at integer not null,',
+      '  primary key (site, course_id, module_id)',
+      ');',
+      'create table if not exists moodle_assignments (',
+      '  site text not null,',
+      '  course_id text not null,',
+      '  assignment_id text not null,',
+      "  kind text not null default 'assign',",
+      '  data text not null,',
+      '  timemodified integer not null default 0,',
+      '  synced_at integer not null,',
+      '  primary key (site, assignment_id)',
+      ');',
+      'create index if not exists idx_moodle_assignments_course on moodle_assignments(site, course_id, kind);',
+      'create table if not exists moodle_submissions (',
+      '  site text not null,',
+      '  assignment_id text not null,',
+      '  user_id text not null,',
+      '  data text not null,',
+      '  timemodified integer not null default 0,',
+      '  synced_at integer not null,',
+      '  primary key (site, assignment_id, user_id)',
+      ');',
+      'create table if not exists moodle_grades (',
+      '  site text not null,',
+      '  assignment_id text not null,',
+      '  user_id text not null,',
+      '  data text not null,',
+      '  timemodified integer not null default 0,',
+      '  synced_at integer not null,',
+      '  primary key (site, assignment_id, user_id)',
+      ');',
+      'create table if not exists moodle_sync_state (',
+      '  site text not null,',
+      '  entity text not null,',
+      '  scope text not null,',
+      '  synced_at integer not null,',
+      '  full_synced_at integer not null,',
+      '  max_timemodified integer not null default 0,',
+      '  primary key (site, entity, scope)',
+      ');',
+    ].join('\n'),
+  },
+  {
+    id: '0010_student_notifications',
+    name: 'log of messages sent to students about missing or late work',
+    up: [
+      'create table if not exists student_notifications (',
+      '  id integer primary key autoincrement,',
+      '  site text not null,',
+      '  course_id text,',
+      '  assignment_id text not null,',
+      '  user_id text not null,',
+      "  kind text not null default 'missing',",
+      '  message text not null,',
+      '  moodle_message_id integer,',
+      "  status text not null default 'sent',",
+      '  error text,',
+      '  sent_at integer not null',
+      ');',
+      'create index if not exists idx_student_notifications_assignment on student_notifications(site, assignment_id, user_id);',
+    ].join('\n'),
+  },
+  {
+    id: '0011_langgraph_persistence',
+    name: 'LangGraph checkpoints, pending writes and long-term memory store',
+    up: [
+      'create table if not exists lg_checkpoints (',
+      '  thread_id text not null,',
+      "  checkpoint_ns text not null default '',",
+      '  checkpoint_id text not null,',
+      '  parent_checkpoint_id text,',
+      '  type text,',
+      '  checkpoint blob not null,',
+      '  metadata blob not null,',
+      '  created_at text not null default (datetime(current_timestamp)),',
+      '  primary key (thread_id, checkpoint_ns, checkpoint_id)',
+      ');',
+      'create table if not exists lg_writes (',
+      '  thread_id text not null,',
+      "  checkpoint_ns text not null default '',",
+      '  checkpoint_id text not null,',
+      '  task_id text not null,',
+      '  idx integer not null,',
+      '  channel text not null,',
+      '  type text,',
+      '  value blob,',
+      '  primary key (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)',
+      ');',
+      'create table if not exists lg_store (',
+      '  namespace text not null,',
+      '  key text not null,',
+      '  value text not null,',
+      '  created_at integer not null,',
+      '  updated_at integer not null,',
+      '  primary key (namespace, key)',
+      ');',
+    ].join('\n'),
+  },
+  {
+    id: '0012_memory_search_index',
+    name: 'embedding vectors and keyword index for memory search',
+    up: [
+      'create table if not exists lg_store_vectors (',
+      '  namespace text not null,',
+      '  key text not null,',
+      '  content text not null,',
+      '  embedding blob,',
+      '  dims integer,',
+      '  updated_at integer not null,',
+      '  primary key (namespace, key)',
+      ');',
+      "create virtual table if not exists lg_store_fts using fts5(content, namespace unindexed, key unindexed, tokenize = 'porter unicode61');",
+    ].join('\n'),
+  },
 ];
@@ -0,0 +1,304 @@
+import type { LangGraphRunnableConfig as RunnableConfig } from '@langchain/langgraph';
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointPendingWrite,
+  CheckpointTuple,
+  PendingWrite,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+} from '@langchain/langgraph-checkpoint';
+import { initializeDatabase } from './index';
+
+// LangGraph checkpointer on the app database (tables from migration 0011),
+// so thread state survives a restart and earlier checkpoints can be replayed.
+
+type CheckpointRow = {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  parent_checkpoint_id: string | null;
+  type: string | null;
+  checkpoint: Buffer;
+  metadata: Buffer;
+};
+
+type WriteRow = {
+  task_id: string;
+  channel: string;
+  type: string | null;
+  value: Buffer | null;
+};
+
+export type ThreadSummary = {
+  threadId: string;
+  checkpointCount: number;
+  updatedAt: string;
+};
+
+const CHECKPOINT_COLUMNS =
+  'thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata';
+
+export class SqliteSaver extends BaseCheckpointSaver {
+  private get db() {
+    return initializeDatabase();
+  }
+
+  private async loadPendingWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+  ): Promise<CheckpointPendingWrite[]> {
+    const rows = this.db
+      .prepare(
+        'select task_id, channel, type, value from lg_writes where thread_id = ? and checkpoint_ns = ? and checkpoint_id = ? order by task_id, idx',
+      )
+      .all(threadId, checkpointNs, checkpointId) as WriteRow[];
+
+    return Promise.all(
+      rows.map(
+        async (row): Promise<CheckpointPendingWrite> => [
+          row.task_id,
+          row.channel,
+          row.value
+            ? await this.serde.loadsTyped(row.type ?? 'json', row.value)
+            : undefined,
+        ],
+      ),
+    );
+  }
+
+  private async toTuple(row: CheckpointRow): Promise<CheckpointTuple> {
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(
+        row.type ?? 'json',
+        row.checkpoint,
+      ),
+      metadata: await this.serde.loadsTyped('json', row.metadata),
+      pendingWrites: await this.loadPendingWrites(
+        row.thread_id,
+        row.checkpoint_ns,
+        row.checkpoint_id,
+      ),
+    };
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.parent_checkpoint_id,
+        },
+      };
+    }
+    return tuple;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = getCheckpointId(config);
+    if (!threadId) return undefined;
+
+    // Without a checkpoint id, the latest checkpoint of the thread (ids sort by time)
+    const row = (
+      checkpointId
+        ? this.db
+            .prepare(
+              `select ${CHECKPOINT_COLUMNS} from lg_checkpoints where thread_id = ? and checkpoint_ns = ? and checkpoint_id = ?`,
+            )
+            .get(threadId, checkpointNs, checkpointId)
+        : this.db
+            .prepare(
+              `select ${CHECKPOINT_COLUMNS} from lg_checkpoints where thread_id = ? and checkpoint_ns = ? order by checkpoint_id desc limit 1`,
+            )
+            .get(threadId, checkpointNs)
+    ) as CheckpointRow | undefined;
+
+    return row ? this.toTuple(row) : undefined;
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions,
+  ): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (config.configurable?.thread_id) {
+      where.push('thread_id = ?');
+      params.push(config.configurable.thread_id);
+    }
+    if (config.configurable?.checkpoint_ns !== undefined) {
+      where.push('checkpoint_ns = ?');
+      params.push(config.configurable.checkpoint_ns);
+    }
+    if (config.configurable?.checkpoint_id) {
+      where.push('checkpoint_id = ?');
+      params.push(config.configurable.checkpoint_id);
+    }
+    if (before?.configurable?.checkpoint_id) {
+      where.push('checkpoint_id < ?');
+      params.push(before.configurable.checkpoint_id);
+    }
+
+    // Read the rows up front: the connection cannot run other statements while iterating
+    const rows = this.db
+      .prepare(
+        `select ${CHECKPOINT_COLUMNS} from lg_checkpoints${where.length ? ` where ${where.join(' and ')}` : ''} order by checkpoint_id desc`,
+      )
+      .all(...params) as CheckpointRow[];
+
+    for (const row of rows) {
+      if (limit !== undefined && limit <= 0) break;
+
+      // Metadata is serialized, so filter after loading it
+      const tuple = await this.toTuple(row);
+      if (
+        filter &&
+        !Object.entries(filter).every(
+          ([key, value]) => (tuple.metadata as any)?.[key] === value,
+        )
+      ) {
+        continue;
+      }
+
+      if (limit !== undefined) limit -= 1;
+      yield tuple;
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    if (threadId === undefined) {
+      throw new Error(
+        'Failed to put checkpoint: the config has no "thread_id" in its "configurable" property.',
+      );
+    }
+
+    const [[type, serializedCheckpoint], [, serializedMetadata]] =
+      await Promise.all([
+        this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+        this.serde.dumpsTyped(metadata),
+      ]);
+
+    this.db
+      .prepare(
+        'insert or replace into lg_checkpoints (thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata) values (?, ?, ?, ?, ?, ?, ?)',
+      )
+      .run(
+        threadId,
+        checkpointNs,
+        checkpoint.id,
+        config.configurable?.checkpoint_id ?? null,
+        type,
+        Buffer.from(serializedCheckpoint),
+        Buffer.from(serializedMetadata),
+      );
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string,
+  ): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error(
+        'Failed to put writes: the config needs "thread_id" and "checkpoint_id" in its "configurable" property.',
+      );
+    }
+
+    const serialized = await Promise.all(
+      writes.map(async ([channel, value], idx) => {
+        const [type, bytes] = await this.serde.dumpsTyped(value);
+        return {
+          channel,
+          idx: WRITES_IDX_MAP[channel] ?? idx,
+          type,
+          value: Buffer.from(bytes),
+        };
+      }),
+    );
+
+    // Special writes (errors, interrupts, resumes) replace earlier ones; regular writes are kept once
+    const replace = this.db.prepare(
+      'insert or replace into lg_writes (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, type, value) values (?, ?, ?, ?, ?, ?, ?, ?)',
+    );
+    const ignore = this.db.prepare(
+      'insert or ignore into lg_writes (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, type, value) values (?, ?, ?, ?, ?, ?, ?, ?)',
+    );
+    this.db.transaction(() => {
+      for (const write of serialized) {
+        (write.idx < 0 ? replace : ignore).run(
+          threadId,
+          checkpointNs,
+          checkpointId,
+          taskId,
+          write.idx,
+          write.channel,
+          write.type,
+          write.value,
+        );
+      }
+    })();
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare('delete from lg_checkpoints where thread_id = ?')
+        .run(threadId);
+      this.db
+        .prepare('delete from lg_writes where thread_id = ?')
+        .run(threadId);
+    })();
+  }
+
+  /**
+   * Threads with saved checkpoints, most recently active first
+   */
+  listThreads(limit = 50): ThreadSummary[] {
+    const rows = this.db
+      .prepare(
+        "select thread_id, count(*) as checkpoint_count, max(created_at) as updated_at from lg_checkpoints where checkpoint_ns = '' group by thread_id order by updated_at desc limit ?",
+      )
+      .all(limit) as {
+      thread_id: string;
+      checkpoint_count: number;
+      updated_at: string;
+    }[];
+
+    return rows.map((row) => ({
+      threadId: row.thread_id,
+      checkpointCount: row.checkpoint_count,
+      updatedAt: row.updated_at,
+    }));
+  }
+}
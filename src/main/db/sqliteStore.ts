@@ -0,0 +1,412 @@
+import {
+  BaseStore,
+  GetOperation,
+  Item,
+  ListNamespacesOperation,
+  MatchCondition,
+  Operation,
+  OperationResults,
+  PutOperation,
+  SearchItem,
+  SearchOperation,
+} from '@langchain/langgraph-checkpoint';
+import { initializeDatabase } from './index';
+
+// LangGraph long-term memory store on the app database (table from migration 0011).
+// Namespaces are stored as JSON arrays, so a prefix search is a prefix of that text.
+// With an index configured, items are also embedded and keyword-indexed (migration 0012)
+// and a search query ranks them by both.
+
+type StoreRow = {
+  namespace: string;
+  key: string;
+  value: string;
+  created_at: number;
+  updated_at: number;
+};
+
+type VectorRow = {
+  namespace: string;
+  key: string;
+  embedding: Buffer;
+};
+
+export type StoreEmbeddings = {
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+  isAvailable?(): boolean;
+};
+
+export type StoreIndexConfig = {
+  embeddings: StoreEmbeddings;
+  // Value paths to index, by the first part of the namespace ('$' is the whole value)
+  fields?: Record<string, string[]>;
+};
+
+const RRF_K = 60;
+const MIN_SIMILARITY = 0.25;
+
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+const itemId = (namespace: string, key: string) => `${namespace}\u0000${key}`;
+
+const toItem = (row: StoreRow): Item => ({
+  namespace: JSON.parse(row.namespace),
+  key: row.key,
+  value: JSON.parse(row.value),
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const matchesCondition = (
+  namespace: string[],
+  { matchType, path }: MatchCondition,
+): boolean => {
+  if (path.length > namespace.length) return false;
+  const offset = matchType === 'suffix' ? namespace.length - path.length : 0;
+  return path.every(
+    (part, i) => part === '*' || namespace[offset + i] === part,
+  );
+};
+
+// Where clause for a namespace and everything under it
+const namespaceWhere = (prefix: string[]): [string, string[]] => {
+  if (prefix.length === 0) return ['1 = 1', []];
+  const namespace = JSON.stringify(prefix);
+  return [
+    "(namespace = ? or namespace like ? escape '\\')",
+    [namespace, `${escapeLike(namespace.slice(0, -1))},%`],
+  ];
+};
+
+// Text at a value path such as 'summary', 'context.role', 'topics[*]' or
+// 'messages[*].kwargs.content'; '$' is the whole value. Objects are indexed as JSON.
+const textAtPath = (value: unknown, path: string): string[] => {
+  const collect = (current: unknown, parts: string[]): string[] => {
+    if (current === null || current === undefined) return [];
+    if (parts.length === 0) {
+      if (typeof current === 'object') return [JSON.stringify(current)];
+      return [String(current)];
+    }
+
+    const [part, ...rest] = parts;
+    const [, field, index] = part.match(/^([^[]*)(?:\[(\*|\d+)\])?$/) ?? [];
+    const next = field ? (current as Record<string, unknown>)[field] : current;
+    if (index === undefined) return collect(next, rest);
+    if (!Array.isArray(next)) return [];
+    return index === '*'
+      ? next.flatMap((item) => collect(item, rest))
+      : collect(next[Number(index)], rest);
+  };
+  return path === '$' ? collect(value, []) : collect(value, path.split('.'));
+};
+
+const toBlob = (vector: number[]) =>
+  Buffer.from(new Float32Array(vector).buffer);
+
+// Copied out of the buffer, which may not be 4-byte aligned
+const fromBlob = (blob: Buffer) =>
+  new Float32Array(Uint8Array.from(blob).buffer);
+
+const cosine = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Words of the query as an FTS5 "any of" expression, quoted so user text is never syntax
+const toMatchQuery = (query: string): string | null => {
+  const words = query.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `"${word}"`).join(' OR ') : null;
+};
+
+export class SqliteStore extends BaseStore {
+  private index?: StoreIndexConfig;
+
+  constructor(options?: { index?: StoreIndexConfig }) {
+    super();
+    this.index = options?.index;
+  }
+
+  private get db() {
+    return initializeDatabase();
+  }
+
+  private get canEmbed() {
+    return !!this.index && this.index.embeddings.isAvailable?.() !== false;
+  }
+
+  async batch<Op extends Operation[]>(
+    operations: Op,
+  ): Promise<OperationResults<Op>> {
+    // In order, so a later operation sees the writes of an earlier one
+    const results: unknown[] = [];
+    for (const op of operations) {
+      if ('namespacePrefix' in op) {
+        results.push(await this.searchOperation(op));
+      } else if ('value' in op) {
+        results.push(await this.putOperation(op));
+      } else if ('matchConditions' in op) {
+        results.push(this.listNamespacesOperation(op));
+      } else {
+        results.push(this.getOperation(op as GetOperation));
+      }
+    }
+    return results as OperationResults<Op>;
+  }
+
+  private getOperation(op: GetOperation): Item | null {
+    const row = this.db
+      .prepare(
+        'select namespace, key, value, created_at, updated_at from lg_store where namespace = ? and key = ?',
+      )
+      .get(JSON.stringify(op.namespace), op.key) as StoreRow | undefined;
+    return row ? toItem(row) : null;
+  }
+
+  private async putOperation(op: PutOperation): Promise<void> {
+    const namespace = JSON.stringify(op.namespace);
+    if (op.value === null) {
+      this.db
+        .prepare('delete from lg_store where namespace = ? and key = ?')
+        .run(namespace, op.key);
+      this.removeFromIndex(namespace, op.key);
+      return;
+    }
+
+    const now = Date.now();
+    this.db
+      .prepare(
+        'insert into lg_store (namespace, key, value, created_at, updated_at) values (?, ?, ?, ?, ?) on conflict (namespace, key) do update set value = excluded.value, updated_at = excluded.updated_at',
+      )
+      .run(namespace, op.key, JSON.stringify(op.value), now, now);
+
+    if (this.index && op.index !== false) {
+      await this.indexItem(op.namespace, op.key, op.value, op.index);
+    }
+  }
+
+  private removeFromIndex(namespace: string, key: string): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare('delete from lg_store_vectors where namespace = ? and key = ?')
+        .run(namespace, key);
+      this.db
+        .prepare('delete from lg_store_fts where namespace = ? and key = ?')
+        .run(namespace, key);
+    })();
+  }
+
+  private async indexItem(
+    namespace: string[],
+    key: string,
+    value: Record<string, any>,
+    paths?: string[],
+  ): Promise<void> {
+    const namespaceText = JSON.stringify(namespace);
+    const fields = paths ?? this.index?.fields?.[namespace[0]] ?? ['$'];
+    const content = fields
+      .flatMap((path) => textAtPath(value, path))
+      .filter((text) => text.trim())
+      .join('\n');
+    if (!content) {
+      this.removeFromIndex(namespaceText, key);
+      return;
+    }
+
+    // Without an embedding the item is still found by keywords
+    let embedding: number[] | null = null;
+    if (this.canEmbed) {
+      try {
+        [embedding] = await this.index!.embeddings.embedDocuments([content]);
+      } catch (error) {
+        console.warn(
+          `Failed to embed store item ${namespaceText}/${key}:`,
+          error,
+        );
+      }
+    }
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          'insert or replace into lg_store_vectors (namespace, key, content, embedding, dims, updated_at) values (?, ?, ?, ?, ?, ?)',
+        )
+        .run(
+          namespaceText,
+          key,
+          content,
+          embedding ? toBlob(embedding) : null,
+          embedding?.length ?? null,
+          Date.now(),
+        );
+      this.db
+        .prepare('delete from lg_store_fts where namespace = ? and key = ?')
+        .run(namespaceText, key);
+      this.db
+        .prepare(
+          'insert into lg_store_fts (content, namespace, key) values (?, ?, ?)',
+        )
+        .run(content, namespaceText, key);
+    })();
+  }
+
+  /**
+   * Index stored items that have no index entry yet, or no embedding while the model is available
+   */
+  async reindex(): Promise<number> {
+    if (!this.index) return 0;
+
+    const rows = this.db
+      .prepare(
+        'select s.namespace, s.key, s.value from lg_store s left join lg_store_vectors v on v.namespace = s.namespace and v.key = s.key where v.key is null or (v.embedding is null and ?)',
+      )
+      .all(this.canEmbed ? 1 : 0) as StoreRow[];
+
+    for (const row of rows) {
+      await this.indexItem(
+        JSON.parse(row.namespace),
+        row.key,
+        JSON.parse(row.value),
+      );
+    }
+    return rows.length;
+  }
+
+  // Ids of matching items, best first, by embedding similarity to the query
+  private async vectorRanking(
+    prefix: string[],
+    query: string,
+  ): Promise<string[]> {
+    if (!this.canEmbed) return [];
+
+    let queryVector: number[];
+    try {
+      queryVector = await this.index!.embeddings.embedQuery(query);
+    } catch (error) {
+      console.warn('Failed to embed search query:', error);
+      return [];
+    }
+
+    const [where, params] = namespaceWhere(prefix);
+    const rows = this.db
+      .prepare(
+        `select namespace, key, embedding from lg_store_vectors where embedding is not null and ${where}`,
+      )
+      .all(...params) as VectorRow[];
+
+    return rows
+      .map((row) => ({
+        id: itemId(row.namespace, row.key),
+        similarity: cosine(queryVector, fromBlob(row.embedding)),
+      }))
+      .filter((row) => row.similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .map((row) => row.id);
+  }
+
+  // Ids of matching items, best first, by BM25 over the indexed text
+  private keywordRanking(prefix: string[], query: string): string[] {
+    const match = toMatchQuery(query);
+    if (!this.index || !match) return [];
+
+    const [where, params] = namespaceWhere(prefix);
+    try {
+      const rows = this.db
+        .prepare(
+          `select namespace, key from lg_store_fts where lg_store_fts match ? and ${where} order by bm25(lg_store_fts)`,
+        )
+        .all(match, ...params) as { namespace: string; key: string }[];
+      return rows.map((row) => itemId(row.namespace, row.key));
+    } catch (error) {
+      console.warn('Keyword search failed:', error);
+      return [];
+    }
+  }
+
+  private async searchOperation(op: SearchOperation): Promise<SearchItem[]> {
+    const [where, params] = namespaceWhere(op.namespacePrefix);
+    const rows = this.db
+      .prepare(
+        `select namespace, key, value, created_at, updated_at from lg_store where ${where} order by updated_at desc`,
+      )
+      .all(...params) as StoreRow[];
+
+    const offset = op.offset ?? 0;
+    const limit = op.limit ?? 10;
+    const candidates = rows.filter((row) => {
+      if (!op.filter) return true;
+      const value = JSON.parse(row.value);
+      return Object.entries(op.filter).every(
+        ([field, expected]) =>
+          JSON.stringify(value[field]) === JSON.stringify(expected),
+      );
+    });
+
+    const query = op.query?.trim();
+    if (!query) {
+      return candidates.slice(offset, offset + limit).map(toItem);
+    }
+
+    // Reciprocal rank fusion of semantic, keyword and plain substring matches,
+    // so items indexed before the model was available are still found
+    const lowered = query.toLowerCase();
+    const rankings = [
+      await this.vectorRanking(op.namespacePrefix, query),
+      this.keywordRanking(op.namespacePrefix, query),
+      rows
+        .filter((row) => row.value.toLowerCase().includes(lowered))
+        .map((row) => itemId(row.namespace, row.key)),
+    ];
+    const scores = new Map<string, number>();
+    rankings.forEach((ranking) =>
+      ranking.forEach((id, rank) =>
+        scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1)),
+      ),
+    );
+
+    return candidates
+      .map((row) => ({
+        row,
+        score: scores.get(itemId(row.namespace, row.key)),
+      }))
+      .filter(
+        (entry): entry is { row: StoreRow; score: number } => !!entry.score,
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(offset, offset + limit)
+      .map(({ row, score }) => ({ ...toItem(row), score }));
+  }
+
+  private listNamespacesOperation(op: ListNamespacesOperation): string[][] {
+    const rows = this.db
+      .prepare('select distinct namespace from lg_store')
+      .all() as { namespace: string }[];
+
+    let namespaces = rows
+      .map((row) => JSON.parse(row.namespace) as string[])
+      .filter((namespace) =>
+        (op.matchConditions ?? []).every((condition) =>
+          matchesCondition(namespace, condition),
+        ),
+      );
+
+    if (op.maxDepth !== undefined) {
+      const depth = op.maxDepth;
+      namespaces = Array.from(
+        new Set(namespaces.map((ns) => JSON.stringify(ns.slice(0, depth)))),
+      ).map((ns) => JSON.parse(ns));
+    }
+
+    namespaces.sort((a, b) => a.join(':').localeCompare(b.join(':')));
+    const offset = op.offset ?? 0;
+    return namespaces.slice(offset, offset + (op.limit ?? namespaces.length));
+  }
+}
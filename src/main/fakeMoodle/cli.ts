@@ -0,0 +1,35 @@
+import path from 'path';
+import { DEFAULT_FIXTURES_PATH } from './fixtures';
+import { createFakeMoodleServer } from './server';
+
+// Runs the fake Moodle as a development backend:
+//   npm run start:fake-moodle [-- <fixtures.json>]
+// then point the app at it with MOODLE_BASE_URL=http://127.0.0.1:8099 npm start
+// and connect with the fixtures' token.
+
+const port = Number(process.env.FAKE_MOODLE_PORT) || 8099;
+const fixturesPath = process.argv[2]
+  ? path.resolve(process.argv[2])
+  : process.env.FAKE_MOODLE_FIXTURES || DEFAULT_FIXTURES_PATH;
+
+const server = createFakeMoodleServer(fixturesPath);
+
+async function main() {
+  try {
+    const url = await server.start(port);
+    console.log(`[FakeMoodle] Serving ${fixturesPath} at ${url}`);
+    console.log(`[FakeMoodle] Token: ${server.fixtures.token}`);
+  } catch (error: any) {
+    console.error('[FakeMoodle] Could not start:', error.message);
+    process.exit(1);
+  }
+}
+
+const shutdown = async () => {
+  await server.stop();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+main();
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+
+// Seed data for the fake Moodle server. A fixture describes one site as the
+// token's user sees it; the server answers web service calls from it and
+// writes grades, feedback and uploaded files back into its copy.
+
+export interface FixtureUser {
+  id: number;
+  username: string;
+  firstname: string;
+  lastname: string;
+  email: string;
+  // Signs in through login/token.php; only the site user gets the token
+  password?: string;
+}
+
+export interface FixtureModule {
+  id: number; // course module id (cmid)
+  name: string;
+  modname: string;
+  instance?: number;
+  // Files of resource modules, by name in `files`
+  files?: string[];
+}
+
+export interface FixtureCourse {
+  id: number;
+  shortname: string;
+  fullname: string;
+  summary?: string;
+  categoryid?: number;
+  startdate: number;
+  enddate: number;
+  timemodified: number;
+  // Ids of enrolled users (the teacher included)
+  enrolled: number[];
+  sections: Array<{
+    id: number;
+    name: string;
+    section: number;
+    modules: FixtureModule[];
+  }>;
+}
+
+export interface FixtureAssignment {
+  id: number;
+  cmid: number;
+  course: number;
+  name: string;
+  intro?: string;
+  duedate: number;
+  cutoffdate?: number;
+  grade: number;
+  timemodified: number;
+  teamsubmission?: number;
+  // Only the groups of this grouping form teams (0 or absent: every course group)
+  teamsubmissiongroupingid?: number;
+  introattachments?: string[];
+}
+
+export interface FixtureSubmission {
+  assignment: number;
+  // 0 for the shared submission of a group in a team assignment
+  userid: number;
+  groupid?: number;
+  status: 'new' | 'draft' | 'submitted';
+  timemodified: number;
+  attemptnumber?: number;
+  files?: string[];
+  onlinetext?: string;
+}
+
+export interface FixtureGroup {
+  id: number;
+  courseid: number;
+  name: string;
+  description?: string;
+  members: number[];
+}
+
+export interface FixtureGrouping {
+  id: number;
+  courseid: number;
+  name: string;
+  groups: number[];
+}
+
+export interface FixtureGrade {
+  assignment: number;
+  userid: number;
+  grade: number;
+  grader: number;
+  timemodified: number;
+  feedback?: string;
+  // Draft item ids of feedback files saved with the grade
+  feedbackfiles?: string[];
+  advancedgradingdata?: unknown;
+}
+
+export interface FixtureGradingDefinition {
+  cmid: number;
+  areaname: string;
+  activemethod: 'rubric' | 'guide';
+  definition: Record<string, unknown> & {
+    id: number;
+    method: string;
+    name: string;
+  };
+}
+
+export interface FixtureQuiz {
+  id: number;
+  course: number;
+  coursemodule: number;
+  name: string;
+  intro?: string;
+  timeclose?: number;
+  grade: number;
+  timemodified: number;
+}
+
+export interface FixtureQuizAttempt {
+  id: number;
+  quiz: number;
+  userid: number;
+  attempt: number;
+  state: 'finished' | 'inprogress';
+  timefinish: number;
+  timemodified: number;
+  sumgrades?: number;
+  questions: Array<{
+    slot: number;
+    number?: number;
+    type: string;
+    maxmark: number;
+    html: string;
+  }>;
+}
+
+export interface FixtureForum {
+  id: number;
+  course: number;
+  cmid: number;
+  contextid: number;
+  name: string;
+  intro?: string;
+  duedate?: number;
+  grade_forum: number;
+  timemodified: number;
+  discussions: Array<{
+    id: number;
+    name: string;
+    posts: Array<{
+      id: number;
+      userid: number;
+      subject: string;
+      message: string;
+      timecreated: number;
+    }>;
+  }>;
+}
+
+export interface FixtureFile {
+  // Name shown in Moodle when it differs from the file's key
+  filename?: string;
+  mimetype: string;
+  // Text, or base64 when `encoding` says so
+  content: string;
+  encoding?: 'utf8' | 'base64';
+  timemodified?: number;
+}
+
+export interface FakeMoodleFixtures {
+  token: string;
+  site: {
+    sitename: string;
+    userid: number;
+    release?: string;
+    version?: string;
+    // tool_mobile_get_public_config's typeoflogin: 1 login form, 2/3 SSO
+    typeoflogin?: number;
+  };
+  users: FixtureUser[];
+  courses: FixtureCourse[];
+  assignments: FixtureAssignment[];
+  submissions: FixtureSubmission[];
+  grades: FixtureGrade[];
+  groups?: FixtureGroup[];
+  groupings?: FixtureGrouping[];
+  // Per-student due dates granted through mod_assign_save_user_extensions
+  extensions?: Array<{
+    assignment: number;
+    userid: number;
+    extensionduedate: number;
+  }>;
+  gradingDefinitions?: FixtureGradingDefinition[];
+  quizzes?: FixtureQuiz[];
+  quizAttempts?: FixtureQuizAttempt[];
+  // Gradebook grades written for quizzes through core_grades_update_grades
+  quizGrades?: Array<{
+    quiz: number;
+    userid: number;
+    grade: number;
+    feedback?: string;
+  }>;
+  forums?: FixtureForum[];
+  forumGrades?: Array<{
+    forum: number;
+    userid: number;
+    grade: number;
+    timemodified: number;
+  }>;
+  files: Record<string, FixtureFile>;
+  // Sent through core_message_send_instant_messages
+  messages?: Array<{
+    id: number;
+    useridfrom: number;
+    useridto: number;
+    text: string;
+    timecreated: number;
+  }>;
+}
+
+export const DEFAULT_FIXTURES_PATH = path.join(
+  __dirname,
+  'fixtures',
+  'default.json',
+);
+
+// Fixtures are copied so a server's writes never leak into the next test
+export function loadFixtures(
+  source: string | FakeMoodleFixtures = DEFAULT_FIXTURES_PATH,
+): FakeMoodleFixtures {
+  const fixtures =
+    typeof source === 'string'
+      ? JSON.parse(fs.readFileSync(source, 'utf8'))
+      : source;
+  return JSON.parse(JSON.stringify(fixtures));
+}
@@ -0,0 +1,1321 @@
+import type {
+  FakeMoodleFixtures,
+  FixtureAssignment,
+  FixtureFile,
+  FixtureGrade,
+  FixtureSubmission,
+  FixtureUser,
+} from './fixtures';
+
+// The web service functions of the fake Moodle server. Each one reads the
+// fixtures and answers with the same shape the real function returns (only
+// the fields the app relies on, plus a few that make the data look real);
+// the grading functions write into the fixtures so tests can check them.
+
+export class FakeMoodleException extends Error {
+  readonly errorcode: string;
+
+  readonly exception: string;
+
+  constructor(
+    errorcode: string,
+    message: string,
+    exception = 'moodle_exception',
+  ) {
+    super(message);
+    this.name = 'FakeMoodleException';
+    this.errorcode = errorcode;
+    this.exception = exception;
+  }
+}
+
+export interface DraftFile {
+  filename: string;
+  mimetype: string;
+  content: Buffer;
+}
+
+export interface FakeMoodleState {
+  fixtures: FakeMoodleFixtures;
+  // Public URL of the server, used in file URLs
+  baseUrl: string;
+  // Files uploaded through upload.php, by draft item id
+  drafts: Map<number, DraftFile[]>;
+  nextDraftItemId: number;
+}
+
+type Params = Record<string, any>;
+type WebServiceFunction = (state: FakeMoodleState, params: Params) => unknown;
+
+// Role ids of a standard Moodle install
+const TEACHER_ROLE = { roleid: 3, shortname: 'editingteacher' };
+const STUDENT_ROLE = { roleid: 5, shortname: 'student' };
+
+// Module contexts that the fixtures do not name get an id derived from the cmid
+const CONTEXT_ID_OFFSET = 1000;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Arrays arrive as nested objects or arrays, depending on how they were flattened
+const toList = (value: unknown): any[] => {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') return Object.values(value);
+  return value === undefined ? [] : [value];
+};
+
+const missingRecord = (table: string) =>
+  new FakeMoodleException(
+    'invalidrecord',
+    `Can't find data record in database table ${table}.`,
+    'dml_missing_record_exception',
+  );
+
+/* ------------------------------------------------------------------------ */
+/* Lookups                                                                  */
+/* ------------------------------------------------------------------------ */
+
+const fullnameOf = (user: FixtureUser) => `${user.firstname} ${user.lastname}`;
+
+function findUser(state: FakeMoodleState, userId: unknown): FixtureUser {
+  const user = state.fixtures.users.find((u) => u.id === Number(userId));
+  if (!user) throw missingRecord('user');
+  return user;
+}
+
+function findCourse(state: FakeMoodleState, courseId: unknown) {
+  const course = state.fixtures.courses.find((c) => c.id === Number(courseId));
+  if (!course) throw missingRecord('course');
+  return course;
+}
+
+function findAssignment(
+  state: FakeMoodleState,
+  assignmentId: unknown,
+): FixtureAssignment {
+  const assignment = state.fixtures.assignments.find(
+    (a) => a.id === Number(assignmentId),
+  );
+  if (!assignment) throw missingRecord('assign');
+  return assignment;
+}
+
+const isStudent = (state: FakeMoodleState, userId: number) =>
+  userId !== state.fixtures.site.userid;
+
+const courseGroups = (state: FakeMoodleState, courseId: number) =>
+  (state.fixtures.groups || []).filter((g) => g.courseid === courseId);
+
+// The group a student submits with in a team assignment, if any
+function groupOf(
+  state: FakeMoodleState,
+  assignment: FixtureAssignment,
+  userId: number,
+) {
+  const grouping = (state.fixtures.groupings || []).find(
+    (g) => g.id === assignment.teamsubmissiongroupingid,
+  );
+  return courseGroups(state, assignment.course).find(
+    (g) =>
+      (!grouping || grouping.groups.includes(g.id)) &&
+      g.members.includes(userId),
+  );
+}
+
+// A student's own submission, or their group's in a team assignment
+function findSubmission(
+  state: FakeMoodleState,
+  assignment: FixtureAssignment,
+  userId: number,
+) {
+  const group = assignment.teamsubmission
+    ? groupOf(state, assignment, userId)
+    : undefined;
+  return state.fixtures.submissions.find(
+    (s) =>
+      s.assignment === assignment.id &&
+      (group ? s.userid === 0 && s.groupid === group.id : s.userid === userId),
+  );
+}
+
+function moduleContextId(state: FakeMoodleState, cmid: number): number {
+  const forum = (state.fixtures.forums || []).find((f) => f.cmid === cmid);
+  return forum ? forum.contextid : cmid + CONTEXT_ID_OFFSET;
+}
+
+export function fileBytes(file: FixtureFile): Buffer {
+  return Buffer.from(
+    file.content,
+    file.encoding === 'base64' ? 'base64' : 'utf8',
+  );
+}
+
+// File as listed by Moodle, downloadable from pluginfile.php with a token
+function fileEntry(
+  state: FakeMoodleState,
+  key: string,
+  area: {
+    contextid: number;
+    component: string;
+    filearea: string;
+    itemid: number;
+  },
+) {
+  const file = state.fixtures.files[key];
+  if (!file) return null;
+  return {
+    filename: file.filename || key,
+    filepath: '/',
+    filesize: fileBytes(file).length,
+    fileurl: `${state.baseUrl}/webservice/pluginfile.php/${area.contextid}/${area.component}/${area.filearea}/${area.itemid}/${encodeURIComponent(key)}`,
+    mimetype: file.mimetype,
+    timemodified: file.timemodified || 0,
+  };
+}
+
+const fileEntries = (
+  state: FakeMoodleState,
+  keys: string[] | undefined,
+  area: Parameters<typeof fileEntry>[2],
+) =>
+  (keys || [])
+    .map((key) => fileEntry(state, key, area))
+    .filter((entry) => entry !== null);
+
+/* ------------------------------------------------------------------------ */
+/* Records                                                                  */
+/* ------------------------------------------------------------------------ */
+
+const recordId = (assignmentId: number, userId: number) =>
+  assignmentId * 1000 + userId;
+
+function toUser(state: FakeMoodleState, user: FixtureUser) {
+  return {
+    id: user.id,
+    username: user.username,
+    fullname: fullnameOf(user),
+    firstname: user.firstname,
+    lastname: user.lastname,
+    email: user.email,
+    roles: [isStudent(state, user.id) ? STUDENT_ROLE : TEACHER_ROLE],
+    groups: (state.fixtures.groups || [])
+      .filter((g) => g.members.includes(user.id))
+      .map((g) => ({ id: g.id, name: g.name, description: '' })),
+  };
+}
+
+function toCourse(course: FakeMoodleFixtures['courses'][number]) {
+  return {
+    id: course.id,
+    shortname: course.shortname,
+    fullname: course.fullname,
+    displayname: course.fullname,
+    categoryid: course.categoryid || 1,
+    summary: course.summary || '',
+    summaryformat: 1,
+    startdate: course.startdate,
+    enddate: course.enddate,
+    visible: 1,
+    enrolledusercount: course.enrolled.length,
+    timemodified: course.timemodified,
+  };
+}
+
+function toAssignment(state: FakeMoodleState, assignment: FixtureAssignment) {
+  return {
+    id: assignment.id,
+    cmid: assignment.cmid,
+    course: assignment.course,
+    name: assignment.name,
+    nosubmissions: 0,
+    submissiondrafts: 0,
+    duedate: assignment.duedate,
+    cutoffdate: assignment.cutoffdate || 0,
+    allowsubmissionsfromdate: 0,
+    grade: assignment.grade,
+    timemodified: assignment.timemodified,
+    teamsubmission: assignment.teamsubmission || 0,
+    teamsubmissiongroupingid: assignment.teamsubmissiongroupingid || 0,
+    intro: assignment.intro || '',
+    introformat: 1,
+    introattachments: fileEntries(state, assignment.introattachments, {
+      contextid: moduleContextId(state, assignment.cmid),
+      component: 'mod_assign',
+      filearea: 'introattachment',
+      itemid: 0,
+    }),
+  };
+}
+
+function findGrade(
+  state: FakeMoodleState,
+  assignmentId: number,
+  userId: number,
+) {
+  return state.fixtures.grades.find(
+    (g) => g.assignment === assignmentId && g.userid === userId,
+  );
+}
+
+function toSubmission(state: FakeMoodleState, submission: FixtureSubmission) {
+  const assignment = findAssignment(state, submission.assignment);
+  // Group ids and user ids do not overlap in the fixtures
+  const id = recordId(
+    submission.assignment,
+    submission.userid || submission.groupid || 0,
+  );
+  const grade = findGrade(state, submission.assignment, submission.userid);
+  return {
+    id,
+    userid: submission.userid,
+    attemptnumber: submission.attemptnumber || 0,
+    timecreated: submission.timemodified,
+    timemodified: submission.timemodified,
+    status: submission.status,
+    groupid: submission.groupid || 0,
+    latest: 1,
+    gradingstatus: grade && grade.grade >= 0 ? 'graded' : 'notgraded',
+    plugins: [
+      {
+        type: 'file',
+        name: 'File submissions',
+        fileareas: [
+          {
+            area: 'submission_files',
+            files: fileEntries(state, submission.files, {
+              contextid: moduleContextId(state, assignment.cmid),
+              component: 'assignsubmission_file',
+              filearea: 'submission_files',
+              itemid: id,
+            }),
+          },
+        ],
+      },
+      {
+        type: 'onlinetext',
+        name: 'Online text',
+        fileareas: [{ area: 'submission_onlinetextfiles', files: [] }],
+        editorfields: [
+          {
+            name: 'onlinetext',
+            description: 'Online text',
+            text: submission.onlinetext || '',
+            format: 1,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toAssignGrade(grade: FixtureGrade) {
+  return {
+    id: recordId(grade.assignment, grade.userid),
+    userid: grade.userid,
+    attemptnumber: 0,
+    timecreated: grade.timemodified,
+    timemodified: grade.timemodified,
+    grader: grade.grader,
+    grade: grade.grade.toFixed(5),
+    plugindata: {
+      assignfeedbackcomments_editor: { text: grade.feedback || '', format: 1 },
+    },
+  };
+}
+
+function feedbackPlugins(state: FakeMoodleState, grade: FixtureGrade) {
+  const assignment = findAssignment(state, grade.assignment);
+  return [
+    {
+      type: 'comments',
+      name: 'Feedback comments',
+      editorfields: [
+        {
+          name: 'comments',
+          description: 'Feedback comments',
+          text: grade.feedback || '',
+          format: 1,
+        },
+      ],
+    },
+    {
+      type: 'file',
+      name: 'File feedback',
+      fileareas: [
+        {
+          area: 'feedback_files',
+          files: fileEntries(state, grade.feedbackfiles, {
+            contextid: moduleContextId(state, assignment.cmid),
+            component: 'assignfeedback_file',
+            filearea: 'feedback_files',
+            itemid: recordId(grade.assignment, grade.userid),
+          }),
+        },
+      ],
+    },
+  ];
+}
+
+/* ------------------------------------------------------------------------ */
+/* Site, users and courses                                                  */
+/* ------------------------------------------------------------------------ */
+
+function getSiteInfo(state: FakeMoodleState) {
+  const { site } = state.fixtures;
+  const user = findUser(state, site.userid);
+  return {
+    sitename: site.sitename,
+    siteurl: state.baseUrl,
+    userid: user.id,
+    username: user.username,
+    firstname: user.firstname,
+    lastname: user.lastname,
+    fullname: fullnameOf(user),
+    useremail: user.email,
+    lang: 'en',
+    release: site.release || '4.3',
+    version: site.version || '2023100900',
+  };
+}
+
+function getUsersCourses(state: FakeMoodleState, params: Params) {
+  const userId = Number(params.userid);
+  return state.fixtures.courses
+    .filter((course) => course.enrolled.includes(userId))
+    .map(toCourse);
+}
+
+function getEnrolledUsers(state: FakeMoodleState, params: Params) {
+  const course = findCourse(state, params.courseid);
+  return course.enrolled.map((id) => toUser(state, findUser(state, id)));
+}
+
+function getCourseGroups(state: FakeMoodleState, params: Params) {
+  const course = findCourse(state, params.courseid);
+  return courseGroups(state, course.id).map((group) => ({
+    id: group.id,
+    courseid: group.courseid,
+    name: group.name,
+    description: group.description || '',
+    descriptionformat: 1,
+    enrolmentkey: '',
+    idnumber: '',
+  }));
+}
+
+function getGroupMembers(state: FakeMoodleState, params: Params) {
+  return toList(params.groupids).map((id) => {
+    const group = (state.fixtures.groups || []).find(
+      (g) => g.id === Number(id),
+    );
+    if (!group) throw missingRecord('groups');
+    return { groupid: group.id, userids: group.members };
+  });
+}
+
+function getGroupings(state: FakeMoodleState, params: Params) {
+  return toList(params.groupingids).map((id) => {
+    const grouping = (state.fixtures.groupings || []).find(
+      (g) => g.id === Number(id),
+    );
+    if (!grouping) throw missingRecord('groupings');
+    return {
+      id: grouping.id,
+      courseid: grouping.courseid,
+      name: grouping.name,
+      description: '',
+      descriptionformat: 1,
+      idnumber: '',
+      ...(Number(params.returngroups)
+        ? {
+            groups: courseGroups(state, grouping.courseid)
+              .filter((g) => grouping.groups.includes(g.id))
+              .map((g) => ({
+                id: g.id,
+                courseid: g.courseid,
+                name: g.name,
+                description: g.description || '',
+                descriptionformat: 1,
+                enrolmentkey: '',
+                idnumber: '',
+              })),
+          }
+        : {}),
+    };
+  });
+}
+
+function getCoursesByField(state: FakeMoodleState, params: Params) {
+  const { field, value } = params;
+  const courses = state.fixtures.courses.filter((course) => {
+    if (!field) return true;
+    if (field === 'id') return course.id === Number(value);
+    if (field === 'ids') {
+      return String(value).split(',').map(Number).includes(course.id);
+    }
+    if (field === 'shortname') return course.shortname === value;
+    throw new FakeMoodleException(
+      'invalidparameter',
+      'Invalid parameter value detected',
+      'invalid_parameter_exception',
+    );
+  });
+  return { courses: courses.map(toCourse), warnings: [] };
+}
+
+function getCourseContents(state: FakeMoodleState, params: Params) {
+  const course = findCourse(state, params.courseid);
+  const options = toList(params.options);
+  const cmidOption = options.find((option) => option?.name === 'cmid');
+  const cmid = cmidOption ? Number(cmidOption.value) : null;
+
+  return course.sections.map((section) => ({
+    id: section.id,
+    name: section.name,
+    section: section.section,
+    visible: 1,
+    summary: '',
+    summaryformat: 1,
+    modules: section.modules
+      .filter((module) => cmid === null || module.id === cmid)
+      .map((module) => {
+        const contextid = moduleContextId(state, module.id);
+        return {
+          id: module.id,
+          name: module.name,
+          modname: module.modname,
+          instance: module.instance,
+          contextid,
+          visible: 1,
+          url: `${state.baseUrl}/mod/${module.modname}/view.php?id=${module.id}`,
+          ...(module.files
+            ? {
+                contents: fileEntries(state, module.files, {
+                  contextid,
+                  component: `mod_${module.modname}`,
+                  filearea: 'content',
+                  itemid: 0,
+                }).map((file) => ({ type: 'file', ...file })),
+              }
+            : {}),
+        };
+      }),
+  }));
+}
+
+function getCourseModuleByInstance(state: FakeMoodleState, params: Params) {
+  const instance = Number(params.instance);
+  const found = state.fixtures.courses
+    .flatMap((course) =>
+      course.sections.flatMap((section) =>
+        section.modules.map((module) => ({ course, section, module })),
+      ),
+    )
+    .find(
+      ({ module }) =>
+        module.modname === params.module && module.instance === instance,
+    );
+  if (!found) throw missingRecord('course_modules');
+
+  return {
+    cm: {
+      id: found.module.id,
+      course: found.course.id,
+      module: 0,
+      name: found.module.name,
+      modname: found.module.modname,
+      instance,
+      section: found.section.id,
+    },
+    warnings: [],
+  };
+}
+
+/* ------------------------------------------------------------------------ */
+/* Gradebook                                                                */
+/* ------------------------------------------------------------------------ */
+
+function getGradesTable(state: FakeMoodleState, params: Params) {
+  const course = findCourse(state, params.courseid);
+  const assignments = state.fixtures.assignments.filter(
+    (a) => a.course === course.id,
+  );
+  const userIds = params.userid
+    ? [Number(params.userid)]
+    : course.enrolled.filter((id) => isStudent(state, id));
+
+  return {
+    tables: userIds.map((userId) => ({
+      courseid: course.id,
+      userid: userId,
+      userfullname: fullnameOf(findUser(state, userId)),
+      maxdepth: 2,
+      tabledata: assignments.map((assignment) => {
+        const grade = findGrade(state, assignment.id, userId);
+        return {
+          itemname: { class: 'item', content: assignment.name },
+          grade: {
+            class: 'column-grade',
+            content: grade && grade.grade >= 0 ? grade.grade.toFixed(2) : '-',
+          },
+          range: { class: 'column-range', content: `0–${assignment.grade}` },
+        };
+      }),
+    })),
+    warnings: [],
+  };
+}
+
+function getCourseGrades(state: FakeMoodleState, params: Params) {
+  const course = findCourse(state, params.courseid);
+  return {
+    items: state.fixtures.assignments
+      .filter((a) => a.course === course.id)
+      .map((assignment) => ({
+        activityid: String(assignment.cmid),
+        itemnumber: 0,
+        name: assignment.name,
+        grademax: assignment.grade,
+        grades: state.fixtures.grades
+          .filter((g) => g.assignment === assignment.id && g.grade >= 0)
+          .map((g) => ({
+            userid: g.userid,
+            grade: g.grade,
+            str_feedback: g.feedback || '',
+          })),
+      })),
+    outcomes: [],
+  };
+}
+
+// Quiz grades go straight to the gradebook since no web service grades a question attempt
+function updateGrades(state: FakeMoodleState, params: Params) {
+  if (params.component !== 'mod_quiz') return 1; // GRADE_UPDATE_FAILED
+
+  const quiz = (state.fixtures.quizzes || []).find(
+    (q) => q.coursemodule === Number(params.activityid),
+  );
+  if (!quiz) return 1;
+
+  state.fixtures.quizGrades = state.fixtures.quizGrades || [];
+  const { quizGrades } = state.fixtures;
+  toList(params.grades).forEach((entry) => {
+    const userId = Number(entry.studentid);
+    const existing = quizGrades.find(
+      (g) => g.quiz === quiz.id && g.userid === userId,
+    );
+    const update = {
+      grade: Number(entry.grade),
+      feedback: entry.str_feedback || '',
+    };
+    if (existing) {
+      Object.assign(existing, update);
+    } else {
+      quizGrades.push({ quiz: quiz.id, userid: userId, ...update });
+    }
+  });
+  return 0; // GRADE_UPDATE_OK
+}
+
+/* ------------------------------------------------------------------------ */
+/* Assignments                                                              */
+/* ------------------------------------------------------------------------ */
+
+function getAssignments(state: FakeMoodleState, params: Params) {
+  const courseIds = toList(params.courseids).map(Number);
+  const courses = state.fixtures.courses.filter(
+    (course) => courseIds.length === 0 || courseIds.includes(course.id),
+  );
+  return {
+    courses: courses.map((course) => ({
+      id: course.id,
+      fullname: course.fullname,
+      shortname: course.shortname,
+      timemodified: course.timemodified,
+      assignments: state.fixtures.assignments
+        .filter((a) => a.course === course.id)
+        .map((a) => toAssignment(state, a)),
+    })),
+    warnings: [],
+  };
+}
+
+function getSubmissionStatus(state: FakeMoodleState, params: Params) {
+  const assignment = findAssignment(state, params.assignid);
+  const userId = Number(params.userid);
+  const submission = state.fixtures.submissions.find(
+    (s) => s.assignment === assignment.id && s.userid === userId,
+  );
+  const group = assignment.teamsubmission
+    ? groupOf(state, assignment, userId)
+    : undefined;
+  const teamSubmission = group
+    ? findSubmission(state, assignment, userId)
+    : undefined;
+  const grade = findGrade(state, assignment.id, userId);
+
+  return {
+    lastattempt: {
+      submission: submission ? toSubmission(state, submission) : undefined,
+      // Team assignments keep the files on the group's shared submission
+      ...(assignment.teamsubmission
+        ? {
+            teamsubmission: teamSubmission
+              ? toSubmission(state, teamSubmission)
+              : undefined,
+            submissiongroup: group?.id || 0,
+          }
+        : {}),
+      submissionsenabled: true,
+      locked: false,
+      graded: !!grade && grade.grade >= 0,
+      canedit: false,
+      cansubmit: false,
+      gradingstatus: grade && grade.grade >= 0 ? 'graded' : 'notgraded',
+    },
+    ...(grade
+      ? {
+          feedback: {
+            grade: toAssignGrade(grade),
+            gradefordisplay: `${grade.grade.toFixed(2)} / ${assignment.grade.toFixed(2)}`,
+            gradeddate: grade.timemodified,
+            plugins: feedbackPlugins(state, grade),
+          },
+        }
+      : {}),
+    assignmentdata: {
+      attachments: {
+        intro: toAssignment(state, assignment).introattachments,
+      },
+    },
+    warnings: [],
+  };
+}
+
+// `since` works like Moodle's: only records modified at or after it
+function getSubmissions(state: FakeMoodleState, params: Params) {
+  const since = Number(params.since) || 0;
+  return {
+    assignments: toList(params.assignmentids).map((assignmentId) => {
+      const assignment = findAssignment(state, assignmentId);
+      return {
+        assignmentid: assignment.id,
+        submissions: state.fixtures.submissions
+          .filter(
+            (s) => s.assignment === assignment.id && s.timemodified >= since,
+          )
+          .map((s) => toSubmission(state, s)),
+      };
+    }),
+    warnings: [],
+  };
+}
+
+function getGrades(state: FakeMoodleState, params: Params) {
+  const since = Number(params.since) || 0;
+  return {
+    assignments: toList(params.assignmentids).map((assignmentId) => {
+      const assignment = findAssignment(state, assignmentId);
+      return {
+        assignmentid: assignment.id,
+        grades: state.fixtures.grades
+          .filter(
+            (g) => g.assignment === assignment.id && g.timemodified >= since,
+          )
+          .map(toAssignGrade),
+      };
+    }),
+    warnings: [],
+  };
+}
+
+function listParticipants(state: FakeMoodleState, params: Params) {
+  const assignment = findAssignment(state, params.assignid);
+  const course = findCourse(state, assignment.course);
+  return course.enrolled
+    .filter((id) => isStudent(state, id))
+    .map((id) => {
+      const user = findUser(state, id);
+      const submission = findSubmission(state, assignment, id);
+      return {
+        id: user.id,
+        fullname: fullnameOf(user),
+        email: user.email,
+        recordid: submission ? recordId(assignment.id, id) : 0,
+        submitted: submission?.status === 'submitted',
+        submissionstatus: submission?.status || 'new',
+        requiregrading: submission?.status === 'submitted',
+      };
+    });
+}
+
+function getUserFlags(state: FakeMoodleState, params: Params) {
+  return {
+    assignments: toList(params.assignmentids).map((assignmentId) => {
+      const assignment = findAssignment(state, assignmentId);
+      return {
+        assignmentid: assignment.id,
+        userflags: (state.fixtures.extensions || [])
+          .filter((e) => e.assignment === assignment.id)
+          .map((e) => ({
+            id: e.userid,
+            userid: e.userid,
+            locked: 0,
+            mailed: 0,
+            extensionduedate: e.extensionduedate,
+            workflowstate: '',
+            allocatedmarker: 0,
+          })),
+      };
+    }),
+    warnings: [],
+  };
+}
+
+// Moodle refuses an extension for someone not enrolled or one before the due date,
+// and reports each as a warning naming the user in its message
+function saveUserExtensions(state: FakeMoodleState, params: Params) {
+  const assignment = findAssignment(state, params.assignmentid);
+  const dates = toList(params.dates).map(Number);
+  const { enrolled } = findCourse(state, assignment.course);
+  state.fixtures.extensions = state.fixtures.extensions || [];
+  const { extensions } = state.fixtures;
+
+  return toList(params.userids).flatMap((id, index) => {
+    const userId = Number(id);
+    const date = dates[index];
+    if (
+      !enrolled.includes(userId) ||
+      !date ||
+      (assignment.duedate && date < assignment.duedate)
+    ) {
+      return [
+        {
+          item: 'assignment',
+          itemid: assignment.id,
+          warningcode: 'couldnotgrantextensions',
+          message: `User id: ${userId}, Extension date: ${date}`,
+        },
+      ];
+    }
+    const existing = extensions.find(
+      (e) => e.assignment === assignment.id && e.userid === userId,
+    );
+    if (existing) existing.extensionduedate = date;
+    else {
+      extensions.push({
+        assignment: assignment.id,
+        userid: userId,
+        extensionduedate: date,
+      });
+    }
+    return [];
+  });
+}
+
+// Grades are checked first so a failing batch writes nothing, like Moodle's transaction
+function checkGrade(
+  state: FakeMoodleState,
+  assignment: FixtureAssignment,
+  entry: Params,
+) {
+  const userId = Number(entry.userid);
+  if (!findCourse(state, assignment.course).enrolled.includes(userId)) {
+    throw new FakeMoodleException(
+      'nopermissions',
+      'Sorry, but you do not currently have permissions to do that (Grade submission).',
+      'required_capability_exception',
+    );
+  }
+  if (Number(entry.grade) > assignment.grade) {
+    throw new FakeMoodleException(
+      'gradeoutofrange',
+      `Grade must be less than or equal to ${assignment.grade}.`,
+    );
+  }
+}
+
+function writeGrade(
+  state: FakeMoodleState,
+  assignment: FixtureAssignment,
+  entry: Params,
+) {
+  const userId = Number(entry.userid);
+  let grade = findGrade(state, assignment.id, userId);
+  if (!grade) {
+    grade = {
+      assignment: assignment.id,
+      userid: userId,
+      grade: -1,
+      grader: state.fixtures.site.userid,
+      timemodified: 0,
+    };
+    state.fixtures.grades.push(grade);
+  }
+
+  grade.grade = Number(entry.grade);
+  grade.grader = state.fixtures.site.userid;
+  grade.timemodified = now();
+
+  const plugindata = entry.plugindata || {};
+  if (plugindata.assignfeedbackcomments_editor) {
+    grade.feedback = plugindata.assignfeedbackcomments_editor.text || '';
+  }
+  // The draft area replaces the feedback files, as the file manager does
+  if (plugindata.files_filemanager !== undefined) {
+    const itemId = Number(plugindata.files_filemanager);
+    grade.feedbackfiles = (state.drafts.get(itemId) || []).map((draft) => {
+      const key = `feedback-${assignment.id}-${userId}-${draft.filename}`;
+      state.fixtures.files[key] = {
+        filename: draft.filename,
+        mimetype: draft.mimetype,
+        content: draft.content.toString('base64'),
+        encoding: 'base64',
+        timemodified: grade!.timemodified,
+      };
+      return key;
+    });
+  }
+  if (entry.advancedgradingdata) {
+    grade.advancedgradingdata = entry.advancedgradingdata;
+  }
+}
+
+// With applytoall, a team assignment grade is copied to the student's whole group
+function withTeam(
+  state: FakeMoodleState,
+  assignment: FixtureAssignment,
+  entry: Params,
+  applytoall: unknown,
+): Params[] {
+  const userId = Number(entry.userid);
+  const group =
+    assignment.teamsubmission && Number(applytoall)
+      ? groupOf(state, assignment, userId)
+      : undefined;
+  if (!group) return [entry];
+  return [
+    entry,
+    ...group.members
+      .filter((id) => id !== userId)
+      .map((id) => ({ ...entry, userid: id })),
+  ];
+}
+
+// Drafts are used up once every copy of a grade has its feedback files
+function releaseDrafts(state: FakeMoodleState, entries: Params[]) {
+  entries.forEach((entry) => {
+    const itemId = entry.plugindata?.files_filemanager;
+    if (itemId !== undefined) state.drafts.delete(Number(itemId));
+  });
+}
+
+function saveGrade(state: FakeMoodleState, params: Params) {
+  const assignment = findAssignment(state, params.assignmentid);
+  checkGrade(state, assignment, params);
+  const entries = withTeam(state, assignment, params, params.applytoall);
+  entries.forEach((entry) => writeGrade(state, assignment, entry));
+  releaseDrafts(state, entries);
+  return null;
+}
+
+function saveGrades(state: FakeMoodleState, params: Params) {
+  const assignment = findAssignment(state, params.assignmentid);
+  const grades = toList(params.grades);
+  grades.forEach((entry) => checkGrade(state, assignment, entry));
+  if (assignment.teamsubmission && Number(params.applytoall)) {
+    const groupIds = grades.map(
+      (entry) => groupOf(state, assignment, Number(entry.userid))?.id ?? 0,
+    );
+    if (groupIds.some((id, index) => id && groupIds.indexOf(id) !== index)) {
+      throw new FakeMoodleException(
+        'invalidparameter',
+        'Invalid parameter value detected (Multiple grades for the same team have been included in this request)',
+        'invalid_parameter_exception',
+      );
+    }
+  }
+  const entries = grades.flatMap((entry) =>
+    withTeam(state, assignment, entry, params.applytoall),
+  );
+  entries.forEach((entry) => writeGrade(state, assignment, entry));
+  releaseDrafts(state, entries);
+  return null;
+}
+
+/* ------------------------------------------------------------------------ */
+/* Advanced grading                                                         */
+/* ------------------------------------------------------------------------ */
+
+function getGradingDefinitions(state: FakeMoodleState, params: Params) {
+  const areaname = params.areaname || 'submissions';
+  return {
+    areas: toList(params.cmids).map((cmid) => {
+      const area = (state.fixtures.gradingDefinitions || []).find(
+        (d) => d.cmid === Number(cmid) && d.areaname === areaname,
+      );
+      return {
+        cmid: Number(cmid),
+        contextid: moduleContextId(state, Number(cmid)),
+        component: 'mod_assign',
+        areaname,
+        activemethod: area ? area.activemethod : null,
+        definitions: area ? [area.definition] : [],
+      };
+    }),
+    warnings: [],
+  };
+}
+
+// Fills saved with grades, in the shape core_grading_get_gradingform_instances lists them
+function getGradingInstances(state: FakeMoodleState, params: Params) {
+  const definition = (state.fixtures.gradingDefinitions || []).find(
+    (d) => d.definition.id === Number(params.definitionid),
+  );
+  if (!definition) throw missingRecord('grading_definitions');
+
+  const assignment = state.fixtures.assignments.find(
+    (a) => a.cmid === definition.cmid,
+  );
+  const since = Number(params.since) || 0;
+  const { activemethod: method } = definition;
+
+  return {
+    instances: state.fixtures.grades
+      .filter(
+        (g) =>
+          g.assignment === assignment?.id &&
+          g.advancedgradingdata &&
+          g.timemodified >= since,
+      )
+      .map((grade) => {
+        const criteria = toList(
+          (grade.advancedgradingdata as any)[method]?.criteria,
+        );
+        return {
+          id: recordId(grade.assignment, grade.userid),
+          raterid: grade.grader,
+          itemid: recordId(grade.assignment, grade.userid),
+          rawgrade: grade.grade,
+          status: 1,
+          feedback: '',
+          feedbackformat: 1,
+          timemodified: grade.timemodified,
+          [method]: {
+            criteria: criteria.flatMap((criterion: any) =>
+              toList(criterion.fillings).map((filling: any) => ({
+                criterionid: Number(filling.criterionid),
+                ...(filling.levelid !== undefined
+                  ? { levelid: Number(filling.levelid) }
+                  : {}),
+                ...(filling.score !== undefined
+                  ? { score: Number(filling.score) }
+                  : {}),
+                remark: filling.remark || '',
+                remarkformat: Number(filling.remarkformat) || 1,
+              })),
+            ),
+          },
+        };
+      }),
+    warnings: [],
+  };
+}
+
+/* ------------------------------------------------------------------------ */
+/* Quizzes and forums                                                       */
+/* ------------------------------------------------------------------------ */
+
+function getQuizzes(state: FakeMoodleState, params: Params) {
+  const courseIds = toList(params.courseids).map(Number);
+  return {
+    quizzes: (state.fixtures.quizzes || [])
+      .filter((quiz) => courseIds.includes(quiz.course))
+      .map((quiz) => ({ ...quiz, intro: quiz.intro || '', introformat: 1 })),
+    warnings: [],
+  };
+}
+
+function findQuizAttempt(state: FakeMoodleState, attemptId: unknown) {
+  const attempt = (state.fixtures.quizAttempts || []).find(
+    (a) => a.id === Number(attemptId),
+  );
+  if (!attempt) throw missingRecord('quiz_attempts');
+  return attempt;
+}
+
+function getQuizUserAttempts(state: FakeMoodleState, params: Params) {
+  const status = params.status || 'finished';
+  return {
+    attempts: (state.fixtures.quizAttempts || [])
+      .filter(
+        (a) =>
+          a.quiz === Number(params.quizid) &&
+          a.userid === Number(params.userid) &&
+          (status === 'all' ||
+            (status === 'finished') === (a.state === 'finished')),
+      )
+      .map(({ questions, ...attempt }) => ({
+        ...attempt,
+        uniqueid: attempt.id,
+        layout: questions.map((q) => q.slot).join(',0,'),
+        preview: 0,
+      })),
+    warnings: [],
+  };
+}
+
+function getQuizAttemptReview(state: FakeMoodleState, params: Params) {
+  const { questions, ...attempt } = findQuizAttempt(state, params.attemptid);
+  return {
+    grade: attempt.sumgrades !== undefined ? String(attempt.sumgrades) : '',
+    attempt: { ...attempt, uniqueid: attempt.id },
+    additionaldata: [],
+    questions: questions.map((question) => ({
+      ...question,
+      page: 0,
+      state: 'needsgrading',
+      status: 'Requires grading',
+      flagged: false,
+    })),
+    warnings: [],
+  };
+}
+
+// A gradebook override wins over the attempts' sum of marks, as in Moodle
+function getQuizUserBestGrade(state: FakeMoodleState, params: Params) {
+  const quizId = Number(params.quizid);
+  const userId = Number(params.userid);
+  const override = (state.fixtures.quizGrades || []).find(
+    (g) => g.quiz === quizId && g.userid === userId,
+  );
+  if (override) return { hasgrade: true, grade: override.grade, warnings: [] };
+
+  const marks = (state.fixtures.quizAttempts || [])
+    .filter(
+      (a) =>
+        a.quiz === quizId &&
+        a.userid === userId &&
+        a.state === 'finished' &&
+        a.sumgrades !== undefined,
+    )
+    .map((a) => a.sumgrades!);
+  return marks.length > 0
+    ? { hasgrade: true, grade: Math.max(...marks), warnings: [] }
+    : { hasgrade: false, warnings: [] };
+}
+
+function findForum(state: FakeMoodleState, forumId: unknown) {
+  const forum = (state.fixtures.forums || []).find(
+    (f) => f.id === Number(forumId),
+  );
+  if (!forum) throw missingRecord('forum');
+  return forum;
+}
+
+function getForums(state: FakeMoodleState, params: Params) {
+  const courseIds = toList(params.courseids).map(Number);
+  return (state.fixtures.forums || [])
+    .filter((forum) => courseIds.includes(forum.course))
+    .map((forum) => ({
+      id: forum.id,
+      course: forum.course,
+      cmid: forum.cmid,
+      type: 'general',
+      name: forum.name,
+      intro: forum.intro || '',
+      introformat: 1,
+      duedate: forum.duedate || 0,
+      grade_forum: forum.grade_forum,
+      timemodified: forum.timemodified,
+      numdiscussions: forum.discussions.length,
+    }));
+}
+
+function getForumDiscussions(state: FakeMoodleState, params: Params) {
+  const forum = findForum(state, params.forumid);
+  return {
+    discussions: forum.discussions.map((discussion) => {
+      const [first] = discussion.posts;
+      return {
+        id: first?.id || discussion.id,
+        discussion: discussion.id,
+        name: discussion.name,
+        subject: first?.subject || discussion.name,
+        userid: first?.userid || 0,
+        created: first?.timecreated || 0,
+        numreplies: Math.max(discussion.posts.length - 1, 0),
+      };
+    }),
+    warnings: [],
+  };
+}
+
+function getDiscussionPosts(state: FakeMoodleState, params: Params) {
+  const discussionId = Number(params.discussionid);
+  const discussion = (state.fixtures.forums || [])
+    .flatMap((forum) => forum.discussions)
+    .find((d) => d.id === discussionId);
+  if (!discussion) throw missingRecord('forum_discussions');
+
+  return {
+    posts: discussion.posts.map((post, index) => ({
+      id: post.id,
+      discussionid: discussion.id,
+      parentid: index === 0 ? null : discussion.posts[0].id,
+      subject: post.subject,
+      message: post.message,
+      messageformat: 1,
+      timecreated: post.timecreated,
+      author: {
+        id: post.userid,
+        fullname: fullnameOf(findUser(state, post.userid)),
+      },
+    })),
+    forumid: 0,
+    courseid: 0,
+    warnings: [],
+  };
+}
+
+function forumByContext(state: FakeMoodleState, contextId: unknown) {
+  const forum = (state.fixtures.forums || []).find(
+    (f) => f.contextid === Number(contextId),
+  );
+  if (!forum) throw missingRecord('context');
+  return forum;
+}
+
+function pointGrade(
+  state: FakeMoodleState,
+  forumId: number,
+  userId: number,
+  maxgrade: number,
+) {
+  const grade = (state.fixtures.forumGrades || []).find(
+    (g) => g.forum === forumId && g.userid === userId,
+  );
+  return {
+    templatename: 'core_grades/grades/grader/gradingpanel/point',
+    hasgrade: !!grade,
+    grade: {
+      grade: grade ? grade.grade : null,
+      usergrade: grade ? grade.grade.toFixed(2) : '-',
+      maxgrade: String(maxgrade),
+      gradedby: grade
+        ? fullnameOf(findUser(state, state.fixtures.site.userid))
+        : null,
+      timecreated: grade ? grade.timemodified : null,
+      timemodified: grade ? grade.timemodified : null,
+    },
+    warnings: [],
+  };
+}
+
+function fetchPointGrade(state: FakeMoodleState, params: Params) {
+  const forum = forumByContext(state, params.contextid);
+  return pointGrade(
+    state,
+    forum.id,
+    Number(params.gradeduserid),
+    forum.grade_forum,
+  );
+}
+
+function storePointGrade(state: FakeMoodleState, params: Params) {
+  const forum = forumByContext(state, params.contextid);
+  const userId = Number(params.gradeduserid);
+  const value = Number(new URLSearchParams(params.formdata || '').get('grade'));
+  if (Number.isNaN(value) || value > forum.grade_forum) {
+    throw new FakeMoodleException(
+      'invalidgrade',
+      `Grade must be between 0 and ${forum.grade_forum}.`,
+    );
+  }
+
+  state.fixtures.forumGrades = state.fixtures.forumGrades || [];
+  const existing = state.fixtures.forumGrades.find(
+    (g) => g.forum === forum.id && g.userid === userId,
+  );
+  if (existing) {
+    existing.grade = value;
+    existing.timemodified = now();
+  } else {
+    state.fixtures.forumGrades.push({
+      forum: forum.id,
+      userid: userId,
+      grade: value,
+      timemodified: now(),
+    });
+  }
+  return pointGrade(state, forum.id, userId, forum.grade_forum);
+}
+
+/* ------------------------------------------------------------------------ */
+/* Messaging                                                                */
+/* ------------------------------------------------------------------------ */
+
+// Like Moodle, a message to someone who can't receive it fails on its own
+function sendInstantMessages(state: FakeMoodleState, params: Params) {
+  state.fixtures.messages = state.fixtures.messages || [];
+  const { messages } = state.fixtures;
+  return toList(params.messages).map((entry) => {
+    const userId = Number(entry.touserid);
+    if (!state.fixtures.users.some((u) => u.id === userId)) {
+      return {
+        msgid: -1,
+        clientmsgid: entry.clientmsgid,
+        errormessage: 'The message could not be sent',
+      };
+    }
+    const message = {
+      id: 900 + messages.length,
+      useridfrom: state.fixtures.site.userid,
+      useridto: userId,
+      text: entry.text,
+      timecreated: now(),
+    };
+    messages.push(message);
+    return { msgid: message.id, clientmsgid: entry.clientmsgid };
+  });
+}
+
+/* ------------------------------------------------------------------------ */
+/* Registry                                                                 */
+/* ------------------------------------------------------------------------ */
+
+// Every function the app calls (see MoodleFunctions in moodleClient.ts)
+export const FUNCTIONS: Record<string, WebServiceFunction> = {
+  core_webservice_get_site_info: getSiteInfo,
+  core_message_send_instant_messages: sendInstantMessages,
+  core_enrol_get_users_courses: getUsersCourses,
+  core_enrol_get_enrolled_users: getEnrolledUsers,
+  core_group_get_course_groups: getCourseGroups,
+  core_group_get_group_members: getGroupMembers,
+  core_group_get_groupings: getGroupings,
+  core_course_get_courses_by_field: getCoursesByField,
+  core_course_get_contents: getCourseContents,
+  core_course_get_course_module_by_instance: getCourseModuleByInstance,
+  gradereport_user_get_grades_table: getGradesTable,
+  core_grades_get_grades: getCourseGrades,
+  core_grades_update_grades: updateGrades,
+  mod_assign_get_assignments: getAssignments,
+  mod_assign_get_submission_status: getSubmissionStatus,
+  mod_assign_get_submissions: getSubmissions,
+  mod_assign_get_grades: getGrades,
+  mod_assign_get_user_flags: getUserFlags,
+  mod_assign_save_user_extensions: saveUserExtensions,
+  mod_assign_list_participants: listParticipants,
+  mod_assign_save_grade: saveGrade,
+  mod_assign_save_grades: saveGrades,
+  core_grading_get_definitions: getGradingDefinitions,
+  core_grading_get_gradingform_instances: getGradingInstances,
+  mod_quiz_get_quizzes_by_courses: getQuizzes,
+  mod_quiz_get_user_attempts: getQuizUserAttempts,
+  mod_quiz_get_attempt_review: getQuizAttemptReview,
+  mod_quiz_get_user_best_grade: getQuizUserBestGrade,
+  mod_forum_get_forums_by_courses: getForums,
+  mod_forum_get_forum_discussions: getForumDiscussions,
+  mod_forum_get_discussion_posts: getDiscussionPosts,
+  core_grades_grader_gradingpanel_point_fetch: fetchPointGrade,
+  core_grades_grader_gradingpanel_point_store: storePointGrade,
+};
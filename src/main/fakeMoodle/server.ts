@@ -0,0 +1,449 @@
+import http from 'http';
+import { createHash } from 'crypto';
+import type { AddressInfo } from 'net';
+import { FakeMoodleFixtures, loadFixtures } from './fixtures';
+import {
+  FUNCTIONS,
+  FakeMoodleException,
+  FakeMoodleState,
+  fileBytes,
+} from './functions';
+
+// A stand-in for a Moodle site's web services, for tests and for running the
+// app without a real Moodle. It serves webservice/rest/server.php for the
+// functions the app uses, file downloads from webservice/pluginfile.php and
+// draft uploads to webservice/upload.php, all checked against the fixture
+// token. The site user can sign in for that token through login/token.php or
+// the mobile app's SSO launch page. Every call is recorded, and failures can be queued per function to
+// exercise retries and offline fallbacks.
+
+export interface FakeMoodleCall {
+  wsfunction: string;
+  params: Record<string, any>;
+}
+
+// An HTTP status to answer with, or a Moodle exception
+export type FakeMoodleFailure =
+  | { status: number }
+  | { errorcode: string; message?: string; exception?: string };
+
+export interface FakeMoodleServer {
+  // The fixtures as the server has changed them (grades, feedback, files)
+  readonly fixtures: FakeMoodleFixtures;
+  readonly calls: FakeMoodleCall[];
+  readonly url: string;
+  // Resolves with the server's base URL; port 0 picks a free port
+  start(port?: number, host?: string): Promise<string>;
+  stop(): Promise<void>;
+  // Make the next `times` calls of wsfunction fail
+  failNext(
+    wsfunction: string,
+    failure: FakeMoodleFailure,
+    times?: number,
+  ): void;
+  callsTo(wsfunction: string): FakeMoodleCall[];
+}
+
+type Params = Record<string, any>;
+
+// 'grades[0][plugindata][text]' -> { grades: [{ plugindata: { text } }] }
+function unflattenParams(entries: Array<[string, string]>): Params {
+  const root: Params = {};
+  entries.forEach(([key, value]) => {
+    const match = /^([^[]+)(.*)$/.exec(key);
+    if (match) {
+      const path = [
+        match[1],
+        ...Array.from(match[2].matchAll(/\[([^\]]*)\]/g), (m) => m[1]),
+      ];
+      let node: any = root;
+      path.forEach((segment, index) => {
+        if (index === path.length - 1) {
+          node[segment] = value;
+        } else {
+          if (node[segment] === undefined) {
+            node[segment] = /^\d+$/.test(path[index + 1]) ? [] : {};
+          }
+          node = node[segment];
+        }
+      });
+    }
+  });
+  return root;
+}
+
+interface MultipartPart {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  content: Buffer;
+}
+
+function parseMultipart(body: Buffer, contentType: string): MultipartPart[] {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!boundary) return [];
+
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+  const parts: MultipartPart[] = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+
+    // Each part sits between "--boundary\r\n" and "\r\n--boundary"
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const name = /name="([^"]*)"/i.exec(headers);
+      const filename = /filename="([^"]*)"/i.exec(headers);
+      const type = /content-type:\s*([^\r\n]+)/i.exec(headers);
+      if (name) {
+        parts.push({
+          name: name[1],
+          filename: filename ? filename[1] : undefined,
+          contentType: type ? type[1].trim() : undefined,
+          content: part.subarray(headerEnd + 4),
+        });
+      }
+    }
+    start = next;
+  }
+  return parts;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, data: unknown, status = 200) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+}
+
+const exceptionPayload = (error: FakeMoodleException) => ({
+  exception: error.exception,
+  errorcode: error.errorcode,
+  message: error.message,
+});
+
+const invalidToken = () =>
+  new FakeMoodleException('invalidtoken', 'Invalid token - token not found');
+
+export function createFakeMoodleServer(
+  source?: string | FakeMoodleFixtures,
+): FakeMoodleServer {
+  const state: FakeMoodleState = {
+    fixtures: loadFixtures(source),
+    baseUrl: '',
+    drafts: new Map(),
+    nextDraftItemId: 500000,
+  };
+  const calls: FakeMoodleCall[] = [];
+  const failures = new Map<string, FakeMoodleFailure[]>();
+
+  async function handleRest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    query: URLSearchParams,
+  ) {
+    // Like Moodle, parameters are read from both the query string and the form body
+    const body = (await readBody(req)).toString('utf8');
+    const params = unflattenParams([
+      ...Array.from(query.entries()),
+      ...Array.from(new URLSearchParams(body).entries()),
+    ]);
+    const { wstoken, wsfunction, ...args } = params;
+    delete args.moodlewsrestformat;
+
+    if (wstoken !== state.fixtures.token) {
+      sendJson(res, exceptionPayload(invalidToken()));
+      return;
+    }
+
+    const handler = FUNCTIONS[wsfunction];
+    if (!handler) {
+      sendJson(
+        res,
+        exceptionPayload(
+          new FakeMoodleException(
+            'invalidrecord',
+            "Can't find data record in database table external_functions.",
+            'dml_missing_record_exception',
+          ),
+        ),
+      );
+      return;
+    }
+
+    calls.push({ wsfunction, params: args });
+
+    const failure = failures.get(wsfunction)?.shift();
+    if (failure) {
+      if ('status' in failure) {
+        sendJson(res, { error: 'Injected failure' }, failure.status);
+      } else {
+        sendJson(res, {
+          exception: failure.exception || 'moodle_exception',
+          errorcode: failure.errorcode,
+          message: failure.message || failure.errorcode,
+        });
+      }
+      return;
+    }
+
+    try {
+      sendJson(res, handler(state, args));
+    } catch (error) {
+      if (error instanceof FakeMoodleException) {
+        sendJson(res, exceptionPayload(error));
+      } else {
+        sendJson(res, {
+          exception: 'coding_exception',
+          errorcode: 'codingerror',
+          message: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  // /webservice/pluginfile.php/<contextid>/<component>/<filearea>/<itemid>/<file>
+  function handlePluginFile(
+    res: http.ServerResponse,
+    pathname: string,
+    query: URLSearchParams,
+  ) {
+    if (query.get('token') !== state.fixtures.token) {
+      sendJson(
+        res,
+        { error: 'Invalid token - token not found', errorcode: 'invalidtoken' },
+        403,
+      );
+      return;
+    }
+
+    const key = decodeURIComponent(pathname.split('/').pop() || '');
+    const file = state.fixtures.files[key];
+    if (!file) {
+      sendJson(
+        res,
+        { error: 'File not found', errorcode: 'filenotfound' },
+        404,
+      );
+      return;
+    }
+
+    const content = fileBytes(file);
+    res.writeHead(200, {
+      'Content-Type': file.mimetype,
+      'Content-Length': content.length,
+      'Content-Disposition': `attachment; filename="${file.filename || key}"`,
+    });
+    res.end(content);
+  }
+
+  async function handleUpload(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    const parts = parseMultipart(
+      await readBody(req),
+      req.headers['content-type'] || '',
+    );
+    const fields = new Map(
+      parts
+        .filter((p) => p.filename === undefined)
+        .map((p) => [p.name, p.content.toString('utf8')]),
+    );
+    if (fields.get('token') !== state.fixtures.token) {
+      sendJson(res, exceptionPayload(invalidToken()));
+      return;
+    }
+
+    // itemid 0 asks for a new draft area
+    const requested = Number(fields.get('itemid')) || 0;
+    const itemid = requested || state.nextDraftItemId;
+    if (!requested) state.nextDraftItemId += 1;
+    const drafts = state.drafts.get(itemid) || [];
+    const uploaded = parts
+      .filter((p) => p.filename !== undefined)
+      .map((p) => {
+        drafts.push({
+          filename: p.filename!,
+          mimetype: p.contentType || 'application/octet-stream',
+          content: p.content,
+        });
+        return {
+          component: 'user',
+          contextid: 1,
+          userid: String(state.fixtures.site.userid),
+          filearea: 'draft',
+          filename: p.filename,
+          filepath: '/',
+          itemid,
+          license: 'allrightsreserved',
+          author: '',
+          source: '',
+        };
+      });
+    state.drafts.set(itemid, drafts);
+    sendJson(res, uploaded);
+  }
+
+  // login/token.php: username/password for the site user's token
+  async function handleLogin(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    query: URLSearchParams,
+  ) {
+    const body = new URLSearchParams((await readBody(req)).toString('utf8'));
+    const param = (name: string) => body.get(name) ?? query.get(name) ?? '';
+    const user = state.fixtures.users.find(
+      (u) => u.username === param('username'),
+    );
+
+    if (!user?.password || user.password !== param('password')) {
+      sendJson(res, {
+        error: 'Invalid login, please try again',
+        errorcode: 'invalidlogin',
+      });
+      return;
+    }
+    if (param('service') !== 'moodle_mobile_app') {
+      sendJson(res, {
+        error:
+          'Web service is not available (it does not exist or might be disabled)',
+        errorcode: 'servicenotavailable',
+      });
+      return;
+    }
+    if (user.id !== state.fixtures.site.userid) {
+      sendJson(res, {
+        error: 'You do not have the permissions to create a token',
+        errorcode: 'cannotcreatetoken',
+      });
+      return;
+    }
+    sendJson(res, { token: state.fixtures.token, privatetoken: null });
+  }
+
+  // lib/ajax/service-nologin.php, which only answers tool_mobile_get_public_config
+  async function handlePublicConfig(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    const requests = JSON.parse((await readBody(req)).toString('utf8') || '[]');
+    sendJson(
+      res,
+      requests.map((request: { methodname: string }) =>
+        request.methodname === 'tool_mobile_get_public_config'
+          ? {
+              error: false,
+              data: {
+                wwwroot: state.baseUrl,
+                httpswwwroot: state.baseUrl,
+                sitename: state.fixtures.site.sitename,
+                typeoflogin: state.fixtures.site.typeoflogin || 1,
+                launchurl: `${state.baseUrl}/admin/tool/mobile/launch.php`,
+                identityproviders: [],
+              },
+            }
+          : {
+              error: true,
+              exception: {
+                message: `${request.methodname} is not available without a login`,
+                errorcode: 'servicerequireslogin',
+              },
+            },
+      ),
+    );
+  }
+
+  // admin/tool/mobile/launch.php: the SSO sign-in, already signed in as the site
+  // user, redirecting to the app's URL scheme like Moodle does
+  function handleLaunch(res: http.ServerResponse, query: URLSearchParams) {
+    const signature = createHash('md5')
+      .update(state.baseUrl + (query.get('passport') || ''))
+      .digest('hex');
+    const payload = Buffer.from(
+      `${signature}:::${state.fixtures.token}`,
+    ).toString('base64');
+    res.writeHead(303, {
+      Location: `${query.get('urlscheme') || 'moodlemobile'}://token=${payload}`,
+    });
+    res.end();
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = url.pathname;
+
+    const handle = async () => {
+      if (route === '/webservice/rest/server.php') {
+        await handleRest(req, res, url.searchParams);
+      } else if (route.startsWith('/webservice/pluginfile.php/')) {
+        handlePluginFile(res, route, url.searchParams);
+      } else if (route === '/webservice/upload.php' && req.method === 'POST') {
+        await handleUpload(req, res);
+      } else if (route === '/login/token.php') {
+        await handleLogin(req, res, url.searchParams);
+      } else if (route === '/lib/ajax/service-nologin.php') {
+        await handlePublicConfig(req, res);
+      } else if (route === '/admin/tool/mobile/launch.php') {
+        handleLaunch(res, url.searchParams);
+      } else {
+        sendJson(res, { error: 'Not found' }, 404);
+      }
+    };
+
+    handle().catch((error) => {
+      if (!res.headersSent) sendJson(res, { error: error.message }, 500);
+    });
+  });
+
+  return {
+    fixtures: state.fixtures,
+    calls,
+    get url() {
+      return state.baseUrl;
+    },
+
+    start(port = 0, host = '127.0.0.1') {
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          const address = server.address() as AddressInfo;
+          state.baseUrl = `http://${host}:${address.port}`;
+          resolve(state.baseUrl);
+        });
+      });
+    },
+
+    stop() {
+      return new Promise((resolve, reject) => {
+        if (!server.listening) {
+          resolve();
+          return;
+        }
+        // Keep-alive sockets would hold the server open
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+
+    failNext(wsfunction, failure, times = 1) {
+      const queue = failures.get(wsfunction) || [];
+      for (let i = 0; i < times; i += 1) queue.push(failure);
+      failures.set(wsfunction, queue);
+    },
+
+    callsTo(wsfunction) {
+      return calls.filter((call) => call.wsfunction === wsfunction);
+    },
+  };
+}
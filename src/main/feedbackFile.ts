@@ -0,0 +1,545 @@
+import { app, ipcMain } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { parsePdfToJson } from './pdfTool';
+import { groupPdfParagraphs } from './submission';
+
+// Annotated feedback files: the AI grading comments are written back into a
+// copy of the student's submission so it can be returned through Moodle's
+// feedback files plugin. DOCX gets native Word comments, PDF gets highlight
+// patches that the renderer applies with pdf:apply-ai-patches.
+
+type CommentColor = 'red' | 'yellow' | 'green';
+
+interface FeedbackComment {
+  // The commented element of the indexed submission HTML (see addElementIndexing)
+  elementType: string;
+  elementIndex: string;
+  // Its text, to check the element against and to fall back on
+  anchorText: string;
+  color: CommentColor;
+  comment: string;
+}
+
+interface PdfFeedbackComment {
+  elementType: string;
+  elementIndex: string;
+  color: CommentColor;
+  comment: string;
+}
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const COMMENTS_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml';
+const COMMENTS_REL_TYPE =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments';
+
+// Word highlight names for the grading colours
+const HIGHLIGHT_VALUES: Record<CommentColor, string> = {
+  red: 'red',
+  yellow: 'yellow',
+  green: 'green',
+};
+
+// The most critical comment decides a paragraph's highlight
+const COLOR_PRIORITY: CommentColor[] = ['red', 'yellow', 'green'];
+
+// w:rPr children that must come after w:highlight (ECMA-376 CT_RPr order)
+const RPR_AFTER_HIGHLIGHT = [
+  'w:u',
+  'w:effect',
+  'w:bdr',
+  'w:shd',
+  'w:fitText',
+  'w:vertAlign',
+  'w:rtl',
+  'w:cs',
+  'w:em',
+  'w:lang',
+  'w:eastAsianLayout',
+  'w:specVanish',
+  'w:oMath',
+  'w:rPrChange',
+];
+
+function getFeedbackDir(key: string) {
+  const dir = path.join(
+    app.getPath('userData'),
+    'feedback-files',
+    key.replace(/[^\w.-]+/g, '_'),
+  );
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function getOutputPath(key: string, filename: string) {
+  const { name, ext } = path.parse(filename);
+  return path.join(getFeedbackDir(key), `${name}_feedback${ext}`);
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const normalizeText = (text: string) =>
+  text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// ---- DOCX ----
+
+// The HTML element mammoth turns a paragraph into, named as in addElementIndexing
+function elementKind(paragraphXml: string) {
+  const properties =
+    paragraphXml.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] || '';
+  const heading = properties.match(/<w:pStyle w:val="heading\s*([1-6])"/i)?.[1];
+  if (heading) return `heading${heading}`;
+  return properties.includes('<w:numPr>') ? 'listItem' : 'paragraph';
+}
+
+// Top-level <w:p> spans of document.xml. Paragraphs nested in text boxes are
+// part of their outer paragraph and are not commented on separately.
+function findParagraphs(xml: string) {
+  const spans: Array<{ start: number; end: number }> = [];
+  const tagPattern = /<w:p(?=[\s>/])[^>]*>|<\/w:p>/g;
+  let depth = 0;
+  let start = -1;
+  let match: RegExpExecArray | null;
+
+  // eslint-disable-next-line no-cond-assign
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const tag = match[0];
+    if (tag === '</w:p>') {
+      depth -= 1;
+      if (depth === 0 && start >= 0) {
+        spans.push({ start, end: match.index + tag.length });
+        start = -1;
+      }
+    } else if (!tag.endsWith('/>')) {
+      if (depth === 0) start = match.index;
+      depth += 1;
+    }
+  }
+
+  return spans.map(({ start: spanStart, end }) => {
+    const paragraphXml = xml.slice(spanStart, end);
+    const text = Array.from(
+      paragraphXml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>/g),
+    )
+      .map((m) => (m[1] !== undefined ? unescapeXml(m[1]) : ' '))
+      .join('');
+    return {
+      start: spanStart,
+      end,
+      text: normalizeText(text),
+      kind: elementKind(paragraphXml),
+    };
+  });
+}
+
+// Mammoth's output holds no empty paragraphs, and the indexed HTML counts every
+// heading before the first paragraph, so a paragraph's index is offset by them
+function paragraphForElement(
+  paragraphs: Array<{ text: string; kind: string }>,
+  elementType: string,
+  elementIndex: string,
+): number {
+  const index = parseInt(elementIndex, 10);
+  if (Number.isNaN(index)) return -1;
+
+  const converted = paragraphs
+    .map((paragraph, position) => ({ ...paragraph, position }))
+    .filter((paragraph) => paragraph.text.length > 0);
+  const offset =
+    elementType === 'paragraph'
+      ? converted.filter((paragraph) => paragraph.kind.startsWith('heading'))
+          .length
+      : 0;
+  return (
+    converted.filter((paragraph) => paragraph.kind === elementType)[
+      index - offset
+    ]?.position ?? -1
+  );
+}
+
+const isAnchorMatch = (text: string, anchor: string) =>
+  text.length > 0 &&
+  (text === anchor ||
+    text.includes(anchor) ||
+    // Mammoth drops some run content (fields, symbols)
+    (text.length >= 10 && anchor.includes(text)));
+
+// The paragraph at the comment's element index; text matching only when the
+// element cannot be mapped or its text does not agree
+function matchParagraph(
+  paragraphs: Array<{ text: string; kind: string }>,
+  comment: FeedbackComment,
+): number {
+  const anchor = normalizeText(comment.anchorText);
+  const mapped = paragraphForElement(
+    paragraphs,
+    comment.elementType,
+    comment.elementIndex,
+  );
+  if (
+    mapped >= 0 &&
+    (!anchor || isAnchorMatch(paragraphs[mapped].text, anchor))
+  ) {
+    return mapped;
+  }
+  if (!anchor) return -1;
+
+  const exact = paragraphs.findIndex((p) => p.text === anchor);
+  if (exact >= 0) return exact;
+  return paragraphs.findIndex((p) => isAnchorMatch(p.text, anchor));
+}
+
+function addHighlightToRuns(paragraphXml: string, color: CommentColor) {
+  const highlight = `<w:highlight w:val="${HIGHLIGHT_VALUES[color]}"/>`;
+
+  return paragraphXml.replace(
+    /(<w:r(?:\s[^>]*)?>)(\s*<w:rPr\/>|\s*<w:rPr>([\s\S]*?)<\/w:rPr>)?/g,
+    (match, runOpen: string, rPr: string | undefined, props?: string) => {
+      if (!props) return `${runOpen}<w:rPr>${highlight}</w:rPr>`;
+
+      const cleaned = props.replace(/<w:highlight\b[^>]*\/>/g, '');
+      const insertAt = RPR_AFTER_HIGHLIGHT.map((tag) =>
+        cleaned.search(new RegExp(`<${tag}[\\s/>]`)),
+      )
+        .filter((index) => index >= 0)
+        .reduce((min, index) => Math.min(min, index), cleaned.length);
+
+      return `${runOpen}<w:rPr>${cleaned.slice(0, insertAt)}${highlight}${cleaned.slice(insertAt)}</w:rPr>`;
+    },
+  );
+}
+
+function addCommentRanges(paragraphXml: string, commentIds: number[]) {
+  const rangeStarts = commentIds
+    .map((id) => `<w:commentRangeStart w:id="${id}"/>`)
+    .join('');
+  const rangeEnds = commentIds
+    .map(
+      (id) =>
+        `<w:commentRangeEnd w:id="${id}"/><w:r><w:commentReference w:id="${id}"/></w:r>`,
+    )
+    .join('');
+
+  // Ranges start after the paragraph properties, which must stay first
+  const pPrEnd = paragraphXml.indexOf('</w:pPr>');
+  const openEnd = paragraphXml.indexOf('>') + 1;
+  const insertAt = pPrEnd >= 0 ? pPrEnd + '</w:pPr>'.length : openEnd;
+  const withStarts =
+    paragraphXml.slice(0, insertAt) +
+    rangeStarts +
+    paragraphXml.slice(insertAt);
+
+  return withStarts.replace(/<\/w:p>$/, `${rangeEnds}</w:p>`);
+}
+
+function buildCommentXml(
+  id: number,
+  text: string,
+  author: string,
+  date: string,
+) {
+  const paragraphs = text
+    .split(/\r?\n/)
+    .map(
+      (line) =>
+        `<w:p><w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`,
+    )
+    .join('');
+  return `<w:comment w:id="${id}" w:author="${escapeXml(author)}" w:date="${date}" w:initials="AI">${paragraphs}</w:comment>`;
+}
+
+async function ensureCommentsPart(zip: JSZip) {
+  const contentTypesFile = zip.file('[Content_Types].xml');
+  if (contentTypesFile) {
+    const contentTypes = await contentTypesFile.async('string');
+    if (!contentTypes.includes('PartName="/word/comments.xml"')) {
+      zip.file(
+        '[Content_Types].xml',
+        contentTypes.replace(
+          '</Types>',
+          `<Override PartName="/word/comments.xml" ContentType="${COMMENTS_CONTENT_TYPE}"/></Types>`,
+        ),
+      );
+    }
+  }
+
+  const relsPath = 'word/_rels/document.xml.rels';
+  const relsFile = zip.file(relsPath);
+  if (relsFile) {
+    const rels = await relsFile.async('string');
+    if (!rels.includes(COMMENTS_REL_TYPE)) {
+      const maxId = Array.from(rels.matchAll(/Id="rId(\d+)"/g)).reduce(
+        (max, m) => Math.max(max, Number(m[1])),
+        0,
+      );
+      zip.file(
+        relsPath,
+        rels.replace(
+          '</Relationships>',
+          `<Relationship Id="rId${maxId + 1}" Type="${COMMENTS_REL_TYPE}" Target="comments.xml"/></Relationships>`,
+        ),
+      );
+    }
+  }
+}
+
+/**
+ * Copy a DOCX submission with the grading comments added as Word comments on
+ * the paragraphs they refer to. The summary comment is anchored to the first
+ * paragraph. Comments whose paragraph cannot be found are reported back.
+ */
+export async function annotateDocx(args: {
+  filePath: string;
+  outputPath: string;
+  comments: FeedbackComment[];
+  summary?: string;
+  author?: string;
+}) {
+  const zip = await JSZip.loadAsync(fs.readFileSync(args.filePath));
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) {
+    throw new Error('Not a valid DOCX file (word/document.xml missing)');
+  }
+
+  const documentXml = await documentFile.async('string');
+  const existingComments = await zip.file('word/comments.xml')?.async('string');
+  const author = args.author || 'AI Grader';
+  const date = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  let nextId = Array.from(
+    (existingComments || '').matchAll(/<w:comment\b[^>]*w:id="(\d+)"/g),
+  )
+    .map((m) => Number(m[1]))
+    .reduce((max, id) => Math.max(max, id + 1), 0);
+
+  const paragraphs = findParagraphs(documentXml);
+  const byParagraph = new Map<
+    number,
+    { ids: number[]; colors: CommentColor[] }
+  >();
+  const commentXml: string[] = [];
+  const unmatched: string[] = [];
+
+  const attach = (
+    paragraphIndex: number,
+    text: string,
+    color?: CommentColor,
+  ) => {
+    const id = nextId;
+    nextId += 1;
+    const entry = byParagraph.get(paragraphIndex) || { ids: [], colors: [] };
+    entry.ids.push(id);
+    if (color) entry.colors.push(color);
+    byParagraph.set(paragraphIndex, entry);
+    commentXml.push(buildCommentXml(id, text, author, date));
+  };
+
+  if (args.summary?.trim()) {
+    const first = paragraphs.findIndex((p) => p.text.length > 0);
+    if (first >= 0) attach(first, args.summary.trim());
+  }
+
+  args.comments.forEach((comment) => {
+    const index = matchParagraph(paragraphs, comment);
+    if (index < 0) {
+      unmatched.push(comment.comment);
+      return;
+    }
+    attach(index, comment.comment, comment.color);
+  });
+
+  // Rewrite paragraphs back to front so earlier offsets stay valid
+  let annotatedXml = documentXml;
+  Array.from(byParagraph.entries())
+    .sort(([a], [b]) => b - a)
+    .forEach(([index, { ids, colors }]) => {
+      const { start, end } = paragraphs[index];
+      let paragraphXml = annotatedXml.slice(start, end);
+      const color = COLOR_PRIORITY.find((c) => colors.includes(c));
+      if (color) paragraphXml = addHighlightToRuns(paragraphXml, color);
+      paragraphXml = addCommentRanges(paragraphXml, ids);
+      annotatedXml =
+        annotatedXml.slice(0, start) + paragraphXml + annotatedXml.slice(end);
+    });
+
+  zip.file('word/document.xml', annotatedXml);
+  zip.file(
+    'word/comments.xml',
+    existingComments
+      ? existingComments.replace(
+          '</w:comments>',
+          `${commentXml.join('')}</w:comments>`,
+        )
+      : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:comments xmlns:w="${WORD_NS}">${commentXml.join('')}</w:comments>`,
+  );
+  await ensureCommentsPart(zip);
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+  });
+  fs.writeFileSync(args.outputPath, buffer);
+
+  return {
+    outputPath: args.outputPath,
+    commentsAdded: commentXml.length,
+    unmatched,
+  };
+}
+
+// ---- PDF ----
+
+/**
+ * Turn paragraph-level grading comments into pdf:apply-ai-patches patches.
+ * Paragraphs are grouped exactly as in submission:parse-file, so a comment's
+ * elementIndex is the index into the grouped paragraphs.
+ */
+export async function preparePdfPatches(
+  filePath: string,
+  comments: PdfFeedbackComment[],
+) {
+  const pdfStructure = await parsePdfToJson({
+    filePath,
+    includeMetadata: false,
+  });
+  const paragraphs = groupPdfParagraphs(pdfStructure);
+
+  const patches: Array<{
+    elementId: string;
+    action: 'highlight' | 'annotate';
+    data: { comment?: string; highlightColor: CommentColor };
+  }> = [];
+  const unmatched: string[] = [];
+
+  comments.forEach((comment) => {
+    const paragraph =
+      comment.elementType === 'paragraph'
+        ? paragraphs[parseInt(comment.elementIndex, 10)]
+        : undefined;
+    if (!paragraph || paragraph.elementIds.length === 0) {
+      unmatched.push(comment.comment);
+      return;
+    }
+
+    paragraph.elementIds.forEach((elementId, index) => {
+      patches.push(
+        index === 0
+          ? {
+              elementId,
+              action: 'annotate',
+              data: { comment: comment.comment, highlightColor: comment.color },
+            }
+          : {
+              elementId,
+              action: 'highlight',
+              data: { highlightColor: comment.color },
+            },
+      );
+    });
+  });
+
+  const firstPage = Object.values<any>(pdfStructure.pages || {}).find(
+    (page) => page.pageNumber === 1,
+  );
+
+  return {
+    pdfStructure,
+    patches,
+    unmatched,
+    firstPageSize: firstPage?.dimensions || null,
+  };
+}
+
+export function setupFeedbackFileHandlers() {
+  // Build the annotated DOCX copy of a submission
+  ipcMain.handle(
+    'feedback:annotate-docx',
+    async (
+      event,
+      args: {
+        filePath: string;
+        filename: string;
+        key: string;
+        comments: FeedbackComment[];
+        summary?: string;
+        author?: string;
+      },
+    ) => {
+      try {
+        if (!fs.existsSync(args.filePath)) {
+          return { success: false, error: 'Submission file not found' };
+        }
+
+        const outputPath = getOutputPath(args.key, args.filename);
+        const data = await annotateDocx({
+          filePath: args.filePath,
+          outputPath,
+          comments: args.comments,
+          summary: args.summary,
+          author: args.author,
+        });
+        return {
+          success: true,
+          data: { ...data, filename: path.basename(outputPath) },
+        };
+      } catch (error: any) {
+        console.error('[FeedbackFile] Error annotating DOCX:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to create annotated DOCX',
+        };
+      }
+    },
+  );
+
+  // Map grading comments onto PDF text elements; the output path is where the
+  // renderer should write the annotated copy
+  ipcMain.handle(
+    'feedback:prepare-pdf-patches',
+    async (
+      event,
+      args: {
+        filePath: string;
+        filename: string;
+        key: string;
+        comments: PdfFeedbackComment[];
+      },
+    ) => {
+      try {
+        if (!fs.existsSync(args.filePath)) {
+          return { success: false, error: 'Submission file not found' };
+        }
+
+        const outputPath = getOutputPath(args.key, args.filename);
+        const data = await preparePdfPatches(args.filePath, args.comments);
+        return {
+          success: true,
+          data: { ...data, outputPath, filename: path.basename(outputPath) },
+        };
+      } catch (error: any) {
+        console.error('[FeedbackFile] Error preparing PDF patches:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to prepare PDF annotations',
+        };
+      }
+    },
+  );
+}
@@ -3,6 +3,7 @@ import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import { pathToFileURL } from 'url';
+import { getSiteToken } from './moodleProfiles';
 
 // Get app data directory for storing downloaded files
 const getDownloadsPath = () => {
@@ -18,54 +19,75 @@ const getDownloadsPath = () => {
   return downloadsPath;
 };
 
-// Setup file I/O handlers
-export function setupFileIOHandlers() {
-  // Download file from URL
-  ipcMain.handle('fileio:download-file', async (event, args: {
-    url: string;
-    filename: string;
-    headers?: Record<string, string>;
-  }) => {
-    console.log('[FileIO] Downloading file:', args.filename, 'from:', args.url);
-
-    try {
-      const downloadsPath = getDownloadsPath();
-      const filePath = path.join(downloadsPath, args.filename);
-
-      // Download file with headers (for authentication)
-      const response = await axios.get(args.url, {
-        responseType: 'stream',
-        headers: args.headers || {}
-      });
-
-      // Create write stream
-      const writer = fs.createWriteStream(filePath);
+export interface DownloadFileArgs {
+  url: string;
+  filename: string;
+  headers?: Record<string, string>;
+  // Query parameters added to the URL, such as the Moodle token; never logged
+  params?: Record<string, string>;
+}
 
-      // Pipe response to file
-      response.data.pipe(writer);
+// URL with its token hidden, for logs
+const redactToken = (url: string) => url.replace(/([?&]token=)[^&]*/gi, '$1***');
+
+// Download a file from a URL into the app's downloads folder
+export async function downloadFile(args: DownloadFileArgs) {
+  console.log('[FileIO] Downloading file:', args.filename, 'from:', redactToken(args.url));
+
+  try {
+    const downloadsPath = getDownloadsPath();
+    const filePath = path.join(downloadsPath, args.filename);
+
+    // Download file with headers (for authentication)
+    const response = await axios.get(args.url, {
+      responseType: 'stream',
+      headers: args.headers || {},
+      params: args.params
+    });
+
+    // Create write stream
+    const writer = fs.createWriteStream(filePath);
+
+    // Pipe response to file
+    response.data.pipe(writer);
+
+    // Wait for download to complete
+    await new Promise<void>((resolve, reject) => {
+      writer.on('finish', () => resolve());
+      writer.on('error', reject);
+    });
+
+    console.log('[FileIO] File downloaded successfully:', filePath);
+
+    return {
+      success: true as const,
+      filePath,
+      filename: args.filename,
+      size: fs.statSync(filePath).size
+    };
+  } catch (error: any) {
+    // The error holds the request config, token included: log only what went wrong
+    console.error('[FileIO] Error downloading file:', args.filename, error.message);
+    return {
+      success: false as const,
+      error: (error.message || 'Failed to download file') as string
+    };
+  }
+}
 
-      // Wait for download to complete
-      await new Promise<void>((resolve, reject) => {
-        writer.on('finish', () => resolve());
-        writer.on('error', reject);
+// Setup file I/O handlers
+export function setupFileIOHandlers() {
+  // Download file from URL; files of a signed-in Moodle site get its token here, as the renderer has none
+  ipcMain.handle(
+    'fileio:download-file',
+    async (event, args: DownloadFileArgs) => {
+      const token = args.url.includes('token=') ? '' : getSiteToken(args.url);
+      return downloadFile({
+        ...args,
+        params: token ? { ...args.params, token } : args.params,
       });
-
-      console.log('[FileIO] File downloaded successfully:', filePath);
-
-      return {
-        success: true,
-        filePath,
-        filename: args.filename,
-        size: fs.statSync(filePath).size
-      };
-    } catch (error: any) {
-      console.error('[FileIO] Error downloading file:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to download file'
-      };
-    }
-  });
+    },
+  );
 
   // Get file info
   ipcMain.handle('fileio:get-file-info', async (event, args: { filename: string }) => {
@@ -0,0 +1,361 @@
+import { dialog, ipcMain, type FileFilter } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+
+// Grading result export/import: the renderer builds the table, this module
+// handles the file formats (CSV, XLSX and Moodle's offline grading worksheet)
+
+type ExportFormat = 'csv' | 'xlsx' | 'moodle-worksheet';
+type Cell = string | number | null | undefined;
+
+interface ExportTable {
+  headers: string[];
+  rows: Cell[][];
+}
+
+const FILE_FILTERS: Record<ExportFormat, FileFilter[]> = {
+  csv: [{ name: 'CSV Files', extensions: ['csv'] }],
+  xlsx: [{ name: 'Excel Workbooks', extensions: ['xlsx'] }],
+  'moodle-worksheet': [
+    { name: 'Moodle Grading Worksheet', extensions: ['csv'] },
+  ],
+};
+
+// ---- CSV ----
+
+const escapeCsvCell = (value: Cell): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv({ headers, rows }: ExportTable): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+}
+
+// RFC 4180 parser; spreadsheet apps in some locales save with ";" instead of ","
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter =
+    (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length
+      ? ';'
+      : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// ---- XLSX ----
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16)),
+    )
+    .replace(/&amp;/g, '&');
+
+const columnName = (index: number): string => {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+};
+
+const columnIndex = (reference: string): number =>
+  reference
+    .replace(/[0-9]/g, '')
+    .split('')
+    .reduce((sum, char) => sum * 26 + (char.charCodeAt(0) - 64), 0) - 1;
+
+export async function toXlsx(
+  { headers, rows }: ExportTable,
+  sheetName = 'Grades',
+): Promise<Buffer> {
+  const sheetRows = [headers, ...rows]
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, colIndex) => {
+          const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+          if (value === null || value === undefined || value === '') return '';
+          if (typeof value === 'number' && Number.isFinite(value)) {
+            return `<c r="${ref}"><v>${value}</v></c>`;
+          }
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const safeSheetName = escapeXml(
+    sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Grades',
+  );
+
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+  );
+  zip.file(
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows}</sheetData>` +
+      '</worksheet>',
+  );
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Concatenate every <t> run inside a string item (rich text has several)
+const readTextRuns = (xml: string) =>
+  unescapeXml(
+    Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+      .map((match) => match[1])
+      .join(''),
+  );
+
+// Reads the first worksheet; enough for sheets saved by Excel, LibreOffice or toXlsx
+export async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const sharedStringsXml = await zip
+    .file('xl/sharedStrings.xml')
+    ?.async('string');
+  const sharedStrings = sharedStringsXml
+    ? Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(
+        (match) => readTextRuns(match[1]),
+      )
+    : [];
+
+  const sheetPath =
+    zip.file('xl/worksheets/sheet1.xml')?.name ||
+    Object.keys(zip.files)
+      .filter((name) => /^xl\/worksheets\/[^/]+\.xml$/.test(name))
+      .sort()[0];
+  if (!sheetPath) {
+    throw new Error('The workbook does not contain a worksheet');
+  }
+  const sheetXml = await zip.file(sheetPath)!.async('string');
+
+  return Array.from(sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g))
+    .map((rowMatch) => {
+      const row: string[] = [];
+      Array.from(
+        rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g),
+      ).forEach((cellMatch) => {
+        const attributes = cellMatch[1];
+        const body = cellMatch[2] || '';
+        const ref = attributes.match(/\br="([A-Z]+)\d+"/)?.[1];
+        const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+        const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+        let value = '';
+        if (type === 's' && rawValue !== undefined) {
+          value = sharedStrings[Number(rawValue)] ?? '';
+        } else if (type === 'inlineStr') {
+          value = readTextRuns(body);
+        } else if (rawValue !== undefined) {
+          value = unescapeXml(rawValue);
+        }
+
+        const index = ref ? columnIndex(ref) : row.length;
+        while (row.length < index) row.push('');
+        row[index] = value;
+      });
+      return row;
+    })
+    .filter((row) => row.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Setup grading export/import IPC handlers
+ */
+export function setupGradingExportHandlers(): void {
+  ipcMain.handle(
+    'grading-export:save',
+    async (
+      event,
+      args: ExportTable & {
+        format: ExportFormat;
+        fileName: string;
+        sheetName?: string;
+      },
+    ) => {
+      try {
+        const extension = args.format === 'xlsx' ? 'xlsx' : 'csv';
+        const result = await dialog.showSaveDialog({
+          title: 'Export Grades',
+          defaultPath: `${args.fileName.replace(/[\\/:*?"<>|]+/g, '_')}.${extension}`,
+          filters: [
+            ...FILE_FILTERS[args.format],
+            { name: 'All Files', extensions: ['*'] },
+          ],
+        });
+
+        if (result.canceled || !result.filePath) {
+          return {
+            success: false,
+            canceled: true,
+            error: 'Export canceled by user',
+          };
+        }
+
+        if (args.format === 'xlsx') {
+          fs.writeFileSync(result.filePath, await toXlsx(args, args.sheetName));
+        } else {
+          // The BOM makes Excel detect UTF-8; Moodle's importer expects plain UTF-8
+          const bom = args.format === 'csv' ? '\uFEFF' : '';
+          fs.writeFileSync(result.filePath, bom + toCsv(args), 'utf8');
+        }
+
+        return {
+          success: true,
+          data: {
+            filePath: result.filePath,
+            fileName: path.basename(result.filePath),
+            rowCount: args.rows.length,
+          },
+        };
+      } catch (error: any) {
+        console.error('[Grading Export] Error exporting grades:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to export grades',
+        };
+      }
+    },
+  );
+
+  ipcMain.handle('grading-export:open', async () => {
+    try {
+      const result = await dialog.showOpenDialog({
+        title: 'Import Grades',
+        properties: ['openFile'],
+        filters: [
+          { name: 'Grade Files', extensions: ['csv', 'xlsx'] },
+          { name: 'All Files', extensions: ['*'] },
+        ],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return {
+          success: false,
+          canceled: true,
+          error: 'Import canceled by user',
+        };
+      }
+
+      const filePath = result.filePaths[0];
+      const rows =
+        path.extname(filePath).toLowerCase() === '.xlsx'
+          ? await parseXlsx(fs.readFileSync(filePath))
+          : parseCsv(fs.readFileSync(filePath, 'utf8'));
+
+      if (rows.length === 0) {
+        throw new Error('The file is empty');
+      }
+
+      return {
+        success: true,
+        data: {
+          fileName: path.basename(filePath),
+          headers: rows[0].map((header) => header.trim()),
+          rows: rows.slice(1),
+        },
+      };
+    } catch (error: any) {
+      console.error('[Grading Export] Error importing grades:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to import grades',
+      };
+    }
+  });
+}
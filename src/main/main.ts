@@ -32,8 +32,19 @@ import { setupDocxHandlers } from './msftdocx';
 import { setupAlertHandlers } from './alert';
 import { setupOcrHandlers } from './ocr';
 import { setupPdfHandlers } from './pdfTool';
+import { setupSubmissionHandlers } from './submission';
+import { setupModerationHandlers } from './moderation';
+import { setupGradingExportHandlers } from './gradingExport';
+import { setupFeedbackFileHandlers } from './feedbackFile';
+import { setupSimilarityHandlers } from './similarity';
+import { setupCourseMaterialsHandlers } from './courseMaterials';
+import { setupNotificationHandlers } from './studentNotifications';
 import { setupOrtHandlers, cleanupORT } from './ort';
 import { setupTranslationHandlers, cleanupTranslationService } from './translate';
+import {
+  setupCredentialVaultHandlers,
+  migratePlaintextSecrets,
+} from './credentialVault';
 
 // Debug: Log environment variable loading
 console.log('🔧 Environment variables loaded:');
@@ -183,6 +194,13 @@ const createWindow = async () => {
     console.error('Failed to register PDF handlers early', e);
   }
 
+  try {
+    setupSubmissionHandlers();
+    console.log('✅ Submission handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Submission handlers early', e);
+  }
+
   try {
     setupOrtHandlers();
     console.log('✅ ORT handlers registered early');
@@ -197,6 +215,55 @@ const createWindow = async () => {
     console.error('Failed to register Translation handlers early', e);
   }
 
+  try {
+    setupModerationHandlers();
+    console.log('✅ Moderation handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Moderation handlers early', e);
+  }
+
+  try {
+    setupGradingExportHandlers();
+    console.log('✅ Grading export handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Grading export handlers early', e);
+  }
+
+  try {
+    setupFeedbackFileHandlers();
+    console.log('✅ Feedback file handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Feedback file handlers early', e);
+  }
+
+  try {
+    setupSimilarityHandlers();
+    console.log('✅ Similarity handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Similarity handlers early', e);
+  }
+
+  try {
+    setupCourseMaterialsHandlers();
+    console.log('✅ Course materials handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Course materials handlers early', e);
+  }
+
+  try {
+    setupNotificationHandlers();
+    console.log('✅ Student notification handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Student notification handlers early', e);
+  }
+
+  try {
+    setupCredentialVaultHandlers();
+    console.log('✅ Credential vault handlers registered early');
+  } catch (e) {
+    console.error('Failed to register Credential vault handlers early', e);
+  }
+
   mainWindow.loadURL(resolveHtmlPath('index.html'));
 
   // Inform renderer about app info on ready
@@ -334,6 +401,9 @@ app
     // Initialize SQLite after app is ready (so userData path is available)
     initializeSqliteOnStartup();
 
+    // Move plaintext API keys from env files into the encrypted vault
+    migratePlaintextSecrets();
+
     // Register app info IPC
     try {
       registerAppIpcHandlers();
@@ -0,0 +1,116 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { ipcMain } from 'electron';
+import { getSecret } from './credentialVault';
+
+// Second-pass grading for moderation: the same grading prompt, sent straight to
+// the LLM (no agent graph) with its own model and temperature so the pass is independent
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+interface ModerationOptions {
+  model?: string;
+  temperature?: number;
+}
+
+function getModerationModel(): string {
+  return (
+    process.env.OPENAI_MODERATION_MODEL ||
+    process.env.OPENAI_MODEL ||
+    'deepseek-chat'
+  );
+}
+
+function createModerationLlm(options: ModerationOptions): ChatOpenAI {
+  const apiKey =
+    getSecret('OPENAI_MODERATION_API_KEY') || getSecret('OPENAI_API_KEY');
+  const baseURL =
+    process.env.OPENAI_MODERATION_BASE_URL || process.env.OPENAI_BASE_URL;
+
+  if (!apiKey) {
+    throw new Error(
+      'OpenAI API key is required for moderation. Please set OPENAI_API_KEY in your .env.production file.',
+    );
+  }
+
+  const envTemperature = parseFloat(
+    process.env.OPENAI_MODERATION_TEMPERATURE || String(DEFAULT_TEMPERATURE),
+  );
+
+  return new ChatOpenAI({
+    model: options.model || getModerationModel(),
+    temperature: options.temperature ?? envTemperature,
+    streaming: false,
+    openAIApiKey: apiKey,
+    configuration: {
+      baseURL,
+    },
+  });
+}
+
+/**
+ * Run an independent grading pass and return the parsed grading JSON
+ */
+export async function runModerationPass(
+  prompt: string,
+  options: ModerationOptions = {},
+): Promise<any> {
+  if (!prompt || !prompt.trim()) {
+    throw new Error('Grading prompt cannot be empty');
+  }
+
+  const llm = createModerationLlm(options);
+  const response = await llm.invoke(prompt);
+  const content = response.content.toString();
+
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('Moderation pass did not return a JSON grading result');
+  }
+
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse moderation result: ${error instanceof Error ? error.message : 'Unknown parsing error'}`,
+    );
+  }
+}
+
+/**
+ * Setup moderation IPC handlers
+ */
+export function setupModerationHandlers(): void {
+  ipcMain.handle(
+    'moderation:grade',
+    async (
+      event,
+      args: { prompt: string; model?: string; temperature?: number },
+    ) => {
+      try {
+        const result = await runModerationPass(args.prompt, {
+          model: args.model,
+          temperature: args.temperature,
+        });
+        return {
+          success: true,
+          data: { result, model: args.model || getModerationModel() },
+        };
+      } catch (error: any) {
+        console.error('[Moderation] Second pass failed:', error.message);
+        return {
+          success: false,
+          error: error.message || 'Moderation pass failed',
+        };
+      }
+    },
+  );
+
+  ipcMain.handle('moderation:status', async () => {
+    return {
+      available: !!(
+        getSecret('OPENAI_MODERATION_API_KEY') || getSecret('OPENAI_API_KEY')
+      ),
+      model: getModerationModel(),
+    };
+  });
+}
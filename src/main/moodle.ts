@@ -1,7 +1,47 @@
 import { ipcMain } from 'electron';
-// eslint-disable-next-line import/no-extraneous-dependencies
-import axios from 'axios';
-import { executeQuery, initializeDatabase, runMigrations } from './db';
+import { initializeDatabase, runMigrations } from './db';
+import {
+  AdvancedGradingFormData,
+  AssignGradeInput,
+  MoodleAssignGrade,
+  MoodleClient,
+  MoodleFile,
+  MoodleForum,
+  MoodleForumPost,
+  MoodlePlugin,
+  MoodleQuiz,
+  MoodleQuizAttempt,
+  MoodleSubmission,
+  getMoodleClient,
+  isMoodleError
+} from './moodleClient';
+import {
+  MirrorSnapshot,
+  incrementalSince,
+  isOfflineError,
+  mergeUserRecords,
+  readAssignments,
+  readCourseModules,
+  readCourseUsers,
+  readCourses,
+  readUserRecords,
+  saveAssignments,
+  saveCourseModules,
+  saveCourseUsers,
+  saveCourses,
+  setupMoodleMirrorHandlers,
+  siteKey
+} from './moodleMirror';
+import { setupMoodleAuthHandlers } from './moodleAuth';
+import {
+  getActiveConfig,
+  getActiveConfigSummary,
+  getSiteToken,
+  removeProfile,
+  saveActiveConfig,
+  setupMoodleProfileHandlers
+} from './moodleProfiles';
+import { ensureParagraphs, escapeHtml, parseSubmissionHtml } from './submission';
 
 // Moodle configuration from environment
 const MOODLE_BASE_URL = (process.env.MOODLE_BASE_URL || 'https://moodle.onlysaid.com').replace(/\/+$/, '');
@@ -9,21 +49,278 @@ const MOODLE_BASE_URL = (process.env.MOODLE_BASE_URL || 'https://moodle.onlysaid
 // Note: Database will be initialized lazily when first accessed via executeQuery
 // runMigrations will be called during initializeSqliteOnStartup
 
-// Helper function to get user ID
-async function getUserId(baseUrl: string, apiKey: string): Promise<number> {
-  const response = await axios.get(`${baseUrl}/webservice/rest/server.php`, {
-    params: {
-      wstoken: apiKey,
-      wsfunction: 'core_webservice_get_site_info',
-      moodlewsrestformat: 'json'
+// Handlers get the site's token from its profile; the renderer only names the site
+const siteClient = (baseUrl: string) => getMoodleClient(baseUrl, getSiteToken(baseUrl));
+
+// Failed handlers return Moodle's errorcode next to the message so the renderer can react to it (e.g. invalidtoken)
+function errorResult(error: any, fallback: string) {
+  return {
+    success: false,
+    error: error?.message || fallback,
+    ...(isMoodleError(error) ? { errorcode: error.errorcode } : {})
+  };
+}
+
+// Fetch from Moodle (which also updates the local mirror); when Moodle cannot be reached, answer from the mirror
+async function liveOrMirror<T>(
+  live: () => Promise<T>,
+  mirror: () => MirrorSnapshot<T> | null
+): Promise<{ data: T; offline?: boolean; syncedAt?: number }> {
+  try {
+    return { data: await live() };
+  } catch (error) {
+    const snapshot = isOfflineError(error) ? mirror() : null;
+    if (!snapshot) throw error;
+
+    console.warn('[Moodle API] Moodle unreachable, serving data synced at', new Date(snapshot.syncedAt).toISOString());
+    return { data: snapshot.data, offline: true, syncedAt: snapshot.syncedAt };
+  }
+}
+
+// Criterion-level fills for an assignment using advanced grading (rubric or marking guide)
+interface AdvancedGradingData {
+  method: 'rubric' | 'guide';
+  criteria: Array<{
+    criterionId: number;
+    levelId?: number; // rubric only
+    score?: number; // marking guide only
+    remark?: string;
+  }>;
+}
+
+// Turn advanced grading fills into the advancedgradingdata of mod_assign_save_grade(s)
+function toAdvancedGradingFormData(advancedGrading?: AdvancedGradingData): AdvancedGradingFormData | undefined {
+  if (!advancedGrading || advancedGrading.criteria.length === 0) {
+    return undefined;
+  }
+
+  const { method } = advancedGrading;
+  return {
+    [method]: {
+      criteria: advancedGrading.criteria.map(criterion => ({
+        criterionid: criterion.criterionId,
+        fillings: [{
+          criterionid: criterion.criterionId,
+          ...(method === 'rubric' ? { levelid: criterion.levelId } : { score: criterion.score ?? 0 }),
+          remark: criterion.remark || '',
+          remarkformat: 1 // 1 = HTML format
+        }]
+      }))
     }
+  };
+}
+
+// Annotated copy of the submission returned through the feedback files plugin
+interface FeedbackFileData {
+  filePath: string;
+  filename?: string;
+}
+
+interface GradeUpdate {
+  userId: string;
+  grade: number;
+  feedback?: string;
+  advancedGrading?: AdvancedGradingData;
+  feedbackFile?: FeedbackFileData;
+  // Team assignments: false saves this member's grade without copying it to the group
+  applyToAll?: boolean;
+}
+
+// One student's grade for mod_assign_save_grade(s); the feedback file is uploaded to the draft area first
+async function toAssignGradeInput(client: MoodleClient, update: GradeUpdate): Promise<AssignGradeInput> {
+  const plugindata: AssignGradeInput['plugindata'] = {};
+  if (update.feedback) {
+    plugindata.assignfeedbackcomments_editor = { text: update.feedback, format: 1 }; // 1 = HTML format
+  }
+  if (update.feedbackFile) {
+    plugindata.files_filemanager = await client.uploadDraftFile(update.feedbackFile.filePath, update.feedbackFile.filename);
+  }
+
+  return {
+    userid: update.userId,
+    grade: update.grade,
+    attemptnumber: -1, // -1 means current attempt
+    addattempt: 0, // 0 = false, don't add new attempt
+    workflowstate: '', // Empty string for default workflow
+    plugindata,
+    advancedgradingdata: toAdvancedGradingFormData(update.advancedGrading)
+  };
+}
+
+// Submission file as listed to the renderer
+interface SubmissionFileEntry {
+  filename: string;
+  filesize: number;
+  fileurl: string;
+  mimetype: string;
+  timemodified: number;
+}
+
+const toSubmissionFileEntry = (file: MoodleFile & { url?: string }): SubmissionFileEntry => ({
+  filename: file.filename,
+  filesize: file.filesize || 0,
+  fileurl: file.fileurl || file.url || '',
+  mimetype: file.mimetype || '',
+  timemodified: file.timemodified || 0
+});
+
+// Quiz essay questions and graded forums go through the same grading flow as
+// assignments, keyed "quiz-<instance id>" or "forum-<instance id>"
+type GradableActivityType = 'quiz' | 'forum';
+
+interface ActivityInfo {
+  type: GradableActivityType;
+  instanceId: string;
+  cmid: number;
+  courseId: number;
+  contextId?: number;
+}
+
+interface ActivitySubmission {
+  filename: string;
+  timemodified: number;
+  html: string;
+}
+
+const ACTIVITY_KEY_PATTERN = /^(quiz|forum)-(\d+)$/;
+
+// Forum posts are fetched discussion by discussion, so keep them briefly while a class is graded
+const FORUM_POSTS_TTL = 60 * 1000;
+const ACTIVITY_REQUEST_BATCH = 10;
+
+const activityInfoCache = new Map<string, ActivityInfo>();
+const forumPostsCache = new Map<string, { fetchedAt: number; posts: MoodleForumPost[] }>();
+
+export function parseActivityKey(key: string): { type: GradableActivityType; instanceId: string } | null {
+  const match = ACTIVITY_KEY_PATTERN.exec(String(key));
+  return match ? { type: match[1] as GradableActivityType, instanceId: match[2] } : null;
+}
+
+// Run per-student requests a few at a time rather than all at once
+async function mapInBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += ACTIVITY_REQUEST_BATCH) {
+    results.push(...await Promise.all(items.slice(i, i + ACTIVITY_REQUEST_BATCH).map(fn)));
+  }
+  return results;
+}
+
+// Course module, course and (for forum grading) context of a quiz or forum
+async function getActivityInfo(client: MoodleClient, activityKey: string): Promise<ActivityInfo> {
+  const cacheKey = `${client.baseUrl}|${activityKey}`;
+  const cached = activityInfoCache.get(cacheKey);
+  if (cached) return cached;
+
+  const activity = parseActivityKey(activityKey);
+  if (!activity) {
+    throw new Error(`Not a quiz or forum: ${activityKey}`);
+  }
+
+  const { cm } = await client.call('core_course_get_course_module_by_instance', {
+    module: activity.type,
+    instance: activity.instanceId
+  });
+
+  const info: ActivityInfo = { ...activity, cmid: cm.id, courseId: cm.course };
+  if (activity.type === 'forum') {
+    const sections = await client.call('core_course_get_contents', {
+      courseid: cm.course,
+      options: [{ name: 'cmid', value: cm.id }]
+    });
+    const module = (sections || []).flatMap(section => section.modules || []).find(m => m.id === cm.id);
+    info.contextId = module?.contextid;
+  }
+
+  activityInfoCache.set(cacheKey, info);
+  return info;
+}
+
+// Inner HTML of the first <div> carrying className, following nested divs to its closing tag
+function extractDivByClass(html: string, className: string): string | null {
+  const open = new RegExp(`<div[^>]*class="[^"]*\\b${className}\\b[^"]*"[^>]*>`, 'i').exec(html);
+  if (!open) return null;
+
+  const start = open.index + open[0].length;
+  const tags = /<\/?div\b[^>]*>/gi;
+  tags.lastIndex = start;
+  let depth = 1;
+  let tag = tags.exec(html);
+  while (tag) {
+    depth += tag[0].startsWith('</') ? -1 : 1;
+    if (depth === 0) return html.slice(start, tag.index);
+    tag = tags.exec(html);
+  }
+  return html.slice(start);
+}
+
+async function getLatestQuizAttempt(client: MoodleClient, quizId: string, userId: string | number) {
+  const { attempts } = await client.call('mod_quiz_get_user_attempts', {
+    quizid: quizId,
+    userid: userId,
+    status: 'finished',
+    includepreviews: 0
+  });
+  return (attempts || []).reduce<MoodleQuizAttempt | null>((latest, attempt) => (!latest || attempt.attempt > latest.attempt ? attempt : latest), null);
+}
+
+async function getForumPosts(client: MoodleClient, forumId: string): Promise<MoodleForumPost[]> {
+  const cacheKey = `${client.baseUrl}|${forumId}`;
+  const cached = forumPostsCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < FORUM_POSTS_TTL) {
+    return cached.posts;
+  }
+
+  const { discussions } = await client.call('mod_forum_get_forum_discussions', { forumid: forumId });
+  const postLists = await mapInBatches(discussions || [], async (discussion) => {
+    const result = await client.call('mod_forum_get_discussion_posts', { discussionid: discussion.discussion });
+    return result.posts || [];
   });
 
-  if (response.data && response.data.userid) {
-    return response.data.userid;
+  const posts = postLists.flat().sort((a, b) => a.timecreated - b.timecreated);
+  forumPostsCache.set(cacheKey, { fetchedAt: Date.now(), posts });
+  return posts;
+}
+
+// The student's essay responses from their latest finished attempt, or all their posts in the forum
+async function getActivitySubmission(client: MoodleClient, activityKey: string, userId: string): Promise<ActivitySubmission | null> {
+  const activity = parseActivityKey(activityKey);
+  if (!activity) {
+    throw new Error(`Not a quiz or forum: ${activityKey}`);
+  }
+
+  if (activity.type === 'quiz') {
+    const attempt = await getLatestQuizAttempt(client, activity.instanceId, userId);
+    if (!attempt) return null;
+
+    const review = await client.call('mod_quiz_get_attempt_review', { attemptid: attempt.id, page: -1 });
+    const essays = (review.questions || []).filter(question => question.type === 'essay');
+    if (essays.length === 0) {
+      throw new Error('This quiz attempt has no essay questions');
+    }
+
+    const html = essays.map(question => [
+      `<h2>Question ${question.number ?? question.slot} (${question.maxmark} marks)</h2>`,
+      ensureParagraphs(extractDivByClass(question.html, 'qtext') || ''),
+      '<h3>Response</h3>',
+      ensureParagraphs(extractDivByClass(question.html, 'qtype_essay_response') || '') || '<p>(No response)</p>'
+    ].join('\n')).join('\n');
+
+    return {
+      filename: `Quiz attempt ${attempt.attempt}.html`,
+      timemodified: attempt.timefinish || attempt.timemodified,
+      html
+    };
   }
 
-  throw new Error('Could not get user ID');
+  const posts = (await getForumPosts(client, activity.instanceId))
+    .filter(post => String(post.author?.id) === String(userId));
+  if (posts.length === 0) return null;
+
+  return {
+    filename: 'Forum posts.html',
+    timemodified: Math.max(...posts.map(post => post.timecreated)),
+    html: posts.map(post => `<h2>${escapeHtml(post.subject)}</h2>\n${ensureParagraphs(post.message)}`).join('\n')
+  };
 }
 
 // Main setup function - registers all Moodle handlers
@@ -40,78 +337,47 @@ export function setupMoodleHandlers() {
   // Add API handlers
   setupMoodleApiHandlers();
 
+  // Add quiz and forum grading handlers
+  setupMoodleActivityHandlers();
+
   // Add configuration handlers
   setupMoodleConfigHandlers();
+
+  // Add connection profile handlers
+  setupMoodleProfileHandlers();
+
+  // Add sign-in handlers
+  setupMoodleAuthHandlers();
+
+  // Add local mirror handlers
+  setupMoodleMirrorHandlers();
 }
 
 // Register all Moodle API handlers
 export function setupMoodleApiHandlers() {
-  // Test connection to Moodle
-  ipcMain.handle('moodle:test-connection', async (event, args: { baseUrl: string; apiKey: string }) => {
+  // Test connection to Moodle; a token being added is tested before it is saved, otherwise the site's own is used
+  ipcMain.handle('moodle:test-connection', async (event, args: { baseUrl: string; apiKey?: string }) => {
     try {
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'core_webservice_get_site_info',
-          moodlewsrestformat: 'json'
-        }
-      });
+      const siteInfo = await getMoodleClient(args.baseUrl, args.apiKey || getSiteToken(args.baseUrl)).getSiteInfo({ refresh: true });
 
-      if (response.data && !response.data.exception) {
-        return {
-          success: true,
-          data: response.data
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data?.message || 'Invalid API response'
-        };
-      }
-    } catch (error: any) {
-      console.error('[Moodle API] Test connection error:', error);
       return {
-        success: false,
-        error: error.message || 'Connection failed'
+        success: true,
+        data: siteInfo
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Test connection error:', error);
+      return errorResult(error, 'Connection failed');
     }
   });
 
   // Get available courses for user
-  ipcMain.handle('moodle:get-courses', async (event, args: { baseUrl: string; apiKey: string }) => {
+  ipcMain.handle('moodle:get-courses', async (event, args: { baseUrl: string }) => {
     try {
-      // First, get the current user info to get the userid
-      const userInfoResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'core_webservice_get_site_info',
-          moodlewsrestformat: 'json'
-        }
-      });
-
-      if (!userInfoResponse.data || userInfoResponse.data.exception) {
-        throw new Error(userInfoResponse.data?.message || 'Failed to get user information');
-      }
-
-      const userId = userInfoResponse.data.userid;
+      const site = siteKey(args.baseUrl);
+      const result = await liveOrMirror(async () => {
+        const userCourses = await siteClient(args.baseUrl).getUserCourses();
 
-      // Now get courses for this specific user
-      const requestUrl = `${args.baseUrl}/webservice/rest/server.php`;
-      const params = {
-        wstoken: args.apiKey,
-        wsfunction: 'core_enrol_get_users_courses',
-        moodlewsrestformat: 'json',
-        userid: userId
-      };
-
-      const response = await axios.get(requestUrl, { params });
-
-      if (response.data && response.data.exception) {
-        throw new Error(response.data.message || 'Moodle API error');
-      }
-
-      if (response.data && Array.isArray(response.data)) {
-        const courses = response.data.map((course: any) => ({
+        const courses = userCourses.map(course => ({
           id: course.id.toString(),
           fullname: course.fullname,
           shortname: course.shortname,
@@ -120,46 +386,36 @@ export function setupMoodleApiHandlers() {
           startdate: course.startdate * 1000,
           enddate: course.enddate * 1000,
           visible: course.visible,
-          enrollmentmethods: course.enrollmentmethods
+          enrollmentmethods: course.enrollmentmethods,
+          timemodified: course.timemodified
         }));
 
-        return {
-          success: true,
-          data: courses
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data?.message || 'Failed to get courses - unexpected response format'
-        };
-      }
-    } catch (error: any) {
-      console.error('[Moodle API] Error getting courses:', error.message);
+        saveCourses(site, courses);
+        return courses;
+      }, () => readCourses(site));
 
       return {
-        success: false,
-        error: error.message || 'Failed to fetch courses'
+        success: true,
+        ...result
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error getting courses:', error.message);
+      return errorResult(error, 'Failed to fetch courses');
     }
   });
 
   // Get course information
-  ipcMain.handle('moodle:get-course', async (event, args: { baseUrl: string; apiKey: string; courseId: string }) => {
+  ipcMain.handle('moodle:get-course', async (event, args: { baseUrl: string; courseId: string }) => {
     try {
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'core_course_get_courses_by_field',
-          moodlewsrestformat: 'json',
-          field: 'id',
-          value: args.courseId
-        }
+      const { courses } = await siteClient(args.baseUrl).call('core_course_get_courses_by_field', {
+        field: 'id',
+        value: args.courseId
       });
 
-      if (response.data && response.data.courses && response.data.courses.length > 0) {
+      if (courses && courses.length > 0) {
         return {
           success: true,
-          data: response.data.courses[0]
+          data: courses[0]
         };
       } else {
         return {
@@ -168,121 +424,85 @@ export function setupMoodleApiHandlers() {
         };
       }
     } catch (error: any) {
+      return errorResult(error, 'Failed to fetch course');
+    }
+  });
+
+  // Get enrolled users in course
+  ipcMain.handle('moodle:get-enrolled-users', async (event, args: { baseUrl: string; courseId: string }) => {
+    try {
+      const client = siteClient(args.baseUrl);
+      const site = siteKey(args.baseUrl);
+      const result = await liveOrMirror(async () => {
+        const numericCourseId = await client.resolveCourseId(args.courseId);
+        if (numericCourseId === null) return [];
+
+        const users = await client.call('core_enrol_get_enrolled_users', { courseid: numericCourseId });
+        const data = Array.isArray(users) ? users : [];
+        saveCourseUsers(site, args.courseId, data);
+        return data;
+      }, () => readCourseUsers(site, args.courseId));
+
       return {
-        success: false,
-        error: error.message || 'Failed to fetch course'
+        success: true,
+        ...result
       };
+    } catch (error: any) {
+      return errorResult(error, 'Failed to fetch enrolled users');
     }
   });
 
-  // Get enrolled users in course
-  ipcMain.handle('moodle:get-enrolled-users', async (event, args: { baseUrl: string; apiKey: string; courseId: string }) => {
+  // Groups of a course with their members, for grading team assignments once per group.
+  // A team assignment limited to a grouping only forms teams from that grouping's groups.
+  ipcMain.handle('moodle:get-course-groups', async (event, args: { baseUrl: string; courseId: string; groupingId?: number }) => {
     try {
-      // Ensure courseId is numeric
-      let numericCourseId = parseInt(args.courseId);
-
-      if (isNaN(numericCourseId)) {
-        // Find the numeric course ID
-        const coursesResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-          params: {
-            wstoken: args.apiKey,
-            wsfunction: 'core_enrol_get_users_courses',
-            moodlewsrestformat: 'json',
-            userid: await getUserId(args.baseUrl, args.apiKey)
-          }
-        });
+      const client = siteClient(args.baseUrl);
+      const numericCourseId = await client.resolveCourseId(args.courseId);
+      if (numericCourseId === null) {
+        return { success: true, data: [] };
+      }
 
-        if (coursesResponse.data && Array.isArray(coursesResponse.data)) {
-          const course = coursesResponse.data.find((c: any) =>
-            c.shortname === args.courseId || c.fullname.includes(args.courseId)
-          );
-
-          if (course) {
-            numericCourseId = parseInt(course.id);
-          } else {
-            return {
-              success: true,
-              data: []
-            };
-          }
-        }
+      let groups = await client.call('core_group_get_course_groups', { courseid: numericCourseId });
+      if (Array.isArray(groups) && args.groupingId) {
+        const [grouping] = await client.call('core_group_get_groupings', { groupingids: [args.groupingId], returngroups: 1 });
+        const groupingGroups = new Set((grouping?.groups || []).map(group => group.id));
+        groups = groups.filter(group => groupingGroups.has(group.id));
+      }
+      if (!Array.isArray(groups) || groups.length === 0) {
+        return { success: true, data: [] };
       }
 
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'core_enrol_get_enrolled_users',
-          moodlewsrestformat: 'json',
-          courseid: numericCourseId
-        }
-      });
+      const members = await client.call('core_group_get_group_members', { groupids: groups.map(group => group.id) });
+      const membersByGroup = new Map((members || []).map(entry => [entry.groupid, entry.userids || []]));
 
-      if (response.data && Array.isArray(response.data)) {
-        return {
-          success: true,
-          data: response.data
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data?.message || 'Failed to get enrolled users'
-        };
-      }
-    } catch (error: any) {
       return {
-        success: false,
-        error: error.message || 'Failed to fetch enrolled users'
+        success: true,
+        data: groups.map(group => ({
+          id: String(group.id),
+          name: group.name,
+          members: (membersByGroup.get(group.id) || []).map(String)
+        }))
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching course groups:', error.message);
+      return errorResult(error, 'Failed to fetch course groups');
     }
   });
 
   // Get course activities
-  ipcMain.handle('moodle:get-course-contents', async (event, args: { baseUrl: string; apiKey: string; courseId: string }) => {
+  ipcMain.handle('moodle:get-course-contents', async (event, args: { baseUrl: string; courseId: string }) => {
     try {
-      // Ensure courseId is numeric
-      let numericCourseId = parseInt(args.courseId);
-
-      if (isNaN(numericCourseId)) {
-        // Find the numeric course ID
-        const coursesResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-          params: {
-            wstoken: args.apiKey,
-            wsfunction: 'core_enrol_get_users_courses',
-            moodlewsrestformat: 'json',
-            userid: await getUserId(args.baseUrl, args.apiKey)
-          }
-        });
-
-        if (coursesResponse.data && Array.isArray(coursesResponse.data)) {
-          const course = coursesResponse.data.find((c: any) =>
-            c.shortname === args.courseId || c.fullname.includes(args.courseId)
-          );
-
-          if (course) {
-            numericCourseId = parseInt(course.id);
-          } else {
-            return {
-              success: true,
-              data: []
-            };
-          }
-        }
-      }
+      const client = siteClient(args.baseUrl);
+      const site = siteKey(args.baseUrl);
+      const result = await liveOrMirror(async () => {
+        const numericCourseId = await client.resolveCourseId(args.courseId);
+        if (numericCourseId === null) return [];
 
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'core_course_get_contents',
-          moodlewsrestformat: 'json',
-          courseid: numericCourseId
-        }
-      });
+        const sections = await client.call('core_course_get_contents', { courseid: numericCourseId });
 
-      if (response.data && Array.isArray(response.data)) {
         // Flatten activities from all sections
-        const activities = response.data.flatMap((section: any) =>
-          // @ts-ignore
-          section.modules?.map((module: any) => ({
+        const activities = (Array.isArray(sections) ? sections : []).flatMap(section =>
+          section.modules?.map(module => ({
             id: module.id,
             name: module.name,
             modname: module.modname,
@@ -294,233 +514,157 @@ export function setupMoodleApiHandlers() {
           })) || []
         );
 
-        return {
-          success: true,
-          data: activities
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data?.message || 'Failed to get course contents'
-        };
-      }
-    } catch (error: any) {
+        saveCourseModules(site, args.courseId, activities);
+        return activities;
+      }, () => readCourseModules(site, args.courseId));
+
       return {
-        success: false,
-        error: error.message || 'Failed to fetch course contents'
+        success: true,
+        ...result
       };
+    } catch (error: any) {
+      return errorResult(error, 'Failed to fetch course contents');
     }
   });
 
   // Get grades for course
-  ipcMain.handle('moodle:get-grades', async (event, args: { baseUrl: string; apiKey: string; courseId: string }) => {
+  ipcMain.handle('moodle:get-grades', async (event, args: { baseUrl: string; courseId: string }) => {
+    const client = siteClient(args.baseUrl);
     try {
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'gradereport_user_get_grades_table',
-          moodlewsrestformat: 'json',
-          courseid: args.courseId
-        }
-      });
+      const data = await client.call('gradereport_user_get_grades_table', { courseid: args.courseId });
 
-      if (response.data) {
-        return {
-          success: true,
-          data: response.data
-        };
-      } else {
-        return {
-          success: false,
-          error: 'Failed to get grades'
-        };
-      }
+      return {
+        success: true,
+        data
+      };
     } catch (error: any) {
       // If this function doesn't exist, try alternative
       try {
-        const altResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-          params: {
-            wstoken: args.apiKey,
-            wsfunction: 'core_grades_get_grades',
-            moodlewsrestformat: 'json',
-            courseid: args.courseId
-          }
-        });
+        const data = await client.call('core_grades_get_grades', { courseid: args.courseId });
 
         return {
           success: true,
-          data: altResponse.data || []
+          data: data || []
         };
       } catch (altError: any) {
-        return {
-          success: false,
-          error: altError.message || 'Failed to fetch grades'
-        };
+        return errorResult(altError, 'Failed to fetch grades');
       }
     }
   });
 
   // Get user info
-  ipcMain.handle('moodle:get-user-info', async (event, args: { baseUrl: string; apiKey: string }) => {
+  ipcMain.handle('moodle:get-user-info', async (event, args: { baseUrl: string }) => {
     try {
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'core_webservice_get_site_info',
-          moodlewsrestformat: 'json'
-        }
-      });
+      const siteInfo = await siteClient(args.baseUrl).getSiteInfo();
 
-      if (response.data && !response.data.exception) {
-        return {
-          success: true,
-          data: {
-            userid: response.data.userid,
-            username: response.data.username,
-            firstname: response.data.firstname,
-            lastname: response.data.lastname,
-            fullname: response.data.fullname,
-            email: response.data.useremail,
-            sitename: response.data.sitename,
-            siteurl: response.data.siteurl
-          }
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data?.message || 'Failed to get user info'
-        };
-      }
-    } catch (error: any) {
       return {
-        success: false,
-        error: error.message || 'Failed to fetch user info'
+        success: true,
+        data: {
+          userid: siteInfo.userid,
+          username: siteInfo.username,
+          firstname: siteInfo.firstname,
+          lastname: siteInfo.lastname,
+          fullname: siteInfo.fullname,
+          email: siteInfo.useremail,
+          sitename: siteInfo.sitename,
+          siteurl: siteInfo.siteurl
+        }
       };
+    } catch (error: any) {
+      return errorResult(error, 'Failed to fetch user info');
     }
   });
 
   // Get assignments for course
-  ipcMain.handle('moodle:get-assignments', async (event, args: { baseUrl: string; apiKey: string; courseId: string }) => {
+  ipcMain.handle('moodle:get-assignments', async (event, args: { baseUrl: string; courseId: string }) => {
     try {
-      // Ensure courseId is numeric - try to parse it or find the actual course ID
-      let numericCourseId = parseInt(args.courseId);
-
-      // If courseId is not numeric (like "COMP7404"), we need to find the actual course ID first
-      if (isNaN(numericCourseId)) {
-
-        // First get all courses to find the numeric ID
-        const coursesResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-          params: {
-            wstoken: args.apiKey,
-            wsfunction: 'core_enrol_get_users_courses',
-            moodlewsrestformat: 'json',
-            userid: await getUserId(args.baseUrl, args.apiKey)
-          }
-        });
-
-        if (coursesResponse.data && Array.isArray(coursesResponse.data)) {
-          const course = coursesResponse.data.find((c: any) =>
-            c.shortname === args.courseId || c.fullname.includes(args.courseId)
-          );
-
-          if (course) {
-            numericCourseId = parseInt(course.id);
-          } else {
-            return {
-              success: true,
-              data: []
-            };
-          }
-        }
-      }
-
-      // Get the full details for assignments
-      const assignmentsResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'mod_assign_get_assignments',
-          moodlewsrestformat: 'json',
-          'courseids[0]': numericCourseId,
-        }
-      });
-
-      let assignments = [];
-      if (assignmentsResponse.data && assignmentsResponse.data.courses && assignmentsResponse.data.courses.length > 0) {
-        // The assignments are nested inside the courses array
-        const rawAssignments = assignmentsResponse.data.courses.flatMap((course: any) => course.assignments || []);
-
-        // Get course contents to find module IDs for assignments
-        const contentsResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-          params: {
-            wstoken: args.apiKey,
-            wsfunction: 'core_course_get_contents',
-            moodlewsrestformat: 'json',
-            courseid: numericCourseId
+      const client = siteClient(args.baseUrl);
+      const site = siteKey(args.baseUrl);
+      const result = await liveOrMirror(async () => {
+        const numericCourseId = await client.resolveCourseId(args.courseId);
+        if (numericCourseId === null) return [];
+
+        // Get the full details for assignments
+        const { courses } = await client.call('mod_assign_get_assignments', { courseids: [numericCourseId] });
+
+        let assignments: any[] = [];
+        if (courses && courses.length > 0) {
+          // The assignments are nested inside the courses array
+          const rawAssignments = courses.flatMap(course => course.assignments || []);
+
+          // Get course contents to find module IDs for assignments
+          const sections = await client.call('core_course_get_contents', { courseid: numericCourseId });
+
+          // Create a map of assignment instances to their module IDs
+          const assignmentModuleMap = new Map<string, number>();
+          if (Array.isArray(sections)) {
+            sections.forEach(section => {
+              section.modules?.forEach(module => {
+                if (module.modname === 'assign' && module.instance) {
+                  assignmentModuleMap.set(module.instance.toString(), module.id);
+                }
+              });
+            });
           }
-        });
 
-        // Create a map of assignment instances to their module IDs
-        const assignmentModuleMap = new Map();
-        if (contentsResponse.data && Array.isArray(contentsResponse.data)) {
-          contentsResponse.data.forEach((section: any) => {
-            section.modules?.forEach((module: any) => {
-              if (module.modname === 'assign' && module.instance) {
-                assignmentModuleMap.set(module.instance.toString(), module.id);
-              }
-            });
-          });
+          // Enhance assignments with module IDs
+          assignments = rawAssignments.map(assignment => ({
+            ...assignment,
+            cmid: assignmentModuleMap.get(assignment.id.toString()) || assignment.id,
+          }));
         }
 
-        // Enhance assignments with module IDs
-        assignments = rawAssignments.map((assignment: any) => ({
-          ...assignment,
-          cmid: assignmentModuleMap.get(assignment.id.toString()) || assignment.id,
-        }));
-
-      } else {
-      }
+        saveAssignments(site, args.courseId, 'assign', assignments);
+        return assignments;
+      }, () => readAssignments(site, args.courseId, 'assign'));
 
       return {
         success: true,
-        data: assignments
+        ...result
       };
 
     } catch (error: any) {
       console.error('[Moodle API] Error fetching assignments:', error.message);
-      return {
-        success: false,
-        error: error.message || 'Failed to fetch assignments'
-      };
+      return errorResult(error, 'Failed to fetch assignments');
     }
   });
 
   // Get submission files for a specific user and assignment
   ipcMain.handle('moodle:get-submission-files', async (event, args: {
     baseUrl: string;
-    apiKey: string;
     assignmentId: string;
     userId: string;
   }) => {
     try {
+      const client = siteClient(args.baseUrl);
+
+      // Quiz attempts and forum posts have no files; list the online text as a single HTML file
+      if (parseActivityKey(args.assignmentId)) {
+        const submission = await getActivitySubmission(client, args.assignmentId, args.userId);
+        return {
+          success: true,
+          data: submission ? [{
+            filename: submission.filename,
+            filesize: submission.html.length,
+            fileurl: '',
+            mimetype: 'text/html',
+            timemodified: submission.timemodified
+          }] : []
+        };
+      }
+
       // Try multiple approaches to get submission files
 
       // Approach 1: Use mod_assign_get_submission_status
-      const statusParams = {
-        wstoken: args.apiKey,
-        wsfunction: 'mod_assign_get_submission_status',
-        moodlewsrestformat: 'json',
+      const data = await client.call('mod_assign_get_submission_status', {
         assignid: args.assignmentId,
         userid: args.userId
-      };
-
-      const statusResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, { params: statusParams });
+      });
 
-      let files: any[] = [];
+      let files: SubmissionFileEntry[] = [];
 
       // Extract files from status response
-      if (statusResponse.data) {
-        const data = statusResponse.data;
-
+      if (data) {
         // Check lastattempt
         if (data.lastattempt && data.lastattempt.submission && data.lastattempt.submission.plugins) {
           for (const plugin of data.lastattempt.submission.plugins) {
@@ -528,6 +672,13 @@ export function setupMoodleApiHandlers() {
           }
         }
 
+        // Team assignments keep the files on the group's shared submission
+        if (data.lastattempt && data.lastattempt.teamsubmission && data.lastattempt.teamsubmission.plugins) {
+          for (const plugin of data.lastattempt.teamsubmission.plugins) {
+            files = files.concat(extractFilesFromPlugin(plugin));
+          }
+        }
+
         // Check feedback plugins
         if (data.feedback && data.feedback.plugins) {
           for (const plugin of data.feedback.plugins) {
@@ -537,17 +688,11 @@ export function setupMoodleApiHandlers() {
 
         // Check assignmentdata
         if (data.assignmentdata && data.assignmentdata.attachments) {
-          for (const [key, attachments] of Object.entries(data.assignmentdata.attachments)) {
+          for (const attachments of Object.values(data.assignmentdata.attachments)) {
             if (Array.isArray(attachments)) {
               for (const file of attachments) {
                 if (file && typeof file === 'object' && file.filename) {
-                  files.push({
-                    filename: file.filename,
-                    filesize: file.filesize || 0,
-                    fileurl: file.fileurl || file.url || '',
-                    mimetype: file.mimetype || '',
-                    timemodified: file.timemodified || 0
-                  });
+                  files.push(toSubmissionFileEntry(file));
                 }
               }
             }
@@ -557,19 +702,13 @@ export function setupMoodleApiHandlers() {
 
       // If no files found, try approach 2: Get submissions directly
       if (files.length === 0) {
+        const { assignments } = await client.call('mod_assign_get_submissions', { assignmentids: [args.assignmentId] });
 
-        const submissionsParams = {
-          wstoken: args.apiKey,
-          wsfunction: 'mod_assign_get_submissions',
-          moodlewsrestformat: 'json',
-          'assignmentids[0]': args.assignmentId
-        };
-
-        const submissionsResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, { params: submissionsParams });
-
-        if (submissionsResponse.data && submissionsResponse.data.assignments && submissionsResponse.data.assignments.length > 0) {
-          const submissions = submissionsResponse.data.assignments[0].submissions || [];
-          const userSubmission = submissions.find((sub: any) => sub.userid.toString() === args.userId.toString());
+        if (assignments && assignments.length > 0) {
+          const submissions = assignments[0].submissions || [];
+          const submissionGroup = data?.lastattempt?.submissiongroup;
+          const userSubmission = submissions.find(sub => sub.userid.toString() === args.userId.toString())
+            || (submissionGroup ? submissions.find(sub => Number(sub.userid) === 0 && sub.groupid === submissionGroup) : undefined);
 
           if (userSubmission && userSubmission.plugins) {
             for (const plugin of userSubmission.plugins) {
@@ -585,29 +724,20 @@ export function setupMoodleApiHandlers() {
       };
     } catch (error: any) {
       console.error('[Moodle API] Error fetching submission files:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to fetch submission files'
-      };
+      return errorResult(error, 'Failed to fetch submission files');
     }
   });
 
   // Helper function to extract files from a plugin
-  function extractFilesFromPlugin(plugin: any): any[] {
-    const files = [];
+  function extractFilesFromPlugin(plugin: MoodlePlugin): SubmissionFileEntry[] {
+    const files: SubmissionFileEntry[] = [];
 
     if (plugin.fileareas) {
       for (const filearea of plugin.fileareas) {
         if (filearea.files && Array.isArray(filearea.files)) {
           for (const file of filearea.files) {
             if (file && file.filename && file.filename !== '.') {
-              files.push({
-                filename: file.filename,
-                filesize: file.filesize || 0,
-                fileurl: file.fileurl || file.url || '',
-                mimetype: file.mimetype || '',
-                timemodified: file.timemodified || 0
-              });
+              files.push(toSubmissionFileEntry(file));
             }
           }
         }
@@ -618,13 +748,7 @@ export function setupMoodleApiHandlers() {
     if (plugin.files && Array.isArray(plugin.files)) {
       for (const file of plugin.files) {
         if (file && file.filename && file.filename !== '.') {
-          files.push({
-            filename: file.filename,
-            filesize: file.filesize || 0,
-            fileurl: file.fileurl || file.url || '',
-            mimetype: file.mimetype || '',
-            timemodified: file.timemodified || 0
-          });
+          files.push(toSubmissionFileEntry(file));
         }
       }
     }
@@ -633,207 +757,272 @@ export function setupMoodleApiHandlers() {
   }
 
   // Get assignment submissions
-  ipcMain.handle('moodle:get-assignment-submissions', async (event, args: { baseUrl: string; apiKey: string; assignmentId: string }) => {
+  ipcMain.handle('moodle:get-assignment-submissions', async (event, args: { baseUrl: string; assignmentId: string }) => {
     try {
-      const params = {
-        wstoken: args.apiKey,
-        wsfunction: 'mod_assign_get_submissions',
-        moodlewsrestformat: 'json',
-        'assignmentids[0]': args.assignmentId  // Fix: Use proper array format
-      };
+      const site = siteKey(args.baseUrl);
+      const result = await liveOrMirror(async () => {
+        // Only ask for what changed since the last sync
+        const since = incrementalSince(site, 'submissions', args.assignmentId);
+        const { assignments } = await siteClient(args.baseUrl).call('mod_assign_get_submissions', {
+          assignmentids: [args.assignmentId],
+          ...(since !== null ? { since } : {})
+        });
+        const submissions = assignments && assignments.length > 0 ? assignments[0].submissions || [] : [];
 
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, { params });
+        mergeUserRecords(site, 'submissions', args.assignmentId, submissions, { full: since === null });
+        return since === null ? submissions : readUserRecords<MoodleSubmission>(site, 'submissions', args.assignmentId)?.data || submissions;
+      }, () => readUserRecords<MoodleSubmission>(site, 'submissions', args.assignmentId));
 
-      if (response.data && response.data.assignments && response.data.assignments.length > 0) {
-        const submissions = response.data.assignments[0].submissions || [];
-        return {
-          success: true,
-          data: submissions
-        };
-      } else {
-        return {
-          success: true,
-          data: []
-        };
-      }
-    } catch (error: any) {
-      console.error('[Moodle API] Error fetching assignment submissions:', error);
       return {
-        success: false,
-        error: error.message || 'Failed to fetch assignment submissions'
+        success: true,
+        ...result
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching assignment submissions:', error);
+      return errorResult(error, 'Failed to fetch assignment submissions');
     }
   });
 
   // Get assignment grades
-  ipcMain.handle('moodle:get-assignment-grades', async (event, args: { baseUrl: string; apiKey: string; assignmentId: string }) => {
+  ipcMain.handle('moodle:get-assignment-grades', async (event, args: { baseUrl: string; assignmentId: string }) => {
     try {
-      const params = {
-        wstoken: args.apiKey,
-        wsfunction: 'mod_assign_get_grades',
-        moodlewsrestformat: 'json',
-        'assignmentids[0]': args.assignmentId  // Fix: Use proper array format
-      };
+      const site = siteKey(args.baseUrl);
+      const result = await liveOrMirror(async () => {
+        // Only ask for grades changed since the last sync
+        const since = incrementalSince(site, 'grades', args.assignmentId);
+        const { assignments } = await siteClient(args.baseUrl).call('mod_assign_get_grades', {
+          assignmentids: [args.assignmentId],
+          ...(since !== null ? { since } : {})
+        });
+        const grades = assignments && assignments.length > 0 ? assignments[0].grades || [] : [];
 
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, { params });
+        mergeUserRecords(site, 'grades', args.assignmentId, grades, { full: since === null });
+        return since === null ? grades : readUserRecords<MoodleAssignGrade>(site, 'grades', args.assignmentId)?.data || grades;
+      }, () => readUserRecords<MoodleAssignGrade>(site, 'grades', args.assignmentId));
 
-      if (response.data && response.data.assignments && response.data.assignments.length > 0) {
-        const grades = response.data.assignments[0].grades || [];
-        return {
-          success: true,
-          data: grades
-        };
-      } else {
-        return {
-          success: true,
-          data: []
-        };
-      }
+      return {
+        success: true,
+        ...result
+      };
     } catch (error: any) {
       console.error('[Moodle API] Error fetching assignment grades:', error);
+      return errorResult(error, 'Failed to fetch assignment grades');
+    }
+  });
+
+  // List assignment participants with the record ids Moodle uses as "Participant N" identifiers
+  ipcMain.handle('moodle:get-assignment-participants', async (event, args: { baseUrl: string; assignmentId: string }) => {
+    try {
+      const participants = await siteClient(args.baseUrl).call('mod_assign_list_participants', {
+        assignid: args.assignmentId,
+        groupid: 0,
+        filter: ''
+      });
+
       return {
-        success: false,
-        error: error.message || 'Failed to fetch assignment grades'
+        success: true,
+        data: (Array.isArray(participants) ? participants : []).map(participant => ({
+          id: String(participant.id),
+          fullname: participant.fullname,
+          email: participant.email,
+          recordid: participant.recordid,
+          submissionstatus: participant.submissionstatus
+        }))
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching assignment participants:', error.message);
+      return errorResult(error, 'Failed to fetch assignment participants');
     }
   });
 
-  // Update assignment grade
-  ipcMain.handle('moodle:update-assignment-grade', async (event, args: {
+  // Due dates granted to individual students, as userid -> extended due date
+  ipcMain.handle('moodle:get-assignment-extensions', async (event, args: { baseUrl: string; assignmentId: string }) => {
+    try {
+      const { assignments } = await siteClient(args.baseUrl).call('mod_assign_get_user_flags', {
+        assignmentids: [args.assignmentId]
+      });
+      const flags = assignments && assignments.length > 0 ? assignments[0].userflags || [] : [];
+
+      return {
+        success: true,
+        data: flags
+          .filter(flag => flag.extensionduedate > 0)
+          .map(flag => ({ userid: String(flag.userid), extensionduedate: flag.extensionduedate }))
+      };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching assignment extensions:', error.message);
+      return errorResult(error, 'Failed to fetch assignment extensions');
+    }
+  });
+
+  // Grant the same extended due date to several students
+  ipcMain.handle('moodle:grant-extensions', async (event, args: {
     baseUrl: string;
-    apiKey: string;
     assignmentId: string;
-    userId: string;
-    grade: number;
-    feedback?: string;
-    courseId?: string; // Optional for validation
+    userIds: string[];
+    extensionDueDate: number;
   }) => {
-
     try {
-      // Prepare the grade update request with all required parameters
-      const params: any = {
-        wstoken: args.apiKey,
-        wsfunction: 'mod_assign_save_grade',
-        moodlewsrestformat: 'json',
+      const warnings = await siteClient(args.baseUrl).call('mod_assign_save_user_extensions', {
         assignmentid: args.assignmentId,
-        userid: args.userId,
-        grade: args.grade,
-        attemptnumber: -1, // -1 means current attempt
-        addattempt: 0, // 0 = false, don't add new attempt
-        workflowstate: '', // Empty string for default workflow
-        applytoall: 1 // 1 = true, apply to all team members if it's a group assignment
+        userids: args.userIds,
+        dates: args.userIds.map(() => args.extensionDueDate)
+      });
+
+      // Moodle names the refused student only in the warning's message ("User id: 12, ...")
+      const refused = new Set(
+        (Array.isArray(warnings) ? warnings : [])
+          .map(warning => /User id: (\d+)/.exec(warning.message)?.[1])
+          .filter(Boolean)
+      );
+      const failed = args.userIds
+        .filter(userId => refused.has(String(userId)))
+        .map(userId => ({ userId: String(userId), error: 'Moodle could not grant this extension' }));
+
+      return {
+        success: failed.length === 0,
+        data: {
+          granted: args.userIds.filter(userId => !refused.has(String(userId))).map(String),
+          failed
+        },
+        ...(failed.length > 0 ? { error: `${failed.length} extension(s) could not be granted` } : {})
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error granting extensions:', error.message);
+      return errorResult(error, 'Failed to grant extensions');
+    }
+  });
 
-      // Add feedback using correct form parameter format
-      if (args.feedback) {
-        params['plugindata[assignfeedbackcomments_editor][text]'] = args.feedback;
-        params['plugindata[assignfeedbackcomments_editor][format]'] = 1; // 1 = HTML format
-      }
+  // Get the advanced grading definition (rubric or marking guide) for an assignment
+  ipcMain.handle('moodle:get-grading-definitions', async (event, args: {
+    baseUrl: string;
+    cmid: string | number;
+    areaname?: string;
+  }) => {
+    try {
+      const { areas } = await siteClient(args.baseUrl).call('core_grading_get_definitions', {
+        cmids: [args.cmid],
+        areaname: args.areaname || 'submissions',
+        activeonly: 1
+      });
 
-      const response = await axios.post(`${args.baseUrl}/webservice/rest/server.php`, null, { params });
+      const area = (areas || []).find(a => String(a.cmid) === String(args.cmid));
+      const definition = area?.definitions?.find(d => d.method === area.activemethod) || area?.definitions?.[0] || null;
 
-      // Handle different success response formats
-      // Moodle's mod_assign_save_grade can return null, empty array, or object on success
-      const isSuccess = response.data === null ||
-                       response.data === '' ||
-                       (Array.isArray(response.data) && response.data.length === 0) ||
-                       (response.data && !response.data.exception);
+      return {
+        success: true,
+        data: {
+          activeMethod: area?.activemethod || null,
+          definition
+        }
+      };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching grading definitions:', error.message);
+      return errorResult(error, 'Failed to fetch grading definitions');
+    }
+  });
 
-      if (isSuccess) {
-        return {
-          success: true,
-          data: {
-            assignmentId: args.assignmentId,
-            userId: args.userId,
-            grade: args.grade,
-            feedback: args.feedback,
-            courseId: args.courseId,
-            timestamp: new Date().toISOString(),
-            moodleResponse: response.data
-          }
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data?.message || response.data?.debuginfo || 'Failed to update grade'
-        };
-      }
+  // Get filled grading form instances (criterion-level fills) for a grading definition
+  ipcMain.handle('moodle:get-grading-instances', async (event, args: {
+    baseUrl: string;
+    definitionId: number;
+    since?: number;
+  }) => {
+    try {
+      const { instances } = await siteClient(args.baseUrl).call('core_grading_get_gradingform_instances', {
+        definitionid: args.definitionId,
+        since: args.since || 0
+      });
+
+      return {
+        success: true,
+        data: instances || []
+      };
     } catch (error: any) {
-      console.error('[Moodle API] Error updating assignment grade:', error.message);
+      console.error('[Moodle API] Error fetching grading instances:', error.message);
+      return errorResult(error, 'Failed to fetch grading instances');
+    }
+  });
+
+  // Update assignment grade
+  ipcMain.handle('moodle:update-assignment-grade', async (event, args: GradeUpdate & {
+    baseUrl: string;
+    assignmentId: string;
+    courseId?: string; // Optional for validation
+  }) => {
+    try {
+      const client = siteClient(args.baseUrl);
+      const grade = await toAssignGradeInput(client, args);
+
+      // applytoall = 1: apply to all team members if it's a group assignment
+      await client.call('mod_assign_save_grade', {
+        ...grade,
+        assignmentid: args.assignmentId,
+        applytoall: args.applyToAll === false ? 0 : 1
+      });
+
+      // With criterion fills Moodle works the grade out itself, scaled to the assignment's max: read it back
+      let savedGrade = args.grade;
+      if (args.advancedGrading) {
+        const { assignments } = await client.call('mod_assign_get_grades', {
+          assignmentids: [args.assignmentId]
+        });
+        const saved = assignments?.[0]?.grades?.find(entry => String(entry.userid) === String(args.userId));
+        if (saved && !Number.isNaN(Number(saved.grade))) savedGrade = Number(saved.grade);
+      }
 
       return {
-        success: false,
-        error: error.response?.data?.message || error.message || 'Failed to update assignment grade'
+        success: true,
+        data: {
+          assignmentId: args.assignmentId,
+          userId: args.userId,
+          grade: savedGrade,
+          feedback: args.feedback,
+          courseId: args.courseId,
+          timestamp: new Date().toISOString()
+        }
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error updating assignment grade:', error.message);
+      return errorResult(error, 'Failed to update assignment grade');
     }
   });
 
   // Batch publish grades
   ipcMain.handle('moodle:publish-grades-batch', async (event, args: {
     baseUrl: string;
-    apiKey: string;
     courseId: string;
     assignmentId: string;
-    grades: Array<{
-      userId: string;
-      grade: number;
-      feedback?: string;
-    }>;
+    grades: GradeUpdate[];
   }) => {
+    const client = siteClient(args.baseUrl);
+    const results: Array<{ userId: string; success: true; grade: number }> = [];
+    const errors: Array<{ userId: string; error: string; errorcode?: string }> = [];
 
-    const results = [];
-    const errors = [];
-
-    // Process each grade individually using the actual update function
+    // Feedback files are uploaded one by one; the grades then go to Moodle in batches
+    const teamInputs: AssignGradeInput[] = [];
+    const memberInputs: AssignGradeInput[] = [];
     for (const gradeData of args.grades) {
       try {
+        const input = await toAssignGradeInput(client, gradeData);
+        (gradeData.applyToAll === false ? memberInputs : teamInputs).push(input);
+      } catch (error: any) {
+        errors.push({ userId: gradeData.userId, ...errorResult(error, 'Failed to upload feedback file') });
+      }
+    }
 
-        // Prepare the grade update request with all required parameters
-        const params: any = {
-          wstoken: args.apiKey,
-          wsfunction: 'mod_assign_save_grade',
-          moodlewsrestformat: 'json',
-          assignmentid: args.assignmentId,
-          userid: gradeData.userId,
-          grade: gradeData.grade,
-          attemptnumber: -1, // -1 means current attempt
-          addattempt: 0, // 0 = false, don't add new attempt
-          workflowstate: '', // Empty string for default workflow
-          applytoall: 1 // 1 = true, apply to all team members if it's a group assignment
-        };
-
-        // Add feedback using correct form parameter format
-        if (gradeData.feedback) {
-          params['plugindata[assignfeedbackcomments_editor][text]'] = gradeData.feedback;
-          params['plugindata[assignfeedbackcomments_editor][format]'] = 1; // 1 = HTML format
-        }
-
-        const response = await axios.post(`${args.baseUrl}/webservice/rest/server.php`, null, { params });
-
-        // Handle different success response formats
-        const isSuccess = response.data === null ||
-                         response.data === '' ||
-                         (Array.isArray(response.data) && response.data.length === 0) ||
-                         (response.data && !response.data.exception);
+    // Group grades are copied to every member first, so individual adjustments are saved over them
+    const saved = [
+      ...(teamInputs.length > 0 ? await client.saveGrades(args.assignmentId, teamInputs, { applytoall: 1 }) : []),
+      ...(memberInputs.length > 0 ? await client.saveGrades(args.assignmentId, memberInputs, { applytoall: 0 }) : [])
+    ];
 
-        if (isSuccess) {
-          results.push({
-            userId: gradeData.userId,
-            success: true,
-            grade: gradeData.grade,
-            response: response.data
-          });
-        } else {
-          errors.push({
-            userId: gradeData.userId,
-            error: response.data?.message || response.data?.debuginfo || 'Failed to update grade'
-          });
-        }
-      } catch (error: any) {
-        errors.push({
-          userId: gradeData.userId,
-          error: error.response?.data?.message || error.message || 'Failed to update grade'
-        });
+    const gradesByUser = new Map(args.grades.map(gradeData => [String(gradeData.userId), gradeData.grade]));
+    for (const result of saved) {
+      if (result.success) {
+        results.push({ userId: result.userId, success: true, grade: gradesByUser.get(result.userId)! });
+      } else {
+        errors.push({ userId: result.userId, error: result.error || 'Failed to update grade', errorcode: result.errorcode });
       }
     }
 
@@ -852,177 +1041,113 @@ export function setupMoodleApiHandlers() {
   // Get detailed grade information for an assignment
   ipcMain.handle('moodle:get-assignment-grade-details', async (event, args: {
     baseUrl: string;
-    apiKey: string;
     assignmentId: string;
     userId?: string;
   }) => {
     try {
-      const response = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'mod_assign_get_grades',
-          moodlewsrestformat: 'json',
-          assignmentids: [args.assignmentId]
-        }
+      const { assignments } = await siteClient(args.baseUrl).call('mod_assign_get_grades', {
+        assignmentids: [args.assignmentId]
       });
 
-      if (response.data && response.data.assignments && response.data.assignments.length > 0) {
-        let grades = response.data.assignments[0].grades || [];
-
-        // Filter by user if specified
-        if (args.userId) {
-          grades = grades.filter((grade: any) => grade.userid.toString() === args.userId);
-        }
-
-        // Enhance grade data with additional info
-        const enhancedGrades = grades.map((grade: any) => ({
-          id: grade.id,
-          userid: grade.userid,
-          grade: grade.grade,
-          grader: grade.grader,
-          timemodified: grade.timemodified,
-          timecreated: grade.timecreated,
-          feedback: grade.plugindata?.assignfeedbackcomments_editor?.text || '',
-          feedbackformat: grade.plugindata?.assignfeedbackcomments_editor?.format || 1,
-          assignmentId: args.assignmentId,
-          isPublished: grade.grade > 0 // Consider grade published if > 0
-        }));
-
-        return {
-          success: true,
-          data: enhancedGrades
-        };
-      } else {
+      if (!assignments || assignments.length === 0) {
         return {
           success: true,
           data: []
         };
       }
-    } catch (error: any) {
-      console.error('[Moodle API] Error getting grade details:', error);
+
+      let grades = assignments[0].grades || [];
+
+      // Filter by user if specified
+      if (args.userId) {
+        grades = grades.filter(grade => grade.userid.toString() === args.userId);
+      }
+
+      // Enhance grade data with additional info
+      const enhancedGrades = grades.map(grade => ({
+        id: grade.id,
+        userid: grade.userid,
+        grade: grade.grade,
+        grader: grade.grader,
+        timemodified: grade.timemodified,
+        timecreated: grade.timecreated,
+        feedback: grade.plugindata?.assignfeedbackcomments_editor?.text || '',
+        feedbackformat: grade.plugindata?.assignfeedbackcomments_editor?.format || 1,
+        assignmentId: args.assignmentId,
+        isPublished: Number(grade.grade) > 0 // Consider grade published if > 0
+      }));
+
       return {
-        success: false,
-        error: error.message || 'Failed to fetch assignment grade details'
+        success: true,
+        data: enhancedGrades
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error getting grade details:', error);
+      return errorResult(error, 'Failed to fetch assignment grade details');
     }
   });
 
   // Delete assignment grade and feedback
   ipcMain.handle('moodle:delete-assignment-grade', async (event, args: {
     baseUrl: string;
-    apiKey: string;
     assignmentId: string;
     userId: string;
     courseId?: string;
   }) => {
-
     try {
       // To delete a grade in Moodle, we set grade to -1 (no grade) and clear feedback
-      const params: any = {
-        wstoken: args.apiKey,
-        wsfunction: 'mod_assign_save_grade',
-        moodlewsrestformat: 'json',
+      await siteClient(args.baseUrl).call('mod_assign_save_grade', {
         assignmentid: args.assignmentId,
         userid: args.userId,
         grade: -1, // -1 means no grade (delete grade)
         attemptnumber: -1, // -1 means current attempt
         addattempt: 0, // 0 = false, don't add new attempt
         workflowstate: '', // Empty string for default workflow
-        applytoall: 1 // 1 = true, apply to all team members if it's a group assignment
-      };
-
-      // Clear feedback by setting empty text
-      params['plugindata[assignfeedbackcomments_editor][text]'] = '';
-      params['plugindata[assignfeedbackcomments_editor][format]'] = 1; // 1 = HTML format
-
-      const response = await axios.post(`${args.baseUrl}/webservice/rest/server.php`, null, { params });
-
-      // Handle different success response formats (same as update grade)
-      const isSuccess = response.data === null ||
-                       response.data === '' ||
-                       (Array.isArray(response.data) && response.data.length === 0) ||
-                       (response.data && !response.data.exception);
-
-      if (isSuccess) {
-        return {
-          success: true,
-          data: {
-            assignmentId: args.assignmentId,
-            userId: args.userId,
-            courseId: args.courseId,
-            timestamp: new Date().toISOString(),
-            moodleResponse: response.data
-          }
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data?.message || response.data?.debuginfo || 'Failed to delete grade'
-        };
-      }
-    } catch (error: any) {
-      console.error('[Moodle API] Error deleting assignment grade:', error.message);
+        applytoall: 1, // 1 = true, apply to all team members if it's a group assignment
+        plugindata: {
+          assignfeedbackcomments_editor: { text: '', format: 1 } // Clear feedback
+        }
+      });
 
       return {
-        success: false,
-        error: error.response?.data?.message || error.message || 'Failed to delete assignment grade'
+        success: true,
+        data: {
+          assignmentId: args.assignmentId,
+          userId: args.userId,
+          courseId: args.courseId,
+          timestamp: new Date().toISOString()
+        }
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error deleting assignment grade:', error.message);
+      return errorResult(error, 'Failed to delete assignment grade');
     }
   });
 
   // Get assignment attachments/files
   ipcMain.handle('moodle:get-assignment-attachments', async (event, args: {
     baseUrl: string;
-    apiKey: string;
     assignmentId: string;
     courseId: string;
   }) => {
     try {
-      // Ensure courseId is numeric
-      let numericCourseId = parseInt(args.courseId);
-
-      if (isNaN(numericCourseId)) {
-        // Find the numeric course ID
-        const coursesResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-          params: {
-            wstoken: args.apiKey,
-            wsfunction: 'core_enrol_get_users_courses',
-            moodlewsrestformat: 'json',
-            userid: await getUserId(args.baseUrl, args.apiKey)
-          }
-        });
-
-        if (coursesResponse.data && Array.isArray(coursesResponse.data)) {
-          const course = coursesResponse.data.find((c: any) =>
-            c.shortname === args.courseId || c.fullname.includes(args.courseId)
-          );
-
-          if (course) {
-            numericCourseId = parseInt(course.id);
-          } else {
-            return {
-              success: true,
-              data: []
-            };
-          }
-        }
+      const client = siteClient(args.baseUrl);
+      const numericCourseId = await client.resolveCourseId(args.courseId);
+      if (numericCourseId === null) {
+        return {
+          success: true,
+          data: []
+        };
       }
 
       // Get assignment details to find intro attachments
-      const assignmentResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-        params: {
-          wstoken: args.apiKey,
-          wsfunction: 'mod_assign_get_assignments',
-          moodlewsrestformat: 'json',
-          'courseids[0]': numericCourseId
-        }
-      });
+      const { courses } = await client.call('mod_assign_get_assignments', { courseids: [numericCourseId] });
 
       let attachments: any[] = [];
 
-      if (assignmentResponse.data && assignmentResponse.data.courses && assignmentResponse.data.courses.length > 0) {
-        const assignments = assignmentResponse.data.courses.flatMap((course: any) => course.assignments || []);
-        const assignment = assignments.find((a: any) => a.id.toString() === args.assignmentId);
+      if (courses && courses.length > 0) {
+        const assignments = courses.flatMap(course => course.assignments || []);
+        const assignment = assignments.find(a => a.id.toString() === args.assignmentId);
 
         if (assignment) {
           console.log('[Moodle API] Assignment data structure:', JSON.stringify(assignment, null, 2));
@@ -1073,18 +1198,11 @@ export function setupMoodleApiHandlers() {
             console.log('[Moodle API] No attachments found in assignment data, trying course contents approach...');
 
             try {
-              const contentsResponse = await axios.get(`${args.baseUrl}/webservice/rest/server.php`, {
-                params: {
-                  wstoken: args.apiKey,
-                  wsfunction: 'core_course_get_contents',
-                  moodlewsrestformat: 'json',
-                  courseid: numericCourseId
-                }
-              });
+              const sections = await client.call('core_course_get_contents', { courseid: numericCourseId });
 
-              if (contentsResponse.data && Array.isArray(contentsResponse.data)) {
+              if (Array.isArray(sections)) {
                 // Find the assignment module
-                for (const section of contentsResponse.data) {
+                for (const section of sections) {
                   if (section.modules && Array.isArray(section.modules)) {
                     for (const module of section.modules) {
                       if (module.modname === 'assign' && module.instance &&
@@ -1110,10 +1228,10 @@ export function setupMoodleApiHandlers() {
           console.log(`[Moodle API] Total attachments found: ${attachments.length}`, attachments);
         } else {
           console.log('[Moodle API] Assignment not found with ID:', args.assignmentId);
-          console.log('[Moodle API] Available assignments:', assignments.map((a: any) => ({ id: a.id, name: a.name })));
+          console.log('[Moodle API] Available assignments:', assignments.map(a => ({ id: a.id, name: a.name })));
         }
       } else {
-        console.log('[Moodle API] No assignment data in response:', assignmentResponse.data);
+        console.log('[Moodle API] No assignment data in response for course:', numericCourseId);
       }
 
       return {
@@ -1122,35 +1240,227 @@ export function setupMoodleApiHandlers() {
       };
     } catch (error: any) {
       console.error('[Moodle API] Error fetching assignment attachments:', error);
+      return errorResult(error, 'Failed to fetch assignment attachments');
+    }
+  });
+}
+
+// Register handlers for grading quiz essay questions and graded forums
+export function setupMoodleActivityHandlers() {
+  // List the course's quizzes and graded forums as assignment-like activities
+  ipcMain.handle('moodle:get-gradable-activities', async (event, args: { baseUrl: string; courseId: string }) => {
+    try {
+      const client = siteClient(args.baseUrl);
+      const site = siteKey(args.baseUrl);
+      const result = await liveOrMirror(async () => {
+        const courseId = await client.resolveCourseId(args.courseId);
+        if (courseId === null) return [];
+
+        // Either module's web services may be disabled on the site; list what is available
+        const [quizzes, forums] = await Promise.all([
+          client.call('mod_quiz_get_quizzes_by_courses', { courseids: [courseId] })
+            .then(data => data.quizzes || [])
+            .catch((error): MoodleQuiz[] => {
+              if (isOfflineError(error)) throw error;
+              console.warn('[Moodle API] Could not list quizzes:', error.message);
+              return [];
+            }),
+          client.call('mod_forum_get_forums_by_courses', { courseids: [courseId] })
+            .then(data => (Array.isArray(data) ? data : []))
+            .catch((error): MoodleForum[] => {
+              if (isOfflineError(error)) throw error;
+              console.warn('[Moodle API] Could not list forums:', error.message);
+              return [];
+            })
+        ]);
+
+        const activities = [
+          ...quizzes.map(quiz => ({
+            id: `quiz-${quiz.id}`,
+            activityType: 'quiz',
+            name: quiz.name,
+            intro: quiz.intro || '',
+            duedate: quiz.timeclose || 0,
+            grade: quiz.grade,
+            timemodified: quiz.timemodified || 0,
+            courseid: String(quiz.course),
+            cmid: String(quiz.coursemodule)
+          })),
+          // Only forums with whole-forum grading on a point scale can be graded through the API
+          ...forums.filter(forum => forum.grade_forum > 0).map(forum => ({
+            id: `forum-${forum.id}`,
+            activityType: 'forum',
+            name: forum.name,
+            intro: forum.intro || '',
+            duedate: forum.duedate || 0,
+            grade: forum.grade_forum,
+            timemodified: forum.timemodified || 0,
+            courseid: String(forum.course),
+            cmid: String(forum.cmid)
+          }))
+        ];
+
+        saveAssignments(site, args.courseId, 'activity', activities);
+        return activities;
+      }, () => readAssignments(site, args.courseId, 'activity'));
+
+      return { success: true, ...result };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching gradable activities:', error.message);
+      return errorResult(error, 'Failed to fetch quizzes and forums');
+    }
+  });
+
+  // Who has submitted (finished a quiz attempt or posted) and their current grades
+  ipcMain.handle('moodle:get-activity-submissions', async (event, args: { baseUrl: string; activityId: string }) => {
+    try {
+      const client = siteClient(args.baseUrl);
+      const site = siteKey(args.baseUrl);
+      const activityData = await liveOrMirror(async () => {
+        const info = await getActivityInfo(client, args.activityId);
+        const submissions: any[] = [];
+        const grades: any[] = [];
+
+        if (info.type === 'quiz') {
+          const users = await client.call('core_enrol_get_enrolled_users', { courseid: info.courseId });
+          await mapInBatches(users || [], async (user) => {
+            const attempt = await getLatestQuizAttempt(client, info.instanceId, user.id);
+            if (!attempt) return;
+
+            submissions.push({
+              userid: user.id,
+              status: 'submitted',
+              timemodified: attempt.timefinish || attempt.timemodified,
+              attemptnumber: attempt.attempt
+            });
+
+            const best = await client.call('mod_quiz_get_user_best_grade', { quizid: info.instanceId, userid: user.id });
+            if (best.hasgrade) {
+              grades.push({ userid: user.id, grade: best.grade, timemodified: attempt.timemodified });
+            }
+          });
+        } else {
+          const posts = await getForumPosts(client, info.instanceId);
+          const latestPostByAuthor = new Map<number, number>();
+          posts.forEach((post) => {
+            latestPostByAuthor.set(post.author.id, Math.max(latestPostByAuthor.get(post.author.id) || 0, post.timecreated));
+          });
+
+          await mapInBatches(Array.from(latestPostByAuthor.entries()), async ([userId, timemodified]) => {
+            submissions.push({ userid: userId, status: 'submitted', timemodified });
+
+            const result = await client.call('core_grades_grader_gradingpanel_point_fetch', {
+              component: 'mod_forum',
+              contextid: info.contextId!,
+              itemname: 'forum',
+              gradeduserid: userId
+            });
+            if (result.hasgrade && result.grade?.grade !== null && result.grade?.grade !== undefined) {
+              grades.push({ userid: userId, grade: result.grade.grade, timemodified: result.grade.timemodified });
+            }
+          });
+        }
+
+        mergeUserRecords(site, 'submissions', args.activityId, submissions, { full: true });
+        mergeUserRecords(site, 'grades', args.activityId, grades, { full: true });
+        return { submissions, grades };
+      }, () => {
+        const submissions = readUserRecords<any>(site, 'submissions', args.activityId);
+        const grades = readUserRecords<any>(site, 'grades', args.activityId);
+        if (!submissions || !grades) return null;
+        return {
+          data: { submissions: submissions.data, grades: grades.data },
+          syncedAt: Math.min(submissions.syncedAt, grades.syncedAt)
+        };
+      });
+
+      return { success: true, ...activityData };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching activity submissions:', error.message);
+      return errorResult(error, 'Failed to fetch activity submissions');
+    }
+  });
+
+  // Essay responses or forum posts of one student, as indexed submission content
+  ipcMain.handle('moodle:get-activity-submission', async (event, args: {
+    baseUrl: string;
+    activityId: string;
+    userId: string;
+  }) => {
+    try {
+      const submission = await getActivitySubmission(siteClient(args.baseUrl), args.activityId, args.userId);
+      if (!submission) {
+        throw new Error('The student has nothing to grade in this activity');
+      }
+
       return {
-        success: false,
-        error: error.message || 'Failed to fetch assignment attachments'
+        success: true,
+        data: {
+          filename: submission.filename,
+          timemodified: submission.timemodified,
+          content: parseSubmissionHtml(submission.html)
+        }
       };
+    } catch (error: any) {
+      console.error('[Moodle API] Error fetching activity submission:', error.message);
+      return errorResult(error, 'Failed to fetch activity submission');
+    }
+  });
+
+  // Write a grade back: the gradebook for quizzes, the forum grader for forums
+  ipcMain.handle('moodle:save-activity-grade', async (event, args: {
+    baseUrl: string;
+    activityId: string;
+    userId: string;
+    grade: number;
+    feedback?: string;
+  }) => {
+    try {
+      const client = siteClient(args.baseUrl);
+      const info = await getActivityInfo(client, args.activityId);
+
+      if (info.type === 'quiz') {
+        // Moodle has no web service for manually grading a single question attempt, and a
+        // gradebook update would override the whole quiz total, so quiz marks stay in Moodle
+        throw new Error('Quiz essay questions must be graded in the quiz\'s manual grading page in Moodle');
+      }
+      if (!info.contextId) {
+        throw new Error('Could not find the forum context');
+      }
+
+      // The point grading panel only takes the grade; forums have no feedback field
+      await client.call('core_grades_grader_gradingpanel_point_store', {
+        component: 'mod_forum',
+        contextid: info.contextId,
+        itemname: 'forum',
+        gradeduserid: args.userId,
+        notifyuser: 0,
+        formdata: new URLSearchParams({ grade: String(args.grade) }).toString()
+      });
+
+      return {
+        success: true,
+        data: {
+          activityId: args.activityId,
+          userId: args.userId,
+          grade: args.grade,
+          timestamp: new Date().toISOString()
+        }
+      };
+    } catch (error: any) {
+      console.error('[Moodle API] Error saving activity grade:', error.message);
+      return errorResult(error, 'Failed to save activity grade');
     }
   });
 }
 
-// Setup configuration handlers for storing Moodle settings
+// Setup configuration handlers for the active Moodle profile
 export function setupMoodleConfigHandlers() {
-  // Save Moodle configuration
+  // Save Moodle configuration into the active profile (creating the first one)
   ipcMain.handle('moodle:save-config', async (event, args: { baseUrl: string; apiKey: string }) => {
     try {
-      // Store in SQLite using key-value store
-      const query = `
-        INSERT INTO kv_store (namespace, key, value)
-        VALUES ('moodle', 'config', ?)
-        ON CONFLICT(namespace, key)
-        DO UPDATE SET value = excluded.value
-      `;
-
-      const configData = JSON.stringify({
-        baseUrl: args.baseUrl,
-        apiKey: args.apiKey,
-        updatedAt: new Date().toISOString()
-      });
-
-      executeQuery(query, [configData]);
-      return { success: true };
+      const profile = saveActiveConfig(args.baseUrl, args.apiKey);
+      return { success: true, data: profile };
     } catch (error: any) {
       console.error('[Moodle Config] Error saving configuration:', error);
       return {
@@ -1160,32 +1470,13 @@ export function setupMoodleConfigHandlers() {
     }
   });
 
-  // Get Moodle configuration
+  // Get the active profile's configuration, or the preset URL when there is none; the token stays here
   ipcMain.handle('moodle:get-config', async () => {
     try {
-      const query = `
-        SELECT value FROM kv_store
-        WHERE namespace = 'moodle' AND key = 'config'
-      `;
-
-      const result = executeQuery<{ value: string }>(query) as { value: string }[];
-
-      if (result && result.length > 0) {
-        const config = JSON.parse(result[0].value);
-        return {
-          success: true,
-          data: config
-        };
-      } else {
-        // Return default config if none exists
-        return {
-          success: true,
-          data: {
-            baseUrl: MOODLE_BASE_URL,
-            apiKey: ''
-          }
-        };
-      }
+      return {
+        success: true,
+        data: getActiveConfigSummary()
+      };
     } catch (error: any) {
       console.error('[Moodle Config] Error loading configuration:', error);
       return {
@@ -1195,15 +1486,11 @@ export function setupMoodleConfigHandlers() {
     }
   });
 
-  // Clear Moodle configuration
+  // Clear Moodle configuration by removing the active profile
   ipcMain.handle('moodle:clear-config', async () => {
     try {
-      const query = `
-        DELETE FROM kv_store
-        WHERE namespace = 'moodle' AND key = 'config'
-      `;
-
-      executeQuery(query);
+      const { profile } = getActiveConfig();
+      if (profile) removeProfile(profile.id);
       return { success: true };
     } catch (error: any) {
       console.error('[Moodle Config] Error clearing configuration:', error);
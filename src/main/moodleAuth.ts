@@ -0,0 +1,268 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import { createHash, randomBytes } from 'crypto';
+import {
+  MoodleError,
+  getMoodleClient,
+  getPublicConfig,
+  isMoodleError,
+  onTokenRejected,
+  requestToken,
+} from './moodleClient';
+import {
+  MoodleLoginMethod,
+  findProfileByToken,
+  findProfileByUser,
+  getActiveConfig,
+  markProfileExpired,
+  saveProfile,
+} from './moodleProfiles';
+
+// Signing in to Moodle without pasting a token. A username and password are
+// exchanged for a token through login/token.php; sites that sign in through
+// SSO go through the mobile app launch page in a sign-in window, whose final
+// redirect to SSO_URL_SCHEME://token=... is caught before it leaves the window.
+// Tokens are kept in the site's profile, encrypted with safeStorage. When
+// Moodle rejects the active profile's token, the renderer is told to ask the
+// user to sign in again.
+
+// Service the Moodle app signs in to; most sites enable it for teachers
+const DEFAULT_SERVICE = 'moodle_mobile_app';
+const SSO_URL_SCHEME = 'theiteams';
+const SSO_WINDOW_TIMEOUT = 10 * 60 * 1000;
+
+interface LoginTarget {
+  baseUrl: string;
+  service?: string;
+  // Profile to renew; otherwise the site/user's profile, or a new one
+  profileId?: string;
+}
+
+const siteRoot = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Check the token against the site and keep it in a profile, made the active one
+async function completeLogin(
+  target: LoginTarget,
+  token: string,
+  loginMethod: MoodleLoginMethod,
+) {
+  const baseUrl = siteRoot(target.baseUrl);
+  const info = await getMoodleClient(baseUrl, token).getSiteInfo({
+    refresh: true,
+  });
+  const existing = target.profileId
+    ? { id: target.profileId }
+    : findProfileByUser(baseUrl, info.username);
+
+  const profile = saveProfile({
+    id: existing?.id,
+    baseUrl,
+    apiKey: token,
+    sitename: info.sitename,
+    username: info.username,
+    fullname: info.fullname,
+    loginMethod,
+    service: target.service || DEFAULT_SERVICE,
+    activate: true,
+  });
+  return { baseUrl, profile };
+}
+
+// launch.php answers with base64("<md5(siteurl + passport)>:::<token>[:::<privatetoken>]")
+function parseSsoCallback(
+  callbackUrl: string,
+  baseUrl: string,
+  passport: string,
+): string {
+  const encoded = callbackUrl.replace(`${SSO_URL_SCHEME}://token=`, '');
+  const [signature, token] = Buffer.from(decodeURIComponent(encoded), 'base64')
+    .toString('utf8')
+    .split(':::');
+
+  // Moodle signs with its wwwroot, which may differ from the entered URL in scheme
+  const candidates = [
+    baseUrl,
+    baseUrl.replace(/^https:/, 'http:'),
+    baseUrl.replace(/^http:/, 'https:'),
+  ];
+  const valid = candidates.some(
+    (siteurl) =>
+      createHash('md5')
+        .update(siteurl + passport)
+        .digest('hex') === signature,
+  );
+  if (!token || !valid) {
+    throw new MoodleError('Moodle returned an invalid sign-in response', {
+      errorcode: 'invalidssotoken',
+    });
+  }
+  return token;
+}
+
+// Open the site's launch page and wait for its redirect back with a token
+function runSsoWindow(baseUrl: string, service: string): Promise<string> {
+  const passport = randomBytes(16).toString('hex');
+  const launchUrl = `${baseUrl}/admin/tool/mobile/launch.php?${new URLSearchParams(
+    { service, passport, urlscheme: SSO_URL_SCHEME },
+  ).toString()}`;
+
+  return new Promise((resolve, reject) => {
+    const parent =
+      BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+    const window = new BrowserWindow({
+      width: 520,
+      height: 720,
+      parent,
+      modal: !!parent,
+      autoHideMenuBar: true,
+      title: 'Sign in to Moodle',
+      webPreferences: {
+        // A fresh session per sign-in, so the next one can choose another account
+        partition: `moodle-sso-${passport}`,
+        nodeIntegration: false,
+        contextIsolation: true,
+      },
+    });
+
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = (error: Error | null, token?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (!window.isDestroyed()) window.close();
+      if (error) reject(error);
+      else resolve(token!);
+    };
+    timer = setTimeout(
+      () =>
+        finish(
+          new MoodleError('Sign-in took too long', { errorcode: 'timeout' }),
+        ),
+      SSO_WINDOW_TIMEOUT,
+    );
+
+    const catchCallback = (event: { preventDefault(): void }, url: string) => {
+      if (!url.startsWith(`${SSO_URL_SCHEME}://`)) return;
+      event.preventDefault();
+      try {
+        finish(null, parseSsoCallback(url, baseUrl, passport));
+      } catch (error: any) {
+        finish(error);
+      }
+    };
+    window.webContents.on('will-navigate', catchCallback);
+    window.webContents.on('will-redirect', catchCallback);
+    window.webContents.setWindowOpenHandler(({ url }) => {
+      if (url.startsWith(`${SSO_URL_SCHEME}://`)) {
+        try {
+          finish(null, parseSsoCallback(url, baseUrl, passport));
+        } catch (error: any) {
+          finish(error);
+        }
+      }
+      return { action: 'deny' };
+    });
+    window.on('closed', () =>
+      finish(
+        new MoodleError('Sign-in was cancelled', { errorcode: 'ssocancelled' }),
+      ),
+    );
+
+    window.loadURL(launchUrl).catch((error) => {
+      // Navigations cancelled by catchCallback also reject here
+      if (!settled && error.code !== 'ERR_ABORTED') finish(error);
+    });
+  });
+}
+
+const authError = (error: any, fallback: string) => ({
+  success: false,
+  error: error?.message || fallback,
+  ...(isMoodleError(error) ? { errorcode: error.errorcode } : {}),
+});
+
+// Tell the renderer when the active profile's token stops working
+function watchForExpiredTokens() {
+  onTokenRejected((baseUrl, token) => {
+    try {
+      const active = getActiveConfig();
+      if (active.apiKey !== token) return;
+      const profile = findProfileByToken(baseUrl, token);
+      if (!profile || profile.expired) return;
+
+      markProfileExpired(profile.id);
+      BrowserWindow.getAllWindows().forEach((window) => {
+        window.webContents.send('moodle:session-expired', {
+          ...profile,
+          expired: true,
+        });
+      });
+    } catch (error: any) {
+      console.error(
+        '[Moodle Auth] Could not report expired token:',
+        error.message,
+      );
+    }
+  });
+}
+
+export function setupMoodleAuthHandlers() {
+  watchForExpiredTokens();
+
+  // Which sign-in the site expects (own form or SSO), before asking for credentials
+  ipcMain.handle(
+    'moodle:auth:get-login-options',
+    async (event, args: { baseUrl: string }) => {
+      try {
+        const config = await getPublicConfig(siteRoot(args.baseUrl));
+        return {
+          success: true,
+          data: {
+            sitename: config.sitename,
+            typeoflogin: config.typeoflogin,
+            identityproviders: config.identityproviders || [],
+          },
+        };
+      } catch (error: any) {
+        console.error('[Moodle Auth] Error reading login options:', error);
+        return authError(error, 'Failed to read Moodle login options');
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'moodle:auth:login',
+    async (
+      event,
+      args: LoginTarget & { username: string; password: string },
+    ) => {
+      try {
+        const token = await requestToken(siteRoot(args.baseUrl), {
+          username: args.username.trim(),
+          password: args.password,
+          service: args.service || DEFAULT_SERVICE,
+        });
+        return {
+          success: true,
+          data: await completeLogin(args, token, 'password'),
+        };
+      } catch (error: any) {
+        console.error('[Moodle Auth] Login failed:', error.message);
+        return authError(error, 'Failed to sign in to Moodle');
+      }
+    },
+  );
+
+  ipcMain.handle('moodle:auth:sso', async (event, args: LoginTarget) => {
+    try {
+      const token = await runSsoWindow(
+        siteRoot(args.baseUrl),
+        args.service || DEFAULT_SERVICE,
+      );
+      return { success: true, data: await completeLogin(args, token, 'sso') };
+    } catch (error: any) {
+      console.error('[Moodle Auth] SSO login failed:', error.message);
+      return authError(error, 'Failed to sign in to Moodle');
+    }
+  });
+}
@@ -0,0 +1,1011 @@
+/* eslint-disable max-classes-per-file */
+import fs from 'fs';
+import path from 'path';
+// eslint-disable-next-line import/no-extraneous-dependencies
+import axios from 'axios';
+
+// Typed client for Moodle's REST web services. Every call goes through
+// call(), which flattens structured parameters into Moodle's form encoding,
+// turns `exception` payloads and transport failures into a MoodleError,
+// retries transient failures with backoff and shares identical reads that
+// are still in flight. Site info and the user's course list are cached.
+
+const REQUEST_TIMEOUT = 60 * 1000;
+const UPLOAD_TIMEOUT = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 500;
+// Site info and enrolled courses rarely change while the app is open
+const SITE_CACHE_TTL = 5 * 60 * 1000;
+// mod_assign_save_grades runs in one transaction; keep each batch small
+const GRADE_BATCH_SIZE = 20;
+
+// Moodle answers every failed web service call with this shape (HTTP 200)
+interface MoodleExceptionPayload {
+  exception: string;
+  errorcode: string;
+  message: string;
+  debuginfo?: string;
+}
+
+export class MoodleError extends Error {
+  // Moodle's errorcode (e.g. "invalidtoken", "nopermissions"), or one of
+  // "networkerror", "timeout" and "httperror" when no answer came back
+  readonly errorcode: string;
+
+  readonly exception?: string;
+
+  readonly debuginfo?: string;
+
+  readonly status?: number;
+
+  readonly wsfunction?: string;
+
+  constructor(
+    message: string,
+    details: {
+      errorcode: string;
+      exception?: string;
+      debuginfo?: string;
+      status?: number;
+      wsfunction?: string;
+    },
+  ) {
+    super(message);
+    this.name = 'MoodleError';
+    this.errorcode = details.errorcode;
+    this.exception = details.exception;
+    this.debuginfo = details.debuginfo;
+    this.status = details.status;
+    this.wsfunction = details.wsfunction;
+  }
+}
+
+export const isMoodleError = (error: unknown): error is MoodleError =>
+  error instanceof MoodleError;
+
+/* ------------------------------------------------------------------------ */
+/* Web service functions                                                    */
+/* ------------------------------------------------------------------------ */
+
+export interface MoodleFile {
+  filename: string;
+  filepath?: string;
+  filesize: number;
+  fileurl: string;
+  mimetype?: string;
+  timemodified: number;
+}
+
+export interface MoodleSiteInfo {
+  sitename: string;
+  siteurl: string;
+  userid: number;
+  username: string;
+  firstname: string;
+  lastname: string;
+  fullname: string;
+  useremail?: string;
+  release?: string;
+  version?: string;
+  functions?: Array<{ name: string; version: string }>;
+}
+
+export interface MoodleCourse {
+  id: number;
+  shortname: string;
+  fullname: string;
+  categoryid?: number;
+  summary?: string;
+  startdate: number;
+  enddate: number;
+  visible?: number;
+  enrollmentmethods?: string[];
+  timemodified?: number;
+}
+
+export interface MoodleUser {
+  id: number;
+  fullname: string;
+  firstname?: string;
+  lastname?: string;
+  email?: string;
+  roles?: Array<{ roleid: number; shortname: string }>;
+  groups?: Array<{ id: number; name: string }>;
+}
+
+export interface MoodleGroup {
+  id: number;
+  courseid: number;
+  name: string;
+  description?: string;
+  idnumber?: string;
+}
+
+export interface MoodleModule {
+  id: number;
+  name: string;
+  modname: string;
+  instance?: number;
+  contextid?: number;
+  visible?: number;
+  url?: string;
+  description?: string;
+  contents?: MoodleFile[];
+}
+
+export interface MoodleSection {
+  id: number;
+  name: string;
+  section: number;
+  modules: MoodleModule[];
+}
+
+// Passed through to the renderer as is, so unknown fields are kept
+export interface MoodleAssignment {
+  id: number;
+  cmid: number;
+  course: number;
+  name: string;
+  duedate: number;
+  grade: number;
+  timemodified: number;
+  introattachments?: MoodleFile[];
+  [field: string]: any;
+}
+
+export interface MoodlePlugin {
+  type: string;
+  name: string;
+  fileareas?: Array<{ area: string; files?: MoodleFile[] }>;
+  editorfields?: Array<{ name: string; text: string; format: number }>;
+  files?: MoodleFile[];
+}
+
+export interface MoodleSubmission {
+  id: number;
+  userid: number;
+  attemptnumber: number;
+  status: string;
+  timemodified: number;
+  plugins?: MoodlePlugin[];
+  [field: string]: any;
+}
+
+export interface MoodleAssignGrade {
+  id: number;
+  userid: number;
+  attemptnumber: number;
+  grade: string;
+  grader: number;
+  timecreated: number;
+  timemodified: number;
+  plugindata?: {
+    assignfeedbackcomments_editor?: { text: string; format: number };
+  };
+}
+
+export interface MoodleGradingDefinition {
+  id: number;
+  method: string;
+  name: string;
+  timemodified: number;
+  [field: string]: any;
+}
+
+export interface MoodleQuiz {
+  id: number;
+  course: number;
+  coursemodule: number;
+  name: string;
+  intro?: string;
+  timeclose?: number;
+  grade: number;
+  timemodified?: number;
+}
+
+export interface MoodleForum {
+  id: number;
+  course: number;
+  cmid: number;
+  name: string;
+  intro?: string;
+  duedate?: number;
+  grade_forum: number;
+  timemodified?: number;
+}
+
+export interface MoodleQuizAttempt {
+  id: number;
+  attempt: number;
+  state: string;
+  timefinish: number;
+  timemodified: number;
+}
+
+export interface MoodleForumPost {
+  id: number;
+  discussionid: number;
+  subject: string;
+  message: string;
+  timecreated: number;
+  author: { id: number; fullname?: string };
+}
+
+export interface MoodleWarning {
+  item?: string;
+  itemid?: number;
+  warningcode: string;
+  message: string;
+}
+
+// Feedback comment and draft file item attached to a grade
+export interface AssignGradePluginData {
+  assignfeedbackcomments_editor?: { text: string; format: number };
+  files_filemanager?: number;
+}
+
+// Criterion fills for rubric or marking guide grading, keyed by method
+export interface AdvancedGradingFormData {
+  [method: string]: {
+    criteria: Array<{
+      criterionid: number;
+      fillings: Array<{
+        criterionid: number;
+        levelid?: number;
+        score?: number;
+        remark: string;
+        remarkformat: number;
+      }>;
+    }>;
+  };
+}
+
+export interface AssignGradeInput {
+  userid: string | number;
+  grade: number;
+  attemptnumber: number;
+  addattempt: number;
+  workflowstate: string;
+  plugindata?: AssignGradePluginData;
+  advancedgradingdata?: AdvancedGradingFormData;
+}
+
+/**
+ * Request parameters and responses of the web service functions the app uses.
+ * Parameters are written as nested objects and arrays; call() flattens them
+ * into Moodle's `name[0][field]` form.
+ */
+export interface MoodleFunctions {
+  core_webservice_get_site_info: {
+    params: Record<string, never>;
+    result: MoodleSiteInfo;
+  };
+  core_enrol_get_users_courses: {
+    params: { userid: number };
+    result: MoodleCourse[];
+  };
+  core_enrol_get_enrolled_users: {
+    params: { courseid: number };
+    result: MoodleUser[];
+  };
+  core_course_get_courses_by_field: {
+    params: { field: string; value: string | number };
+    result: { courses: MoodleCourse[] };
+  };
+  core_group_get_course_groups: {
+    params: { courseid: string | number };
+    result: MoodleGroup[];
+  };
+  core_group_get_group_members: {
+    params: { groupids: Array<string | number> };
+    result: Array<{ groupid: number; userids: number[] }>;
+  };
+  core_group_get_groupings: {
+    params: { groupingids: Array<string | number>; returngroups?: number };
+    result: Array<{ id: number; name: string; groups?: MoodleGroup[] }>;
+  };
+  core_course_get_contents: {
+    params: {
+      courseid: number;
+      options?: Array<{ name: string; value: string | number }>;
+    };
+    result: MoodleSection[];
+  };
+  core_course_get_course_module_by_instance: {
+    params: { module: string; instance: string | number };
+    result: { cm: { id: number; course: number; instance: number } };
+  };
+  gradereport_user_get_grades_table: {
+    params: { courseid: string | number; userid?: number };
+    result: { tables: any[]; warnings?: MoodleWarning[] };
+  };
+  core_grades_get_grades: {
+    params: { courseid: string | number };
+    result: any;
+  };
+  mod_assign_get_assignments: {
+    params: { courseids: number[] };
+    result: {
+      courses: Array<{ id: number; assignments: MoodleAssignment[] }>;
+      warnings?: MoodleWarning[];
+    };
+  };
+  mod_assign_get_submission_status: {
+    params: { assignid: string | number; userid: string | number };
+    result: {
+      lastattempt?: {
+        submission?: MoodleSubmission;
+        // Team assignments: the group's shared submission and the group id
+        teamsubmission?: MoodleSubmission;
+        submissiongroup?: number;
+      };
+      feedback?: { plugins?: MoodlePlugin[] };
+      assignmentdata?: { attachments?: Record<string, MoodleFile[]> };
+    };
+  };
+  mod_assign_get_submissions: {
+    params: { assignmentids: Array<string | number>; since?: number };
+    result: {
+      assignments: Array<{
+        assignmentid: number;
+        submissions: MoodleSubmission[];
+      }>;
+      warnings?: MoodleWarning[];
+    };
+  };
+  mod_assign_get_grades: {
+    params: { assignmentids: Array<string | number>; since?: number };
+    result: {
+      assignments: Array<{ assignmentid: number; grades: MoodleAssignGrade[] }>;
+      warnings?: MoodleWarning[];
+    };
+  };
+  mod_assign_get_user_flags: {
+    params: { assignmentids: Array<string | number> };
+    result: {
+      assignments: Array<{
+        assignmentid: number;
+        userflags: Array<{
+          userid: number;
+          locked: number;
+          // 0 when the student has no extension
+          extensionduedate: number;
+          workflowstate?: string;
+        }>;
+      }>;
+      warnings?: MoodleWarning[];
+    };
+  };
+  mod_assign_save_user_extensions: {
+    params: {
+      assignmentid: string | number;
+      userids: Array<string | number>;
+      dates: number[];
+    };
+    // One "couldnotgrantextensions" warning per student Moodle refused
+    result: MoodleWarning[];
+  };
+  mod_assign_list_participants: {
+    params: { assignid: string | number; groupid: number; filter: string };
+    result: Array<{
+      id: number;
+      fullname: string;
+      email?: string;
+      recordid?: number;
+      submissionstatus?: string;
+    }>;
+  };
+  mod_assign_save_grade: {
+    params: AssignGradeInput & {
+      assignmentid: string | number;
+      applytoall: number;
+    };
+    result: null;
+  };
+  mod_assign_save_grades: {
+    params: {
+      assignmentid: string | number;
+      applytoall: number;
+      grades: AssignGradeInput[];
+    };
+    result: null;
+  };
+  core_grading_get_definitions: {
+    params: {
+      cmids: Array<string | number>;
+      areaname: string;
+      activeonly: number;
+    };
+    result: {
+      areas: Array<{
+        cmid: number;
+        activemethod: string | null;
+        definitions?: MoodleGradingDefinition[];
+      }>;
+    };
+  };
+  core_grading_get_gradingform_instances: {
+    params: { definitionid: number; since: number };
+    result: { instances: any[] };
+  };
+  mod_quiz_get_quizzes_by_courses: {
+    params: { courseids: number[] };
+    result: { quizzes: MoodleQuiz[] };
+  };
+  mod_quiz_get_user_attempts: {
+    params: {
+      quizid: string | number;
+      userid: string | number;
+      status: 'all' | 'finished' | 'unfinished';
+      includepreviews: number;
+    };
+    result: { attempts: MoodleQuizAttempt[] };
+  };
+  mod_quiz_get_attempt_review: {
+    params: { attemptid: number; page: number };
+    result: {
+      questions: Array<{
+        slot: number;
+        number?: number;
+        type: string;
+        html: string;
+        maxmark?: number;
+      }>;
+    };
+  };
+  mod_quiz_get_user_best_grade: {
+    params: { quizid: string | number; userid: string | number };
+    result: { hasgrade: boolean; grade?: number };
+  };
+  mod_forum_get_forums_by_courses: {
+    params: { courseids: number[] };
+    result: MoodleForum[];
+  };
+  mod_forum_get_forum_discussions: {
+    params: { forumid: string | number };
+    result: { discussions: Array<{ id: number; discussion: number }> };
+  };
+  mod_forum_get_discussion_posts: {
+    params: { discussionid: number };
+    result: { posts: MoodleForumPost[] };
+  };
+  core_grades_update_grades: {
+    params: {
+      source: string;
+      courseid: number;
+      component: string;
+      activityid: number;
+      itemnumber: number;
+      grades: Array<{
+        studentid: string | number;
+        grade: number;
+        str_feedback?: string;
+      }>;
+    };
+    // One of the GRADE_UPDATE_* codes; 0 is success
+    result: number;
+  };
+  core_grades_grader_gradingpanel_point_fetch: {
+    params: {
+      component: string;
+      contextid: number;
+      itemname: string;
+      gradeduserid: string | number;
+    };
+    result: {
+      hasgrade: boolean;
+      grade?: { grade: number | null; timemodified: number };
+    };
+  };
+  core_grades_grader_gradingpanel_point_store: {
+    params: {
+      component: string;
+      contextid: number;
+      itemname: string;
+      gradeduserid: string | number;
+      notifyuser: number;
+      formdata: string;
+    };
+    result: any;
+  };
+  core_message_send_instant_messages: {
+    params: {
+      messages: Array<{
+        touserid: string | number;
+        text: string;
+        // 0 Moodle, 1 HTML, 2 plain text, 4 Markdown
+        textformat?: number;
+        clientmsgid?: string;
+      }>;
+    };
+    // msgid is -1 when Moodle refused that message
+    result: Array<{
+      msgid: number;
+      clientmsgid?: string;
+      errormessage?: string;
+    }>;
+  };
+}
+
+export type MoodleFunction = keyof MoodleFunctions;
+export type MoodleParams<F extends MoodleFunction> =
+  MoodleFunctions[F]['params'];
+export type MoodleResult<F extends MoodleFunction> =
+  MoodleFunctions[F]['result'];
+
+// Sent as POST and never shared, cached or retried after reaching the server
+const WRITE_FUNCTIONS = new Set<MoodleFunction>([
+  'mod_assign_save_grade',
+  'mod_assign_save_grades',
+  'mod_assign_save_user_extensions',
+  'core_grades_update_grades',
+  'core_grades_grader_gradingpanel_point_store',
+  'core_message_send_instant_messages',
+]);
+
+/* ------------------------------------------------------------------------ */
+/* Request helpers                                                          */
+/* ------------------------------------------------------------------------ */
+
+type FlatParams = Record<string, string | number>;
+
+// { grades: [{ userid: 3 }] } -> { 'grades[0][userid]': 3 }
+function flattenParams(value: unknown, prefix: string, out: FlatParams) {
+  if (value === undefined || value === null) return;
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      flattenParams(item, `${prefix}[${index}]`, out),
+    );
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) =>
+      flattenParams(item, prefix ? `${prefix}[${key}]` : key, out),
+    );
+  } else if (typeof value === 'boolean') {
+    out[prefix] = value ? 1 : 0;
+  } else {
+    out[prefix] = value as string | number;
+  }
+}
+
+const isExceptionPayload = (data: any): data is MoodleExceptionPayload =>
+  !!data &&
+  typeof data === 'object' &&
+  !Array.isArray(data) &&
+  'exception' in data;
+
+function toMoodleError(error: any, wsfunction?: string): MoodleError {
+  if (error instanceof MoodleError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status) {
+      return new MoodleError(`Moodle responded with HTTP ${status}`, {
+        errorcode: 'httperror',
+        status,
+        wsfunction,
+      });
+    }
+    const timedOut =
+      error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    return new MoodleError(
+      timedOut
+        ? 'Moodle did not respond in time'
+        : error.message || 'Could not reach Moodle',
+      {
+        errorcode: timedOut ? 'timeout' : 'networkerror',
+        debuginfo: error.code,
+        wsfunction,
+      },
+    );
+  }
+
+  return new MoodleError(error?.message || 'Moodle request failed', {
+    errorcode: 'unknown',
+    wsfunction,
+  });
+}
+
+// Failures where the request cannot have been applied are safe to repeat for writes too
+const NOT_SENT_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+function isRetryable(error: MoodleError, write: boolean): boolean {
+  if (error.errorcode === 'httperror') {
+    return (
+      error.status === 429 ||
+      error.status === 503 ||
+      (!write && error.status! >= 500)
+    );
+  }
+  if (error.errorcode === 'networkerror' || error.errorcode === 'timeout') {
+    return !write || NOT_SENT_CODES.has(error.debuginfo || '');
+  }
+  // Moodle exceptions are answers, not transient failures
+  return false;
+}
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+// An expired or revoked token only shows up as Moodle rejecting it
+type TokenRejectedListener = (baseUrl: string, token: string) => void;
+const tokenRejectedListeners = new Set<TokenRejectedListener>();
+
+export function onTokenRejected(listener: TokenRejectedListener): () => void {
+  tokenRejectedListeners.add(listener);
+  return () => {
+    tokenRejectedListeners.delete(listener);
+  };
+}
+
+/* ------------------------------------------------------------------------ */
+/* Login                                                                    */
+/* ------------------------------------------------------------------------ */
+
+// Login settings a site publishes to apps before sign-in
+export interface MoodlePublicConfig {
+  wwwroot: string;
+  sitename: string;
+  // 1: the app's own login form, 2: SSO in a browser, 3: SSO in an embedded browser
+  typeoflogin: number;
+  launchurl?: string;
+  identityproviders?: Array<{ name: string; url: string; iconurl?: string }>;
+  [key: string]: unknown;
+}
+
+// Exchange a username and password for a web service token (login/token.php)
+export async function requestToken(
+  baseUrl: string,
+  credentials: { username: string; password: string; service: string },
+): Promise<string> {
+  try {
+    const response = await axios.post(
+      `${baseUrl.replace(/\/+$/, '')}/login/token.php`,
+      new URLSearchParams(credentials).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: REQUEST_TIMEOUT,
+      },
+    );
+    if (!response.data?.token) {
+      // e.g. { error: 'Invalid login, please try again', errorcode: 'invalidlogin' }
+      throw new MoodleError(
+        response.data?.error || 'Moodle did not return a token',
+        { errorcode: response.data?.errorcode || 'notoken' },
+      );
+    }
+    return response.data.token;
+  } catch (error) {
+    throw toMoodleError(error);
+  }
+}
+
+export async function getPublicConfig(
+  baseUrl: string,
+): Promise<MoodlePublicConfig> {
+  const methodname = 'tool_mobile_get_public_config';
+  try {
+    const response = await axios.post(
+      `${baseUrl.replace(/\/+$/, '')}/lib/ajax/service-nologin.php`,
+      [{ index: 0, methodname, args: {} }],
+      { params: { info: methodname }, timeout: REQUEST_TIMEOUT },
+    );
+    const [result] = Array.isArray(response.data) ? response.data : [];
+    if (!result || result.error) {
+      throw new MoodleError(
+        result?.exception?.message ||
+          'Moodle did not return its login settings',
+        {
+          errorcode: result?.exception?.errorcode || 'nopublicconfig',
+          exception: result?.exception?.exception,
+          wsfunction: methodname,
+        },
+      );
+    }
+    return result.data;
+  } catch (error) {
+    throw toMoodleError(error, methodname);
+  }
+}
+
+/* ------------------------------------------------------------------------ */
+/* Client                                                                   */
+/* ------------------------------------------------------------------------ */
+
+export interface GradeSaveResult {
+  userId: string;
+  success: boolean;
+  error?: string;
+  errorcode?: string;
+}
+
+export class MoodleClient {
+  readonly baseUrl: string;
+
+  private readonly token: string;
+
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  private siteInfo: {
+    fetchedAt: number;
+    promise: Promise<MoodleSiteInfo>;
+  } | null = null;
+
+  private userCourses: {
+    fetchedAt: number;
+    promise: Promise<MoodleCourse[]>;
+  } | null = null;
+
+  constructor(baseUrl: string, token: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.token = token;
+  }
+
+  async call<F extends MoodleFunction>(
+    wsfunction: F,
+    params: MoodleParams<F> = {} as MoodleParams<F>,
+  ): Promise<MoodleResult<F>> {
+    const flat: FlatParams = {};
+    flattenParams(params, '', flat);
+
+    const write = WRITE_FUNCTIONS.has(wsfunction);
+    if (write) {
+      return this.send(wsfunction, flat, true);
+    }
+
+    // Identical reads issued while one is pending share its answer
+    const key = `${wsfunction}?${JSON.stringify(flat)}`;
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<MoodleResult<F>>;
+
+    const request = this.send(wsfunction, flat, false).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async send<F extends MoodleFunction>(
+    wsfunction: F,
+    params: FlatParams,
+    write: boolean,
+  ): Promise<MoodleResult<F>> {
+    const url = `${this.baseUrl}/webservice/rest/server.php`;
+    const config = {
+      params: { wstoken: this.token, wsfunction, moodlewsrestformat: 'json' },
+      timeout: REQUEST_TIMEOUT,
+    };
+    // Parameters go in the body so long feedback and batches fit
+    const body = new URLSearchParams(
+      Object.entries(params).map(([key, value]) => [key, String(value)]),
+    ).toString();
+
+    let attempt = 0;
+    for (;;) {
+      attempt += 1;
+      try {
+        const response = await axios.post(url, body, {
+          ...config,
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+
+        if (isExceptionPayload(response.data)) {
+          throw new MoodleError(
+            response.data.message || `${wsfunction} failed`,
+            {
+              errorcode: response.data.errorcode || 'unknown',
+              exception: response.data.exception,
+              debuginfo: response.data.debuginfo,
+              wsfunction,
+            },
+          );
+        }
+        return response.data;
+      } catch (error) {
+        const moodleError = toMoodleError(error, wsfunction);
+        if (moodleError.errorcode === 'invalidtoken') {
+          tokenRejectedListeners.forEach((listener) =>
+            listener(this.baseUrl, this.token),
+          );
+        }
+        if (attempt >= MAX_ATTEMPTS || !isRetryable(moodleError, write)) {
+          throw moodleError;
+        }
+        await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  // Site and current user; refresh bypasses the cache (e.g. to test a token)
+  getSiteInfo(options: { refresh?: boolean } = {}): Promise<MoodleSiteInfo> {
+    if (
+      options.refresh ||
+      !this.siteInfo ||
+      Date.now() - this.siteInfo.fetchedAt > SITE_CACHE_TTL
+    ) {
+      const promise = this.call('core_webservice_get_site_info');
+      this.siteInfo = { fetchedAt: Date.now(), promise };
+      promise.catch(() => {
+        if (this.siteInfo?.promise === promise) this.siteInfo = null;
+      });
+    }
+    return this.siteInfo.promise;
+  }
+
+  async getUserId(): Promise<number> {
+    const { userid } = await this.getSiteInfo();
+    if (!userid) {
+      throw new MoodleError('Could not get user ID', { errorcode: 'nouserid' });
+    }
+    return userid;
+  }
+
+  // Courses the token's user is enrolled in
+  getUserCourses(options: { refresh?: boolean } = {}): Promise<MoodleCourse[]> {
+    if (
+      options.refresh ||
+      !this.userCourses ||
+      Date.now() - this.userCourses.fetchedAt > SITE_CACHE_TTL
+    ) {
+      const promise = this.getUserId()
+        .then((userid) => this.call('core_enrol_get_users_courses', { userid }))
+        .then((courses) => (Array.isArray(courses) ? courses : []));
+      this.userCourses = { fetchedAt: Date.now(), promise };
+      promise.catch(() => {
+        if (this.userCourses?.promise === promise) this.userCourses = null;
+      });
+    }
+    return this.userCourses.promise;
+  }
+
+  // Course ids may arrive as a shortname (like "COMP7404"); find the numeric id among the user's courses
+  async resolveCourseId(courseId: string | number): Promise<number | null> {
+    const numericCourseId = parseInt(String(courseId), 10);
+    if (!Number.isNaN(numericCourseId)) return numericCourseId;
+
+    const courses = await this.getUserCourses();
+    const course = courses.find(
+      (c) => c.shortname === courseId || c.fullname.includes(String(courseId)),
+    );
+    return course ? course.id : null;
+  }
+
+  // Upload a file to the user's draft area and return its itemid
+  async uploadDraftFile(filePath: string, filename?: string): Promise<number> {
+    const form = new FormData();
+    form.append('token', this.token);
+    form.append('filearea', 'draft');
+    form.append('itemid', '0');
+    form.append(
+      'file_1',
+      new Blob([fs.readFileSync(filePath)]),
+      filename || path.basename(filePath),
+    );
+
+    let data: any;
+    try {
+      ({ data } = await axios.post(
+        `${this.baseUrl}/webservice/upload.php`,
+        form,
+        {
+          timeout: UPLOAD_TIMEOUT,
+        },
+      ));
+    } catch (error) {
+      throw toMoodleError(error);
+    }
+
+    // upload.php answers with an array of uploaded files, or an object on error
+    const uploaded = Array.isArray(data) ? data[0] : null;
+    if (!uploaded?.itemid) {
+      throw new MoodleError(
+        data?.error || data?.message || 'Failed to upload feedback file',
+        {
+          errorcode: data?.errorcode || 'uploadfailed',
+          exception: data?.exception,
+          debuginfo: data?.debuginfo,
+        },
+      );
+    }
+    return uploaded.itemid;
+  }
+
+  /**
+   * Save several assignment grades with mod_assign_save_grades, a batch at a
+   * time. Moodle applies a batch all-or-nothing, so when one is rejected its
+   * grades are saved one by one to find out which students failed.
+   */
+  async saveGrades(
+    assignmentId: string | number,
+    grades: AssignGradeInput[],
+    options: { applytoall?: number } = {},
+  ): Promise<GradeSaveResult[]> {
+    const applytoall = options.applytoall ?? 1;
+    const results: GradeSaveResult[] = [];
+
+    for (let i = 0; i < grades.length; i += GRADE_BATCH_SIZE) {
+      const batch = grades.slice(i, i + GRADE_BATCH_SIZE);
+      try {
+        if (batch.length === 1) {
+          await this.call('mod_assign_save_grade', {
+            ...batch[0],
+            assignmentid: assignmentId,
+            applytoall,
+          });
+        } else {
+          await this.call('mod_assign_save_grades', {
+            assignmentid: assignmentId,
+            applytoall,
+            grades: batch,
+          });
+        }
+        results.push(
+          ...batch.map((grade) => ({
+            userId: String(grade.userid),
+            success: true,
+          })),
+        );
+      } catch (error) {
+        if (batch.length === 1 || !isMoodleError(error) || !error.exception) {
+          const moodleError = toMoodleError(error, 'mod_assign_save_grades');
+          results.push(
+            ...batch.map((grade) => ({
+              userId: String(grade.userid),
+              success: false,
+              error: moodleError.message,
+              errorcode: moodleError.errorcode,
+            })),
+          );
+        } else {
+          for (const grade of batch) {
+            try {
+              await this.call('mod_assign_save_grade', {
+                ...grade,
+                assignmentid: assignmentId,
+                applytoall,
+              });
+              results.push({ userId: String(grade.userid), success: true });
+            } catch (gradeError) {
+              const moodleError = toMoodleError(
+                gradeError,
+                'mod_assign_save_grade',
+              );
+              results.push({
+                userId: String(grade.userid),
+                success: false,
+                error: moodleError.message,
+                errorcode: moodleError.errorcode,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Forget cached site info and courses, e.g. after enrolments change
+  invalidate() {
+    this.siteInfo = null;
+    this.userCourses = null;
+  }
+}
+
+// One client per site and token, so caches and in-flight reads are shared across handlers
+const clients = new Map<string, MoodleClient>();
+
+export function getMoodleClient(baseUrl: string, token: string): MoodleClient {
+  const key = `${baseUrl.replace(/\/+$/, '')}|${token}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = new MoodleClient(baseUrl, token);
+    clients.set(key, client);
+  }
+  return client;
+}
+
+export function clearMoodleClients() {
+  clients.clear();
+}
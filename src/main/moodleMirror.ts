@@ -0,0 +1,558 @@
+import { ipcMain } from 'electron';
+import type Database from 'better-sqlite3'; // eslint-disable-line import/no-extraneous-dependencies
+import { executeQuery, executeTransaction } from './db';
+import { isMoodleError } from './moodleClient';
+
+// Local mirror of the Moodle data the views show: courses, enrolled users,
+// course modules, assignments (and gradable quizzes/forums), submissions and
+// grades. The moodle:* handlers write every successful answer through to it
+// and fall back to it when Moodle cannot be reached; the renderer reads it
+// first so a course opens instantly, then refreshes from Moodle.
+// Submissions and grades sync incrementally with Moodle's `since` filter,
+// with a full resync once a day to notice deletions.
+
+const FULL_SYNC_INTERVAL = 24 * 60 * 60 * 1000;
+
+export type MirrorEntity =
+  | 'courses'
+  | 'users'
+  | 'modules'
+  | 'assignments'
+  | 'submissions'
+  | 'grades';
+
+// Assignments are mirrored apart from quizzes and forums graded like them
+export type AssignmentKind = 'assign' | 'activity';
+
+export interface MirrorSnapshot<T> {
+  data: T;
+  syncedAt: number;
+}
+
+export interface SyncState {
+  entity: MirrorEntity;
+  scope: string;
+  syncedAt: number;
+  fullSyncedAt: number;
+  maxTimemodified: number;
+}
+
+type SyncStateRow = {
+  entity: MirrorEntity;
+  scope: string;
+  synced_at: number;
+  full_synced_at: number;
+  max_timemodified: number;
+};
+
+type DataRow = { data: string };
+
+// Rows of submissions and grades are keyed by the student they belong to
+type UserRecord = {
+  userid: string | number;
+  groupid?: number;
+  timemodified?: number;
+};
+
+// Team submissions belong to a group and have userid 0
+const userRecordKey = (record: UserRecord) =>
+  Number(record.userid) === 0 && record.groupid
+    ? `group-${record.groupid}`
+    : String(record.userid);
+
+export const siteKey = (baseUrl: string) =>
+  baseUrl.replace(/\/+$/, '').toLowerCase();
+
+// Moodle could not be reached, as opposed to Moodle refusing the request
+export const isOfflineError = (error: unknown): boolean =>
+  isMoodleError(error) &&
+  (error.errorcode === 'networkerror' ||
+    error.errorcode === 'timeout' ||
+    (error.errorcode === 'httperror' && (error.status ?? 0) >= 500));
+
+// The mirror is a cache: failing to write it must not fail the Moodle request
+function safely(label: string, write: () => void) {
+  try {
+    write();
+  } catch (error: any) {
+    console.warn(`[Moodle Mirror] Could not update ${label}:`, error.message);
+  }
+}
+
+const toSyncState = (row: SyncStateRow): SyncState => ({
+  entity: row.entity,
+  scope: row.scope,
+  syncedAt: row.synced_at,
+  fullSyncedAt: row.full_synced_at,
+  maxTimemodified: row.max_timemodified,
+});
+
+export function getSyncState(
+  site: string,
+  entity: MirrorEntity,
+  scope = '',
+): SyncState | null {
+  const rows = executeQuery<SyncStateRow>(
+    'select entity, scope, synced_at, full_synced_at, max_timemodified from moodle_sync_state where site = ? and entity = ? and scope = ?',
+    [site, entity, scope],
+  ) as SyncStateRow[];
+  return rows.length > 0 ? toSyncState(rows[0]) : null;
+}
+
+export function listSyncStates(site: string): SyncState[] {
+  const rows = executeQuery<SyncStateRow>(
+    'select entity, scope, synced_at, full_synced_at, max_timemodified from moodle_sync_state where site = ? order by entity, scope',
+    [site],
+  ) as SyncStateRow[];
+  return rows.map(toSyncState);
+}
+
+function markSynced(
+  db: Database.Database,
+  site: string,
+  entity: MirrorEntity,
+  scope: string,
+  options: { full: boolean; maxTimemodified?: number },
+) {
+  const now = Date.now();
+  db.prepare(
+    [
+      'insert into moodle_sync_state (site, entity, scope, synced_at, full_synced_at, max_timemodified)',
+      'values (?, ?, ?, ?, ?, ?)',
+      'on conflict (site, entity, scope) do update set',
+      '  synced_at = excluded.synced_at,',
+      '  full_synced_at = case when ? then excluded.full_synced_at else moodle_sync_state.full_synced_at end,',
+      '  max_timemodified = max(moodle_sync_state.max_timemodified, excluded.max_timemodified)',
+    ].join('\n'),
+  ).run(
+    site,
+    entity,
+    scope,
+    now,
+    options.full ? now : 0,
+    options.maxTimemodified || 0,
+    options.full ? 1 : 0,
+  );
+}
+
+// `since` for an incremental fetch, or null when the scope is due a full sync
+export function incrementalSince(
+  site: string,
+  entity: MirrorEntity,
+  scope: string,
+): number | null {
+  const state = getSyncState(site, entity, scope);
+  if (
+    !state ||
+    !state.fullSyncedAt ||
+    Date.now() - state.fullSyncedAt > FULL_SYNC_INTERVAL
+  ) {
+    return null;
+  }
+  return state.maxTimemodified;
+}
+
+function readSnapshot<T>(
+  site: string,
+  entity: MirrorEntity,
+  scope: string,
+  sql: string,
+  params: unknown[],
+): MirrorSnapshot<T[]> | null {
+  const state = getSyncState(site, entity, scope);
+  if (!state) return null;
+
+  const rows = executeQuery<DataRow>(sql, params) as DataRow[];
+  return {
+    data: rows.map((row) => JSON.parse(row.data) as T),
+    syncedAt: state.syncedAt,
+  };
+}
+
+/* ------------------------------------------------------------------------ */
+/* Courses, users and course modules: replaced as a whole on every sync     */
+/* ------------------------------------------------------------------------ */
+
+export function saveCourses(
+  site: string,
+  courses: Array<{ id: string | number; timemodified?: number }>,
+) {
+  safely('courses', () =>
+    executeTransaction((db) => {
+      db.prepare('delete from moodle_courses where site = ?').run(site);
+      const insert = db.prepare(
+        'insert into moodle_courses (site, course_id, data, timemodified, synced_at) values (?, ?, ?, ?, ?)',
+      );
+      const now = Date.now();
+      courses.forEach((course) =>
+        insert.run(
+          site,
+          String(course.id),
+          JSON.stringify(course),
+          course.timemodified || 0,
+          now,
+        ),
+      );
+      markSynced(db, site, 'courses', '', { full: true });
+    }),
+  );
+}
+
+export const readCourses = <T>(site: string) =>
+  readSnapshot<T>(
+    site,
+    'courses',
+    '',
+    'select data from moodle_courses where site = ? order by rowid',
+    [site],
+  );
+
+export function saveCourseUsers(
+  site: string,
+  courseId: string,
+  users: Array<{ id: string | number }>,
+) {
+  safely('enrolled users', () =>
+    executeTransaction((db) => {
+      db.prepare(
+        'delete from moodle_course_users where site = ? and course_id = ?',
+      ).run(site, courseId);
+      const insert = db.prepare(
+        'insert into moodle_course_users (site, course_id, user_id, data, synced_at) values (?, ?, ?, ?, ?)',
+      );
+      const now = Date.now();
+      users.forEach((user) =>
+        insert.run(site, courseId, String(user.id), JSON.stringify(user), now),
+      );
+      markSynced(db, site, 'users', courseId, { full: true });
+    }),
+  );
+}
+
+export const readCourseUsers = <T>(site: string, courseId: string) =>
+  readSnapshot<T>(
+    site,
+    'users',
+    courseId,
+    'select data from moodle_course_users where site = ? and course_id = ? order by rowid',
+    [site, courseId],
+  );
+
+export function saveCourseModules(
+  site: string,
+  courseId: string,
+  modules: Array<{ id: string | number }>,
+) {
+  safely('course modules', () =>
+    executeTransaction((db) => {
+      db.prepare(
+        'delete from moodle_course_modules where site = ? and course_id = ?',
+      ).run(site, courseId);
+      const insert = db.prepare(
+        'insert or replace into moodle_course_modules (site, course_id, module_id, position, data, synced_at) values (?, ?, ?, ?, ?, ?)',
+      );
+      const now = Date.now();
+      modules.forEach((module, position) =>
+        insert.run(
+          site,
+          courseId,
+          String(module.id),
+          position,
+          JSON.stringify(module),
+          now,
+        ),
+      );
+      markSynced(db, site, 'modules', courseId, { full: true });
+    }),
+  );
+}
+
+export const readCourseModules = <T>(site: string, courseId: string) =>
+  readSnapshot<T>(
+    site,
+    'modules',
+    courseId,
+    'select data from moodle_course_modules where site = ? and course_id = ? order by position',
+    [site, courseId],
+  );
+
+/* ------------------------------------------------------------------------ */
+/* Assignments: only rows whose timemodified moved are rewritten            */
+/* ------------------------------------------------------------------------ */
+
+export function saveAssignments(
+  site: string,
+  courseId: string,
+  kind: AssignmentKind,
+  assignments: Array<{ id: string | number; timemodified?: number }>,
+) {
+  safely('assignments', () =>
+    executeTransaction((db) => {
+      const existing = new Map(
+        (
+          db
+            .prepare(
+              'select assignment_id, timemodified from moodle_assignments where site = ? and course_id = ? and kind = ?',
+            )
+            .all(site, courseId, kind) as Array<{
+            assignment_id: string;
+            timemodified: number;
+          }>
+        ).map((row) => [row.assignment_id, row.timemodified]),
+      );
+
+      const upsert = db.prepare(
+        [
+          'insert into moodle_assignments (site, course_id, assignment_id, kind, data, timemodified, synced_at)',
+          'values (?, ?, ?, ?, ?, ?, ?)',
+          'on conflict (site, assignment_id) do update set',
+          '  course_id = excluded.course_id, kind = excluded.kind, data = excluded.data,',
+          '  timemodified = excluded.timemodified, synced_at = excluded.synced_at',
+        ].join('\n'),
+      );
+      const now = Date.now();
+      let maxTimemodified = 0;
+      assignments.forEach((assignment) => {
+        const id = String(assignment.id);
+        const timemodified = assignment.timemodified || 0;
+        maxTimemodified = Math.max(maxTimemodified, timemodified);
+        // Unchanged since the last sync (0 means Moodle did not say, so always rewrite)
+        if (timemodified && existing.get(id) === timemodified) {
+          existing.delete(id);
+          return;
+        }
+        existing.delete(id);
+        upsert.run(
+          site,
+          courseId,
+          id,
+          kind,
+          JSON.stringify(assignment),
+          timemodified,
+          now,
+        );
+      });
+
+      // Whatever is left was deleted or hidden in Moodle
+      const remove = db.prepare(
+        'delete from moodle_assignments where site = ? and assignment_id = ?',
+      );
+      existing.forEach((_, id) => remove.run(site, id));
+
+      markSynced(db, site, 'assignments', `${courseId}:${kind}`, {
+        full: true,
+        maxTimemodified,
+      });
+    }),
+  );
+}
+
+export const readAssignments = <T>(
+  site: string,
+  courseId: string,
+  kind: AssignmentKind,
+) =>
+  readSnapshot<T>(
+    site,
+    'assignments',
+    `${courseId}:${kind}`,
+    'select data from moodle_assignments where site = ? and course_id = ? and kind = ? order by rowid',
+    [site, courseId, kind],
+  );
+
+/* ------------------------------------------------------------------------ */
+/* Submissions and grades: merged per student, incrementally                */
+/* ------------------------------------------------------------------------ */
+
+const USER_RECORD_TABLES = {
+  submissions: 'moodle_submissions',
+  grades: 'moodle_grades',
+} as const;
+
+/**
+ * Merge submissions or grades of one assignment into the mirror. A full
+ * sync replaces what was there; an incremental one (fetched with `since`)
+ * only upserts the students that changed.
+ */
+export function mergeUserRecords(
+  site: string,
+  entity: keyof typeof USER_RECORD_TABLES,
+  assignmentId: string,
+  records: UserRecord[],
+  options: { full: boolean },
+) {
+  const table = USER_RECORD_TABLES[entity];
+  safely(entity, () =>
+    executeTransaction((db) => {
+      if (options.full) {
+        db.prepare(
+          `delete from ${table} where site = ? and assignment_id = ?`,
+        ).run(site, assignmentId);
+      }
+      const upsert = db.prepare(
+        [
+          `insert into ${table} (site, assignment_id, user_id, data, timemodified, synced_at) values (?, ?, ?, ?, ?, ?)`,
+          'on conflict (site, assignment_id, user_id) do update set',
+          '  data = excluded.data, timemodified = excluded.timemodified, synced_at = excluded.synced_at',
+        ].join('\n'),
+      );
+      const now = Date.now();
+      let maxTimemodified = 0;
+      records.forEach((record) => {
+        maxTimemodified = Math.max(maxTimemodified, record.timemodified || 0);
+        upsert.run(
+          site,
+          assignmentId,
+          userRecordKey(record),
+          JSON.stringify(record),
+          record.timemodified || 0,
+          now,
+        );
+      });
+      markSynced(db, site, entity, assignmentId, {
+        full: options.full,
+        maxTimemodified,
+      });
+    }),
+  );
+}
+
+export const readUserRecords = <T>(
+  site: string,
+  entity: keyof typeof USER_RECORD_TABLES,
+  assignmentId: string,
+) =>
+  readSnapshot<T>(
+    site,
+    entity,
+    assignmentId,
+    `select data from ${USER_RECORD_TABLES[entity]} where site = ? and assignment_id = ? order by user_id`,
+    [site, assignmentId],
+  );
+
+/* ------------------------------------------------------------------------ */
+/* IPC                                                                      */
+/* ------------------------------------------------------------------------ */
+
+export function setupMoodleMirrorHandlers() {
+  // Courses as last synced, for showing the course list before Moodle answers
+  ipcMain.handle(
+    'moodle:mirror:get-courses',
+    async (event, args: { baseUrl: string }) => {
+      try {
+        return { success: true, data: readCourses(siteKey(args.baseUrl)) };
+      } catch (error: any) {
+        console.error('[Moodle Mirror] Error reading courses:', error.message);
+        return {
+          success: false,
+          error: error.message || 'Failed to read mirrored courses',
+        };
+      }
+    },
+  );
+
+  // Everything CourseView needs for a course, or null when the course was never synced
+  ipcMain.handle(
+    'moodle:mirror:get-course-content',
+    async (event, args: { baseUrl: string; courseId: string }) => {
+      try {
+        const site = siteKey(args.baseUrl);
+        const snapshots = [
+          readAssignments(site, args.courseId, 'assign'),
+          readAssignments(site, args.courseId, 'activity'),
+          readCourseUsers(site, args.courseId),
+          readCourseModules(site, args.courseId),
+        ];
+        if (snapshots.every((snapshot) => !snapshot)) {
+          return { success: true, data: null };
+        }
+
+        const [assignments, gradableActivities, students, activities] =
+          snapshots;
+        return {
+          success: true,
+          data: {
+            assignments: assignments?.data || [],
+            gradableActivities: gradableActivities?.data || [],
+            students: students?.data || [],
+            activities: activities?.data || [],
+            // The oldest part decides how fresh the course is
+            syncedAt: Math.min(
+              ...snapshots
+                .filter(Boolean)
+                .map((snapshot) => snapshot!.syncedAt),
+            ),
+          },
+        };
+      } catch (error: any) {
+        console.error(
+          '[Moodle Mirror] Error reading course content:',
+          error.message,
+        );
+        return {
+          success: false,
+          error: error.message || 'Failed to read mirrored course content',
+        };
+      }
+    },
+  );
+
+  // Submissions and grades of an assignment, quiz or forum as last synced
+  ipcMain.handle(
+    'moodle:mirror:get-assignment-data',
+    async (event, args: { baseUrl: string; assignmentId: string }) => {
+      try {
+        const site = siteKey(args.baseUrl);
+        const submissions = readUserRecords(
+          site,
+          'submissions',
+          args.assignmentId,
+        );
+        const grades = readUserRecords(site, 'grades', args.assignmentId);
+        if (!submissions && !grades) {
+          return { success: true, data: null };
+        }
+
+        return {
+          success: true,
+          data: {
+            submissions: submissions?.data || [],
+            grades: grades?.data || [],
+            syncedAt: Math.min(
+              submissions?.syncedAt ?? Infinity,
+              grades?.syncedAt ?? Infinity,
+            ),
+          },
+        };
+      } catch (error: any) {
+        console.error(
+          '[Moodle Mirror] Error reading assignment data:',
+          error.message,
+        );
+        return {
+          success: false,
+          error: error.message || 'Failed to read mirrored assignment data',
+        };
+      }
+    },
+  );
+
+  // When each entity was last synced, per course or assignment
+  ipcMain.handle(
+    'moodle:mirror:get-sync-status',
+    async (event, args: { baseUrl: string }) => {
+      try {
+        return { success: true, data: listSyncStates(siteKey(args.baseUrl)) };
+      } catch (error: any) {
+        console.error(
+          '[Moodle Mirror] Error reading sync status:',
+          error.message,
+        );
+        return {
+          success: false,
+          error: error.message || 'Failed to read sync status',
+        };
+      }
+    },
+  );
+}
@@ -0,0 +1,396 @@
+import { ipcMain } from 'electron';
+import { randomUUID } from 'crypto';
+import { decryptSecret, encryptSecret } from './credentialVault';
+import { executeQuery } from './db';
+import { clearMoodleClients } from './moodleClient';
+import { siteKey } from './moodleMirror';
+
+// Moodle connection profiles: one per site/account the user signs in to, each
+// with its own token (encrypted through the credential vault).
+// Local data that is keyed by Moodle ids (grading records, rubrics, queue jobs,
+// similarity reports, course memories) is namespaced by a profile's site scope
+// (see siteScope) so two sites' assignment 12 never share a row. The first site
+// keeps the empty scope, so data saved before profiles existed stays visible.
+
+export type MoodleLoginMethod = 'token' | 'password' | 'sso';
+
+export interface MoodleProfile {
+  id: string;
+  label: string;
+  baseUrl: string;
+  scope: string;
+  sitename?: string;
+  username?: string;
+  fullname?: string;
+  // How the token was obtained, so an expired one is renewed the same way
+  loginMethod?: MoodleLoginMethod;
+  service?: string;
+  // Moodle rejected the token; the user has to sign in again
+  expired?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StoredProfile extends MoodleProfile {
+  token: string;
+  encrypted: boolean;
+}
+
+interface ProfileStore {
+  activeProfileId: string | null;
+  // Site whose data uses the empty scope
+  legacySite: string | null;
+  profiles: StoredProfile[];
+}
+
+export interface ProfileInput {
+  id?: string;
+  label?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  sitename?: string;
+  username?: string;
+  fullname?: string;
+  loginMethod?: MoodleLoginMethod;
+  service?: string;
+  activate?: boolean;
+}
+
+const DEFAULT_BASE_URL = (
+  process.env.MOODLE_BASE_URL || 'https://moodle.onlysaid.com'
+).replace(/\/+$/, '');
+
+let cachedStore: ProfileStore | null = null;
+
+const readKv = (key: string): string | null => {
+  const rows = executeQuery<{ value: string }>(
+    "select value from kv_store where namespace = 'moodle' and key = ?",
+    [key],
+  ) as { value: string }[];
+  return Array.isArray(rows) && rows.length > 0 ? rows[0].value : null;
+};
+
+const writeKv = (key: string, value: string) => {
+  executeQuery(
+    [
+      "insert into kv_store (namespace, key, value) values ('moodle', ?, ?)",
+      'on conflict (namespace, key) do update set value = excluded.value',
+    ].join('\n'),
+    [key, value],
+  );
+};
+
+// Throws when the OS offers no encryption, so the token is never stored in plaintext
+const encryptToken = (token: string) => {
+  const { value, encrypted } = encryptSecret(token);
+  return { token: value, encrypted };
+};
+
+const decryptToken = (profile: StoredProfile): string =>
+  decryptSecret({ value: profile.token, encrypted: profile.encrypted });
+
+const toSummary = (profile: StoredProfile): MoodleProfile => ({
+  id: profile.id,
+  label: profile.label,
+  baseUrl: profile.baseUrl,
+  scope: profile.scope,
+  sitename: profile.sitename,
+  username: profile.username,
+  fullname: profile.fullname,
+  loginMethod: profile.loginMethod,
+  service: profile.service,
+  expired: profile.expired,
+  createdAt: profile.createdAt,
+  updatedAt: profile.updatedAt,
+});
+
+const hostLabel = (baseUrl: string) =>
+  siteKey(baseUrl).replace(/^[a-z]+:\/\//, '');
+
+const scopeFor = (store: ProfileStore, baseUrl: string): string => {
+  const site = siteKey(baseUrl);
+  if (!store.legacySite) store.legacySite = site;
+  if (store.legacySite === site) return '';
+  return hostLabel(baseUrl).replace(/[^a-z0-9.-]+/g, '-');
+};
+
+const writeStore = (store: ProfileStore) => {
+  writeKv('profiles', JSON.stringify(store));
+  cachedStore = store;
+};
+
+const createProfile = (
+  store: ProfileStore,
+  baseUrl: string,
+  apiKey: string,
+  details: ProfileInput = {},
+): StoredProfile => {
+  const now = new Date().toISOString();
+  const url = baseUrl.replace(/\/+$/, '');
+  return {
+    id: randomUUID(),
+    label: details.label || details.sitename || hostLabel(url),
+    baseUrl: url,
+    scope: scopeFor(store, url),
+    sitename: details.sitename,
+    username: details.username,
+    fullname: details.fullname,
+    loginMethod: details.loginMethod || 'token',
+    service: details.service,
+    createdAt: now,
+    updatedAt: now,
+    ...encryptToken(apiKey),
+  };
+};
+
+// The single plaintext config saved before profiles becomes the first profile
+const migrateLegacyConfig = (store: ProfileStore) => {
+  const legacy = readKv('config');
+  if (!legacy) return;
+  try {
+    const config = JSON.parse(legacy) as { baseUrl?: string; apiKey?: string };
+    if (config.apiKey) {
+      const profile = createProfile(
+        store,
+        config.baseUrl || DEFAULT_BASE_URL,
+        config.apiKey,
+      );
+      store.profiles.push(profile);
+      store.activeProfileId = profile.id;
+    }
+    writeStore(store);
+    executeQuery(
+      "delete from kv_store where namespace = 'moodle' and key = 'config'",
+    );
+    console.log('[Moodle Profiles] Migrated saved Moodle config to a profile');
+  } catch (error: any) {
+    console.error(
+      '[Moodle Profiles] Could not migrate saved config:',
+      error.message,
+    );
+  }
+};
+
+const readStore = (): ProfileStore => {
+  if (cachedStore) return cachedStore;
+  const saved = readKv('profiles');
+  const store: ProfileStore = saved
+    ? JSON.parse(saved)
+    : { activeProfileId: null, legacySite: null, profiles: [] };
+  if (!saved) migrateLegacyConfig(store);
+  cachedStore = store;
+  return store;
+};
+
+const activeProfile = (store = readStore()) =>
+  store.profiles.find((p) => p.id === store.activeProfileId) || null;
+
+// Scope of the active profile's site ('' for the first site)
+export function activeSiteScope(): string {
+  try {
+    return activeProfile()?.scope || '';
+  } catch (error: any) {
+    console.error('[Moodle Profiles] Could not read profiles:', error.message);
+    return '';
+  }
+}
+
+export function getActiveConfig() {
+  const profile = activeProfile();
+  if (!profile) return { baseUrl: DEFAULT_BASE_URL, apiKey: '' };
+  return {
+    baseUrl: profile.baseUrl,
+    apiKey: decryptToken(profile),
+    profile: toSummary(profile),
+  };
+}
+
+// The active connection as the renderer sees it: whether there is a token, never the token
+export function getActiveConfigSummary() {
+  const { apiKey, ...config } = getActiveConfig();
+  return { ...config, hasToken: !!apiKey };
+}
+
+// Token for a site or one of its file URLs, so the renderer never has to hold one.
+// The active profile wins when several profiles are for the same site.
+export function getSiteToken(url: string): string {
+  const store = readStore();
+  const target = siteKey(url);
+  const profile = [activeProfile(store), ...store.profiles].find((p) => {
+    if (!p) return false;
+    const site = siteKey(p.baseUrl);
+    return target === site || target.startsWith(`${site}/`);
+  });
+  return profile ? decryptToken(profile) : '';
+}
+
+export function saveProfile(input: ProfileInput): MoodleProfile {
+  const store = readStore();
+  const existing = input.id
+    ? store.profiles.find((p) => p.id === input.id)
+    : null;
+  if (input.id && !existing) throw new Error('Moodle profile not found');
+
+  let profile: StoredProfile;
+  if (existing) {
+    const baseUrl = (input.baseUrl || existing.baseUrl).replace(/\/+$/, '');
+    profile = {
+      ...existing,
+      label: input.label || existing.label,
+      baseUrl,
+      scope:
+        siteKey(baseUrl) === siteKey(existing.baseUrl)
+          ? existing.scope
+          : scopeFor(store, baseUrl),
+      sitename: input.sitename ?? existing.sitename,
+      username: input.username ?? existing.username,
+      fullname: input.fullname ?? existing.fullname,
+      loginMethod: input.loginMethod ?? existing.loginMethod,
+      service: input.service ?? existing.service,
+      updatedAt: new Date().toISOString(),
+      // A new token replaces the expired one
+      ...(input.apiKey !== undefined
+        ? { ...encryptToken(input.apiKey), expired: false }
+        : {}),
+    };
+  } else {
+    if (!input.baseUrl) throw new Error('Moodle URL is required');
+    profile = createProfile(store, input.baseUrl, input.apiKey || '', input);
+  }
+
+  const next: ProfileStore = {
+    ...store,
+    profiles: existing
+      ? store.profiles.map((p) => (p.id === profile.id ? profile : p))
+      : [...store.profiles, profile],
+    activeProfileId:
+      input.activate || !store.activeProfileId
+        ? profile.id
+        : store.activeProfileId,
+  };
+  writeStore(next);
+  clearMoodleClients();
+  return toSummary(profile);
+}
+
+// Save-config on the single-connection flow edits the active profile
+export function saveActiveConfig(baseUrl: string, apiKey: string) {
+  const profile = activeProfile();
+  return saveProfile({ id: profile?.id, baseUrl, apiKey });
+}
+
+// The profile holding this site's token, if any
+export function findProfileByToken(baseUrl: string, token: string) {
+  const profile = readStore().profiles.find(
+    (p) => siteKey(p.baseUrl) === siteKey(baseUrl) && decryptToken(p) === token,
+  );
+  return profile ? toSummary(profile) : null;
+}
+
+// A profile for this site and Moodle user, to sign in to again
+export function findProfileByUser(baseUrl: string, username: string) {
+  const profile = readStore().profiles.find(
+    (p) => siteKey(p.baseUrl) === siteKey(baseUrl) && p.username === username,
+  );
+  return profile ? toSummary(profile) : null;
+}
+
+export function markProfileExpired(id: string) {
+  const store = readStore();
+  writeStore({
+    ...store,
+    profiles: store.profiles.map((p) =>
+      p.id === id ? { ...p, expired: true } : p,
+    ),
+  });
+}
+
+export function removeProfile(id: string) {
+  const store = readStore();
+  const profiles = store.profiles.filter((p) => p.id !== id);
+  writeStore({
+    ...store,
+    profiles,
+    activeProfileId:
+      store.activeProfileId === id
+        ? profiles[0]?.id || null
+        : store.activeProfileId,
+  });
+  clearMoodleClients();
+}
+
+export function activateProfile(id: string) {
+  const store = readStore();
+  if (!store.profiles.some((p) => p.id === id)) {
+    throw new Error('Moodle profile not found');
+  }
+  writeStore({ ...store, activeProfileId: id });
+  clearMoodleClients();
+  return getActiveConfigSummary();
+}
+
+export function listProfiles() {
+  const store = readStore();
+  return {
+    activeProfileId: store.activeProfileId,
+    profiles: store.profiles.map(toSummary),
+  };
+}
+
+// Profile IPC handlers; tokens never leave the main process
+export function setupMoodleProfileHandlers() {
+  ipcMain.handle('moodle:profiles:list', async () => {
+    try {
+      return { success: true, data: listProfiles() };
+    } catch (error: any) {
+      console.error('[Moodle Profiles] Error listing profiles:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to list Moodle profiles',
+      };
+    }
+  });
+
+  ipcMain.handle('moodle:profiles:save', async (event, args: ProfileInput) => {
+    try {
+      return { success: true, data: saveProfile(args) };
+    } catch (error: any) {
+      console.error('[Moodle Profiles] Error saving profile:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to save Moodle profile',
+      };
+    }
+  });
+
+  ipcMain.handle(
+    'moodle:profiles:remove',
+    async (event, args: { id: string }) => {
+      try {
+        removeProfile(args.id);
+        return { success: true, data: listProfiles() };
+      } catch (error: any) {
+        console.error('[Moodle Profiles] Error removing profile:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to remove Moodle profile',
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'moodle:profiles:activate',
+    async (event, args: { id: string }) => {
+      try {
+        return { success: true, data: activateProfile(args.id) };
+      } catch (error: any) {
+        console.error('[Moodle Profiles] Error switching profile:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to switch Moodle profile',
+        };
+      }
+    },
+  );
+}
@@ -4,7 +4,7 @@ import path from 'path';
 import mammoth from 'mammoth';
 
 // Function to add custom element indexing to HTML
-function addElementIndexing(html: string): { indexedHtml: string; elementCounts: any } {
+export function addElementIndexing(html: string): { indexedHtml: string; elementCounts: any } {
   const elementCounts = {
     paragraph: 0,
     heading1: 0,
@@ -111,9 +111,179 @@ function addElementIndexing(html: string): { indexedHtml: string; elementCounts:
 }
 
 
+// Rubric structure extracted from docx tables (mirrors Rubric in renderer/types/grading.d.ts)
+export interface ExtractedRubricLevel {
+  id: string;
+  label: string;
+  points: number;
+  descriptor: string;
+}
+
+export interface ExtractedRubricCriterion {
+  id: string;
+  name: string;
+  description?: string;
+  maxScore: number;
+  levels: ExtractedRubricLevel[];
+}
+
+export interface ExtractedRubric {
+  criteria: ExtractedRubricCriterion[];
+  source: 'docx';
+}
+
+const LEVEL_KEYWORDS = /(excellent|exemplary|outstanding|very good|good|proficient|satisfactory|adequate|developing|fair|basic|limited|poor|weak|needs improvement|unsatisfactory|beginning|emerging|distinction|credit|pass|fail|high distinction|level \d)/i;
+const POINTS_HEADER = /^(max(imum)?\s*)?(points?|pts|marks?|score|weight(ing)?|%|percentage)\b/i;
+const DESCRIPTION_HEADER = /^(description|descriptors?|details|requirements?)\b/i;
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+// Pull a point value out of text like "Excellent (16-20)", "20 marks" or "[10 pts]" - ranges use the upper bound
+function extractPoints(text: string): number | null {
+  const range = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/);
+  if (range) return parseFloat(range[2]);
+  const labelled = text.match(/(\d+(?:\.\d+)?)\s*(?:points?|pts|marks?|%)/i);
+  if (labelled) return parseFloat(labelled[1]);
+  const bracketed = text.match(/[([]\s*(\d+(?:\.\d+)?)\s*[)\]]/);
+  if (bracketed) return parseFloat(bracketed[1]);
+  const bare = text.trim().match(/^(\d+(?:\.\d+)?)$/);
+  return bare ? parseFloat(bare[1]) : null;
+}
+
+function stripPoints(text: string): string {
+  return text
+    .replace(/[([]\s*\d+(?:\.\d+)?\s*(?:(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*(?:points?|pts|marks?|%)?\s*[)\]]/gi, '')
+    .replace(/\d+(?:\.\d+)?\s*(?:points?|pts|marks?)/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseTableRows(tableHtml: string): string[][] {
+  const rows: string[][] = [];
+  const rowMatches = tableHtml.match(/<tr[^>]*>[\s\S]*?<\/tr>/gi) || [];
+  rowMatches.forEach((rowHtml) => {
+    const cells = (rowHtml.match(/<t[dh][^>]*>[\s\S]*?<\/t[dh]>/gi) || []).map((cell) => stripTags(cell));
+    if (cells.some((cell) => cell.length > 0)) {
+      rows.push(cells);
+    }
+  });
+  return rows;
+}
+
+// Detect rubric tables in mammoth HTML: the first row holds level headers (optionally with
+// point values) or a points column, and each following row is one criterion
+export function extractRubricFromHtml(html: string): ExtractedRubric | null {
+  const criteria: ExtractedRubricCriterion[] = [];
+  const tables = html.match(/<table[^>]*>[\s\S]*?<\/table>/gi) || [];
+
+  tables.forEach((tableHtml) => {
+    const rows = parseTableRows(tableHtml);
+    if (rows.length < 2) return;
+
+    const header = rows[0];
+    const pointsCol = header.findIndex((cell, index) => index > 0 && POINTS_HEADER.test(cell));
+    const descriptionCol = header.findIndex((cell, index) => index > 0 && DESCRIPTION_HEADER.test(cell));
+    const levelCols = header
+      .map((cell, index) => index)
+      .filter((index) => index > 0 && index !== pointsCol && index !== descriptionCol);
+    const looksLikeLevels = levelCols.filter((index) =>
+      LEVEL_KEYWORDS.test(header[index]) || extractPoints(header[index]) !== null
+    ).length >= 2;
+
+    if (pointsCol === -1 && !looksLikeLevels) return;
+
+    rows.slice(1).forEach((row) => {
+      const rawName = row[0] || '';
+      if (!rawName || /^(total|overall|grand total)\b/i.test(rawName)) return;
+
+      const criterionIndex = criteria.length;
+      const levels: ExtractedRubricLevel[] = looksLikeLevels
+        ? levelCols.map((colIndex, levelIndex) => {
+          const descriptor = row[colIndex] || '';
+          const points = extractPoints(header[colIndex]) ?? extractPoints(descriptor) ?? 0;
+          return {
+            id: `level-${criterionIndex}-${levelIndex}`,
+            label: stripPoints(header[colIndex]) || `Level ${levelIndex + 1}`,
+            points,
+            descriptor,
+          };
+        })
+        : [];
+
+      const maxFromColumn = pointsCol !== -1 ? extractPoints(row[pointsCol] || '') : null;
+      const maxFromName = extractPoints(rawName);
+      const maxFromLevels = levels.length > 0 ? Math.max(...levels.map((level) => level.points)) : 0;
+      const maxScore = maxFromColumn ?? maxFromName ?? maxFromLevels;
+      const nameLines = rawName.split('\n');
+
+      // Shared level headers may use a different scale than this criterion's own maximum
+      if (maxFromLevels > 0 && maxScore > 0 && maxScore !== maxFromLevels) {
+        levels.forEach((level) => {
+          level.points = Math.round((level.points / maxFromLevels) * maxScore * 100) / 100;
+        });
+      }
+
+      criteria.push({
+        id: `criterion-${criterionIndex}`,
+        name: stripPoints(nameLines[0]) || `Criterion ${criterionIndex + 1}`,
+        description: (descriptionCol !== -1 ? row[descriptionCol] : nameLines.slice(1).join(' ')) || undefined,
+        maxScore,
+        levels,
+      });
+    });
+  });
+
+  if (criteria.length === 0) {
+    return null;
+  }
+
+  // No point values anywhere: fall back to spreading 100 points evenly, as the grading prompt used to
+  if (criteria.every((criterion) => !criterion.maxScore)) {
+    const evenShare = Math.round((100 / criteria.length) * 100) / 100;
+    criteria.forEach((criterion) => {
+      criterion.maxScore = evenShare;
+    });
+  }
+
+  return { criteria, source: 'docx' };
+}
+
+// Parse a DOCX file on disk into text plus element-indexed HTML
+export async function parseDocxFile(filePath: string, options: { extractRubric?: boolean } = {}) {
+  const result = await mammoth.extractRawText({ path: filePath });
+  const htmlResult = await mammoth.convertToHtml({ path: filePath });
+
+  // Post-process HTML to add custom indexing
+  const { indexedHtml, elementCounts } = addElementIndexing(htmlResult.value);
+
+  return {
+    text: result.value,
+    html: indexedHtml,
+    messages: result.messages || [],
+    wordCount: result.value.split(/\s+/).filter((word: string) => word.length > 0).length,
+    characterCount: result.value.length,
+    elementCounts,
+    ...(options.extractRubric ? { rubric: extractRubricFromHtml(htmlResult.value) } : {})
+  };
+}
+
 export function setupDocxHandlers() {
   // Parse DOCX file and extract text content
-  ipcMain.handle('docx:parse-file', async (event, args: { filePath: string }) => {
+  ipcMain.handle('docx:parse-file', async (event, args: { filePath: string; extractRubric?: boolean }) => {
     console.log('[DOCX] Parsing file:', args.filePath);
     
     if (!mammoth) {
@@ -133,26 +303,12 @@ export function setupDocxHandlers() {
         };
       }
       
-      // Read and parse DOCX file
-      const result = await mammoth.extractRawText({ path: args.filePath });
-      const htmlResult = await mammoth.convertToHtml({ path: args.filePath });
-      
-      // Post-process HTML to add custom indexing
-      const { indexedHtml, elementCounts } = addElementIndexing(htmlResult.value);
-      
-      const wordCount = result.value.split(/\s+/).filter((word: string) => word.length > 0).length;
-      console.log('[DOCX] Parsed successfully - Words:', wordCount, 'Characters:', result.value.length);
-      
+      const content = await parseDocxFile(args.filePath, { extractRubric: args.extractRubric });
+      console.log('[DOCX] Parsed successfully - Words:', content.wordCount, 'Characters:', content.characterCount);
+
       return {
         success: true,
-        content: {
-          text: result.value,
-          html: indexedHtml,
-          messages: result.messages || [],
-          wordCount,
-          characterCount: result.value.length,
-          elementCounts: elementCounts
-        }
+        content
       };
     } catch (error: any) {
       console.error('[DOCX] Error parsing file:', error.message);
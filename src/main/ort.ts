@@ -23,7 +23,7 @@ const initializeORT = async () => {
 };
 
 // Load a model from file path
-const loadModel = async (modelPath: string): Promise<ort.InferenceSession | null> => {
+export const loadModel = async (modelPath: string): Promise<ort.InferenceSession | null> => {
   try {
     // Check cache first
     if (modelCache.has(modelPath)) {
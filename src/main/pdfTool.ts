@@ -173,6 +173,175 @@ async function configurePdfJsWorker() {
   }
 }
 
+export interface ParsePdfToJsonOptions {
+  filePath: string;
+  includeText?: boolean;
+  includeMetadata?: boolean;
+  includeStructure?: boolean;
+}
+
+// Parse PDF to AI-friendly JSON format optimized for highlighting and commenting
+export async function parsePdfToJson(args: ParsePdfToJsonOptions): Promise<any> {
+  // Ensure PDF.js is loaded
+  if (!pdfjsLib) {
+    throw new Error('PDF.js library not loaded');
+  }
+
+  if (!fs.existsSync(args.filePath)) {
+    throw new Error('PDF file not found');
+  }
+
+  const pdfBuffer = fs.readFileSync(args.filePath);
+
+  // Convert Buffer to Uint8Array for PDF.js
+  const pdfBytes = new Uint8Array(pdfBuffer);
+
+  // Load PDF with PDF.js
+  const loadingTask = pdfjsLib.getDocument({ data: pdfBytes });
+  const pdfDocument = await loadingTask.promise;
+
+  // Create AI-friendly structure optimized for highlighting and processing
+  const aiOptimizedStructure: any = {
+    document: {
+      filePath: args.filePath,
+      totalPages: pdfDocument.numPages,
+      fileSize: pdfBuffer.length,
+      parsedAt: new Date().toISOString()
+    },
+    elements: [], // Flat array of all text elements with indices
+    pages: {},   // Page-indexed text content
+  };
+
+  // Extract metadata if requested (simplified for AI)
+  if (args.includeMetadata !== false) {
+    try {
+      const metadata = await pdfDocument.getMetadata();
+      const info: any = metadata.info;
+      aiOptimizedStructure.document.metadata = {
+        title: info?.Title || '',
+        author: info?.Author || '',
+        subject: info?.Subject || ''
+      };
+    } catch (metaError) {
+      console.warn('[PDF Parser] Could not extract metadata:', metaError);
+      aiOptimizedStructure.document.metadata = { error: 'Could not extract metadata' };
+    }
+  }
+
+  let globalElementIndex = 0;
+
+  // Extract page structure and text content (AI-optimized)
+  for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
+    try {
+      const page = await pdfDocument.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1.0 });
+
+      // Initialize page data
+      aiOptimizedStructure.pages[`page_${pageNum}`] = {
+        pageNumber: pageNum,
+        dimensions: {
+          width: viewport.width,
+          height: viewport.height
+        },
+        elementCount: 0,
+        fullText: ''
+      };
+
+      // Extract text content if requested
+      if (args.includeText !== false) {
+        try {
+          const textContent = await page.getTextContent();
+
+          if (textContent.items.length > 0) {
+            const pageElements: any[] = [];
+            let pageText = '';
+
+            // Process each text item and create AI-friendly elements
+            textContent.items.forEach((item: any, itemIndex: number) => {
+              if (item.str && item.str.trim()) {
+                const elementId = `page_${pageNum}_element_${itemIndex}`;
+
+                // Create AI-friendly element structure
+                const element = {
+                  elementId: elementId,
+                  globalIndex: globalElementIndex++,
+                  pageNumber: pageNum,
+                  localIndex: itemIndex,
+                  content: {
+                    text: item.str,
+                    type: classifyTextType(item.str),
+                    length: item.str.length,
+                    wordCount: item.str.split(/\s+/).length
+                  },
+                  position: {
+                    x: item.transform[4],
+                    y: item.transform[5],
+                    width: item.width,
+                    height: item.height
+                  },
+                  style: {
+                    fontName: item.fontName || 'unknown',
+                    fontSize: item.height || 12
+                  },
+                  context: {
+                    hasEOL: item.hasEOL || false,
+                    transform: item.transform
+                  }
+                };
+
+                pageElements.push(element);
+                aiOptimizedStructure.elements.push(element);
+                pageText += item.str + ' ';
+              }
+            });
+
+            // Store page summary
+            aiOptimizedStructure.pages[`page_${pageNum}`].elementCount = pageElements.length;
+            aiOptimizedStructure.pages[`page_${pageNum}`].fullText = pageText.trim();
+            aiOptimizedStructure.pages[`page_${pageNum}`].elements = pageElements.map(el => el.elementId);
+          }
+
+        } catch (textError: any) {
+          console.warn(`[PDF Parser] Could not extract text from page ${pageNum}:`, textError);
+          aiOptimizedStructure.pages[`page_${pageNum}`].error = textError.message || 'Text extraction failed';
+        }
+      }
+
+    } catch (pageError: any) {
+      console.error(`[PDF Parser] Error processing page ${pageNum}:`, pageError);
+      aiOptimizedStructure.pages[`page_${pageNum}`] = {
+        pageNumber: pageNum,
+        error: pageError.message || 'Page processing failed',
+        elementCount: 0,
+        fullText: ''
+      };
+    }
+  }
+
+  // Generate AI-friendly summary statistics
+  const totalElements = aiOptimizedStructure.elements.length;
+  const totalTextLength = aiOptimizedStructure.elements.reduce((sum: number, el: any) => sum + el.content.length, 0);
+  const totalWordCount = aiOptimizedStructure.elements.reduce((sum: number, el: any) => sum + el.content.wordCount, 0);
+
+  // Group elements by type for AI analysis
+  const elementsByType = aiOptimizedStructure.elements.reduce((acc: any, el: any) => {
+    acc[el.content.type] = (acc[el.content.type] || 0) + 1;
+    return acc;
+  }, {});
+
+  aiOptimizedStructure.summary = {
+    totalPages: pdfDocument.numPages,
+    totalElements,
+    totalTextLength,
+    totalWordCount,
+    averageElementsPerPage: Math.round(totalElements / pdfDocument.numPages),
+    elementTypes: elementsByType,
+    aiReadyFormat: true
+  };
+
+  return aiOptimizedStructure;
+}
+
 // PDF Tool handlers - comprehensive PDF reading, editing, and saving functionality
 export async function setupPdfHandlers() {
   // Configure PDF.js worker first
@@ -240,182 +409,13 @@ function setupPdfReadHandlers() {
 
 
   // Parse PDF to AI-friendly JSON format optimized for highlighting and commenting
-  ipcMain.handle('pdf:parse-to-json', async (event, args: {
-    filePath: string;
-    includeText?: boolean;
-    includeMetadata?: boolean;
-    includeStructure?: boolean;
-  }) => {
+  ipcMain.handle('pdf:parse-to-json', async (event, args: ParsePdfToJsonOptions) => {
     try {
-      // Ensure PDF.js is loaded
-      if (!pdfjsLib) {
-        return {
-          success: false,
-          error: 'PDF.js library not loaded'
-        };
-      }
-
-      if (!fs.existsSync(args.filePath)) {
-        return {
-          success: false,
-          error: 'PDF file not found'
-        };
-      }
-
-      const pdfBuffer = fs.readFileSync(args.filePath);
-
-      // Convert Buffer to Uint8Array for PDF.js
-      const pdfBytes = new Uint8Array(pdfBuffer);
-
-      // Load PDF with PDF.js
-      const loadingTask = pdfjsLib.getDocument({ data: pdfBytes });
-      const pdfDocument = await loadingTask.promise;
-
-      // Create AI-friendly structure optimized for highlighting and processing
-      const aiOptimizedStructure: any = {
-        document: {
-          filePath: args.filePath,
-          totalPages: pdfDocument.numPages,
-          fileSize: pdfBuffer.length,
-          parsedAt: new Date().toISOString()
-        },
-        elements: [], // Flat array of all text elements with indices
-        pages: {},   // Page-indexed text content
-      };
-
-      // Extract metadata if requested (simplified for AI)
-      if (args.includeMetadata !== false) {
-        try {
-          const metadata = await pdfDocument.getMetadata();
-          const info: any = metadata.info;
-          aiOptimizedStructure.document.metadata = {
-            title: info?.Title || '',
-            author: info?.Author || '',
-            subject: info?.Subject || ''
-          };
-        } catch (metaError) {
-          console.warn('[PDF Parser] Could not extract metadata:', metaError);
-          aiOptimizedStructure.document.metadata = { error: 'Could not extract metadata' };
-        }
-      }
-
-      let globalElementIndex = 0;
-
-      // Extract page structure and text content (AI-optimized)
-      for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
-        try {
-          const page = await pdfDocument.getPage(pageNum);
-          const viewport = page.getViewport({ scale: 1.0 });
-
-          // Initialize page data
-          aiOptimizedStructure.pages[`page_${pageNum}`] = {
-            pageNumber: pageNum,
-            dimensions: {
-              width: viewport.width,
-              height: viewport.height
-            },
-            elementCount: 0,
-            fullText: ''
-          };
-
-          // Extract text content if requested
-          if (args.includeText !== false) {
-            try {
-              const textContent = await page.getTextContent();
-
-              if (textContent.items.length > 0) {
-                const pageElements: any[] = [];
-                let pageText = '';
-
-                // Process each text item and create AI-friendly elements
-                textContent.items.forEach((item: any, itemIndex: number) => {
-                  if (item.str && item.str.trim()) {
-                    const elementId = `page_${pageNum}_element_${itemIndex}`;
-
-                    // Create AI-friendly element structure
-                    const element = {
-                      elementId: elementId,
-                      globalIndex: globalElementIndex++,
-                      pageNumber: pageNum,
-                      localIndex: itemIndex,
-                      content: {
-                        text: item.str,
-                        type: classifyTextType(item.str),
-                        length: item.str.length,
-                        wordCount: item.str.split(/\s+/).length
-                      },
-                      position: {
-                        x: item.transform[4],
-                        y: item.transform[5],
-                        width: item.width,
-                        height: item.height
-                      },
-                      style: {
-                        fontName: item.fontName || 'unknown',
-                        fontSize: item.height || 12
-                      },
-                      context: {
-                        hasEOL: item.hasEOL || false,
-                        transform: item.transform
-                      }
-                    };
-
-                    pageElements.push(element);
-                    aiOptimizedStructure.elements.push(element);
-                    pageText += item.str + ' ';
-                  }
-                });
-
-                // Store page summary
-                aiOptimizedStructure.pages[`page_${pageNum}`].elementCount = pageElements.length;
-                aiOptimizedStructure.pages[`page_${pageNum}`].fullText = pageText.trim();
-                aiOptimizedStructure.pages[`page_${pageNum}`].elements = pageElements.map(el => el.elementId);
-              }
-
-            } catch (textError: any) {
-              console.warn(`[PDF Parser] Could not extract text from page ${pageNum}:`, textError);
-              aiOptimizedStructure.pages[`page_${pageNum}`].error = textError.message || 'Text extraction failed';
-            }
-          }
-
-        } catch (pageError: any) {
-          console.error(`[PDF Parser] Error processing page ${pageNum}:`, pageError);
-          aiOptimizedStructure.pages[`page_${pageNum}`] = {
-            pageNumber: pageNum,
-            error: pageError.message || 'Page processing failed',
-            elementCount: 0,
-            fullText: ''
-          };
-        }
-      }
-
-      // Generate AI-friendly summary statistics
-      const totalElements = aiOptimizedStructure.elements.length;
-      const totalTextLength = aiOptimizedStructure.elements.reduce((sum: number, el: any) => sum + el.content.length, 0);
-      const totalWordCount = aiOptimizedStructure.elements.reduce((sum: number, el: any) => sum + el.content.wordCount, 0);
-
-      // Group elements by type for AI analysis
-      const elementsByType = aiOptimizedStructure.elements.reduce((acc: any, el: any) => {
-        acc[el.content.type] = (acc[el.content.type] || 0) + 1;
-        return acc;
-      }, {});
-
-      aiOptimizedStructure.summary = {
-        totalPages: pdfDocument.numPages,
-        totalElements,
-        totalTextLength,
-        totalWordCount,
-        averageElementsPerPage: Math.round(totalElements / pdfDocument.numPages),
-        elementTypes: elementsByType,
-        aiReadyFormat: true
-      };
-
-
+      const data = await parsePdfToJson(args);
       return {
         success: true,
-        data: aiOptimizedStructure
+        data
       };
-
     } catch (error: any) {
       console.error('[PDF Tool] Error parsing PDF to JSON:', error);
       return {
@@ -19,11 +19,13 @@ export type Channels =
   | 'chat:agent:plan'
   | 'chat:agent:todos'
   | 'chat:agent:todo-update'
+  | 'chat:agent:approval-request'
   | 'moodle:test-connection'
   | 'moodle:save-config'
   | 'moodle:get-config'
   | 'moodle:clear-config'
   | 'moodle:get-preset-url'
+  | 'moodle:session-expired'
   | 'alert:toast'
   | 'translate:text'
   | 'translate:detect-language'
@@ -0,0 +1,580 @@
+import { ipcMain } from 'electron';
+import { executeQuery, executeTransaction } from './db';
+import { requireSite, scopedId } from './siteScope';
+
+// Cross-submission similarity within an assignment. Submissions are split into
+// word shingles, compared with MinHash signatures, and pairs above the review
+// threshold get their shared passages located for the preview. Runs locally on
+// the parsed submission texts cached in submission_texts, keyed by the
+// site-scoped assignment id.
+
+const DEFAULT_SHINGLE_SIZE = 5;
+const DEFAULT_THRESHOLD = 0.4;
+const SIGNATURE_SIZE = 128;
+// Pairs below this are left out of the pair list (they stay in the matrix)
+const MIN_REPORTED_SIMILARITY = 0.1;
+const MAX_REPORTED_PAIRS = 50;
+// Shared runs shorter than this many tokens are not shown as passages
+const MIN_PASSAGE_TOKENS = 8;
+// Shingles in more than this share of submissions are treated as template text
+const COMMON_SHINGLE_RATIO = 0.5;
+const COMMON_SHINGLE_MIN_SUBMISSIONS = 4;
+
+export interface SimilarityPassage {
+  elementType: string;
+  elementIndex: number;
+  text: string;
+}
+
+export interface SimilarityPair {
+  studentA: string;
+  studentB: string;
+  similarity: number;
+  flagged: boolean;
+  passagesA: SimilarityPassage[];
+  passagesB: SimilarityPassage[];
+}
+
+export interface SimilarityReport {
+  assignmentId: string;
+  createdAt: number;
+  threshold: number;
+  shingleSize: number;
+  students: Array<{
+    studentId: string;
+    studentName: string;
+    tokenCount: number;
+  }>;
+  matrix: number[][];
+  pairs: SimilarityPair[];
+  skipped: Array<{ studentId: string; studentName: string; reason: string }>;
+}
+
+interface SubmissionElement {
+  elementType: string;
+  elementIndex: number;
+}
+
+interface TokenizedSubmission {
+  tokens: string[];
+  // Element each token came from, for mapping shared runs back to the preview
+  tokenElements: number[];
+  elements: SubmissionElement[];
+}
+
+// ---- Tokenizing ----
+
+// CJK text has no word breaks, so every ideograph/kana is a token of its own
+const TOKEN_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}])+/gu;
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(TOKEN_PATTERN) || []) as string[];
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Indexed elements of the submission HTML (see addElementIndexing)
+export function tokenizeSubmission(
+  html: string,
+  text: string,
+): TokenizedSubmission {
+  const tokens: string[] = [];
+  const tokenElements: number[] = [];
+  const elements: SubmissionElement[] = [];
+  const elementPattern = /<(p|h[1-6]|li)(\s[^>]*)?>([\s\S]*?)<\/\1>/g;
+  let match: RegExpExecArray | null;
+
+  // eslint-disable-next-line no-cond-assign
+  while ((match = elementPattern.exec(html)) !== null) {
+    const attrs = match[2] || '';
+    const type = attrs.match(/data-element-type="([^"]+)"/)?.[1];
+    const index = attrs.match(/data-element-index="(\d+)"/)?.[1];
+    if (type && index !== undefined) {
+      const elementTokens = tokenize(
+        decodeEntities(match[3].replace(/<[^>]+>/g, ' ')),
+      );
+      elements.push({ elementType: type, elementIndex: Number(index) });
+      elementTokens.forEach((token) => {
+        tokens.push(token);
+        tokenElements.push(elements.length - 1);
+      });
+    }
+  }
+
+  // Submissions without indexed elements are still compared, without passages
+  if (tokens.length === 0) {
+    return { tokens: tokenize(text), tokenElements: [], elements: [] };
+  }
+  return { tokens, tokenElements, elements };
+}
+
+// ---- MinHash ----
+
+/* eslint-disable no-bitwise */
+
+// FNV-1a, 32 bit
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// murmur3 finalizer, used as the family of hash functions for the signature
+const mix = (value: number, seed: number) => {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+/* eslint-enable no-bitwise */
+
+// Fixed seeds so signatures are comparable across runs
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) =>
+  mix(i + 1, 0x9e3779b9),
+);
+
+export const shingleHashes = (tokens: string[], size: number): number[] => {
+  if (tokens.length < size) {
+    return tokens.length > 0 ? [hashString(tokens.join(' '))] : [];
+  }
+  return Array.from({ length: tokens.length - size + 1 }, (_, i) =>
+    hashString(tokens.slice(i, i + size).join(' ')),
+  );
+};
+
+export function minhashSignature(shingles: Set<number>): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  shingles.forEach((shingle) => {
+    for (let i = 0; i < SIGNATURE_SIZE; i += 1) {
+      const value = mix(shingle, SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature;
+}
+
+// Share of equal signature slots estimates the Jaccard similarity of the shingle sets
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i += 1) {
+    if (a[i] === b[i] && a[i] !== 0xffffffff) equal += 1;
+  }
+  return equal / SIGNATURE_SIZE;
+}
+
+// Runs of tokens covered by shingles the two submissions share, per element
+function findSharedPassages(
+  submission: TokenizedSubmission,
+  shingles: number[],
+  shared: Set<number>,
+  size: number,
+): SimilarityPassage[] {
+  if (submission.elements.length === 0) return [];
+
+  const covered = new Array<boolean>(submission.tokens.length).fill(false);
+  shingles.forEach((shingle, start) => {
+    if (!shared.has(shingle)) return;
+    for (let i = start; i < Math.min(start + size, covered.length); i += 1) {
+      covered[i] = true;
+    }
+  });
+
+  const passages: SimilarityPassage[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= covered.length; i += 1) {
+    const continues =
+      i < covered.length &&
+      covered[i] &&
+      (runStart < 0 ||
+        submission.tokenElements[i] === submission.tokenElements[runStart]);
+
+    if (continues && runStart < 0) {
+      runStart = i;
+    } else if (!continues && runStart >= 0) {
+      if (i - runStart >= MIN_PASSAGE_TOKENS) {
+        const element = submission.elements[submission.tokenElements[runStart]];
+        passages.push({
+          ...element,
+          text: submission.tokens.slice(runStart, i).join(' '),
+        });
+      }
+      // A run cut at an element boundary continues in the next element
+      runStart = i < covered.length && covered[i] ? i : -1;
+    }
+  }
+  return passages;
+}
+
+/**
+ * Compare every pair of submissions. Shingles that most submissions share
+ * (the assignment's own template text) are ignored so they do not inflate
+ * the scores.
+ */
+export function compareSubmissions(
+  submissions: Array<{ studentId: string; html: string; text: string }>,
+  options: { shingleSize?: number; threshold?: number } = {},
+) {
+  const size = options.shingleSize || DEFAULT_SHINGLE_SIZE;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+
+  const tokenized = submissions.map((s) => tokenizeSubmission(s.html, s.text));
+  const shingleLists = tokenized.map((t) => shingleHashes(t.tokens, size));
+
+  const documentFrequency = new Map<number, number>();
+  shingleLists.forEach((list) => {
+    new Set(list).forEach((shingle) => {
+      documentFrequency.set(shingle, (documentFrequency.get(shingle) || 0) + 1);
+    });
+  });
+  const isCommon = (shingle: number) =>
+    submissions.length >= COMMON_SHINGLE_MIN_SUBMISSIONS &&
+    (documentFrequency.get(shingle) || 0) / submissions.length >
+      COMMON_SHINGLE_RATIO;
+
+  const shingleSets = shingleLists.map(
+    (list) => new Set(list.filter((shingle) => !isCommon(shingle))),
+  );
+  const signatures = shingleSets.map(minhashSignature);
+
+  const matrix = submissions.map(() =>
+    new Array<number>(submissions.length).fill(0),
+  );
+  const candidates: Array<{ a: number; b: number; similarity: number }> = [];
+
+  for (let a = 0; a < submissions.length; a += 1) {
+    matrix[a][a] = 1;
+    for (let b = a + 1; b < submissions.length; b += 1) {
+      const similarity =
+        Math.round(estimateSimilarity(signatures[a], signatures[b]) * 1000) /
+        1000;
+      matrix[a][b] = similarity;
+      matrix[b][a] = similarity;
+      if (similarity >= MIN_REPORTED_SIMILARITY) {
+        candidates.push({ a, b, similarity });
+      }
+    }
+  }
+
+  const pairs: SimilarityPair[] = candidates
+    .sort((x, y) => y.similarity - x.similarity)
+    .slice(0, MAX_REPORTED_PAIRS)
+    .map(({ a, b, similarity }) => {
+      const shared = new Set(
+        Array.from(shingleSets[a]).filter((shingle) =>
+          shingleSets[b].has(shingle),
+        ),
+      );
+      return {
+        studentA: submissions[a].studentId,
+        studentB: submissions[b].studentId,
+        similarity,
+        flagged: similarity >= threshold,
+        passagesA: findSharedPassages(
+          tokenized[a],
+          shingleLists[a],
+          shared,
+          size,
+        ),
+        passagesB: findSharedPassages(
+          tokenized[b],
+          shingleLists[b],
+          shared,
+          size,
+        ),
+      };
+    });
+
+  return {
+    matrix,
+    pairs,
+    tokenCounts: tokenized.map((t) => t.tokens.length),
+    threshold,
+    shingleSize: size,
+  };
+}
+
+// ---- Storage ----
+
+type SubmissionTextRow = {
+  student_id: string;
+  filename: string | null;
+  submission_modified: number | null;
+  text: string;
+  html: string;
+};
+
+// Possible-collusion flag written to each compared student's grading record
+const buildRecordFlag = (
+  report: SimilarityReport,
+  studentId: string,
+  names: Map<string, string>,
+) => {
+  const matches = report.pairs
+    .filter(
+      (pair) =>
+        pair.flagged &&
+        (pair.studentA === studentId || pair.studentB === studentId),
+    )
+    .map((pair) => {
+      const otherId =
+        pair.studentA === studentId ? pair.studentB : pair.studentA;
+      return {
+        studentId: otherId,
+        studentName: names.get(otherId) || otherId,
+        similarity: pair.similarity,
+      };
+    });
+  const index = report.students.findIndex((s) => s.studentId === studentId);
+  const maxSimilarity = Math.max(
+    0,
+    ...report.matrix[index].filter((_, i) => i !== index),
+  );
+
+  return {
+    flagged: matches.length > 0,
+    maxSimilarity,
+    matches,
+    threshold: report.threshold,
+    checkedAt: report.createdAt,
+  };
+};
+
+const saveReport = (report: SimilarityReport, scope: string) => {
+  const names = new Map(
+    report.students.map((s) => [s.studentId, s.studentName]),
+  );
+
+  const assignmentId = scopedId(report.assignmentId, scope);
+
+  executeTransaction((db) => {
+    db.prepare(
+      [
+        'insert into similarity_reports (assignment_id, report, created_at) values (?, ?, ?)',
+        'on conflict (assignment_id) do update set report = excluded.report, created_at = excluded.created_at',
+      ].join('\n'),
+    ).run(assignmentId, JSON.stringify(report), report.createdAt);
+
+    // Flags live apart from grading records so ungraded students get no record
+    db.prepare('delete from similarity_flags where assignment_id = ?').run(
+      assignmentId,
+    );
+    const writeFlag = db.prepare(
+      'insert into similarity_flags (assignment_id, student_id, flag, flagged) values (?, ?, ?, ?)',
+    );
+    report.students.forEach(({ studentId }) => {
+      const flag = buildRecordFlag(report, studentId, names);
+      writeFlag.run(
+        assignmentId,
+        studentId,
+        JSON.stringify(flag),
+        flag.flagged ? 1 : 0,
+      );
+    });
+  });
+};
+
+export function setupSimilarityHandlers() {
+  // Which submissions already have parsed text cached, and for which submission version
+  ipcMain.handle(
+    'similarity:list-cached',
+    async (event, args: { assignmentId: string; site: string }) => {
+      try {
+        const rows = executeQuery(
+          'select student_id, filename, submission_modified from submission_texts where assignment_id = ?',
+          [scopedId(args.assignmentId, requireSite(args))],
+        ) as SubmissionTextRow[];
+        return {
+          success: true,
+          data: rows.map((row) => ({
+            studentId: row.student_id,
+            filename: row.filename,
+            submissionModified: row.submission_modified,
+          })),
+        };
+      } catch (error: any) {
+        console.error('[Similarity] Error listing cached submissions:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to list cached submissions',
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'similarity:cache-submission',
+    async (
+      event,
+      args: {
+        assignmentId: string;
+        site: string;
+        studentId: string;
+        filename?: string;
+        submissionModified?: number;
+        text: string;
+        html: string;
+      },
+    ) => {
+      try {
+        executeQuery(
+          [
+            'insert into submission_texts (assignment_id, student_id, filename, submission_modified, text, html, parsed_at)',
+            'values (?, ?, ?, ?, ?, ?, ?)',
+            'on conflict (assignment_id, student_id) do update set',
+            '  filename = excluded.filename, submission_modified = excluded.submission_modified,',
+            '  text = excluded.text, html = excluded.html, parsed_at = excluded.parsed_at',
+          ].join('\n'),
+          [
+            scopedId(args.assignmentId, requireSite(args)),
+            args.studentId,
+            args.filename ?? null,
+            args.submissionModified ?? null,
+            args.text || '',
+            args.html || '',
+            Date.now(),
+          ],
+        );
+        return { success: true };
+      } catch (error: any) {
+        console.error('[Similarity] Error caching submission:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to cache submission',
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'similarity:get-submission',
+    async (
+      event,
+      args: { assignmentId: string; studentId: string; site: string },
+    ) => {
+      try {
+        const rows = executeQuery(
+          'select student_id, filename, submission_modified, text, html from submission_texts where assignment_id = ? and student_id = ?',
+          [scopedId(args.assignmentId, requireSite(args)), args.studentId],
+        ) as SubmissionTextRow[];
+        const row = rows[0];
+        return {
+          success: true,
+          data: row
+            ? { filename: row.filename, text: row.text, html: row.html }
+            : null,
+        };
+      } catch (error: any) {
+        console.error('[Similarity] Error reading cached submission:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to read cached submission',
+        };
+      }
+    },
+  );
+
+  // Compare the cached submissions of the given students and flag the grading records
+  ipcMain.handle(
+    'similarity:analyze',
+    async (
+      event,
+      args: {
+        assignmentId: string;
+        site: string;
+        students: Array<{ studentId: string; studentName: string }>;
+        threshold?: number;
+        shingleSize?: number;
+      },
+    ) => {
+      try {
+        const scope = requireSite(args);
+        const rows = executeQuery(
+          'select student_id, filename, submission_modified, text, html from submission_texts where assignment_id = ?',
+          [scopedId(args.assignmentId, scope)],
+        ) as SubmissionTextRow[];
+        const byStudent = new Map(rows.map((row) => [row.student_id, row]));
+
+        const included = args.students.filter((s) =>
+          byStudent.get(s.studentId)?.text.trim(),
+        );
+        const skipped = args.students
+          .filter((s) => !included.includes(s))
+          .map((s) => ({ ...s, reason: 'No parsed submission text' }));
+
+        if (included.length < 2) {
+          throw new Error(
+            'At least two parsed submissions are needed to compare',
+          );
+        }
+
+        const result = compareSubmissions(
+          included.map((s) => ({
+            studentId: s.studentId,
+            html: byStudent.get(s.studentId)!.html,
+            text: byStudent.get(s.studentId)!.text,
+          })),
+          { threshold: args.threshold, shingleSize: args.shingleSize },
+        );
+
+        const report: SimilarityReport = {
+          assignmentId: args.assignmentId,
+          createdAt: Date.now(),
+          threshold: result.threshold,
+          shingleSize: result.shingleSize,
+          students: included.map((s, i) => ({
+            studentId: s.studentId,
+            studentName: s.studentName,
+            tokenCount: result.tokenCounts[i],
+          })),
+          matrix: result.matrix,
+          pairs: result.pairs,
+          skipped,
+        };
+        saveReport(report, scope);
+
+        return { success: true, data: report };
+      } catch (error: any) {
+        console.error('[Similarity] Error analyzing submissions:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to compare submissions',
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'similarity:get-report',
+    async (event, args: { assignmentId: string; site: string }) => {
+      try {
+        const rows = executeQuery(
+          'select report from similarity_reports where assignment_id = ?',
+          [scopedId(args.assignmentId, requireSite(args))],
+        ) as Array<{ report: string }>;
+        return {
+          success: true,
+          data:
+            rows.length > 0
+              ? (JSON.parse(rows[0].report) as SimilarityReport)
+              : null,
+        };
+      } catch (error: any) {
+        console.error('[Similarity] Error reading report:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to read similarity report',
+        };
+      }
+    },
+  );
+}
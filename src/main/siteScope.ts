@@ -0,0 +1,33 @@
+// Site scoping of local data that is keyed by Moodle ids (see moodleProfiles).
+// Handlers take the scope of the site a request was started for, so work that
+// finishes after the user switched profiles is still saved for its own site.
+// Kept free of imports so the database handlers can use it without a cycle.
+
+// A Moodle-keyed id as stored locally for a site, e.g. '12@moodle.example.edu'
+export function scopedId(id: string | number, scope: string) {
+  return scope ? `${id}@${scope}` : String(id);
+}
+
+export function unscopedId(id: string) {
+  return id.replace(/@[^@]*$/, '');
+}
+
+// Scope of a locally stored id ('' for the first site)
+export function scopeOf(id: string) {
+  return /@([^@]*)$/.exec(id)?.[1] ?? '';
+}
+
+// SQL condition matching a site's rows in an id column
+export function siteScopeFilter(column: string, scope: string) {
+  return scope
+    ? { clause: `${column} like ?`, params: [`%@${scope}`] }
+    : { clause: `${column} not like ?`, params: ['%@%'] };
+}
+
+// The site scope sent with an IPC request; writing to a guessed site would mix two sites' data
+export function requireSite(args: { site?: unknown } | undefined): string {
+  if (typeof args?.site !== 'string') {
+    throw new Error('The Moodle site of the request is missing');
+  }
+  return args.site;
+}
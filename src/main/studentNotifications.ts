@@ -0,0 +1,271 @@
+import { ipcMain } from 'electron';
+import { ChatOpenAI } from '@langchain/openai';
+import { executeQuery, executeTransaction } from './db';
+import { getSecret } from './credentialVault';
+import { getMoodleClient, isMoodleError } from './moodleClient';
+import { siteKey } from './moodleMirror';
+import { getSiteToken } from './moodleProfiles';
+
+// Messages to students about missing or late submissions, sent as Moodle
+// instant messages. The renderer fills a template per student and shows every
+// message before it is sent; each attempt is logged in student_notifications
+// so a student is not messaged twice about the same assignment by accident.
+
+export type NotificationKind = 'missing' | 'late';
+
+export interface StudentNotification {
+  userId: string;
+  kind: NotificationKind;
+  message: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  moodleMessageId?: number;
+  sentAt: number;
+}
+
+interface NotificationRow {
+  user_id: string;
+  kind: NotificationKind;
+  message: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  moodle_message_id: number | null;
+  sent_at: number;
+}
+
+interface OutgoingMessage {
+  userId: string;
+  text: string;
+}
+
+// Moodle's FORMAT_PLAIN: line breaks kept, nothing interpreted as markup
+const PLAIN_TEXT_FORMAT = 2;
+const TEMPLATE_FIELDS = [
+  '{firstname}',
+  '{fullname}',
+  '{assignment}',
+  '{course}',
+  '{duedate}',
+];
+
+const rowToNotification = (row: NotificationRow): StudentNotification => ({
+  userId: row.user_id,
+  kind: row.kind,
+  message: row.message,
+  status: row.status,
+  error: row.error || undefined,
+  moodleMessageId: row.moodle_message_id ?? undefined,
+  sentAt: row.sent_at,
+});
+
+export function listNotifications(
+  baseUrl: string,
+  assignmentId: string,
+): StudentNotification[] {
+  const rows = executeQuery<NotificationRow>(
+    [
+      'select user_id, kind, message, status, error, moodle_message_id, sent_at',
+      'from student_notifications where site = ? and assignment_id = ?',
+      'order by sent_at desc, id desc',
+    ].join('\n'),
+    [siteKey(baseUrl), String(assignmentId)],
+  ) as NotificationRow[];
+  return rows.map(rowToNotification);
+}
+
+function logNotifications(
+  baseUrl: string,
+  target: { courseId?: string; assignmentId: string; kind: NotificationKind },
+  entries: StudentNotification[],
+) {
+  executeTransaction((db) => {
+    const insert = db.prepare(
+      [
+        'insert into student_notifications',
+        '(site, course_id, assignment_id, user_id, kind, message, moodle_message_id, status, error, sent_at)',
+        'values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      ].join(' '),
+    );
+    entries.forEach((entry) => {
+      insert.run(
+        siteKey(baseUrl),
+        target.courseId ? String(target.courseId) : null,
+        String(target.assignmentId),
+        entry.userId,
+        target.kind,
+        entry.message,
+        entry.moodleMessageId ?? null,
+        entry.status,
+        entry.error ?? null,
+        entry.sentAt,
+      );
+    });
+  });
+}
+
+export async function sendNotifications(args: {
+  baseUrl: string;
+  courseId?: string;
+  assignmentId: string;
+  kind: NotificationKind;
+  messages: OutgoingMessage[];
+}): Promise<StudentNotification[]> {
+  const sentAt = Math.floor(Date.now() / 1000);
+  const messages = args.messages.filter((m) => m.text.trim());
+  let results: StudentNotification[];
+
+  try {
+    const response = await getMoodleClient(
+      args.baseUrl,
+      getSiteToken(args.baseUrl),
+    ).call('core_message_send_instant_messages', {
+      messages: messages.map((m) => ({
+        touserid: m.userId,
+        text: m.text.trim(),
+        textformat: PLAIN_TEXT_FORMAT,
+        clientmsgid: `notify-${args.assignmentId}-${m.userId}-${sentAt}`,
+      })),
+    });
+    results = messages.map((m, index) => {
+      const result = response[index];
+      const sent = !!result && result.msgid > 0;
+      return {
+        userId: String(m.userId),
+        kind: args.kind,
+        message: m.text.trim(),
+        status: sent ? 'sent' : 'failed',
+        error: sent
+          ? undefined
+          : result?.errormessage || 'Moodle did not send the message',
+        moodleMessageId: sent ? result.msgid : undefined,
+        sentAt,
+      };
+    });
+  } catch (error: any) {
+    // Nothing was sent; keep the attempt so the teacher can see it failed
+    results = messages.map((m) => ({
+      userId: String(m.userId),
+      kind: args.kind,
+      message: m.text.trim(),
+      status: 'failed',
+      error: error.message || 'Failed to send message',
+      sentAt,
+    }));
+    logNotifications(args.baseUrl, args, results);
+    throw error;
+  }
+
+  logNotifications(args.baseUrl, args, results);
+  return results;
+}
+
+function createDraftingLlm(): ChatOpenAI {
+  const apiKey = getSecret('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new Error(
+      'An OpenAI API key is required to draft messages. Add one in Settings.',
+    );
+  }
+  return new ChatOpenAI({
+    model: process.env.OPENAI_MODEL || 'deepseek-chat',
+    temperature: 0.4,
+    streaming: false,
+    openAIApiKey: apiKey,
+    configuration: {
+      baseURL: process.env.OPENAI_BASE_URL,
+    },
+  });
+}
+
+// A reusable template with {placeholders}, filled in per student by the renderer
+export async function draftTemplate(args: {
+  kind: NotificationKind;
+  assignmentName: string;
+  courseName?: string;
+  instructions?: string;
+  language?: string;
+}): Promise<string> {
+  const situation =
+    args.kind === 'late'
+      ? 'The due date has passed and the student has not submitted yet.'
+      : 'The due date is coming up and the student has not submitted yet.';
+  const prompt = [
+    'Write a short message from a teacher to one student, sent through Moodle.',
+    situation,
+    `Assignment: ${args.assignmentName}`,
+    args.courseName ? `Course: ${args.courseName}` : '',
+    `Write it in ${args.language || 'English'}, in a supportive, professional tone, in at most 90 words.`,
+    'Use these placeholders literally, where they fit: {firstname} for the student, {assignment},',
+    '{course} and {duedate}. Start with a greeting using {firstname}. Do not sign with a name.',
+    'Return only the message text, no subject line or commentary.',
+    args.instructions ? `Teacher's instructions: ${args.instructions}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const response = await createDraftingLlm().invoke(prompt);
+  const template = response.content.toString().trim();
+  if (!template) throw new Error('The model returned an empty message');
+  if (!TEMPLATE_FIELDS.some((field) => template.includes(field))) {
+    throw new Error('The drafted message is not personalised; try again');
+  }
+  return template;
+}
+
+const errorResult = (error: any, fallback: string) => ({
+  success: false,
+  error: error?.message || fallback,
+  ...(isMoodleError(error) ? { errorcode: error.errorcode } : {}),
+});
+
+export function setupNotificationHandlers() {
+  ipcMain.handle(
+    'notifications:list',
+    async (event, args: { baseUrl: string; assignmentId: string }) => {
+      try {
+        return {
+          success: true,
+          data: listNotifications(args.baseUrl, args.assignmentId),
+        };
+      } catch (error: any) {
+        console.error('[Notifications] Error reading log:', error);
+        return errorResult(error, 'Failed to read sent messages');
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'notifications:send',
+    async (event, args: Parameters<typeof sendNotifications>[0]) => {
+      try {
+        const results = await sendNotifications(args);
+        const failed = results.filter((r) => r.status === 'failed');
+        return {
+          success: failed.length === 0,
+          data: {
+            sent: results.filter((r) => r.status === 'sent'),
+            failed,
+          },
+          ...(failed.length > 0
+            ? { error: `${failed.length} message(s) could not be sent` }
+            : {}),
+        };
+      } catch (error: any) {
+        console.error('[Notifications] Error sending messages:', error);
+        return errorResult(error, 'Failed to send messages');
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'notifications:draft-template',
+    async (event, args: Parameters<typeof draftTemplate>[0]) => {
+      try {
+        return { success: true, data: await draftTemplate(args) };
+      } catch (error: any) {
+        console.error('[Notifications] Error drafting message:', error.message);
+        return errorResult(error, 'Failed to draft message');
+      }
+    },
+  );
+}
@@ -0,0 +1,374 @@
+import { ipcMain } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { addElementIndexing, parseDocxFile } from './msftdocx';
+import { parsePdfToJson } from './pdfTool';
+import { performOcr } from './ocr';
+import { SubmissionFormat, detectSubmissionFormat } from './submissionFormats';
+
+// Student submission parsing - normalizes every supported file format into the
+// same element-indexed HTML that DocxPreview and the grading comments rely on
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Blank lines separate paragraphs, single line breaks are kept inside a paragraph
+function plainTextToHtml(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block.length > 0)
+    .map(
+      (block) => `<p>${block.split('\n').map(escapeHtml).join('<br />')}</p>`,
+    )
+    .join('\n');
+}
+
+function renderInlineMarkdown(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(.+?)__/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+// Minimal block-level markdown conversion: headings, lists, fenced code and paragraphs
+function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let listType: 'ul' | 'ol' | null = null;
+  let codeBlock: string[] | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInlineMarkdown).join('<br />')}</p>`);
+      paragraph = [];
+    }
+  };
+  const closeList = () => {
+    if (listType) {
+      html.push(`</${listType}>`);
+      listType = null;
+    }
+  };
+
+  lines.forEach((line) => {
+    if (codeBlock) {
+      if (line.trim().startsWith('```')) {
+        // Code is kept as a paragraph so it can still be anchored by index
+        html.push(
+          `<p><code>${codeBlock.map(escapeHtml).join('<br />')}</code></p>`,
+        );
+        codeBlock = null;
+      } else {
+        codeBlock.push(line);
+      }
+      return;
+    }
+
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      closeList();
+      codeBlock = [];
+      return;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (heading) {
+      flushParagraph();
+      closeList();
+      const level = heading[1].length;
+      html.push(
+        `<h${level}>${renderInlineMarkdown(heading[2].trim())}</h${level}>`,
+      );
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const type = bullet ? 'ul' : 'ol';
+      if (listType !== type) {
+        closeList();
+        html.push(`<${type}>`);
+        listType = type;
+      }
+      html.push(`<li>${renderInlineMarkdown((bullet || numbered)![1])}</li>`);
+    } else if (line.trim() === '') {
+      flushParagraph();
+      closeList();
+    } else {
+      closeList();
+      paragraph.push(line.trim());
+    }
+  });
+
+  if (codeBlock) {
+    html.push(
+      `<p><code>${(codeBlock as string[]).map(escapeHtml).join('<br />')}</code></p>`,
+    );
+  }
+  flushParagraph();
+  closeList();
+
+  return html.join('\n');
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/li|\/h[1-6]|\/div|\/tr)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Bare text outside any block element would not get an element index; blank
+// lines (double line breaks) separate its paragraphs
+export function ensureParagraphs(html: string): string {
+  if (/<(p|h[1-6]|li|table)\b/i.test(html)) return html;
+  return html
+    .split(/(?:<br\s*\/?>\s*){2,}/i)
+    .map((block) => block.trim())
+    .filter((block) => block.length > 0)
+    .map((block) => `<p>${block}</p>`)
+    .join('\n');
+}
+
+// Rebuild paragraphs from PDF.js text items: items on the same baseline form a
+// line, and a vertical gap larger than the line height starts a new paragraph.
+// Paragraph order matches the indexed <p> elements the grader comments on.
+export function groupPdfParagraphs(
+  parsed: any,
+): Array<{ pageNumber: number; text: string; elementIds: string[] }> {
+  const paragraphs: Array<{
+    pageNumber: number;
+    text: string;
+    elementIds: string[];
+  }> = [];
+  const pageKeys = Object.keys(parsed.pages || {}).sort(
+    (a, b) => parsed.pages[a].pageNumber - parsed.pages[b].pageNumber,
+  );
+
+  pageKeys.forEach((pageKey) => {
+    const page = parsed.pages[pageKey];
+    const elements = (parsed.elements || []).filter(
+      (el: any) => el.pageNumber === page.pageNumber,
+    );
+    let currentLine = '';
+    let currentParagraph: string[] = [];
+    let currentIds: string[] = [];
+    let lastY: number | null = null;
+    let lastHeight = 12;
+
+    const flushLine = () => {
+      if (currentLine.trim()) currentParagraph.push(currentLine.trim());
+      currentLine = '';
+    };
+    const flushParagraph = () => {
+      flushLine();
+      if (currentParagraph.length > 0) {
+        paragraphs.push({
+          pageNumber: page.pageNumber,
+          text: currentParagraph.join(' '),
+          elementIds: currentIds,
+        });
+      }
+      currentParagraph = [];
+      currentIds = [];
+    };
+
+    elements.forEach((el: any) => {
+      const { y } = el.position;
+      if (lastY !== null && Math.abs(lastY - y) > 2) {
+        if (Math.abs(lastY - y) > (lastHeight || 12) * 1.8) {
+          flushParagraph();
+        } else {
+          flushLine();
+        }
+      }
+      currentLine += `${el.content.text}${el.context?.hasEOL ? '' : ' '}`;
+      currentIds.push(el.elementId);
+      lastY = y;
+      lastHeight = el.position.height || lastHeight;
+    });
+    flushParagraph();
+  });
+
+  return paragraphs;
+}
+
+function pdfToHtml(parsed: any): { html: string; text: string } {
+  const paragraphs = groupPdfParagraphs(parsed);
+  const html = paragraphs.map(
+    (paragraph) =>
+      `<p data-page-number="${paragraph.pageNumber}">${escapeHtml(paragraph.text)}</p>`,
+  );
+
+  // Paragraphs are separated by blank lines, pages likewise
+  const pageTexts: string[] = [];
+  paragraphs.forEach((paragraph, index) => {
+    if (
+      index === 0 ||
+      paragraphs[index - 1].pageNumber !== paragraph.pageNumber
+    ) {
+      pageTexts.push(paragraph.text);
+    } else {
+      pageTexts[pageTexts.length - 1] += `\n\n${paragraph.text}`;
+    }
+  });
+
+  return { html: html.join('\n'), text: pageTexts.join('\n\n') };
+}
+
+function buildContent(
+  text: string,
+  rawHtml: string,
+  format: SubmissionFormat,
+  messages: any[] = [],
+) {
+  const { indexedHtml, elementCounts } = addElementIndexing(rawHtml);
+  return {
+    text,
+    html: indexedHtml,
+    messages,
+    wordCount: text.split(/\s+/).filter((word: string) => word.length > 0)
+      .length,
+    characterCount: text.length,
+    elementCounts,
+    format,
+  };
+}
+
+/**
+ * Normalize an HTML document or fragment, such as Moodle online text, quiz
+ * responses or forum posts, into indexed submission content.
+ */
+export function parseSubmissionHtml(html: string) {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const cleanHtml = ensureParagraphs(
+    body
+      .replace(/<(script|style|button|select|textarea)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<input\b[^>]*>/gi, ''),
+  );
+  return buildContent(htmlToText(cleanHtml), cleanHtml, 'html');
+}
+
+export async function parseSubmissionFile(
+  filePath: string,
+  filename?: string,
+  mimetype?: string,
+) {
+  const format = detectSubmissionFormat(filename || filePath, mimetype);
+  if (!format) {
+    throw new Error(
+      `Unsupported submission file type: ${path.basename(filename || filePath)}`,
+    );
+  }
+
+  switch (format) {
+    case 'docx': {
+      const content = await parseDocxFile(filePath);
+      return { ...content, format };
+    }
+    case 'pdf': {
+      const parsed = await parsePdfToJson({ filePath, includeMetadata: false });
+      const { html, text } = pdfToHtml(parsed);
+      if (!text.trim()) {
+        throw new Error(
+          'No extractable text found in PDF (scanned PDFs are not supported yet)',
+        );
+      }
+      return buildContent(text, html, format);
+    }
+    case 'markdown': {
+      const text = fs.readFileSync(filePath, 'utf8');
+      return buildContent(text, markdownToHtml(text), format);
+    }
+    case 'html': {
+      return parseSubmissionHtml(fs.readFileSync(filePath, 'utf8'));
+    }
+    case 'image': {
+      const ocrResult = await performOcr(filePath);
+      if (!ocrResult.success) {
+        throw new Error(ocrResult.error || 'OCR failed');
+      }
+      const text = ocrResult.text || '';
+      return buildContent(text, plainTextToHtml(text), format, [
+        {
+          type: 'info',
+          message: `Text extracted by OCR (confidence ${Math.round((ocrResult.confidence || 0) * 100)}%)`,
+        },
+      ]);
+    }
+    default: {
+      const text = fs.readFileSync(filePath, 'utf8');
+      return buildContent(text, plainTextToHtml(text), format);
+    }
+  }
+}
+
+export function setupSubmissionHandlers() {
+  // Parse any supported submission file into DocxContent-compatible content
+  ipcMain.handle(
+    'submission:parse-file',
+    async (
+      event,
+      args: {
+        filePath: string;
+        filename?: string;
+        mimetype?: string;
+      },
+    ) => {
+      console.log('[Submission] Parsing file:', args.filePath);
+
+      try {
+        if (!fs.existsSync(args.filePath)) {
+          return {
+            success: false,
+            error: 'File not found',
+          };
+        }
+
+        const content = await parseSubmissionFile(
+          args.filePath,
+          args.filename,
+          args.mimetype,
+        );
+        console.log(
+          '[Submission] Parsed',
+          content.format,
+          '- Words:',
+          content.wordCount,
+        );
+
+        return {
+          success: true,
+          content,
+        };
+      } catch (error: any) {
+        console.error('[Submission] Error parsing file:', error.message);
+        return {
+          success: false,
+          error: error.message || 'Failed to parse submission file',
+        };
+      }
+    },
+  );
+}
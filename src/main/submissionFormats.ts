@@ -0,0 +1,54 @@
+// Submission file formats the grading pipeline can parse (see submission.ts).
+// The renderer picks the file to grade from the same list, so it is kept free
+// of imports and can be bundled into both processes.
+
+export type SubmissionFormat =
+  | 'docx'
+  | 'pdf'
+  | 'text'
+  | 'markdown'
+  | 'html'
+  | 'image';
+
+// In order of preference when a student submits several files
+export const FORMAT_BY_EXTENSION: Record<string, SubmissionFormat> = {
+  '.docx': 'docx',
+  '.pdf': 'pdf',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.html': 'html',
+  '.htm': 'html',
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.gif': 'image',
+  '.bmp': 'image',
+  '.webp': 'image',
+  '.tif': 'image',
+  '.tiff': 'image',
+};
+
+export const SUPPORTED_SUBMISSION_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+export function detectSubmissionFormat(
+  filename: string,
+  mimetype?: string,
+): SubmissionFormat | null {
+  const extension = filename.match(/\.[^./\\]+$/)?.[0].toLowerCase();
+  const format = extension && FORMAT_BY_EXTENSION[extension];
+  if (format) return format;
+
+  if (!mimetype) return null;
+  if (
+    mimetype ===
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  )
+    return 'docx';
+  if (mimetype === 'application/pdf') return 'pdf';
+  if (mimetype === 'text/markdown') return 'markdown';
+  if (mimetype === 'text/html') return 'html';
+  if (mimetype.startsWith('text/')) return 'text';
+  if (mimetype.startsWith('image/')) return 'image';
+  return null;
+}
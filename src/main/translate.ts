@@ -1,12 +1,13 @@
 import { ChatOpenAI } from '@langchain/openai';
 import { ipcMain } from 'electron';
+import { getSecret } from './credentialVault';
 
 // Translation service using OpenAI fast model
 class TranslationService {
   private llm: ChatOpenAI;
 
   constructor() {
-    const apiKey = process.env.OPENAI_FAST_API_KEY;
+    const apiKey = getSecret('OPENAI_FAST_API_KEY');
     const baseURL = process.env.OPENAI_FAST_BASE_URL || 'https://askgenie-api.oagpuservices.com/v1';
     const model = process.env.OPENAI_FAST_MODEL || 'Llama-4-Maverick-17B-128E-Instruct-FP8';
     const temperature = parseFloat(process.env.OPENAI_FAST_MODEL_TEMPERATURE || '0.0');
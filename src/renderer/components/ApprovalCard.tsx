@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  TextField,
+  Typography,
+  alpha,
+} from '@mui/material';
+import { PanTool as PanToolIcon } from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { useChatStore } from '../stores/useChatStore';
+import type { ApprovalDecision, ApprovalRequest } from '../types/plan';
+
+interface ApprovalCardProps {
+  sessionId: string;
+  approval: ApprovalRequest;
+  compact?: boolean;
+}
+
+type Mode = 'review' | 'edit' | 'reject';
+
+// A paused side-effecting tool call: approve it as is, run it with edited arguments, or reject it
+export default function ApprovalCard({
+  sessionId,
+  approval,
+  compact = false,
+}: ApprovalCardProps) {
+  const intl = useIntl();
+  const respondToApproval = useChatStore((state) => state.respondToApproval);
+  const [mode, setMode] = useState<Mode>('review');
+  const [argsText, setArgsText] = useState(() =>
+    JSON.stringify(approval.args ?? {}, null, 2),
+  );
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const respond = async (decision: ApprovalDecision) => {
+    setIsSending(true);
+    await respondToApproval(sessionId, approval.id, decision);
+    setIsSending(false);
+  };
+
+  const handleRunEdited = () => {
+    try {
+      const args = JSON.parse(argsText);
+      if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        throw new Error('Arguments must be an object');
+      }
+      respond({ action: 'edit', args });
+    } catch {
+      setError(intl.formatMessage({ id: 'chat.approval.invalidArgs' }));
+    }
+  };
+
+  const fontSize = compact ? '0.7rem' : '0.75rem';
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{
+        p: compact ? 1 : 1.5,
+        mb: 1,
+        borderColor: 'warning.main',
+        bgcolor: (theme) => alpha(theme.palette.warning.main, 0.06),
+        alignSelf: 'stretch',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+        <PanToolIcon sx={{ fontSize: 16, color: 'warning.main' }} />
+        <Typography variant="subtitle2" sx={{ fontSize, fontWeight: 600 }}>
+          {intl.formatMessage({ id: 'chat.approval.title' })}
+        </Typography>
+      </Box>
+      <Typography
+        variant="body2"
+        sx={{ fontSize, fontFamily: 'monospace', mb: 0.5 }}
+      >
+        {approval.toolName}
+      </Typography>
+      {!compact && approval.description && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ display: 'block', mb: 1 }}
+        >
+          {approval.description}
+        </Typography>
+      )}
+
+      {mode === 'edit' ? (
+        <TextField
+          fullWidth
+          multiline
+          minRows={3}
+          size="small"
+          value={argsText}
+          onChange={(e) => {
+            setArgsText(e.target.value);
+            setError(null);
+          }}
+          error={!!error}
+          helperText={error}
+          disabled={isSending}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize } }}
+        />
+      ) : (
+        <Box
+          component="pre"
+          sx={{
+            m: 0,
+            p: 1,
+            borderRadius: 1,
+            bgcolor: 'action.hover',
+            fontSize,
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+            maxHeight: compact ? 120 : 200,
+            overflow: 'auto',
+          }}
+        >
+          {argsText}
+        </Box>
+      )}
+
+      {mode === 'reject' && (
+        <TextField
+          fullWidth
+          size="small"
+          sx={{ mt: 1 }}
+          placeholder={intl.formatMessage({
+            id: 'chat.approval.rejectReason',
+          })}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={isSending}
+          InputProps={{ sx: { fontSize } }}
+        />
+      )}
+
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'flex-end',
+          flexWrap: 'wrap',
+          gap: 1,
+          mt: 1,
+        }}
+      >
+        {isSending && <CircularProgress size={16} sx={{ mr: 'auto' }} />}
+        {mode === 'review' && (
+          <>
+            <Button
+              size="small"
+              color="error"
+              onClick={() => setMode('reject')}
+              disabled={isSending}
+            >
+              {intl.formatMessage({ id: 'chat.approval.reject' })}
+            </Button>
+            <Button
+              size="small"
+              onClick={() => setMode('edit')}
+              disabled={isSending}
+            >
+              {intl.formatMessage({ id: 'chat.approval.edit' })}
+            </Button>
+            <Button
+              size="small"
+              variant="contained"
+              onClick={() => respond({ action: 'approve' })}
+              disabled={isSending}
+            >
+              {intl.formatMessage({ id: 'chat.approval.approve' })}
+            </Button>
+          </>
+        )}
+        {mode !== 'review' && (
+          <>
+            <Button
+              size="small"
+              onClick={() => {
+                setMode('review');
+                setArgsText(JSON.stringify(approval.args ?? {}, null, 2));
+                setError(null);
+              }}
+              disabled={isSending}
+            >
+              {intl.formatMessage({ id: 'common.cancel' })}
+            </Button>
+            {mode === 'edit' ? (
+              <Button
+                size="small"
+                variant="contained"
+                onClick={handleRunEdited}
+                disabled={isSending}
+              >
+                {intl.formatMessage({ id: 'chat.approval.runEdited' })}
+              </Button>
+            ) : (
+              <Button
+                size="small"
+                variant="contained"
+                color="error"
+                onClick={() =>
+                  respond({
+                    action: 'reject',
+                    reason: reason.trim() || undefined,
+                  })
+                }
+                disabled={isSending}
+              >
+                {intl.formatMessage({ id: 'chat.approval.confirmReject' })}
+              </Button>
+            )}
+          </>
+        )}
+      </Box>
+    </Paper>
+  );
+}
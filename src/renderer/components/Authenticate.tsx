@@ -7,16 +7,21 @@ import {
   TextField,
   Button,
   Alert,
+  ToggleButton,
+  ToggleButtonGroup,
   useTheme,
   alpha,
 } from '@mui/material';
 import {
   Api as ApiIcon,
+  Login as LoginIcon,
+  OpenInNew as OpenInNewIcon,
 } from '@mui/icons-material';
 import { useIntl } from 'react-intl';
 import { useMoodleStore } from '../stores/useMoodleStore';
 import { useUserStore } from '../stores/useUserStore';
 import { toast } from '../utils/toast';
+import type { MoodleLoginMethod } from '../types/moodle';
 
 interface AuthenticateProps {
   onAuthenticated?: () => void;
@@ -35,26 +40,45 @@ export const Authenticate: React.FC<AuthenticateProps> = ({ onAuthenticated }) =
   const isConnecting = useMoodleStore((state) => state.isConnecting);
   const connectionError = useMoodleStore((state) => state.connectionError);
   const connectionInfo = useMoodleStore((state) => state.connectionInfo);
+  const setConfig = useMoodleStore((state) => state.setConfig);
   const saveApiKey = useMoodleStore((state) => state.saveApiKey);
+  const getLoginOptions = useMoodleStore((state) => state.getLoginOptions);
+  const loginWithPassword = useMoodleStore((state) => state.loginWithPassword);
+  const loginWithSso = useMoodleStore((state) => state.loginWithSso);
 
   // Local state - always initialize with empty string to avoid undefined issues
-  const [moodleApiKey, setMoodleApiKey] = useState(() => config?.apiKey || '');
+  const [moodleApiKey, setMoodleApiKey] = useState('');
   const [isAuthenticating, setIsAuthenticating] = useState(false);
-  const [hasInitialized, setHasInitialized] = useState(false);
+  const [siteUrl, setSiteUrl] = useState(() => config?.baseUrl || '');
+  const [loginMethod, setLoginMethod] = useState<MoodleLoginMethod>('password');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [siteName, setSiteName] = useState<string | null>(null);
   
   // Memoize intl messages to prevent re-renders
   const labels = useMemo(() => ({
     apiKey: intl.formatMessage({ id: 'auth.moodle.apiKey' }),
     apiKeyPlaceholder: intl.formatMessage({ id: 'auth.moodle.apiKeyPlaceholder' }),
+    baseUrl: intl.formatMessage({ id: 'auth.moodle.baseUrl' }),
+    username: intl.formatMessage({ id: 'auth.moodle.username' }),
+    password: intl.formatMessage({ id: 'auth.moodle.password' }),
   }), [intl]);
 
-  // Initialize API key from config only once
-  useEffect(() => {
-    if (!hasInitialized && config?.apiKey) {
-      setMoodleApiKey(config.apiKey);
-      setHasInitialized(true);
+  // Ask the site how it signs in, so SSO sites start on the SSO button
+  const detectLoginMethod = async (url: string) => {
+    if (!url.trim()) return;
+    const options = await getLoginOptions(url.trim());
+    setSiteName(options?.sitename || null);
+    if (options && options.typeoflogin !== 1) {
+      setLoginMethod('sso');
     }
-  }, [config?.apiKey, hasInitialized]);
+  };
+
+  useEffect(() => {
+    detectLoginMethod(siteUrl);
+    // Only the URL the form opens with; later edits are checked on blur
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   // Check if already authenticated and notify parent
   useEffect(() => {
@@ -63,17 +87,39 @@ export const Authenticate: React.FC<AuthenticateProps> = ({ onAuthenticated }) =
     }
   }, [isConnected, connectionInfo, onAuthenticated]);
 
+  // Sign in with whichever method is selected; all of them end with a connected store
+  const signIn = (): Promise<boolean> => {
+    const baseUrl = siteUrl.trim().replace(/\/+$/, '');
+    if (loginMethod === 'password') {
+      return loginWithPassword({ baseUrl, username, password });
+    }
+    if (loginMethod === 'sso') {
+      return loginWithSso({ baseUrl });
+    }
+    setConfig({ baseUrl });
+    return saveApiKey(moodleApiKey);
+  };
+
   const handleMoodleAuth = async () => {
-    if (!moodleApiKey.trim()) {
+    if (!siteUrl.trim()) {
+      toast.error(intl.formatMessage({ id: 'auth.moodle.urlRequired' }));
+      return;
+    }
+    if (loginMethod === 'token' && !moodleApiKey.trim()) {
       toast.error(intl.formatMessage({ id: 'auth.moodle.apiKeyRequired' }));
       return;
     }
+    if (loginMethod === 'password' && (!username.trim() || !password)) {
+      toast.error(intl.formatMessage({ id: 'auth.moodle.credentialsRequired' }));
+      return;
+    }
 
     setIsAuthenticating(true);
     try {
-      const success = await saveApiKey(moodleApiKey);
+      const success = await signIn();
       
       if (success) {
+        setPassword('');
         // Wait for connection info to be available (with timeout)
         let attempts = 0;
         const maxAttempts = 30; // 3 seconds max wait - increased for slower connections
@@ -111,7 +157,7 @@ export const Authenticate: React.FC<AuthenticateProps> = ({ onAuthenticated }) =
         // If we reach here, we timed out
         console.error('[Authenticate] Timeout waiting for connection info');
         toast.error('Connection successful but user info not available. Please try again.');
-      } else if (connectionError) {
+      } else if (loginMethod === 'token' && connectionError) {
         toast.error(intl.formatMessage({ id: 'auth.moodle.failed' }, { error: connectionError }));
       }
     } catch (error) {
@@ -144,36 +190,109 @@ export const Authenticate: React.FC<AuthenticateProps> = ({ onAuthenticated }) =
         </Alert>
       ) : null}
 
-      {/* API Key Input */}
+      {/* Site URL */}
       <TextField
         fullWidth
         variant="outlined"
-        label={labels.apiKey}
-        type="password"
-        value={moodleApiKey || ''}
-        onChange={(e) => setMoodleApiKey(e.target.value)}
-        placeholder={labels.apiKeyPlaceholder}
+        label={labels.baseUrl}
+        value={siteUrl}
+        onChange={(e) => setSiteUrl(e.target.value)}
+        onBlur={() => detectLoginMethod(siteUrl)}
+        placeholder="https://moodle.example.edu"
+        helperText={siteName || ' '}
         disabled={isConnecting || isAuthenticating}
         sx={{ mb: 2 }}
       />
 
-      {/* Base URL Display */}
-      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
-        {intl.formatMessage({ id: 'auth.moodle.baseUrl' })}: {config.baseUrl}
-      </Typography>
+      {/* Sign-in Method */}
+      <ToggleButtonGroup
+        fullWidth
+        exclusive
+        size="small"
+        value={loginMethod}
+        onChange={(_, value) => value && setLoginMethod(value)}
+        disabled={isConnecting || isAuthenticating}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="password">
+          {intl.formatMessage({ id: 'auth.moodle.methodPassword' })}
+        </ToggleButton>
+        <ToggleButton value="sso">
+          {intl.formatMessage({ id: 'auth.moodle.methodSso' })}
+        </ToggleButton>
+        <ToggleButton value="token">
+          {intl.formatMessage({ id: 'auth.moodle.methodToken' })}
+        </ToggleButton>
+      </ToggleButtonGroup>
+
+      {loginMethod === 'password' && (
+        <>
+          <TextField
+            fullWidth
+            variant="outlined"
+            label={labels.username}
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={isConnecting || isAuthenticating}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            variant="outlined"
+            label={labels.password}
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleMoodleAuth()}
+            disabled={isConnecting || isAuthenticating}
+            sx={{ mb: 2 }}
+          />
+        </>
+      )}
+
+      {loginMethod === 'sso' && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {intl.formatMessage({ id: 'auth.moodle.ssoHelp' })}
+        </Typography>
+      )}
+
+      {/* API Key Input */}
+      {loginMethod === 'token' && (
+        <TextField
+          fullWidth
+          variant="outlined"
+          label={labels.apiKey}
+          type="password"
+          value={moodleApiKey || ''}
+          onChange={(e) => setMoodleApiKey(e.target.value)}
+          placeholder={labels.apiKeyPlaceholder}
+          disabled={isConnecting || isAuthenticating}
+          sx={{ mb: 2 }}
+        />
+      )}
 
       {/* Action Button */}
       <Box sx={{ display: 'flex', justifyContent: 'center' }}>
         <Button
           variant="contained"
-          startIcon={<ApiIcon />}
+          startIcon={
+            loginMethod === 'token' ? <ApiIcon /> : loginMethod === 'sso' ? <OpenInNewIcon /> : <LoginIcon />
+          }
           onClick={handleMoodleAuth}
-          disabled={isConnecting || isAuthenticating || !moodleApiKey.trim()}
+          disabled={
+            isConnecting ||
+            isAuthenticating ||
+            !siteUrl.trim() ||
+            (loginMethod === 'token' && !moodleApiKey.trim()) ||
+            (loginMethod === 'password' && (!username.trim() || !password))
+          }
           sx={{ minWidth: 200 }}
         >
           {isAuthenticating || isConnecting 
             ? intl.formatMessage({ id: 'auth.moodle.connecting' })
-            : intl.formatMessage({ id: 'auth.moodle.connect' })
+            : intl.formatMessage({ id: loginMethod === 'token' ? 'auth.moodle.connect' : 'auth.moodle.signIn' })
           }
         </Button>
       </Box>
@@ -181,7 +300,9 @@ export const Authenticate: React.FC<AuthenticateProps> = ({ onAuthenticated }) =
       {/* Help Text */}
       <Box sx={{ mt: 3, p: 2, backgroundColor: alpha(theme.palette.info.main, 0.05), borderRadius: 1 }}>
         <Typography variant="body2" color="text.secondary">
-          {intl.formatMessage({ id: 'auth.moodle.helpText' })}
+          {intl.formatMessage({
+            id: loginMethod === 'token' ? 'auth.moodle.helpText' : 'auth.moodle.signInHelp',
+          })}
         </Typography>
       </Box>
     </Box>
@@ -17,6 +17,7 @@ import { useIntl } from 'react-intl';
 import { useChatStore } from '../stores/useChatStore';
 import { useOcrStore } from '../stores/useOcrStore';
 import { useAppStore } from '../stores/useAppStore';
+import ApprovalCard from './ApprovalCard';
 
 interface ChatWidgetProps {
   sessionId: string;
@@ -78,6 +79,7 @@ export const ChatWidget: React.FC<ChatWidgetProps> = React.memo(({
     isThinkingBySession,
     setThinking,
     abortSession,
+    approvalsBySession,
   } = useChatStore();
   const { performScreenshotOcr, isProcessing: ocrProcessing } = useOcrStore();
 
@@ -88,6 +90,7 @@ export const ChatWidget: React.FC<ChatWidgetProps> = React.memo(({
   const streaming = streamingBySession[sessionId];
   const isThinking = isThinkingBySession?.[sessionId] || false;
   const isExecuting = !!streaming || isThinking;
+  const approvals = approvalsBySession[sessionId] ?? [];
   const isInputDisabled = isExecuting || ocrProgress !== null;
   // Optimize message list computation with better memoization
   const baseMessages = messagesBySession[sessionId] ?? [];
@@ -127,7 +130,7 @@ export const ChatWidget: React.FC<ChatWidgetProps> = React.memo(({
     } else {
       scrollToBottom();
     }
-  }, [chatMessages.length, isThinking, ocrProgress, streaming, scrollToBottom]);
+  }, [chatMessages.length, isThinking, ocrProgress, streaming, approvals.length, scrollToBottom]);
 
 
   const handleSendMessage = useCallback(async () => {
@@ -303,8 +306,13 @@ export const ChatWidget: React.FC<ChatWidgetProps> = React.memo(({
           </Box>
         )}
 
+        {/* Side-effecting tool calls paused until the user decides */}
+        {approvals.map((approval) => (
+          <ApprovalCard key={approval.id} sessionId={sessionId} approval={approval} />
+        ))}
+
         {/* Show thinking spinner when agent is processing - appears after user message */}
-        {isThinking && !streaming && (
+        {isThinking && !streaming && approvals.length === 0 && (
           <Box
             sx={{
               mb: 1,
@@ -1,20 +1,80 @@
 import React, { useEffect, useRef } from 'react';
 import { Box } from '@mui/material';
-import { ElementHighlight } from './types';
+import { ElementHighlight, PassageHighlight } from './types';
 
 interface HtmlContentRendererProps {
   html: string;
   highlights: ElementHighlight[];
   newHighlights?: ElementHighlight[];
+  passageHighlights?: PassageHighlight[];
   isPreview?: boolean;
   animateHighlights?: boolean;
   onAnimationComplete?: () => void;
 }
 
+const NO_PASSAGES: PassageHighlight[] = [];
+const PASSAGE_ATTRIBUTE = 'data-passage-highlight';
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap the first occurrence of a passage inside an element in <mark> tags.
+// The passage may span several text nodes (bold runs, links), so each
+// overlapped node gets its own mark.
+const markPassage = (element: HTMLElement, text: string) => {
+  const tokens = text.split(' ').filter(Boolean);
+  if (tokens.length === 0) return;
+
+  const pattern = new RegExp(
+    tokens.map(escapeRegExp).join('[^\\p{L}\\p{N}]*'),
+    'iu',
+  );
+
+  const nodes: Array<{ node: Text; start: number }> = [];
+  let fullText = '';
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push({ node, start: fullText.length });
+    fullText += node.data;
+  }
+
+  const match = pattern.exec(fullText);
+  if (!match) return;
+  const matchStart = match.index;
+  const matchEnd = match.index + match[0].length;
+
+  nodes.forEach(({ node, start }) => {
+    const end = start + node.data.length;
+    if (end <= matchStart || start >= matchEnd) return;
+
+    const from = Math.max(matchStart - start, 0);
+    const to = Math.min(matchEnd - start, node.data.length);
+    const target = from > 0 ? node.splitText(from) : node;
+    if (to - from < target.data.length) target.splitText(to - from);
+
+    const mark = document.createElement('mark');
+    mark.setAttribute(PASSAGE_ATTRIBUTE, 'true');
+    target.parentNode?.insertBefore(mark, target);
+    mark.appendChild(target);
+  });
+};
+
+const clearPassages = (container: HTMLElement) => {
+  container.querySelectorAll(`mark[${PASSAGE_ATTRIBUTE}]`).forEach((mark) => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+    parent.removeChild(mark);
+    parent.normalize();
+  });
+};
+
 function HtmlContentRenderer({
   html,
   highlights,
   newHighlights = [],
+  passageHighlights = NO_PASSAGES,
   animateHighlights = false,
   onAnimationComplete,
 }: HtmlContentRendererProps) {
@@ -221,6 +281,21 @@ function HtmlContentRenderer({
     }
   }, [highlights]);
 
+  // Mark matched passages (e.g. text shared with another submission)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || passageHighlights.length === 0) return undefined;
+
+    passageHighlights.forEach(({ elementType, elementIndex, text }) => {
+      const targetElement = container.querySelector(
+        `[data-element-type="${elementType}"][data-element-index="${elementIndex}"]`,
+      ) as HTMLElement | null;
+      if (targetElement) markPassage(targetElement, text);
+    });
+
+    return () => clearPassages(container);
+  }, [html, passageHighlights]);
+
   const renderHtmlContent = (htmlContent: string) => {
     // No longer apply highlights via HTML manipulation - they're applied via DOM directly
     // This prevents re-rendering of existing highlights when new ones are added
@@ -392,6 +467,13 @@ function HtmlContentRenderer({
             borderRadius: '4px',
           },
 
+          // Passage marks
+          [`& mark[${PASSAGE_ATTRIBUTE}]`]: {
+            backgroundColor: 'warning.light',
+            color: 'inherit',
+            borderRadius: '2px',
+          },
+
           // Note: Highlight styles are now handled by animations.css and applied via DOM
           // This allows for more complex animations and better performance without re-rendering
         }}
@@ -27,6 +27,13 @@ export interface ElementHighlight {
   comment?: string;
 }
 
+// A run of text inside an indexed element, marked without replacing the element highlight
+export interface PassageHighlight {
+  elementType: string;
+  elementIndex: number;
+  text: string; // Matched ignoring case, punctuation and whitespace
+}
+
 export interface DocxPreviewRef {
   addHighlight: (elementType: string, elementIndex: number, color: 'red' | 'green' | 'yellow', comment?: string) => void;
   clearHighlights: () => void;
@@ -15,25 +15,29 @@ import {
 import CircularProgress from '@mui/material/CircularProgress';
 import { useChatStore } from '../stores/useChatStore';
 import { useIntl } from 'react-intl';
+import ApprovalCard from './ApprovalCard';
 
 interface PlanWidgetProps {
   sessionId: string;
   onClose?: () => void;
+  // Render pending approval cards under the active todo (off where the chat already shows them)
+  showApprovals?: boolean;
 }
 
-export const PlanWidget: React.FC<PlanWidgetProps> = ({ sessionId, onClose }) => {
+export const PlanWidget: React.FC<PlanWidgetProps> = ({ sessionId, onClose, showApprovals = true }) => {
   const intl = useIntl();
-  const { todosBySession, planBySession, abortSession } = useChatStore();
+  const { todosBySession, planBySession, abortSession, approvalsBySession } = useChatStore();
   const todos = todosBySession[sessionId] || [];
   const plan = planBySession?.[sessionId];
+  const approvals = approvalsBySession[sessionId] || [];
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
-    // Show widget when there are todos
-    if (todos.length > 0 || plan) {
+    // Show widget when there are todos or an action waiting for approval
+    if (todos.length > 0 || plan || approvals.length > 0) {
       setIsVisible(true);
     }
-  }, [todos, plan]);
+  }, [todos, plan, approvals.length]);
 
   // Calculate progress
   const completedCount = todos.filter(t => t.completed).length;
@@ -61,7 +65,7 @@ export const PlanWidget: React.FC<PlanWidgetProps> = ({ sessionId, onClose }) =>
     }
   };
 
-  if (!isVisible || (todos.length === 0 && !plan)) {
+  if (!isVisible || (todos.length === 0 && !plan && approvals.length === 0)) {
     return null;
   }
 
@@ -295,15 +299,28 @@ export const PlanWidget: React.FC<PlanWidgetProps> = ({ sessionId, onClose }) =>
                             fontWeight: 500,
                           }}
                         >
-                          {intl.formatMessage({ id: 'plan.processing' })}
+                          {intl.formatMessage({
+                            id: approvals.length > 0 ? 'chat.approval.waiting' : 'plan.processing',
+                          })}
                         </Typography>
                       </Fade>
                     )}
+                    {isActive && showApprovals && approvals.map((approval) => (
+                      <Box key={approval.id} sx={{ mt: 1 }}>
+                        <ApprovalCard sessionId={sessionId} approval={approval} compact />
+                      </Box>
+                    ))}
                   </Box>
                 </Box>
               </Fade>
             );
           })}
+          {/* Approvals requested outside of a plan */}
+          {showApprovals && activeTodoIndex === -1 && approvals.map((approval) => (
+            <Box key={approval.id} sx={{ py: 1 }}>
+              <ApprovalCard sessionId={sessionId} approval={approval} compact />
+            </Box>
+          ))}
         </Box>
 
         {/* Minimal Completion Message with Synthesizing Spinner */}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useIntl } from 'react-intl';
+import { useMoodleStore } from '../stores/useMoodleStore';
+import type { MoodleProfile } from '../types/moodle';
+
+// Asks the user to sign in again when Moodle rejects the active site's token,
+// the same way the token was first obtained
+export default function SessionExpiredDialog() {
+  const intl = useIntl();
+  const sessionExpired = useMoodleStore((state) => state.sessionExpired);
+  const setSessionExpired = useMoodleStore((state) => state.setSessionExpired);
+  const loginWithPassword = useMoodleStore((state) => state.loginWithPassword);
+  const loginWithSso = useMoodleStore((state) => state.loginWithSso);
+  const saveApiKey = useMoodleStore((state) => state.saveApiKey);
+
+  const [dismissed, setDismissed] = useState(false);
+  const [secret, setSecret] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return undefined;
+
+    window.electron.ipcRenderer.on('moodle:session-expired', (profile) => {
+      setDismissed(false);
+      setSessionExpired(profile as MoodleProfile);
+    });
+
+    return () => {
+      window.electron.ipcRenderer.removeAllListeners('moodle:session-expired');
+    };
+  }, [setSessionExpired]);
+
+  useEffect(() => {
+    setSecret('');
+  }, [sessionExpired?.id]);
+
+  if (!sessionExpired) return null;
+
+  const method = sessionExpired.loginMethod || 'token';
+  const siteName = sessionExpired.sitename || sessionExpired.label;
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    try {
+      const target = {
+        baseUrl: sessionExpired.baseUrl,
+        service: sessionExpired.service,
+        profileId: sessionExpired.id,
+      };
+      if (method === 'sso') {
+        await loginWithSso(target);
+      } else if (method === 'password') {
+        await loginWithPassword({
+          ...target,
+          username: sessionExpired.username || '',
+          password: secret,
+        });
+      } else {
+        // The active profile is the expired one, so its token is replaced
+        await saveApiKey(secret.trim());
+      }
+    } finally {
+      setIsSigningIn(false);
+      setSecret('');
+    }
+  };
+
+  return (
+    <Dialog
+      open={!dismissed}
+      onClose={() => setDismissed(true)}
+      maxWidth="xs"
+      fullWidth
+    >
+      <DialogTitle>
+        {intl.formatMessage({ id: 'auth.moodle.sessionExpiredTitle' })}
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {intl.formatMessage(
+            { id: 'auth.moodle.sessionExpiredMessage' },
+            { site: siteName },
+          )}
+        </Typography>
+
+        {method === 'password' && (
+          <>
+            <TextField
+              fullWidth
+              size="small"
+              label={intl.formatMessage({ id: 'auth.moodle.username' })}
+              value={sessionExpired.username || ''}
+              disabled
+              sx={{ mb: 2 }}
+            />
+            <TextField
+              fullWidth
+              size="small"
+              autoFocus
+              type="password"
+              autoComplete="current-password"
+              label={intl.formatMessage({ id: 'auth.moodle.password' })}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && secret && handleSignIn()}
+              disabled={isSigningIn}
+            />
+          </>
+        )}
+
+        {method === 'token' && (
+          <TextField
+            fullWidth
+            size="small"
+            autoFocus
+            type="password"
+            label={intl.formatMessage({ id: 'auth.moodle.apiKey' })}
+            placeholder={intl.formatMessage({
+              id: 'auth.moodle.apiKeyPlaceholder',
+            })}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            disabled={isSigningIn}
+          />
+        )}
+
+        {method === 'sso' && (
+          <Typography variant="body2" color="text.secondary">
+            {intl.formatMessage({ id: 'auth.moodle.ssoHelp' })}
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setDismissed(true)} disabled={isSigningIn}>
+          {intl.formatMessage({ id: 'auth.moodle.later' })}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSignIn}
+          disabled={isSigningIn || (method !== 'sso' && !secret.trim())}
+        >
+          {isSigningIn
+            ? intl.formatMessage({ id: 'auth.moodle.connecting' })
+            : intl.formatMessage({ id: 'auth.moodle.signInAgain' })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Divider,
+  Tooltip,
+  Typography,
+  useTheme,
+  alpha,
+} from '@mui/material';
+import {
+  Check as CheckIcon,
+  Add as AddIcon,
+  UnfoldMore as UnfoldMoreIcon,
+} from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { useContextStore } from '@/stores/useContextStore';
+import { useMoodleStore } from '@/stores/useMoodleStore';
+
+interface MoodleSiteSwitcherProps {
+  collapsed: boolean;
+}
+
+// Quick switch between saved Moodle sites/accounts
+export default function MoodleSiteSwitcher({
+  collapsed,
+}: MoodleSiteSwitcherProps) {
+  const intl = useIntl();
+  const theme = useTheme();
+  const { profiles, activeProfileId, switchProfile, isConnecting } =
+    useMoodleStore();
+  const { navigateToSettings } = useContextStore();
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+  const active = profiles.find((p) => p.id === activeProfileId);
+  if (!active) return null;
+
+  const handleSwitch = (profileId: string) => {
+    setAnchorEl(null);
+    if (profileId !== activeProfileId) {
+      switchProfile(profileId);
+    }
+  };
+
+  const handleManage = () => {
+    setAnchorEl(null);
+    navigateToSettings('api');
+  };
+
+  return (
+    <>
+      <Tooltip
+        title={intl.formatMessage({ id: 'sidebar.switchSite' })}
+        placement="right"
+      >
+        <ListItemButton
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          disabled={isConnecting}
+          sx={{
+            borderRadius: 1,
+            minHeight: 40,
+            px: !collapsed ? 1 : 0.5,
+            mb: 0.5,
+            justifyContent: !collapsed ? 'flex-start' : 'center',
+            '&:hover': {
+              backgroundColor: alpha(theme.palette.primary.main, 0.15),
+            },
+          }}
+        >
+          <Box
+            sx={{
+              width: 28,
+              height: 28,
+              borderRadius: 1,
+              flexShrink: 0,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: alpha(theme.palette.primary.main, 0.15),
+              color: 'primary.main',
+              fontSize: '0.75rem',
+              fontWeight: 600,
+              mr: !collapsed ? 1 : 0,
+            }}
+          >
+            {active.label.trim().charAt(0).toUpperCase() || 'M'}
+          </Box>
+          {!collapsed && (
+            <>
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" noWrap sx={{ fontWeight: 500 }}>
+                  {active.label}
+                </Typography>
+                {active.username && (
+                  <Typography
+                    variant="caption"
+                    color="text.secondary"
+                    noWrap
+                    component="div"
+                  >
+                    {active.username}
+                  </Typography>
+                )}
+              </Box>
+              <UnfoldMoreIcon
+                fontSize="small"
+                sx={{ color: 'text.secondary' }}
+              />
+            </>
+          )}
+        </ListItemButton>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'left' }}
+      >
+        {profiles.map((profile) => (
+          <MenuItem
+            key={profile.id}
+            selected={profile.id === activeProfileId}
+            onClick={() => handleSwitch(profile.id)}
+          >
+            <ListItemIcon>
+              {profile.id === activeProfileId && <CheckIcon fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText
+              primary={profile.label}
+              secondary={[profile.username, profile.baseUrl]
+                .filter(Boolean)
+                .join(' · ')}
+            />
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={handleManage}>
+          <ListItemIcon>
+            <AddIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText
+            primary={intl.formatMessage({ id: 'sidebar.addSite' })}
+          />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+}
@@ -31,6 +31,7 @@ import { useContextStore } from '@/stores/useContextStore';
 import { useLayoutStore } from '@/stores/useLayoutStore';
 import { useMoodleStore } from '@/stores/useMoodleStore';
 import { useAuthenticationState } from '@/stores/useUserStore';
+import MoodleSiteSwitcher from './MoodleSiteSwitcher';
 
 export const SIDEBAR_WIDTH = 240;
 export const SIDEBAR_COLLAPSED_WIDTH = 64;
@@ -235,6 +236,8 @@ export const Sidebar: React.FC<SidebarProps> = () => {
           minHeight: 0,
         }}
       >
+        {isAuthenticated && <MoodleSiteSwitcher collapsed={sidebarCollapsed} />}
+
         {!sidebarCollapsed && isAuthenticated && isConnected && (
           <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', px: 1, py: 0.5 }}>
             <Typography
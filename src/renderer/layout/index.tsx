@@ -5,6 +5,7 @@ import TopBar from './TopBar';
 import MainView from './MainView';
 import { useLayoutStore } from '@/stores/useLayoutStore';
 import TitleBar from './TitleBar';
+import SessionExpiredDialog from '../components/SessionExpiredDialog';
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -142,6 +143,9 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           </Box>
         </MainView>
       </Box>
+
+      {/* Re-login prompt when the Moodle token expires */}
+      <SessionExpiredDialog />
     </Box>
   );
 };
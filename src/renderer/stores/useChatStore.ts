@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { ChatMessage } from '../types/message';
-import type { AgentPlan, TodoItem } from '../types/plan';
+import type { AgentPlan, ApprovalDecision, ApprovalRequest, TodoItem } from '../types/plan';
 import { useWorkStore } from './useWorkStore';
 
 type ChatState = {
@@ -13,6 +13,8 @@ type ChatState = {
   planBySession: Record<string, AgentPlan | undefined>;
   // Todos by session
   todosBySession: Record<string, TodoItem[] | undefined>;
+  // Tool calls waiting for the user's approval by session
+  approvalsBySession: Record<string, ApprovalRequest[] | undefined>;
   // Thinking state: whether agent is processing
   isThinkingBySession: Record<string, boolean>;
   // Token batching state with RAF support
@@ -47,6 +49,10 @@ type ChatState = {
   updateTodo: (sessionId: string, todoId: string, updates: Partial<TodoItem>) => void;
   updateTodoByIndex: (sessionId: string, index: number, completed: boolean) => void;
   clearTodos: (sessionId: string) => void;
+  // Approval management
+  addApproval: (sessionId: string, approval: ApprovalRequest) => void;
+  respondToApproval: (sessionId: string, approvalId: string, decision: ApprovalDecision) => Promise<boolean>;
+  clearApprovals: (sessionId: string) => void;
   // Thinking state management
   setThinking: (sessionId: string, isThinking: boolean) => void;
   // Abort management
@@ -60,6 +66,7 @@ export const useChatStore = create<ChatState>()(
     streamingBySession: {},
     planBySession: {},
     todosBySession: {},
+    approvalsBySession: {},
     isThinkingBySession: {},
     tokenBatchBySession: {},
 
@@ -277,6 +284,7 @@ export const useChatStore = create<ChatState>()(
           // Clear plan and todos when done as well (task completed)
           get().clearPlan(sessionId);
           get().clearTodos(sessionId);
+          get().clearApprovals(sessionId);
 
           // End work tracking for this session
           try {
@@ -306,6 +314,7 @@ export const useChatStore = create<ChatState>()(
           get().clearThinkingMessages(sessionId);
           get().clearPlan(sessionId);
           get().clearTodos(sessionId);
+          get().clearApprovals(sessionId);
           get().endStream(sessionId);
 
           // End work tracking for this session on error
@@ -733,6 +742,66 @@ export const useChatStore = create<ChatState>()(
       );
     },
 
+    // Approval management methods
+    addApproval: (sessionId: string, approval: ApprovalRequest) => {
+      set(
+        (s) => {
+          const current = s.approvalsBySession[sessionId] ?? [];
+          if (current.some((a) => a.id === approval.id)) return {} as any;
+          return {
+            approvalsBySession: {
+              ...s.approvalsBySession,
+              [sessionId]: [...current, approval],
+            },
+          } as any;
+        },
+        false,
+        'chat:approvals:add',
+      );
+    },
+
+    respondToApproval: async (sessionId: string, approvalId: string, decision: ApprovalDecision) => {
+      let success = false;
+      try {
+        const result = await (window as any).electron?.ipcRenderer?.invoke('chat:agent:approval-response', {
+          approvalId,
+          decision,
+        });
+        success = !!result?.success;
+        if (!success) {
+          console.warn(`[Chat] Approval ${approvalId} was not accepted:`, result?.error);
+        }
+      } catch (error) {
+        console.error(`[Chat] Error answering approval ${approvalId}:`, error);
+      }
+
+      // Drop the card either way: answered, or no longer waiting (run finished or aborted)
+      set(
+        (s) => ({
+          approvalsBySession: {
+            ...s.approvalsBySession,
+            [sessionId]: (s.approvalsBySession[sessionId] ?? []).filter((a) => a.id !== approvalId),
+          },
+        }),
+        false,
+        'chat:approvals:respond',
+      );
+      return success;
+    },
+
+    clearApprovals: (sessionId: string) => {
+      set(
+        (s) => ({
+          approvalsBySession: {
+            ...s.approvalsBySession,
+            [sessionId]: undefined,
+          },
+        }),
+        false,
+        'chat:approvals:clear',
+      );
+    },
+
     setThinking: (sessionId: string, isThinking: boolean) => {
       // Only update if the value actually changes to avoid unnecessary re-renders
       const currentThinking = get().isThinkingBySession[sessionId];
@@ -779,6 +848,7 @@ export const useChatStore = create<ChatState>()(
               isThinkingBySession: { ...s.isThinkingBySession, [sessionId]: false },
               planBySession: { ...s.planBySession, [sessionId]: undefined },
               todosBySession: { ...s.todosBySession, [sessionId]: undefined },
+              approvalsBySession: { ...s.approvalsBySession, [sessionId]: undefined },
               tokenBatchBySession: { ...s.tokenBatchBySession, [sessionId]: undefined },
             }),
             false,
@@ -805,5 +875,16 @@ export const useChatStore = create<ChatState>()(
   }))
 );
 
+// Approval requests can come from any agent run (chat, coursework generation, grading),
+// so they are collected for every session rather than per sendUserMessage call
+(window as any).electron?.ipcRenderer?.on?.(
+  'chat:agent:approval-request',
+  (payload: { sessionId: string; approval: ApprovalRequest }) => {
+    if (!payload?.sessionId || !payload.approval) return;
+    console.log('[chat] onApprovalRequest', { sessionId: payload.sessionId, tool: payload.approval.toolName });
+    useChatStore.getState().addApproval(payload.sessionId, payload.approval);
+  },
+);
+
 
 
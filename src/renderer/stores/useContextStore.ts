@@ -10,15 +10,22 @@ export type NavigationEntry = {
   context: AppContext;
   sessionId?: string;
   sessionName?: string;
+  siteId?: string;
 };
 
 export type CourseSessionContext = {
   sessionId: string;
   sessionName: string;
+  // Scope of the Moodle site the course belongs to ('' for the first site)
+  siteId: string;
   view: 'ask' | 'grading' | 'overview' | 'courseworkGenerator' | 'companion';
 };
 
-// Store for individual session states
+// Key of a session's stored state; two Moodle sites can share a course shortname
+export const courseSessionKey = (sessionId: string, siteId = '') =>
+  siteId ? `${sessionId}@${siteId}` : sessionId;
+
+// Store for individual session states, keyed by courseSessionKey
 export type CourseSessionState = {
   [sessionId: string]: {
     view: 'ask' | 'grading' | 'overview' | 'courseworkGenerator' | 'companion';
@@ -83,6 +90,9 @@ interface ContextState {
   settingsContext: SettingsContext;
   workContext: WorkContext;
 
+  // Moodle site whose courses are being browsed
+  activeSiteId: string;
+
   // Navigation history for back/forward functionality
   navigationHistory: NavigationEntry[];
   historyIndex: number;
@@ -96,6 +106,7 @@ interface ContextState {
   ) => void;
   navigateToSettings: (section?: SettingsContext['section']) => void;
   navigateToWork: (view?: WorkContext['view']) => void;
+  setActiveSite: (siteId: string) => void;
 
   // Context-specific actions
   updateHomeView: (view: HomeContext['view']) => void;
@@ -128,6 +139,7 @@ export const useContextStore = create<ContextState>()(
         courseSessionStates: {}, // Empty object to store session states
         settingsContext: { section: 'general' },
         workContext: { view: 'tracking' },
+        activeSiteId: '',
 
         navigationHistory: [{ context: 'home' as AppContext }],
         historyIndex: 0,
@@ -166,12 +178,14 @@ export const useContextStore = create<ContextState>()(
                   context: 'course-session' as AppContext,
                   sessionId,
                   sessionName,
+                  siteId: state.activeSiteId,
                 },
               ];
 
         // Priority: 1) Explicit view param, 2) Existing persisted state, 3) Default 'ask'
+        const sessionKey = courseSessionKey(sessionId, state.activeSiteId);
         const existingSessionState =
-          state.courseSessionStates[sessionId];
+          state.courseSessionStates[sessionKey];
         // Coerce any 'companion' view to 'ask' since companion is overlay-only
         const requestedView = view ?? existingSessionState?.view ?? 'ask';
         const sessionView = requestedView === 'companion' ? 'ask' : requestedView;
@@ -179,7 +193,7 @@ export const useContextStore = create<ContextState>()(
               // Update the session state in our store
               const updatedSessionStates = {
                 ...state.courseSessionStates,
-                [sessionId]: { view: sessionView },
+                [sessionKey]: { view: sessionView },
               };
 
               return {
@@ -188,6 +202,7 @@ export const useContextStore = create<ContextState>()(
                 courseSessionContext: {
                   sessionId,
                   sessionName,
+                  siteId: state.activeSiteId,
                   view: sessionView,
                 },
                 courseSessionStates: updatedSessionStates,
@@ -240,6 +255,22 @@ export const useContextStore = create<ContextState>()(
           );
         },
 
+        // Switching Moodle site leaves its courses, so history restarts at home
+        setActiveSite: (siteId) => {
+          if (get().activeSiteId === siteId) return;
+          set(
+            {
+              activeSiteId: siteId,
+              currentContext: 'home' as AppContext,
+              courseSessionContext: null,
+              navigationHistory: [{ context: 'home' as AppContext }],
+              historyIndex: 0,
+            },
+            false,
+            'setActiveSite',
+          );
+        },
+
 
 
 
@@ -259,12 +290,12 @@ export const useContextStore = create<ContextState>()(
             (state) => {
               if (!state.courseSessionContext) return state;
 
-        const { sessionId } = state.courseSessionContext;
+        const { sessionId, siteId } = state.courseSessionContext;
         // Prevent persisting/selecting 'companion' as an inline view
         const coercedView = view === 'companion' ? 'ask' : view;
         const updatedSessionStates = {
           ...state.courseSessionStates,
-          [sessionId]: { view: coercedView }, // ✅ This updates the persisted state
+          [courseSessionKey(sessionId, siteId)]: { view: coercedView }, // ✅ This updates the persisted state
         };
 
               return {
@@ -313,11 +344,15 @@ export const useContextStore = create<ContextState>()(
               targetEntry.sessionId &&
               targetEntry.sessionName
             ) {
+              const siteId = targetEntry.siteId || '';
               const sessionState =
-                state.courseSessionStates[targetEntry.sessionId];
+                state.courseSessionStates[
+                  courseSessionKey(targetEntry.sessionId, siteId)
+                ];
               updates.courseSessionContext = {
                 sessionId: targetEntry.sessionId,
                 sessionName: targetEntry.sessionName,
+                siteId,
                 view: sessionState?.view || 'ask',
               };
             } else if (targetEntry.context !== 'course-session') {
@@ -344,11 +379,15 @@ export const useContextStore = create<ContextState>()(
               targetEntry.sessionId &&
               targetEntry.sessionName
             ) {
+              const siteId = targetEntry.siteId || '';
               const sessionState =
-                state.courseSessionStates[targetEntry.sessionId];
+                state.courseSessionStates[
+                  courseSessionKey(targetEntry.sessionId, siteId)
+                ];
               updates.courseSessionContext = {
                 sessionId: targetEntry.sessionId,
                 sessionName: targetEntry.sessionName,
+                siteId,
                 view: sessionState?.view || 'ask',
               };
             } else if (targetEntry.context !== 'course-session') {
@@ -0,0 +1,372 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type {
+  GradingJob,
+  GradingJobItem,
+  GradingRecord,
+} from '../types/grading';
+import { useGradingStore } from './useGradingStore';
+import { useContextStore } from './useContextStore';
+
+// Grades one student; rejects when grading fails
+export type GradeStudentFn = (studentId: string) => Promise<void>;
+
+type GradingErrorType = NonNullable<GradingRecord['errorType']>;
+
+// A single AI grading run should never take this long; treat it as a dropped connection
+const ITEM_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Runtime state that must not go through zustand (functions, counters)
+const graders: Record<string, GradeStudentFn> = {};
+const activeWorkers: Record<string, number> = {}; // keyed by jobId
+
+// Jobs belong to the Moodle site they were created on
+const activeSite = () => useContextStore.getState().activeSiteId;
+
+const mapJobSnapshot = (snapshot: any): GradingJob | null => {
+  if (!snapshot?.job) return null;
+  const { job, items } = snapshot;
+  return {
+    id: String(job.id),
+    assignmentId: String(job.assignment_id),
+    site: String(job.site ?? ''),
+    courseId: job.course_id ? String(job.course_id) : undefined,
+    status: job.status,
+    concurrency: Number(job.concurrency),
+    maxRetries: Number(job.max_retries),
+    items: (Array.isArray(items) ? items : []).map(
+      (item: any): GradingJobItem => ({
+        studentId: String(item.student_id),
+        status: item.status,
+        attempts: Number(item.attempts),
+        errorType: item.error_type || undefined,
+        errorMessage: item.error_message || undefined,
+      }),
+    ),
+  };
+};
+
+const classifyGradingError = (
+  assignmentId: string,
+  studentId: string,
+  error: any,
+): GradingErrorType => {
+  const recordType = useGradingStore
+    .getState()
+    .getGradingRecord(assignmentId, studentId)?.errorType;
+  if (recordType && recordType !== 'unknown') return recordType;
+
+  const message = String(error?.message || error || '');
+  if (
+    /network|timed? ?out|ECONN|ENOTFOUND|ETIMEDOUT|socket|fetch|download|rate limit|429|50[234]/i.test(
+      message,
+    )
+  ) {
+    return 'network';
+  }
+  if (/parse|JSON|unexpected token/i.test(message)) {
+    return 'parsing';
+  }
+  return 'unknown';
+};
+
+const withTimeout = async (
+  promise: Promise<void>,
+  ms: number,
+  onTimeout: () => void,
+) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      onTimeout();
+      reject(
+        new Error(`Grading timed out after ${Math.round(ms / 60000)} minutes`),
+      );
+    }, ms);
+  });
+  try {
+    await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+type GradingQueueState = {
+  jobs: Record<string, GradingJob>; // keyed by assignmentId
+  concurrency: number;
+  maxRetries: number;
+
+  setConcurrency: (concurrency: number) => void;
+  startJob: (
+    assignmentId: string,
+    studentIds: string[],
+    grader: GradeStudentFn,
+    courseId?: string,
+  ) => Promise<void>;
+  attachJob: (assignmentId: string, grader: GradeStudentFn) => Promise<void>;
+  pauseJob: (assignmentId: string) => Promise<void>;
+  resumeJob: (assignmentId: string, retryFailed?: boolean) => Promise<void>;
+  cancelJob: (assignmentId: string) => Promise<void>;
+  refreshJob: (assignmentId: string) => Promise<void>;
+  getJob: (assignmentId: string) => GradingJob | null;
+  isJobActive: (assignmentId: string) => boolean;
+};
+
+export const useGradingQueueStore = create<GradingQueueState>()(
+  devtools(
+    persist(
+      (set, get) => {
+        const setJob = (assignmentId: string, job: GradingJob | null) => {
+          set(
+            (state) => {
+              const jobs = { ...state.jobs };
+              if (job) {
+                jobs[assignmentId] = job;
+              } else {
+                delete jobs[assignmentId];
+              }
+              return { jobs };
+            },
+            false,
+            'gradingQueue:setJob',
+          );
+        };
+
+        // Resolves with the number of items the worker claimed
+        const runWorker = async (
+          assignmentId: string,
+          jobId: string,
+          site: string,
+        ) => {
+          const ipc = window.electron.ipcRenderer;
+          let claimed = 0;
+
+          // eslint-disable-next-line no-constant-condition
+          while (true) {
+            const grader = graders[assignmentId];
+            // The grader works on the active site's submissions; the job resumes
+            // when its site is opened again
+            if (!grader || activeSite() !== site) break;
+
+            const claim = await ipc.invoke('grading-queue:claim', { jobId });
+            if (!claim.success || !claim.data) break;
+            claimed += 1;
+
+            const studentId = String(claim.data.student_id);
+            await get().refreshJob(assignmentId);
+
+            try {
+              await withTimeout(grader(studentId), ITEM_TIMEOUT_MS, () => {
+                useGradingStore.getState().abortGrading(studentId);
+              });
+              await ipc.invoke('grading-queue:complete-item', {
+                jobId,
+                studentId,
+              });
+            } catch (error: any) {
+              const errorType = classifyGradingError(
+                assignmentId,
+                studentId,
+                error,
+              );
+              const result = await ipc.invoke('grading-queue:fail-item', {
+                jobId,
+                studentId,
+                errorType,
+                errorMessage: error?.message || String(error),
+              });
+              console.warn(
+                `[GradingQueue] ${studentId} failed (${errorType})${result.data?.retrying ? ', will retry' : ''}:`,
+                error?.message,
+              );
+            }
+
+            await get().refreshJob(assignmentId);
+          }
+          return claimed;
+        };
+
+        // Fill the job up to its concurrency with workers pulling from the queue
+        const runJob = (assignmentId: string) => {
+          const job = get().jobs[assignmentId];
+          if (!job || job.status !== 'running') return;
+
+          const missing = job.concurrency - (activeWorkers[job.id] || 0);
+          for (let i = 0; i < missing; i += 1) {
+            activeWorkers[job.id] = (activeWorkers[job.id] || 0) + 1;
+            // eslint-disable-next-line no-use-before-define
+            superviseWorker(assignmentId, job.id, job.site);
+          }
+        };
+
+        const superviseWorker = async (
+          assignmentId: string,
+          jobId: string,
+          site: string,
+        ) => {
+          let claimed = 0;
+          try {
+            claimed = await runWorker(assignmentId, jobId, site);
+          } catch (error) {
+            console.error('[GradingQueue] Worker crashed:', error);
+          }
+
+          activeWorkers[jobId] -= 1;
+          if (activeWorkers[jobId] === 0) delete activeWorkers[jobId];
+          await get().refreshJob(assignmentId);
+
+          // Items retried after another worker stopped are still pending; replace the
+          // worker unless it could not claim anything (nothing would change on retry)
+          const job = get().jobs[assignmentId];
+          if (
+            claimed > 0 &&
+            job?.id === jobId &&
+            job.items.some((item) => item.status === 'pending')
+          ) {
+            runJob(assignmentId);
+          }
+        };
+
+        return {
+          jobs: {},
+          concurrency: 2,
+          maxRetries: 2,
+
+          setConcurrency: (concurrency: number) => {
+            set(
+              { concurrency: Math.max(1, Math.min(concurrency, 8)) },
+              false,
+              'gradingQueue:setConcurrency',
+            );
+          },
+
+          startJob: async (assignmentId, studentIds, grader, courseId) => {
+            if (studentIds.length === 0) return;
+            graders[assignmentId] = grader;
+
+            const { concurrency, maxRetries } = get();
+            const result = await window.electron.ipcRenderer.invoke(
+              'grading-queue:create',
+              {
+                assignmentId,
+                site: activeSite(),
+                courseId,
+                studentIds,
+                concurrency,
+                maxRetries,
+              },
+            );
+            if (!result.success) {
+              console.error(
+                '[GradingQueue] Failed to create job:',
+                result.error,
+              );
+              return;
+            }
+
+            setJob(assignmentId, mapJobSnapshot(result.data));
+            runJob(assignmentId);
+          },
+
+          // Called when the submissions panel mounts: registers the grader and
+          // resumes a job that was still running when the app was closed
+          attachJob: async (assignmentId, grader) => {
+            graders[assignmentId] = grader;
+            const loaded = get().jobs[assignmentId];
+            const result = await window.electron.ipcRenderer.invoke(
+              'grading-queue:get',
+              {
+                assignmentId,
+                site: activeSite(),
+                recoverInterrupted: !(loaded && activeWorkers[loaded.id]),
+              },
+            );
+            if (!result.success) {
+              console.error('[GradingQueue] Failed to load job:', result.error);
+              return;
+            }
+
+            setJob(assignmentId, mapJobSnapshot(result.data));
+            runJob(assignmentId);
+          },
+
+          // Running items finish; no new items are claimed
+          pauseJob: async (assignmentId) => {
+            const job = get().jobs[assignmentId];
+            if (!job) return;
+            const result = await window.electron.ipcRenderer.invoke(
+              'grading-queue:set-status',
+              {
+                jobId: job.id,
+                status: 'paused',
+              },
+            );
+            if (result.success) {
+              setJob(assignmentId, mapJobSnapshot(result.data));
+            }
+          },
+
+          resumeJob: async (assignmentId, retryFailed = false) => {
+            const job = get().jobs[assignmentId];
+            if (!job) return;
+            const result = await window.electron.ipcRenderer.invoke(
+              'grading-queue:set-status',
+              {
+                jobId: job.id,
+                status: 'running',
+                retryFailed,
+              },
+            );
+            if (result.success) {
+              setJob(assignmentId, mapJobSnapshot(result.data));
+              runJob(assignmentId);
+            }
+          },
+
+          cancelJob: async (assignmentId) => {
+            const job = get().jobs[assignmentId];
+            if (!job) return;
+            const result = await window.electron.ipcRenderer.invoke(
+              'grading-queue:set-status',
+              {
+                jobId: job.id,
+                status: 'cancelled',
+              },
+            );
+            if (result.success) {
+              setJob(assignmentId, null);
+            }
+          },
+
+          refreshJob: async (assignmentId) => {
+            const result = await window.electron.ipcRenderer.invoke(
+              'grading-queue:get',
+              { assignmentId, site: activeSite() },
+            );
+            if (result.success) {
+              setJob(assignmentId, mapJobSnapshot(result.data));
+            }
+          },
+
+          getJob: (assignmentId) => get().jobs[assignmentId] || null,
+
+          isJobActive: (assignmentId) => {
+            const job = get().jobs[assignmentId];
+            return (
+              !!job && (job.status === 'running' || job.status === 'paused')
+            );
+          },
+        };
+      },
+      {
+        name: 'grading-queue-settings',
+        // Jobs live in SQLite; only the user's queue settings are persisted here
+        partialize: (state) => ({
+          concurrency: state.concurrency,
+          maxRetries: state.maxRetries,
+        }),
+      },
+    ),
+    { name: 'grading-queue-store' },
+  ),
+);
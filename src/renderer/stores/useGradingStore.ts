@@ -2,17 +2,130 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import type { MoodleUser } from '../types/moodle';
 import { useChatStore } from './useChatStore';
-import type { MoodleSubmission, MoodleGrade } from '@/types/moodle';
+import { useContextStore } from './useContextStore';
+import type {
+  MoodleSubmission,
+  MoodleGrade,
+  MoodleGroup,
+  MoodleAssignment,
+} from '@/types/moodle';
 import type {
   StudentSubmissionData,
   GradingStats,
   AIGradeResult,
   DetailedAIGradeResult,
   RubricContent,
+  Rubric,
   AssignmentRubric,
   GradingRecord,
   PersistedGradingData,
+  ModerationSettings,
+  ModerationResult,
+  LatePenaltySettings,
+  LatePenalty,
+  ImportedFinalGrade,
+  FeedbackFile,
 } from '@/types/grading';
+import {
+  validateScoreBreakdown,
+  convertMoodleGradingDefinition,
+  formatRubricForPrompt,
+  rubricToHtml,
+  buildAdvancedGradingData,
+  compareScoreBreakdowns,
+  isSameGradeResult,
+  getRubricTotal,
+} from '@/utils/rubric';
+import { isOnlineTextActivity } from '@/utils/gradableActivity';
+import {
+  DEFAULT_LATE_PENALTY,
+  calculateLatePenalty,
+  getPenaltyMaxScore,
+  getSubmissionTiming,
+} from '@/utils/latePenalty';
+
+// Groups of a course, or of one grouping when a team assignment is limited to it
+export const courseGroupsKey = (courseId: string, groupingId = 0) =>
+  groupingId ? `${courseId}:${groupingId}` : courseId;
+
+// Scope of the Moodle site the user is working in. Grading data is saved for the site a
+// piece of work was started on, which may no longer be the active one when it finishes.
+const activeSite = () => useContextStore.getState().activeSiteId;
+
+// Site each running AI grading was started on, by student
+const gradingSites = new Map<string, string>();
+const gradingSite = (studentId: string) =>
+  gradingSites.get(studentId) ?? activeSite();
+
+// Grading records and rubrics live in SQLite (grading:* IPC); the store keeps an
+// in-memory cache of the rows for the assignments that have been opened
+const persistGradingRecord = (record: GradingRecord, site: string) => {
+  window.electron.ipcRenderer
+    .invoke('grading:save-record', { record, site })
+    .then((result) => {
+      if (!result.success)
+        console.error(
+          '[GradingStore] Failed to save grading record:',
+          result.error,
+        );
+    })
+    .catch((error) =>
+      console.error('[GradingStore] Failed to save grading record:', error),
+    );
+};
+
+// Pending import of records from the old localStorage blob; loads wait for it
+let legacyImport: Promise<void> = Promise.resolve();
+// The old blob is persisted again until the import succeeds, so a failed import is retried on the next start
+let legacyData: Pick<
+  GradingState,
+  'assignmentRubrics' | 'gradingRecords'
+> | null = null;
+
+const invokeGradingDb = (channel: string, args: Record<string, unknown>) => {
+  window.electron.ipcRenderer
+    .invoke(channel, args)
+    .then((result) => {
+      if (!result.success)
+        console.error(`[GradingStore] ${channel} failed:`, result.error);
+    })
+    .catch((error) =>
+      console.error(`[GradingStore] ${channel} failed:`, error),
+    );
+};
+
+// Moodle submissions and grades (live or from the local mirror), with user ids as strings
+const toMoodleSubmission = (sub: any): MoodleSubmission => ({
+  userid: String(sub.userid || (sub.groupid ? 0 : sub.id)),
+  status: sub.status || 'new',
+  timemodified: sub.timemodified,
+  attemptnumber: sub.attemptnumber || 0,
+  groupid: sub.groupid ? String(sub.groupid) : undefined,
+});
+
+const toMoodleGrade = (grade: any): MoodleGrade => ({
+  userid: String(grade.userid || grade.id),
+  grade: parseFloat(grade.grade) || 0,
+  timemodified: grade.timemodified,
+  feedback: grade.assignfeedbackcomments || grade.feedback || '',
+});
+
+// A group's grade is the one most of its members have; individual adjustments differ from it
+const getGroupGrade = (
+  memberGrades: MoodleGrade[],
+): MoodleGrade | undefined => {
+  const counts = new Map<number, number>();
+  memberGrades.forEach((grade) =>
+    counts.set(grade.grade, (counts.get(grade.grade) || 0) + 1),
+  );
+  return memberGrades.reduce<MoodleGrade | undefined>(
+    (best, grade) =>
+      !best || counts.get(grade.grade)! > counts.get(best.grade)!
+        ? grade
+        : best,
+    undefined,
+  );
+};
 
 interface GradingState {
   // Assignment selection
@@ -34,6 +147,8 @@ interface GradingState {
   studentData: StudentSubmissionData[];
   submissions: MoodleSubmission[];
   grades: MoodleGrade[];
+  extensions: Record<string, number>; // Student ID -> extended due date for the selected assignment
+  courseGroups: Record<string, MoodleGroup[]>; // courseGroupsKey -> groups, fetched for team assignments
 
   // UI state
   loading: boolean;
@@ -45,6 +160,13 @@ interface GradingState {
   finalGrade: string;
   finalFeedback: string;
 
+  // Moderation (second-pass review)
+  moderationSettings: ModerationSettings;
+  moderationInProgress: Set<string>; // Student IDs whose second pass is running
+
+  // Late penalty applied before publishing
+  latePenaltySettings: LatePenaltySettings;
+
   // Grading progress tracking
   gradingInProgress: Set<string>; // Set of student IDs currently being graded
   activeGradingStudent: string | null; // The student whose grading process should be displayed
@@ -69,8 +191,19 @@ interface GradingState {
   loadRubricContent: (file: File) => Promise<void>;
   reloadRubricFromPath: (assignmentId: string) => Promise<void>;
   getRubricForAssignment: (assignmentId: string) => RubricContent | null;
-  saveRubricForAssignment: (assignmentId: string, rubricContent: RubricContent) => void;
+  saveRubricForAssignment: (
+    assignmentId: string,
+    rubricContent: RubricContent,
+    site?: string,
+  ) => void;
+  updateStructuredRubric: (assignmentId: string, rubric: Rubric | null) => void;
+  loadMoodleRubric: (
+    assignmentId: string,
+    cmid: string | number,
+    config: { baseUrl: string },
+  ) => Promise<void>;
   clearRubricForAssignment: (assignmentId: string) => void;
+  loadGradingDataForAssignment: (assignmentId: string) => Promise<void>;
 
   // Grading status actions
   getGradingRecord: (assignmentId: string, studentId: string) => GradingRecord | null;
@@ -78,8 +211,30 @@ interface GradingState {
   saveDetailedGradingRecord: (assignmentId: string, studentId: string, detailedResult: DetailedAIGradeResult) => void;
   getDetailedAIGradeResult: (assignmentId: string, studentId: string) => DetailedAIGradeResult | null;
   updateFinalGrading: (assignmentId: string, studentId: string, finalGrade: string, finalFeedback: string) => void;
+  importFinalGrades: (
+    assignmentId: string,
+    grades: ImportedFinalGrade[],
+  ) => number;
   clearGradingRecord: (assignmentId: string, studentId: string) => void;
   isStudentAIGraded: (assignmentId: string, studentId: string) => boolean;
+  setModerationSettings: (settings: Partial<ModerationSettings>) => void;
+  runModerationPass: (
+    assignmentId: string,
+    studentId: string,
+    gradingPrompt: string,
+  ) => Promise<ModerationResult | null>;
+  setLatePenaltySettings: (settings: Partial<LatePenaltySettings>) => void;
+  getLatePenalty: (
+    assignmentId: string,
+    studentId: string,
+    assignment?: MoodleAssignment,
+  ) => LatePenalty | null;
+  getPublishableAIGrade: (
+    assignmentId: string,
+    studentId: string,
+    assignment: MoodleAssignment | undefined,
+    describePenalty: (penalty: LatePenalty) => string,
+  ) => { grade: string; feedback: string; penalty: LatePenalty | null };
   setStudentData: (data: StudentSubmissionData[]) => void;
   setSubmissions: (submissions: MoodleSubmission[]) => void;
   setGrades: (grades: MoodleGrade[]) => void;
@@ -95,16 +250,35 @@ interface GradingState {
   getSelectedSubmissionData: () => StudentSubmissionData | undefined;
 
   // Complex actions
-  processStudentData: (students: MoodleUser[]) => void;
+  processStudentData: (students: MoodleUser[], groups?: MoodleGroup[]) => void;
   clearGradingData: () => void;
   resetToAssignmentSelection: () => void;
 
   // API actions
-  loadAssignmentData: (assignmentId: string, config: { baseUrl: string; apiKey: string }) => Promise<void>;
-  submitGrade: (assignmentId: string, userId: string, grade: number, feedback: string, config: { baseUrl: string; apiKey: string }) => Promise<{ success: boolean; error?: string }>;
+  loadAssignmentData: (assignmentId: string, config: { baseUrl: string }) => Promise<void>;
+  submitGrade: (
+    assignmentId: string,
+    userId: string,
+    grade: number,
+    feedback: string,
+    config: { baseUrl: string },
+    feedbackFile?: FeedbackFile,
+    options?: { applyToAll?: boolean; maxGrade?: number },
+  ) => Promise<{ success: boolean; error?: string }>;
+  loadCourseGroups: (
+    courseId: string,
+    config: { baseUrl: string },
+    groupingId?: number,
+  ) => Promise<void>;
+  grantExtensions: (
+    assignmentId: string,
+    userIds: string[],
+    extensionDueDate: number,
+    config: { baseUrl: string },
+  ) => Promise<{ success: boolean; error?: string; failed: string[] }>;
 
   // Initialization
-  initializeFromPersistedData: () => void;
+  initializeFromPersistedData: () => Promise<void>;
 
   // Grading progress actions
   startGrading: (studentId: string) => void;
@@ -142,19 +316,37 @@ export const useGradingStore = create<GradingState>()(
       studentData: [],
       submissions: [],
       grades: [],
+        extensions: {},
+        courseGroups: {},
       loading: false,
       isGrading: false,
       aiGradeResult: null,
       detailedAIGradeResult: null,
       finalGrade: '',
       finalFeedback: '',
+        latePenaltySettings: DEFAULT_LATE_PENALTY,
+        moderationSettings: {
+          enabled: false,
+          threshold: 0.2,
+          temperature: 0.7,
+        },
+        moderationInProgress: new Set<string>(),
       gradingInProgress: new Set<string>(),
       activeGradingStudent: null,
       gradingStreams: {},
 
       // Basic setters
       setSelectedAssignment: async (assignmentId: string) => {
-        const { getRubricForAssignment, reloadRubricFromPath, selectedAssignment } = get();
+          const {
+            getRubricForAssignment,
+            reloadRubricFromPath,
+            selectedAssignment,
+            loadGradingDataForAssignment,
+          } = get();
+
+          if (assignmentId) {
+            await loadGradingDataForAssignment(assignmentId);
+          }
 
         // Load rubric for this assignment if it exists
         const existingRubric = getRubricForAssignment(assignmentId);
@@ -291,7 +483,8 @@ export const useGradingStore = create<GradingState>()(
 
           for (let attempt = 1; attempt <= maxParseRetries && !parseSuccess; attempt++) {
             parseResult = await window.electron.ipcRenderer.invoke('docx:parse-file', {
-              filePath: saveResult.filePath
+                  filePath: saveResult.filePath,
+                  extractRubric: true,
             });
 
             if (parseResult.success) {
@@ -338,7 +531,11 @@ export const useGradingStore = create<GradingState>()(
         return rubric ? rubric.rubricContent : null;
       },
 
-      saveRubricForAssignment: (assignmentId: string, rubricContent: RubricContent) => {
+        saveRubricForAssignment: (
+          assignmentId: string,
+          rubricContent: RubricContent,
+          site = activeSite(),
+        ) => {
         const { assignmentRubrics } = get();
 
         const newRubric: AssignmentRubric = {
@@ -352,6 +549,97 @@ export const useGradingStore = create<GradingState>()(
         updatedRubrics.push(newRubric);
 
         set({ assignmentRubrics: updatedRubrics });
+          invokeGradingDb('grading:save-rubric', {
+            assignmentId,
+            rubricContent,
+            uploadedAt: newRubric.uploadedAt,
+            site,
+          });
+        },
+
+        updateStructuredRubric: (
+          assignmentId: string,
+          rubric: Rubric | null,
+        ) => {
+          const {
+            getRubricForAssignment,
+            saveRubricForAssignment,
+            selectedAssignment,
+          } = get();
+          const existingRubric = getRubricForAssignment(assignmentId);
+
+          if (!existingRubric) {
+            return;
+          }
+
+          const updatedRubricContent: RubricContent = {
+            ...existingRubric,
+            rubric,
+          };
+          saveRubricForAssignment(assignmentId, updatedRubricContent);
+
+          if (assignmentId === selectedAssignment) {
+            set({ rubricContent: updatedRubricContent });
+          }
+        },
+
+        loadMoodleRubric: async (
+          assignmentId: string,
+          cmid: string | number,
+          config: { baseUrl: string },
+        ) => {
+          const { saveRubricForAssignment, selectedAssignment } = get();
+          const site = activeSite();
+          set({ rubricLoading: true, rubricError: null });
+
+          try {
+            const result = await window.electron.ipcRenderer.invoke(
+              'moodle:get-grading-definitions',
+              {
+                baseUrl: config.baseUrl,
+                cmid,
+              },
+            );
+
+            if (!result.success) {
+              throw new Error(
+                result.error || 'Failed to fetch grading definition',
+              );
+            }
+
+            const definition = result.data?.definition;
+            const rubric = definition
+              ? convertMoodleGradingDefinition(definition)
+              : null;
+            if (!rubric || rubric.criteria.length === 0) {
+              throw new Error(
+                'This assignment has no Moodle rubric or marking guide',
+              );
+            }
+
+            const text = formatRubricForPrompt(rubric);
+            const rubricContent: RubricContent = {
+              text,
+              html: rubricToHtml(rubric),
+              wordCount: text.split(/\s+/).filter((word) => word.length > 0)
+                .length,
+              characterCount: text.length,
+              filename: `${definition.name} (Moodle)`,
+              rubric,
+            };
+
+            saveRubricForAssignment(assignmentId, rubricContent, site);
+            if (assignmentId === selectedAssignment) {
+              set({ rubricContent, rubricFile: null, rubricError: null });
+            }
+          } catch (error: any) {
+            console.error('[GradingStore] Error loading Moodle rubric:', error);
+            set({
+              rubricError: error.message || 'Failed to load Moodle rubric',
+            });
+          } finally {
+            set({ rubricLoading: false });
+          }
       },
 
       reloadRubricFromPath: async (assignmentId: string) => {
@@ -361,24 +649,28 @@ export const useGradingStore = create<GradingState>()(
         if (!existingRubric || !existingRubric.filePath) {
           return;
         }
+          const site = activeSite();
         set({ rubricLoading: true, rubricError: null });
 
         try {
           // Check if file still exists and re-parse it
           const parseResult = await window.electron.ipcRenderer.invoke('docx:parse-file', {
-            filePath: existingRubric.filePath
+                filePath: existingRubric.filePath,
+                extractRubric: true,
           });
 
           if (parseResult.success) {
             const updatedRubricContent: RubricContent = {
               ...parseResult.content,
               filename: existingRubric.filename,
-              filePath: existingRubric.filePath
+                filePath: existingRubric.filePath,
+                // Keep criteria the teacher has already reviewed or edited
+                rubric: existingRubric.rubric ?? parseResult.content.rubric,
             };
 
             // Update the stored rubric content
             const { saveRubricForAssignment } = get();
-            saveRubricForAssignment(assignmentId, updatedRubricContent);
+              saveRubricForAssignment(assignmentId, updatedRubricContent, site);
 
             set({ rubricContent: updatedRubricContent, rubricError: null });
           } else {
@@ -402,6 +694,60 @@ export const useGradingStore = create<GradingState>()(
           rubricFile: null,
           rubricError: null
         });
+          invokeGradingDb('grading:clear-rubric', {
+            assignmentId,
+            site: activeSite(),
+          });
+        },
+
+        // Replace the cached records and rubric for an assignment with what is in SQLite
+        loadGradingDataForAssignment: async (assignmentId: string) => {
+          try {
+            await legacyImport;
+            const site = activeSite();
+            const [recordsResult, rubricsResult] = await Promise.all([
+              window.electron.ipcRenderer.invoke('grading:list-records', {
+                assignmentId,
+                site,
+              }),
+              window.electron.ipcRenderer.invoke('grading:list-rubrics', {
+                assignmentId,
+                site,
+              }),
+            ]);
+
+            if (!recordsResult.success || !rubricsResult.success) {
+              throw new Error(recordsResult.error || rubricsResult.error);
+            }
+            // Another site's assignment with the same id was opened meanwhile
+            if (activeSite() !== site) return;
+
+            const records: GradingRecord[] = recordsResult.data;
+            const rubrics: AssignmentRubric[] = rubricsResult.data.map(
+              (r: AssignmentRubric) => ({
+                assignmentId: r.assignmentId,
+                rubricContent: r.rubricContent,
+                uploadedAt: r.uploadedAt,
+              }),
+            );
+
+            set((state) => ({
+              gradingRecords: [
+                ...state.gradingRecords.filter(
+                  (r) => r.assignmentId !== assignmentId,
+                ),
+                ...records,
+              ],
+              assignmentRubrics: [
+                ...state.assignmentRubrics.filter(
+                  (r) => r.assignmentId !== assignmentId,
+                ),
+                ...rubrics,
+              ],
+            }));
+          } catch (error) {
+            console.error('[GradingStore] Failed to load grading data:', error);
+          }
       },
 
       // Grading status management
@@ -421,6 +767,7 @@ export const useGradingStore = create<GradingState>()(
           studentId,
           aiGradeResult,
           detailedAIGradeResult: existingRecord?.detailedAIGradeResult || null, // Preserve detailed results
+            similarity: existingRecord?.similarity,
           isAIGraded: true,
           gradedAt: Date.now(),
           finalGrade: String(aiGradeResult.grade),
@@ -441,6 +788,7 @@ export const useGradingStore = create<GradingState>()(
           finalGrade: String(aiGradeResult.grade),
           finalFeedback: aiGradeResult.feedback
         });
+          persistGradingRecord(newRecord, gradingSite(studentId));
       },
 
       updateFinalGrading: (assignmentId: string, studentId: string, finalGrade: string, finalFeedback: string) => {
@@ -458,16 +806,86 @@ export const useGradingStore = create<GradingState>()(
         });
 
         set({ gradingRecords: updatedRecords });
+          invokeGradingDb('grading:update-final', {
+            assignmentId,
+            studentId,
+            finalGrade,
+            finalFeedback,
+            site: activeSite(),
+          });
       },
 
-      saveDetailedGradingRecord: (assignmentId: string, studentId: string, detailedResult: DetailedAIGradeResult) => {
-        const { gradingRecords, getGradingRecord } = get();
+        // Load grades adjusted offline; students without a record get one holding only the final grade
+        importFinalGrades: (
+          assignmentId: string,
+          grades: ImportedFinalGrade[],
+        ) => {
+          const { getGradingRecord, updateFinalGrading } = get();
+          const createdRecords: GradingRecord[] = [];
+
+          grades.forEach(({ studentId, finalGrade, finalFeedback }) => {
+            const existingRecord = getGradingRecord(assignmentId, studentId);
+            if (existingRecord) {
+              updateFinalGrading(
+                assignmentId,
+                studentId,
+                finalGrade,
+                finalFeedback ?? existingRecord.finalFeedback ?? '',
+              );
+            } else {
+              createdRecords.push({
+                assignmentId,
+                studentId,
+                aiGradeResult: null,
+                detailedAIGradeResult: null,
+                isAIGraded: false,
+                finalGrade,
+                finalFeedback: finalFeedback ?? '',
+              });
+            }
+          });
+
+          if (createdRecords.length > 0) {
+            set((state) => ({
+              gradingRecords: [...state.gradingRecords, ...createdRecords],
+            }));
+            const site = activeSite();
+            createdRecords.forEach((record) =>
+              persistGradingRecord(record, site),
+            );
+          }
+
+          return grades.length;
+        },
+
+        saveDetailedGradingRecord: (
+          assignmentId: string,
+          studentId: string,
+          rawResult: DetailedAIGradeResult,
+        ) => {
+          const { gradingRecords, getGradingRecord, getRubricForAssignment } =
+            get();
+
+          // Pin the score breakdown to the structured rubric's criteria and maxima
+          const detailedResult = validateScoreBreakdown(
+            rawResult,
+            getRubricForAssignment(assignmentId)?.rubric,
+          );
 
         // Get existing record to preserve other data
         const existingRecord = getGradingRecord(assignmentId, studentId);
 
         const newRecord: GradingRecord = existingRecord ? {
           ...existingRecord,
+                // A new first pass makes any earlier moderation stale
+                moderation:
+                  existingRecord.detailedAIGradeResult &&
+                  isSameGradeResult(
+                    existingRecord.detailedAIGradeResult,
+                    detailedResult,
+                  )
+                    ? existingRecord.moderation
+                    : null,
           detailedAIGradeResult: detailedResult,
           isAIGraded: true,
           gradedAt: Date.now(),
@@ -511,6 +929,7 @@ export const useGradingStore = create<GradingState>()(
           finalGrade: String(detailedResult.overallScore),
           finalFeedback: detailedResult.shortFeedback
         });
+          persistGradingRecord(newRecord, gradingSite(studentId));
       },
 
       getDetailedAIGradeResult: (assignmentId: string, studentId: string): DetailedAIGradeResult | null => {
@@ -535,9 +954,189 @@ export const useGradingStore = create<GradingState>()(
           finalGrade: '',
           finalFeedback: ''
         });
+          invokeGradingDb('grading:delete-record', {
+            assignmentId,
+            studentId,
+            site: activeSite(),
+          });
         console.log('✅ [Store] clearGradingRecord completed');
       },
 
+        setModerationSettings: (settings: Partial<ModerationSettings>) => {
+          set((state) => ({
+            moderationSettings: { ...state.moderationSettings, ...settings },
+          }));
+        },
+
+        setLatePenaltySettings: (settings: Partial<LatePenaltySettings>) => {
+          set((state) => ({
+            latePenaltySettings: { ...state.latePenaltySettings, ...settings },
+          }));
+          invokeGradingDb('grading:save-late-penalty', {
+            settings: get().latePenaltySettings,
+          });
+        },
+
+        // Late penalty on the AI score, for assignments only (quizzes and forums have no lateness here)
+        getLatePenalty: (
+          assignmentId: string,
+          studentId: string,
+          assignment?: MoodleAssignment,
+        ) => {
+          const {
+            getGradingRecord,
+            getRubricForAssignment,
+            studentData,
+            latePenaltySettings,
+          } = get();
+          const aiGrade = getGradingRecord(assignmentId, studentId)
+            ?.aiGradeResult?.grade;
+          const data = studentData.find((s) => s.student.id === studentId);
+          if (
+            typeof aiGrade !== 'number' ||
+            !data ||
+            isOnlineTextActivity(assignmentId)
+          )
+            return null;
+
+          const rubric = getRubricForAssignment(assignmentId)?.rubric;
+          return calculateLatePenalty(
+            aiGrade,
+            getPenaltyMaxScore(rubric ? getRubricTotal(rubric) : 0, assignment),
+            getSubmissionTiming(data, assignment),
+            latePenaltySettings,
+          );
+        },
+
+        // The AI grade and feedback as they will be published, with any late penalty applied and explained.
+        // Every submit (single, batch or group) starts from these so none of them skips the penalty.
+        getPublishableAIGrade: (
+          assignmentId,
+          studentId,
+          assignment,
+          describePenalty,
+        ) => {
+          const aiGradeResult = get().getGradingRecord(
+            assignmentId,
+            studentId,
+          )?.aiGradeResult;
+          const penalty = get().getLatePenalty(
+            assignmentId,
+            studentId,
+            assignment,
+          );
+          if (!penalty) {
+            return {
+              grade: aiGradeResult?.grade?.toString() || '',
+              feedback: aiGradeResult?.feedback || '',
+              penalty,
+            };
+          }
+          return {
+            grade: penalty.grade.toString(),
+            feedback: [aiGradeResult?.feedback, describePenalty(penalty)]
+              .filter(Boolean)
+              .join('\n\n'),
+            penalty,
+          };
+        },
+
+        // Grade the submission again independently and compare the two breakdowns
+        runModerationPass: async (
+          assignmentId: string,
+          studentId: string,
+          gradingPrompt: string,
+        ) => {
+          const {
+            moderationSettings,
+            getGradingRecord,
+            getRubricForAssignment,
+          } = get();
+          const primary = getGradingRecord(
+            assignmentId,
+            studentId,
+          )?.detailedAIGradeResult;
+          if (!primary) {
+            return null;
+          }
+
+          const site = activeSite();
+          set((state) => ({
+            moderationInProgress: new Set(state.moderationInProgress).add(
+              studentId,
+            ),
+          }));
+
+          try {
+            const result = await window.electron.ipcRenderer.invoke(
+              'moderation:grade',
+              {
+                prompt: gradingPrompt,
+                model: moderationSettings.model || undefined,
+                temperature: moderationSettings.temperature,
+              },
+            );
+
+            if (!result.success) {
+              throw new Error(result.error || 'Moderation pass failed');
+            }
+
+            const secondPass = validateScoreBreakdown(
+              {
+                comments: [],
+                scoreBreakdown: [],
+                shortFeedback: '',
+                ...result.data.result,
+                overallScore: Number(result.data.result?.overallScore) || 0,
+              },
+              getRubricForAssignment(assignmentId)?.rubric,
+            );
+            const disagreements = compareScoreBreakdowns(
+              primary.scoreBreakdown || [],
+              secondPass.scoreBreakdown || [],
+              moderationSettings.threshold,
+            );
+            const moderation: ModerationResult = {
+              secondPass,
+              disagreements,
+              flagged: disagreements.some((d) => d.exceedsThreshold),
+              threshold: moderationSettings.threshold,
+              model: result.data.model,
+              moderatedAt: Date.now(),
+            };
+
+            // The first pass may have been cleared or regraded while we waited
+            const record = get().getGradingRecord(assignmentId, studentId);
+            if (
+              !record?.detailedAIGradeResult ||
+              !isSameGradeResult(record.detailedAIGradeResult, primary)
+            ) {
+              return null;
+            }
+
+            const updatedRecord: GradingRecord = { ...record, moderation };
+            set((state) => ({
+              gradingRecords: state.gradingRecords.map((r) =>
+                r.assignmentId === assignmentId && r.studentId === studentId
+                  ? updatedRecord
+                  : r,
+              ),
+            }));
+            persistGradingRecord(updatedRecord, site);
+
+            return moderation;
+          } catch (error: any) {
+            console.error('[GradingStore] Moderation pass failed:', error);
+            return null;
+          } finally {
+            set((state) => {
+              const moderationInProgress = new Set(state.moderationInProgress);
+              moderationInProgress.delete(studentId);
+              return { moderationInProgress };
+            });
+          }
+        },
+
       isStudentAIGraded: (assignmentId: string, studentId: string): boolean => {
         const { gradingRecords } = get();
         const record = gradingRecords.find(r => r.assignmentId === assignmentId && r.studentId === studentId);
@@ -616,26 +1215,84 @@ export const useGradingStore = create<GradingState>()(
       },
 
       // Complex actions
-      processStudentData: (students: MoodleUser[]) => {
-        const { submissions, grades } = get();
+        processStudentData: (
+          students: MoodleUser[],
+          groups: MoodleGroup[] = [],
+        ) => {
+          const { submissions, grades, extensions } = get();
 
         if (!students.length) return;
 
+          // Team assignments: each group becomes one row, keyed by its first member. A student in
+          // several groups belongs to the one that submitted, as Moodle only lets one of them submit.
+          const submittedGroups = new Set(
+            (submissions || []).map((sub) => sub.groupid).filter(Boolean),
+          );
+          const groupByMember = new Map<string, MoodleGroup>();
+          groups.forEach((group) =>
+            group.members.forEach((memberId) => {
+              const current = groupByMember.get(memberId);
+              if (
+                !current ||
+                (!submittedGroups.has(current.id) &&
+                  submittedGroups.has(group.id))
+              ) {
+                groupByMember.set(memberId, group);
+              }
+            }),
+          );
+          const seenGroups = new Set<string>();
 
-        const combinedData: StudentSubmissionData[] = students.map(student => {
-          // Ensure student.id is a string for comparison
+          const combinedData: StudentSubmissionData[] = students.flatMap(
+            (student) => {
+              // Ensure student.id is a string for comparison
           const studentId = String(student.id);
+              const group = groupByMember.get(studentId);
+
+              if (group) {
+                if (seenGroups.has(group.id)) return [];
+                seenGroups.add(group.id);
+
+                const members = students.filter(
+                  (s) => groupByMember.get(String(s.id))?.id === group.id,
+                );
+                const submission =
+                  submissions?.find((sub) => sub.groupid === group.id) ||
+                  submissions?.find((sub) => sub.userid === studentId);
+                const grade = getGroupGrade(
+                  grades?.filter((gr) =>
+                    members.some((m) => String(m.id) === gr.userid),
+                  ) || [],
+                );
+
+                return [
+                  {
+                    student,
+                    submission,
+                    grade,
+                    currentGrade: grade ? grade.grade.toString() : '',
+                    feedback: grade?.feedback || '',
+                    isEditing: false,
+                    extensionDueDate: extensions[studentId],
+                    group: { id: group.id, name: group.name, members },
+                  },
+                ];
+              }
+
           const submission = submissions?.find(sub => sub.userid === studentId);
           const grade = grades?.find(gr => gr.userid === studentId);
 
-          return {
+              return [
+                {
             student,
             submission,
             grade,
             currentGrade: grade ? grade.grade.toString() : '',
             feedback: grade?.feedback || '',
-            isEditing: false
-          };
+                  isEditing: false,
+                  extensionDueDate: extensions[studentId],
+                },
+              ];
         });
 
 
@@ -656,6 +1313,8 @@ export const useGradingStore = create<GradingState>()(
           studentData: [],
           submissions: [],
           grades: [],
+            extensions: {},
+            courseGroups: {},
           loading: false,
           isGrading: false,
           aiGradeResult: null,
@@ -680,51 +1339,101 @@ export const useGradingStore = create<GradingState>()(
       },
 
       // API actions
-      loadAssignmentData: async (assignmentId: string, config: { baseUrl: string; apiKey: string }) => {
+      loadAssignmentData: async (assignmentId: string, config: { baseUrl: string }) => {
         if (!assignmentId) return;
 
-        set({ loading: true });
+          set({ loading: true, extensions: {} });
+
+          // Show the mirrored submissions and grades while Moodle is asked
+          const mirrored = await window.electron.ipcRenderer
+            .invoke('moodle:mirror:get-assignment-data', {
+              baseUrl: config.baseUrl,
+              assignmentId,
+            })
+            .catch(() => null);
+          const cached =
+            mirrored?.success && mirrored.data
+              ? {
+                  submissions:
+                    mirrored.data.submissions.map(toMoodleSubmission),
+                  grades: mirrored.data.grades.map(toMoodleGrade),
+                }
+              : null;
+          if (cached) {
+            set(cached);
+          }
+
+          try {
+            // Quiz attempts and forum posts come back as submissions and grades in one call
+            if (isOnlineTextActivity(assignmentId)) {
+              const result = await window.electron.ipcRenderer.invoke(
+                'moodle:get-activity-submissions',
+                {
+                  baseUrl: config.baseUrl,
+                  activityId: assignmentId,
+                },
+              );
+              if (!result.success) {
+                throw new Error(
+                  result.error || 'Failed to fetch activity submissions',
+                );
+              }
+
+              set({
+                submissions: result.data.submissions.map(toMoodleSubmission),
+                grades: result.data.grades.map(toMoodleGrade),
+              });
+              return;
+            }
 
-        try {
           // Fetch real submissions and grades from Moodle API
-          const [submissionsResult, gradesResult] = await Promise.all([
-            window.electron.ipcRenderer.invoke('moodle:get-assignment-submissions', {
+            const [submissionsResult, gradesResult, extensionsResult] =
+              await Promise.all([
+                window.electron.ipcRenderer.invoke(
+                  'moodle:get-assignment-submissions',
+                  {
               baseUrl: config.baseUrl,
-              apiKey: config.apiKey,
               assignmentId,
             }),
             window.electron.ipcRenderer.invoke('moodle:get-assignment-grades', {
               baseUrl: config.baseUrl,
-              apiKey: config.apiKey,
               assignmentId,
-            }),
-          ]);
-
-
-          // Process submissions - ensure userid is consistently a string
-          const realSubmissions: MoodleSubmission[] = submissionsResult.success && submissionsResult.data
-            ? submissionsResult.data.map((sub: any) => ({
-                userid: String(sub.userid || sub.id),
-                status: sub.status || 'new',
-                timemodified: sub.timemodified,
-                attemptnumber: sub.attemptnumber || 0,
-              }))
-            : [];
-
-          // Process grades - ensure userid is consistently a string
-          const realGrades: MoodleGrade[] = gradesResult.success && gradesResult.data
-            ? gradesResult.data.map((grade: any) => ({
-                userid: String(grade.userid || grade.id),
-                grade: parseFloat(grade.grade) || 0,
-                timemodified: grade.timemodified,
-                feedback: grade.assignfeedbackcomments || grade.feedback || '',
-              }))
-            : [];
-
+                  },
+                ),
+                window.electron.ipcRenderer.invoke(
+                  'moodle:get-assignment-extensions',
+                  {
+                    baseUrl: config.baseUrl,
+                    assignmentId,
+                  },
+                ),
+              ]);
+
+            // Process submissions and grades; keep the mirrored copy of whatever Moodle did not return
+            const realSubmissions: MoodleSubmission[] =
+              submissionsResult.success && submissionsResult.data
+                ? submissionsResult.data.map(toMoodleSubmission)
+                : cached?.submissions || [];
+
+            const realGrades: MoodleGrade[] =
+              gradesResult.success && gradesResult.data
+                ? gradesResult.data.map(toMoodleGrade)
+                : cached?.grades || [];
+
+
+            const extensions: Record<string, number> = {};
+            if (extensionsResult.success) {
+              extensionsResult.data.forEach(
+                (entry: { userid: string; extensionduedate: number }) => {
+                  extensions[entry.userid] = entry.extensionduedate;
+                },
+              );
+            }
 
           set({
             submissions: realSubmissions,
-            grades: realGrades
+              grades: realGrades,
+              extensions,
           });
 
           if (!submissionsResult.success) {
@@ -736,41 +1445,136 @@ export const useGradingStore = create<GradingState>()(
         } catch (error) {
           console.error('[GradingStore] Error loading assignment data:', error);
           set({
-            submissions: [],
-            grades: []
+              submissions: cached?.submissions || [],
+              grades: cached?.grades || [],
           });
         } finally {
           set({ loading: false });
         }
       },
 
-      submitGrade: async (assignmentId: string, userId: string, grade: number, feedback: string, config: { baseUrl: string; apiKey: string }) => {
+        loadCourseGroups: async (
+          courseId: string,
+          config: { baseUrl: string },
+          groupingId = 0,
+        ) => {
+          try {
+            const result = await window.electron.ipcRenderer.invoke(
+              'moodle:get-course-groups',
+              {
+                baseUrl: config.baseUrl,
+                courseId,
+                groupingId,
+              },
+            );
+            if (!result.success) {
+              console.error(
+                '[GradingStore] Failed to fetch course groups:',
+                result.error,
+              );
+              return;
+            }
+            set((state) => ({
+              courseGroups: {
+                ...state.courseGroups,
+                [courseGroupsKey(courseId, groupingId)]: result.data,
+              },
+            }));
+          } catch (error) {
+            console.error('[GradingStore] Error loading course groups:', error);
+          }
+        },
+
+        submitGrade: async (
+          assignmentId: string,
+          userId: string,
+          grade: number,
+          feedback: string,
+          config: { baseUrl: string },
+          feedbackFile?: FeedbackFile,
+          options: { applyToAll?: boolean; maxGrade?: number } = {},
+        ) => {
         try {
           console.log('[Grading Store] Submitting grade:', { assignmentId, userId, grade });
 
-          const result = await window.electron.ipcRenderer.invoke('moodle:update-assignment-grade', {
-            baseUrl: config.baseUrl,
-            apiKey: config.apiKey,
-            assignmentId,
-            userId,
-            grade,
-            feedback
-          });
+            // Write criterion-level fills back when grading against a Moodle rubric or marking guide.
+            // Moodle derives the grade from the fills, scaled to the assignment's max, so only send
+            // them if the grade is the AI score, in rubric points or scaled, and was not overridden.
+            const { getRubricForAssignment, getGradingRecord } = get();
+            const rubric = getRubricForAssignment(assignmentId)?.rubric;
+            const detailedResult = getGradingRecord(
+              assignmentId,
+              userId,
+            )?.detailedAIGradeResult;
+            const rubricTotal = rubric ? getRubricTotal(rubric) : 0;
+            const isAIScore =
+              !!detailedResult &&
+              (detailedResult.overallScore === grade ||
+                (!!options.maxGrade &&
+                  rubricTotal > 0 &&
+                  Math.abs(
+                    (detailedResult.overallScore / rubricTotal) *
+                      options.maxGrade -
+                      grade,
+                  ) < 0.01));
+            const advancedGrading =
+              rubric && detailedResult && isAIScore
+                ? buildAdvancedGradingData(
+                    rubric,
+                    detailedResult.scoreBreakdown,
+                  )
+                : undefined;
+
+            const result = isOnlineTextActivity(assignmentId)
+              ? await window.electron.ipcRenderer.invoke(
+                  'moodle:save-activity-grade',
+                  {
+                    baseUrl: config.baseUrl,
+                    activityId: assignmentId,
+                    userId,
+                    grade,
+                    feedback,
+                  },
+                )
+              : await window.electron.ipcRenderer.invoke(
+                  'moodle:update-assignment-grade',
+                  {
+                    baseUrl: config.baseUrl,
+                    assignmentId,
+                    userId,
+                    grade,
+                    feedback,
+                    advancedGrading,
+                    feedbackFile: feedbackFile
+                      ? {
+                          filePath: feedbackFile.filePath,
+                          filename: feedbackFile.filename,
+                        }
+                      : undefined,
+                    applyToAll: options.applyToAll,
+                  },
+                );
 
           if (result.success) {
             console.log('[Grading Store] Grade submitted successfully');
 
-            // Update the local state to reflect the submitted grade
+              // A member's individual adjustment leaves their group's row as it was
+              if (options.applyToAll === false) {
+                return { success: true };
+              }
+
+            // Update the local state to reflect the grade Moodle saved
+            const savedGrade = Number(result.data?.grade ?? grade);
             const { studentData } = get();
             const updatedStudentData = studentData.map(student => {
               if (student.student.id === userId) {
                 return {
                   ...student,
-                  currentGrade: grade.toString(),
+                  currentGrade: savedGrade.toString(),
                   feedback: feedback,
                   grade: {
                     userid: userId,
-                    grade: grade,
+                    grade: savedGrade,
                     feedback: feedback,
                     timemodified: Date.now()
                   }
@@ -792,22 +1596,92 @@ export const useGradingStore = create<GradingState>()(
         }
       },
 
-      // Initialization method to restore state after persistence hydration
-      initializeFromPersistedData: () => {
-        const { selectedAssignment, assignmentRubrics, getRubricForAssignment } = get();
+        grantExtensions: async (
+          assignmentId: string,
+          userIds: string[],
+          extensionDueDate: number,
+          config: { baseUrl: string },
+        ) => {
+          try {
+            const result = await window.electron.ipcRenderer.invoke(
+              'moodle:grant-extensions',
+              {
+                baseUrl: config.baseUrl,
+                assignmentId,
+                userIds,
+                extensionDueDate,
+              },
+            );
+            const granted: string[] = result.data?.granted || [];
+            const failed: string[] = (result.data?.failed || []).map(
+              (entry: { userId: string }) => entry.userId,
+            );
+
+            if (
+              granted.length > 0 &&
+              get().selectedAssignment === assignmentId
+            ) {
+              const extensions = { ...get().extensions };
+              granted.forEach((userId) => {
+                extensions[userId] = extensionDueDate;
+              });
+              set({
+                extensions,
+                studentData: get().studentData.map((student) =>
+                  granted.includes(student.student.id)
+                    ? { ...student, extensionDueDate }
+                    : student,
+                ),
+              });
+            }
 
-        // Restore rubric content for the currently selected assignment
+            return { success: result.success, error: result.error, failed };
+          } catch (error: any) {
+            console.error('[Grading Store] Error granting extensions:', error);
+            return {
+              success: false,
+              error: error.message || 'Failed to grant extensions',
+              failed: userIds,
+            };
+          }
+        },
+
+        // Initialization method to restore state after persistence hydration
+        initializeFromPersistedData: async () => {
+          const { selectedAssignment, loadGradingDataForAssignment } = get();
+
+          // Restore rubric content and records for the currently selected assignment
         if (selectedAssignment) {
+            await loadGradingDataForAssignment(selectedAssignment);
+            const {
+              getRubricForAssignment,
+              selectedSubmission,
+              getGradingRecord,
+            } = get();
+
           const rubricContent = getRubricForAssignment(selectedAssignment);
           if (rubricContent && !get().rubricContent) {
             set({ rubricContent });
           }
+
+            const gradingRecord = selectedSubmission
+              ? getGradingRecord(selectedAssignment, selectedSubmission)
+              : null;
+            if (gradingRecord && !get().detailedAIGradeResult) {
+              set({
+                aiGradeResult: gradingRecord.aiGradeResult,
+                detailedAIGradeResult: gradingRecord.detailedAIGradeResult,
+                finalGrade: gradingRecord.finalGrade || '',
+                finalFeedback: gradingRecord.finalFeedback || '',
+              });
+            }
         }
       },
 
       // Grading progress actions
       startGrading: (studentId: string) => {
         console.log(`[Store] 🚀 Starting grading for student: ${studentId}`);
+          gradingSites.set(studentId, activeSite());
         set(state => ({
           gradingInProgress: new Set(state.gradingInProgress).add(studentId),
           activeGradingStudent: studentId // Set as active when starting
@@ -887,6 +1761,7 @@ export const useGradingStore = create<GradingState>()(
             activeGradingStudent: newActiveStudent
           };
         });
+          gradingSites.delete(studentId);
         console.log(`[Store] Students still grading:`, Array.from(get().gradingInProgress));
       },
 
@@ -913,7 +1788,7 @@ export const useGradingStore = create<GradingState>()(
               record => record.assignmentId === selectedAssignment && record.studentId === studentId
             );
 
-            const errorRecord = {
+              const errorRecord: GradingRecord = {
               assignmentId: selectedAssignment,
               studentId: studentId,
               aiGradeResult: null,
@@ -921,9 +1796,12 @@ export const useGradingStore = create<GradingState>()(
               isAIGraded: false,
               hasError: true,
               errorMessage: errorMessage || 'Unknown grading error occurred',
-              errorType: errorType || 'unknown' as const,
+                errorType: errorType || 'unknown',
               gradedAt: Date.now(),
+                similarity:
+                  state.gradingRecords[existingRecordIndex]?.similarity,
             };
+              persistGradingRecord(errorRecord, gradingSite(studentId));
 
             const newRecords = [...state.gradingRecords];
             if (existingRecordIndex >= 0) {
@@ -956,6 +1834,7 @@ export const useGradingStore = create<GradingState>()(
           });
         }
 
+          gradingSites.delete(studentId);
         console.log(`[Store] Students still grading:`, Array.from(get().gradingInProgress));
       },
 
@@ -1189,36 +2068,51 @@ export const useGradingStore = create<GradingState>()(
         partialize: (state) => ({
           selectedAssignment: state.selectedAssignment,
           selectedSubmission: state.selectedSubmission,
-          assignmentRubrics: state.assignmentRubrics,
-          gradingRecords: state.gradingRecords,
+          moderationSettings: state.moderationSettings,
+          latePenaltySettings: state.latePenaltySettings,
           // Persist grading progress state so it survives view changes
           gradingInProgress: Array.from(state.gradingInProgress), // Convert Set to Array for serialization
           activeGradingStudent: state.activeGradingStudent,
+          ...legacyData,
         }),
         onRehydrateStorage: () => (state) => {
           if (state) {
-            // Restore rubric content for the selected assignment after hydration
-            const { selectedAssignment, selectedSubmission, assignmentRubrics, gradingRecords } = state;
-
-            if (selectedAssignment && assignmentRubrics.length > 0) {
-              const rubric = assignmentRubrics.find(r => r.assignmentId === selectedAssignment);
-              if (rubric) {
-                state.rubricContent = rubric.rubricContent;
-              }
+            // Records and rubrics used to be persisted here; move any left over into SQLite.
+            // They are no longer part of the persisted state, so the next write after the import drops them.
+            const { assignmentRubrics, gradingRecords } = state;
+            if (assignmentRubrics?.length > 0 || gradingRecords?.length > 0) {
+              legacyData = { assignmentRubrics, gradingRecords };
+              legacyImport = window.electron.ipcRenderer
+                .invoke('grading:import-legacy', {
+                  assignmentRubrics,
+                  gradingRecords,
+                })
+                .then((result) => {
+                  if (result.success) {
+                    legacyData = null;
+                    console.log(
+                      '[GradingStore] Imported legacy grading data into SQLite:',
+                      result.data,
+                    );
+                  } else {
+                    console.error(
+                      '[GradingStore] Failed to import legacy grading data:',
+                      result.error,
+                    );
+                  }
+                })
+                .catch((error) =>
+                  console.error(
+                    '[GradingStore] Failed to import legacy grading data:',
+                    error,
+                  ),
+                );
             }
 
-            // Restore detailed AI grading results for the current selection
-            if (selectedAssignment && selectedSubmission && gradingRecords.length > 0) {
-              const gradingRecord = gradingRecords.find(r =>
-                r.assignmentId === selectedAssignment && r.studentId === selectedSubmission
-              );
-              if (gradingRecord) {
-                state.aiGradeResult = gradingRecord.aiGradeResult;
-                state.detailedAIGradeResult = gradingRecord.detailedAIGradeResult;
-                state.finalGrade = gradingRecord.finalGrade || '';
-                state.finalFeedback = gradingRecord.finalFeedback || '';
-              }
-            }
+            // Grades saved by the Moodle agent in the main process take the same penalty
+            invokeGradingDb('grading:save-late-penalty', {
+              settings: state.latePenaltySettings,
+            });
 
             // Restore grading progress state from persistence
             // Convert gradingInProgress array back to Set
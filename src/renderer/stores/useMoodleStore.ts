@@ -1,9 +1,13 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { toast } from '../utils/toast';
+import { useContextStore } from './useContextStore';
+import { useGradingStore } from './useGradingStore';
 import type {
   MoodleConfig,
   MoodleConnectionInfo,
+  MoodleProfile,
+  MoodleLoginOptions,
   MoodleCourse,
   MoodleUser,
   MoodleAssignment,
@@ -20,6 +24,12 @@ interface MoodleState {
   connectionInfo: MoodleConnectionInfo | null;
   lastConnectionCheck: string | null;
 
+  // Saved Moodle sites/accounts; config holds the active one
+  profiles: MoodleProfile[];
+  activeProfileId: string | null;
+  // Profile whose token Moodle rejected, until the user signs in again
+  sessionExpired: MoodleProfile | null;
+
   // Courses
   courses: MoodleCourse[];
   isLoadingCourses: boolean;
@@ -35,7 +45,15 @@ interface MoodleState {
   saveApiKey: (apiKey: string) => Promise<boolean>;
   loadStoredConfig: () => Promise<void>;
   clearConfig: () => void;
-  getStoredApiKey: () => string;
+  loadProfiles: () => Promise<void>;
+  addProfile: (profile: { label?: string; baseUrl: string; apiKey: string }) => Promise<boolean>;
+  switchProfile: (profileId: string) => Promise<boolean>;
+  removeProfile: (profileId: string) => Promise<void>;
+  getActiveProfile: () => MoodleProfile | null;
+  getLoginOptions: (baseUrl: string) => Promise<MoodleLoginOptions | null>;
+  loginWithPassword: (credentials: MoodleSignIn & { username: string; password: string }) => Promise<boolean>;
+  loginWithSso: (target: MoodleSignIn) => Promise<boolean>;
+  setSessionExpired: (profile: MoodleProfile | null) => void;
   isConfigured: () => boolean;
   fetchCourses: () => Promise<MoodleCourse[]>;
   clearCourses: () => void;
@@ -56,6 +74,21 @@ interface MoodleState {
   getUpcomingAssignments: (daysAhead?: number) => MoodleAssignment[];
 }
 
+// Site to sign in to; profileId renews that profile's token
+interface MoodleSignIn {
+  baseUrl: string;
+  service?: string;
+  profileId?: string;
+}
+
+// Messages for the sign-in errors a user can act on
+const signInErrors: Record<string, string> = {
+  invalidlogin: 'Invalid username or password',
+  enablewsdescription: 'Web services are not enabled on this Moodle site',
+  servicenotavailable: 'This Moodle site does not allow the app to sign in',
+  invalidssotoken: 'Moodle returned an invalid sign-in response',
+};
+
 export const useMoodleStore = create<MoodleState>()(
   devtools(
     persist(
@@ -63,7 +96,7 @@ export const useMoodleStore = create<MoodleState>()(
         // Initial state
         config: {
           baseUrl: 'https://moodle.onlysaid.com',
-          apiKey: '',
+          hasToken: false,
         },
         isConnected: false,
         isConnecting: false,
@@ -71,6 +104,10 @@ export const useMoodleStore = create<MoodleState>()(
         connectionInfo: null,
         lastConnectionCheck: null,
 
+        profiles: [],
+        activeProfileId: null,
+        sessionExpired: null,
+
         // Courses state
         courses: [],
         isLoadingCourses: false,
@@ -94,7 +131,7 @@ export const useMoodleStore = create<MoodleState>()(
         testConnection: async () => {
           const { config } = get();
 
-          if (!config.apiKey) {
+          if (!config.hasToken) {
             set({
               connectionError: 'API key is required',
               isConnected: false,
@@ -112,7 +149,6 @@ export const useMoodleStore = create<MoodleState>()(
               'moodle:test-connection',
               {
                 baseUrl: config.baseUrl,
-                apiKey: config.apiKey,
               }
             );
 
@@ -157,11 +193,6 @@ export const useMoodleStore = create<MoodleState>()(
         saveApiKey: async (apiKey: string) => {
           const { config } = get();
 
-          // Update local state
-          set({
-            config: { ...config, apiKey },
-          });
-
           try {
             // Save to backend (SQLite)
             const result = await window.electron.ipcRenderer.invoke(
@@ -173,10 +204,23 @@ export const useMoodleStore = create<MoodleState>()(
             );
 
             if (result.success) {
+              const profile = result.data as MoodleProfile;
+              set({ config: { ...config, hasToken: true }, activeProfileId: profile.id });
+              useContextStore.getState().setActiveSite(profile.scope);
+
               // Test the connection with new API key
               const connected = await get().testConnection();
 
               if (connected) {
+                set({ sessionExpired: null });
+                // Name the profile after the site and account the key belongs to
+                const { connectionInfo } = get();
+                await window.electron.ipcRenderer.invoke('moodle:profiles:save', {
+                  id: profile.id,
+                  sitename: connectionInfo?.sitename,
+                  username: connectionInfo?.username,
+                  fullname: connectionInfo?.fullname,
+                });
                 toast.success('Moodle API key saved and verified');
                 // Fetch courses after successful connection
                 get().fetchCourses();
@@ -184,9 +228,12 @@ export const useMoodleStore = create<MoodleState>()(
                 toast.warning('API key saved but connection failed. Please check your credentials.');
               }
 
+              await get().loadProfiles();
               return connected;
             } else {
-              toast.error('Failed to save API key');
+              // e.g. the token cannot be encrypted on this computer
+              set({ connectionError: result.error || 'Failed to save API key' });
+              toast.error(result.error || 'Failed to save API key');
               return false;
             }
           } catch (error) {
@@ -205,12 +252,16 @@ export const useMoodleStore = create<MoodleState>()(
               set({
                 config: {
                   baseUrl: result.data.baseUrl || 'https://moodle.onlysaid.com',
-                  apiKey: result.data.apiKey || '',
+                  hasToken: !!result.data.hasToken,
                 },
+                activeProfileId: result.data.profile?.id || null,
+                sessionExpired: result.data.profile?.expired ? result.data.profile : null,
               });
+              useContextStore.getState().setActiveSite(result.data.profile?.scope || '');
+              get().loadProfiles();
 
               // If we have an API key, test the connection and fetch courses
-              if (result.data.apiKey) {
+              if (result.data.hasToken) {
                 get().testConnection().then((connected) => {
                   if (connected) {
                     get().fetchCourses();
@@ -227,31 +278,218 @@ export const useMoodleStore = create<MoodleState>()(
           set({
             config: {
               baseUrl: 'https://moodle.onlysaid.com',
-              apiKey: '',
+              hasToken: false,
             },
             isConnected: false,
             connectionError: null,
             connectionInfo: null,
             lastConnectionCheck: null,
+            courses: [],
+            courseContent: {},
           });
 
-          // Also clear from backend
-          window.electron.ipcRenderer.invoke('moodle:clear-config').catch(console.error);
+          // Also clear from backend; this removes the active profile, so fall back to the next one
+          window.electron.ipcRenderer
+            .invoke('moodle:clear-config')
+            .then(() => get().loadStoredConfig())
+            .catch(console.error);
+        },
+
+        loadProfiles: async () => {
+          try {
+            const result = await window.electron.ipcRenderer.invoke('moodle:profiles:list');
+            if (result.success && result.data) {
+              set({
+                profiles: result.data.profiles,
+                activeProfileId: result.data.activeProfileId,
+              });
+            }
+          } catch (error) {
+            console.error('Failed to load Moodle profiles:', error);
+          }
+        },
+
+        addProfile: async ({ label, baseUrl, apiKey }) => {
+          const url = baseUrl.trim().replace(/\/+$/, '');
+
+          try {
+            // Only keep sites the token actually works on
+            const test = await window.electron.ipcRenderer.invoke('moodle:test-connection', {
+              baseUrl: url,
+              apiKey,
+            });
+            if (!test.success || !test.data) {
+              toast.error(`Could not connect to ${url}: ${test.error || 'Connection failed'}`);
+              return false;
+            }
+
+            const result = await window.electron.ipcRenderer.invoke('moodle:profiles:save', {
+              label: label?.trim() || undefined,
+              baseUrl: url,
+              apiKey,
+              sitename: test.data.sitename,
+              username: test.data.username,
+              fullname: test.data.fullname,
+            });
+            if (!result.success) {
+              toast.error(result.error || 'Failed to save Moodle site');
+              return false;
+            }
+
+            await get().loadProfiles();
+            await get().switchProfile(result.data.id);
+            toast.success(`Added ${result.data.label}`);
+            return true;
+          } catch (error) {
+            toast.error('Error adding Moodle site: ' + (error as Error).message);
+            return false;
+          }
+        },
+
+        switchProfile: async (profileId: string) => {
+          try {
+            const result = await window.electron.ipcRenderer.invoke('moodle:profiles:activate', {
+              id: profileId,
+            });
+            if (!result.success || !result.data) {
+              toast.error(result.error || 'Failed to switch Moodle site');
+              return false;
+            }
+
+            // Nothing from the previous site may leak into the next one
+            const { baseUrl, hasToken, profile } = result.data;
+            set({
+              config: { baseUrl, hasToken },
+              activeProfileId: profile.id,
+              sessionExpired: profile.expired ? profile : null,
+              isConnected: false,
+              connectionError: null,
+              connectionInfo: null,
+              courses: [],
+              coursesError: null,
+              lastCoursesUpdate: null,
+              courseContent: {},
+            });
+            useContextStore.getState().setActiveSite(profile.scope);
+            useGradingStore.getState().clearGradingData();
+
+            const connected = await get().testConnection();
+            // Courses still come from the local mirror when the site is unreachable
+            get().fetchCourses();
+            return connected;
+          } catch (error) {
+            toast.error('Error switching Moodle site: ' + (error as Error).message);
+            return false;
+          }
+        },
+
+        removeProfile: async (profileId: string) => {
+          const wasActive = get().activeProfileId === profileId;
+          try {
+            const result = await window.electron.ipcRenderer.invoke('moodle:profiles:remove', {
+              id: profileId,
+            });
+            if (!result.success) {
+              toast.error(result.error || 'Failed to remove Moodle site');
+              return;
+            }
+
+            set({ profiles: result.data.profiles });
+            if (wasActive) {
+              const next = result.data.activeProfileId;
+              if (next) {
+                await get().switchProfile(next);
+              } else {
+                get().clearCourses();
+                await get().loadStoredConfig();
+                set({ isConnected: false, connectionInfo: null, courseContent: {} });
+              }
+            }
+          } catch (error) {
+            toast.error('Error removing Moodle site: ' + (error as Error).message);
+          }
         },
 
-        getStoredApiKey: () => {
-          return get().config.apiKey;
+        getActiveProfile: () => {
+          const { profiles, activeProfileId } = get();
+          return profiles.find((p) => p.id === activeProfileId) || null;
+        },
+
+        getLoginOptions: async (baseUrl: string) => {
+          try {
+            const result = await window.electron.ipcRenderer.invoke('moodle:auth:get-login-options', {
+              baseUrl,
+            });
+            return result.success ? result.data : null;
+          } catch (error) {
+            console.error('Failed to read Moodle login options:', error);
+            return null;
+          }
+        },
+
+        loginWithPassword: async ({ baseUrl, service, profileId, username, password }) => {
+          try {
+            const result = await window.electron.ipcRenderer.invoke('moodle:auth:login', {
+              baseUrl,
+              service,
+              profileId,
+              username,
+              password,
+            });
+            if (!result.success) {
+              toast.error(signInErrors[result.errorcode] || result.error || 'Failed to sign in to Moodle');
+              return false;
+            }
+
+            // Main already made the signed-in profile the active one
+            await get().loadProfiles();
+            return await get().switchProfile(result.data.profile.id);
+          } catch (error) {
+            toast.error('Error signing in to Moodle: ' + (error as Error).message);
+            return false;
+          }
+        },
+
+        loginWithSso: async ({ baseUrl, service, profileId }) => {
+          try {
+            const result = await window.electron.ipcRenderer.invoke('moodle:auth:sso', {
+              baseUrl,
+              service,
+              profileId,
+            });
+            if (!result.success) {
+              // Closing the sign-in window is not an error worth reporting
+              if (result.errorcode !== 'ssocancelled') {
+                toast.error(signInErrors[result.errorcode] || result.error || 'Failed to sign in to Moodle');
+              }
+              return false;
+            }
+
+            await get().loadProfiles();
+            return await get().switchProfile(result.data.profile.id);
+          } catch (error) {
+            toast.error('Error signing in to Moodle: ' + (error as Error).message);
+            return false;
+          }
+        },
+
+        setSessionExpired: (profile) => {
+          set({ sessionExpired: profile });
+          if (profile) {
+            set({ isConnected: false, connectionError: 'Moodle session expired' });
+            get().loadProfiles();
+          }
         },
 
         isConfigured: () => {
           const { config } = get();
-          return !!config.apiKey && !!config.baseUrl;
+          return config.hasToken && !!config.baseUrl;
         },
 
         fetchCourses: async () => {
           const { config, isConnected } = get();
 
-          if (!config.apiKey) {
+          if (!config.hasToken) {
             set({ coursesError: 'API key is required' });
             return [];
           }
@@ -261,12 +499,24 @@ export const useMoodleStore = create<MoodleState>()(
             coursesError: null,
           });
 
+          // Show the courses from the local mirror while Moodle is asked
+          if (get().courses.length === 0) {
+            const mirrored = await window.electron.ipcRenderer
+              .invoke('moodle:mirror:get-courses', { baseUrl: config.baseUrl })
+              .catch(() => null);
+            if (mirrored?.success && mirrored.data) {
+              set({
+                courses: mirrored.data.data,
+                lastCoursesUpdate: new Date(mirrored.data.syncedAt).toISOString(),
+              });
+            }
+          }
+
           try {
             const result = await window.electron.ipcRenderer.invoke(
               'moodle:get-courses',
               {
                 baseUrl: config.baseUrl,
-                apiKey: config.apiKey,
               }
             );
 
@@ -276,7 +526,7 @@ export const useMoodleStore = create<MoodleState>()(
                 courses,
                 isLoadingCourses: false,
                 coursesError: null,
-                lastCoursesUpdate: new Date().toISOString(),
+                lastCoursesUpdate: new Date(result.syncedAt || Date.now()).toISOString(),
               });
               return courses;
             } else {
@@ -309,7 +559,7 @@ export const useMoodleStore = create<MoodleState>()(
         fetchCourseContent: async (courseId: string) => {
           const { config } = get();
 
-          if (!config.apiKey) {
+          if (!config.hasToken) {
             const error = 'API key is required';
             set((state) => ({
               courseContent: {
@@ -334,52 +584,72 @@ export const useMoodleStore = create<MoodleState>()(
             };
           }
 
-          // Set loading state
+          // Keep showing what we have (or the local mirror) while Moodle is asked
+          const mirrored = await window.electron.ipcRenderer
+            .invoke('moodle:mirror:get-course-content', { baseUrl: config.baseUrl, courseId })
+            .catch(() => null);
+          const cached = mirrored?.success && mirrored.data ? mirrored.data : null;
+          const existing = get().courseContent[courseId];
+
           set((state) => ({
             courseContent: {
               ...state.courseContent,
-              [courseId]: {
-                assignments: [],
-                students: [],
-                activities: [],
+              [courseId]: existing && !existing.error ? { ...existing, isLoading: true } : {
+                assignments: cached?.assignments || [],
+                gradableActivities: cached?.gradableActivities || [],
+                students: cached?.students || [],
+                activities: cached?.activities || [],
                 isLoading: true,
                 error: null,
-                lastUpdated: null,
+                lastUpdated: cached ? new Date(cached.syncedAt).toISOString() : null,
+                offline: !!cached,
               },
             },
           }));
 
           try {
             // Fetch all course content in parallel
-            const [assignmentsResult, studentsResult, activitiesResult] = await Promise.all([
+            const [assignmentsResult, studentsResult, activitiesResult, gradableActivitiesResult] = await Promise.all([
               window.electron.ipcRenderer.invoke('moodle:get-assignments', {
                 baseUrl: config.baseUrl,
-                apiKey: config.apiKey,
                 courseId,
               }),
               window.electron.ipcRenderer.invoke('moodle:get-enrolled-users', {
                 baseUrl: config.baseUrl,
-                apiKey: config.apiKey,
                 courseId,
               }),
               window.electron.ipcRenderer.invoke('moodle:get-course-contents', {
                 baseUrl: config.baseUrl,
-                apiKey: config.apiKey,
+                courseId,
+              }),
+              window.electron.ipcRenderer.invoke('moodle:get-gradable-activities', {
+                baseUrl: config.baseUrl,
                 courseId,
               }),
             ]);
 
-            const assignments = assignmentsResult.success ? assignmentsResult.data || [] : [];
-            const students = studentsResult.success ? studentsResult.data || [] : [];
-            const activities = activitiesResult.success ? activitiesResult.data || [] : [];
+            // Parts Moodle could not answer fall back to the mirrored copy
+            const assignments = assignmentsResult.success ? assignmentsResult.data || [] : cached?.assignments || [];
+            const students = studentsResult.success ? studentsResult.data || [] : cached?.students || [];
+            const activities = activitiesResult.success ? activitiesResult.data || [] : cached?.activities || [];
+            const gradableActivities = gradableActivitiesResult.success ? gradableActivitiesResult.data || [] : cached?.gradableActivities || [];
+
+            const results = [assignmentsResult, studentsResult, activitiesResult, gradableActivitiesResult];
+            const offlineSyncTimes = results.filter(r => r.offline).map(r => r.syncedAt as number);
+            const offline = offlineSyncTimes.length > 0 || (!!cached && results.some(r => !r.success));
 
             const courseContent: CourseContent = {
               assignments,
+              gradableActivities,
               students,
               activities,
               isLoading: false,
               error: null,
-              lastUpdated: new Date().toISOString(),
+              // When offline this is when the mirrored data was synced, so the content counts as stale
+              lastUpdated: new Date(
+                offline ? Math.min(...offlineSyncTimes, cached?.syncedAt ?? Infinity) : Date.now()
+              ).toISOString(),
+              offline,
             };
 
             set((state) => ({
@@ -393,12 +663,14 @@ export const useMoodleStore = create<MoodleState>()(
           } catch (error) {
             const errorMessage = (error as Error).message;
             const courseContent: CourseContent = {
-              assignments: [],
-              students: [],
-              activities: [],
+              assignments: cached?.assignments || [],
+              gradableActivities: cached?.gradableActivities || [],
+              students: cached?.students || [],
+              activities: cached?.activities || [],
               isLoading: false,
               error: errorMessage,
               lastUpdated: null,
+              offline: !!cached,
             };
 
             set((state) => ({
@@ -415,7 +687,7 @@ export const useMoodleStore = create<MoodleState>()(
         fetchAllCourseContent: async () => {
           const { courses, config, courseContent } = get();
 
-          if (!config.apiKey || courses.length === 0) {
+          if (!config.hasToken || courses.length === 0) {
             console.log('[MoodleStore] Cannot fetch all course content: no API key or no courses loaded');
             return;
           }
@@ -553,12 +825,17 @@ export const useMoodleStore = create<MoodleState>()(
         partialize: (state) => ({
           config: {
             baseUrl: state.config.baseUrl,
-            // Persist API key for user convenience (stored in localStorage)
-            // Note: In production, consider encrypting this or using secure storage
-            apiKey: state.config.apiKey,
+            // The token never leaves the main process; whether there is one is loaded on start
+            hasToken: false,
           },
           lastConnectionCheck: state.lastConnectionCheck,
         }),
+        // Earlier versions persisted the token in plaintext localStorage
+        version: 1,
+        migrate: (persisted: any) => ({
+          ...persisted,
+          config: { baseUrl: persisted?.config?.baseUrl, hasToken: false },
+        }),
       }
     ),
     {
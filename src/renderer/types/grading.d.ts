@@ -9,6 +9,15 @@ export interface StudentSubmissionData {
   currentGrade: string;
   feedback: string;
   isEditing: boolean;
+  extensionDueDate?: number; // Due date Moodle granted this student, replacing the assignment's
+  group?: StudentGroup; // Team assignments: the row stands for this whole group, graded through `student`
+}
+
+// A group graded as one row; `members` includes the student the row is keyed by
+export interface StudentGroup {
+  id: string;
+  name: string;
+  members: MoodleUser[];
 }
 
 // Statistics interface
@@ -49,6 +58,47 @@ export interface DetailedAIGradeResult {
   shortFeedback: string;
 }
 
+// Structured rubric - one performance level of a criterion
+export interface RubricLevel {
+  id: string;
+  label: string; // e.g. "Excellent", "Good"
+  points: number;
+  descriptor: string;
+  moodleLevelId?: number;
+}
+
+// Structured rubric - a single gradeable criterion
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description?: string;
+  maxScore: number;
+  levels: RubricLevel[];
+  moodleCriterionId?: number;
+}
+
+// Structured rubric extracted from the uploaded file, imported from Moodle or built by hand
+export interface Rubric {
+  criteria: RubricCriterion[];
+  source: 'docx' | 'manual' | 'moodle';
+  moodle?: {
+    definitionId: number;
+    method: 'rubric' | 'guide';
+    name: string;
+  };
+}
+
+// Criterion-level fills sent with mod_assign_save_grade for advanced grading
+export interface AdvancedGradingData {
+  method: 'rubric' | 'guide';
+  criteria: Array<{
+    criterionId: number;
+    levelId?: number;
+    score?: number;
+    remark?: string;
+  }>;
+}
+
 // Rubric content interface
 export interface RubricContent {
   text: string;
@@ -71,6 +121,7 @@ export interface RubricContent {
     tableRow: number;
     tableCell: number;
   };
+  rubric?: Rubric | null; // Structured criteria, when they could be extracted or were entered
 }
 
 // Assignment rubric mapping
@@ -93,6 +144,8 @@ export interface GradingRecord {
   hasError?: boolean;
   errorMessage?: string;
   errorType?: 'parsing' | 'format' | 'network' | 'unknown';
+  moderation?: ModerationResult | null; // Second-pass review of detailedAIGradeResult
+  similarity?: SimilarityFlag | null; // Result of the last cross-submission similarity check
 }
 
 // Persisted grading data per session
@@ -102,3 +155,181 @@ export interface PersistedGradingData {
   assignmentRubrics: AssignmentRubric[];
   gradingRecords: GradingRecord[];
 }
+
+// Persistent batch grading queue (rows in grading_jobs / grading_job_items)
+export type GradingJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type GradingJobItemStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface GradingJobItem {
+  studentId: string;
+  status: GradingJobItemStatus;
+  attempts: number;
+  errorType?: GradingRecord['errorType'];
+  errorMessage?: string;
+}
+
+export interface GradingJob {
+  id: string;
+  assignmentId: string;
+  // Site scope of the Moodle profile the job was created on
+  site: string;
+  courseId?: string;
+  status: GradingJobStatus;
+  concurrency: number;
+  maxRetries: number;
+  items: GradingJobItem[];
+}
+
+// Moderation - an independent second AI grading pass compared per criterion
+export interface ModerationSettings {
+  enabled: boolean;
+  threshold: number; // Flag when a criterion differs by more than this fraction of its max score
+  model?: string; // Empty uses the main-process default for moderation
+  temperature?: number;
+}
+
+// Late penalty - taken off the AI score of a late submission before it is published
+export interface LatePenaltySettings {
+  enabled: boolean;
+  percentPerDay: number; // For each started day after the due date or extension
+  maxPercent: number; // Cap on the total deduction
+  basis: 'grade' | 'maximum'; // Percent of the awarded grade or of the maximum score on the AI's (rubric) scale
+  graceMinutes: number;
+}
+
+export interface SubmissionTiming {
+  dueDate?: number; // Unix seconds; the student's extension when one was granted
+  extended: boolean;
+  submittedAt?: number;
+  lateBy: number; // Seconds after the due date the work was submitted
+  overdue: boolean; // Not submitted and past the due date
+}
+
+export interface LatePenalty {
+  daysLate: number;
+  percent: number;
+  originalGrade: number;
+  deduction: number;
+  grade: number;
+}
+
+export interface CriterionDisagreement {
+  criteriaName: string;
+  primaryScore: number;
+  secondScore: number;
+  maxScore: number;
+  difference: number;
+  exceedsThreshold: boolean;
+}
+
+export interface ModerationResult {
+  secondPass: DetailedAIGradeResult;
+  disagreements: CriterionDisagreement[];
+  flagged: boolean;
+  threshold: number;
+  model?: string;
+  moderatedAt: number;
+}
+
+// Cohort statistics - distribution of AI scores across one assignment
+export interface ScoreHistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface CriterionAverage {
+  criteriaName: string;
+  averageScore: number;
+  maxScore: number;
+  averagePercent: number;
+  count: number;
+}
+
+export interface ScoreOutlier {
+  studentId: string;
+  studentName: string;
+  score: number;
+  direction: 'low' | 'high';
+}
+
+export interface PublishedGradeComparison {
+  studentId: string;
+  studentName: string;
+  aiScore: number;
+  finalGrade: number;
+  difference: number; // finalGrade - aiScore
+}
+
+export interface CohortStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  histogram: ScoreHistogramBin[];
+  criteria: CriterionAverage[];
+  outliers: ScoreOutlier[];
+  comparisons: PublishedGradeComparison[];
+  meanAdjustment: number; // Average of finalGrade - aiScore over published grades
+  adjustedCount: number; // Published grades that differ from the AI suggestion
+}
+
+// Export/import of grading records
+export type GradeExportFormat = 'csv' | 'xlsx' | 'moodle-worksheet';
+
+export interface GradeExportTable {
+  headers: string[];
+  rows: Array<Array<string | number | null>>;
+}
+
+export interface ImportedFinalGrade {
+  studentId: string;
+  finalGrade: string;
+  finalFeedback?: string; // Undefined keeps the current feedback
+}
+
+// Annotated copy of a submission, uploaded as a Moodle feedback file
+export interface FeedbackFile {
+  filePath: string;
+  filename: string;
+  format: 'docx' | 'pdf';
+  unmatchedComments: number; // Comments whose element could not be located in the file
+}
+
+// Cross-submission similarity check (similarity:* in main)
+export interface SimilarityPassage {
+  elementType: string;
+  elementIndex: number;
+  text: string; // Normalized tokens of the shared run, space separated
+}
+
+export interface SimilarityPair {
+  studentA: string;
+  studentB: string;
+  similarity: number; // Estimated Jaccard similarity of the shingle sets, 0-1
+  flagged: boolean;
+  passagesA: SimilarityPassage[];
+  passagesB: SimilarityPassage[];
+}
+
+export interface SimilarityReport {
+  assignmentId: string;
+  createdAt: number;
+  threshold: number;
+  shingleSize: number;
+  students: Array<{ studentId: string; studentName: string; tokenCount: number }>;
+  matrix: number[][]; // Indexed like students
+  pairs: SimilarityPair[];
+  skipped: Array<{ studentId: string; studentName: string; reason: string }>;
+}
+
+// Possible-collusion flag kept on the grading record
+export interface SimilarityFlag {
+  flagged: boolean;
+  maxSimilarity: number;
+  matches: Array<{ studentId: string; studentName: string; similarity: number }>;
+  threshold: number;
+  checkedAt: number;
+}
@@ -1,8 +1,9 @@
 export interface MoodleSubmission {
-  userid: string;
+  userid: string; // "0" for the shared submission of a group
   status: string;
   timemodified?: number;
   attemptnumber?: number;
+  groupid?: string; // Team assignments: the group that submitted
 }
 
 export interface MoodleGrade {
@@ -12,9 +13,39 @@ export interface MoodleGrade {
   feedback?: string;
 }
 
+// The active site; its token stays in the main process
 export interface MoodleConfig {
   baseUrl: string;
-  apiKey: string;
+  hasToken: boolean;
+}
+
+// A saved Moodle site/account; its token stays in the main process
+export interface MoodleProfile {
+  id: string;
+  label: string;
+  baseUrl: string;
+  // Namespace of the site's local data ('' for the first site)
+  scope: string;
+  sitename?: string;
+  username?: string;
+  fullname?: string;
+  // How the token was obtained, so an expired one is renewed the same way
+  loginMethod?: MoodleLoginMethod;
+  service?: string;
+  // Moodle rejected the token; the user has to sign in again
+  expired?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MoodleLoginMethod = 'token' | 'password' | 'sso';
+
+// What the site's public config says about signing in
+export interface MoodleLoginOptions {
+  sitename: string;
+  // 1: username/password form, 2: SSO in a browser, 3: SSO in an embedded browser
+  typeoflogin: number;
+  identityproviders: { name: string; iconurl?: string; url: string }[];
 }
 
 export interface MoodleConnectionInfo {
@@ -64,6 +95,16 @@ export interface MoodleAssignment {
   section?: number;
   visible?: boolean;
   cmid?: string; // Course module ID for proper URL generation
+  activityType?: 'assign' | 'quiz' | 'forum'; // Quizzes and forums are keyed "quiz-<id>" / "forum-<id>"
+  teamsubmission?: number; // 1 when students submit in groups
+  teamsubmissiongroupingid?: number; // Grouping whose groups form the teams (0: every course group)
+}
+
+// A course group, with the ids of its members
+export interface MoodleGroup {
+  id: string;
+  name: string;
+  members: string[];
 }
 
 export interface MoodleActivity {
@@ -79,9 +120,50 @@ export interface MoodleActivity {
 
 export interface CourseContent {
   assignments: MoodleAssignment[];
+  gradableActivities?: MoodleAssignment[]; // Quizzes and graded forums
   students: MoodleUser[];
   activities: MoodleActivity[];
   isLoading: boolean;
   error: string | null;
   lastUpdated: string | null;
+  offline?: boolean; // Moodle was unreachable; showing the local mirror as of lastUpdated
+}
+
+// Advanced grading definition returned by core_grading_get_definitions
+export interface MoodleGradingDefinition {
+  id: number;
+  method: 'rubric' | 'guide' | string;
+  name: string;
+  description?: string;
+  rubric?: {
+    rubric_criteria: Array<{
+      id: number;
+      sortorder: number;
+      description: string;
+      levels: Array<{
+        id: number;
+        score: number;
+        definition: string;
+      }>;
+    }>;
+  };
+  guide?: {
+    guide_criteria: Array<{
+      id: number;
+      sortorder: number;
+      shortname: string;
+      description?: string;
+      descriptionmarkers?: string;
+      maxscore: number;
+    }>;
+  };
+}
+
+// Assignment participant from mod_assign_list_participants
+export interface MoodleAssignmentParticipant {
+  id: string;
+  fullname: string;
+  email?: string;
+  recordid?: number; // Shown by Moodle as "Participant <recordid>" in grading worksheets
+  submissionstatus?: string;
 }
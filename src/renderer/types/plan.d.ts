@@ -12,3 +12,16 @@ export type TodoItem = {
   completed: boolean;
   order: number;
 };
+
+// A side-effecting tool call the agent paused on until the user decides
+export type ApprovalRequest = {
+  id: string;
+  toolName: string;
+  description: string;
+  args: Record<string, any>;
+};
+
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; args: Record<string, any> }
+  | { action: 'reject'; reason?: string };
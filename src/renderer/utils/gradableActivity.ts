@@ -0,0 +1,38 @@
+// Quiz essay questions and graded forums are graded like assignments under keys
+// such as "quiz-12" and "forum-7"; their submissions are online text, not files
+import type { MoodleAssignment } from '@/types/moodle';
+import type { DocxContent } from '@/components/DocxPreview/types';
+
+export type GradableActivityType = NonNullable<
+  MoodleAssignment['activityType']
+>;
+
+const ACTIVITY_KEY_PATTERN = /^(quiz|forum)-\d+$/;
+
+export const getActivityType = (assignmentId: string): GradableActivityType => {
+  const match = ACTIVITY_KEY_PATTERN.exec(assignmentId);
+  return match ? (match[1] as GradableActivityType) : 'assign';
+};
+
+export const isOnlineTextActivity = (assignmentId: string) =>
+  getActivityType(assignmentId) !== 'assign';
+
+// The student's essay responses or forum posts as indexed submission content
+export const loadActivitySubmission = async (
+  assignmentId: string,
+  studentId: string,
+  config: { baseUrl: string },
+): Promise<DocxContent> => {
+  const result = await window.electron.ipcRenderer.invoke(
+    'moodle:get-activity-submission',
+    {
+      baseUrl: config.baseUrl,
+      activityId: assignmentId,
+      userId: studentId,
+    },
+  );
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to load activity submission');
+  }
+  return { ...result.data.content, filename: result.data.filename };
+};
@@ -0,0 +1,295 @@
+// Grading record export/import tables; file formats are handled by grading-export:* in main
+import type {
+  GradingRecord,
+  Rubric,
+  StudentSubmissionData,
+  GradeExportFormat,
+  GradeExportTable,
+  ImportedFinalGrade,
+} from '@/types/grading';
+import type {
+  MoodleAssignment,
+  MoodleAssignmentParticipant,
+} from '@/types/moodle';
+
+// Column headers Moodle writes to (and reads from) its offline grading worksheet
+const WORKSHEET_HEADERS = [
+  'Identifier',
+  'Full name',
+  'Email address',
+  'Status',
+  'Grade',
+  'Maximum Grade',
+  'Grade can be changed',
+  'Last modified (submission)',
+  'Last modified (grade)',
+  'Feedback comments',
+];
+
+const PARTICIPANT_PREFIX = 'Participant ';
+
+const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+// Moodle's default date-time format; its importer reads it back with strtotime()
+const formatMoodleDate = (timestamp?: number) => {
+  if (!timestamp) return '-';
+  const date = new Date(timestamp * 1000);
+  const hours = date.getHours() % 12 || 12;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${WEEKDAYS[date.getDay()]}, ${pad(date.getDate())} ${MONTHS[date.getMonth()]} ${date.getFullYear()}, ${pad(hours)}:${pad(date.getMinutes())} ${date.getHours() < 12 ? 'AM' : 'PM'}`;
+};
+
+const toNumber = (value: string | undefined | null): number | null => {
+  if (value === undefined || value === null) return null;
+  const parsed = parseFloat(String(value).trim().replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const getCriteriaNames = (records: GradingRecord[], rubric?: Rubric | null) => {
+  if (rubric?.criteria.length) {
+    return rubric.criteria.map((criterion) => criterion.name);
+  }
+  const names: string[] = [];
+  records.forEach((record) => {
+    (record.detailedAIGradeResult?.scoreBreakdown || []).forEach((item) => {
+      if (!names.includes(item.criteriaName)) names.push(item.criteriaName);
+    });
+  });
+  return names;
+};
+
+const buildSpreadsheetTable = (
+  records: GradingRecord[],
+  studentData: StudentSubmissionData[],
+  rubric?: Rubric | null,
+): GradeExportTable => {
+  const criteriaNames = getCriteriaNames(records, rubric);
+  const recordsByStudent = new Map(
+    records.map((record) => [record.studentId, record]),
+  );
+
+  const headers = [
+    'Student ID',
+    'Full name',
+    'Email',
+    'Submission status',
+    'AI score',
+    'Final grade',
+    'Moodle grade',
+    ...criteriaNames.flatMap((name) => [
+      `${name} (score)`,
+      `${name} (max)`,
+      `${name} (feedback)`,
+    ]),
+    'AI feedback',
+    'Final feedback',
+    'Graded at',
+  ];
+
+  const rows = studentData.map((data) => {
+    const record = recordsByStudent.get(data.student.id);
+    const detailed = record?.detailedAIGradeResult;
+    const breakdown = detailed?.scoreBreakdown || [];
+
+    return [
+      data.student.id,
+      data.student.fullname,
+      data.student.email,
+      data.submission?.status || 'new',
+      detailed?.overallScore ?? record?.aiGradeResult?.grade ?? null,
+      toNumber(record?.finalGrade) ?? null,
+      data.grade ? data.grade.grade : null,
+      ...criteriaNames.flatMap((name) => {
+        const item = breakdown.find((entry) => entry.criteriaName === name);
+        const maxScore =
+          rubric?.criteria.find((criterion) => criterion.name === name)
+            ?.maxScore ?? item?.maxScore;
+        return [
+          item ? item.score : null,
+          maxScore ?? null,
+          item?.feedback || '',
+        ];
+      }),
+      detailed?.shortFeedback || record?.aiGradeResult?.feedback || '',
+      record?.finalFeedback || '',
+      record?.gradedAt ? new Date(record.gradedAt).toISOString() : '',
+    ];
+  });
+
+  return { headers, rows };
+};
+
+const buildWorksheetTable = (
+  records: GradingRecord[],
+  studentData: StudentSubmissionData[],
+  assignment: MoodleAssignment | undefined,
+  participants: MoodleAssignmentParticipant[],
+): GradeExportTable => {
+  const recordsByStudent = new Map(
+    records.map((record) => [record.studentId, record]),
+  );
+  const participantsById = new Map(
+    participants.map((participant) => [participant.id, participant]),
+  );
+
+  const rows = studentData
+    .filter((data) => participantsById.get(data.student.id)?.recordid)
+    .map((data) => {
+      const record = recordsByStudent.get(data.student.id);
+      const participant = participantsById.get(data.student.id)!;
+      // Unchanged Moodle grades are written back as-is so the importer skips them
+      const grade =
+        toNumber(record?.finalGrade) ?? (data.grade ? data.grade.grade : null);
+
+      return [
+        `${PARTICIPANT_PREFIX}${participant.recordid}`,
+        data.student.fullname,
+        data.student.email,
+        data.submission?.status === 'submitted'
+          ? 'Submitted for grading'
+          : 'No submission',
+        grade === null ? '' : grade.toFixed(2),
+        assignment?.grade ? Number(assignment.grade).toFixed(2) : '',
+        'Yes',
+        formatMoodleDate(data.submission?.timemodified),
+        formatMoodleDate(data.grade?.timemodified),
+        record?.finalFeedback || data.grade?.feedback || '',
+      ];
+    });
+
+  return { headers: WORKSHEET_HEADERS, rows };
+};
+
+/**
+ * Build the export table for an assignment. The Moodle worksheet needs the
+ * participant record ids; students without one are left out.
+ */
+export const buildGradeExportTable = (
+  format: GradeExportFormat,
+  records: GradingRecord[],
+  studentData: StudentSubmissionData[],
+  options: {
+    rubric?: Rubric | null;
+    assignment?: MoodleAssignment;
+    participants?: MoodleAssignmentParticipant[];
+  } = {},
+): GradeExportTable =>
+  format === 'moodle-worksheet'
+    ? buildWorksheetTable(
+        records,
+        studentData,
+        options.assignment,
+        options.participants || [],
+      )
+    : buildSpreadsheetTable(records, studentData, options.rubric);
+
+const findColumn = (headers: string[], names: string[]) =>
+  headers.findIndex((header) => names.includes(header.trim().toLowerCase()));
+
+/**
+ * Read final grades from an imported CSV/XLSX export or Moodle worksheet.
+ * Rows are matched by student id, "Participant N" identifier or email address.
+ */
+export const parseGradeImportTable = (
+  table: GradeExportTable,
+  studentData: StudentSubmissionData[],
+  participants: MoodleAssignmentParticipant[] = [],
+): { grades: ImportedFinalGrade[]; unmatched: string[] } => {
+  const headers = table.headers.map((header) => header.toLowerCase());
+  const idColumn = findColumn(headers, [
+    'student id',
+    'identifier',
+    'user id',
+    'userid',
+  ]);
+  const emailColumn = findColumn(headers, ['email', 'email address']);
+  const gradeColumn = findColumn(headers, ['final grade', 'grade']);
+  const feedbackColumn = findColumn(headers, [
+    'final feedback',
+    'feedback comments',
+    'feedback',
+  ]);
+
+  if (gradeColumn === -1 || (idColumn === -1 && emailColumn === -1)) {
+    throw new Error(
+      'The file needs a grade column and a student id, identifier or email column',
+    );
+  }
+
+  const studentIds = new Set(studentData.map((data) => data.student.id));
+  const participantByRecordId = new Map(
+    participants
+      .filter((participant) => participant.recordid)
+      .map((participant) => [String(participant.recordid), participant.id]),
+  );
+  const studentByEmail = new Map(
+    studentData
+      .filter((data) => data.student.email)
+      .map((data) => [data.student.email.toLowerCase(), data.student.id]),
+  );
+
+  const grades: ImportedFinalGrade[] = [];
+  const unmatched: string[] = [];
+
+  table.rows.forEach((row) => {
+    const identifier = idColumn >= 0 ? String(row[idColumn] ?? '').trim() : '';
+    const email =
+      emailColumn >= 0
+        ? String(row[emailColumn] ?? '')
+            .trim()
+            .toLowerCase()
+        : '';
+
+    let studentId: string | undefined;
+    if (identifier.startsWith(PARTICIPANT_PREFIX)) {
+      studentId = participantByRecordId.get(
+        identifier.slice(PARTICIPANT_PREFIX.length).trim(),
+      );
+    } else if (studentIds.has(identifier)) {
+      studentId = identifier;
+    }
+    if (!studentId && email) {
+      studentId = studentByEmail.get(email);
+    }
+
+    if (!studentId) {
+      unmatched.push(identifier || email);
+      return;
+    }
+
+    // Blank or "-" grades mean the row was not graded offline
+    const grade = toNumber(String(row[gradeColumn] ?? ''));
+    if (grade === null) return;
+
+    grades.push({
+      studentId,
+      finalGrade: String(grade),
+      finalFeedback:
+        feedbackColumn >= 0 ? String(row[feedbackColumn] ?? '') : undefined,
+    });
+  });
+
+  return { grades, unmatched };
+};
@@ -0,0 +1,171 @@
+// Cohort statistics over the AI grading records of one assignment
+import type {
+  GradingRecord,
+  StudentSubmissionData,
+  CohortStatistics,
+  CriterionAverage,
+  ScoreHistogramBin,
+} from '@/types/grading';
+
+const HISTOGRAM_BINS = 10;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]) =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+
+// Linear interpolation between closest ranks, on already sorted values
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const getAIScore = (record: GradingRecord): number | null => {
+  const score =
+    record.detailedAIGradeResult?.overallScore ?? record.aiGradeResult?.grade;
+  return typeof score === 'number' && Number.isFinite(score) ? score : null;
+};
+
+// Ten equal bins over the assignment's score range, whatever its maximum
+const buildHistogram = (
+  scores: number[],
+  maxScore: number,
+): ScoreHistogramBin[] => {
+  const width = maxScore / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({
+    from: round(index * width),
+    to: round((index + 1) * width),
+    count: 0,
+  }));
+  scores.forEach((score) => {
+    // The top score belongs to the last bin rather than a bin of its own
+    const index = Math.min(
+      Math.max(Math.floor(score / width), 0),
+      HISTOGRAM_BINS - 1,
+    );
+    bins[index].count += 1;
+  });
+  return bins;
+};
+
+const averageCriteria = (records: GradingRecord[]): CriterionAverage[] => {
+  const totals = new Map<
+    string,
+    { score: number; maxScore: number; count: number }
+  >();
+  records.forEach((record) => {
+    (record.detailedAIGradeResult?.scoreBreakdown || []).forEach((item) => {
+      const entry = totals.get(item.criteriaName) || {
+        score: 0,
+        maxScore: 0,
+        count: 0,
+      };
+      entry.score += Number(item.score) || 0;
+      entry.maxScore = Math.max(entry.maxScore, Number(item.maxScore) || 0);
+      entry.count += 1;
+      totals.set(item.criteriaName, entry);
+    });
+  });
+
+  return Array.from(totals.entries()).map(([criteriaName, entry]) => {
+    const averageScore = entry.score / entry.count;
+    return {
+      criteriaName,
+      averageScore: round(averageScore),
+      maxScore: entry.maxScore,
+      averagePercent:
+        entry.maxScore > 0 ? round((averageScore / entry.maxScore) * 100) : 0,
+      count: entry.count,
+    };
+  });
+};
+
+/**
+ * Summarise AI scores for an assignment: distribution, per-criterion averages,
+ * Tukey-fence outliers and how published final grades moved from the AI suggestion.
+ */
+export const computeCohortStatistics = (
+  records: GradingRecord[],
+  studentData: StudentSubmissionData[],
+  maxScore = 100,
+): CohortStatistics => {
+  const studentsById = new Map(
+    studentData.map((data) => [data.student.id, data]),
+  );
+  const getName = (studentId: string) =>
+    studentsById.get(studentId)?.student.fullname || studentId;
+
+  const scored = records
+    .map((record) => ({ record, score: getAIScore(record) }))
+    .filter(
+      (entry): entry is { record: GradingRecord; score: number } =>
+        entry.score !== null,
+    );
+  const scores = scored.map((entry) => entry.score);
+  const sorted = [...scores].sort((a, b) => a - b);
+
+  const average = mean(scores);
+  const stdDev = Math.sqrt(mean(scores.map((score) => (score - average) ** 2)));
+
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  // Too few scores make the quartiles meaningless
+  const outliers =
+    sorted.length < 4
+      ? []
+      : scored
+          .filter(({ score }) => score < q1 - fence || score > q3 + fence)
+          .map(({ record, score }) => ({
+            studentId: record.studentId,
+            studentName: getName(record.studentId),
+            score,
+            direction:
+              score < q1 - fence ? ('low' as const) : ('high' as const),
+          }))
+          .sort((a, b) => a.score - b.score);
+
+  // Only grades that actually reached Moodle count as published
+  const comparisons = scored
+    .filter(
+      ({ record }) =>
+        studentsById.get(record.studentId)?.grade && record.finalGrade,
+    )
+    .map(({ record, score }) => ({
+      record,
+      score,
+      finalGrade: parseFloat(record.finalGrade as string),
+    }))
+    .filter(({ finalGrade }) => Number.isFinite(finalGrade))
+    .map(({ record, score, finalGrade }) => ({
+      studentId: record.studentId,
+      studentName: getName(record.studentId),
+      aiScore: score,
+      finalGrade,
+      difference: round(finalGrade - score),
+    }));
+
+  return {
+    count: scores.length,
+    mean: round(average),
+    median: round(quantile(sorted, 0.5)),
+    stdDev: round(stdDev),
+    min: sorted.length ? sorted[0] : 0,
+    max: sorted.length ? sorted[sorted.length - 1] : 0,
+    histogram: buildHistogram(scores, maxScore),
+    criteria: averageCriteria(scored.map((entry) => entry.record)),
+    outliers,
+    comparisons,
+    meanAdjustment: round(
+      mean(comparisons.map((comparison) => comparison.difference)),
+    ),
+    adjustedCount: comparisons.filter(
+      (comparison) => comparison.difference !== 0,
+    ).length,
+  };
+};
@@ -0,0 +1,77 @@
+// When a submission came in relative to its due date (or the student's extension),
+// and the late penalty taken off the AI score before the grade is published
+import type { MoodleAssignment } from '@/types/moodle';
+import type {
+  StudentSubmissionData,
+  LatePenaltySettings,
+  SubmissionTiming,
+  LatePenalty,
+} from '@/types/grading';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const DEFAULT_LATE_PENALTY: LatePenaltySettings = {
+  enabled: false,
+  percentPerDay: 10,
+  maxPercent: 50,
+  basis: 'maximum',
+  graceMinutes: 0,
+};
+
+export const getSubmissionTiming = (
+  data: StudentSubmissionData,
+  assignment?: MoodleAssignment,
+): SubmissionTiming => {
+  const dueDate = data.extensionDueDate || assignment?.duedate || undefined;
+  const submitted = data.submission?.status === 'submitted';
+  const submittedAt = submitted
+    ? data.submission?.timemodified || undefined
+    : undefined;
+
+  return {
+    dueDate,
+    extended: !!data.extensionDueDate,
+    submittedAt,
+    lateBy: dueDate && submittedAt ? Math.max(0, submittedAt - dueDate) : 0,
+    overdue: !submitted && !!dueDate && dueDate * 1000 < Date.now(),
+  };
+};
+
+// The AI score is on the rubric's scale, so a penalty based on the maximum takes the
+// rubric total; Moodle's maximum grade only stands in when there is no rubric
+export const getPenaltyMaxScore = (
+  rubricTotal: number,
+  assignment?: MoodleAssignment,
+) => (rubricTotal > 0 ? rubricTotal : Math.max(0, assignment?.grade || 0));
+
+// Whole days late, counting a started day as a day
+export const getDaysLate = (lateBy: number) => Math.ceil(lateBy / DAY_SECONDS);
+
+export const calculateLatePenalty = (
+  grade: number,
+  maxGrade: number,
+  timing: SubmissionTiming,
+  settings: LatePenaltySettings,
+): LatePenalty | null => {
+  const lateBy = timing.lateBy - settings.graceMinutes * 60;
+  if (!settings.enabled || lateBy <= 0 || !Number.isFinite(grade)) return null;
+
+  const daysLate = getDaysLate(lateBy);
+  const percent = Math.min(
+    settings.maxPercent,
+    daysLate * settings.percentPerDay,
+  );
+  if (percent <= 0) return null;
+
+  const base = settings.basis === 'maximum' && maxGrade > 0 ? maxGrade : grade;
+  const deduction = Math.min(grade, round((base * percent) / 100));
+  return {
+    daysLate,
+    percent,
+    originalGrade: grade,
+    deduction,
+    grade: round(grade - deduction),
+  };
+};
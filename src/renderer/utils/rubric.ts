@@ -0,0 +1,342 @@
+// Structured rubric helpers shared by the grading prompt, store and editor
+import type {
+  Rubric,
+  RubricCriterion,
+  DetailedAIGradeResult,
+  ScoreBreakdownItem,
+  AdvancedGradingData,
+  CriterionDisagreement,
+} from '@/types/grading';
+import type { MoodleGradingDefinition } from '@/types/moodle';
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9一-鿿]+/g, ' ')
+    .trim();
+
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+export const getRubricTotal = (rubric: Rubric): number =>
+  roundScore(
+    rubric.criteria.reduce(
+      (sum, criterion) => sum + (criterion.maxScore || 0),
+      0,
+    ),
+  );
+
+export const createRubricCriterion = (index: number): RubricCriterion => ({
+  id: `criterion-${Date.now()}-${index}`,
+  name: '',
+  maxScore: 0,
+  levels: [],
+});
+
+// Find the breakdown item the AI produced for a criterion: exact name first, then containment
+const findBreakdownItem = (
+  criterion: RubricCriterion,
+  items: ScoreBreakdownItem[],
+  used: Set<ScoreBreakdownItem>,
+): ScoreBreakdownItem | undefined => {
+  const target = normalizeName(criterion.name);
+  const candidates = items.filter((item) => !used.has(item));
+  return (
+    candidates.find((item) => normalizeName(item.criteriaName) === target) ||
+    candidates.find((item) => {
+      const name = normalizeName(item.criteriaName);
+      return (
+        name.length > 0 && (name.includes(target) || target.includes(name))
+      );
+    })
+  );
+};
+
+const findClosestLevel = (criterion: RubricCriterion, score: number) =>
+  criterion.levels.reduce((best, level) =>
+    Math.abs(level.points - score) < Math.abs(best.points - score)
+      ? level
+      : best,
+  );
+
+/**
+ * Align an AI score breakdown with the structured rubric: one entry per rubric criterion,
+ * real maxima, scores clamped to range and overallScore recomputed as their sum.
+ */
+export const validateScoreBreakdown = (
+  result: DetailedAIGradeResult,
+  rubric: Rubric | null | undefined,
+): DetailedAIGradeResult => {
+  if (!rubric || rubric.criteria.length === 0) {
+    return result;
+  }
+
+  const items = result.scoreBreakdown || [];
+  const used = new Set<ScoreBreakdownItem>();
+
+  const scoreBreakdown = rubric.criteria.map((criterion, index) => {
+    // Fall back to position when the AI renamed a criterion
+    const match =
+      findBreakdownItem(criterion, items, used) ||
+      (items[index] &&
+      !used.has(items[index]) &&
+      items.length === rubric.criteria.length
+        ? items[index]
+        : undefined);
+    if (match) used.add(match);
+
+    const rawScore = Number(match?.score);
+    let score = Number.isFinite(rawScore)
+      ? Math.min(Math.max(rawScore, 0), criterion.maxScore)
+      : 0;
+
+    // Moodle rubrics can only record one of the defined levels
+    if (rubric.moodle?.method === 'rubric' && criterion.levels.length > 0) {
+      score = findClosestLevel(criterion, score).points;
+    }
+
+    return {
+      criteriaName: criterion.name,
+      score: roundScore(score),
+      maxScore: criterion.maxScore,
+      feedback: match?.feedback || '',
+    };
+  });
+
+  if (used.size < items.length) {
+    console.warn(
+      '[Rubric] Dropped score breakdown items not in rubric:',
+      items.filter((item) => !used.has(item)).map((item) => item.criteriaName),
+    );
+  }
+
+  return {
+    ...result,
+    scoreBreakdown,
+    overallScore: roundScore(
+      scoreBreakdown.reduce((sum, item) => sum + item.score, 0),
+    ),
+  };
+};
+
+// Plain-text rendering of the rubric for the grading prompt
+export const formatRubricForPrompt = (rubric: Rubric): string =>
+  rubric.criteria
+    .map((criterion, index) => {
+      const lines = [
+        `${index + 1}. "${criterion.name}" (maxScore: ${criterion.maxScore})`,
+      ];
+      if (criterion.description) {
+        lines.push(`   Description: ${criterion.description}`);
+      }
+      criterion.levels.forEach((level) => {
+        lines.push(
+          `   - ${level.label} (${level.points} points): ${level.descriptor}`,
+        );
+      });
+      return lines.join('\n');
+    })
+    .join('\n');
+
+const stripHtml = (html: string) =>
+  (html || '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Convert a core_grading_get_definitions definition (rubric or marking guide) into a Rubric
+export const convertMoodleGradingDefinition = (
+  definition: MoodleGradingDefinition,
+): Rubric | null => {
+  if (definition.method === 'rubric' && definition.rubric) {
+    const criteria = [...definition.rubric.rubric_criteria]
+      .sort((a, b) => a.sortorder - b.sortorder)
+      .map((criterion) => {
+        const levels = [...criterion.levels]
+          .sort((a, b) => a.score - b.score)
+          .map((level) => ({
+            id: `moodle-level-${level.id}`,
+            label: `${level.score} points`,
+            points: level.score,
+            descriptor: stripHtml(level.definition),
+            moodleLevelId: level.id,
+          }));
+        return {
+          id: `moodle-criterion-${criterion.id}`,
+          name: stripHtml(criterion.description),
+          maxScore:
+            levels.length > 0
+              ? Math.max(...levels.map((level) => level.points))
+              : 0,
+          levels,
+          moodleCriterionId: criterion.id,
+        };
+      });
+
+    return {
+      criteria,
+      source: 'moodle',
+      moodle: {
+        definitionId: definition.id,
+        method: 'rubric',
+        name: definition.name,
+      },
+    };
+  }
+
+  if (definition.method === 'guide' && definition.guide) {
+    const criteria = [...definition.guide.guide_criteria]
+      .sort((a, b) => a.sortorder - b.sortorder)
+      .map((criterion) => ({
+        id: `moodle-criterion-${criterion.id}`,
+        name: criterion.shortname,
+        description:
+          stripHtml(
+            criterion.descriptionmarkers || criterion.description || '',
+          ) || undefined,
+        maxScore: criterion.maxscore,
+        levels: [],
+        moodleCriterionId: criterion.id,
+      }));
+
+    return {
+      criteria,
+      source: 'moodle',
+      moodle: {
+        definitionId: definition.id,
+        method: 'guide',
+        name: definition.name,
+      },
+    };
+  }
+
+  return null;
+};
+
+// Table rendering used to preview rubrics that do not come from a docx file
+export const rubricToHtml = (rubric: Rubric): string => {
+  const rows = rubric.criteria.map((criterion) => {
+    const levels = criterion.levels
+      .map(
+        (level) =>
+          `<li>${escapeHtml(level.label)}: ${escapeHtml(level.descriptor)}</li>`,
+      )
+      .join('');
+    const description = criterion.description
+      ? `<p>${escapeHtml(criterion.description)}</p>`
+      : '';
+    return `<tr><td><p>${escapeHtml(criterion.name)}</p></td><td><p>${criterion.maxScore}</p></td><td>${description}${levels ? `<ul>${levels}</ul>` : ''}</td></tr>`;
+  });
+  return `<table><tr><th>Criterion</th><th>Max score</th><th>Levels</th></tr>${rows.join('')}</table>`;
+};
+
+// Build the criterion fills for mod_assign_save_grade from an AI score breakdown.
+// Moodle works the grade out from the fills, so every criterion is sent: a rubric
+// with a criterion that matches no level is not filled at all.
+export const buildAdvancedGradingData = (
+  rubric: Rubric,
+  scoreBreakdown: ScoreBreakdownItem[],
+): AdvancedGradingData | undefined => {
+  if (rubric.source !== 'moodle' || !rubric.moodle) {
+    return undefined;
+  }
+
+  const { method } = rubric.moodle;
+  const criteria = rubric.criteria
+    .filter((criterion) => criterion.moodleCriterionId !== undefined)
+    .map((criterion) => {
+      const item = scoreBreakdown.find(
+        (breakdown) => breakdown.criteriaName === criterion.name,
+      );
+      if (method === 'guide') {
+        return {
+          criterionId: criterion.moodleCriterionId as number,
+          score: item?.score ?? 0,
+          remark: item?.feedback || '',
+        };
+      }
+      const levelId =
+        item && criterion.levels.length > 0
+          ? findClosestLevel(criterion, item.score).moodleLevelId
+          : undefined;
+      return levelId === undefined
+        ? null
+        : {
+            criterionId: criterion.moodleCriterionId as number,
+            levelId,
+            remark: item?.feedback || '',
+          };
+    });
+
+  if (criteria.length === 0 || criteria.some((criterion) => !criterion)) {
+    return undefined;
+  }
+  return {
+    method,
+    criteria: criteria as AdvancedGradingData['criteria'],
+  };
+};
+
+/**
+ * Compare two grading passes criterion by criterion. A criterion disagrees when the
+ * scores differ by more than `threshold` (a fraction of that criterion's max score).
+ */
+export const compareScoreBreakdowns = (
+  primary: ScoreBreakdownItem[],
+  second: ScoreBreakdownItem[],
+  threshold: number,
+): CriterionDisagreement[] => {
+  const used = new Set<ScoreBreakdownItem>();
+
+  return primary.map((item) => {
+    const match = findBreakdownItem(
+      {
+        id: item.criteriaName,
+        name: item.criteriaName,
+        maxScore: item.maxScore,
+        levels: [],
+      },
+      second,
+      used,
+    );
+    if (match) used.add(match);
+
+    const secondScore = Number(match?.score) || 0;
+    const difference = roundScore(Math.abs(item.score - secondScore));
+    const maxScore = item.maxScore || match?.maxScore || 0;
+
+    return {
+      criteriaName: item.criteriaName,
+      primaryScore: item.score,
+      secondScore,
+      maxScore,
+      difference,
+      // A criterion the second pass skipped always needs a human look
+      exceedsThreshold:
+        !match ||
+        (maxScore > 0 ? difference / maxScore > threshold : difference > 0),
+    };
+  });
+};
+
+// Whether two grading passes gave the same scores and feedback, e.g. to tell if a moderation still applies
+export const isSameGradeResult = (
+  a: DetailedAIGradeResult,
+  b: DetailedAIGradeResult,
+): boolean => {
+  const fingerprint = (result: DetailedAIGradeResult) =>
+    JSON.stringify([
+      result.overallScore,
+      result.shortFeedback,
+      result.scoreBreakdown.map((item) => [
+        item.criteriaName,
+        item.score,
+        item.maxScore,
+        item.feedback,
+      ]),
+    ]);
+  return fingerprint(a) === fingerprint(b);
+};
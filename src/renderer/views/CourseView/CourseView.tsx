@@ -1,5 +1,6 @@
 import React, { useEffect } from 'react';
-import { Typography, Box } from '@mui/material';
+import { Typography, Box, Chip, Tooltip } from '@mui/material';
+import { CloudOff as CloudOffIcon } from '@mui/icons-material';
 import { AskView } from './modules/Ask';
 import { CourseOverview } from './modules/CourseOverview';
 import { GradingView } from './modules/Grading';
@@ -17,6 +18,9 @@ export const CourseView: React.FC<CourseViewProps> = ({
 }) => {
   const intl = useIntl();
   const { fetchCourseContent, getCourseContent, courses, fetchCourses } = useMoodleStore();
+  const currentContent = useMoodleStore(state =>
+    sessionContext?.sessionId ? state.courseContent[sessionContext.sessionId] : undefined
+  );
 
   // Load course content and save to memory when component mounts or session changes
   useEffect(() => {
@@ -272,6 +276,21 @@ export const CourseView: React.FC<CourseViewProps> = ({
         >
           • {sessionContext.sessionName}
         </Typography>
+        {currentContent?.offline && currentContent.lastUpdated && (
+          <Tooltip title={intl.formatMessage({ id: 'courses.offline.tooltip' })}>
+            <Chip
+              icon={<CloudOffIcon />}
+              size="small"
+              variant="outlined"
+              color="warning"
+              label={intl.formatMessage(
+                { id: 'courses.offline.label' },
+                { time: intl.formatDate(currentContent.lastUpdated, { dateStyle: 'medium', timeStyle: 'short' }) }
+              )}
+              sx={{ ml: 1.5, verticalAlign: 'middle' }}
+            />
+          </Tooltip>
+        )}
       </Box>
 
       {/* Module content */}
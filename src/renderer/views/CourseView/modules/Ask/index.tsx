@@ -16,12 +16,44 @@ export const AskView: React.FC<AskViewProps> = ({
   const intl = useIntl();
   const { todosBySession, planBySession } = useChatStore();
   const [showPlan, setShowPlan] = useState(false);
+  const [materials, setMaterials] = useState<
+    | { state: 'indexing' }
+    | { state: 'indexed'; files: number }
+    | { state: 'failed' }
+  >({ state: 'indexing' });
   const hideTimeoutRef = useRef<NodeJS.Timeout>();
 
   const sessionId = sessionContext.sessionId;
   const todos = todosBySession[sessionId] || [];
   const plan = planBySession?.[sessionId];
 
+  // Index the course's files so answers can cite them; unchanged files are skipped
+  useEffect(() => {
+    let cancelled = false;
+    const indexMaterials = async () => {
+      setMaterials({ state: 'indexing' });
+      try {
+        const result = await window.electron.ipcRenderer.invoke(
+          'materials:index-course',
+          { courseId: sessionId },
+        );
+        if (cancelled) return;
+        setMaterials(
+          result?.success
+            ? { state: 'indexed', files: result.data.files }
+            : { state: 'failed' },
+        );
+      } catch {
+        if (!cancelled) setMaterials({ state: 'failed' });
+      }
+    };
+    indexMaterials();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
   // More reactive plan visibility
   useEffect(() => {
     const hasPlan = todos.length > 0 || plan;
@@ -141,6 +173,21 @@ export const AskView: React.FC<AskViewProps> = ({
           >
             {intl.formatMessage({ id: 'chat.hint' })}
           </Typography>
+          <Typography
+            variant="caption"
+            sx={{
+              color: 'text.disabled',
+              fontSize: '0.75rem',
+              alignSelf: 'flex-start',
+            }}
+          >
+            {materials.state === 'indexed'
+              ? intl.formatMessage(
+                  { id: 'chat.materials.indexed' },
+                  { files: materials.files },
+                )
+              : intl.formatMessage({ id: `chat.materials.${materials.state}` })}
+          </Typography>
         </Box>
 
         {/* Plan Widget - reactive slide animation */}
@@ -167,6 +214,7 @@ export const AskView: React.FC<AskViewProps> = ({
               {showPlan && (
                 <PlanWidget
                   sessionId={sessionContext.sessionId}
+                  showApprovals={false}
                   onClose={() => {
                     setShowPlan(false);
                   }}
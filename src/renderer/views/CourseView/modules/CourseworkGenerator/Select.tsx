@@ -109,8 +109,8 @@ function Select({
     }
 
     const { config } = useMoodleStore.getState();
-    if (!config.apiKey) {
-      return; // No API key available
+    if (!config.hasToken) {
+      return; // Not signed in to Moodle
     }
 
     setLoadingAttachments(prev => ({ ...prev, [assignmentId]: true }));
@@ -118,7 +118,6 @@ function Select({
     try {
       const result = await window.electron.ipcRenderer.invoke('moodle:get-assignment-attachments', {
         baseUrl: config.baseUrl,
-        apiKey: config.apiKey,
         assignmentId,
         courseId: sessionId
       });
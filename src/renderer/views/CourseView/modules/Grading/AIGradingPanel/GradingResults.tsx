@@ -12,6 +12,7 @@ import { useIntl } from 'react-intl';
 import { useChatStore } from '@/stores/useChatStore';
 import { useGradingStore } from '@/stores/useGradingStore';
 import type { DetailedAIGradeResult } from '@/types/grading';
+import ModerationComparison from './ModerationComparison';
 
 interface GradingResultsProps {
   selectedAssignment: string;
@@ -62,8 +63,10 @@ export const GradingResults: React.FC<GradingResultsProps> = ({
   // Get grading store hook to be reactive to changes
   const {
     getDetailedAIGradeResult,
+    getGradingRecord,
     gradingRecords,
     gradingInProgress,
+    moderationInProgress,
     activeGradingStudent,
     initGradingStream,
     appendToGradingStream,
@@ -95,6 +98,10 @@ export const GradingResults: React.FC<GradingResultsProps> = ({
     clearTodos
   } = useChatStore();
 
+  const moderation = selectedAssignment && selectedSubmission
+    ? getGradingRecord(selectedAssignment, selectedSubmission)?.moderation
+    : null;
+
   const todos = todosBySession[sessionId] || [];
   const plan = planBySession?.[sessionId];
 
@@ -468,6 +475,12 @@ export const GradingResults: React.FC<GradingResultsProps> = ({
                 </Box>
               </Box>
             )}
+
+            <ModerationComparison
+              primaryScore={gradingResult.overallScore}
+              moderation={moderation}
+              isModerating={!!selectedSubmission && moderationInProgress.has(selectedSubmission)}
+            />
           </Box>
         ) : (
           /* Clean Loading State */
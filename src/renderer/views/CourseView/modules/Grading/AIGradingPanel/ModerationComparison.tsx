@@ -0,0 +1,248 @@
+import {
+  Box,
+  Typography,
+  Chip,
+  Switch,
+  FormControlLabel,
+  Select,
+  MenuItem,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Flag as FlagIcon,
+  CheckCircleOutline as AgreedIcon,
+} from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { useGradingStore } from '@/stores/useGradingStore';
+import type { ModerationResult } from '@/types/grading';
+
+// Allowed per-criterion disagreement, as a fraction of the criterion's max score
+const THRESHOLD_OPTIONS = [0.1, 0.15, 0.2, 0.25, 0.3, 0.4];
+
+interface ModerationComparisonProps {
+  primaryScore: number;
+  moderation: ModerationResult | null | undefined;
+  isModerating: boolean;
+}
+
+function ModerationComparison({
+  primaryScore,
+  moderation,
+  isModerating,
+}: ModerationComparisonProps) {
+  const intl = useIntl();
+  const { moderationSettings, setModerationSettings } = useGradingStore();
+
+  const renderSettings = () => (
+    <Box
+      sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}
+    >
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={moderationSettings.enabled}
+            onChange={(e) =>
+              setModerationSettings({ enabled: e.target.checked })
+            }
+          />
+        }
+        label={
+          <Typography variant="body2" color="text.secondary">
+            {intl.formatMessage({ id: 'grading.moderation.enable' })}
+          </Typography>
+        }
+        sx={{ mr: 0 }}
+      />
+      <Tooltip
+        title={intl.formatMessage({
+          id: 'grading.moderation.thresholdTooltip',
+        })}
+      >
+        <Select
+          size="small"
+          value={moderationSettings.threshold}
+          onChange={(e) =>
+            setModerationSettings({ threshold: Number(e.target.value) })
+          }
+          disabled={!moderationSettings.enabled}
+          sx={{ fontSize: '0.8rem', '& .MuiSelect-select': { py: 0.5 } }}
+        >
+          {THRESHOLD_OPTIONS.map((option) => (
+            <MenuItem key={option} value={option} sx={{ fontSize: '0.8rem' }}>
+              {intl.formatMessage(
+                { id: 'grading.moderation.threshold' },
+                { percent: Math.round(option * 100) },
+              )}
+            </MenuItem>
+          ))}
+        </Select>
+      </Tooltip>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 1.5,
+          gap: 1,
+        }}
+      >
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{ fontWeight: 500 }}
+        >
+          {intl.formatMessage({ id: 'grading.moderation.title' })}
+        </Typography>
+        {renderSettings()}
+      </Box>
+
+      {isModerating && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 1 }}>
+          <CircularProgress size={16} />
+          <Typography variant="body2" color="text.secondary">
+            {intl.formatMessage({ id: 'grading.moderation.running' })}
+          </Typography>
+        </Box>
+      )}
+
+      {!isModerating && moderation && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            {moderation.flagged ? (
+              <Chip
+                icon={<FlagIcon />}
+                label={intl.formatMessage(
+                  { id: 'grading.moderation.flagged' },
+                  {
+                    count: moderation.disagreements.filter(
+                      (d) => d.exceedsThreshold,
+                    ).length,
+                  },
+                )}
+                color="warning"
+                size="small"
+              />
+            ) : (
+              <Chip
+                icon={<AgreedIcon />}
+                label={intl.formatMessage({ id: 'grading.moderation.agreed' })}
+                color="success"
+                size="small"
+                variant="outlined"
+              />
+            )}
+            {moderation.model && (
+              <Typography variant="caption" color="text.secondary">
+                {moderation.model}
+              </Typography>
+            )}
+          </Box>
+
+          {/* Side-by-side criterion scores: first pass vs second pass */}
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: '1fr auto auto',
+              columnGap: 2,
+              alignItems: 'center',
+            }}
+          >
+            <Typography variant="caption" color="text.secondary">
+              {intl.formatMessage({ id: 'grading.moderation.criterion' })}
+            </Typography>
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ textAlign: 'right' }}
+            >
+              {intl.formatMessage({ id: 'grading.moderation.firstPass' })}
+            </Typography>
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ textAlign: 'right' }}
+            >
+              {intl.formatMessage({ id: 'grading.moderation.secondPass' })}
+            </Typography>
+
+            {moderation.disagreements.map((item) => {
+              const secondFeedback = moderation.secondPass.scoreBreakdown?.find(
+                (entry) => entry.criteriaName === item.criteriaName,
+              )?.feedback;
+              const rowSx = {
+                py: 0.75,
+                borderBottom: '1px solid',
+                borderColor: 'divider',
+                color: item.exceedsThreshold ? 'warning.main' : 'text.primary',
+                fontWeight: item.exceedsThreshold ? 600 : 400,
+              };
+
+              return (
+                <Box key={item.criteriaName} sx={{ display: 'contents' }}>
+                  <Typography variant="body2" sx={rowSx}>
+                    {item.criteriaName}
+                  </Typography>
+                  <Typography
+                    variant="body2"
+                    sx={{ ...rowSx, textAlign: 'right' }}
+                  >
+                    {item.primaryScore}/{item.maxScore}
+                  </Typography>
+                  <Tooltip title={secondFeedback || ''} placement="left" arrow>
+                    <Typography
+                      variant="body2"
+                      sx={{ ...rowSx, textAlign: 'right' }}
+                    >
+                      {item.secondScore}/{item.maxScore}
+                    </Typography>
+                  </Tooltip>
+                </Box>
+              );
+            })}
+
+            <Typography variant="body2" sx={{ pt: 1, fontWeight: 600 }}>
+              {intl.formatMessage({ id: 'grading.moderation.overall' })}
+            </Typography>
+            <Typography
+              variant="body2"
+              sx={{ pt: 1, fontWeight: 600, textAlign: 'right' }}
+            >
+              {primaryScore}
+            </Typography>
+            <Typography
+              variant="body2"
+              sx={{ pt: 1, fontWeight: 600, textAlign: 'right' }}
+            >
+              {moderation.secondPass.overallScore}
+            </Typography>
+          </Box>
+
+          {moderation.secondPass.shortFeedback && (
+            <Typography
+              variant="body2"
+              color="text.secondary"
+              sx={{ mt: 1.5, lineHeight: 1.6 }}
+            >
+              {moderation.secondPass.shortFeedback}
+            </Typography>
+          )}
+        </>
+      )}
+
+      {!isModerating && !moderation && moderationSettings.enabled && (
+        <Typography variant="body2" color="text.secondary">
+          {intl.formatMessage({ id: 'grading.moderation.notRun' })}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export default ModerationComparison;
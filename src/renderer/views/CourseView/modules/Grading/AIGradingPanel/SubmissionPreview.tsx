@@ -11,6 +11,8 @@ import type { MoodleAssignment } from '@/types/moodle';
 import type { StudentSubmissionData } from '@/types/grading';
 import DocxPreview from '@/components/DocxPreview/DocxPreview';
 import type { DocxContent, ElementHighlight } from '@/components/DocxPreview/types';
+import { isOnlineTextActivity, loadActivitySubmission } from '@/utils/gradableActivity';
+import { findGradableFile } from '../StudentSubmissionsPanel/utils';
 
 interface SubmissionFile {
   filename: string;
@@ -66,7 +68,6 @@ export const SubmissionPreview: React.FC<SubmissionPreviewProps> = ({
         // Get submission files from Moodle
         const filesResult = await window.electron.ipcRenderer.invoke('moodle:get-submission-files', {
           baseUrl: config.baseUrl,
-          apiKey: config.apiKey,
           assignmentId: selectedAssignment,
           userId: selectedSubmission,
         });
@@ -77,88 +78,77 @@ export const SubmissionPreview: React.FC<SubmissionPreviewProps> = ({
 
         setSubmissionFiles(filesResult.data);
 
-        // Download and parse DOCX files
-        for (const file of filesResult.data) {
-          if (file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-              file.filename.toLowerCase().endsWith('.docx')) {
-
-            // Create unique filename to avoid conflicts
-            const uniqueFilename = `${selectedSubmission}_${selectedAssignment}_${file.filename}`;
-
-            // Download the file - Moodle files usually need token in URL, not headers
-            let downloadUrl = file.fileurl;
-            if (downloadUrl && !downloadUrl.includes('token=')) {
-              // Add token to URL if not already present
-              const separator = downloadUrl.includes('?') ? '&' : '?';
-              downloadUrl = `${downloadUrl}${separator}token=${config.apiKey}`;
-            }
-
+        // Download and parse the first gradable file (DOCX, PDF, text or image)
+        const file = findGradableFile(filesResult.data);
+        if (file && isOnlineTextActivity(selectedAssignment)) {
+          setDocxContent(await loadActivitySubmission(selectedAssignment, selectedSubmission, config));
+        } else if (file) {
+          // Create unique filename to avoid conflicts
+          const uniqueFilename = `${selectedSubmission}_${selectedAssignment}_${file.filename}`;
+
+          // Retry logic for file download and parsing
+          let success = false;
+          let lastError = '';
+          const maxRetries = 3;
+
+          for (let attempt = 1; attempt <= maxRetries && !success; attempt++) {
+
+            try {
+              const downloadResult = await window.electron.ipcRenderer.invoke('fileio:download-file', {
+                url: file.fileurl,
+                filename: `${uniqueFilename}_attempt${attempt}`,
+                headers: {
+                  'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
+                  'Cache-Control': 'no-cache',
+                  'Pragma': 'no-cache'
+                }
+              });
 
-            // Retry logic for file download and parsing
-            let success = false;
-            let lastError = '';
-            const maxRetries = 3;
+              if (downloadResult.success) {
 
-            for (let attempt = 1; attempt <= maxRetries && !success; attempt++) {
+                // Add a small delay before parsing to ensure file is fully written
+                await new Promise(resolve => setTimeout(resolve, 100));
 
-              try {
-                const downloadResult = await window.electron.ipcRenderer.invoke('fileio:download-file', {
-                  url: downloadUrl,
-                  filename: `${uniqueFilename}_attempt${attempt}`,
-                  headers: {
-                    'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
-                    'Cache-Control': 'no-cache',
-                    'Pragma': 'no-cache'
-                  }
+                // Parse into the shared element-indexed format
+                const parseResult = await window.electron.ipcRenderer.invoke('submission:parse-file', {
+                  filePath: downloadResult.filePath,
+                  filename: file.filename,
+                  mimetype: file.mimetype
                 });
 
-                if (downloadResult.success) {
-
-                  // Add a small delay before parsing to ensure file is fully written
-                  await new Promise(resolve => setTimeout(resolve, 100));
-
-                  // Parse the DOCX file
-                  const parseResult = await window.electron.ipcRenderer.invoke('docx:parse-file', {
-                    filePath: downloadResult.filePath
-                  });
 
+                if (parseResult.success) {
+                  setDocxContent(parseResult.content);
+                  success = true;
+                } else {
+                  lastError = parseResult.error;
+                  console.error(`[SubmissionPreview] Failed to parse submission on attempt ${attempt}:`, parseResult.error);
 
-                  if (parseResult.success) {
-                    setDocxContent(parseResult.content);
-                    success = true;
+                  // If it's a corruption error, try downloading again
+                  if (parseResult.error.includes('Corrupted zip') || parseResult.error.includes('End of data reached')) {
+                    continue;
                   } else {
-                    lastError = parseResult.error;
-                    console.error(`[SubmissionPreview] Failed to parse DOCX on attempt ${attempt}:`, parseResult.error);
-
-                    // If it's a corruption error, try downloading again
-                    if (parseResult.error.includes('Corrupted zip') || parseResult.error.includes('End of data reached')) {
-                      continue;
-                    } else {
-                      // Non-corruption error, don't retry
-                      break;
-                    }
+                    // Non-corruption error, don't retry
+                    break;
                   }
-                } else {
-                  lastError = downloadResult.error;
-                  console.error(`[SubmissionPreview] Failed to download file on attempt ${attempt}:`, downloadResult.error);
                 }
-              } catch (error: any) {
-                lastError = error.message;
-                console.error(`[SubmissionPreview] Exception on attempt ${attempt}:`, error);
-              }
-
-              // Wait before retry (except on last attempt)
-              if (attempt < maxRetries && !success) {
-                await new Promise(resolve => setTimeout(resolve, 500 * attempt)); // Exponential backoff
+              } else {
+                lastError = downloadResult.error;
+                console.error(`[SubmissionPreview] Failed to download file on attempt ${attempt}:`, downloadResult.error);
               }
+            } catch (error: any) {
+              lastError = error.message;
+              console.error(`[SubmissionPreview] Exception on attempt ${attempt}:`, error);
             }
 
-            if (!success) {
-              setFileError(`Failed to download and parse ${file.filename} after ${maxRetries} attempts: ${lastError}`);
+            // Wait before retry (except on last attempt)
+            if (attempt < maxRetries && !success) {
+              await new Promise(resolve => setTimeout(resolve, 500 * attempt)); // Exponential backoff
             }
+          }
 
-            // Only process the first DOCX file for now
-            break;
+          if (!success) {
+            setFileError(`Failed to download and parse ${file.filename} after ${maxRetries} attempts: ${lastError}`);
           }
         }
       } catch (error: any) {
@@ -213,10 +203,7 @@ export const SubmissionPreview: React.FC<SubmissionPreviewProps> = ({
                   html: docxContent.html, // No longer pre-apply highlights - handled by DOM manipulation
                   wordCount: docxContent.wordCount,
                   characterCount: docxContent.characterCount,
-                  filename: submissionFiles.find(f =>
-                    f.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-                    f.filename.toLowerCase().endsWith('.docx')
-                  )?.filename || 'Student Submission',
+                  filename: findGradableFile(submissionFiles)?.filename || 'Student Submission',
                   elementCounts: (docxContent as any).elementCounts
                 }}
                 highlights={highlights} // Pass highlights to be applied via DOM
@@ -2,3 +2,4 @@ export { AIGradingPanel } from './AIGradingPanel';
 export { SubmissionPreview } from './SubmissionPreview';
 export { GradingResults } from './GradingResults';
 export { default as RubricBreakdown } from './RubricBreakdown';
+export { default as ModerationComparison } from './ModerationComparison';
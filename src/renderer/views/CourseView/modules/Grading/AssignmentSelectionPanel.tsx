@@ -26,12 +26,24 @@ import {
   Description as DescriptionIcon,
   Delete as DeleteIcon,
   Visibility as VisibilityIcon,
+  Edit as EditIcon,
+  CloudDownload as CloudDownloadIcon,
+  Quiz as QuizIcon,
+  Forum as ForumIcon,
 } from '@mui/icons-material';
 import type { MoodleAssignment } from '@/types/moodle';
-import type { GradingStats, RubricContent } from '@/types/grading';
+import type { GradingStats, RubricContent, Rubric } from '@/types/grading';
 import DocxPreview from '@/components/DocxPreview/DocxPreview';
 import DocxDialog from '@/components/DocxPreview/DocxDialog';
 import { useIntl } from 'react-intl';
+import { getRubricTotal } from '@/utils/rubric';
+import RubricEditor from './RubricEditor';
+
+const ACTIVITY_ICONS = {
+  assign: AssignmentIcon,
+  quiz: QuizIcon,
+  forum: ForumIcon,
+};
 
 interface AssignmentSelectionPanelProps {
   assignments: MoodleAssignment[];
@@ -46,6 +58,8 @@ interface AssignmentSelectionPanelProps {
   onRubricFileChange: (file: File | null) => void;
   onLoadRubricContent: (file: File) => Promise<void>;
   onClearRubric: () => void;
+  onRubricChange: (rubric: Rubric | null) => void;
+  onImportMoodleRubric?: () => void;
   onBack?: () => void;
   onNext: () => void;
 }
@@ -63,12 +77,16 @@ export const AssignmentSelectionPanel: React.FC<AssignmentSelectionPanelProps> =
   onRubricFileChange,
   onLoadRubricContent,
   onClearRubric,
+  onRubricChange,
+  onImportMoodleRubric,
   onBack,
   onNext,
 }) => {
   const intl = useIntl();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [docxDialogOpen, setDocxDialogOpen] = useState(false);
+  const [rubricEditorOpen, setRubricEditorOpen] = useState(false);
+  const structuredRubric = rubricContent?.rubric;
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -135,37 +153,46 @@ export const AssignmentSelectionPanel: React.FC<AssignmentSelectionPanelProps> =
                 if (!selected) return '';
                 const assignment = assignments.find(a => a.id === selected);
                 if (!assignment) return '';
+                const ActivityIcon = ACTIVITY_ICONS[assignment.activityType || 'assign'];
                 return (
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                    <AssignmentIcon fontSize="small" />
+                    <ActivityIcon fontSize="small" />
                     <Typography noWrap>{assignment.name}</Typography>
                   </Box>
                 );
               }}
             >
-              {assignments.map((assignment) => (
-                <MenuItem key={assignment.id} value={assignment.id}>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, width: '100%' }}>
-                    <AssignmentIcon fontSize="small" color="action" />
-                    <Box sx={{ flex: 1, minWidth: 0 }}>
-                      <Typography variant="body2" noWrap>{assignment.name}</Typography>
-                      {assignment.duedate && (
-                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
-                          {intl.formatMessage({ id: 'common.due' })}: {new Date(assignment.duedate * 1000).toLocaleDateString()}
-                        </Typography>
+              {assignments.map((assignment) => {
+                const ActivityIcon = ACTIVITY_ICONS[assignment.activityType || 'assign'];
+                return (
+                  <MenuItem key={assignment.id} value={assignment.id}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, width: '100%' }}>
+                      <ActivityIcon fontSize="small" color="action" />
+                      <Box sx={{ flex: 1, minWidth: 0 }}>
+                        <Typography variant="body2" noWrap>{assignment.name}</Typography>
+                        {assignment.activityType && assignment.activityType !== 'assign' && (
+                          <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                            {intl.formatMessage({ id: `grading.assignment.activityTypes.${assignment.activityType}` })}
+                          </Typography>
+                        )}
+                        {assignment.duedate && (
+                          <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                            {intl.formatMessage({ id: 'common.due' })}: {new Date(assignment.duedate * 1000).toLocaleDateString()}
+                          </Typography>
+                        )}
+                      </Box>
+                      {assignment.grade && (
+                        <Chip
+                          label={`${intl.formatMessage({ id: 'common.max' })}: ${assignment.grade}`}
+                          size="small"
+                          variant="outlined"
+                          sx={{ ml: 'auto', flexShrink: 0 }}
+                        />
                       )}
                     </Box>
-                    {assignment.grade && (
-                      <Chip
-                        label={`${intl.formatMessage({ id: 'common.max' })}: ${assignment.grade}`}
-                        size="small"
-                        variant="outlined"
-                        sx={{ ml: 'auto', flexShrink: 0 }}
-                      />
-                    )}
-                  </Box>
-                </MenuItem>
-              ))}
+                  </MenuItem>
+                );
+              })}
             </Select>
           </FormControl>
 
@@ -276,9 +303,28 @@ export const AssignmentSelectionPanel: React.FC<AssignmentSelectionPanelProps> =
                   {intl.formatMessage({ id: 'grading.assignment.chooseDocxFile' })}
                 </Button>
 
+                {onImportMoodleRubric && (
+                  <Button
+                    variant="text"
+                    startIcon={rubricLoading ? <CircularProgress size={16} /> : <CloudDownloadIcon />}
+                    onClick={onImportMoodleRubric}
+                    disabled={rubricLoading || !selectedAssignmentData}
+                    size="small"
+                    sx={{ ml: 1 }}
+                  >
+                    {intl.formatMessage({ id: 'grading.assignment.importMoodleRubric' })}
+                  </Button>
+                )}
+
                 <Typography variant="caption" display="block" sx={{ mt: 1, color: 'text.secondary' }}>
                   {intl.formatMessage({ id: 'grading.assignment.optionalHelps' })}
                 </Typography>
+
+                {rubricError && (
+                  <Alert severity="error" sx={{ mt: 2, textAlign: 'left' }}>
+                    {rubricError}
+                  </Alert>
+                )}
               </CardContent>
             </Card>
           ) : (
@@ -370,6 +416,44 @@ export const AssignmentSelectionPanel: React.FC<AssignmentSelectionPanelProps> =
                           {intl.formatMessage({ id: 'grading.assignment.viewFullDocument' })}
                         </Link>
                       </Box>
+
+                      {/* Structured criteria used for prompting and score validation */}
+                      <Divider sx={{ my: 2 }} />
+                      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                        <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                          {structuredRubric?.criteria.length
+                            ? intl.formatMessage(
+                              { id: 'grading.rubric.editor.criteriaSummary' },
+                              { count: structuredRubric.criteria.length, total: getRubricTotal(structuredRubric) },
+                            )
+                            : intl.formatMessage({ id: 'grading.rubric.editor.noCriteria' })}
+                        </Typography>
+                        <Button
+                          size="small"
+                          startIcon={<EditIcon />}
+                          onClick={() => setRubricEditorOpen(true)}
+                        >
+                          {structuredRubric?.criteria.length
+                            ? intl.formatMessage({ id: 'grading.rubric.editor.editCriteria' })
+                            : intl.formatMessage({ id: 'grading.rubric.editor.defineCriteria' })}
+                        </Button>
+                      </Box>
+                      {structuredRubric?.criteria.length ? (
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                          {structuredRubric.criteria.map((criterion) => (
+                            <Chip
+                              key={criterion.id}
+                              label={`${criterion.name} · ${criterion.maxScore}`}
+                              size="small"
+                              variant="outlined"
+                            />
+                          ))}
+                        </Box>
+                      ) : (
+                        <Typography variant="caption" color="text.secondary">
+                          {intl.formatMessage({ id: 'grading.rubric.editor.noCriteriaHelp' })}
+                        </Typography>
+                      )}
                     </>
                   );
                 })()}
@@ -418,6 +502,13 @@ export const AssignmentSelectionPanel: React.FC<AssignmentSelectionPanelProps> =
         loading={false}
         error={null}
       />
+
+      <RubricEditor
+        open={rubricEditorOpen}
+        rubric={structuredRubric}
+        onClose={() => setRubricEditorOpen(false)}
+        onSave={onRubricChange}
+      />
     </Paper>
   );
 };
@@ -0,0 +1,399 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  LinearProgress,
+  CircularProgress,
+  Button,
+} from '@mui/material';
+import { useTheme, alpha } from '@mui/material/styles';
+import {
+  ArrowBack as ArrowBackIcon,
+  TrendingDown as LowIcon,
+  TrendingUp as HighIcon,
+} from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { useGradingStore } from '@/stores/useGradingStore';
+import { computeCohortStatistics } from '@/utils/gradingStats';
+import { getRubricTotal } from '@/utils/rubric';
+import type { MoodleAssignment } from '@/types/moodle';
+
+interface CohortStatisticsPanelProps {
+  selectedAssignment: string;
+  selectedAssignmentData?: MoodleAssignment;
+  onBack: () => void;
+}
+
+const HISTOGRAM_CHART_ID = 'grading-cohort-histogram';
+
+const criterionColor = (averagePercent: number) => {
+  if (averagePercent >= 80) return 'success';
+  if (averagePercent >= 60) return 'warning';
+  return 'error';
+};
+
+// AI scores the teacher raised are green, lowered red
+const differenceColor = (difference: number) => {
+  if (difference > 0) return 'success.main';
+  if (difference < 0) return 'error.main';
+  return 'text.secondary';
+};
+
+export default function CohortStatisticsPanel({
+  selectedAssignment,
+  selectedAssignmentData,
+  onBack,
+}: CohortStatisticsPanelProps) {
+  const intl = useIntl();
+  const theme = useTheme();
+  const [echarts, setEcharts] = useState<any>(null);
+  const {
+    gradingRecords,
+    studentData,
+    assignmentRubrics,
+    getRubricForAssignment,
+  } = useGradingStore();
+
+  // AI overall scores are out of the structured rubric's total, or 100 without one
+  const maxScore = useMemo(() => {
+    const rubric = getRubricForAssignment(selectedAssignment)?.rubric;
+    return (rubric && getRubricTotal(rubric)) || 100;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [assignmentRubrics, selectedAssignment]);
+
+  const stats = useMemo(
+    () =>
+      computeCohortStatistics(
+        gradingRecords.filter(
+          (record) => record.assignmentId === selectedAssignment,
+        ),
+        studentData,
+        maxScore,
+      ),
+    [gradingRecords, studentData, selectedAssignment, maxScore],
+  );
+
+  useEffect(() => {
+    import('echarts')
+      .then((echartsModule) => {
+        setEcharts(echartsModule);
+        return echartsModule;
+      })
+      .catch((error) => {
+        console.error('[CohortStatisticsPanel] Failed to load charts:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!echarts || stats.count === 0) return undefined;
+
+    const chartDom = document.getElementById(HISTOGRAM_CHART_ID);
+    if (!chartDom) return undefined;
+
+    const chart = echarts.init(chartDom, theme.palette.mode);
+    chart.setOption({
+      backgroundColor: 'transparent',
+      tooltip: { trigger: 'axis', axisPointer: { type: 'shadow' } },
+      grid: {
+        left: '3%',
+        right: '4%',
+        bottom: '3%',
+        top: '8%',
+        containLabel: true,
+      },
+      xAxis: {
+        type: 'category',
+        data: stats.histogram.map((bin) => `${bin.from}-${bin.to}`),
+        axisLine: { lineStyle: { color: theme.palette.divider } },
+        axisLabel: { color: theme.palette.text.secondary },
+      },
+      yAxis: {
+        type: 'value',
+        minInterval: 1,
+        axisLabel: { color: theme.palette.text.secondary },
+        splitLine: { lineStyle: { color: alpha(theme.palette.divider, 0.3) } },
+      },
+      series: [
+        {
+          name: intl.formatMessage({ id: 'grading.statistics.students' }),
+          type: 'bar',
+          data: stats.histogram.map((bin) => bin.count),
+          itemStyle: {
+            color: theme.palette.primary.main,
+            borderRadius: [4, 4, 0, 0],
+          },
+        },
+      ],
+    });
+
+    const handleResize = () => {
+      chart.resize();
+    };
+
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.dispose();
+    };
+  }, [echarts, stats, theme, intl]);
+
+  const summaryItems = [
+    { id: 'graded', value: stats.count },
+    { id: 'mean', value: stats.mean },
+    { id: 'median', value: stats.median },
+    { id: 'stdDev', value: stats.stdDev },
+    { id: 'range', value: stats.count ? `${stats.min} - ${stats.max}` : '-' },
+  ];
+
+  return (
+    <Paper sx={{ p: 3, backgroundColor: 'background.paper' }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 3,
+        }}
+      >
+        <Typography variant="h5" sx={{ fontWeight: 500 }}>
+          {intl.formatMessage({ id: 'grading.statistics.title' })}
+          {selectedAssignmentData ? `: ${selectedAssignmentData.name}` : ''}
+        </Typography>
+        <Button startIcon={<ArrowBackIcon />} onClick={onBack} size="small">
+          {intl.formatMessage({ id: 'common.back' })}
+        </Button>
+      </Box>
+
+      {stats.count === 0 ? (
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{ py: 4, textAlign: 'center' }}
+        >
+          {intl.formatMessage({ id: 'grading.statistics.noData' })}
+        </Typography>
+      ) : (
+        <Grid container spacing={3}>
+          {/* Summary */}
+          {summaryItems.map((item) => (
+            <Grid item xs={6} md key={item.id}>
+              <Card sx={{ backgroundColor: 'action.hover' }}>
+                <CardContent
+                  sx={{ textAlign: 'center', py: 2, '&:last-child': { pb: 2 } }}
+                >
+                  <Typography variant="h5" sx={{ fontWeight: 600 }}>
+                    {item.value}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {intl.formatMessage({
+                      id: `grading.statistics.${item.id}`,
+                    })}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          ))}
+
+          {/* Score distribution */}
+          <Grid item xs={12} md={7}>
+            <Typography variant="h6" gutterBottom sx={{ fontWeight: 500 }}>
+              {intl.formatMessage({ id: 'grading.statistics.distribution' })}
+            </Typography>
+            <Box sx={{ height: 280 }}>
+              {!echarts ? (
+                <Box
+                  sx={{
+                    display: 'flex',
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                    height: '100%',
+                  }}
+                >
+                  <CircularProgress />
+                </Box>
+              ) : (
+                <Box
+                  id={HISTOGRAM_CHART_ID}
+                  sx={{ width: '100%', height: '100%' }}
+                />
+              )}
+            </Box>
+          </Grid>
+
+          {/* Per-criterion averages */}
+          <Grid item xs={12} md={5}>
+            <Typography variant="h6" gutterBottom sx={{ fontWeight: 500 }}>
+              {intl.formatMessage({ id: 'grading.statistics.criteria' })}
+            </Typography>
+            {stats.criteria.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {intl.formatMessage({ id: 'grading.statistics.noCriteria' })}
+              </Typography>
+            ) : (
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                {stats.criteria.map((criterion) => (
+                  <Box key={criterion.criteriaName}>
+                    <Box
+                      sx={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        mb: 0.5,
+                      }}
+                    >
+                      <Typography
+                        variant="body2"
+                        noWrap
+                        sx={{ flex: 1, mr: 1 }}
+                      >
+                        {criterion.criteriaName}
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {criterion.averageScore}/{criterion.maxScore}
+                      </Typography>
+                    </Box>
+                    <LinearProgress
+                      variant="determinate"
+                      value={Math.min(criterion.averagePercent, 100)}
+                      color={criterionColor(criterion.averagePercent)}
+                      sx={{ height: 6, borderRadius: 3 }}
+                    />
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </Grid>
+
+          {/* Outliers */}
+          <Grid item xs={12} md={5}>
+            <Typography variant="h6" gutterBottom sx={{ fontWeight: 500 }}>
+              {intl.formatMessage({ id: 'grading.statistics.outliers' })}
+            </Typography>
+            {stats.outliers.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {intl.formatMessage({ id: 'grading.statistics.noOutliers' })}
+              </Typography>
+            ) : (
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                {stats.outliers.map((outlier) => (
+                  <Box
+                    key={outlier.studentId}
+                    sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+                  >
+                    {outlier.direction === 'low' ? (
+                      <LowIcon fontSize="small" color="error" />
+                    ) : (
+                      <HighIcon fontSize="small" color="success" />
+                    )}
+                    <Typography variant="body2" sx={{ flex: 1 }}>
+                      {outlier.studentName}
+                    </Typography>
+                    <Chip
+                      label={outlier.score}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </Grid>
+
+          {/* AI suggestion vs published grade */}
+          <Grid item xs={12} md={7}>
+            <Typography variant="h6" gutterBottom sx={{ fontWeight: 500 }}>
+              {intl.formatMessage({ id: 'grading.statistics.aiVsFinal' })}
+            </Typography>
+            {stats.comparisons.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {intl.formatMessage({ id: 'grading.statistics.noPublished' })}
+              </Typography>
+            ) : (
+              <>
+                <Typography
+                  variant="body2"
+                  color="text.secondary"
+                  sx={{ mb: 1 }}
+                >
+                  {intl.formatMessage(
+                    { id: 'grading.statistics.adjustmentSummary' },
+                    {
+                      adjusted: stats.adjustedCount,
+                      total: stats.comparisons.length,
+                      mean:
+                        stats.meanAdjustment > 0
+                          ? `+${stats.meanAdjustment}`
+                          : stats.meanAdjustment,
+                    },
+                  )}
+                </Typography>
+                <Box sx={{ maxHeight: 280, overflow: 'auto' }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>
+                          {intl.formatMessage({
+                            id: 'grading.statistics.student',
+                          })}
+                        </TableCell>
+                        <TableCell align="right">
+                          {intl.formatMessage({
+                            id: 'grading.statistics.aiScore',
+                          })}
+                        </TableCell>
+                        <TableCell align="right">
+                          {intl.formatMessage({
+                            id: 'grading.statistics.finalGrade',
+                          })}
+                        </TableCell>
+                        <TableCell align="right">
+                          {intl.formatMessage({
+                            id: 'grading.statistics.difference',
+                          })}
+                        </TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {stats.comparisons.map((comparison) => (
+                        <TableRow key={comparison.studentId}>
+                          <TableCell>{comparison.studentName}</TableCell>
+                          <TableCell align="right">
+                            {comparison.aiScore}
+                          </TableCell>
+                          <TableCell align="right">
+                            {comparison.finalGrade}
+                          </TableCell>
+                          <TableCell
+                            align="right"
+                            sx={{
+                              fontWeight:
+                                comparison.difference !== 0 ? 600 : 400,
+                              color: differenceColor(comparison.difference),
+                            }}
+                          >
+                            {comparison.difference > 0
+                              ? `+${comparison.difference}`
+                              : comparison.difference}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              </>
+            )}
+          </Grid>
+        </Grid>
+      )}
+    </Paper>
+  );
+}
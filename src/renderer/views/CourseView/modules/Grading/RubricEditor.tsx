@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  IconButton,
+  Box,
+  Typography,
+  Paper,
+  Tooltip,
+  Alert,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import type { Rubric, RubricCriterion } from '@/types/grading';
+import { createRubricCriterion, getRubricTotal } from '@/utils/rubric';
+
+interface RubricEditorProps {
+  open: boolean;
+  rubric: Rubric | null | undefined;
+  onClose: () => void;
+  onSave: (rubric: Rubric) => void;
+}
+
+export default function RubricEditor({
+  open,
+  rubric,
+  onClose,
+  onSave,
+}: RubricEditorProps) {
+  const intl = useIntl();
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+
+  // Work on a copy so cancelling discards edits
+  useEffect(() => {
+    if (open) {
+      setCriteria(
+        rubric?.criteria.length
+          ? rubric.criteria.map((criterion) => ({
+              ...criterion,
+              levels: criterion.levels.map((level) => ({ ...level })),
+            }))
+          : [createRubricCriterion(0)],
+      );
+    }
+  }, [open, rubric]);
+
+  const updateCriterion = (
+    criterionId: string,
+    changes: Partial<RubricCriterion>,
+  ) => {
+    setCriteria((prev) =>
+      prev.map((criterion) =>
+        criterion.id === criterionId ? { ...criterion, ...changes } : criterion,
+      ),
+    );
+  };
+
+  const updateLevel = (
+    criterionId: string,
+    levelId: string,
+    changes: { label?: string; points?: number; descriptor?: string },
+  ) => {
+    setCriteria((prev) =>
+      prev.map((criterion) =>
+        criterion.id === criterionId
+          ? {
+              ...criterion,
+              levels: criterion.levels.map((level) =>
+                level.id === levelId ? { ...level, ...changes } : level,
+              ),
+            }
+          : criterion,
+      ),
+    );
+  };
+
+  const addLevel = (criterion: RubricCriterion) => {
+    updateCriterion(criterion.id, {
+      levels: [
+        ...criterion.levels,
+        {
+          id: `${criterion.id}-level-${Date.now()}`,
+          label: '',
+          points: 0,
+          descriptor: '',
+        },
+      ],
+    });
+  };
+
+  const removeLevel = (criterion: RubricCriterion, levelId: string) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.filter((level) => level.id !== levelId),
+    });
+  };
+
+  const draft: Rubric = { criteria, source: 'manual' };
+  const hasInvalidCriteria = criteria.some(
+    (criterion) => !criterion.name.trim() || !(criterion.maxScore > 0),
+  );
+  const hasLevelAboveMax = criteria.some((criterion) =>
+    criterion.levels.some((level) => level.points > criterion.maxScore),
+  );
+
+  const handleSave = () => {
+    // Imported rubrics keep their source so Moodle criterion ids survive edits
+    onSave({
+      ...rubric,
+      criteria: criteria.map((criterion) => ({
+        ...criterion,
+        name: criterion.name.trim(),
+      })),
+      source: rubric?.source || 'manual',
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {intl.formatMessage({ id: 'grading.rubric.editor.title' })}
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {intl.formatMessage({ id: 'grading.rubric.editor.description' })}
+        </Typography>
+
+        {criteria.map((criterion, index) => (
+          <Paper key={criterion.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+              <TextField
+                label={intl.formatMessage(
+                  { id: 'grading.rubric.editor.criterionName' },
+                  { index: index + 1 },
+                )}
+                value={criterion.name}
+                onChange={(e) =>
+                  updateCriterion(criterion.id, { name: e.target.value })
+                }
+                size="small"
+                fullWidth
+                error={!criterion.name.trim()}
+              />
+              <TextField
+                label={intl.formatMessage({
+                  id: 'grading.rubric.editor.maxScore',
+                })}
+                type="number"
+                value={criterion.maxScore}
+                onChange={(e) =>
+                  updateCriterion(criterion.id, {
+                    maxScore: parseFloat(e.target.value) || 0,
+                  })
+                }
+                size="small"
+                sx={{ width: 120, flexShrink: 0 }}
+                error={!(criterion.maxScore > 0)}
+                InputProps={{ inputProps: { min: 0 } }}
+              />
+              <Tooltip
+                title={intl.formatMessage({
+                  id: 'grading.rubric.editor.removeCriterion',
+                })}
+              >
+                <IconButton
+                  onClick={() =>
+                    setCriteria((prev) =>
+                      prev.filter((c) => c.id !== criterion.id),
+                    )
+                  }
+                  color="error"
+                  size="small"
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+
+            <TextField
+              label={intl.formatMessage({
+                id: 'grading.rubric.editor.criterionDescription',
+              })}
+              value={criterion.description || ''}
+              onChange={(e) =>
+                updateCriterion(criterion.id, {
+                  description: e.target.value || undefined,
+                })
+              }
+              size="small"
+              fullWidth
+              multiline
+              sx={{ mt: 1.5 }}
+            />
+
+            {criterion.levels.map((level) => (
+              <Box
+                key={level.id}
+                sx={{
+                  display: 'flex',
+                  gap: 1,
+                  mt: 1.5,
+                  pl: 2,
+                  alignItems: 'flex-start',
+                }}
+              >
+                <TextField
+                  label={intl.formatMessage({
+                    id: 'grading.rubric.editor.levelLabel',
+                  })}
+                  value={level.label}
+                  onChange={(e) =>
+                    updateLevel(criterion.id, level.id, {
+                      label: e.target.value,
+                    })
+                  }
+                  size="small"
+                  sx={{ width: 160, flexShrink: 0 }}
+                />
+                <TextField
+                  label={intl.formatMessage({
+                    id: 'grading.rubric.editor.levelPoints',
+                  })}
+                  type="number"
+                  value={level.points}
+                  onChange={(e) =>
+                    updateLevel(criterion.id, level.id, {
+                      points: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  size="small"
+                  sx={{ width: 90, flexShrink: 0 }}
+                  error={level.points > criterion.maxScore}
+                />
+                <TextField
+                  label={intl.formatMessage({
+                    id: 'grading.rubric.editor.levelDescriptor',
+                  })}
+                  value={level.descriptor}
+                  onChange={(e) =>
+                    updateLevel(criterion.id, level.id, {
+                      descriptor: e.target.value,
+                    })
+                  }
+                  size="small"
+                  fullWidth
+                  multiline
+                />
+                <IconButton
+                  size="small"
+                  onClick={() => removeLevel(criterion, level.id)}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => addLevel(criterion)}
+              sx={{ mt: 1, ml: 2 }}
+            >
+              {intl.formatMessage({ id: 'grading.rubric.editor.addLevel' })}
+            </Button>
+          </Paper>
+        ))}
+
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() =>
+            setCriteria((prev) => [...prev, createRubricCriterion(prev.length)])
+          }
+          variant="outlined"
+          size="small"
+        >
+          {intl.formatMessage({ id: 'grading.rubric.editor.addCriterion' })}
+        </Button>
+
+        {hasLevelAboveMax && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {intl.formatMessage({ id: 'grading.rubric.editor.levelAboveMax' })}
+          </Alert>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ justifyContent: 'space-between', px: 3 }}>
+        <Typography variant="body2" color="text.secondary">
+          {intl.formatMessage(
+            { id: 'grading.rubric.editor.total' },
+            { total: getRubricTotal(draft) },
+          )}
+        </Typography>
+        <Box>
+          <Button onClick={onClose}>
+            {intl.formatMessage({ id: 'common.cancel' })}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={criteria.length === 0 || hasInvalidCriteria}
+          >
+            {intl.formatMessage({ id: 'common.save' })}
+          </Button>
+        </Box>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,594 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Grid,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  LinearProgress,
+  CircularProgress,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Alert,
+} from '@mui/material';
+import { useTheme, alpha } from '@mui/material/styles';
+import {
+  ArrowBack as ArrowBackIcon,
+  CompareArrows as CompareIcon,
+} from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { useGradingStore } from '@/stores/useGradingStore';
+import { useContextStore } from '@/stores/useContextStore';
+import HtmlContentRenderer from '@/components/DocxPreview/HtmlContentRenderer';
+import { toast } from '@/utils/toast';
+import type { MoodleAssignment } from '@/types/moodle';
+import type { SimilarityPair, SimilarityReport } from '@/types/grading';
+import {
+  cacheSubmissionContent,
+  loadSubmissionContent,
+} from './StudentSubmissionsPanel/submissionContent';
+
+interface SimilarityPanelProps {
+  selectedAssignment: string;
+  selectedAssignmentData?: MoodleAssignment;
+  onBack: () => void;
+}
+
+interface CachedSubmission {
+  filename: string | null;
+  text: string;
+  html: string;
+}
+
+const HEATMAP_CHART_ID = 'grading-similarity-heatmap';
+const THRESHOLD_OPTIONS = [0.2, 0.3, 0.4, 0.5, 0.6, 0.7];
+// Axis labels become unreadable past this many students
+const MAX_LABELLED_STUDENTS = 30;
+
+const toPercent = (value: number) => Math.round(value * 100);
+
+export default function SimilarityPanel({
+  selectedAssignment,
+  selectedAssignmentData,
+  onBack,
+}: SimilarityPanelProps) {
+  const intl = useIntl();
+  const theme = useTheme();
+  const [echarts, setEcharts] = useState<any>(null);
+  const { studentData, loadGradingDataForAssignment } = useGradingStore();
+  const activeSiteId = useContextStore((state) => state.activeSiteId);
+  const [report, setReport] = useState<SimilarityReport | null>(null);
+  const [threshold, setThreshold] = useState(0.4);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [selectedPair, setSelectedPair] = useState<SimilarityPair | null>(null);
+  const [pairContent, setPairContent] = useState<{
+    a: CachedSubmission | null;
+    b: CachedSubmission | null;
+  } | null>(null);
+
+  const studentNames = useMemo(
+    () =>
+      new Map(
+        (report?.students || []).map((student) => [
+          student.studentId,
+          student.studentName,
+        ]),
+      ),
+    [report],
+  );
+
+  useEffect(() => {
+    import('echarts')
+      .then((echartsModule) => {
+        setEcharts(echartsModule);
+        return echartsModule;
+      })
+      .catch((error) =>
+        console.error('[Similarity] Failed to load charts:', error),
+      );
+  }, []);
+
+  // Show the last report for this assignment until a new check is run
+  useEffect(() => {
+    setReport(null);
+    setSelectedPair(null);
+    if (!selectedAssignment) return;
+
+    window.electron.ipcRenderer
+      .invoke('similarity:get-report', {
+        assignmentId: selectedAssignment,
+        site: activeSiteId,
+      })
+      .then((result) => {
+        if (!result.success || !result.data) return null;
+        setReport(result.data);
+        setThreshold(result.data.threshold);
+        return result.data;
+      })
+      .catch((error) =>
+        console.error('[Similarity] Failed to load report:', error),
+      );
+  }, [selectedAssignment, activeSiteId]);
+
+  // Load both submissions of the selected pair for side-by-side comparison
+  useEffect(() => {
+    setPairContent(null);
+    if (!selectedPair) return undefined;
+
+    const loadSubmission = async (
+      studentId: string,
+    ): Promise<CachedSubmission | null> => {
+      const result = await window.electron.ipcRenderer.invoke(
+        'similarity:get-submission',
+        {
+          assignmentId: selectedAssignment,
+          site: activeSiteId,
+          studentId,
+        },
+      );
+      return result.success ? result.data : null;
+    };
+
+    let cancelled = false;
+    Promise.all([
+      loadSubmission(selectedPair.studentA),
+      loadSubmission(selectedPair.studentB),
+    ])
+      .then(([a, b]) => {
+        if (!cancelled) setPairContent({ a, b });
+        return undefined;
+      })
+      .catch((error) =>
+        console.error('[Similarity] Failed to load submissions:', error),
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPair, selectedAssignment, activeSiteId]);
+
+  useEffect(() => {
+    if (!echarts || !report || report.students.length < 2) return undefined;
+
+    const chartDom = document.getElementById(HEATMAP_CHART_ID);
+    if (!chartDom) return undefined;
+
+    const names = report.students.map((student) => student.studentName);
+    const showLabels = names.length <= MAX_LABELLED_STUDENTS;
+    const data: Array<[number, number, number]> = [];
+    report.matrix.forEach((row, i) => {
+      row.forEach((value, j) => {
+        if (i !== j) data.push([j, i, toPercent(value)]);
+      });
+    });
+
+    const chart = echarts.init(chartDom, theme.palette.mode);
+    chart.setOption({
+      backgroundColor: 'transparent',
+      tooltip: {
+        formatter: (params: any) =>
+          `${names[params.value[1]]} / ${names[params.value[0]]}: ${params.value[2]}%`,
+      },
+      grid: {
+        left: '3%',
+        right: '4%',
+        bottom: '12%',
+        top: '4%',
+        containLabel: true,
+      },
+      xAxis: {
+        type: 'category',
+        data: names,
+        axisLabel: {
+          show: showLabels,
+          rotate: 45,
+          color: theme.palette.text.secondary,
+        },
+        axisLine: { lineStyle: { color: theme.palette.divider } },
+      },
+      yAxis: {
+        type: 'category',
+        data: names,
+        axisLabel: { show: showLabels, color: theme.palette.text.secondary },
+        axisLine: { lineStyle: { color: theme.palette.divider } },
+      },
+      visualMap: {
+        min: 0,
+        max: 100,
+        calculable: true,
+        orient: 'horizontal',
+        left: 'center',
+        bottom: 0,
+        textStyle: { color: theme.palette.text.secondary },
+        inRange: {
+          color: [
+            alpha(theme.palette.primary.main, 0.05),
+            theme.palette.warning.main,
+            theme.palette.error.main,
+          ],
+        },
+      },
+      series: [
+        {
+          type: 'heatmap',
+          data,
+          emphasis: {
+            itemStyle: {
+              borderColor: theme.palette.text.primary,
+              borderWidth: 1,
+            },
+          },
+        },
+      ],
+    });
+
+    chart.on('click', (params: any) => {
+      const studentA = report.students[params.value[1]].studentId;
+      const studentB = report.students[params.value[0]].studentId;
+      const pair = report.pairs.find(
+        (p) =>
+          (p.studentA === studentA && p.studentB === studentB) ||
+          (p.studentA === studentB && p.studentB === studentA),
+      );
+      if (pair) setSelectedPair(pair);
+    });
+
+    const handleResize = () => {
+      chart.resize();
+    };
+
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.dispose();
+    };
+  }, [echarts, report, theme]);
+
+  // Parse any submission that is missing from the cache or changed since it was parsed, then compare
+  const runCheck = async () => {
+    const site = activeSiteId;
+    setRunning(true);
+    setSelectedPair(null);
+    try {
+      const configResult =
+        await window.electron.ipcRenderer.invoke('moodle:get-config');
+      if (!configResult.success) {
+        throw new Error('No Moodle configuration found');
+      }
+
+      const submitted = studentData.filter(
+        (data) => data.submission?.status === 'submitted',
+      );
+      const cachedResult = await window.electron.ipcRenderer.invoke(
+        'similarity:list-cached',
+        {
+          assignmentId: selectedAssignment,
+          site,
+        },
+      );
+      const cached = new Map<string, number | null>(
+        (cachedResult.success ? cachedResult.data : []).map(
+          (entry: { studentId: string; submissionModified: number | null }) => [
+            entry.studentId,
+            entry.submissionModified,
+          ],
+        ),
+      );
+
+      const stale = submitted.filter(
+        (data) =>
+          !cached.has(data.student.id) ||
+          cached.get(data.student.id) !==
+            (data.submission?.timemodified ?? null),
+      );
+      setProgress({ done: 0, total: stale.length });
+
+      for (const data of stale) {
+        try {
+          const { filename, content } = await loadSubmissionContent(
+            selectedAssignment,
+            data.student.id,
+            configResult.data,
+          );
+          await cacheSubmissionContent(
+            site,
+            selectedAssignment,
+            data.student.id,
+            content,
+            filename,
+            data.submission?.timemodified,
+          );
+        } catch (error) {
+          console.warn(
+            `[Similarity] Could not parse submission of ${data.student.fullname}:`,
+            error,
+          );
+        }
+        setProgress((prev) => ({ ...prev, done: prev.done + 1 }));
+      }
+
+      const result = await window.electron.ipcRenderer.invoke(
+        'similarity:analyze',
+        {
+          assignmentId: selectedAssignment,
+          site,
+          students: submitted.map((data) => ({
+            studentId: data.student.id,
+            studentName: data.student.fullname,
+          })),
+          threshold,
+        },
+      );
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setReport(result.data);
+      await loadGradingDataForAssignment(selectedAssignment);
+
+      const flagged = result.data.pairs.filter(
+        (pair: SimilarityPair) => pair.flagged,
+      ).length;
+      toast.success(
+        intl.formatMessage(
+          { id: 'grading.similarity.completed' },
+          { count: flagged },
+        ),
+      );
+    } catch (error: any) {
+      console.error('[Similarity] Check failed:', error);
+      toast.error(
+        intl.formatMessage(
+          { id: 'grading.similarity.failed' },
+          { error: error.message },
+        ),
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderSubmissionContent = (
+    submission: CachedSubmission | null | undefined,
+    passages: SimilarityPair['passagesA'],
+  ) => {
+    if (!pairContent) return <CircularProgress size={24} />;
+    if (!submission) {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          {intl.formatMessage({
+            id: 'grading.similarity.submissionUnavailable',
+          })}
+        </Typography>
+      );
+    }
+    return (
+      <HtmlContentRenderer
+        html={submission.html || submission.text}
+        highlights={[]}
+        passageHighlights={passages}
+      />
+    );
+  };
+
+  const renderSubmission = (
+    studentId: string,
+    submission: CachedSubmission | null | undefined,
+    passages: SimilarityPair['passagesA'],
+  ) => (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        {studentNames.get(studentId) || studentId}
+        {submission?.filename ? ` - ${submission.filename}` : ''}
+      </Typography>
+      <Box
+        sx={{
+          maxHeight: 480,
+          overflow: 'auto',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          p: 2,
+        }}
+      >
+        {renderSubmissionContent(submission, passages)}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Paper sx={{ p: 3, backgroundColor: 'background.paper' }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 3,
+        }}
+      >
+        <Typography variant="h5" sx={{ fontWeight: 500 }}>
+          {intl.formatMessage({ id: 'grading.similarity.title' })}
+          {selectedAssignmentData ? `: ${selectedAssignmentData.name}` : ''}
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>
+              {intl.formatMessage({ id: 'grading.similarity.threshold' })}
+            </InputLabel>
+            <Select
+              value={threshold}
+              label={intl.formatMessage({ id: 'grading.similarity.threshold' })}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              disabled={running}
+            >
+              {THRESHOLD_OPTIONS.map((option) => (
+                <MenuItem key={option} value={option}>
+                  {toPercent(option)}%
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="contained"
+            startIcon={
+              running ? (
+                <CircularProgress size={16} color="inherit" />
+              ) : (
+                <CompareIcon />
+              )
+            }
+            onClick={runCheck}
+            disabled={running || studentData.length === 0}
+          >
+            {intl.formatMessage({ id: 'grading.similarity.run' })}
+          </Button>
+          <Button startIcon={<ArrowBackIcon />} onClick={onBack} size="small">
+            {intl.formatMessage({ id: 'common.back' })}
+          </Button>
+        </Box>
+      </Box>
+
+      {running && progress.total > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {intl.formatMessage(
+              { id: 'grading.similarity.parsing' },
+              { done: progress.done, total: progress.total },
+            )}
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            value={(progress.done / progress.total) * 100}
+          />
+        </Box>
+      )}
+
+      {!report ? (
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{ py: 4, textAlign: 'center' }}
+        >
+          {intl.formatMessage({ id: 'grading.similarity.noReport' })}
+        </Typography>
+      ) : (
+        <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <Typography variant="body2" color="text.secondary">
+              {intl.formatMessage(
+                { id: 'grading.similarity.summary' },
+                {
+                  students: report.students.length,
+                  flagged: report.pairs.filter((pair) => pair.flagged).length,
+                  threshold: toPercent(report.threshold),
+                  date: new Date(report.createdAt).toLocaleString(),
+                },
+              )}
+            </Typography>
+            {report.skipped.length > 0 && (
+              <Alert severity="info" sx={{ mt: 1 }}>
+                {intl.formatMessage(
+                  { id: 'grading.similarity.skipped' },
+                  {
+                    students: report.skipped
+                      .map((student) => student.studentName)
+                      .join(', '),
+                  },
+                )}
+              </Alert>
+            )}
+          </Grid>
+
+          {/* Pairwise similarity matrix */}
+          <Grid item xs={12} md={7}>
+            <Typography variant="h6" gutterBottom sx={{ fontWeight: 500 }}>
+              {intl.formatMessage({ id: 'grading.similarity.matrix' })}
+            </Typography>
+            <Box sx={{ height: 420 }}>
+              {!echarts ? (
+                <Box
+                  sx={{
+                    display: 'flex',
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                    height: '100%',
+                  }}
+                >
+                  <CircularProgress />
+                </Box>
+              ) : (
+                <Box
+                  id={HEATMAP_CHART_ID}
+                  sx={{ width: '100%', height: '100%' }}
+                />
+              )}
+            </Box>
+          </Grid>
+
+          {/* Most similar pairs */}
+          <Grid item xs={12} md={5}>
+            <Typography variant="h6" gutterBottom sx={{ fontWeight: 500 }}>
+              {intl.formatMessage({ id: 'grading.similarity.pairs' })}
+            </Typography>
+            {report.pairs.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {intl.formatMessage({ id: 'grading.similarity.noPairs' })}
+              </Typography>
+            ) : (
+              <List dense sx={{ maxHeight: 420, overflow: 'auto' }}>
+                {report.pairs.map((pair) => (
+                  <ListItemButton
+                    key={`${pair.studentA}-${pair.studentB}`}
+                    selected={selectedPair === pair}
+                    onClick={() => setSelectedPair(pair)}
+                  >
+                    <ListItemText
+                      primary={`${studentNames.get(pair.studentA)} / ${studentNames.get(pair.studentB)}`}
+                      secondary={intl.formatMessage(
+                        { id: 'grading.similarity.sharedPassages' },
+                        { count: pair.passagesA.length },
+                      )}
+                    />
+                    <Chip
+                      label={`${toPercent(pair.similarity)}%`}
+                      size="small"
+                      color={pair.flagged ? 'error' : 'default'}
+                      variant={pair.flagged ? 'filled' : 'outlined'}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Grid>
+
+          {/* Side-by-side comparison with the shared passages highlighted */}
+          {selectedPair && (
+            <>
+              <Grid item xs={12} md={6}>
+                {renderSubmission(
+                  selectedPair.studentA,
+                  pairContent?.a,
+                  selectedPair.passagesA,
+                )}
+              </Grid>
+              <Grid item xs={12} md={6}>
+                {renderSubmission(
+                  selectedPair.studentB,
+                  pairContent?.b,
+                  selectedPair.passagesB,
+                )}
+              </Grid>
+            </>
+          )}
+        </Grid>
+      )}
+    </Paper>
+  );
+}
@@ -9,6 +9,9 @@ import {
   Button,
   Tooltip,
   CircularProgress,
+  LinearProgress,
+  Select,
+  MenuItem,
   useTheme,
   alpha,
 } from '@mui/material';
@@ -18,10 +21,14 @@ import {
   PlayArrow as PlayArrowIcon,
   Send as SendIcon,
   Clear as ClearIcon,
+  Pause as PauseIcon,
+  Replay as ReplayIcon,
+  Message as MessageIcon,
+  EventAvailable as ExtensionIcon,
 } from '@mui/icons-material';
 import { useIntl } from 'react-intl';
 import type { CategoryKey } from './types';
-import type { StudentSubmissionData } from '@/types/grading';
+import type { StudentSubmissionData, GradingJob } from '@/types/grading';
 
 interface CategoryHeaderProps {
   title: string;
@@ -36,9 +43,18 @@ interface CategoryHeaderProps {
   onBatchStartGrading?: () => void;
   onBatchClearGrading?: () => void;
   onBatchSubmitGrades?: () => void;
+  onBatchNotify?: () => void;
+  onBatchExtend?: () => void;
   isBatchGrading?: boolean;
   showGradingActions?: boolean;
   showSubmitAction?: boolean;
+  showNotifyAction?: boolean;
+  queueJob?: GradingJob | null;
+  queueConcurrency?: number;
+  onQueueConcurrencyChange?: (concurrency: number) => void;
+  onPauseQueue?: () => void;
+  onResumeQueue?: (retryFailed?: boolean) => void;
+  onCancelQueue?: () => void;
 }
 
 export const CategoryHeader: React.FC<CategoryHeaderProps> = ({
@@ -54,9 +70,18 @@ export const CategoryHeader: React.FC<CategoryHeaderProps> = ({
   onBatchStartGrading,
   onBatchClearGrading,
   onBatchSubmitGrades,
+  onBatchNotify,
+  onBatchExtend,
   isBatchGrading = false,
   showGradingActions = false,
   showSubmitAction = false,
+  showNotifyAction = false,
+  queueJob,
+  queueConcurrency,
+  onQueueConcurrencyChange,
+  onPauseQueue,
+  onResumeQueue,
+  onCancelQueue,
 }) => {
   const intl = useIntl();
   const theme = useTheme();
@@ -82,6 +107,13 @@ export const CategoryHeader: React.FC<CategoryHeaderProps> = ({
     action?.();
   };
 
+  // Batch queue progress (only passed to the "Ready to Grade" header)
+  const queueTotal = queueJob?.items.length || 0;
+  const queueCompleted = queueJob?.items.filter(item => item.status === 'completed').length || 0;
+  const queueFailed = queueJob?.items.filter(item => item.status === 'failed').length || 0;
+  const isQueueActive = queueJob?.status === 'running' || queueJob?.status === 'paused';
+  const showQueue = !!queueJob && queueTotal > 0 && (isQueueActive || queueFailed > 0);
+
   return (
     <TableRow>
       <TableCell
@@ -174,6 +206,78 @@ export const CategoryHeader: React.FC<CategoryHeaderProps> = ({
             )}
           </Box>
 
+          {/* Batch queue progress and controls */}
+          {showQueue && queueJob && (
+            <Box
+              sx={{ display: 'flex', alignItems: 'center', gap: theme.spacing(1), flex: 1, minWidth: 0, maxWidth: 520 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <Box sx={{ flex: 1, minWidth: theme.spacing(10) }}>
+                <LinearProgress
+                  variant="determinate"
+                  value={queueTotal > 0 ? ((queueCompleted + queueFailed) / queueTotal) * 100 : 0}
+                  color={queueJob.status === 'paused' ? 'warning' : 'primary'}
+                />
+              </Box>
+              <Typography variant="caption" sx={{ whiteSpace: 'nowrap', color: theme.palette.text.secondary }}>
+                {intl.formatMessage({ id: 'grading.submissions.batchGrading.queueProgress' }, { completed: queueCompleted, total: queueTotal })}
+                {queueFailed > 0 && ` · ${intl.formatMessage({ id: 'grading.submissions.batchGrading.queueFailed' }, { count: queueFailed })}`}
+                {queueJob.status === 'paused' && ` · ${intl.formatMessage({ id: 'grading.submissions.batchGrading.queuePaused' })}`}
+              </Typography>
+
+              {queueJob.status === 'running' && onPauseQueue && (
+                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batchGrading.pause' })}>
+                  <IconButton size="small" onClick={(e) => handleActionClick(e, onPauseQueue)}>
+                    <PauseIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+              {queueJob.status === 'paused' && onResumeQueue && (
+                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batchGrading.resume' })}>
+                  <IconButton size="small" color="primary" onClick={(e) => handleActionClick(e, () => onResumeQueue())}>
+                    <PlayArrowIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+              {queueFailed > 0 && queueJob.status !== 'running' && onResumeQueue && (
+                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batchGrading.retryFailed' })}>
+                  <IconButton size="small" onClick={(e) => handleActionClick(e, () => onResumeQueue(true))}>
+                    <ReplayIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+              {onCancelQueue && (
+                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batchGrading.cancel' })}>
+                  <IconButton size="small" color="error" onClick={(e) => handleActionClick(e, onCancelQueue)}>
+                    <ClearIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+            </Box>
+          )}
+
+          {/* Queue concurrency, applied to the next batch */}
+          {!isQueueActive && onQueueConcurrencyChange && queueConcurrency !== undefined && (
+            <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batchGrading.concurrencyTooltip' })}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: theme.spacing(0.5) }} onClick={(e) => e.stopPropagation()}>
+                <Typography variant="caption" color="text.secondary">
+                  {intl.formatMessage({ id: 'grading.submissions.batchGrading.concurrency' })}
+                </Typography>
+                <Select
+                  size="small"
+                  variant="standard"
+                  value={queueConcurrency}
+                  onChange={(e) => onQueueConcurrencyChange(Number(e.target.value))}
+                  sx={{ fontSize: theme.typography.pxToRem(12) }}
+                >
+                  {[1, 2, 3, 4, 6, 8].map(value => (
+                    <MenuItem key={value} value={value}>{value}</MenuItem>
+                  ))}
+                </Select>
+              </Box>
+            </Tooltip>
+          )}
+
           {/* Batch action buttons */}
           {!isCollapsed && selectedInCategory.length > 0 && (
             <Box sx={{
@@ -280,6 +384,52 @@ export const CategoryHeader: React.FC<CategoryHeaderProps> = ({
                   </Button>
                 </Tooltip>
               )}
+
+              {/* Batch Notify - For "Not Submitted" category */}
+              {showNotifyAction && onBatchNotify && categoryKey === 'notSubmitted' && (
+                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batch.notifyStudents' }, { count: selectedInCategory.length })}>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    color="primary"
+                    startIcon={<MessageIcon />}
+                    onClick={(e) => handleActionClick(e, onBatchNotify)}
+                    sx={{
+                      minWidth: theme.spacing(12),
+                      fontSize: theme.typography.pxToRem(12),
+                      borderRadius: theme.shape.borderRadius,
+                      '&:hover': {
+                        backgroundColor: alpha(theme.palette.primary.main, 0.08),
+                      }
+                    }}
+                  >
+                    {intl.formatMessage({ id: 'grading.submissions.batch.notify' })} ({selectedInCategory.length})
+                  </Button>
+                </Tooltip>
+              )}
+
+              {/* Batch Grant Extension - Any category the panel offers it for */}
+              {onBatchExtend && (
+                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batch.extendStudents' }, { count: selectedInCategory.length })}>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    color="primary"
+                    startIcon={<ExtensionIcon />}
+                    onClick={(e) => handleActionClick(e, onBatchExtend)}
+                    sx={{
+                      minWidth: theme.spacing(12),
+                      fontSize: theme.typography.pxToRem(12),
+                      borderRadius: theme.shape.borderRadius,
+                      '&:hover': {
+                        backgroundColor: alpha(theme.palette.primary.main, 0.08),
+                      }
+                    }}
+                  >
+                    {intl.formatMessage({ id: 'grading.submissions.batch.extend' })} ({selectedInCategory.length})
+                  </Button>
+                </Tooltip>
+              )}
             </Box>
           )}
         </Box>
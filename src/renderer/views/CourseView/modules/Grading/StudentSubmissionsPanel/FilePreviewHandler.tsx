@@ -2,6 +2,8 @@ import { useState } from 'react';
 
 import type { DocxContent } from '@/components/DocxPreview/types';
 import type { SubmissionFile } from './types';
+import { isOnlineTextActivity, loadActivitySubmission } from '@/utils/gradableActivity';
+import { isSupportedSubmissionFile } from './utils';
 
 const useFilePreviewHandler = () => {
   const [docxContent, setDocxContent] = useState<DocxContent | null>(null);
@@ -15,11 +17,7 @@ const useFilePreviewHandler = () => {
     selectedAssignment: string,
     onDialogOpen: (studentName: string, filename: string) => void,
   ) => {
-    if (
-      file.mimetype !==
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document' &&
-      !file.filename.toLowerCase().endsWith('.docx')
-    ) {
+    if (!isSupportedSubmissionFile(file)) {
       return;
     }
 
@@ -37,18 +35,19 @@ const useFilePreviewHandler = () => {
       }
 
       const config = configResult.data;
-      const uniqueFilename = `${studentId}_${selectedAssignment}_${file.filename}`;
-
-      let downloadUrl = file.fileurl;
-      if (downloadUrl && !downloadUrl.includes('token=')) {
-        const separator = downloadUrl.includes('?') ? '&' : '?';
-        downloadUrl = `${downloadUrl}${separator}token=${config.apiKey}`;
+      if (isOnlineTextActivity(selectedAssignment)) {
+        setDocxContent(
+          await loadActivitySubmission(selectedAssignment, studentId, config),
+        );
+        return;
       }
 
+      const uniqueFilename = `${studentId}_${selectedAssignment}_${file.filename}`;
+
       const downloadResult = await window.electron.ipcRenderer.invoke(
         'fileio:download-file',
         {
-          url: downloadUrl,
+          url: file.fileurl,
           filename: uniqueFilename,
           headers: {
             'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
@@ -64,9 +63,11 @@ const useFilePreviewHandler = () => {
         });
 
         const parseResult = await window.electron.ipcRenderer.invoke(
-          'docx:parse-file',
+          'submission:parse-file',
           {
             filePath: downloadResult.filePath,
+            filename: file.filename,
+            mimetype: file.mimetype,
           },
         );
 
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Menu,
+  MenuItem,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import {
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon,
+} from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { useGradingStore } from '@/stores/useGradingStore';
+import {
+  buildGradeExportTable,
+  parseGradeImportTable,
+} from '@/utils/gradingExport';
+import { toast } from '@/utils/toast';
+import type { GradeExportFormat, StudentSubmissionData } from '@/types/grading';
+import type {
+  MoodleAssignment,
+  MoodleAssignmentParticipant,
+} from '@/types/moodle';
+
+interface GradeExportMenuProps {
+  selectedAssignment: string;
+  selectedAssignmentData?: MoodleAssignment;
+  studentData: StudentSubmissionData[];
+}
+
+const EXPORT_FORMATS: GradeExportFormat[] = ['csv', 'xlsx', 'moodle-worksheet'];
+
+// Participant record ids map Moodle's "Participant N" worksheet identifiers to users
+const loadParticipants = async (
+  assignmentId: string,
+): Promise<MoodleAssignmentParticipant[]> => {
+  const configResult =
+    await window.electron.ipcRenderer.invoke('moodle:get-config');
+  if (!configResult.success) {
+    throw new Error('No Moodle configuration found');
+  }
+
+  const result = await window.electron.ipcRenderer.invoke(
+    'moodle:get-assignment-participants',
+    {
+      baseUrl: configResult.data.baseUrl,
+      assignmentId,
+    },
+  );
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to load assignment participants');
+  }
+  return result.data;
+};
+
+export default function GradeExportMenu({
+  selectedAssignment,
+  selectedAssignmentData,
+  studentData,
+}: GradeExportMenuProps) {
+  const intl = useIntl();
+  const { gradingRecords, getRubricForAssignment, importFinalGrades } =
+    useGradingStore();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (format: GradeExportFormat) => {
+    setAnchorEl(null);
+    setBusy(true);
+    try {
+      const participants =
+        format === 'moodle-worksheet'
+          ? await loadParticipants(selectedAssignment)
+          : [];
+      const table = buildGradeExportTable(
+        format,
+        gradingRecords.filter((r) => r.assignmentId === selectedAssignment),
+        studentData,
+        {
+          rubric: getRubricForAssignment(selectedAssignment)?.rubric,
+          assignment: selectedAssignmentData,
+          participants,
+        },
+      );
+
+      if (table.rows.length === 0) {
+        throw new Error(
+          intl.formatMessage({ id: 'grading.export.nothingToExport' }),
+        );
+      }
+
+      const name =
+        selectedAssignmentData?.name || `assignment-${selectedAssignment}`;
+      const result = await window.electron.ipcRenderer.invoke(
+        'grading-export:save',
+        {
+          format,
+          fileName:
+            format === 'moodle-worksheet'
+              ? `${name} - grading worksheet`
+              : `${name} - grades`,
+          sheetName: name,
+          ...table,
+        },
+      );
+
+      if (result.success) {
+        toast.success(
+          intl.formatMessage(
+            { id: 'grading.export.exported' },
+            { count: result.data.rowCount, file: result.data.fileName },
+          ),
+        );
+      } else if (!result.canceled) {
+        throw new Error(result.error);
+      }
+    } catch (error: any) {
+      console.error('[GradeExport] Export failed:', error);
+      toast.error(
+        intl.formatMessage(
+          { id: 'grading.export.exportFailed' },
+          { error: error.message },
+        ),
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'grading-export:open',
+      );
+      if (!result.success) {
+        if (result.canceled) return;
+        throw new Error(result.error);
+      }
+
+      const { headers, rows } = result.data;
+      const usesParticipantIds = rows.some((row: string[]) =>
+        row.some((value) => /^Participant \d+$/.test(value)),
+      );
+      const participants = usesParticipantIds
+        ? await loadParticipants(selectedAssignment)
+        : [];
+
+      const { grades, unmatched } = parseGradeImportTable(
+        { headers, rows },
+        studentData,
+        participants,
+      );
+      const imported = importFinalGrades(selectedAssignment, grades);
+
+      if (unmatched.length > 0) {
+        console.warn('[GradeExport] Unmatched import rows:', unmatched);
+        toast.warning(
+          intl.formatMessage(
+            { id: 'grading.export.importedWithUnmatched' },
+            { count: imported, unmatched: unmatched.length },
+          ),
+        );
+      } else {
+        toast.success(
+          intl.formatMessage(
+            { id: 'grading.export.imported' },
+            { count: imported },
+          ),
+        );
+      }
+    } catch (error: any) {
+      console.error('[GradeExport] Import failed:', error);
+      toast.error(
+        intl.formatMessage(
+          { id: 'grading.export.importFailed' },
+          { error: error.message },
+        ),
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      <Button
+        variant="outlined"
+        startIcon={busy ? <CircularProgress size={16} /> : <ExportIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={busy || studentData.length === 0}
+      >
+        {intl.formatMessage({ id: 'grading.export.export' })}
+      </Button>
+      <Button
+        variant="outlined"
+        startIcon={<ImportIcon />}
+        onClick={handleImport}
+        disabled={busy || studentData.length === 0}
+      >
+        {intl.formatMessage({ id: 'grading.export.import' })}
+      </Button>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+      >
+        {EXPORT_FORMATS.map((format) => (
+          <MenuItem key={format} onClick={() => handleExport(format)}>
+            <ListItemText
+              primary={intl.formatMessage({
+                id: `grading.export.formats.${format}`,
+              })}
+              secondary={intl.formatMessage({
+                id: `grading.export.formats.${format}Description`,
+              })}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { useIntl } from 'react-intl';
+import type { MoodleAssignment } from '@/types/moodle';
+import type { StudentSubmissionData } from '@/types/grading';
+import { useGradingStore } from '@/stores/useGradingStore';
+import { useMoodleStore } from '@/stores/useMoodleStore';
+import { toast } from '@/utils/toast';
+
+interface GrantExtensionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  assignment?: MoodleAssignment;
+  students: StudentSubmissionData[];
+}
+
+const DEFAULT_EXTENSION_DAYS = 7;
+
+// "YYYY-MM-DDTHH:mm" in local time, as datetime-local inputs expect
+const toLocalInput = (seconds: number) => {
+  const date = new Date(seconds * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Grant the selected students a new due date for this assignment in Moodle
+export default function GrantExtensionDialog({
+  open,
+  onClose,
+  assignment,
+  students,
+}: GrantExtensionDialogProps) {
+  const intl = useIntl();
+  const { config } = useMoodleStore();
+  const grantExtensions = useGradingStore((state) => state.grantExtensions);
+
+  const [dueDate, setDueDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const from = Math.max(
+      assignment?.duedate || 0,
+      Math.floor(Date.now() / 1000),
+    );
+    setDueDate(toLocalInput(from + DEFAULT_EXTENSION_DAYS * 24 * 60 * 60));
+    setError(null);
+  }, [open, assignment?.duedate]);
+
+  const extensionDueDate = dueDate
+    ? Math.floor(new Date(dueDate).getTime() / 1000)
+    : 0;
+  // Moodle only accepts extensions after the assignment's own due date
+  const beforeDueDate =
+    !!assignment?.duedate && extensionDueDate <= assignment.duedate;
+
+  const handleGrant = async () => {
+    if (!assignment || !extensionDueDate) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await grantExtensions(
+        assignment.id,
+        students.map((s) => s.student.id),
+        extensionDueDate,
+        config,
+      );
+      const grantedCount = students.length - result.failed.length;
+      if (grantedCount > 0) {
+        toast.success(
+          intl.formatMessage(
+            { id: 'grading.submissions.extension.granted' },
+            { count: grantedCount },
+          ),
+        );
+      }
+      if (!result.success) {
+        const failedNames = students
+          .filter((s) => result.failed.includes(s.student.id))
+          .map((s) => s.student.fullname)
+          .join(', ');
+        setError(
+          failedNames
+            ? intl.formatMessage(
+                { id: 'grading.submissions.extension.failed' },
+                { names: failedNames },
+              )
+            : result.error || 'Failed to grant extensions',
+        );
+        return;
+      }
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={isSaving ? undefined : onClose}
+      maxWidth="xs"
+      fullWidth
+    >
+      <DialogTitle>
+        {intl.formatMessage(
+          { id: 'grading.submissions.extension.title' },
+          { count: students.length },
+        )}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {students.map((s) => s.student.fullname).join(', ')}
+        </Typography>
+        {!!assignment?.duedate && (
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {intl.formatMessage(
+              { id: 'grading.submissions.timing.dueAt' },
+              {
+                date: intl.formatDate(assignment.duedate * 1000, {
+                  dateStyle: 'medium',
+                  timeStyle: 'short',
+                }),
+              },
+            )}
+          </Typography>
+        )}
+        <TextField
+          fullWidth
+          size="small"
+          type="datetime-local"
+          label={intl.formatMessage({
+            id: 'grading.submissions.extension.dueDate',
+          })}
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          error={beforeDueDate}
+          helperText={
+            beforeDueDate
+              ? intl.formatMessage({
+                  id: 'grading.submissions.extension.beforeDueDate',
+                })
+              : undefined
+          }
+          disabled={isSaving}
+          InputLabelProps={{ shrink: true }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          {intl.formatMessage({ id: 'common.cancel' })}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleGrant}
+          disabled={isSaving || !extensionDueDate || beforeDueDate}
+          startIcon={isSaving ? <CircularProgress size={16} /> : undefined}
+        >
+          {intl.formatMessage({ id: 'grading.submissions.extension.grant' })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Box, TextField, Typography } from '@mui/material';
+import { useIntl } from 'react-intl';
+import type { StudentGroup } from '@/types/grading';
+
+interface GroupMemberGradesProps {
+  group: StudentGroup;
+  groupGrade: string;
+  memberGrades: Record<string, string>;
+  onChange: (memberId: string, grade: string) => void;
+  disabled?: boolean;
+}
+
+// The group's grade goes to every member; a member given a grade here is published with it instead
+export default function GroupMemberGrades({
+  group,
+  groupGrade,
+  memberGrades,
+  onChange,
+  disabled,
+}: GroupMemberGradesProps) {
+  const intl = useIntl();
+
+  return (
+    <Box sx={{ mt: 1.5 }}>
+      <Typography
+        variant="caption"
+        color="text.secondary"
+        sx={{ display: 'block', mb: 1 }}
+      >
+        {intl.formatMessage(
+          { id: 'grading.submissions.group.adjustHint' },
+          { count: group.members.length },
+        )}
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5 }}>
+        {group.members.map((member) => {
+          const memberId = String(member.id);
+          return (
+            <TextField
+              key={memberId}
+              size="small"
+              type="number"
+              label={member.fullname}
+              value={memberGrades[memberId] || ''}
+              placeholder={groupGrade}
+              onChange={(e) => onChange(memberId, e.target.value)}
+              disabled={disabled}
+              InputLabelProps={{ shrink: true }}
+              sx={{ width: 160 }}
+            />
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Popover,
+  FormControlLabel,
+  Switch,
+  TextField,
+  MenuItem,
+  Typography,
+} from '@mui/material';
+import { Schedule as ScheduleIcon } from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { useGradingStore } from '@/stores/useGradingStore';
+import type { LatePenaltySettings } from '@/types/grading';
+
+// Late-penalty policy, applied to AI scores of late submissions when grades are published
+export default function LatePenaltyMenu() {
+  const intl = useIntl();
+  const { latePenaltySettings, setLatePenaltySettings } = useGradingStore();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const numberField = (
+    field: 'percentPerDay' | 'maxPercent' | 'graceMinutes',
+    max: number,
+  ) => (
+    <TextField
+      size="small"
+      type="number"
+      label={intl.formatMessage({ id: `grading.latePenalty.${field}` })}
+      value={latePenaltySettings[field]}
+      onChange={(e) =>
+        setLatePenaltySettings({
+          [field]: Math.min(max, Math.max(0, Number(e.target.value) || 0)),
+        })
+      }
+      disabled={!latePenaltySettings.enabled}
+      inputProps={{ min: 0, max }}
+    />
+  );
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        color={latePenaltySettings.enabled ? 'warning' : 'inherit'}
+        startIcon={<ScheduleIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+      >
+        {latePenaltySettings.enabled
+          ? intl.formatMessage(
+              { id: 'grading.latePenalty.buttonActive' },
+              { percent: latePenaltySettings.percentPerDay },
+            )
+          : intl.formatMessage({ id: 'grading.latePenalty.button' })}
+      </Button>
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box
+          sx={{
+            p: 2,
+            width: 320,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 2,
+          }}
+        >
+          <FormControlLabel
+            control={
+              <Switch
+                checked={latePenaltySettings.enabled}
+                onChange={(e) =>
+                  setLatePenaltySettings({ enabled: e.target.checked })
+                }
+              />
+            }
+            label={intl.formatMessage({ id: 'grading.latePenalty.enabled' })}
+          />
+          {numberField('percentPerDay', 100)}
+          {numberField('maxPercent', 100)}
+          <TextField
+            select
+            size="small"
+            label={intl.formatMessage({ id: 'grading.latePenalty.basis' })}
+            value={latePenaltySettings.basis}
+            onChange={(e) =>
+              setLatePenaltySettings({
+                basis: e.target.value as LatePenaltySettings['basis'],
+              })
+            }
+            disabled={!latePenaltySettings.enabled}
+          >
+            <MenuItem value="maximum">
+              {intl.formatMessage({ id: 'grading.latePenalty.basisMaximum' })}
+            </MenuItem>
+            <MenuItem value="grade">
+              {intl.formatMessage({ id: 'grading.latePenalty.basisGrade' })}
+            </MenuItem>
+          </TextField>
+          {numberField('graceMinutes', 24 * 60)}
+          <Typography variant="caption" color="text.secondary">
+            {intl.formatMessage({ id: 'grading.latePenalty.help' })}
+          </Typography>
+        </Box>
+      </Popover>
+    </>
+  );
+}
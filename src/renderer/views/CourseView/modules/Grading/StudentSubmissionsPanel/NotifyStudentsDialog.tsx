@@ -0,0 +1,374 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  Box,
+  Typography,
+  Checkbox,
+  Chip,
+  Divider,
+} from '@mui/material';
+import { AutoAwesome as AutoAwesomeIcon } from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import type { MoodleAssignment } from '@/types/moodle';
+import type { StudentSubmissionData } from '@/types/grading';
+import { useMoodleStore } from '@/stores/useMoodleStore';
+import { useAppStore } from '@/stores/useAppStore';
+import { toast } from '@/utils/toast';
+
+interface SentNotification {
+  userId: string;
+  status: 'sent' | 'failed';
+  sentAt: number;
+}
+
+interface NotifyStudentsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  assignment?: MoodleAssignment;
+  students: StudentSubmissionData[];
+}
+
+// Placeholders the template may use, passed to i18n messages so they stay literal
+const TEMPLATE_VALUES = {
+  firstname: '{firstname}',
+  fullname: '{fullname}',
+  assignment: '{assignment}',
+  course: '{course}',
+  duedate: '{duedate}',
+};
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, field) => values[field] ?? match);
+
+// Message students who have not submitted: one template, previewed per student
+export default function NotifyStudentsDialog({
+  open,
+  onClose,
+  assignment,
+  students,
+}: NotifyStudentsDialogProps) {
+  const intl = useIntl();
+  const { config, courses } = useMoodleStore();
+  const locale = useAppStore((state) => state.locale);
+
+  const isLate =
+    !!assignment?.duedate && assignment.duedate * 1000 < Date.now();
+  const [template, setTemplate] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [included, setIncluded] = useState<Record<string, boolean>>({});
+  const [sentLog, setSentLog] = useState<Record<string, SentNotification>>({});
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const courseName =
+    courses.find((c) => c.id === assignment?.courseid)?.fullname || '';
+  const dueDate = assignment?.duedate
+    ? intl.formatDate(assignment.duedate * 1000, {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      })
+    : '';
+
+  // Reset the dialog and find out who has already been messaged about this assignment
+  useEffect(() => {
+    if (!open || !assignment) return;
+
+    setTemplate(
+      intl.formatMessage(
+        {
+          id: isLate
+            ? 'grading.submissions.notify.defaultTemplateLate'
+            : 'grading.submissions.notify.defaultTemplate',
+        },
+        TEMPLATE_VALUES,
+      ),
+    );
+    setInstructions('');
+    setEdits({});
+    setError(null);
+
+    const loadSentLog = async () => {
+      const log: Record<string, SentNotification> = {};
+      try {
+        const result = await window.electron.ipcRenderer.invoke(
+          'notifications:list',
+          { baseUrl: config.baseUrl, assignmentId: assignment.id },
+        );
+        if (result.success) {
+          // Newest first: keep each student's latest successful message
+          (result.data as SentNotification[])
+            .filter((entry) => entry.status === 'sent')
+            .forEach((entry) => {
+              if (!log[entry.userId]) log[entry.userId] = entry;
+            });
+        }
+      } catch (err) {
+        console.error('Failed to load sent messages:', err);
+      }
+      setSentLog(log);
+      setIncluded(
+        Object.fromEntries(
+          students.map((s) => [s.student.id, !log[s.student.id]]),
+        ),
+      );
+    };
+    loadSentLog();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, assignment?.id]);
+
+  const previews = useMemo(
+    () =>
+      students.map((data) => ({
+        data,
+        text:
+          edits[data.student.id] ??
+          fillTemplate(template, {
+            firstname: data.student.firstname || data.student.fullname,
+            fullname: data.student.fullname,
+            assignment: assignment?.name || '',
+            course: courseName,
+            duedate: dueDate,
+          }),
+      })),
+    [students, edits, template, assignment?.name, courseName, dueDate],
+  );
+  const toSend = previews.filter(
+    (p) => included[p.data.student.id] && p.text.trim(),
+  );
+
+  const handleDraft = async () => {
+    if (!assignment) return;
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'notifications:draft-template',
+        {
+          kind: isLate ? 'late' : 'missing',
+          assignmentName: assignment.name,
+          courseName,
+          instructions: instructions.trim() || undefined,
+          language: locale === 'zh-TW' ? 'Traditional Chinese' : 'English',
+        },
+      );
+      if (!result.success) {
+        setError(result.error || 'Failed to draft message');
+        return;
+      }
+      setTemplate(result.data);
+      setEdits({});
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!assignment || toSend.length === 0) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'notifications:send',
+        {
+          baseUrl: config.baseUrl,
+          courseId: assignment.courseid,
+          assignmentId: assignment.id,
+          kind: isLate ? 'late' : 'missing',
+          messages: toSend.map((p) => ({
+            userId: p.data.student.id,
+            text: p.text,
+          })),
+        },
+      );
+      const sent: SentNotification[] = result.data?.sent || [];
+      if (sent.length > 0) {
+        toast.success(
+          intl.formatMessage(
+            { id: 'grading.submissions.notify.sent' },
+            { count: sent.length },
+          ),
+        );
+      }
+      if (!result.success) {
+        setError(result.error || 'Failed to send messages');
+        // Leave only the failures selected so they can be retried
+        setSentLog((log) => ({
+          ...log,
+          ...Object.fromEntries(sent.map((entry) => [entry.userId, entry])),
+        }));
+        setIncluded((current) => ({
+          ...current,
+          ...Object.fromEntries(sent.map((entry) => [entry.userId, false])),
+        }));
+        return;
+      }
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const busy = isDrafting || isSending;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={busy ? undefined : onClose}
+      maxWidth="md"
+      fullWidth
+    >
+      <DialogTitle>
+        {intl.formatMessage(
+          { id: 'grading.submissions.notify.title' },
+          { assignment: assignment?.name || '' },
+        )}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          {intl.formatMessage({ id: 'grading.submissions.notify.template' })}
+        </Typography>
+        <TextField
+          fullWidth
+          multiline
+          minRows={4}
+          size="small"
+          value={template}
+          onChange={(e) => {
+            setTemplate(e.target.value);
+            setEdits({});
+          }}
+          disabled={busy}
+          helperText={intl.formatMessage(
+            { id: 'grading.submissions.notify.placeholders' },
+            TEMPLATE_VALUES,
+          )}
+        />
+        <Box
+          sx={{ display: 'flex', gap: 1, mt: 1.5, alignItems: 'flex-start' }}
+        >
+          <TextField
+            fullWidth
+            size="small"
+            placeholder={intl.formatMessage({
+              id: 'grading.submissions.notify.instructions',
+            })}
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            disabled={busy}
+          />
+          <Button
+            variant="outlined"
+            onClick={handleDraft}
+            disabled={busy}
+            startIcon={
+              isDrafting ? <CircularProgress size={16} /> : <AutoAwesomeIcon />
+            }
+            sx={{ whiteSpace: 'nowrap' }}
+          >
+            {intl.formatMessage({ id: 'grading.submissions.notify.draft' })}
+          </Button>
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          {intl.formatMessage(
+            { id: 'grading.submissions.notify.preview' },
+            { count: toSend.length, total: previews.length },
+          )}
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {previews.map(({ data, text }) => {
+            const previous = sentLog[data.student.id];
+            return (
+              <Box key={data.student.id} sx={{ display: 'flex', gap: 1 }}>
+                <Checkbox
+                  size="small"
+                  checked={!!included[data.student.id]}
+                  onChange={(e) =>
+                    setIncluded({
+                      ...included,
+                      [data.student.id]: e.target.checked,
+                    })
+                  }
+                  disabled={busy}
+                  sx={{ alignSelf: 'flex-start' }}
+                />
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 1,
+                      mb: 0.5,
+                    }}
+                  >
+                    <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                      {data.student.fullname}
+                    </Typography>
+                    {previous && (
+                      <Chip
+                        size="small"
+                        color="warning"
+                        variant="outlined"
+                        label={intl.formatMessage(
+                          { id: 'grading.submissions.notify.alreadySent' },
+                          { date: intl.formatDate(previous.sentAt * 1000) },
+                        )}
+                      />
+                    )}
+                  </Box>
+                  <TextField
+                    fullWidth
+                    multiline
+                    size="small"
+                    value={text}
+                    onChange={(e) =>
+                      setEdits({ ...edits, [data.student.id]: e.target.value })
+                    }
+                    disabled={busy || !included[data.student.id]}
+                  />
+                </Box>
+              </Box>
+            );
+          })}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={busy}>
+          {intl.formatMessage({ id: 'common.cancel' })}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSend}
+          disabled={busy || toSend.length === 0}
+          startIcon={isSending ? <CircularProgress size={16} /> : undefined}
+        >
+          {intl.formatMessage(
+            { id: 'grading.submissions.notify.send' },
+            { count: toSend.length },
+          )}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
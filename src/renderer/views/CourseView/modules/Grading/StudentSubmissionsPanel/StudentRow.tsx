@@ -15,15 +15,21 @@ import {
   Description as DescriptionIcon,
   Send as SendIcon,
   Stop as StopIcon,
+  Flag as FlagIcon,
+  ContentCopy as SimilarityIcon,
+  Groups as GroupsIcon,
 } from '@mui/icons-material';
 import { useIntl } from 'react-intl';
 import type { StudentSubmissionData } from '@/types/grading';
+import type { MoodleAssignment } from '@/types/moodle';
 import type { SubmissionFile } from './types';
-import { getSubmissionStatus, getGradeStatus, getInitials, getAvatarColor } from './utils';
+import { getSubmissionStatus, getGradeStatus, getInitials, getAvatarColor, findGradableFile } from './utils';
+import { getSubmissionTiming, getDaysLate } from '@/utils/latePenalty';
 
 interface StudentRowProps {
   data: StudentSubmissionData;
   selectedAssignment: string;
+  assignmentData?: MoodleAssignment;
   files: SubmissionFile[];
   gradingRecord: any;
   hasAIResults: boolean;
@@ -43,6 +49,7 @@ interface StudentRowProps {
 export const StudentRow: React.FC<StudentRowProps> = ({
   data,
   selectedAssignment,
+  assignmentData,
   files,
   gradingRecord,
   hasAIResults,
@@ -62,10 +69,10 @@ export const StudentRow: React.FC<StudentRowProps> = ({
   const submissionStatus = getSubmissionStatus(data);
   const gradeStatus = getGradeStatus(data);
   const hasSubmission = data.submission && data.submission.status === 'submitted';
-  const docxFile = files.find((f: SubmissionFile) =>
-    f.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-    f.filename.toLowerCase().endsWith('.docx')
-  );
+  const previewFile = findGradableFile(files);
+  const timing = getSubmissionTiming(data, assignmentData);
+  const formatDate = (seconds: number) =>
+    intl.formatDate(seconds * 1000, { dateStyle: 'medium', timeStyle: 'short' });
 
   return (
     <TableRow
@@ -92,17 +99,31 @@ export const StudentRow: React.FC<StudentRowProps> = ({
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
           <Avatar
             sx={{
-              bgcolor: getAvatarColor(data.student.fullname),
+              bgcolor: getAvatarColor(data.group?.name || data.student.fullname),
               width: 32,
               height: 32,
               fontSize: '0.8rem',
             }}
           >
-            {getInitials(data.student.fullname)}
+            {data.group ? <GroupsIcon fontSize="small" /> : getInitials(data.student.fullname)}
           </Avatar>
-          <Typography variant="body2" sx={{ fontWeight: 500 }}>
-            {data.student.fullname}
-          </Typography>
+          {data.group ? (
+            <Box>
+              <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                {data.group.name}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {intl.formatMessage(
+                  { id: 'grading.submissions.group.members' },
+                  { count: data.group.members.length, names: data.group.members.map(m => m.fullname).join(', ') }
+                )}
+              </Typography>
+            </Box>
+          ) : (
+            <Typography variant="body2" sx={{ fontWeight: 500 }}>
+              {data.student.fullname}
+            </Typography>
+          )}
         </Box>
       </TableCell>
 
@@ -118,12 +139,41 @@ export const StudentRow: React.FC<StudentRowProps> = ({
 
       {/* Submit Status Column */}
       <TableCell align="center">
-        <Chip
-          label={submissionStatus.label}
-          color={submissionStatus.color}
-          size="small"
-          variant="outlined"
-        />
+        <Tooltip
+          title={[
+            timing.submittedAt && intl.formatMessage({ id: 'grading.submissions.timing.submittedAt' }, { date: formatDate(timing.submittedAt) }),
+            timing.dueDate && intl.formatMessage(
+              { id: timing.extended ? 'grading.submissions.timing.extendedTo' : 'grading.submissions.timing.dueAt' },
+              { date: formatDate(timing.dueDate) }
+            ),
+          ].filter(Boolean).join(' · ')}
+        >
+          <Chip
+            label={submissionStatus.label}
+            color={submissionStatus.color}
+            size="small"
+            variant="outlined"
+          />
+        </Tooltip>
+        {(timing.lateBy > 0 || timing.overdue || timing.extended) && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', mt: 0.5 }}>
+            {timing.lateBy > 0 && (
+              <Typography variant="caption" color="error.main">
+                {intl.formatMessage({ id: 'grading.submissions.timing.late' }, { days: getDaysLate(timing.lateBy) })}
+              </Typography>
+            )}
+            {timing.overdue && (
+              <Typography variant="caption" color="error.main">
+                {intl.formatMessage({ id: 'grading.submissions.timing.overdue' })}
+              </Typography>
+            )}
+            {timing.extended && timing.dueDate && (
+              <Typography variant="caption" color="info.main">
+                {intl.formatMessage({ id: 'grading.submissions.timing.extended' }, { date: intl.formatDate(timing.dueDate * 1000) })}
+              </Typography>
+            )}
+          </Box>
+        )}
       </TableCell>
 
       {/* Submission File Column */}
@@ -131,22 +181,19 @@ export const StudentRow: React.FC<StudentRowProps> = ({
         {hasSubmission ? (
           <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, flexDirection: 'column' }}>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-              {docxFile ? (
-                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.actions.previewDocument' }, { filename: docxFile.filename })}>
+              {previewFile ? (
+                <Tooltip title={intl.formatMessage({ id: 'grading.submissions.actions.previewDocument' }, { filename: previewFile.filename })}>
                   <IconButton
                     size="small"
                     onClick={async () => {
                       if (!files.length) {
                         const loadedFiles = await onLoadStudentFiles(data.student.id);
-                        const loadedDocxFile = loadedFiles.find((f: SubmissionFile) =>
-                          f.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-                          f.filename.toLowerCase().endsWith('.docx')
-                        );
-                        if (loadedDocxFile) {
-                          await onFilePreview(data.student.id, loadedDocxFile, data.student.fullname);
+                        const loadedPreviewFile = findGradableFile(loadedFiles);
+                        if (loadedPreviewFile) {
+                          await onFilePreview(data.student.id, loadedPreviewFile, data.student.fullname);
                         }
                       } else {
-                        await onFilePreview(data.student.id, docxFile, data.student.fullname);
+                        await onFilePreview(data.student.id, previewFile, data.student.fullname);
                       }
                     }}
                     color="primary"
@@ -163,10 +210,27 @@ export const StudentRow: React.FC<StudentRowProps> = ({
                   <DescriptionIcon />
                 </IconButton>
               )}
+
+              {/* Similarity check found a close match with other submissions */}
+              {gradingRecord?.similarity?.flagged && (
+                <Tooltip
+                  arrow
+                  title={intl.formatMessage(
+                    { id: 'grading.similarity.rowFlagged' },
+                    {
+                      matches: gradingRecord.similarity.matches
+                        .map((match: { studentName: string; similarity: number }) => `${match.studentName} (${Math.round(match.similarity * 100)}%)`)
+                        .join(', ')
+                    }
+                  )}
+                >
+                  <SimilarityIcon fontSize="small" color="error" />
+                </Tooltip>
+              )}
             </Box>
             <Typography variant="caption" color="text.secondary" sx={{ textAlign: 'center', fontSize: '0.7rem' }}>
               {files.length > 0 ? (
-                docxFile ? docxFile.filename : intl.formatMessage({ id: 'grading.submissions.submissionFiles' }, { count: files.length })
+                previewFile ? previewFile.filename : intl.formatMessage({ id: 'grading.submissions.submissionFiles' }, { count: files.length })
               ) : intl.formatMessage({ id: 'grading.submissions.actions.loadFiles' })}
             </Typography>
           </Box>
@@ -318,6 +382,13 @@ export const StudentRow: React.FC<StudentRowProps> = ({
               </Typography>
             </Tooltip>
 
+            {/* Second pass disagreed on at least one criterion */}
+            {gradingRecord.moderation?.flagged && (
+              <Tooltip title={intl.formatMessage({ id: 'grading.moderation.rowFlagged' })} arrow>
+                <FlagIcon fontSize="small" color="warning" />
+              </Tooltip>
+            )}
+
             {/* View detail text */}
             <Typography
               variant="caption"
@@ -20,12 +20,16 @@ import {
 } from '@mui/icons-material';
 import DocxDialog from '@/components/DocxPreview/DocxDialog';
 import { SubmitGradeDialog } from './SubmitGradeDialog';
+import NotifyStudentsDialog from './NotifyStudentsDialog';
+import GrantExtensionDialog from './GrantExtensionDialog';
+import LatePenaltyMenu from './LatePenaltyMenu';
 import { useIntl } from 'react-intl';
 
 // Import decomposed components
 import SubmissionsTableHeader from './SubmissionsTableHeader';
 import { CategoryHeader } from './CategoryHeader';
 import { StudentRow } from './StudentRow';
+import GradeExportMenu from './GradeExportMenu';
 import useFilePreviewHandler from './FilePreviewHandler';
 import {
   useSubmissionFiles,
@@ -36,6 +40,8 @@ import {
   useStudentSelection,
 } from './hooks';
 import { categorizeStudents } from './utils';
+import { useGradingQueueStore } from '@/stores/useGradingQueueStore';
+import { isOnlineTextActivity } from '@/utils/gradableActivity';
 import type { StudentSubmissionsPanelProps } from './types';
 import type { StudentSubmissionData } from '@/types/grading';
 
@@ -85,6 +91,8 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
     handleSubmitGradeDialogClose
   } = useDialogStates();
   const { collapsedCategories, toggleCategoryCollapse } = useCollapsibleCategories();
+  const [notifyStudents, setNotifyStudents] = useState<StudentSubmissionData[]>([]);
+  const [extensionStudents, setExtensionStudents] = useState<StudentSubmissionData[]>([]);
   const {
     selectedStudents,
     toggleStudentSelection,
@@ -114,7 +122,29 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
 
   // Get categorized students
   const categorizedStudents = categorizeStudents(studentData);
-  const [isBatchGrading, setIsBatchGrading] = useState(false);
+
+  // Batch grading runs through the persistent queue so it survives restarts
+  const {
+    concurrency: queueConcurrency,
+    setConcurrency: setQueueConcurrency,
+    startJob,
+    attachJob,
+    pauseJob,
+    resumeJob,
+    cancelJob,
+  } = useGradingQueueStore();
+  const queueJob = useGradingQueueStore(state => state.jobs[selectedAssignment] || null);
+  const isBatchGrading = queueJob?.status === 'running' || queueJob?.status === 'paused';
+
+  const gradeQueuedStudent = (studentId: string) => handleStartGrading(studentId, studentFiles, loadStudentFiles);
+
+  // Pick up (and resume) a job left over from a previous session for this assignment
+  useEffect(() => {
+    if (selectedAssignment) {
+      attachJob(selectedAssignment, gradeQueuedStudent);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedAssignment]);
 
   // Handle file preview with dialog management
   const handleFilePreviewWithDialog = async (studentId: string, file: any, studentName: string) => {
@@ -148,38 +178,7 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
 
   // Batch action handlers
   const handleBatchStartGrading = async (studentIds: string[]) => {
-    setIsBatchGrading(true);
-
-    // Process students concurrently with a small delay between each to simulate rapid clicking
-    const promises = studentIds.map((studentId, index) =>
-      new Promise(async (resolve) => {
-        // Add a small delay between starting each grading (100ms * index)
-        // This simulates clicking on each student rapidly but not all at exact same time
-        await new Promise(delay => setTimeout(delay, index * 100));
-
-        try {
-          await handleStartGrading(studentId, studentFiles, loadStudentFiles);
-          resolve({ success: true, studentId });
-        } catch (error: any) {
-          // Check if it's an abort error
-          if (error.message?.includes('abort') || error.message?.includes('Grading aborted')) {
-            console.log(`Grading aborted for student ${studentId}`);
-            resolve({ success: false, studentId, aborted: true });
-          } else {
-            console.error(`Failed to grade student ${studentId}:`, error);
-            resolve({ success: false, studentId, error });
-          }
-        }
-      })
-    );
-
-    // Wait for all grading operations to complete
-    const results = await Promise.all(promises);
-    const abortedCount = results.filter((r: any) => r.aborted).length;
-    const successCount = results.filter((r: any) => r.success).length;
-    console.log(`Batch grading completed: ${successCount} successful, ${abortedCount} aborted`);
-
-    setIsBatchGrading(false);
+    await startJob(selectedAssignment, studentIds, gradeQueuedStudent, selectedAssignmentData?.courseid);
     clearSelection();
   };
 
@@ -211,6 +210,23 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
     clearSelection();
   };
 
+  const handleBatchNotify = (studentIds: string[]) => {
+    setNotifyStudents(
+      studentIds
+        .map(id => studentData.find(s => s.student.id === id))
+        .filter(Boolean) as StudentSubmissionData[]
+    );
+    clearSelection();
+  };
+
+  // Extensions and late penalties apply to Moodle assignments, not quizzes or forums
+  const supportsExtensions = !isOnlineTextActivity(selectedAssignment);
+
+  const handleBatchExtend = (students: StudentSubmissionData[]) => {
+    setExtensionStudents(students.filter(s => isStudentSelected(s.student.id)));
+    clearSelection();
+  };
+
   // Helper function to render a student row
   const renderStudentRow = (data: StudentSubmissionData) => {
     const files = studentFiles[data.student.id] || [];
@@ -224,6 +240,7 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
         key={data.student.id}
         data={data}
         selectedAssignment={selectedAssignment}
+        assignmentData={selectedAssignmentData}
         files={files}
         gradingRecord={gradingRecord}
         hasAIResults={hasAIResults}
@@ -266,26 +283,36 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
           {intl.formatMessage({ id: 'grading.steps.studentSubmissions' })}
         </Typography>
 
-        {/* Batch Grade All Button - Only for ungraded students */}
-        {categorizedStudents.notGradedSubmitted.length > 0 && (
-          <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batch.gradeAllTooltip' }, { count: categorizedStudents.notGradedSubmitted.length })}>
-            <span>
-              <Button
-                variant="contained"
-                color="primary"
-                onClick={() => handleBatchStartGrading(categorizedStudents.notGradedSubmitted.map(s => s.student.id))}
-                disabled={isBatchGrading}
-                startIcon={isBatchGrading ? <CircularProgress size={16} /> : <PlayArrowIcon />}
-                size="large"
-              >
-                {isBatchGrading
-                  ? intl.formatMessage({ id: 'grading.submissions.batch.gradingInProgress' })
-                  : intl.formatMessage({ id: 'grading.submissions.batch.gradeAll' }, { count: categorizedStudents.notGradedSubmitted.length })
-                }
-              </Button>
-            </span>
-          </Tooltip>
-        )}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {supportsExtensions && <LatePenaltyMenu />}
+
+          <GradeExportMenu
+            selectedAssignment={selectedAssignment}
+            selectedAssignmentData={selectedAssignmentData}
+            studentData={studentData}
+          />
+
+          {/* Batch Grade All Button - Only for ungraded students */}
+          {categorizedStudents.notGradedSubmitted.length > 0 && (
+            <Tooltip title={intl.formatMessage({ id: 'grading.submissions.batch.gradeAllTooltip' }, { count: categorizedStudents.notGradedSubmitted.length })}>
+              <span>
+                <Button
+                  variant="contained"
+                  color="primary"
+                  onClick={() => handleBatchStartGrading(categorizedStudents.notGradedSubmitted.map(s => s.student.id))}
+                  disabled={isBatchGrading}
+                  startIcon={isBatchGrading ? <CircularProgress size={16} /> : <PlayArrowIcon />}
+                  size="large"
+                >
+                  {isBatchGrading
+                    ? intl.formatMessage({ id: 'grading.submissions.batch.gradingInProgress' })
+                    : intl.formatMessage({ id: 'grading.submissions.batch.gradeAll' }, { count: categorizedStudents.notGradedSubmitted.length })
+                  }
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+        </Box>
       </Box>
 
           {loading && <LinearProgress sx={{ mb: 2 }} />}
@@ -327,8 +354,15 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
                   .map(s => s.student.id);
                 handleBatchStartGrading(selectedInCategory);
               }}
+              onBatchExtend={supportsExtensions ? () => handleBatchExtend(categorizedStudents.notGradedSubmitted) : undefined}
               isBatchGrading={isBatchGrading}
               showGradingActions={true}
+              queueJob={queueJob}
+              queueConcurrency={queueConcurrency}
+              onQueueConcurrencyChange={setQueueConcurrency}
+              onPauseQueue={() => pauseJob(selectedAssignment)}
+              onResumeQueue={(retryFailed) => resumeJob(selectedAssignment, retryFailed)}
+              onCancelQueue={() => cancelJob(selectedAssignment)}
             />
             {!collapsedCategories.readyToGrade && categorizedStudents.notGradedSubmitted.map(renderStudentRow)}
 
@@ -378,6 +412,14 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
               selectedStudentIds={selectedStudents}
               onSelectAll={() => selectAllInCategory(categorizedStudents.notGradedNotSubmitted.map(s => s.student.id))}
               onDeselectAll={() => deselectAllInCategory(categorizedStudents.notGradedNotSubmitted.map(s => s.student.id))}
+              onBatchNotify={() => {
+                const selectedInCategory = categorizedStudents.notGradedNotSubmitted
+                  .filter(s => isStudentSelected(s.student.id))
+                  .map(s => s.student.id);
+                handleBatchNotify(selectedInCategory);
+              }}
+              onBatchExtend={supportsExtensions ? () => handleBatchExtend(categorizedStudents.notGradedNotSubmitted) : undefined}
+              showNotifyAction={true}
             />
             {!collapsedCategories.notSubmitted && categorizedStudents.notGradedNotSubmitted.map(renderStudentRow)}
 
@@ -429,6 +471,22 @@ export const StudentSubmissionsPanel: React.FC<StudentSubmissionsPanelProps> = (
         selectedSubmissionData={submitGradeDialogData.submissionData}
         selectedSubmissionsData={submitGradeDialogData.submissionsData}
       />
+
+      {/* Notify Students Dialog */}
+      <NotifyStudentsDialog
+        open={notifyStudents.length > 0}
+        onClose={() => setNotifyStudents([])}
+        assignment={selectedAssignmentData}
+        students={notifyStudents}
+      />
+
+      {/* Grant Extension Dialog */}
+      <GrantExtensionDialog
+        open={extensionStudents.length > 0}
+        onClose={() => setExtensionStudents([])}
+        assignment={selectedAssignmentData}
+        students={extensionStudents}
+      />
     </Paper>
   );
 };
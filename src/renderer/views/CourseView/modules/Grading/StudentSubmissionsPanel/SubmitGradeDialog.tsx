@@ -10,12 +10,20 @@ import {
   CircularProgress,
   Box,
   Typography,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
 import type { MoodleAssignment } from '@/types/moodle';
-import type { StudentSubmissionData } from '@/types/grading';
+import type { StudentSubmissionData, FeedbackFile, LatePenalty } from '@/types/grading';
 import { useGradingStore } from '@/stores/useGradingStore';
 import { useMoodleStore } from '@/stores/useMoodleStore';
 import { useIntl } from 'react-intl';
+import { generateFeedbackFile } from './feedbackFile';
+import GroupMemberGrades from './GroupMemberGrades';
+import {
+  getActivityType,
+  isOnlineTextActivity,
+} from '@/utils/gradableActivity';
 
 interface SubmitGradeDialogProps {
   open: boolean;
@@ -44,11 +52,16 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
     getGradingRecord, 
     updateFinalGrading, 
     submitGrade,
-    loadAssignmentData 
+    loadAssignmentData,
+    getLatePenalty: getStudentLatePenalty,
+    getPublishableAIGrade,
+    grades: moodleGrades
   } = useGradingStore();
   
   // Determine if this is batch mode
   const isBatchMode = !!(selectedSubmissions && selectedSubmissions.length > 0);
+  // Quiz essay marks are entered in Moodle; the AI grade is only a suggestion there
+  const isQuiz = getActivityType(selectedAssignment) === 'quiz';
   const submissionCount = isBatchMode ? selectedSubmissions.length : 1;
   
   // Local state for the dialog
@@ -58,6 +71,8 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submittedCount, setSubmittedCount] = useState(0);
+  const [attachFeedbackFile, setAttachFeedbackFile] = useState(false);
+  const [memberGrades, setMemberGrades] = useState<Record<string, string>>({});
 
   // Get current student ID and data
   const currentStudentId = isBatchMode 
@@ -68,6 +83,22 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
     ? selectedSubmissionsData?.[currentIndex]
     : selectedSubmissionData;
 
+  const getLatePenalty = (studentId: string): LatePenalty | null =>
+    getStudentLatePenalty(selectedAssignment, studentId, selectedAssignmentData);
+
+  const describePenalty = (messageId: string, penalty: LatePenalty) =>
+    intl.formatMessage({ id: messageId }, {
+      days: penalty.daysLate,
+      percent: penalty.percent,
+      original: penalty.originalGrade,
+      grade: penalty.grade,
+    });
+
+  const getAIDefaults = (studentId: string) =>
+    getPublishableAIGrade(selectedAssignment, studentId, selectedAssignmentData, penalty =>
+      describePenalty('grading.latePenalty.feedbackNote', penalty)
+    );
+
   // Initialize dialog state when it opens or current index changes
   useEffect(() => {
     if (open && selectedAssignment) {
@@ -77,29 +108,97 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
         const feedbacks: Record<string, string> = {};
         
         selectedSubmissions.forEach(studentId => {
-          const gradingRecord = getGradingRecord(selectedAssignment, studentId);
-          const aiGradeResult = gradingRecord?.aiGradeResult;
-          grades[studentId] = aiGradeResult?.grade?.toString() || '';
-          feedbacks[studentId] = aiGradeResult?.feedback || '';
+          const defaults = getAIDefaults(studentId);
+          grades[studentId] = defaults.grade;
+          feedbacks[studentId] = defaults.feedback;
         });
         
         setFinalGrades(grades);
         setFinalFeedbacks(feedbacks);
       } else if (selectedSubmission) {
         // Single mode
-        const gradingRecord = getGradingRecord(selectedAssignment, selectedSubmission);
-        const aiGradeResult = gradingRecord?.aiGradeResult;
+        const defaults = getAIDefaults(selectedSubmission);
         
-        setFinalGrades({ [selectedSubmission]: aiGradeResult?.grade?.toString() || '' });
-        setFinalFeedbacks({ [selectedSubmission]: aiGradeResult?.feedback || '' });
+        setFinalGrades({ [selectedSubmission]: defaults.grade });
+        setFinalFeedbacks({ [selectedSubmission]: defaults.feedback });
       }
       
+      // Members whose Moodle grade already differs from their group's keep it as an adjustment
+      const adjustments: Record<string, string> = {};
+      const rows = isBatchMode ? selectedSubmissionsData : [selectedSubmissionData];
+      rows?.forEach(data => {
+        data?.group?.members.forEach(member => {
+          const memberGrade = moodleGrades.find(g => g.userid === String(member.id));
+          if (memberGrade && data.grade && memberGrade.grade !== data.grade.grade) {
+            adjustments[String(member.id)] = memberGrade.grade.toString();
+          }
+        });
+      });
+      setMemberGrades(adjustments);
+
       setSubmitError(null);
       setCurrentIndex(0);
       setSubmittedCount(0);
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open, selectedAssignment, selectedSubmission, selectedSubmissions, isBatchMode, getGradingRecord]);
 
+  // Annotated submission for the feedback files plugin; a failure here should not block the grade
+  const createFeedbackFile = async (
+    studentId: string,
+    grade: string,
+    feedback: string
+  ): Promise<{ file?: FeedbackFile; warning?: string }> => {
+    if (!attachFeedbackFile || !config) return {};
+
+    const result = getGradingRecord(selectedAssignment, studentId)?.detailedAIGradeResult;
+    const summary = [
+      intl.formatMessage({ id: 'grading.feedbackFile.summaryGrade' }, { grade }),
+      feedback,
+      ...(result?.scoreBreakdown || []).map(item => `${item.criteriaName}: ${item.score}/${item.maxScore}`),
+    ].join('\n');
+
+    try {
+      const file = await generateFeedbackFile({
+        assignmentId: selectedAssignment,
+        studentId,
+        config,
+        result,
+        summary,
+      });
+      return {
+        file,
+        warning: file.unmatchedComments > 0
+          ? intl.formatMessage({ id: 'grading.feedbackFile.unmatched' }, { count: file.unmatchedComments })
+          : undefined,
+      };
+    } catch (error: any) {
+      console.error('[SubmitGradeDialog] Failed to create feedback file:', error);
+      return { warning: intl.formatMessage({ id: 'grading.feedbackFile.failed' }, { error: error.message }) };
+    }
+  };
+
+  // After a group's grade reaches every member, save the members graded differently on their own
+  const publishMemberAdjustments = async (
+    data: StudentSubmissionData | undefined,
+    groupGrade: number,
+    feedback: string
+  ): Promise<string[]> => {
+    if (!data?.group || !config) return [];
+    const adjusted = data.group.members
+      .map(member => ({ member, grade: parseFloat(memberGrades[String(member.id)] || '') }))
+      .filter(({ grade }) => !Number.isNaN(grade) && grade !== groupGrade);
+
+    const results = await Promise.all(adjusted.map(async ({ member, grade }) => {
+      const result = await submitGrade(selectedAssignment, String(member.id), grade, feedback, config, undefined, { applyToAll: false });
+      return result.success ? null : `${member.fullname}: ${result.error || 'Failed to submit'}`;
+    }));
+    return results.filter((error): error is string => !!error);
+  };
+
+  // Groups are shown by name in team assignments
+  const displayName = (data?: StudentSubmissionData) => data?.group?.name || data?.student.fullname;
+
   const handleSubmitGrade = async () => {
     if (!config) return;
     
@@ -112,11 +211,12 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
         let successCount = 0;
         const errors: string[] = [];
         const skipped: string[] = [];
+        const feedbackFileWarnings: string[] = [];
         
         for (let i = 0; i < selectedSubmissions.length; i++) {
           const studentId = selectedSubmissions[i];
           const studentData = selectedSubmissionsData?.[i];
-          const studentName = studentData?.student.fullname || studentId;
+          const studentName = displayName(studentData) || studentId;
           const grade = finalGrades[studentId];
           const feedback = finalFeedbacks[studentId];
           
@@ -136,6 +236,11 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
           try {
             // Update the final grading record in store
             updateFinalGrading(selectedAssignment, studentId, grade, feedback);
+
+            const { file, warning } = await createFeedbackFile(studentId, grade, feedback);
+            if (warning) {
+              feedbackFileWarnings.push(`${studentName}: ${warning}`);
+            }
             
             // Submit grade to Moodle
             const result = await submitGrade(
@@ -143,10 +248,13 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
               studentId,
               gradeNum,
               feedback,
-              config
+              config,
+              file,
+              { maxGrade: selectedAssignmentData?.grade }
             );
             
             if (result.success) {
+              errors.push(...await publishMemberAdjustments(studentData, gradeNum, feedback));
               successCount++;
               setSubmittedCount(successCount);
             } else {
@@ -166,6 +274,9 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
           resultMessage += '\n' + intl.formatMessage({ id: 'grading.submit.skipped' }, { count: skipped.length });
           resultMessage += '\n' + skipped.join(', ');
         }
+        if (feedbackFileWarnings.length > 0) {
+          resultMessage += '\n' + feedbackFileWarnings.join('\n');
+        }
         if (errors.length > 0) {
           setSubmitError(errors.join('\n'));
         }
@@ -194,6 +305,8 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
         
         // Update the final grading record
         updateFinalGrading(selectedAssignment, currentStudentId, grade, feedback);
+
+        const { file, warning } = await createFeedbackFile(currentStudentId, grade, feedback);
         
         // Submit grade to Moodle
         const result = await submitGrade(
@@ -201,11 +314,20 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
           currentStudentId,
           parseFloat(grade),
           feedback,
-          config
+          config,
+          file,
+          { maxGrade: selectedAssignmentData?.grade }
         );
         
         if (result.success) {
-          alert(intl.formatMessage({ id: 'grading.submit.success' }, { grade }));
+          const adjustmentErrors = await publishMemberAdjustments(currentStudentData, parseFloat(grade), feedback);
+          if (adjustmentErrors.length > 0) {
+            setSubmitError(adjustmentErrors.join('\n'));
+            await loadAssignmentData(selectedAssignment, config);
+            return;
+          }
+          const message = intl.formatMessage({ id: 'grading.submit.success' }, { grade });
+          alert(warning ? `${message}\n${warning}` : message);
           await loadAssignmentData(selectedAssignment, config);
           onClose();
         } else {
@@ -220,6 +342,8 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
     }
   };
 
+  const currentPenalty = !isBatchMode && currentStudentId ? getLatePenalty(currentStudentId) : null;
+
   const handleClose = () => {
     setSubmitError(null);
     setCurrentIndex(0);
@@ -237,7 +361,7 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
       <DialogTitle>
         {isBatchMode 
           ? intl.formatMessage({ id: 'grading.submit.batchTitle' }, { count: submissionCount })
-          : intl.formatMessage({ id: 'grading.submit.title' }) + ' - ' + currentStudentData?.student.fullname
+          : intl.formatMessage({ id: 'grading.submit.title' }) + ' - ' + displayName(currentStudentData)
         }
         {isBatchMode && submittedCount > 0 && (
           <Typography variant="caption" sx={{ ml: 2, color: 'success.main' }}>
@@ -247,6 +371,11 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
       </DialogTitle>
 
       <DialogContent>
+        {isQuiz && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {intl.formatMessage({ id: 'grading.submit.quizManualGrading' })}
+          </Alert>
+        )}
         {isBatchMode ? (
           // Batch mode UI - Show editable forms for each student
           <>
@@ -264,6 +393,7 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
                 const studentData = selectedSubmissionsData?.[index];
                 const gradingRecord = getGradingRecord(selectedAssignment, studentId);
                 const aiGradeResult = gradingRecord?.aiGradeResult;
+                const penalty = getLatePenalty(studentId);
                 
                 return (
                   <Box key={studentId} sx={{ 
@@ -276,15 +406,16 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
                   }}>
                     <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
                       <Typography variant="subtitle2">
-                        {studentData?.student.fullname || studentId}
+                        {displayName(studentData) || studentId}
                       </Typography>
                       {aiGradeResult && (
                         <Button
                           size="small"
                           variant="text"
                           onClick={() => {
-                            setFinalGrades({ ...finalGrades, [studentId]: aiGradeResult.grade?.toString() || '' });
-                            setFinalFeedbacks({ ...finalFeedbacks, [studentId]: aiGradeResult.feedback || '' });
+                            const defaults = getAIDefaults(studentId);
+                            setFinalGrades({ ...finalGrades, [studentId]: defaults.grade });
+                            setFinalFeedbacks({ ...finalFeedbacks, [studentId]: defaults.feedback });
                           }}
                         >
                           {intl.formatMessage({ id: 'grading.submit.resetToAI' })}
@@ -322,6 +453,20 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
                         AI Grade: {aiGradeResult.grade} | AI Feedback: {aiGradeResult.feedback?.substring(0, 50)}...
                       </Typography>
                     )}
+                    {penalty && (
+                      <Typography variant="caption" color="warning.main" sx={{ display: 'block' }}>
+                        {describePenalty('grading.latePenalty.applied', penalty)}
+                      </Typography>
+                    )}
+                    {studentData?.group && (
+                      <GroupMemberGrades
+                        group={studentData.group}
+                        groupGrade={finalGrades[studentId] || ''}
+                        memberGrades={memberGrades}
+                        onChange={(memberId, grade) => setMemberGrades({ ...memberGrades, [memberId]: grade })}
+                        disabled={isSubmitting}
+                      />
+                    )}
                   </Box>
                 );
               })}
@@ -337,10 +482,9 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
                   const feedbacks: Record<string, string> = {};
                   
                   selectedSubmissions?.forEach(studentId => {
-                    const gradingRecord = getGradingRecord(selectedAssignment, studentId);
-                    const aiGradeResult = gradingRecord?.aiGradeResult;
-                    grades[studentId] = aiGradeResult?.grade?.toString() || '';
-                    feedbacks[studentId] = aiGradeResult?.feedback || '';
+                    const defaults = getAIDefaults(studentId);
+                    grades[studentId] = defaults.grade;
+                    feedbacks[studentId] = defaults.feedback;
                   });
                   
                   setFinalGrades(grades);
@@ -354,6 +498,11 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
         ) : (
           // Single mode UI - Show form
           <>
+            {currentPenalty && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                {describePenalty('grading.latePenalty.applied', currentPenalty)}
+              </Alert>
+            )}
             <TextField
               label={intl.formatMessage({ id: 'grading.submit.enterGrade' })}
               type="number"
@@ -373,9 +522,42 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
               fullWidth
               margin="normal"
             />
+            {currentStudentData?.group && (
+              <GroupMemberGrades
+                group={currentStudentData.group}
+                groupGrade={finalGrades[currentStudentId || ''] || ''}
+                memberGrades={memberGrades}
+                onChange={(memberId, grade) => setMemberGrades({ ...memberGrades, [memberId]: grade })}
+                disabled={isSubmitting}
+              />
+            )}
           </>
         )}
 
+        {/* Quiz essays and forum posts have no submission file to annotate */}
+        {!isOnlineTextActivity(selectedAssignment) && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={attachFeedbackFile}
+                onChange={(e) => setAttachFeedbackFile(e.target.checked)}
+                disabled={isSubmitting}
+              />
+            }
+            label={
+              <Box>
+                <Typography variant="body2">
+                  {intl.formatMessage({ id: 'grading.feedbackFile.attach' })}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {intl.formatMessage({ id: 'grading.feedbackFile.attachHint' })}
+                </Typography>
+              </Box>
+            }
+            sx={{ mt: 1, alignItems: 'flex-start', '& .MuiCheckbox-root': { pt: 0.5 } }}
+          />
+        )}
+
         {submitError && (
           <Alert severity="error" sx={{ mt: 2 }}>
             {submitError}
@@ -392,10 +574,9 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
             onClick={() => {
               // Reset to AI grading results
               if (currentStudentId) {
-                const gradingRecord = getGradingRecord(selectedAssignment, currentStudentId);
-                const aiGradeResult = gradingRecord?.aiGradeResult;
-                setFinalGrades({ ...finalGrades, [currentStudentId]: aiGradeResult?.grade?.toString() || '' });
-                setFinalFeedbacks({ ...finalFeedbacks, [currentStudentId]: aiGradeResult?.feedback || '' });
+                const defaults = getAIDefaults(currentStudentId);
+                setFinalGrades({ ...finalGrades, [currentStudentId]: defaults.grade });
+                setFinalFeedbacks({ ...finalFeedbacks, [currentStudentId]: defaults.feedback });
               }
             }}
             disabled={isSubmitting}
@@ -407,7 +588,8 @@ export const SubmitGradeDialog: React.FC<SubmitGradeDialogProps> = ({
           variant="contained"
           onClick={handleSubmitGrade}
           disabled={
-            isSubmitting || 
+            isSubmitting ||
+            isQuiz ||
             (!isBatchMode && (!finalGrades[currentStudentId || ''] || !finalFeedbacks[currentStudentId || ''])) ||
             (isBatchMode && !Object.keys(finalGrades).some(id => finalGrades[id] && finalFeedbacks[id]))
           }
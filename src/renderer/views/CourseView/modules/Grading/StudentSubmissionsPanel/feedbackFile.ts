@@ -0,0 +1,163 @@
+import type { DetailedAIGradeResult, FeedbackFile } from '@/types/grading';
+import {
+  downloadGradableSubmission,
+  parseSubmissionFile,
+} from './submissionContent';
+import type { SubmissionFile } from './types';
+
+// Submission formats the AI comments can be written back into
+const ANNOTATABLE_EXTENSIONS = ['.docx', '.pdf'];
+
+// The summary box on the first PDF page; pdf-lib's standard fonts only cover WinAnsi
+const PDF_SUMMARY_HEIGHT = 60;
+const PDF_SUMMARY_MAX_LENGTH = 400;
+
+const toPdfText = (text: string) =>
+  text
+    .replace(/\s+/g, ' ')
+    .replace(/[^\x20-\x7E]/g, '?')
+    .trim()
+    .slice(0, PDF_SUMMARY_MAX_LENGTH);
+
+const invoke = (channel: string, args?: any) =>
+  window.electron.ipcRenderer.invoke(channel, args);
+
+const downloadSubmission = async (
+  assignmentId: string,
+  studentId: string,
+  config: { baseUrl: string },
+) => {
+  const { file, filePath } = await downloadGradableSubmission(
+    assignmentId,
+    studentId,
+    config,
+  );
+  const extension = file.filename.toLowerCase().match(/\.[^.]+$/)?.[0] || '';
+  if (!ANNOTATABLE_EXTENSIONS.includes(extension)) {
+    throw new Error(
+      'Annotated feedback files can only be created for DOCX and PDF submissions',
+    );
+  }
+
+  return { file, filePath, format: extension.slice(1) as 'docx' | 'pdf' };
+};
+
+// Comments refer to elements of the indexed HTML; the element's text goes along to check the
+// paragraph they map to in the DOCX, or to find it when they do not map
+const resolveAnchorTexts = async (
+  filePath: string,
+  file: SubmissionFile,
+  comments: DetailedAIGradeResult['comments'],
+) => {
+  const content = await parseSubmissionFile(filePath, file);
+  const doc = new DOMParser().parseFromString(content.html, 'text/html');
+  return comments.map((comment) => ({
+    elementType: comment.elementType,
+    elementIndex: comment.elementIndex,
+    anchorText:
+      doc.querySelector(
+        `[data-element-type="${comment.elementType}"][data-element-index="${comment.elementIndex}"]`,
+      )?.textContent || '',
+    color: comment.color,
+    comment: comment.comment,
+  }));
+};
+
+/**
+ * Create a copy of the student's DOCX or PDF submission with the AI grading
+ * comments applied and the summary on the first page, ready to be uploaded
+ * as a Moodle feedback file.
+ */
+export const generateFeedbackFile = async ({
+  assignmentId,
+  studentId,
+  config,
+  result,
+  summary,
+}: {
+  assignmentId: string;
+  studentId: string;
+  config: { baseUrl: string };
+  result?: DetailedAIGradeResult | null;
+  summary: string;
+}): Promise<FeedbackFile> => {
+  const { file, filePath, format } = await downloadSubmission(
+    assignmentId,
+    studentId,
+    config,
+  );
+  const comments = result?.comments || [];
+  const key = `${assignmentId}-${studentId}`;
+
+  if (format === 'docx') {
+    const annotateResult = await invoke('feedback:annotate-docx', {
+      filePath,
+      filename: file.filename,
+      key,
+      comments: await resolveAnchorTexts(filePath, file, comments),
+      summary,
+    });
+    if (!annotateResult.success) {
+      throw new Error(annotateResult.error || 'Failed to annotate DOCX');
+    }
+
+    const { outputPath, filename, unmatched } = annotateResult.data;
+    return {
+      filePath: outputPath,
+      filename,
+      format,
+      unmatchedComments: unmatched.length,
+    };
+  }
+
+  const prepareResult = await invoke('feedback:prepare-pdf-patches', {
+    filePath,
+    filename: file.filename,
+    key,
+    comments,
+  });
+  if (!prepareResult.success) {
+    throw new Error(prepareResult.error || 'Failed to prepare PDF annotations');
+  }
+
+  const {
+    pdfStructure,
+    patches,
+    unmatched,
+    firstPageSize,
+    outputPath,
+    filename,
+  } = prepareResult.data;
+  const patchResult = await invoke('pdf:apply-ai-patches', {
+    filePath,
+    outputPath,
+    pdfStructure,
+    patches,
+  });
+  if (!patchResult.success) {
+    throw new Error(patchResult.error || 'Failed to annotate PDF');
+  }
+
+  const summaryText = toPdfText(summary);
+  if (summaryText && firstPageSize) {
+    const annotationResult = await invoke('pdf:add-annotation', {
+      filePath: outputPath,
+      pageNumber: 0,
+      x: 20,
+      y: firstPageSize.height - PDF_SUMMARY_HEIGHT - 20,
+      width: firstPageSize.width - 40,
+      height: PDF_SUMMARY_HEIGHT,
+      content: summaryText,
+    });
+    if (!annotationResult.success) {
+      throw new Error(annotationResult.error || 'Failed to add summary to PDF');
+    }
+  }
+
+  return {
+    filePath: outputPath,
+    filename,
+    format,
+    unmatchedComments: unmatched.length,
+  };
+};
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useGradingStore } from '@/stores/useGradingStore';
+import { useContextStore } from '@/stores/useContextStore';
 import { useChatStore } from '@/stores/useChatStore';
 import { createGradingPrompt } from '../../../prompts/gradingPrompt';
+import { findGradableFile } from './utils';
+import { cacheSubmissionContent } from './submissionContent';
+import { isOnlineTextActivity, loadActivitySubmission } from '@/utils/gradableActivity';
 import type { SubmissionFile, CollapsedCategories, SubmitGradeDialogData } from './types';
 import type { StudentSubmissionData } from '@/types/grading';
 import type { MoodleAssignment } from '@/types/moodle';
@@ -36,7 +40,6 @@ export const useSubmissionFiles = (selectedSubmission: string | null, selectedAs
 
         const filesResult = await window.electron.ipcRenderer.invoke('moodle:get-submission-files', {
           baseUrl: config.baseUrl,
-          apiKey: config.apiKey,
           assignmentId: selectedAssignment,
           userId: selectedSubmission,
         });
@@ -47,74 +50,67 @@ export const useSubmissionFiles = (selectedSubmission: string | null, selectedAs
 
         setSubmissionFiles(filesResult.data);
 
-        // Download and parse DOCX files
-        for (const file of filesResult.data) {
-          if (file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-              file.filename.toLowerCase().endsWith('.docx')) {
+        // Download and parse the first gradable file (DOCX, PDF, text or image)
+        const file = findGradableFile(filesResult.data);
+        if (file && isOnlineTextActivity(selectedAssignment)) {
+          setDocxContent(await loadActivitySubmission(selectedAssignment, selectedSubmission, config));
+        } else if (file) {
+          const uniqueFilename = `${selectedSubmission}_${selectedAssignment}_${file.filename}`;
 
-            const uniqueFilename = `${selectedSubmission}_${selectedAssignment}_${file.filename}`;
+          let success = false;
+          let lastError = '';
+          const maxRetries = 3;
 
-            let downloadUrl = file.fileurl;
-            if (downloadUrl && !downloadUrl.includes('token=')) {
-              const separator = downloadUrl.includes('?') ? '&' : '?';
-              downloadUrl = `${downloadUrl}${separator}token=${config.apiKey}`;
-            }
+          for (let attempt = 1; attempt <= maxRetries && !success; attempt++) {
+            try {
+              const downloadResult = await window.electron.ipcRenderer.invoke('fileio:download-file', {
+                url: file.fileurl,
+                filename: `${uniqueFilename}_attempt${attempt}`,
+                headers: {
+                  'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
+                  'Cache-Control': 'no-cache',
+                  'Pragma': 'no-cache'
+                }
+              });
 
-            let success = false;
-            let lastError = '';
-            const maxRetries = 3;
+              if (downloadResult.success) {
+                await new Promise(resolve => setTimeout(resolve, 100));
 
-            for (let attempt = 1; attempt <= maxRetries && !success; attempt++) {
-              try {
-                const downloadResult = await window.electron.ipcRenderer.invoke('fileio:download-file', {
-                  url: downloadUrl,
-                  filename: `${uniqueFilename}_attempt${attempt}`,
-                  headers: {
-                    'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
-                    'Cache-Control': 'no-cache',
-                    'Pragma': 'no-cache'
-                  }
+                const parseResult = await window.electron.ipcRenderer.invoke('submission:parse-file', {
+                  filePath: downloadResult.filePath,
+                  filename: file.filename,
+                  mimetype: file.mimetype
                 });
 
-                if (downloadResult.success) {
-                  await new Promise(resolve => setTimeout(resolve, 100));
-
-                  const parseResult = await window.electron.ipcRenderer.invoke('docx:parse-file', {
-                    filePath: downloadResult.filePath
-                  });
+                if (parseResult.success) {
+                  setDocxContent(parseResult.content);
+                  success = true;
+                } else {
+                  lastError = parseResult.error;
+                  console.error(`[StudentPanel] Failed to parse submission on attempt ${attempt}:`, parseResult.error);
 
-                  if (parseResult.success) {
-                    setDocxContent(parseResult.content);
-                    success = true;
+                  if (parseResult.error.includes('Corrupted zip') || parseResult.error.includes('End of data reached')) {
+                    continue;
                   } else {
-                    lastError = parseResult.error;
-                    console.error(`[StudentPanel] Failed to parse DOCX on attempt ${attempt}:`, parseResult.error);
-
-                    if (parseResult.error.includes('Corrupted zip') || parseResult.error.includes('End of data reached')) {
-                      continue;
-                    } else {
-                      break;
-                    }
+                    break;
                   }
-                } else {
-                  lastError = downloadResult.error;
-                  console.error(`[StudentPanel] Failed to download file on attempt ${attempt}:`, downloadResult.error);
                 }
-              } catch (error: any) {
-                lastError = error.message;
-                console.error(`[StudentPanel] Exception on attempt ${attempt}:`, error);
-              }
-
-              if (attempt < maxRetries && !success) {
-                await new Promise(resolve => setTimeout(resolve, 500 * attempt));
+              } else {
+                lastError = downloadResult.error;
+                console.error(`[StudentPanel] Failed to download file on attempt ${attempt}:`, downloadResult.error);
               }
+            } catch (error: any) {
+              lastError = error.message;
+              console.error(`[StudentPanel] Exception on attempt ${attempt}:`, error);
             }
 
-            if (!success) {
-              setFileError(`Failed to download and parse ${file.filename} after ${maxRetries} attempts: ${lastError}`);
+            if (attempt < maxRetries && !success) {
+              await new Promise(resolve => setTimeout(resolve, 500 * attempt));
             }
+          }
 
-            break;
+          if (!success) {
+            setFileError(`Failed to download and parse ${file.filename} after ${maxRetries} attempts: ${lastError}`);
           }
         }
       } catch (error: any) {
@@ -148,7 +144,6 @@ export const useStudentFiles = (selectedAssignment: string) => {
       const config = configResult.data;
       const filesResult = await window.electron.ipcRenderer.invoke('moodle:get-submission-files', {
         baseUrl: config.baseUrl,
-        apiKey: config.apiKey,
         assignmentId: selectedAssignment,
         userId: studentId,
       });
@@ -296,6 +291,7 @@ export const useStudentSelection = () => {
 
 export const useGradingActions = (selectedAssignment: string) => {
   const {
+    studentData,
     getGradingRecord,
     clearGradingRecord,
     saveDetailedGradingRecord,
@@ -312,7 +308,9 @@ export const useGradingActions = (selectedAssignment: string) => {
     abortGrading,
     isStudentBeingGraded,
     clearAllGradingProgress,
-    setActiveGradingStudent
+    setActiveGradingStudent,
+    moderationSettings,
+    runModerationPass
   } = useGradingStore();
 
   const { sendUserMessage } = useChatStore();
@@ -320,19 +318,17 @@ export const useGradingActions = (selectedAssignment: string) => {
   const handleStartGrading = async (studentId: string, studentFiles: Record<string, SubmissionFile[]>, loadStudentFiles: (id: string) => Promise<SubmissionFile[]>) => {
     if (!selectedAssignment) return;
 
+    const site = useContextStore.getState().activeSiteId;
     startGrading(studentId);
 
     try {
       const files = studentFiles[studentId] || await loadStudentFiles(studentId);
-      const docxFile = files.find((f: SubmissionFile) =>
-        f.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-        f.filename.toLowerCase().endsWith('.docx')
-      );
+      const submissionFile = findGradableFile(files);
 
-      if (!docxFile) {
-        console.error('No DOCX file found for student');
+      if (!submissionFile) {
+        console.error('No supported submission file found for student');
         setGradingError(studentId);
-        throw new Error('No DOCX file found');
+        throw new Error('No supported submission file found');
       }
 
       const rubricContent = getRubricForAssignment(selectedAssignment);
@@ -348,45 +344,58 @@ export const useGradingActions = (selectedAssignment: string) => {
       }
 
       const config = configResult.data;
-      const uniqueFilename = `${studentId}_${selectedAssignment}_${docxFile.filename}`;
 
-      let downloadUrl = docxFile.fileurl;
-      if (downloadUrl && !downloadUrl.includes('token=')) {
-        const separator = downloadUrl.includes('?') ? '&' : '?';
-        downloadUrl = `${downloadUrl}${separator}token=${config.apiKey}`;
-      }
+      // Quiz essays and forum posts are online text; assignments need their file downloaded and parsed
+      let submissionContent: { text: string; html: string };
+      if (isOnlineTextActivity(selectedAssignment)) {
+        submissionContent = await loadActivitySubmission(selectedAssignment, studentId, config);
+      } else {
+        const uniqueFilename = `${studentId}_${selectedAssignment}_${submissionFile.filename}`;
+
+        const downloadResult = await window.electron.ipcRenderer.invoke('fileio:download-file', {
+          url: submissionFile.fileurl,
+          filename: uniqueFilename,
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
+            'Cache-Control': 'no-cache',
+            'Pragma': 'no-cache'
+          }
+        });
 
-      const downloadResult = await window.electron.ipcRenderer.invoke('fileio:download-file', {
-        url: downloadUrl,
-        filename: uniqueFilename,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache'
+        if (!downloadResult.success) {
+          throw new Error(downloadResult.error || 'Failed to download file');
         }
-      });
 
-      if (!downloadResult.success) {
-        throw new Error(downloadResult.error || 'Failed to download file');
-      }
+        await new Promise(resolve => setTimeout(resolve, 100));
 
-      await new Promise(resolve => setTimeout(resolve, 100));
+        const parseResult = await window.electron.ipcRenderer.invoke('submission:parse-file', {
+          filePath: downloadResult.filePath,
+          filename: submissionFile.filename,
+          mimetype: submissionFile.mimetype
+        });
 
-      const parseResult = await window.electron.ipcRenderer.invoke('docx:parse-file', {
-        filePath: downloadResult.filePath
-      });
+        if (!parseResult.success) {
+          throw new Error(parseResult.error || 'Failed to parse submission file');
+        }
 
-      if (!parseResult.success) {
-        throw new Error(parseResult.error || 'Failed to parse DOCX file');
+        submissionContent = parseResult.content;
       }
 
-      const docxContent = parseResult.content;
+      cacheSubmissionContent(
+        site,
+        selectedAssignment,
+        studentId,
+        submissionContent,
+        submissionFile.filename,
+        studentData.find(data => data.student.id === studentId)?.submission?.timemodified
+      );
       const rubricData = rubricContent.html || rubricContent.text;
-      const submissionData = docxContent.html || docxContent.text;
+      const submissionData = submissionContent.html || submissionContent.text;
 
       const gradingPrompt = createGradingPrompt({
         rubricData,
-        submissionData
+        submissionData,
+        rubric: rubricContent.rubric
       });
 
       const ipc = (window as any).electron?.ipcRenderer;
@@ -401,7 +410,7 @@ export const useGradingActions = (selectedAssignment: string) => {
       // Initialize grading stream BEFORE starting any async operations
       initGradingStream(sessionId);
 
-      return new Promise<void>((resolve, reject) => {
+      await new Promise<void>((resolve, reject) => {
         let resultReceived = false;
 
         // Track token reception for debugging
@@ -592,6 +601,11 @@ export const useGradingActions = (selectedAssignment: string) => {
           });
       });
 
+      // Moderation failures are logged only; the first-pass grade stands either way
+      if (moderationSettings.enabled) {
+        await runModerationPass(selectedAssignment, studentId, gradingPrompt);
+      }
+
     } catch (error: any) {
       console.error('❌ Error during AI grading:', error);
       setGradingError(studentId);
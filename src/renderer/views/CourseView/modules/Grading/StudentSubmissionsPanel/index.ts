@@ -23,6 +23,8 @@ export {
   getInitials,
   getAvatarColor,
   categorizeStudents,
+  isSupportedSubmissionFile,
+  findGradableFile,
 } from './utils';
 
 // Export types
@@ -0,0 +1,129 @@
+import {
+  isOnlineTextActivity,
+  loadActivitySubmission,
+} from '@/utils/gradableActivity';
+import { findGradableFile } from './utils';
+import type { SubmissionFile } from './types';
+
+type MoodleConfig = { baseUrl: string };
+
+/**
+ * Download a student's gradable submission file (the same file grading uses)
+ * into the app's downloads folder.
+ */
+export const downloadGradableSubmission = async (
+  assignmentId: string,
+  studentId: string,
+  config: MoodleConfig,
+): Promise<{ file: SubmissionFile; filePath: string }> => {
+  const filesResult = await window.electron.ipcRenderer.invoke(
+    'moodle:get-submission-files',
+    {
+      baseUrl: config.baseUrl,
+      assignmentId,
+      userId: studentId,
+    },
+  );
+  if (!filesResult.success) {
+    throw new Error(filesResult.error || 'Failed to get submission files');
+  }
+
+  const file = findGradableFile(filesResult.data);
+  if (!file) {
+    throw new Error('No supported submission file found');
+  }
+
+  const downloadResult = await window.electron.ipcRenderer.invoke(
+    'fileio:download-file',
+    {
+      url: file.fileurl,
+      filename: `${studentId}_${assignmentId}_${file.filename}`,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; MoodleApp)',
+        'Cache-Control': 'no-cache',
+      },
+    },
+  );
+  if (!downloadResult.success) {
+    throw new Error(downloadResult.error || 'Failed to download submission');
+  }
+
+  return { file, filePath: downloadResult.filePath };
+};
+
+export const parseSubmissionFile = async (
+  filePath: string,
+  file: SubmissionFile,
+) => {
+  const parseResult = await window.electron.ipcRenderer.invoke(
+    'submission:parse-file',
+    {
+      filePath,
+      filename: file.filename,
+      mimetype: file.mimetype,
+    },
+  );
+  if (!parseResult.success) {
+    throw new Error(parseResult.error || 'Failed to parse submission');
+  }
+  return parseResult.content as { text: string; html: string };
+};
+
+// Parsed submission of any gradable activity: online text for quizzes and forums, the file otherwise
+export const loadSubmissionContent = async (
+  assignmentId: string,
+  studentId: string,
+  config: MoodleConfig,
+): Promise<{ filename?: string; content: { text: string; html: string } }> => {
+  if (isOnlineTextActivity(assignmentId)) {
+    const content = await loadActivitySubmission(
+      assignmentId,
+      studentId,
+      config,
+    );
+    return { filename: content.filename, content };
+  }
+
+  const { file, filePath } = await downloadGradableSubmission(
+    assignmentId,
+    studentId,
+    config,
+  );
+  return {
+    filename: file.filename,
+    content: await parseSubmissionFile(filePath, file),
+  };
+};
+
+// Keep the parsed text for the similarity check; failures only cost a re-download later
+export const cacheSubmissionContent = (
+  site: string,
+  assignmentId: string,
+  studentId: string,
+  content: { text: string; html: string },
+  filename?: string,
+  submissionModified?: number,
+): Promise<void> =>
+  window.electron.ipcRenderer
+    .invoke('similarity:cache-submission', {
+      site,
+      assignmentId,
+      studentId,
+      filename,
+      submissionModified,
+      text: content.text,
+      html: content.html,
+    })
+    .then((result) => {
+      if (!result.success)
+        console.warn(
+          '[SubmissionContent] Failed to cache submission text:',
+          result.error,
+        );
+    })
+    .catch((error) =>
+      console.warn(
+        '[SubmissionContent] Failed to cache submission text:',
+        error,
+      ),
+    );
@@ -1,5 +1,10 @@
 import type { StudentSubmissionData } from '@/types/grading';
-import type { SubmissionStatus, GradeStatus, CategorizedStudents } from './types';
+import {
+  FORMAT_BY_EXTENSION,
+  SUPPORTED_SUBMISSION_EXTENSIONS,
+  detectSubmissionFormat,
+} from '@/main/submissionFormats';
+import type { SubmissionStatus, GradeStatus, CategorizedStudents, SubmissionFile } from './types';
 
 export const getSubmissionStatus = (data: StudentSubmissionData): SubmissionStatus => {
   if (!data.submission) {
@@ -73,3 +78,28 @@ export const categorizeStudents = (students: StudentSubmissionData[]): Categoriz
     notGradedNotSubmitted
   };
 };
+
+// Files of a format the grading pipeline can parse, ranked by the shared extension list;
+// unknown extensions rank with the first extension of the format their mimetype parses as
+const getSubmissionFilePriority = (file: SubmissionFile): number => {
+  const filename = file.filename.toLowerCase();
+  const extensionIndex = SUPPORTED_SUBMISSION_EXTENSIONS.findIndex(ext => filename.endsWith(ext));
+  if (extensionIndex !== -1) return extensionIndex;
+
+  const format = detectSubmissionFormat(file.filename, file.mimetype);
+  return format
+    ? SUPPORTED_SUBMISSION_EXTENSIONS.findIndex(
+        (ext) => FORMAT_BY_EXTENSION[ext] === format,
+      )
+    : -1;
+};
+
+export const isSupportedSubmissionFile = (file: SubmissionFile): boolean => {
+  return getSubmissionFilePriority(file) !== -1;
+};
+
+export const findGradableFile = (files: SubmissionFile[]): SubmissionFile | undefined => {
+  return files
+    .filter(isSupportedSubmissionFile)
+    .sort((a, b) => getSubmissionFilePriority(a) - getSubmissionFilePriority(b))[0];
+};
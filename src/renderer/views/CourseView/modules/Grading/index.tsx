@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -7,15 +7,18 @@ import {
 import { useTheme, alpha } from '@mui/material/styles';
 import { useIntl } from 'react-intl';
 import { useMoodleStore } from '@/stores/useMoodleStore';
-import { useGradingStore } from '@/stores/useGradingStore';
+import { courseGroupsKey, useGradingStore } from '@/stores/useGradingStore';
 import type { CourseSessionContext } from '@/stores/useContextStore';
 import { HTabsPanel, type TabSection } from '@/components/HTabsPanel';
+import { isOnlineTextActivity } from '@/utils/gradableActivity';
 
 import {
   AssignmentSelectionPanel,
 } from './AssignmentSelectionPanel';
 import { AIGradingPanel } from './AIGradingPanel';
 import { StudentSubmissionsPanel } from './StudentSubmissionsPanel';
+import CohortStatisticsPanel from './CohortStatisticsPanel';
+import SimilarityPanel from './SimilarityPanel';
 
 interface GradingViewProps {
   sessionContext: CourseSessionContext;
@@ -37,6 +40,8 @@ export const GradingView: React.FC<GradingViewProps> = ({ sessionContext }) => {
     loading,
     submissions,
     grades,
+    extensions,
+    courseGroups,
     aiGradeResult,
     isGrading,
     rubricFile,
@@ -57,6 +62,8 @@ export const GradingView: React.FC<GradingViewProps> = ({ sessionContext }) => {
     getRubricForAssignment,
     saveRubricForAssignment,
     clearRubricForAssignment,
+    updateStructuredRubric,
+    loadMoodleRubric,
     getGradingRecord,
     saveGradingRecord,
     clearGradingRecord,
@@ -65,12 +72,16 @@ export const GradingView: React.FC<GradingViewProps> = ({ sessionContext }) => {
     getSelectedSubmissionData,
     processStudentData,
     loadAssignmentData,
+    loadCourseGroups,
     initializeFromPersistedData,
   } = useGradingStore();
 
   const sessionId = sessionContext.sessionId;
   const courseContent = getCourseContent(sessionId);
-  const assignments = courseContent?.assignments || [];
+  const assignments = useMemo(
+    () => [...(courseContent?.assignments || []), ...(courseContent?.gradableActivities || [])],
+    [courseContent?.assignments, courseContent?.gradableActivities]
+  );
   const students = courseContent?.students || [];
 
   // Initialize persisted data on component mount
@@ -97,12 +108,24 @@ export const GradingView: React.FC<GradingViewProps> = ({ sessionContext }) => {
     }
   }, [selectedAssignment, students.length, loadAssignmentData, config]);
 
+  // Team assignments are graded once per group
+  const teamAssignment = assignments.find(a => a.id === selectedAssignment);
+  const isTeamAssignment = !!teamAssignment?.teamsubmission;
+  const groupingId = Number(teamAssignment?.teamsubmissiongroupingid) || 0;
+  const groups = isTeamAssignment ? courseGroups[courseGroupsKey(sessionId, groupingId)] : undefined;
+
+  useEffect(() => {
+    if (isTeamAssignment && sessionId) {
+      loadCourseGroups(sessionId, config, groupingId);
+    }
+  }, [isTeamAssignment, sessionId, groupingId, loadCourseGroups, config]);
+
   // Process student data whenever submissions or grades change
   useEffect(() => {
     if (selectedAssignment && students.length > 0) {
-      processStudentData(students);
+      processStudentData(students, groups);
     }
-  }, [selectedAssignment, students.length, submissions, grades, processStudentData]);
+  }, [selectedAssignment, students.length, submissions, grades, extensions, groups, processStudentData]);
 
   // loadAssignmentData and processStudentData are now handled by the store
 
@@ -168,6 +191,8 @@ export const GradingView: React.FC<GradingViewProps> = ({ sessionContext }) => {
         const hasSubmittedWork = selectedSubmissionData?.submission?.status === 'submitted';
         return hasSubmittedWork;
       }
+      case 3: return !!selectedAssignment; // Statistics
+      case 4: return !!selectedAssignment; // Similarity
       default: return false;
     }
   };
@@ -217,6 +242,16 @@ export const GradingView: React.FC<GradingViewProps> = ({ sessionContext }) => {
                 setRubricError(null);
               }
             }}
+            onRubricChange={(rubric) => {
+              if (selectedAssignment) {
+                updateStructuredRubric(selectedAssignment, rubric);
+              }
+            }}
+            onImportMoodleRubric={isOnlineTextActivity(selectedAssignment) ? undefined : () => {
+              if (selectedAssignment && selectedAssignmentData?.cmid) {
+                loadMoodleRubric(selectedAssignment, selectedAssignmentData.cmid, config);
+              }
+            }}
             onNext={() => handleTabChange(1)}
           />
           {!canProceedToTab(0) && (
@@ -338,6 +373,30 @@ export const GradingView: React.FC<GradingViewProps> = ({ sessionContext }) => {
         </Box>
       ),
     },
+    {
+      id: 'statistics',
+      title: intl.formatMessage({ id: 'grading.steps.statistics' }),
+      disabled: !canProceedToTab(3),
+      component: (
+        <CohortStatisticsPanel
+          selectedAssignment={selectedAssignment}
+          selectedAssignmentData={selectedAssignmentData}
+          onBack={() => handleTabChange(1)}
+        />
+      ),
+    },
+    {
+      id: 'similarity',
+      title: intl.formatMessage({ id: 'grading.steps.similarity' }),
+      disabled: !canProceedToTab(4),
+      component: (
+        <SimilarityPanel
+          selectedAssignment={selectedAssignment}
+          selectedAssignmentData={selectedAssignmentData}
+          onBack={() => handleTabChange(1)}
+        />
+      ),
+    },
   ];
 
   if (courseContent?.isLoading) {
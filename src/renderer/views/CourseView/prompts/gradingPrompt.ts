@@ -5,9 +5,13 @@
  * student submissions against rubric criteria and provides detailed feedback.
  */
 
+import type { Rubric } from '@/types/grading';
+import { formatRubricForPrompt, getRubricTotal } from '@/utils/rubric';
+
 export interface GradingPromptParams {
   rubricData: string;
   submissionData: string;
+  rubric?: Rubric | null; // Structured criteria; when present they override guessed maxima
 }
 
 /**
@@ -16,25 +20,59 @@ export interface GradingPromptParams {
  * @returns Formatted grading prompt string
  */
 export const createGradingPrompt = (params: GradingPromptParams): string => {
-  const { rubricData, submissionData } = params;
+  const { rubricData, submissionData, rubric } = params;
+  const hasStructuredRubric = !!rubric && rubric.criteria.length > 0;
+  const totalPoints = hasStructuredRubric ? getRubricTotal(rubric) : 100;
+
+  const structuredRubricSection = hasStructuredRubric
+    ? `
+## RUBRIC CRITERIA (AUTHORITATIVE):
+${formatRubricForPrompt(rubric)}
+Total available points: ${totalPoints}
+`
+    : '';
+
+  const scoringInstructions = hasStructuredRubric
+    ? `SCORING INSTRUCTIONS:
+- Use EXACTLY the criteria listed under RUBRIC CRITERIA, in the same order, with the same criteriaName
+- Use each criterion's listed maxScore as its maxScore - do not invent, merge or rescale criteria
+- Each score must be between 0 and that criterion's maxScore
+- Use the level descriptors to decide which level the work reaches and award points accordingly${rubric.moodle?.method === 'rubric'
+    ? `
+- Each criterion score MUST be exactly one of that criterion's level point values`
+    : ''}
+- The sum of all criterion scores MUST equal the overallScore exactly (out of ${totalPoints})`
+    : `SCORING INSTRUCTIONS:
+- If the rubric specifies maximum scores for each criterion, use those exact values as maxScore
+- If the rubric does not specify scores, analyze the number of criteria and distribute 100 points evenly across them
+- For example: 5 criteria = 20 points each, 4 criteria = 25 points each, 6 criteria = ~17 points each
+- The sum of all criterion scores MUST equal the overallScore exactly
+- Calculate overallScore by summing all individual criterion scores`;
+
+  const scoreGuidelines = hasStructuredRubric
+    ? `5. Overall score is out of ${totalPoints} (the sum of the rubric criteria maxScores)
+6. Score breakdown must contain one entry per rubric criterion with its exact name and maxScore
+7. The sum of all criterion scores MUST equal the overallScore exactly (no approximations)
+8. Short feedback should be 2-3 sentences summarizing overall performance`
+    : `5. Overall score should be out of 100
+6. Score breakdown should include individual criteria with their scores, max scores, and specific feedback
+7. The sum of all criterion scores MUST equal the overallScore exactly (no approximations)
+8. Short feedback should be 2-3 sentences summarizing overall performance
+9. Count the number of criteria in the rubric and distribute 100 points evenly: divide 100 by the number of criteria
+10. For rubrics with quality levels (Excellent/Good/Satisfactory/Needs Improvement), map performance to point ranges within each criterion's allocation`;
 
   return `You are an expert academic grader. Analyze the student submission against the provided rubric and provide detailed feedback.
 
 ## GRADING RUBRIC:
 ${rubricData}
-
+${structuredRubricSection}
 ## STUDENT SUBMISSION:
 ${submissionData}
 
 ## GRADING TASK:
 Carefully evaluate the student submission against each rubric criterion. Provide specific, constructive feedback that helps the student understand their strengths and areas for improvement.
 
-SCORING INSTRUCTIONS:
-- If the rubric specifies maximum scores for each criterion, use those exact values as maxScore
-- If the rubric does not specify scores, analyze the number of criteria and distribute 100 points evenly across them
-- For example: 5 criteria = 20 points each, 4 criteria = 25 points each, 6 criteria = ~17 points each
-- The sum of all criterion scores MUST equal the overallScore exactly
-- Calculate overallScore by summing all individual criterion scores
+${scoringInstructions}
 
 IMPORTANT: Complete the grading efficiently in MAXIMUM 2 STEPS:
 - Step 1: Analyze the submission against rubric criteria
@@ -115,12 +153,7 @@ You MUST respond with ONLY a valid JSON object (no markdown code blocks, no expl
 
 3. Provide at least 5-10 specific comments tied to actual elements in the submission
 4. Make comments constructive and actionable
-5. Overall score should be out of 100
-6. Score breakdown should include individual criteria with their scores, max scores, and specific feedback
-7. The sum of all criterion scores MUST equal the overallScore exactly (no approximations)
-8. Short feedback should be 2-3 sentences summarizing overall performance
-9. Count the number of criteria in the rubric and distribute 100 points evenly: divide 100 by the number of criteria
-10. For rubrics with quality levels (Excellent/Good/Satisfactory/Needs Improvement), map performance to point ranges within each criterion's allocation
+${scoreGuidelines}
 
 IMPORTANT: Return ONLY the JSON object, nothing else.`;
 };
@@ -110,7 +110,7 @@ export const DashboardView: React.FC = () => {
     if (isAuthenticated && !isConnected && user) {
       console.log('[Dashboard] User is authenticated but Moodle is not connected. Checking for stored API key...');
       const moodleStore = useMoodleStore.getState();
-      if (moodleStore.config.apiKey) {
+      if (moodleStore.config.hasToken) {
         console.log('[Dashboard] Found stored API key, attempting to reconnect...');
         // Try to reconnect using the stored API key with timeout
         Promise.race([
@@ -0,0 +1,66 @@
+import * as React from 'react';
+import {
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { ManageSearch as SearchIcon } from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+
+interface SearchStatus {
+  semantic: boolean;
+  modelDir: string;
+}
+
+// Whether memory search can match by meaning, or only by keywords until the model is installed
+export default function MemorySearchStatus() {
+  const intl = useIntl();
+  const [status, setStatus] = React.useState<SearchStatus | null>(null);
+
+  React.useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const result = await window.electron.ipcRenderer.invoke(
+          'memory:get-search-status',
+        );
+        if (result.success) setStatus(result.data);
+      } catch (error) {
+        console.error('Failed to load memory search status:', error);
+      }
+    };
+    loadStatus();
+  }, []);
+
+  if (!status) return null;
+
+  return (
+    <ListItem>
+      <ListItemIcon>
+        <SearchIcon />
+      </ListItemIcon>
+      <ListItemText
+        primary={intl.formatMessage({ id: 'settings.memorySearch' })}
+        secondary={
+          status.semantic
+            ? intl.formatMessage({ id: 'settings.memorySearchSemantic' })
+            : intl.formatMessage(
+                { id: 'settings.memorySearchKeywordOnly' },
+                { modelDir: status.modelDir },
+              )
+        }
+      />
+      <Typography
+        variant="caption"
+        color={status.semantic ? 'success.main' : 'warning.main'}
+        sx={{ ml: 2, whiteSpace: 'nowrap' }}
+      >
+        {intl.formatMessage({
+          id: status.semantic
+            ? 'settings.memorySearchOn'
+            : 'settings.memorySearchOff',
+        })}
+      </Typography>
+    </ListItem>
+  );
+}
@@ -0,0 +1,176 @@
+import * as React from 'react';
+import {
+  Box,
+  Button,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Key as KeyIcon } from '@mui/icons-material';
+import { useIntl } from 'react-intl';
+import { toast } from '@/utils/toast';
+
+interface ServiceKeyStatus {
+  name: string;
+  configured: boolean;
+  encrypted: boolean;
+  source?: 'env' | 'user';
+  updatedAt?: string;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  OPENAI_API_KEY: 'settings.serviceKeyOpenai',
+  OPENAI_FAST_API_KEY: 'settings.serviceKeyOpenaiFast',
+  OPENAI_MODERATION_API_KEY: 'settings.serviceKeyModeration',
+  TAVILY_API_KEY: 'settings.serviceKeyTavily',
+};
+
+// AI service keys kept in the main process vault; values are write-only here
+export default function ServiceKeys() {
+  const intl = useIntl();
+  const [keys, setKeys] = React.useState<ServiceKeyStatus[]>([]);
+  const [drafts, setDrafts] = React.useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadKeys = async () => {
+      try {
+        const result = await window.electron.ipcRenderer.invoke('vault:list');
+        if (result.success) setKeys(result.data);
+      } catch (error) {
+        console.error('Failed to load service keys:', error);
+      }
+    };
+    loadKeys();
+  }, []);
+
+  const update = async (
+    channel: 'vault:set' | 'vault:delete',
+    name: string,
+  ) => {
+    setBusyKey(name);
+    try {
+      const result = await window.electron.ipcRenderer.invoke(channel, {
+        name,
+        value: drafts[name],
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update key');
+        return;
+      }
+      setKeys(result.data);
+      setDrafts({ ...drafts, [name]: '' });
+      toast.success(
+        intl.formatMessage({
+          id:
+            channel === 'vault:set'
+              ? 'settings.serviceKeySaved'
+              : 'settings.serviceKeyRemoved',
+        }),
+      );
+    } catch (error) {
+      toast.error(`Error updating key: ${(error as Error).message}`);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const statusText = (key: ServiceKeyStatus) => {
+    if (!key.configured)
+      return intl.formatMessage({ id: 'settings.serviceKeyNotSet' });
+    if (!key.encrypted)
+      return intl.formatMessage({ id: 'settings.serviceKeyUnencrypted' });
+    return intl.formatMessage({
+      id:
+        key.source === 'env'
+          ? 'settings.serviceKeyFromEnv'
+          : 'settings.serviceKeyEncrypted',
+    });
+  };
+
+  return (
+    <ListItem sx={{ flexDirection: 'column', alignItems: 'stretch', py: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, width: '100%' }}>
+        <ListItemIcon>
+          <KeyIcon />
+        </ListItemIcon>
+        <ListItemText
+          primary={intl.formatMessage({ id: 'settings.serviceKeys' })}
+          secondary={intl.formatMessage({ id: 'settings.serviceKeysDesc' })}
+        />
+      </Box>
+      <Box
+        sx={{
+          width: '100%',
+          pl: 7,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1.5,
+        }}
+      >
+        {keys.map((key) => (
+          <Box key={key.name}>
+            <Box
+              sx={{ display: 'flex', alignItems: 'baseline', gap: 1, mb: 0.5 }}
+            >
+              <Typography variant="body2">
+                {intl.formatMessage({ id: KEY_LABELS[key.name] || key.name })}
+              </Typography>
+              <Typography
+                variant="caption"
+                color={
+                  key.configured && key.encrypted
+                    ? 'success.main'
+                    : 'text.secondary'
+                }
+              >
+                {statusText(key)}
+              </Typography>
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="password"
+                autoComplete="off"
+                placeholder={intl.formatMessage({
+                  id: key.configured
+                    ? 'settings.serviceKeyReplace'
+                    : 'settings.serviceKeyEnter',
+                })}
+                value={drafts[key.name] || ''}
+                onChange={(e) =>
+                  setDrafts({ ...drafts, [key.name]: e.target.value })
+                }
+                disabled={busyKey === key.name}
+              />
+              <Button
+                variant="contained"
+                size="small"
+                onClick={() => update('vault:set', key.name)}
+                disabled={busyKey === key.name || !drafts[key.name]?.trim()}
+              >
+                {intl.formatMessage({ id: 'common.save' })}
+              </Button>
+              {key.configured && (
+                <Button
+                  size="small"
+                  color="error"
+                  onClick={() => update('vault:delete', key.name)}
+                  disabled={busyKey === key.name}
+                >
+                  {intl.formatMessage({ id: 'settings.removeSite' })}
+                </Button>
+              )}
+            </Box>
+          </Box>
+        ))}
+        <Typography variant="caption" color="text.secondary">
+          {intl.formatMessage({ id: 'settings.serviceKeysRestart' })}
+        </Typography>
+      </Box>
+    </ListItem>
+  );
+}
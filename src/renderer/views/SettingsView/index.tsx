@@ -38,6 +38,7 @@ import {
   Add as AddIcon,
   Speed as SpeedIcon,
   DeveloperMode as DeveloperModeIcon,
+  Public as SiteIcon,
 } from '@mui/icons-material';
 import { useIntl } from 'react-intl';
 
@@ -50,6 +51,8 @@ import { toast } from '@/utils/toast';
 import { languageNames } from '../../messages';
 import { Disclaimer, useDisclaimer } from '@/components/Disclaimer';
 import { getImageUrl } from '@/utils/background';
+import ServiceKeys from './ServiceKeys';
+import MemorySearchStatus from './MemorySearchStatus';
 
 
 
@@ -76,6 +79,11 @@ export const SettingsView: React.FC = () => {
     saveApiKey,
     testConnection,
     clearConfig,
+    profiles,
+    activeProfileId,
+    addProfile,
+    switchProfile,
+    removeProfile,
   } = useMoodleStore();
 
   // Local state for API key input
@@ -83,6 +91,10 @@ export const SettingsView: React.FC = () => {
   const [isSaving, setIsSaving] = React.useState(false);
   const [isTesting, setIsTesting] = React.useState(false);
 
+  // Local state for adding a Moodle site
+  const [newSite, setNewSite] = React.useState({ label: '', baseUrl: '', apiKey: '' });
+  const [isAddingSite, setIsAddingSite] = React.useState(false);
+
   // Local state for background settings
   const [isSelectingImage, setIsSelectingImage] = React.useState(false);
   const [selectedImages, setSelectedImages] = React.useState<string[]>(background.images || []);
@@ -92,14 +104,6 @@ export const SettingsView: React.FC = () => {
     setSelectedImages(background.images || []);
   }, [background.images]);
 
-
-  // Initialize API key from store
-  React.useEffect(() => {
-    if (config.apiKey) {
-      setMoodleApiKey(config.apiKey);
-    }
-  }, [config.apiKey]);
-
   const handleThemeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const newTheme = event.target.checked ? 'dark' : 'light';
     setTheme(newTheme);
@@ -831,15 +835,15 @@ export const SettingsView: React.FC = () => {
   };
 
   const handleTestConnection = async () => {
-    if (!moodleApiKey.trim()) {
+    if (!moodleApiKey.trim() && !config.hasToken) {
       toast.error('Please enter an API key first');
       return;
     }
 
     setIsTesting(true);
     try {
-      // First save the key if it's different
-      if (moodleApiKey !== config.apiKey) {
+      // First save the key if a new one was entered; the saved one is never shown
+      if (moodleApiKey.trim()) {
         await saveApiKey(moodleApiKey);
       } else {
         // Just test the existing connection
@@ -861,6 +865,18 @@ export const SettingsView: React.FC = () => {
     toast.info('Moodle configuration cleared');
   };
 
+  const handleAddSite = async () => {
+    setIsAddingSite(true);
+    try {
+      const added = await addProfile(newSite);
+      if (added) {
+        setNewSite({ label: '', baseUrl: '', apiKey: '' });
+      }
+    } finally {
+      setIsAddingSite(false);
+    }
+  };
+
   const renderApi = () => (
     <Paper
       sx={{
@@ -908,7 +924,9 @@ export const SettingsView: React.FC = () => {
               type="password"
               value={moodleApiKey}
               onChange={(e) => setMoodleApiKey(e.target.value)}
-              placeholder={intl.formatMessage({ id: 'settings.enterMoodleApiKey' })}
+              placeholder={intl.formatMessage({
+                id: config.hasToken ? 'settings.serviceKeyReplace' : 'settings.enterMoodleApiKey',
+              })}
               disabled={isConnecting || isSaving || isTesting}
               sx={{ mb: 1 }}
               InputProps={{
@@ -932,11 +950,11 @@ export const SettingsView: React.FC = () => {
                 variant="outlined"
                 size="small"
                 onClick={handleTestConnection}
-                disabled={isConnecting || isSaving || isTesting || !moodleApiKey.trim()}
+                disabled={isConnecting || isSaving || isTesting || (!moodleApiKey.trim() && !config.hasToken)}
               >
                 {isTesting || isConnecting ? 'Testing...' : intl.formatMessage({ id: 'settings.testConnection' })}
               </Button>
-              {config.apiKey && (
+              {config.hasToken && (
                 <Button
                   variant="text"
                   size="small"
@@ -957,6 +975,99 @@ export const SettingsView: React.FC = () => {
             </Box>
           </Box>
         </ListItem>
+
+        <Divider />
+
+        {/* Saved Moodle sites */}
+        <ListItem sx={{ flexDirection: 'column', alignItems: 'stretch', py: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, width: '100%' }}>
+            <ListItemIcon>
+              <SiteIcon />
+            </ListItemIcon>
+            <ListItemText
+              primary={intl.formatMessage({ id: 'settings.moodleSites' })}
+              secondary={intl.formatMessage({ id: 'settings.moodleSitesDesc' })}
+            />
+          </Box>
+          <Box sx={{ width: '100%', pl: 7 }}>
+            {profiles.map((profile) => (
+              <Box key={profile.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" noWrap>
+                    {profile.label}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {[profile.username, profile.baseUrl].filter(Boolean).join(' · ')}
+                  </Typography>
+                </Box>
+                {profile.id === activeProfileId ? (
+                  <Typography variant="caption" color="success.main" sx={{ px: 1 }}>
+                    {intl.formatMessage({ id: 'settings.activeSite' })}
+                  </Typography>
+                ) : (
+                  <Button size="small" onClick={() => switchProfile(profile.id)} disabled={isConnecting}>
+                    {intl.formatMessage({ id: 'settings.switchToSite' })}
+                  </Button>
+                )}
+                <Button
+                  size="small"
+                  color="error"
+                  onClick={() => removeProfile(profile.id)}
+                  disabled={isConnecting}
+                >
+                  {intl.formatMessage({ id: 'settings.removeSite' })}
+                </Button>
+              </Box>
+            ))}
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: profiles.length > 0 ? 2 : 0 }}>
+              <TextField
+                size="small"
+                label={intl.formatMessage({ id: 'settings.moodleSiteUrl' })}
+                placeholder="https://moodle.example.edu"
+                value={newSite.baseUrl}
+                onChange={(e) => setNewSite({ ...newSite, baseUrl: e.target.value })}
+                disabled={isAddingSite}
+              />
+              <TextField
+                size="small"
+                type="password"
+                label={intl.formatMessage({ id: 'settings.moodleApiKey' })}
+                value={newSite.apiKey}
+                onChange={(e) => setNewSite({ ...newSite, apiKey: e.target.value })}
+                disabled={isAddingSite}
+              />
+              <TextField
+                size="small"
+                label={intl.formatMessage({ id: 'settings.moodleSiteLabel' })}
+                value={newSite.label}
+                onChange={(e) => setNewSite({ ...newSite, label: e.target.value })}
+                disabled={isAddingSite}
+              />
+              <Box>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={handleAddSite}
+                  disabled={isAddingSite || !newSite.baseUrl.trim() || !newSite.apiKey.trim()}
+                >
+                  {intl.formatMessage({ id: 'settings.addMoodleSite' })}
+                </Button>
+              </Box>
+            </Box>
+          </Box>
+        </ListItem>
+
+        <Divider />
+
+        {/* AI service keys, stored encrypted by the main process */}
+        <ServiceKeys />
+
+        <Divider />
+
+        {/* Whether the local embedding model is installed for memory search */}
+        <MemorySearchStatus />
       </List>
     </Paper>
   );